@@ -58,6 +58,7 @@ module.exports = {
   moduleNameMapper: {
     '^@engram/core$': '<rootDir>/../core/src/index.ts',
     '^@engram/core/(.*)$': '<rootDir>/../core/src/$1',
+    '^@engram/server$': '<rootDir>/../server/src/index.ts',
     '^dexie$': '<rootDir>/tests/__mocks__/dexie.ts',
     '^edgevec$': '<rootDir>/tests/__mocks__/edgevec.ts',
     '@xenova/transformers': '<rootDir>/tests/__mocks__/@xenova/transformers.ts',
@@ -14,7 +14,7 @@ import { MasterKey, generateUUID } from '@engram/core';
 import { CryptoService } from '../lib/crypto-service';
 import { StorageService } from '../lib/storage';
 import { Message, createErrorResponse } from '../lib/messages';
-import { handleMessage } from './message-handler';
+import { handleMessage, clearAdapterHealth } from './message-handler';
 import { SyncManager } from '../sync/sync-manager';
 import { authClient } from '../lib/auth-client';
 import { getMigrationService } from '../lib/migration-service';
@@ -23,10 +23,12 @@ import { CloudSyncService } from '../lib/cloud-sync';
 import { premiumService } from '../lib/premium-service';
 import { getPremiumClient } from '../lib/premium-api-client';
 import { EmbeddingMigration } from '../lib/embedding-migration';
+import { EmbeddingModelMigration } from '../lib/embedding-model-migration';
 import type { EnrichmentConfig } from '@engram/core';
 import { decryptApiKey, isEncrypted } from '../lib/api-key-crypto';
 import { createLogger } from '../lib/logger';
 import { ErrorSeverity } from '../lib/github-reporter';
+import { ADAPTER_SPECS_KEY, registerAdapterSpecScripts } from '../lib/adapter-specs';
 
 const logger = createLogger('Background');
 
@@ -93,13 +95,20 @@ class BackgroundService {
       console.log('[Engram] Device ID:', this.deviceId);
 
       // Initialize sync manager
-      this.syncManager = new SyncManager(this.storage, {
+      const syncConfig = {
         serverUrl: 'ws://localhost:3001/ws',
         deviceId: this.deviceId,
         autoConnect: false, // Don't auto-connect for now
         syncOnStartup: false,
-      });
+      };
+      this.syncManager = new SyncManager(this.storage, syncConfig);
       await this.syncManager.initialize();
+      // Recorded changes wait in the sync queue until the connection drains
+      // it, so record them only when sync connects
+      if (syncConfig.autoConnect) {
+        this.storage.setLocalChangeRecorder(this.syncManager);
+      }
+      this.syncManager.onDevicesChanged(() => this.refreshTrustedDevices());
       console.log('[Engram] Sync manager initialized');
 
       // Restore master key if available (for premium sync)
@@ -107,6 +116,7 @@ class BackgroundService {
 
       // Initialize cloud sync if key restored and user is premium
       if (keyRestored) {
+        await this.refreshTrustedDevices();
         await this.initializeCloudSyncIfNeeded();
       }
 
@@ -248,6 +258,37 @@ class BackgroundService {
       }).catch(err => {
         console.error('[Engram] Failed to check migration status:', err);
       });
+
+      // Resume an interrupted embedding model switch
+      EmbeddingModelMigration.needsMigration(this.storage).then(needsMigration => {
+        if (needsMigration) {
+          console.log('[Engram] Embedding model migration pending, resuming...');
+
+          EmbeddingModelMigration.migrateEmbeddings(
+            this.storage!,
+            (current, total) => {
+              if (current % 100 === 0) {
+                console.log(`[ModelMigration] Progress: ${current}/${total}`);
+              }
+            }
+          ).then(stats => {
+            console.log('[ModelMigration] Complete:', stats);
+          }).catch(err => {
+            console.error('[ModelMigration] Failed:', err);
+          });
+        }
+      }).catch(err => {
+        console.error('[Engram] Failed to check embedding model migration status:', err);
+      });
+
+      // Repair HNSW index drift (missing vectors can only be decrypted now)
+      this.storage.checkHNSWConsistency().then(report => {
+        if (report && report.repaired > 0) {
+          console.log('[Engram] HNSW index repaired:', report);
+        }
+      }).catch(err => {
+        console.error('[Engram] HNSW consistency check failed:', err);
+      });
     }
   }
 
@@ -375,7 +416,10 @@ class BackgroundService {
       await this.downloadAndMergeMemories();
 
       // Start periodic sync
-      await this.cloudSync.start(() => this.storage!.getMemories({}));
+      this.cloudSync.onUploadProgress((status) => {
+        console.log(`[CloudSync] Upload ${status.state}: ${status.uploaded}/${status.total}`);
+      });
+      await this.cloudSync.start(this.storage!);
 
       console.log('[CloudSync] Cloud sync initialized and started');
     } catch (error) {
@@ -384,6 +428,26 @@ class BackgroundService {
     }
   }
 
+  /**
+   * Refresh the sync trust registry from the account's device registrations
+   * Called after login, registration, on startup when signed in, and when the
+   * sync server announces devices the registry does not know
+   */
+  async refreshTrustedDevices(): Promise<void> {
+    if (!this.syncManager) {
+      return;
+    }
+
+    try {
+      const devices = await authClient.getDevices();
+      const applied = await this.syncManager.updateTrustedDevices(devices);
+      console.log(`[Engram] Trusted devices refreshed (${devices.length}), ${applied} quarantined operations applied`);
+    } catch (error) {
+      console.warn('[Engram] Failed to refresh trusted devices:', error);
+      // Keep the registry as is - unknown devices stay quarantined until the next refresh
+    }
+  }
+
   /**
    * Initialize premium API client if enrichment provider is 'premium'
    * Called on startup and when enrichment settings change
@@ -483,12 +547,12 @@ class BackgroundService {
 
         if (!localMemory) {
           // New memory from cloud - save locally
-          await this.storage.saveMemory(remoteMemory);
+          await this.storage.saveMemory(remoteMemory, undefined, { remote: true });
           console.log(`[CloudSync] Added new memory from cloud: ${remoteMemory.id}`);
         } else {
           // Conflict - use timestamp to resolve (newer wins)
           if (remoteMemory.timestamp > localMemory.timestamp) {
-            await this.storage.saveMemory(remoteMemory);
+            await this.storage.saveMemory(remoteMemory, undefined, { remote: true });
             console.log(`[CloudSync] Updated memory from cloud: ${remoteMemory.id}`);
           } else {
             console.log(`[CloudSync] Local memory newer, skipping: ${remoteMemory.id}`);
@@ -686,6 +750,9 @@ function isAIPlatform(url?: string): boolean {
     'claude.ai',
     'www.perplexity.ai',
     'gemini.google.com',
+    'chat.deepseek.com',
+    'copilot.microsoft.com',
+    'chat.mistral.ai',
   ];
 
   try {
@@ -708,6 +775,11 @@ function isWebPage(url?: string): boolean {
  * Tab update handler - enable side panel on all web pages
  */
 chrome.tabs.onUpdated.addListener(async (tabId, changeInfo, tab) => {
+  // A reload or navigation starts a new adapter on the page
+  if (changeInfo.status === 'loading') {
+    clearAdapterHealth(tabId);
+  }
+
   // Only process when URL changes or tab loads
   if (changeInfo.status === 'complete' || changeInfo.url) {
     const enabled = isWebPage(tab.url);
@@ -730,6 +802,13 @@ chrome.tabs.onUpdated.addListener(async (tabId, changeInfo, tab) => {
   }
 });
 
+/**
+ * Tab removal handler - forget the tab's capture health
+ */
+chrome.tabs.onRemoved.addListener((tabId) => {
+  clearAdapterHealth(tabId);
+});
+
 /**
  * Tab activation handler - update side panel state when switching tabs
  */
@@ -767,6 +846,26 @@ chrome.action.onClicked.addListener(async (tab) => {
   }
 });
 
+/**
+ * Register the content script on the sites of custom adapter specs
+ */
+function syncAdapterSpecScripts(): void {
+  registerAdapterSpecScripts().catch((error) => {
+    console.error('[Engram] Failed to register adapter spec scripts:', error);
+  });
+}
+
+syncAdapterSpecScripts();
+
+chrome.storage.onChanged.addListener((changes, areaName) => {
+  if (areaName === 'local' && changes[ADAPTER_SPECS_KEY]) {
+    syncAdapterSpecScripts();
+  }
+});
+
+// The user granted a custom spec's site from settings
+chrome.permissions?.onAdded.addListener(() => syncAdapterSpecScripts());
+
 /**
  * Message handler from content scripts
  */
@@ -25,15 +25,67 @@ import {
   StopCloudSyncResponse,
   ReinitializeEnrichmentResponse,
   RevertEvolutionResponse,
+  GetMemoryVersionsResponse,
+  SelectMemoryVersionResponse,
+  ExportBackupResponse,
+  ImportBackupResponse,
+  ExportMarkdownVaultResponse,
+  ImportHistoryResponse,
+  GetImportStatusResponse,
+  GetEmbeddingModelsResponse,
+  SetEmbeddingModelResponse,
+  RetrieveContextResponse,
+  ReportAdapterHealthResponse,
+  GetAdapterHealthResponse,
+  GetQuarantinedOperationsResponse,
+  DismissQuarantinedOperationsResponse,
   AuthState,
   SyncStatus,
   createErrorResponse,
   validateMessage,
 } from '../lib/messages';
 import { BackgroundService } from './index';
-import { Memory } from '@engram/core';
-import { generateUUID, getPlatformFromUrl, base64ToUint8Array, uint8ArrayToBase64 } from '@engram/core';
+import { ExtractedMessage, Memory, Platform, METADATA_KEYS } from '@engram/core';
+import { getPlatformFromUrl, base64ToUint8Array, incrementClock, uint8ArrayToBase64 } from '@engram/core';
 import { premiumService } from '../lib/premium-service';
+import { BackupService } from '../lib/backup-service';
+import { MarkdownExporter } from '../lib/markdown-exporter';
+import { createEncryptedMemory, clearPlaintextContent } from '../lib/encrypted-memory';
+import { getHistoryImportService } from '../lib/history-import';
+import {
+  decodeSearchCursor,
+  encodeSearchCursor,
+  hasStructuredClauses,
+  mergeFilters,
+  parseSearchQuery,
+} from '../lib/search-query';
+import type { SearchPosition } from '../lib/search-query';
+import type { SearchScore } from '../lib/rank-fusion';
+import { buildSearchHits } from '../lib/search-snippets';
+import { EMBEDDING_MODELS, getEmbeddingModel } from '../lib/embedding-models';
+import { EmbeddingModelMigration } from '../lib/embedding-model-migration';
+import { retrieveContext, toContextMemory } from '../lib/context-retrieval';
+import { ContextBuilder } from '../lib/context-builder';
+import { getInjectionTemplate, getKnownInjectionTemplates } from '../lib/injection-templates';
+import { stripInjectedContext, withProvenance } from '../lib/context-provenance';
+import { getVersions, markSelectedVersion, nextBranchIndex, selectVersion } from '../lib/message-versions';
+import { findAdapterSpec, getAdapterSpecs } from '../lib/adapter-specs';
+import {
+  countCaptures,
+  evaluateAdapterHealth,
+  validateAdapterHealthReport,
+  type AdapterHealthReport,
+} from '../lib/adapter-health';
+import { createLogger } from '../lib/logger';
+import { ErrorSeverity } from '../lib/github-reporter';
+import type { CloudUploadStatus } from '../lib/cloud-sync';
+
+const healthLogger = createLogger('AdapterHealth');
+
+/**
+ * Latest adapter health report of each tab (telemetry only, not persisted)
+ */
+const adapterHealthReports = new Map<number, AdapterHealthReport>();
 
 
 /**
@@ -167,6 +219,48 @@ export async function handleMessage(
       case MessageType.REVERT_EVOLUTION:
         return await handleRevertEvolution(message, service);
 
+      case MessageType.GET_MEMORY_VERSIONS:
+        return await handleGetMemoryVersions(message, service);
+
+      case MessageType.SELECT_MEMORY_VERSION:
+        return await handleSelectMemoryVersion(message, service);
+
+      case MessageType.EXPORT_BACKUP:
+        return await handleExportBackup(message, service);
+
+      case MessageType.IMPORT_BACKUP:
+        return await handleImportBackup(message, service);
+
+      case MessageType.EXPORT_MARKDOWN_VAULT:
+        return await handleExportMarkdownVault(service);
+
+      case MessageType.IMPORT_HISTORY:
+        return await handleImportHistory(message, service);
+
+      case MessageType.GET_IMPORT_STATUS:
+        return handleGetImportStatus(service);
+
+      case MessageType.GET_EMBEDDING_MODELS:
+        return await handleGetEmbeddingModels(service);
+
+      case MessageType.SET_EMBEDDING_MODEL:
+        return await handleSetEmbeddingModel(message, service);
+
+      case MessageType.RETRIEVE_CONTEXT:
+        return await handleRetrieveContext(message, service, sender);
+
+      case MessageType.REPORT_ADAPTER_HEALTH:
+        return await handleReportAdapterHealth(message, sender);
+
+      case MessageType.GET_ADAPTER_HEALTH:
+        return handleGetAdapterHealth(message);
+
+      case MessageType.GET_QUARANTINED_OPERATIONS:
+        return await handleGetQuarantinedOperations(service);
+
+      case MessageType.DISMISS_QUARANTINED_OPERATIONS:
+        return await handleDismissQuarantinedOperations(message, service);
+
       default:
         return createErrorResponse(`Unknown message type: ${message.type}`);
     }
@@ -206,7 +300,7 @@ async function handleSaveMessage(
   sender?: any
 ): Promise<SaveMessageResponse> {
   try {
-    const extractedMessage = message.message;
+    let extractedMessage: ExtractedMessage = message.message;
     if (!extractedMessage) {
       throw new Error('Missing message data');
     }
@@ -215,9 +309,7 @@ async function handleSaveMessage(
     const crypto = service.getCrypto();
 
     // Detect platform from sender URL
-    const platform = sender?.tab?.url
-      ? getPlatformFromUrl(sender.tab.url) || 'chatgpt'
-      : 'chatgpt'; // fallback
+    const platform = await detectPlatform(sender?.tab?.url, 'chatgpt');
 
     console.log('[Engram] Detected platform:', platform, 'from URL:', sender?.tab?.url);
 
@@ -232,47 +324,66 @@ async function handleSaveMessage(
       throw new Error('Master key not available');
     }
 
-    // Encrypt the content using master key
-    const contentJson = JSON.stringify({
-      role: extractedMessage.role,
-      text: extractedMessage.content,
-      metadata: extractedMessage.metadata,
-    });
+    // Injected context is stored as provenance, never as the user's text
+    // (the content script removes blocks it injected itself; this catches the rest)
+    if (extractedMessage.role === 'user') {
+      const stripped = stripInjectedContext(extractedMessage.content, await getKnownInjectionTemplates(platform));
+      if (stripped) {
+        console.log(`[Engram] Removed injected context citing ${stripped.memoryIds.length} memories`);
+        extractedMessage = withProvenance(extractedMessage, stripped.text, { memoryIds: stripped.memoryIds, source: 'detected' });
+      }
+    }
 
-    const encrypted = await crypto.encrypt(contentJson, masterKey.key);
+    const { memory, plaintextContent } = await createEncryptedMemory(extractedMessage, {
+      platform,
+      deviceId: service.getDeviceId(),
+      crypto,
+      masterKey,
+    });
 
     console.log('[Engram] Content encrypted with master key');
 
-    // Create memory object with encrypted content
-    // IMPORTANT: We store encrypted content only. The 'content' field is a placeholder
-    // and will be populated by decrypting 'encryptedContent' when retrieving memories.
-    const memory: any = {
-      id: generateUUID(),
-      conversationId: extractedMessage.conversationId,
-      platform,
-      content: {
-        role: extractedMessage.role,
-        text: null as any, // SECURITY: null indicates encrypted content, use encryptedContent field
-        metadata: null as any, // SECURITY: null indicates encrypted metadata
-      },
-      encryptedContent: encrypted, // Store the complete encrypted blob with version and algorithm
-      timestamp: extractedMessage.timestamp || Date.now(),
-      vectorClock: {
-        [service.getDeviceId()]: 1,
-      },
-      deviceId: service.getDeviceId(),
-      syncStatus: 'pending',
-      tags: [],
-    };
+    const branch = extractedMessage.metadata?.branch;
+    if (branch) {
+      memory.branchIndex = branch.index;
+    }
 
-    // Save to storage WITH plaintext content for enrichment
-    // The plaintext is needed for LLM-based enrichment (keywords/tags extraction)
-    // It's only used temporarily and never persisted in plaintext
-    const plaintextContent = {
-      role: extractedMessage.role,
-      text: extractedMessage.content,
-      metadata: extractedMessage.metadata,
-    };
+    // An edit or regeneration is another version of the message it branched from
+    let siblingVersions: Memory[] = [];
+    if (message.branchOf) {
+      const current = await storage.getMemory(message.branchOf);
+      if (current && current.conversationId === memory.conversationId) {
+        const versions = await getVersions(storage, current);
+        const root = versions.find((version) => !version.parentId) || current;
+        // The platform shows a version that was captured before: update it in place
+        const previous = branch && versions.find((version) => (version.branchIndex ?? 0) === branch.index);
+
+        memory.id = previous ? previous.id : memory.id;
+        if (memory.id !== root.id) memory.parentId = root.id;
+        memory.branchIndex = branch?.index ?? nextBranchIndex(versions);
+        memory.branchSelected = true;
+        memory.timestamp = root.timestamp;
+        memory.tags = (previous || root).tags;
+        if (previous) {
+          memory.vectorClock = incrementClock(previous.vectorClock || {}, service.getDeviceId());
+        }
+        siblingVersions = versions.filter((version) => version.id !== memory.id);
+        console.log(`[Engram] Saving version ${memory.branchIndex} of memory ${root.id} (${extractedMessage.metadata?.revision})`);
+      }
+    } else if (message.replaces) {
+      // A continued stream updates the memory of the earlier version
+      const previous = await storage.getMemory(message.replaces);
+      if (previous && previous.conversationId === memory.conversationId) {
+        memory.id = previous.id;
+        memory.timestamp = previous.timestamp;
+        memory.tags = previous.tags;
+        memory.vectorClock = incrementClock(previous.vectorClock || {}, service.getDeviceId());
+        if (previous.parentId) memory.parentId = previous.parentId;
+        if (previous.branchIndex !== undefined) memory.branchIndex = previous.branchIndex;
+        if (previous.branchSelected !== undefined) memory.branchSelected = previous.branchSelected;
+        console.log(`[Engram] Revising memory ${previous.id} (${extractedMessage.metadata?.revision})`);
+      }
+    }
 
     // Check if enrichment is enabled to use atomic persistence
     const enrichmentConfig = await storage.getEnrichmentConfig();
@@ -289,16 +400,11 @@ async function handleSaveMessage(
     });
 
     // SECURITY: Explicitly clear plaintext from memory
-    // Zero out the plaintext to minimize exposure window
-    if (plaintextContent) {
-      plaintextContent.text = '';
-      plaintextContent.role = 'user';
-      if (plaintextContent.metadata) {
-        Object.keys(plaintextContent.metadata).forEach(key => {
-          delete (plaintextContent.metadata as any)[key];
-        });
-      }
-      plaintextContent.metadata = undefined;
+    clearPlaintextContent(plaintextContent);
+
+    // The new version is the one the conversation now shows
+    if (siblingVersions.length > 0) {
+      await markSelectedVersion(storage, siblingVersions, memory.id, service.getDeviceId());
     }
 
     console.log('[Engram] Saved memory:', memory.id);
@@ -359,14 +465,35 @@ async function handleSearchMemories(
 ): Promise<SearchMemoriesResponse> {
   try {
     const storage = service.getStorage();
-    const { query, limit } = message;
+    const { query = '', limit, cursor } = message;
 
-    if (!query) {
+    if (!query && !message.filter) {
       throw new Error('Search query is required');
     }
 
-    // Use storage search which handles both semantic (HNSW) and keyword fallback
-    const results = await storage.searchMemories(query, limit || 20);
+    // Compile query language (platform:, tag:, "phrases", -exclusions, ...)
+    // and combine it with the request filter
+    const parsedQuery = parseSearchQuery(query);
+    parsedQuery.filter = mergeFilters(message.filter, parsedQuery.filter);
+
+    // Page through the ranking: resume after the previous page's last result (+1 to detect more)
+    const pageSize = limit || 20;
+    const after = cursor ? decodeSearchCursor(cursor, query, parsedQuery.filter) : undefined;
+
+    // Free text is ranked by hybrid search (BM25 + HNSW) with keyword fallback
+    // Message versions the conversation is not showing are left out unless asked for
+    const scores = new Map<string, SearchScore>();
+    const positions = new Map<string, SearchPosition>();
+    const branches = parsedQuery.filter.branches ?? 'selected';
+    const options = { scores, branches, after, positions };
+    const ranked = hasStructuredClauses(parsedQuery)
+      ? await storage.queryMemories(parsedQuery, pageSize + 1, options)
+      : await storage.searchMemories(query, pageSize + 1, options);
+    const results = ranked.slice(0, pageSize);
+    const last = results[results.length - 1];
+    const nextCursor = ranked.length > pageSize
+      ? encodeSearchCursor(positions.get(last.id)!, query, parsedQuery.filter)
+      : undefined;
 
     // Decrypt the search results
     const decryptedResults = await decryptMemories(results, service);
@@ -374,35 +501,41 @@ async function handleSearchMemories(
     // Map memories to their original index for stable tie-breaking (preserves semantic rank)
     const originalOrder = new Map(decryptedResults.map((m, i) => [m.id, i]));
 
-    // Sort by relevance (keyword matching if they have the query in text)
-    const normalizedQuery = query.toLowerCase().trim();
+    // Sort the page by relevance (keyword matching if they have the query in text)
+    // Filter-only queries keep storage order (newest first)
+    const normalizedQuery = parsedQuery.text.toLowerCase().trim();
     const escapedQuery = normalizedQuery.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
     const queryRegExp = new RegExp(escapedQuery, 'g');
 
-    decryptedResults.sort((a, b) => {
-      const aText = a.content?.text?.toLowerCase() || '';
-      const bText = b.content?.text?.toLowerCase() || '';
-      const aOccurrences = (aText.match(queryRegExp) || []).length;
-      const bOccurrences = (bText.match(queryRegExp) || []).length;
+    if (normalizedQuery) {
+      decryptedResults.sort((a, b) => {
+        const aText = a.content?.text?.toLowerCase() || '';
+        const bText = b.content?.text?.toLowerCase() || '';
+        const aOccurrences = (aText.match(queryRegExp) || []).length;
+        const bOccurrences = (bText.match(queryRegExp) || []).length;
 
-      if (aOccurrences !== bOccurrences) {
-        return bOccurrences - aOccurrences; // More occurrences first
-      }
+        if (aOccurrences !== bOccurrences) {
+          return bOccurrences - aOccurrences; // More occurrences first
+        }
 
-      // If same occurrences, preserve original order from storage (which might be semantic)
-      const aIndex = originalOrder.get(a.id) ?? 999;
-      const bIndex = originalOrder.get(b.id) ?? 999;
-      return aIndex - bIndex;
-    });
+        // If same occurrences, preserve original order from storage (which might be semantic)
+        const aIndex = originalOrder.get(a.id) ?? 999;
+        const bIndex = originalOrder.get(b.id) ?? 999;
+        return aIndex - bIndex;
+      });
+    }
 
-    const limitedResults = limit ? decryptedResults.slice(0, limit) : decryptedResults;
+    // Highlighted passages and lexical/semantic score breakdown per result
+    const hits = buildSearchHits(parsedQuery, decryptedResults, scores);
 
-    console.log(`[Engram] Search for "${query}" found ${results.length} results (returning ${limitedResults.length})`);
+    console.log(`[Engram] Search for "${query}" returned ${decryptedResults.length} results${after ? ' after the cursor' : ''}`);
 
     return {
       type: MessageType.SEARCH_MEMORIES_RESPONSE,
       success: true,
-      memories: limitedResults,
+      memories: decryptedResults,
+      hits,
+      nextCursor,
     };
   } catch (error) {
     console.error('[Engram] Failed to search memories:', error);
@@ -434,6 +567,7 @@ async function handleGetSyncStatus(
 
     // Get last sync time from metadata
     const lastSyncTime = await storage.getMetadata<number>('lastSyncTime');
+    const upload = await storage.getMetadata<CloudUploadStatus>(METADATA_KEYS.CLOUD_UPLOAD);
 
     const cloudSync = service.getCloudSync();
     let isConnected = cloudSync?.isStarted() || false;
@@ -453,6 +587,7 @@ async function handleGetSyncStatus(
       lastSyncTime: lastSyncTime || undefined,
       pendingOperations,
       deviceId,
+      upload: upload || undefined,
     };
 
     return {
@@ -580,6 +715,9 @@ async function handleAuthRegister(
       // Continue anyway - device registration can be retried later
     }
 
+    // Trust the account's devices for sync
+    await service.refreshTrustedDevices();
+
     // 5. Initialize cloud sync if user is premium with sync enabled
     await service.initializeCloudSyncIfNeeded();
 
@@ -676,7 +814,10 @@ async function handleAuthLogin(
 
     console.log('[Engram] Master key persisted (encrypted)');
 
-    // 4. Initialize cloud sync if user is premium with sync enabled
+    // 4. Trust the account's devices for sync
+    await service.refreshTrustedDevices();
+
+    // 5. Initialize cloud sync if user is premium with sync enabled
     await service.initializeCloudSyncIfNeeded();
 
     return {
@@ -1148,3 +1289,536 @@ async function handleRevertEvolution(
     };
   }
 }
+
+/**
+ * Handle get memory versions request
+ */
+async function handleGetMemoryVersions(
+  message: any,
+  service: BackgroundService
+): Promise<GetMemoryVersionsResponse> {
+  try {
+    const storage = service.getStorage();
+    const memory = message.memoryId ? await storage.getMemory(message.memoryId) : null;
+    if (!memory) {
+      throw new Error('Memory not found');
+    }
+
+    const versions = await getVersions(storage, memory);
+
+    return {
+      type: MessageType.GET_MEMORY_VERSIONS_RESPONSE,
+      success: true,
+      versions: await decryptMemories(versions, service),
+    };
+  } catch (error) {
+    console.error('[Engram] Failed to get memory versions:', error);
+    return {
+      type: MessageType.GET_MEMORY_VERSIONS_RESPONSE,
+      success: false,
+      error: (error as Error).message,
+    };
+  }
+}
+
+/**
+ * Handle select memory version request
+ * The selected version is the one lists, search and retrieval use
+ */
+async function handleSelectMemoryVersion(
+  message: any,
+  service: BackgroundService
+): Promise<SelectMemoryVersionResponse> {
+  try {
+    if (!message.memoryId) {
+      throw new Error('Missing memoryId');
+    }
+
+    const versions = await selectVersion(service.getStorage(), message.memoryId, service.getDeviceId());
+    console.log(`[Engram] Selected version ${message.memoryId}`);
+
+    return {
+      type: MessageType.SELECT_MEMORY_VERSION_RESPONSE,
+      success: true,
+      versions: await decryptMemories(versions, service),
+    };
+  } catch (error) {
+    console.error('[Engram] Failed to select memory version:', error);
+    return {
+      type: MessageType.SELECT_MEMORY_VERSION_RESPONSE,
+      success: false,
+      error: (error as Error).message,
+    };
+  }
+}
+
+/**
+ * Handle export backup request
+ * Serializes the whole database into a passphrase-encrypted archive
+ */
+async function handleExportBackup(
+  message: any,
+  service: BackgroundService
+): Promise<ExportBackupResponse> {
+  try {
+    const { passphrase } = message;
+
+    if (!passphrase) {
+      throw new Error('Backup passphrase is required');
+    }
+
+    const masterKey = service.getMasterKey();
+    if (!service.hasMasterKey() || !masterKey) {
+      throw new Error('Authentication required. Please login to export a backup.');
+    }
+
+    console.log('[Backup] Exporting encrypted backup');
+
+    const backupService = new BackupService(service.getStorage(), service.getCrypto());
+    const result = await backupService.exportBackup(passphrase, masterKey);
+
+    const date = new Date().toISOString().split('T')[0];
+
+    return {
+      type: MessageType.EXPORT_BACKUP_RESPONSE,
+      success: true,
+      backup: result.file,
+      filename: `engram-backup-${date}.json`,
+      memoryCount: result.memories,
+      skippedCount: result.skipped,
+    };
+  } catch (error) {
+    console.error('[Backup] Failed to export backup:', error);
+    return {
+      type: MessageType.EXPORT_BACKUP_RESPONSE,
+      success: false,
+      error: (error as Error).message,
+    };
+  }
+}
+
+/**
+ * Handle import backup request
+ * Verifies, decrypts and restores an encrypted archive, then rebuilds the vector index
+ */
+async function handleImportBackup(
+  message: any,
+  service: BackgroundService
+): Promise<ImportBackupResponse> {
+  try {
+    const { backup, passphrase, conflictStrategy } = message;
+
+    if (!backup) {
+      throw new Error('Missing backup data');
+    }
+
+    if (!passphrase) {
+      throw new Error('Backup passphrase is required');
+    }
+
+    const masterKey = service.getMasterKey();
+    if (!service.hasMasterKey() || !masterKey) {
+      throw new Error('Authentication required. Please login to restore a backup.');
+    }
+
+    console.log('[Backup] Restoring encrypted backup');
+
+    const backupService = new BackupService(service.getStorage(), service.getCrypto());
+    const result = await backupService.importBackup(backup, passphrase, masterKey, {
+      conflictStrategy,
+      onProgress: (current, total) => {
+        console.log(`[Backup] Restore progress: ${current}/${total}`);
+      },
+    });
+
+    return {
+      type: MessageType.IMPORT_BACKUP_RESPONSE,
+      success: true,
+      result,
+    };
+  } catch (error) {
+    console.error('[Backup] Failed to import backup:', error);
+    return {
+      type: MessageType.IMPORT_BACKUP_RESPONSE,
+      success: false,
+      error: (error as Error).message,
+    };
+  }
+}
+
+/**
+ * Handle markdown vault export request
+ * Decrypts every conversation into an Obsidian-compatible note
+ */
+async function handleExportMarkdownVault(
+  service: BackgroundService
+): Promise<ExportMarkdownVaultResponse> {
+  try {
+    const masterKey = service.getMasterKey();
+    if (!service.hasMasterKey() || !masterKey) {
+      throw new Error('Authentication required. Please login to export conversations.');
+    }
+
+    console.log('[MarkdownExport] Exporting markdown vault');
+
+    const exporter = new MarkdownExporter(service.getStorage(), service.getCrypto());
+    const result = await exporter.exportVault(masterKey);
+
+    const date = new Date().toISOString().split('T')[0];
+
+    return {
+      type: MessageType.EXPORT_MARKDOWN_VAULT_RESPONSE,
+      success: true,
+      files: result.files,
+      filename: `engram-vault-${date}.zip`,
+      conversationCount: result.conversations,
+      memoryCount: result.memories,
+      skippedCount: result.skipped,
+    };
+  } catch (error) {
+    console.error('[MarkdownExport] Failed to export markdown vault:', error);
+    return {
+      type: MessageType.EXPORT_MARKDOWN_VAULT_RESPONSE,
+      success: false,
+      error: (error as Error).message,
+    };
+  }
+}
+
+/**
+ * Handle history import request
+ * Saves one batch of conversations from a ChatGPT/Claude export; enrichment
+ * and embedding continue in the background
+ */
+async function handleImportHistory(
+  message: any,
+  service: BackgroundService
+): Promise<ImportHistoryResponse> {
+  try {
+    const { source, conversations, batch } = message;
+
+    if (!source || !Array.isArray(conversations) || !batch) {
+      throw new Error('Missing export data');
+    }
+
+    const masterKey = service.getMasterKey();
+    if (!service.hasMasterKey() || !masterKey) {
+      throw new Error('Authentication required. Please login to import history.');
+    }
+
+    console.log(`[HistoryImport] Importing batch ${batch.index + 1}/${batch.count}`);
+
+    const importService = getHistoryImportService(service.getStorage(), service.getCrypto());
+    const result = await importService.importConversations(source, conversations, masterKey, service.getDeviceId(), batch);
+
+    return {
+      type: MessageType.IMPORT_HISTORY_RESPONSE,
+      success: true,
+      result,
+    };
+  } catch (error) {
+    console.error('[HistoryImport] Failed to import history:', error);
+    return {
+      type: MessageType.IMPORT_HISTORY_RESPONSE,
+      success: false,
+      error: (error as Error).message,
+    };
+  }
+}
+
+/**
+ * Handle get import status request
+ */
+function handleGetImportStatus(service: BackgroundService): GetImportStatusResponse {
+  const importService = getHistoryImportService(service.getStorage(), service.getCrypto());
+
+  return {
+    type: MessageType.GET_IMPORT_STATUS_RESPONSE,
+    success: true,
+    status: importService.getStatus(),
+  };
+}
+
+/**
+ * Handle get embedding models request
+ * Lists the registry with the active model and any re-embedding in progress
+ */
+async function handleGetEmbeddingModels(
+  service: BackgroundService
+): Promise<GetEmbeddingModelsResponse> {
+  try {
+    const storage = service.getStorage();
+
+    return {
+      type: MessageType.GET_EMBEDDING_MODELS_RESPONSE,
+      success: true,
+      models: EMBEDDING_MODELS,
+      active: await storage.getEmbeddingModelSettings(),
+      migration: await EmbeddingModelMigration.getStatus(storage),
+    };
+  } catch (error) {
+    console.error('[Embeddings] Failed to get embedding models:', error);
+    return {
+      type: MessageType.GET_EMBEDDING_MODELS_RESPONSE,
+      success: false,
+      error: (error as Error).message,
+    };
+  }
+}
+
+/**
+ * Handle set embedding model request
+ * Starts re-embedding all memories in the background; the current model keeps
+ * serving searches until it completes
+ */
+async function handleSetEmbeddingModel(
+  message: any,
+  service: BackgroundService
+): Promise<SetEmbeddingModelResponse> {
+  try {
+    const { modelId, endpoint } = message;
+
+    if (!modelId) {
+      throw new Error('Missing embedding model');
+    }
+
+    if (!service.hasMasterKey()) {
+      throw new Error('Authentication required. Please login to change the embedding model.');
+    }
+
+    const storage = service.getStorage();
+
+    // Local models default to the endpoint enrichment already uses
+    const localEndpoint = getEmbeddingModel(modelId).backend === 'openai-compatible'
+      ? endpoint || (await storage.getEnrichmentConfig()).localEndpoint
+      : undefined;
+
+    const migration = await EmbeddingModelMigration.start(storage, {
+      modelId,
+      ...(localEndpoint ? { endpoint: localEndpoint } : {}),
+    });
+
+    if (migration) {
+      EmbeddingModelMigration.migrateEmbeddings(storage).catch((err) => {
+        console.error('[Embeddings] Embedding model migration failed:', err);
+      });
+    }
+
+    return {
+      type: MessageType.SET_EMBEDDING_MODEL_RESPONSE,
+      success: true,
+      migration,
+    };
+  } catch (error) {
+    console.error('[Embeddings] Failed to set embedding model:', error);
+    return {
+      type: MessageType.SET_EMBEDDING_MODEL_RESPONSE,
+      success: false,
+      error: (error as Error).message,
+    };
+  }
+}
+
+/**
+ * Handle retrieve context request
+ * Ranks memories for a draft prompt so content scripts never hold the library or its vectors
+ */
+async function handleRetrieveContext(
+  message: any,
+  service: BackgroundService,
+  sender?: any
+): Promise<RetrieveContextResponse> {
+  try {
+    const { prompt, maxResults, assemble, tokenBudget, include, exclude } = message;
+
+    if (!prompt || typeof prompt !== 'string') {
+      throw new Error('Prompt is required');
+    }
+
+    if (!service.hasMasterKey()) {
+      throw new Error('Master key not available');
+    }
+
+    const storage = service.getStorage();
+    const candidates = await retrieveContext(storage, prompt, { maxResults, include, exclude });
+
+    // Decrypt only the candidates that will be injected
+    const decrypted = await decryptMemories(candidates.map((c) => c.memory), service);
+    const leanCandidates = candidates.map((candidate, i) => ({
+      ...candidate,
+      memory: toContextMemory(decrypted[i]),
+    }));
+
+    // Token-budgeted block laid out by the sender platform's template
+    // (overflow summarized by the enrichment provider)
+    let context;
+    if (assemble) {
+      const platform = await detectPlatform(sender?.tab?.url, 'generic');
+      context = await new ContextBuilder(await storage.getEnrichmentConfig()).build(leanCandidates, {
+        platform,
+        budget: tokenBudget,
+        template: await getInjectionTemplate(platform),
+        prompt,
+      });
+    }
+
+    return {
+      type: MessageType.RETRIEVE_CONTEXT_RESPONSE,
+      success: true,
+      candidates: leanCandidates,
+      context,
+    };
+  } catch (error) {
+    console.error('[Engram] Failed to retrieve context:', error);
+    return {
+      type: MessageType.RETRIEVE_CONTEXT_RESPONSE,
+      success: false,
+      error: (error as Error).message,
+    };
+  }
+}
+
+/**
+ * Forget the health report of a tab (closed, or navigated to another page)
+ */
+export function clearAdapterHealth(tabId: number): void {
+  adapterHealthReports.delete(tabId);
+}
+
+/**
+ * Handle a capture health report from a content script
+ * A report carrying a DOM shape is filed through the GitHub reporter
+ */
+async function handleReportAdapterHealth(
+  message: any,
+  sender: any
+): Promise<ReportAdapterHealthResponse> {
+  const tabId = sender?.tab?.id;
+  if (typeof tabId !== 'number') {
+    return {
+      type: MessageType.REPORT_ADAPTER_HEALTH_RESPONSE,
+      success: false,
+      error: 'Health reports must come from a tab',
+    };
+  }
+
+  const { report, domShape } = message;
+  const errors = validateAdapterHealthReport(report);
+  if (errors.length > 0) {
+    return {
+      type: MessageType.REPORT_ADAPTER_HEALTH_RESPONSE,
+      success: false,
+      error: `Invalid health report: ${errors.join('; ')}`,
+    };
+  }
+  adapterHealthReports.set(tabId, report);
+
+  if (domShape) {
+    const { status, reasons } = evaluateAdapterHealth(report);
+    const error = new Error(`Selector drift on ${report.platform}: capture ${status}`);
+    error.name = 'SelectorDriftError';
+
+    // Counts and shapes only; conversation IDs and text stay on the device
+    await healthLogger.reportError(error, {
+      operation: 'selectorDrift',
+      severity: status === 'failing' ? ErrorSeverity.HIGH : ErrorSeverity.LOW,
+      userAction: `Capturing messages on ${report.platform}`,
+      additionalData: {
+        platform: report.platform,
+        status,
+        reasons,
+        selectors: report.selectors,
+        captures: countCaptures(report),
+        conversations: Object.keys(report.captures).length,
+        inferredRoles: report.inferredRoles,
+        domShape,
+      },
+    });
+  }
+
+  return {
+    type: MessageType.REPORT_ADAPTER_HEALTH_RESPONSE,
+    success: true,
+  };
+}
+
+/**
+ * Handle a request for the capture health of a tab
+ */
+function handleGetAdapterHealth(
+  message: any
+): GetAdapterHealthResponse {
+  const report = adapterHealthReports.get(message.tabId);
+
+  return {
+    type: MessageType.GET_ADAPTER_HEALTH_RESPONSE,
+    success: true,
+    report,
+    health: report ? evaluateAdapterHealth(report) : undefined,
+  };
+}
+
+/**
+ * Handle a request for the sync operations that failed verification
+ */
+async function handleGetQuarantinedOperations(
+  service: BackgroundService
+): Promise<GetQuarantinedOperationsResponse> {
+  try {
+    const operations = await service.getSyncManager().getQuarantinedOperations();
+
+    return {
+      type: MessageType.GET_QUARANTINED_OPERATIONS_RESPONSE,
+      success: true,
+      operations,
+    };
+  } catch (error) {
+    console.error('[Engram] Failed to get quarantined operations:', error);
+    return {
+      type: MessageType.GET_QUARANTINED_OPERATIONS_RESPONSE,
+      success: false,
+      error: (error as Error).message,
+    };
+  }
+}
+
+/**
+ * Handle discarding quarantined sync operations
+ */
+async function handleDismissQuarantinedOperations(
+  message: any,
+  service: BackgroundService
+): Promise<DismissQuarantinedOperationsResponse> {
+  try {
+    if (!Array.isArray(message.operationIds)) {
+      throw new Error('operationIds must be an array');
+    }
+
+    await service.getSyncManager().dismissQuarantinedOperations(message.operationIds);
+
+    return {
+      type: MessageType.DISMISS_QUARANTINED_OPERATIONS_RESPONSE,
+      success: true,
+    };
+  } catch (error) {
+    console.error('[Engram] Failed to dismiss quarantined operations:', error);
+    return {
+      type: MessageType.DISMISS_QUARANTINED_OPERATIONS_RESPONSE,
+      success: false,
+      error: (error as Error).message,
+    };
+  }
+}
+
+/**
+ * Platform of a sender URL: a built-in platform, else the adapter spec covering it
+ */
+async function detectPlatform(url: string | undefined, fallback: Platform): Promise<Platform> {
+  if (!url) return fallback;
+
+  const platform = getPlatformFromUrl(url);
+  if (platform) return platform;
+
+  const spec = findAdapterSpec(url, await getAdapterSpecs());
+  return spec?.platform || fallback;
+}
@@ -0,0 +1,226 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import type { AdapterSpec } from '@engram/core';
+import { useToast, useTheme, Button } from './ui';
+import {
+  BUILTIN_ADAPTER_SPECS,
+  deleteCustomAdapterSpec,
+  getCustomAdapterSpecs,
+  parseAdapterSpec,
+  saveCustomAdapterSpec,
+} from '../lib/adapter-specs';
+import { testAdapterSpec, type AdapterSpecTestResult } from '../content/platforms/spec-adapter';
+
+const EXAMPLE_SPEC: AdapterSpec = {
+  id: 'my-chat',
+  name: 'My Chat',
+  platform: 'generic',
+  matches: ['https://chat.example.com/*'],
+  conversationIdPattern: '/c/([\\w-]+)',
+  selectors: {
+    container: 'main',
+    message: '.message',
+    codeBlock: 'pre code',
+    input: 'textarea',
+    sendButton: 'button[type="submit"]',
+  },
+  roles: [
+    { role: 'user', selector: '.message.user' },
+    { role: 'assistant', selector: '.message.assistant' },
+  ],
+  cleanup: { remove: ['button'] },
+};
+
+/**
+ * AdapterSpecSettings - Capture chat sites without a built-in adapter
+ *
+ * A spec (JSON) describes where a site keeps its messages. It can be tested
+ * against a saved HTML snapshot of the site before saving; saving asks for
+ * access to the site.
+ */
+export const AdapterSpecSettings: React.FC = () => {
+  const [specs, setSpecs] = useState<AdapterSpec[]>([]);
+  const [json, setJson] = useState(JSON.stringify(EXAMPLE_SPEC, null, 2));
+  const [snapshot, setSnapshot] = useState('');
+  const [snapshotUrl, setSnapshotUrl] = useState('');
+  const [result, setResult] = useState<AdapterSpecTestResult | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const { success, error: showError } = useToast();
+  const { colors } = useTheme();
+
+  const loadSpecs = useCallback(async () => {
+    try {
+      setSpecs(await getCustomAdapterSpecs());
+    } catch (err) {
+      console.error('Failed to load adapter specs:', err);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadSpecs();
+  }, [loadSpecs]);
+
+  const editSpec = (spec: AdapterSpec) => {
+    setJson(JSON.stringify(spec, null, 2));
+    setResult(null);
+  };
+
+  const runTest = () => {
+    try {
+      setResult(testAdapterSpec(parseAdapterSpec(json), snapshot, snapshotUrl));
+    } catch (err) {
+      setResult({ errors: [err instanceof Error ? err.message : 'Invalid spec'], warnings: [], messages: [] });
+    }
+  };
+
+  const saveSpec = async () => {
+    setIsSaving(true);
+    try {
+      const spec = parseAdapterSpec(json);
+
+      // Sites outside the manifest need the user's permission
+      const granted = await chrome.permissions.request({ origins: spec.matches });
+      if (!granted) {
+        throw new Error(`Access to ${spec.matches.join(', ')} was not granted`);
+      }
+
+      await saveCustomAdapterSpec(spec);
+      await loadSpecs();
+      success(`${spec.name} saved. Reload its tabs to start capturing.`);
+    } catch (err) {
+      console.error('Failed to save adapter spec:', err);
+      showError(err instanceof Error ? err.message : 'Failed to save spec');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const deleteSpec = async (spec: AdapterSpec) => {
+    try {
+      await deleteCustomAdapterSpec(spec.id);
+      await loadSpecs();
+      success(`${spec.name} removed`);
+    } catch (err) {
+      console.error('Failed to delete adapter spec:', err);
+      showError(err instanceof Error ? err.message : 'Failed to delete spec');
+    }
+  };
+
+  const fieldStyle: React.CSSProperties = {
+    width: '100%',
+    padding: '8px 12px',
+    fontSize: '12px',
+    fontFamily: 'monospace',
+    backgroundColor: colors.background,
+    border: `1px solid ${colors.border}`,
+    borderRadius: '6px',
+    color: colors.text.primary,
+    outline: 'none',
+    resize: 'vertical',
+    boxSizing: 'border-box',
+  };
+
+  const labelStyle: React.CSSProperties = {
+    fontSize: '12px',
+    color: colors.text.secondary,
+    marginBottom: '6px',
+  };
+
+  const rowStyle: React.CSSProperties = {
+    display: 'flex',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    padding: '6px 0',
+    fontSize: '13px',
+    color: colors.text.primary,
+    borderBottom: `1px solid ${colors.border}`,
+  };
+
+  const builtinIds = new Set(BUILTIN_ADAPTER_SPECS.map((spec) => spec.id));
+
+  return (
+    <>
+      <div style={{ fontSize: '12px', color: colors.text.secondary, marginBottom: '16px', lineHeight: '1.6' }}>
+        Capture conversations on chat sites without a built-in adapter. Built in:{' '}
+        {BUILTIN_ADAPTER_SPECS.map((spec) => spec.name).join(', ')}.
+      </div>
+
+      {specs.length > 0 && (
+        <div style={{ marginBottom: '16px' }}>
+          {specs.map((spec) => (
+            <div key={spec.id} style={rowStyle}>
+              <span>
+                {spec.name}
+                {builtinIds.has(spec.id) ? ' (overrides built-in)' : ''}
+                <span style={{ fontSize: '11px', color: colors.text.tertiary }}> — {spec.matches.join(', ')}</span>
+              </span>
+              <span style={{ display: 'flex', gap: '4px' }}>
+                <Button variant="ghost" size="sm" onClick={() => editSpec(spec)}>
+                  Edit
+                </Button>
+                <Button variant="ghost" size="sm" onClick={() => deleteSpec(spec)}>
+                  Delete
+                </Button>
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div style={{ marginBottom: '12px' }}>
+        <div style={labelStyle}>Spec (JSON)</div>
+        <textarea rows={12} value={json} onChange={(e) => setJson(e.target.value)} style={fieldStyle} spellCheck={false} />
+      </div>
+
+      <div style={{ marginBottom: '12px' }}>
+        <div style={labelStyle}>Test against a page snapshot — URL and HTML of a conversation</div>
+        <input
+          type="url"
+          value={snapshotUrl}
+          onChange={(e) => setSnapshotUrl(e.target.value)}
+          placeholder="https://chat.example.com/c/123"
+          style={{ ...fieldStyle, marginBottom: '8px' }}
+        />
+        <textarea
+          rows={4}
+          value={snapshot}
+          onChange={(e) => setSnapshot(e.target.value)}
+          placeholder="Paste the page HTML (devtools → Copy outerHTML of <html>)"
+          style={fieldStyle}
+          spellCheck={false}
+        />
+      </div>
+
+      {result && (
+        <div style={{ fontSize: '11px', lineHeight: '1.6', marginBottom: '12px' }}>
+          {result.errors.map((message) => (
+            <div key={message} style={{ color: colors.status.error }}>{message}</div>
+          ))}
+          {result.warnings.map((message) => (
+            <div key={message} style={{ color: colors.status.warning }}>{message}</div>
+          ))}
+          {result.errors.length === 0 && (
+            <div style={{ color: colors.text.secondary }}>
+              {result.messages.length} message(s) captured:
+              {result.messages.map((message, i) => (
+                <div key={i} style={{ color: colors.text.tertiary }}>
+                  {message.role}: {message.content.slice(0, 80)}
+                  {message.content.length > 80 ? '…' : ''}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
+      <div style={{ display: 'flex', gap: '8px' }}>
+        <Button variant="ghost" size="sm" onClick={runTest} disabled={!snapshot || !snapshotUrl}>
+          Test
+        </Button>
+        <Button size="sm" onClick={saveSpec} disabled={isSaving}>
+          Save
+        </Button>
+      </div>
+    </>
+  );
+};
@@ -0,0 +1,85 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import type { Platform } from '@engram/core';
+import { useTheme } from './ui';
+import { sendGetAdapterHealth } from '../lib/messages';
+import type { AdapterHealthEvaluation } from '../lib/adapter-health';
+
+const PLATFORM_NAMES: Partial<Record<Platform, string>> = {
+  chatgpt: 'ChatGPT',
+  claude: 'Claude',
+  gemini: 'Gemini',
+  perplexity: 'Perplexity',
+  deepseek: 'DeepSeek',
+  copilot: 'Copilot',
+  mistral: 'Le Chat',
+};
+
+const POLL_INTERVAL_MS = 10_000;
+
+/**
+ * CaptureHealthBanner - Warns when the AI chat page in the active tab yields
+ * no captured messages, usually because the platform changed its layout
+ */
+export const CaptureHealthBanner: React.FC = () => {
+  const { colors } = useTheme();
+  const [platform, setPlatform] = useState<Platform | null>(null);
+  const [health, setHealth] = useState<AdapterHealthEvaluation | null>(null);
+
+  const checkHealth = useCallback(async () => {
+    try {
+      const [tab] = await chrome.tabs.query({ active: true, currentWindow: true });
+      if (tab?.id === undefined) return;
+
+      const response = await sendGetAdapterHealth(tab.id);
+      setPlatform(response.report?.platform || null);
+      setHealth(response.health || null);
+    } catch (err) {
+      console.error('[Engram Side Panel] Failed to get capture health:', err);
+    }
+  }, []);
+
+  useEffect(() => {
+    checkHealth();
+    const intervalId = setInterval(checkHealth, POLL_INTERVAL_MS);
+    const onActivated = () => checkHealth();
+    chrome.tabs.onActivated.addListener(onActivated);
+
+    return () => {
+      clearInterval(intervalId);
+      chrome.tabs.onActivated.removeListener(onActivated);
+    };
+  }, [checkHealth]);
+
+  if (!platform || health?.status !== 'failing') {
+    return null;
+  }
+
+  const name = PLATFORM_NAMES[platform] || 'this site';
+
+  return (
+    <div
+      role="alert"
+      style={{
+        margin: '12px 16px 0',
+        padding: '10px 12px',
+        fontSize: '12px',
+        lineHeight: '1.5',
+        color: colors.text.primary,
+        backgroundColor: colors.status.warningBg,
+        border: `1px solid ${colors.status.warning}`,
+        borderRadius: '6px',
+      }}
+    >
+      <div style={{ fontWeight: 600, marginBottom: '2px' }}>Not capturing messages on {name}</div>
+      <div style={{ color: colors.text.secondary }}>
+        {name} may have changed its page layout, so this conversation is not being saved. Updating Engram
+        usually fixes it.
+      </div>
+      {health.reasons.length > 1 && (
+        <div style={{ fontSize: '11px', color: colors.text.tertiary, marginTop: '4px' }}>
+          {health.reasons.slice(1).join(' · ')}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,257 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import type { Memory, Platform, UUID } from '@engram/core';
+import { useToast, useTheme, Button } from './ui';
+import { ContextBuilder } from '../lib/context-builder';
+import {
+  INJECTION_PRESETS,
+  getDefaultTemplate,
+  getInjectionTemplates,
+  saveInjectionTemplate,
+  validateTemplate,
+  type InjectionPreset,
+  type InjectionTemplate,
+} from '../lib/injection-templates';
+
+const PLATFORMS: Array<{ value: Platform; label: string }> = [
+  { value: 'claude', label: 'Claude' },
+  { value: 'chatgpt', label: 'ChatGPT' },
+  { value: 'gemini', label: 'Gemini' },
+  { value: 'deepseek', label: 'DeepSeek' },
+  { value: 'copilot', label: 'Copilot' },
+  { value: 'mistral', label: 'Le Chat' },
+  { value: 'perplexity', label: 'Perplexity' },
+  { value: 'generic', label: 'Other' },
+];
+
+const PREVIEW_PROMPT = 'How should I structure retries in my tokio service?';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Sample memories shown in the live preview
+ */
+function previewCandidates(): Array<{ memory: Memory; score: number }> {
+  const now = Date.now();
+  const memory = (id: string, text: string, ageDays: number, extra: object = {}) => ({
+    id: id as UUID,
+    conversationId: 'preview',
+    platform: 'claude' as Platform,
+    content: { role: 'user' as const, text },
+    timestamp: now - ageDays * DAY,
+    vectorClock: {},
+    deviceId: 'preview',
+    syncStatus: 'synced' as const,
+    tags: [],
+    ...extra,
+  });
+
+  return [
+    {
+      memory: memory('mem-1', 'We use tokio with a bounded mpsc channel between the API and the workers.', 2, {
+        keywords: ['tokio', 'mpsc', 'workers'],
+        context: 'Architecture of the ingestion service',
+        links: [{ memoryId: 'mem-2', score: 0.8, createdAt: now, reason: 'Same service' }],
+      }),
+      score: 0.91,
+    },
+    {
+      memory: memory('mem-2', 'Retries should use exponential backoff with jitter, capped at 30 seconds.', 20, {
+        keywords: ['retries', 'backoff'],
+        context: 'Retry policy agreed for outbound calls',
+      }),
+      score: 0.84,
+    },
+  ];
+}
+
+/**
+ * InjectionTemplateSettings - Edit how context is laid out in prompts, per platform
+ *
+ * Starts from a preset (XML, Markdown, plain) and shows a live preview of the
+ * prompt that would be sent, rendered by the same builder as real injections.
+ */
+export const InjectionTemplateSettings: React.FC = () => {
+  const [platform, setPlatform] = useState<Platform>('claude');
+  const [overrides, setOverrides] = useState<Partial<Record<Platform, InjectionTemplate>>>({});
+  const [draft, setDraft] = useState<InjectionTemplate>(getDefaultTemplate('claude'));
+  const [preview, setPreview] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const { success, error: showError } = useToast();
+  const { colors } = useTheme();
+
+  const loadTemplates = useCallback(async () => {
+    try {
+      setOverrides(await getInjectionTemplates());
+    } catch (err) {
+      console.error('Failed to load injection templates:', err);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadTemplates();
+  }, [loadTemplates]);
+
+  // Edit the selected platform's saved template (or its default)
+  useEffect(() => {
+    setDraft(overrides[platform] || getDefaultTemplate(platform));
+  }, [platform, overrides]);
+
+  const errors = validateTemplate(draft);
+
+  // Live preview
+  useEffect(() => {
+    let cancelled = false;
+    if (errors.length > 0) {
+      setPreview('');
+      return;
+    }
+
+    new ContextBuilder()
+      .build(previewCandidates(), { platform, template: draft, prompt: PREVIEW_PROMPT })
+      .then((context) => {
+        if (!cancelled) setPreview(context.enrichedPrompt || '');
+      })
+      .catch((err) => console.error('Failed to render preview:', err));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [draft, platform, errors.length]);
+
+  const selectPreset = (preset: InjectionPreset) => {
+    if (preset !== 'custom') {
+      setDraft({ ...INJECTION_PRESETS[preset] });
+    }
+  };
+
+  const editField = (field: 'prompt' | 'context' | 'item', value: string) => {
+    setDraft({ ...draft, [field]: value, preset: 'custom' });
+  };
+
+  const saveTemplate = async (template: InjectionTemplate | null) => {
+    setIsSaving(true);
+    try {
+      await saveInjectionTemplate(platform, template);
+      await loadTemplates();
+      success(template ? 'Injection template saved' : 'Injection template reset to default');
+    } catch (err) {
+      console.error('Failed to save injection template:', err);
+      showError(err instanceof Error ? err.message : 'Failed to save template');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const fieldStyle: React.CSSProperties = {
+    width: '100%',
+    padding: '8px 12px',
+    fontSize: '12px',
+    fontFamily: 'monospace',
+    backgroundColor: colors.background,
+    border: `1px solid ${colors.border}`,
+    borderRadius: '6px',
+    color: colors.text.primary,
+    outline: 'none',
+    resize: 'vertical',
+    boxSizing: 'border-box',
+  };
+
+  const selectStyle: React.CSSProperties = {
+    ...fieldStyle,
+    fontFamily: 'inherit',
+    fontSize: '13px',
+    cursor: 'pointer',
+  };
+
+  const labelStyle: React.CSSProperties = {
+    fontSize: '12px',
+    color: colors.text.secondary,
+    marginBottom: '6px',
+  };
+
+  return (
+    <>
+      <div style={{ fontSize: '12px', color: colors.text.secondary, marginBottom: '16px', lineHeight: '1.6' }}>
+        Choose how memories are laid out when they are added to your prompts. Models respond best to
+        different structures, so each platform has its own template.
+      </div>
+
+      <div style={{ display: 'flex', gap: '12px', marginBottom: '12px' }}>
+        <div style={{ flex: 1 }}>
+          <div style={labelStyle}>Platform</div>
+          <select value={platform} onChange={(e) => setPlatform(e.target.value as Platform)} style={selectStyle}>
+            {PLATFORMS.map((p) => (
+              <option key={p.value} value={p.value}>
+                {p.label}{overrides[p.value] ? ' (customized)' : ''}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div style={{ flex: 1 }}>
+          <div style={labelStyle}>Preset</div>
+          <select value={draft.preset} onChange={(e) => selectPreset(e.target.value as InjectionPreset)} style={selectStyle}>
+            <option value="xml">XML tags</option>
+            <option value="markdown">Markdown</option>
+            <option value="plain">Plain text</option>
+            <option value="custom" disabled>Custom</option>
+          </select>
+        </div>
+      </div>
+
+      <div style={{ marginBottom: '12px' }}>
+        <div style={labelStyle}>Prompt layout — {'{{prompt}}'}, {'{{context}}'}</div>
+        <textarea rows={2} value={draft.prompt} onChange={(e) => editField('prompt', e.target.value)} style={fieldStyle} />
+      </div>
+
+      <div style={{ marginBottom: '12px' }}>
+        <div style={labelStyle}>Context layout — {'{{items}}'}, {'{{platform}}'}, {'{{count}}'}</div>
+        <textarea rows={3} value={draft.context} onChange={(e) => editField('context', e.target.value)} style={fieldStyle} />
+      </div>
+
+      <div style={{ marginBottom: '12px' }}>
+        <div style={labelStyle}>
+          Memory layout — {'{{text}}'}, {'{{ref}}'}, {'{{id}}'}, {'{{date}}'}, {'{{platform}}'}, {'{{keywords}}'},{' '}
+          {'{{summary}}'}, {'{{links}}'}, {'{{score}}'}
+        </div>
+        <textarea rows={2} value={draft.item} onChange={(e) => editField('item', e.target.value)} style={fieldStyle} />
+      </div>
+
+      {errors.length > 0 && (
+        <div style={{ fontSize: '11px', color: colors.status.error, marginBottom: '12px' }}>
+          {errors.join('. ')}
+        </div>
+      )}
+
+      {/* Live Preview */}
+      <div style={labelStyle}>Preview</div>
+      <pre
+        style={{
+          margin: '0 0 12px',
+          padding: '12px',
+          fontSize: '11px',
+          lineHeight: '1.5',
+          whiteSpace: 'pre-wrap',
+          wordBreak: 'break-word',
+          backgroundColor: colors.background,
+          border: `1px solid ${colors.border}`,
+          borderRadius: '6px',
+          color: colors.text.primary,
+          maxHeight: '240px',
+          overflowY: 'auto',
+        }}
+      >
+        {preview}
+      </pre>
+
+      <div style={{ display: 'flex', gap: '8px' }}>
+        <Button size="sm" onClick={() => saveTemplate(draft)} disabled={isSaving || errors.length > 0}>
+          Save
+        </Button>
+        <Button variant="ghost" size="sm" onClick={() => saveTemplate(null)} disabled={isSaving || !overrides[platform]}>
+          Reset to default
+        </Button>
+      </div>
+    </>
+  );
+};
@@ -0,0 +1,109 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import type { Memory } from '@engram/core';
+import { useToast, useTheme } from './ui';
+import { sendGetMemoryVersions, sendSelectMemoryVersion } from '../lib/messages';
+
+interface MemoryVersionsProps {
+  memory: Memory;
+  onSelect: (version: Memory) => void; // Called with the newly selected version
+}
+
+/**
+ * Whether a memory is one of several versions of a message (edited or regenerated)
+ */
+export function hasVersions(memory: Memory): boolean {
+  return !!memory.parentId || memory.branchIndex !== undefined;
+}
+
+/**
+ * MemoryVersions - "< 2/3 >" switcher for the versions of an edited prompt or
+ * regenerated answer
+ *
+ * Selecting a version makes it the one search and context retrieval use.
+ */
+export const MemoryVersions: React.FC<MemoryVersionsProps> = ({ memory, onSelect }) => {
+  const { error: showError } = useToast();
+  const { colors } = useTheme();
+  const [versions, setVersions] = useState<Memory[]>([]);
+  const [isSwitching, setIsSwitching] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    sendGetMemoryVersions(memory.id)
+      .then((response) => {
+        if (!cancelled && response.success && response.versions) {
+          setVersions(response.versions);
+        }
+      })
+      .catch((err) => console.error('[Engram Side Panel] Failed to load versions:', err));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [memory.id]);
+
+  const current = versions.findIndex((version) => version.id === memory.id);
+
+  const select = useCallback(async (index: number) => {
+    const target = versions[index];
+    if (!target || isSwitching) return;
+
+    setIsSwitching(true);
+    try {
+      const response = await sendSelectMemoryVersion(target.id);
+      if (!response.success) {
+        throw new Error(response.error || 'Failed to switch version');
+      }
+      onSelect(response.versions?.find((version) => version.id === target.id) || target);
+    } catch (err) {
+      showError(err instanceof Error ? err.message : 'Failed to switch version');
+    } finally {
+      setIsSwitching(false);
+    }
+  }, [versions, isSwitching, onSelect, showError]);
+
+  if (versions.length < 2 || current < 0) {
+    return null;
+  }
+
+  const arrowStyle = (enabled: boolean): React.CSSProperties => ({
+    border: 'none',
+    background: 'none',
+    padding: '0 4px',
+    fontSize: '12px',
+    color: enabled ? colors.text.secondary : colors.border,
+    cursor: enabled && !isSwitching ? 'pointer' : 'default',
+  });
+
+  return (
+    <div
+      title="Versions of this message (edited or regenerated)"
+      onClick={(e) => e.stopPropagation()}
+      style={{
+        display: 'flex',
+        alignItems: 'center',
+        fontSize: '10px',
+        color: colors.text.tertiary,
+        fontVariantNumeric: 'tabular-nums',
+      }}
+    >
+      <button
+        aria-label="Previous version"
+        disabled={current === 0 || isSwitching}
+        onClick={() => select(current - 1)}
+        style={arrowStyle(current > 0)}
+      >
+        ‹
+      </button>
+      {current + 1}/{versions.length}
+      <button
+        aria-label="Next version"
+        disabled={current === versions.length - 1 || isSwitching}
+        onClick={() => select(current + 1)}
+        style={arrowStyle(current < versions.length - 1)}
+      >
+        ›
+      </button>
+    </div>
+  );
+};
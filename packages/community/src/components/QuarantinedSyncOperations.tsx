@@ -0,0 +1,116 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import type { UUID } from '@engram/core';
+import { useToast, useTheme, Button } from './ui';
+import { sendDismissQuarantinedOperations, sendGetQuarantinedOperations } from '../lib/messages';
+import type { QuarantineReason, QuarantinedOperation } from '../sync/device-trust';
+import { formatDate } from '../lib/formatters';
+
+const REASONS: Record<QuarantineReason, string> = {
+  unsigned: 'Not signed',
+  'invalid-signature': 'Signature does not match',
+  'unknown-device': 'From an unregistered device',
+};
+
+/**
+ * QuarantinedSyncOperations - Sync changes held back because no registered
+ * device signed them
+ *
+ * They are never applied unless the sending device is registered later;
+ * dismissing discards them.
+ */
+export const QuarantinedSyncOperations: React.FC = () => {
+  const [entries, setEntries] = useState<QuarantinedOperation[]>([]);
+
+  const { success, error: showError } = useToast();
+  const { colors } = useTheme();
+
+  const loadEntries = useCallback(async () => {
+    try {
+      const response = await sendGetQuarantinedOperations();
+      setEntries(response.operations || []);
+    } catch (err) {
+      console.error('Failed to load quarantined sync operations:', err);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadEntries();
+  }, [loadEntries]);
+
+  const dismiss = async (operationIds: UUID[]) => {
+    try {
+      const response = await sendDismissQuarantinedOperations(operationIds);
+      if (!response.success) {
+        throw new Error(response.error || 'Failed to dismiss');
+      }
+      await loadEntries();
+      success(operationIds.length === 1 ? 'Change discarded' : `${operationIds.length} changes discarded`);
+    } catch (err) {
+      console.error('Failed to dismiss quarantined sync operations:', err);
+      showError(err instanceof Error ? err.message : 'Failed to dismiss');
+    }
+  };
+
+  if (entries.length === 0) {
+    return (
+      <div style={{ fontSize: '12px', color: colors.text.secondary, marginTop: '12px' }}>
+        Every synced change was signed by one of your devices.
+      </div>
+    );
+  }
+
+  return (
+    <div
+      role="alert"
+      style={{
+        marginTop: '12px',
+        padding: '10px 12px',
+        fontSize: '12px',
+        lineHeight: '1.5',
+        color: colors.text.primary,
+        backgroundColor: colors.status.warningBg,
+        border: `1px solid ${colors.status.warning}`,
+        borderRadius: '6px',
+      }}
+    >
+      <div style={{ fontWeight: 600, marginBottom: '2px' }}>
+        {entries.length} synced change{entries.length === 1 ? '' : 's'} blocked
+      </div>
+      <div style={{ color: colors.text.secondary, marginBottom: '8px' }}>
+        These changes were not signed by any of your devices, so they were not applied. If you did not just add
+        a new device, the sync server may have been tampered with.
+      </div>
+
+      {entries.map(({ operation, reason, receivedAt }) => (
+        <div
+          key={operation.id}
+          style={{
+            display: 'flex',
+            alignItems: 'center',
+            justifyContent: 'space-between',
+            padding: '6px 0',
+            borderTop: `1px solid ${colors.border}`,
+          }}
+        >
+          <span>
+            {REASONS[reason]}
+            <span style={{ fontSize: '11px', color: colors.text.tertiary }}>
+              {' '}
+              — {operation.type} of memory {operation.memoryId.slice(0, 8)}
+              {operation.deviceId ? ` from device ${operation.deviceId.slice(0, 8)}` : ''}, {formatDate(receivedAt)}
+            </span>
+          </span>
+          <Button variant="ghost" size="sm" onClick={() => dismiss([operation.id])}>
+            Dismiss
+          </Button>
+        </div>
+      ))}
+
+      {entries.length > 1 && (
+        <Button variant="ghost" size="sm" onClick={() => dismiss(entries.map((entry) => entry.operation.id))}>
+          Dismiss all
+        </Button>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,51 @@
+import React from 'react';
+import type { SearchSnippet } from '../lib/search-snippets';
+
+interface SearchSnippetsProps {
+  snippets: SearchSnippet[];
+  textLength: number;           // Length of the full memory text (for ellipses)
+  highlightStyle?: React.CSSProperties;
+}
+
+/**
+ * SearchSnippets - Renders search result passages with highlighted matches
+ *
+ * Passages are joined with ellipses where text was skipped
+ */
+export const SearchSnippets: React.FC<SearchSnippetsProps> = ({
+  snippets,
+  textLength,
+  highlightStyle,
+}) => {
+  return (
+    <>
+      {snippets.map((snippet, i) => {
+        const parts: React.ReactNode[] = [];
+        let cursor = 0;
+
+        snippet.highlights.forEach((range, j) => {
+          parts.push(snippet.text.slice(cursor, range.start));
+          parts.push(
+            <mark
+              key={j}
+              style={{ backgroundColor: '#fef3c7', color: 'inherit', padding: '0 2px', borderRadius: '2px', ...highlightStyle }}
+            >
+              {snippet.text.slice(range.start, range.end)}
+            </mark>
+          );
+          cursor = range.end;
+        });
+        parts.push(snippet.text.slice(cursor));
+
+        return (
+          <span key={i}>
+            {snippet.start > 0 && '… '}
+            {parts}
+            {snippet.start + snippet.text.length < textLength && ' …'}
+            {i < snippets.length - 1 && ' '}
+          </span>
+        );
+      })}
+    </>
+  );
+};
@@ -2,3 +2,9 @@ export { PremiumBadge } from './PremiumBadge';
 export { UpgradeBanner } from './UpgradeBanner';
 export { ErrorBoundary } from './ErrorBoundary';
 export { withErrorBoundary } from './withErrorBoundary';
+export { SearchSnippets } from './SearchSnippets';
+export { InjectionTemplateSettings } from './InjectionTemplateSettings';
+export { MemoryVersions, hasVersions } from './MemoryVersions';
+export { AdapterSpecSettings } from './AdapterSpecSettings';
+export { CaptureHealthBanner } from './CaptureHealthBanner';
+export { QuarantinedSyncOperations } from './QuarantinedSyncOperations';
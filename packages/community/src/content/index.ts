@@ -9,9 +9,13 @@ import { claudeAdapter } from './platforms/claude-adapter';
 import { perplexityAdapter } from './platforms/perplexity-adapter';
 import { geminiAdapter } from './platforms/gemini-adapter';
 import { genericAdapter } from './platforms/generic-adapter';
+import { SpecAdapter } from './platforms/spec-adapter';
+import { findAdapterSpec, getAdapterSpecs } from '../lib/adapter-specs';
 import { IPlatformAdapter } from '@engram/core';
-import { sendInitRequest, sendSaveMessage } from '../lib/messages';
+import { sendInitRequest } from '../lib/messages';
 import { uiInjector } from './shared/ui-injector';
+import { messageSaver } from './shared/message-saver';
+import { adapterHealth } from './shared/health-monitor';
 
 /**
  * Content script state
@@ -22,7 +26,7 @@ class ContentScript {
   private deviceId: string | null = null;
   private messageCount = 0;
   private conversationId: string | null = null;
-  private recentMessages: string[] = [];
+  private recentMessages: Array<{ key?: string; content: string }> = []; // Last final version of each message
 
   /**
    * Initialize content script
@@ -35,8 +39,15 @@ class ContentScript {
       const platform = this.detectPlatform();
       console.log('[Engram Content] Detected platform:', platform);
 
-      // Get appropriate adapter
+      // Get appropriate adapter (a site with an adapter spec beats the generic one)
       this.adapter = this.getAdapter(platform);
+      if (platform === 'generic') {
+        const spec = findAdapterSpec(window.location.href, await getAdapterSpecs());
+        if (spec) {
+          console.log('[Engram Content] Using adapter spec:', spec.id);
+          this.adapter = new SpecAdapter(spec);
+        }
+      }
       if (!this.adapter) {
         console.error('[Engram Content] No adapter found for platform:', platform);
         return;
@@ -60,6 +71,11 @@ class ContentScript {
       this.conversationId = this.adapter.extractConversationId?.() || null;
       console.log('[Engram Content] Conversation ID:', this.conversationId);
 
+      // Report capture health on chat sites (before existing messages are captured)
+      if (platform !== 'generic' || this.adapter instanceof SpecAdapter) {
+        adapterHealth.start(this.adapter);
+      }
+
       // Start observing messages
       this.startObserving();
 
@@ -150,7 +166,7 @@ class ContentScript {
     if (!uiInjector.isInjected()) return;
 
     // Build context from recent messages (last 3)
-    const context = this.recentMessages.slice(-3).join('\n\n');
+    const context = this.recentMessages.slice(-3).map((message) => message.content).join('\n\n');
     uiInjector.updateContext(context);
   }
 
@@ -171,17 +187,23 @@ class ContentScript {
           message.content.substring(0, 50) + '...'
         );
 
-        // Add to recent messages for context
-        this.recentMessages.push(message.content);
-        if (this.recentMessages.length > 5) {
-          this.recentMessages.shift(); // Keep only last 5
+        // Add to recent messages for context (a revision replaces its earlier version)
+        const key = message.metadata?.messageKey;
+        const previous = key ? this.recentMessages.findIndex((recent) => recent.key === key) : -1;
+        if (previous !== -1) {
+          this.recentMessages[previous] = { key, content: message.content };
+        } else {
+          this.recentMessages.push({ key, content: message.content });
+          if (this.recentMessages.length > 5) {
+            this.recentMessages.shift(); // Keep only last 5
+          }
         }
 
         // Update UI context
         this.updateUIContext();
 
         // Send to background for storage
-        const response = await sendSaveMessage(message);
+        const response = await messageSaver.save(message);
 
         if (response.success) {
           console.log('[Engram Content] Message saved:', response.memoryId);
@@ -202,6 +224,7 @@ class ContentScript {
 
     // Remove UI
     uiInjector.remove();
+    adapterHealth.stop();
 
     if (this.adapter) {
       this.adapter.stopObserving();
@@ -214,6 +237,7 @@ class ContentScript {
     this.messageCount = 0;
     this.conversationId = null;
     this.recentMessages = [];
+    messageSaver.reset();
 
     console.log('[Engram Content] Cleanup complete');
   }
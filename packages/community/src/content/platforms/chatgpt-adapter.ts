@@ -7,7 +7,12 @@
  * - User messages: .text-message (with data-message-author-role="user")
  * - Assistant messages: .text-message (with data-message-author-role="assistant")
  * - Code blocks: pre > code with .language-* classes
+ * - Versions of an edited/regenerated message: "< 2/3 >" switcher (.tabular-nums)
  * - Conversation ID: URL pattern /c/{conversation-id}
+ *
+ * When ChatGPT changes its DOM, the fallback chains below and the layout
+ * heuristic for roles are tried before giving up; which one matched is
+ * recorded in the page's adapter health.
  */
 
 import {
@@ -17,8 +22,14 @@ import {
   ExtractedCodeBlock,
   PlatformSelectors,
   PlatformFeatures,
+  RequestRewriter,
 } from '@engram/core';
 import { Platform, Role } from '@engram/core';
+import { chatGPTRequestRewriter } from './request-rewriters';
+import { StreamingTracker } from '../shared/streaming-tracker';
+import { readBranchPosition } from '../shared/branch-position';
+import { adapterHealth } from '../shared/health-monitor';
+import { inferRoleFromLayout, queryChain, resolveChain, type SelectorChain } from '../shared/selector-fallback';
 
 /**
  * ChatGPT DOM selectors
@@ -29,9 +40,25 @@ const SELECTORS: PlatformSelectors = {
   messageSelector: 'article[data-testid^="conversation-turn"]',
   contentSelector: '[data-message-author-role] .markdown',
   codeBlockSelector: 'pre code',
+  branchSelector: '.tabular-nums', // "2/3" between the previous/next version buttons
   injectionPointSelector: 'main aside, main > div:last-child',
 };
 
+/**
+ * Selector chains, current selector first, then older or looser ones
+ */
+const CHAINS: Record<'container' | 'message' | 'role' | 'content', SelectorChain> = {
+  container: [SELECTORS.containerSelector, 'main'],
+  message: [SELECTORS.messageSelector, '[data-testid^="conversation-turn"]', 'div[data-message-id]'],
+  role: ['[data-message-author-role]'],
+  content: [
+    SELECTORS.contentSelector,
+    '[data-message-author-role] .whitespace-pre-wrap', // User turns
+    '.markdown, .prose',
+    '.whitespace-pre-wrap',
+  ],
+};
+
 /**
  * ChatGPT feature support
  */
@@ -47,9 +74,8 @@ const FEATURES: PlatformFeatures = {
  */
 export class ChatGPTAdapter implements IPlatformAdapter {
   private observer: MutationObserver | null = null;
-  private observerCallback: ((message: ExtractedMessage) => void) | null = null;
-  private lastProcessedMessages = new Set<string>();
-  private streamingMessages = new Map<string, number>(); // Track streaming messages with debounce timers
+  private tracker: StreamingTracker | null = null; // Decides when streamed messages are final
+  private messageSelector: string = CHAINS.message[0]; // Selector of the chain that currently matches
 
   /**
    * Get platform configuration
@@ -69,7 +95,7 @@ export class ChatGPTAdapter implements IPlatformAdapter {
    */
   async initialize(): Promise<void> {
     // Clear any previous state
-    this.lastProcessedMessages.clear();
+    this.tracker?.reset();
 
     // Wait for page to be ready
     if (document.readyState === 'loading') {
@@ -84,13 +110,10 @@ export class ChatGPTAdapter implements IPlatformAdapter {
    */
   destroy(): void {
     this.stopObserving();
-    this.lastProcessedMessages.clear();
 
     // Clear all streaming timers
-    this.streamingMessages.forEach(timer => window.clearTimeout(timer));
-    this.streamingMessages.clear();
-
-    this.observerCallback = null;
+    this.tracker?.reset();
+    this.tracker = null;
   }
 
   /**
@@ -121,21 +144,25 @@ export class ChatGPTAdapter implements IPlatformAdapter {
    */
   extractMessage(element: HTMLElement): ExtractedMessage | null {
     try {
-      // Get role from data attribute
-      const roleAttr = element.querySelector('[data-message-author-role]');
-      if (!roleAttr) {
-        return null;
-      }
-
-      const roleValue = roleAttr.getAttribute('data-message-author-role');
-      if (!roleValue || (roleValue !== 'user' && roleValue !== 'assistant')) {
-        return null;
+      // Get role from data attribute, or from the layout when ChatGPT dropped it
+      const roleAttr = queryChain(element, CHAINS.role, 'role');
+      let role: Role | null = null;
+      if (roleAttr) {
+        const roleValue = roleAttr.getAttribute('data-message-author-role');
+        if (!roleValue || (roleValue !== 'user' && roleValue !== 'assistant')) {
+          return null;
+        }
+        role = roleValue as Role;
+      } else {
+        role = inferRoleFromLayout(element);
+        if (!role) {
+          return null;
+        }
+        adapterHealth.recordInferredRole();
       }
 
-      const role: Role = roleValue as Role;
-
       // Extract content
-      const contentElement = element.querySelector(SELECTORS.contentSelector);
+      const contentElement = queryChain(element, CHAINS.content, 'content');
       if (!contentElement) {
         return null;
       }
@@ -159,7 +186,7 @@ export class ChatGPTAdapter implements IPlatformAdapter {
 
       // Get message index from DOM position
       const container = document.querySelector(SELECTORS.containerSelector);
-      const messages = container?.querySelectorAll(SELECTORS.messageSelector);
+      const messages = container?.querySelectorAll(this.messageSelector);
       const messageIndex = messages ? Array.from(messages).indexOf(element) : undefined;
 
       return {
@@ -171,6 +198,7 @@ export class ChatGPTAdapter implements IPlatformAdapter {
           codeBlocks: codeBlocks.length > 0 ? codeBlocks : undefined,
           isStreaming,
           messageIndex,
+          branch: readBranchPosition(element, SELECTORS.branchSelector),
         },
       };
     } catch (error) {
@@ -247,7 +275,7 @@ export class ChatGPTAdapter implements IPlatformAdapter {
    */
   private async waitForContainer(maxAttempts = 10, delayMs = 500): Promise<Element | null> {
     for (let i = 0; i < maxAttempts; i++) {
-      const container = document.querySelector(SELECTORS.containerSelector);
+      const container = queryChain<Element>(document, CHAINS.container, 'container');
       if (container) {
         console.log(`ChatGPT adapter: Container found on attempt ${i + 1}`);
         return container;
@@ -264,7 +292,14 @@ export class ChatGPTAdapter implements IPlatformAdapter {
    * Start observing messages
    */
   async observeMessages(callback: (message: ExtractedMessage) => void): Promise<void> {
-    this.observerCallback = callback;
+    this.tracker = new StreamingTracker({
+      tag: 'ChatGPT adapter:',
+      features: FEATURES,
+      extract: (element) => this.extractMessage(element),
+      getKey: (element) => this.getMessageId(element),
+      isStreaming: (element) => this.isMessageStreaming(element),
+      onMessage: callback,
+    });
 
     // Wait for container with retries
     const container = await this.waitForContainer();
@@ -311,13 +346,14 @@ export class ChatGPTAdapter implements IPlatformAdapter {
     let previousCount = 0;
 
     for (let i = 0; i < maxRetries; i++) {
-      const container = document.querySelector(SELECTORS.containerSelector);
+      const container = queryChain<Element>(document, CHAINS.container, 'container');
       if (!container) {
         await new Promise(resolve => setTimeout(resolve, delayMs));
         continue;
       }
 
-      const messages = container.querySelectorAll(SELECTORS.messageSelector);
+      this.refreshMessageSelector(container);
+      const messages = container.querySelectorAll(this.messageSelector);
       const currentCount = messages.length;
 
       console.log(`ChatGPT adapter: Processing existing messages (attempt ${i + 1}/${maxRetries}, found ${currentCount} messages)`);
@@ -347,6 +383,10 @@ export class ChatGPTAdapter implements IPlatformAdapter {
    * Handle DOM mutations
    */
   private handleMutations(mutations: MutationRecord[]): void {
+    if (mutations.some(mutation => mutation.addedNodes.length > 0)) {
+      this.refreshMessageSelector(document);
+    }
+
     for (const mutation of mutations) {
       // Check for new message elements
       if (mutation.type === 'childList') {
@@ -355,10 +395,10 @@ export class ChatGPTAdapter implements IPlatformAdapter {
             const element = node as HTMLElement;
             
             // Check if it's a message or contains messages
-            if (element.matches(SELECTORS.messageSelector)) {
+            if (element.matches(this.messageSelector)) {
               this.processMessage(element);
             } else {
-              const messages = element.querySelectorAll(SELECTORS.messageSelector);
+              const messages = element.querySelectorAll(this.messageSelector);
               messages.forEach(msg => this.processMessage(msg as HTMLElement));
             }
           }
@@ -369,7 +409,7 @@ export class ChatGPTAdapter implements IPlatformAdapter {
       if (mutation.type === 'characterData') {
         const element = (mutation.target as Node).parentElement;
         if (element) {
-          const message = element.closest(SELECTORS.messageSelector);
+          const message = element.closest(this.messageSelector);
           if (message) {
             this.processMessage(message as HTMLElement);
           }
@@ -379,70 +419,20 @@ export class ChatGPTAdapter implements IPlatformAdapter {
   }
 
   /**
-   * Process a single message element
+   * Switch to the next selector of the message chain once the current one
+   * stops matching (nothing matching at all is a new chat, not drift)
    */
-  private processMessage(element: HTMLElement, forceImmediate = false): void {
-    if (!this.observerCallback) return;
-
-    // Create unique ID for message (use DOM position as ChatGPT doesn't have IDs)
-    const messageId = this.getMessageId(element);
-
-    // Skip if already processed and saved
-    if (this.lastProcessedMessages.has(messageId)) {
-      return;
-    }
-
-    // Check if message is still streaming
-    const isStreaming = this.isMessageStreaming(element);
-
-    if (isStreaming && !forceImmediate) {
-      // Message is streaming - debounce and wait for completion
-      this.debounceStreamingMessage(messageId, element);
-      return;
-    }
-
-    // Message is complete - extract and save immediately
-    const extracted = this.extractMessage(element);
-    if (extracted) {
-      this.lastProcessedMessages.add(messageId);
-
-      // Clear any pending debounce timer for this message
-      const existingTimer = this.streamingMessages.get(messageId);
-      if (existingTimer) {
-        window.clearTimeout(existingTimer);
-        this.streamingMessages.delete(messageId);
-      }
-
-      this.observerCallback(extracted);
-      console.log(`ChatGPT adapter: Saved complete message ${messageId}${forceImmediate ? ' (immediate)' : ''}`);
-    }
+  private refreshMessageSelector(root: ParentNode): void {
+    if (root.querySelector(this.messageSelector)) return;
+    this.messageSelector = resolveChain(root, CHAINS.message, 'message') || this.messageSelector;
   }
 
   /**
-   * Debounce streaming messages - only save when streaming stops
+   * Process a single message element
+   * Existing messages are already complete, new ones are tracked until they stop streaming
    */
-  private debounceStreamingMessage(messageId: string, element: HTMLElement): void {
-    // Clear existing timer for this message
-    const existingTimer = this.streamingMessages.get(messageId);
-    if (existingTimer) {
-      window.clearTimeout(existingTimer);
-    }
-
-    // Set new timer - if no updates for 2 seconds, consider it complete
-    const timer = window.setTimeout(() => {
-      console.log(`ChatGPT adapter: Streaming completed for ${messageId}`);
-      this.streamingMessages.delete(messageId);
-
-      // Reprocess the message (it should be complete now)
-      const extracted = this.extractMessage(element);
-      if (extracted && !this.lastProcessedMessages.has(messageId)) {
-        this.lastProcessedMessages.add(messageId);
-        this.observerCallback?.(extracted);
-        console.log(`ChatGPT adapter: Saved streamed message ${messageId}`);
-      }
-    }, 2000); // 2 second delay after last update
-
-    this.streamingMessages.set(messageId, timer);
+  private processMessage(element: HTMLElement, forceImmediate = false): void {
+    this.tracker?.observe(element, forceImmediate);
   }
 
   /**
@@ -450,7 +440,7 @@ export class ChatGPTAdapter implements IPlatformAdapter {
    */
   private getMessageId(element: HTMLElement): string {
     const container = document.querySelector(SELECTORS.containerSelector);
-    const messages = container?.querySelectorAll(SELECTORS.messageSelector);
+    const messages = container?.querySelectorAll(this.messageSelector);
     const index = messages ? Array.from(messages).indexOf(element) : -1;
     const conversationId = this.extractConversationId() || 'unknown';
     return `${conversationId}-${index}`;
@@ -481,6 +471,13 @@ export class ChatGPTAdapter implements IPlatformAdapter {
     // Only show in conversation view, not on home page
     return conversationId !== null;
   }
+
+  /**
+   * Get the rewriter that injects context into outgoing requests
+   */
+  getRequestRewriter(): RequestRewriter {
+    return chatGPTRequestRewriter;
+  }
 }
 
 /**
@@ -1,6 +1,10 @@
 /**
  * Claude Platform Adapter
  * Handles message extraction and observation for Claude AI (claude.ai)
+ *
+ * When Claude changes its DOM, the fallback chains below and the layout
+ * heuristic for roles are tried before giving up; which one matched is
+ * recorded in the page's adapter health.
  */
 
 import {
@@ -10,8 +14,14 @@ import {
   ExtractedCodeBlock,
   PlatformSelectors,
   PlatformFeatures,
+  RequestRewriter,
 } from '@engram/core';
 import { Platform, Role } from '@engram/core';
+import { claudeRequestRewriter } from './request-rewriters';
+import { StreamingTracker } from '../shared/streaming-tracker';
+import { readBranchPosition } from '../shared/branch-position';
+import { adapterHealth } from '../shared/health-monitor';
+import { inferRoleFromLayout, resolveChain, type SelectorChain } from '../shared/selector-fallback';
 
 /**
  * Claude DOM selectors (verified Dec 2024)
@@ -21,9 +31,27 @@ const SELECTORS: PlatformSelectors = {
   messageSelector: '[data-test-render-count]',
   contentSelector: '.font-user-message, .font-claude-response',
   codeBlockSelector: 'pre code',
+  branchSelector: 'button[aria-label^="Previous"] ~ span', // "2 / 3" between the version buttons
   injectionPointSelector: 'aside',
 };
 
+/**
+ * Message selector chain, current selector first
+ */
+const MESSAGE_CHAIN: SelectorChain = [
+  SELECTORS.messageSelector,
+  '[data-testid="user-message"], .font-claude-response, .font-claude-message',
+];
+
+/**
+ * Role markers, current ones first; an element has the role when it matches
+ * or contains the marker
+ */
+const ROLE_CHAIN: ReadonlyArray<Record<'user' | 'assistant', string>> = [
+  { user: '.font-user-message', assistant: '.font-claude-response' },
+  { user: '[data-testid="user-message"]', assistant: '.font-claude-message, [data-is-streaming]' },
+];
+
 /**
  * Claude feature support
  */
@@ -39,11 +67,8 @@ const FEATURES: PlatformFeatures = {
  */
 class ClaudeAdapter implements IPlatformAdapter {
   private observer: MutationObserver | null = null;
-  private messageCallback: ((message: ExtractedMessage) => void) | null = null;
-  private processedMessages = new Set<string>(); // Track fully processed messages
-  private streamingMessages = new Map<string, number>(); // Track streaming messages with debounce timers
-  private messageContentMap = new Map<string, string>(); // Track last content for each message
-  private processedContents = new Set<string>(); // Track processed message contents for deduplication
+  private tracker: StreamingTracker | null = null; // Decides when streamed messages are final
+  private messageSelector: string = MESSAGE_CHAIN[0]; // Selector of the chain that currently matches
 
   /**
    * Get platform configuration
@@ -73,7 +98,7 @@ class ClaudeAdapter implements IPlatformAdapter {
    */
   async initialize(): Promise<void> {
     console.log('[Claude Adapter] Initializing...');
-    this.processedMessages.clear();
+    this.tracker?.reset();
     console.log('[Claude Adapter] Ready');
   }
 
@@ -100,7 +125,13 @@ class ClaudeAdapter implements IPlatformAdapter {
    * Start observing messages
    */
   async observeMessages(callback: (message: ExtractedMessage) => void): Promise<void> {
-    this.messageCallback = callback;
+    this.tracker = new StreamingTracker({
+      tag: '[Claude Adapter]',
+      features: FEATURES,
+      extract: (element) => this.extractMessageFromElement(element),
+      getKey: (element) => this.getMessageId(element),
+      onMessage: callback,
+    });
 
     console.log('[Claude Adapter] Starting message observation...');
 
@@ -120,7 +151,8 @@ class ClaudeAdapter implements IPlatformAdapter {
     let previousCount = 0;
 
     for (let i = 0; i < maxRetries; i++) {
-      const messageElements = document.querySelectorAll('[data-test-render-count]');
+      this.refreshMessageSelector();
+      const messageElements = document.querySelectorAll(this.messageSelector);
       const currentCount = messageElements.length;
 
       console.log(`[Claude Adapter] Processing existing messages (attempt ${i + 1}/${maxRetries}, found ${currentCount} messages)`);
@@ -150,6 +182,10 @@ class ClaudeAdapter implements IPlatformAdapter {
    */
   private startMutationObserver(): void {
     this.observer = new MutationObserver((mutations) => {
+      if (mutations.some(mutation => mutation.addedNodes.length > 0)) {
+        this.refreshMessageSelector();
+      }
+
       for (const mutation of mutations) {
         if (mutation.type === 'childList') {
           mutation.addedNodes.forEach((node) => {
@@ -157,11 +193,11 @@ class ClaudeAdapter implements IPlatformAdapter {
               const element = node as HTMLElement;
 
               // Check if this is a message element
-              if (element.hasAttribute && element.hasAttribute('data-test-render-count')) {
+              if (element.matches?.(this.messageSelector)) {
                 this.processMessage(element);
               } else if (element.querySelectorAll) {
                 // Check if element contains messages
-                const messages = element.querySelectorAll('[data-test-render-count]');
+                const messages = element.querySelectorAll(this.messageSelector);
                 messages.forEach(msg => this.processMessage(msg as HTMLElement));
               }
             }
@@ -172,7 +208,7 @@ class ClaudeAdapter implements IPlatformAdapter {
         if (mutation.type === 'characterData') {
           const element = (mutation.target as Node).parentElement;
           if (element) {
-            const message = element.closest('[data-test-render-count]');
+            const message = element.closest(this.messageSelector);
             if (message) {
               this.processMessage(message as HTMLElement);
             }
@@ -191,107 +227,27 @@ class ClaudeAdapter implements IPlatformAdapter {
     console.log('[Claude Adapter] Mutation observer started');
   }
 
+  /**
+   * Switch to the next selector of the message chain once the current one
+   * stops matching (nothing matching at all is a new chat, not drift)
+   */
+  private refreshMessageSelector(): void {
+    if (document.querySelector(this.messageSelector)) return;
+    this.messageSelector = resolveChain(document, MESSAGE_CHAIN, 'message') || this.messageSelector;
+  }
+
   /**
    * Process a single message element
+   * Existing messages are already complete, new ones are tracked until their text settles
    */
   private processMessage(element: HTMLElement, forceImmediate = false): void {
-    if (!this.messageCallback) return;
-
     try {
-      const message = this.extractMessageFromElement(element);
-      if (!message || !message.content) {
-        return;
-      }
-
-      // Check for duplicate content (same text already processed)
-      if (this.processedContents.has(message.content)) {
-        return; // Skip duplicate content
-      }
-
-      // Create a stable ID for this message element
-      const messageId = this.getMessageId(element);
-
-      // Check if this exact content has already been saved
-      if (this.processedMessages.has(messageId)) {
-        return;
-      }
-
-      // If forceImmediate, save right away (for existing messages)
-      if (forceImmediate) {
-        this.processedMessages.add(messageId);
-        this.processedContents.add(message.content);
-        this.messageContentMap.set(messageId, message.content);
-
-        // Clear any pending timer
-        const existingTimer = this.streamingMessages.get(messageId);
-        if (existingTimer) {
-          clearTimeout(existingTimer);
-          this.streamingMessages.delete(messageId);
-        }
-
-        this.messageCallback(message);
-        console.log(`[Claude Adapter] Saved complete message ${messageId} (immediate)`);
-        return;
-      }
-
-      // Check if content is still changing (streaming)
-      const lastContent = this.messageContentMap.get(messageId);
-      if (lastContent !== undefined && lastContent !== message.content) {
-        // Content changed - message is still streaming
-        this.debounceStreamingMessage(messageId, element, message.content);
-        return;
-      }
-
-      // First time seeing this message or content hasn't changed
-      if (lastContent === undefined) {
-        this.messageContentMap.set(messageId, message.content);
-        this.debounceStreamingMessage(messageId, element, message.content);
-        return;
-      }
-
-      // Content is stable - save the message
-      if (!this.processedMessages.has(messageId)) {
-        this.processedMessages.add(messageId);
-        this.processedContents.add(message.content);
-        this.messageCallback(message);
-        console.log(`[Claude Adapter] Saved complete message ${messageId}`);
-      }
+      this.tracker?.observe(element, forceImmediate);
     } catch (error) {
       console.error('[Claude Adapter] Error processing message:', error);
     }
   }
 
-  /**
-   * Debounce streaming messages - only save when streaming stops
-   */
-  private debounceStreamingMessage(messageId: string, element: HTMLElement, content: string): void {
-    // Update content tracker
-    this.messageContentMap.set(messageId, content);
-
-    // Clear existing timer for this message
-    const existingTimer = this.streamingMessages.get(messageId);
-    if (existingTimer) {
-      clearTimeout(existingTimer);
-    }
-
-    // Set new timer - if no updates for 2 seconds, consider it complete
-    const timer = window.setTimeout(() => {
-      console.log(`[Claude Adapter] Streaming completed for ${messageId}`);
-      this.streamingMessages.delete(messageId);
-
-      // Reprocess the message (it should be complete now)
-      const message = this.extractMessageFromElement(element);
-      if (message && !this.processedMessages.has(messageId) && !this.processedContents.has(message.content)) {
-        this.processedMessages.add(messageId);
-        this.processedContents.add(message.content);
-        this.messageCallback?.(message);
-        console.log(`[Claude Adapter] Saved streamed message ${messageId}`);
-      }
-    }, 2000); // 2 second delay after last update
-
-    this.streamingMessages.set(messageId, timer);
-  }
-
   /**
    * Generate stable ID for message element
    */
@@ -303,7 +259,7 @@ class ClaudeAdapter implements IPlatformAdapter {
     }
 
     // Fallback: use position in DOM
-    const messages = document.querySelectorAll('[data-test-render-count]');
+    const messages = document.querySelectorAll(this.messageSelector);
     const index = Array.from(messages).indexOf(element);
     const conversationId = this.extractConversationId() || 'unknown';
     return `${conversationId}-${index}`;
@@ -317,16 +273,13 @@ class ClaudeAdapter implements IPlatformAdapter {
     index?: number
   ): ExtractedMessage | null {
     try {
-      // Determine role using Claude's actual classes
-      const userMessage = element.querySelector('.font-user-message');
-      const assistantMessage = element.querySelector('.font-claude-response');
-
-      if (!userMessage && !assistantMessage) {
+      // Determine role using Claude's classes, or the layout when they are gone
+      const roleMatch = this.findRole(element);
+      if (!roleMatch) {
         return null; // Not a message element
       }
 
-      const role: Role = userMessage ? 'user' : 'assistant';
-      const contentElement = (userMessage || assistantMessage) as HTMLElement;
+      const { role, contentElement } = roleMatch;
 
       // Extract text content
       const rawText = contentElement.textContent || '';
@@ -363,6 +316,7 @@ class ClaudeAdapter implements IPlatformAdapter {
         metadata: {
           codeBlocks: codeBlocks.length > 0 ? codeBlocks : undefined,
           messageIndex: index,
+          branch: readBranchPosition(element, SELECTORS.branchSelector),
         },
       };
     } catch (error) {
@@ -371,6 +325,29 @@ class ClaudeAdapter implements IPlatformAdapter {
     }
   }
 
+  /**
+   * Role of a message element and the element holding its text
+   */
+  private findRole(element: HTMLElement): { role: Role; contentElement: HTMLElement } | null {
+    for (let i = 0; i < ROLE_CHAIN.length; i++) {
+      for (const role of ['user', 'assistant'] as const) {
+        const selector = ROLE_CHAIN[i][role];
+        const marker = element.matches(selector) ? element : element.querySelector<HTMLElement>(selector);
+        if (marker) {
+          adapterHealth.recordLookup('role', i);
+          return { role, contentElement: marker };
+        }
+      }
+    }
+
+    adapterHealth.recordLookup('role', -1);
+    const role = inferRoleFromLayout(element);
+    if (!role) return null;
+
+    adapterHealth.recordInferredRole();
+    return { role, contentElement: element };
+  }
+
   /**
    * Extract message from DOM element
    */
@@ -386,6 +363,13 @@ class ClaudeAdapter implements IPlatformAdapter {
     return conversationId !== null;
   }
 
+  /**
+   * Get the rewriter that injects context into outgoing requests
+   */
+  getRequestRewriter(): RequestRewriter {
+    return claudeRequestRewriter;
+  }
+
   /**
    * Extract code blocks from message
    */
@@ -435,7 +419,8 @@ class ClaudeAdapter implements IPlatformAdapter {
       this.observer.disconnect();
       this.observer = null;
     }
-    this.messageCallback = null;
+    this.tracker?.reset();
+    this.tracker = null;
     console.log('[Claude Adapter] Stopped observing');
   }
 
@@ -444,13 +429,6 @@ class ClaudeAdapter implements IPlatformAdapter {
    */
   destroy(): void {
     this.stopObserving();
-    this.processedMessages.clear();
-    this.processedContents.clear();
-    this.messageContentMap.clear();
-
-    // Clear all streaming timers
-    this.streamingMessages.forEach(timer => clearTimeout(timer));
-    this.streamingMessages.clear();
 
     console.log('[Claude Adapter] Destroyed');
   }
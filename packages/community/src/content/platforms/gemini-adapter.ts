@@ -10,8 +10,11 @@ import {
   ExtractedCodeBlock,
   PlatformSelectors,
   PlatformFeatures,
+  RequestRewriter,
 } from '@engram/core';
 import { Platform, Role } from '@engram/core';
+import { geminiRequestRewriter } from './request-rewriters';
+import { StreamingTracker } from '../shared/streaming-tracker';
 
 /**
  * Gemini DOM selectors (verified Jan 2026)
@@ -39,11 +42,7 @@ const FEATURES: PlatformFeatures = {
  */
 class GeminiAdapter implements IPlatformAdapter {
   private observer: MutationObserver | null = null;
-  private messageCallback: ((message: ExtractedMessage) => void) | null = null;
-  private processedMessages = new Set<string>(); // Track fully processed messages
-  private streamingMessages = new Map<string, number>(); // Track streaming messages with debounce timers
-  private messageContentMap = new Map<string, string>(); // Track last content for each message
-  private processedContents = new Set<string>(); // Track processed message contents for deduplication
+  private tracker: StreamingTracker | null = null; // Decides when streamed messages are final
 
   /**
    * Get platform configuration
@@ -76,10 +75,7 @@ class GeminiAdapter implements IPlatformAdapter {
    */
   async initialize(): Promise<void> {
     console.log('[Gemini Adapter] Initializing...');
-    this.processedMessages.clear();
-    this.processedContents.clear();
-    this.messageContentMap.clear();
-    this.streamingMessages.clear();
+    this.tracker?.reset();
     console.log('[Gemini Adapter] Ready');
   }
 
@@ -105,7 +101,13 @@ class GeminiAdapter implements IPlatformAdapter {
    * Start observing messages
    */
   async observeMessages(callback: (message: ExtractedMessage) => void): Promise<void> {
-    this.messageCallback = callback;
+    this.tracker = new StreamingTracker({
+      tag: '[Gemini Adapter]',
+      features: FEATURES,
+      extract: (element) => this.extractMessageFromElement(element),
+      getKey: (element) => this.getMessageId(element),
+      onMessage: callback,
+    });
 
     console.log('[Gemini Adapter] Starting message observation...');
 
@@ -240,105 +242,16 @@ class GeminiAdapter implements IPlatformAdapter {
 
   /**
    * Process a single message element
+   * Existing messages are already complete, new ones are tracked until their text settles
    */
   private processMessage(element: HTMLElement, forceImmediate = false): void {
-    if (!this.messageCallback) return;
-
     try {
-      const message = this.extractMessageFromElement(element);
-      if (!message || !message.content) {
-        return;
-      }
-
-      // Check for duplicate content (same text already processed)
-      if (this.processedContents.has(message.content)) {
-        return; // Skip duplicate content
-      }
-
-      // Create a stable ID for this message element
-      const messageId = this.getMessageId(element);
-
-      // Check if this exact content has already been saved
-      if (this.processedMessages.has(messageId)) {
-        return;
-      }
-
-      // If forceImmediate, save right away (for existing messages)
-      if (forceImmediate) {
-        this.processedMessages.add(messageId);
-        this.processedContents.add(message.content);
-        this.messageContentMap.set(messageId, message.content);
-
-        // Clear any pending timer
-        const existingTimer = this.streamingMessages.get(messageId);
-        if (existingTimer) {
-          clearTimeout(existingTimer);
-          this.streamingMessages.delete(messageId);
-        }
-
-        this.messageCallback(message);
-        console.log(`[Gemini Adapter] Saved complete message ${messageId} (immediate)`);
-        return;
-      }
-
-      // Check if content is still changing (streaming)
-      const lastContent = this.messageContentMap.get(messageId);
-      if (lastContent !== undefined && lastContent !== message.content) {
-        // Content changed - message is still streaming
-        this.debounceStreamingMessage(messageId, element, message.content);
-        return;
-      }
-
-      // First time seeing this message or content hasn't changed
-      if (lastContent === undefined) {
-        this.messageContentMap.set(messageId, message.content);
-        this.debounceStreamingMessage(messageId, element, message.content);
-        return;
-      }
-
-      // Content is stable - save the message
-      if (!this.processedMessages.has(messageId)) {
-        this.processedMessages.add(messageId);
-        this.processedContents.add(message.content);
-        this.messageCallback(message);
-        console.log(`[Gemini Adapter] Saved complete message ${messageId}`);
-      }
+      this.tracker?.observe(element, forceImmediate);
     } catch (error) {
       console.error('[Gemini Adapter] Error processing message:', error);
     }
   }
 
-  /**
-   * Debounce streaming messages - only save when streaming stops
-   */
-  private debounceStreamingMessage(messageId: string, element: HTMLElement, content: string): void {
-    // Update content tracker
-    this.messageContentMap.set(messageId, content);
-
-    // Clear existing timer for this message
-    const existingTimer = this.streamingMessages.get(messageId);
-    if (existingTimer) {
-      clearTimeout(existingTimer);
-    }
-
-    // Set new timer - if no updates for 2 seconds, consider it complete
-    const timer = window.setTimeout(() => {
-      console.log(`[Gemini Adapter] Streaming completed for ${messageId}`);
-      this.streamingMessages.delete(messageId);
-
-      // Reprocess the message (it should be complete now)
-      const message = this.extractMessageFromElement(element);
-      if (message && !this.processedMessages.has(messageId) && !this.processedContents.has(message.content)) {
-        this.processedMessages.add(messageId);
-        this.processedContents.add(message.content);
-        this.messageCallback?.(message);
-        console.log(`[Gemini Adapter] Saved streamed message ${messageId}`);
-      }
-    }, 2000); // 2 second delay after last update
-
-    this.streamingMessages.set(messageId, timer);
-  }
-
   /**
    * Generate stable ID for message element
    */
@@ -484,6 +397,13 @@ class GeminiAdapter implements IPlatformAdapter {
     return conversationId !== null;
   }
 
+  /**
+   * Get the rewriter that injects context into outgoing requests
+   */
+  getRequestRewriter(): RequestRewriter {
+    return geminiRequestRewriter;
+  }
+
   /**
    * Extract code blocks from message
    */
@@ -532,7 +452,8 @@ class GeminiAdapter implements IPlatformAdapter {
       this.observer.disconnect();
       this.observer = null;
     }
-    this.messageCallback = null;
+    this.tracker?.reset();
+    this.tracker = null;
     console.log('[Gemini Adapter] Stopped observing');
   }
 
@@ -541,13 +462,6 @@ class GeminiAdapter implements IPlatformAdapter {
    */
   destroy(): void {
     this.stopObserving();
-    this.processedMessages.clear();
-    this.processedContents.clear();
-    this.messageContentMap.clear();
-
-    // Clear all streaming timers
-    this.streamingMessages.forEach(timer => clearTimeout(timer));
-    this.streamingMessages.clear();
 
     console.log('[Gemini Adapter] Destroyed');
   }
@@ -19,8 +19,11 @@ import {
   ExtractedCodeBlock,
   PlatformSelectors,
   PlatformFeatures,
+  RequestRewriter,
 } from '@engram/core';
 import { Platform, Role } from '@engram/core';
+import { perplexityRequestRewriter } from './request-rewriters';
+import { StreamingTracker } from '../shared/streaming-tracker';
 
 /**
  * Perplexity DOM selectors
@@ -48,10 +51,7 @@ const FEATURES: PlatformFeatures = {
  */
 export class PerplexityAdapter implements IPlatformAdapter {
   private observer: MutationObserver | null = null;
-  private observerCallback: ((message: ExtractedMessage) => void) | null = null;
-  private lastProcessedMessages = new Set<string>();
-  private processedContents = new Set<string>(); // Track processed content to avoid duplicates
-  private streamingMessages = new Map<string, number>(); // Track streaming messages with debounce timers
+  private tracker: StreamingTracker | null = null; // Decides when streamed messages are final
 
   /**
    * Get platform configuration
@@ -71,8 +71,7 @@ export class PerplexityAdapter implements IPlatformAdapter {
    */
   async initialize(): Promise<void> {
     // Clear any previous state
-    this.lastProcessedMessages.clear();
-    this.processedContents.clear();
+    this.tracker?.reset();
 
     // Wait for page to be ready
     if (document.readyState === 'loading') {
@@ -87,14 +86,10 @@ export class PerplexityAdapter implements IPlatformAdapter {
    */
   destroy(): void {
     this.stopObserving();
-    this.lastProcessedMessages.clear();
-    this.processedContents.clear();
 
     // Clear all streaming timers
-    this.streamingMessages.forEach(timer => window.clearTimeout(timer));
-    this.streamingMessages.clear();
-
-    this.observerCallback = null;
+    this.tracker?.reset();
+    this.tracker = null;
   }
 
   /**
@@ -347,7 +342,14 @@ export class PerplexityAdapter implements IPlatformAdapter {
    * Start observing messages
    */
   async observeMessages(callback: (message: ExtractedMessage) => void): Promise<void> {
-    this.observerCallback = callback;
+    this.tracker = new StreamingTracker({
+      tag: 'Perplexity adapter:',
+      features: FEATURES,
+      extract: (element) => this.extractMessage(element),
+      getKey: (element) => this.getMessageId(element),
+      isStreaming: (element) => this.isMessageStreaming(element),
+      onMessage: callback,
+    });
 
     // Wait for container with retries
     const container = await this.waitForContainer();
@@ -460,104 +462,10 @@ export class PerplexityAdapter implements IPlatformAdapter {
 
   /**
    * Process a single message element
+   * Existing messages are already complete, new ones are tracked until they stop streaming
    */
   private processMessage(element: HTMLElement, forceImmediate = false): void {
-    if (!this.observerCallback) return;
-
-    // Create unique ID for message
-    const messageId = this.getMessageId(element);
-
-    // Skip if already processed and saved
-    if (this.lastProcessedMessages.has(messageId)) {
-      return;
-    }
-
-    // Extract message first to check content duplication
-    const extracted = this.extractMessage(element);
-    if (!extracted) {
-      return;
-    }
-
-    // Create a content signature that includes text and code blocks
-    const contentSignature = this.getContentSignature(extracted);
-
-    // Check for duplicate content (same text and code already processed)
-    if (this.processedContents.has(contentSignature)) {
-      return; // Skip duplicate content
-    }
-
-    // Check if message is still streaming
-    const isStreaming = this.isMessageStreaming(element);
-
-    if (isStreaming && !forceImmediate) {
-      // Message is streaming - debounce and wait for completion
-      this.debounceStreamingMessage(messageId, element);
-      return;
-    }
-
-    // Message is complete - save immediately
-    this.lastProcessedMessages.add(messageId);
-    this.processedContents.add(contentSignature);
-
-    // Clear any pending debounce timer for this message
-    const existingTimer = this.streamingMessages.get(messageId);
-    if (existingTimer) {
-      window.clearTimeout(existingTimer);
-      this.streamingMessages.delete(messageId);
-    }
-
-    this.observerCallback(extracted);
-    console.log(`Perplexity adapter: Saved complete message ${messageId}${forceImmediate ? ' (immediate)' : ''}`);
-  }
-
-  /**
-   * Debounce streaming messages - only save when streaming stops
-   */
-  private debounceStreamingMessage(messageId: string, element: HTMLElement): void {
-    // Clear existing timer for this message
-    const existingTimer = this.streamingMessages.get(messageId);
-    if (existingTimer) {
-      window.clearTimeout(existingTimer);
-    }
-
-    // Set new timer - if no updates for 2 seconds, consider it complete
-    const timer = window.setTimeout(() => {
-      console.log(`Perplexity adapter: Streaming completed for ${messageId}`);
-      this.streamingMessages.delete(messageId);
-
-      // Reprocess the message (it should be complete now)
-      const extracted = this.extractMessage(element);
-      if (extracted) {
-        const contentSignature = this.getContentSignature(extracted);
-        if (!this.lastProcessedMessages.has(messageId) &&
-            !this.processedContents.has(contentSignature)) {
-          this.lastProcessedMessages.add(messageId);
-          this.processedContents.add(contentSignature);
-          this.observerCallback?.(extracted);
-          console.log(`Perplexity adapter: Saved streamed message ${messageId}`);
-        }
-      }
-    }, 2000); // 2 second delay after last update
-
-    this.streamingMessages.set(messageId, timer);
-  }
-
-  /**
-   * Generate content signature for deduplication
-   * Includes both text content and code blocks
-   */
-  private getContentSignature(message: ExtractedMessage): string {
-    let signature = message.content;
-
-    // Include code blocks in signature to differentiate messages with same text but different code
-    if (message.metadata?.codeBlocks && message.metadata.codeBlocks.length > 0) {
-      const codeSignature = message.metadata.codeBlocks
-        .map(block => `${block.language}:${block.code}`)
-        .join('|');
-      signature += `||CODE:${codeSignature}`;
-    }
-
-    return signature;
+    this.tracker?.observe(element, forceImmediate);
   }
 
   /**
@@ -616,6 +524,13 @@ export class PerplexityAdapter implements IPlatformAdapter {
     // Only show in search view, not on home page
     return conversationId !== null;
   }
+
+  /**
+   * Get the rewriter that injects context into outgoing requests
+   */
+  getRequestRewriter(): RequestRewriter {
+    return perplexityRequestRewriter;
+  }
 }
 
 /**
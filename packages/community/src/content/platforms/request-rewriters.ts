@@ -0,0 +1,161 @@
+/**
+ * Request Rewriters
+ * Platform-specific rewriting of the prompt in outgoing API requests
+ *
+ * Used by the main world network interceptor, so injected context only ever
+ * goes into the request payload: the visible chat and the user message
+ * captured by the adapters keep the original prompt.
+ *
+ * Payload shapes (as of Jan 2025):
+ * - Claude:     POST .../chat_conversations/{id}/completion — JSON `prompt`
+ * - ChatGPT:    POST /backend-api/conversation — JSON `messages[].content.parts[]`
+ * - Gemini:     POST .../StreamGenerate — form field `f.req`, a JSON string
+ *               wrapping another JSON string whose `[0][0]` is the prompt
+ * - Perplexity: socket.io frame `42["perplexity_ask", "<query>", {...}]`, or
+ *               POST /rest/sse/perplexity_ask — JSON `query_str`
+ */
+
+import type { Platform, RequestRewriter, RequestTransport } from '@engram/core';
+
+/**
+ * Compare prompts ignoring whitespace differences introduced by editors
+ */
+export function samePrompt(candidate: unknown, prompt: string): boolean {
+  if (typeof candidate !== 'string') return false;
+  const normalize = (text: string) => text.replace(/\s+/g, ' ').trim();
+  return normalize(candidate) === normalize(prompt);
+}
+
+/**
+ * Parse JSON, null when the body is not JSON
+ */
+function parseJSON(text: string): any {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Claude: the completion request carries the prompt as a plain field
+ */
+export const claudeRequestRewriter: RequestRewriter = {
+  platform: 'claude',
+
+  matches(url: string, method: string, transport: RequestTransport): boolean {
+    return transport !== 'websocket' && method === 'POST' &&
+      url.includes('/api/') && /chat_conversations\/[^/]+\/(completion|retry_completion)/.test(url);
+  },
+
+  rewrite(body: string, originalPrompt: string, enrichedPrompt: string): string | null {
+    const payload = parseJSON(body);
+    if (!payload || !samePrompt(payload.prompt, originalPrompt)) return null;
+
+    payload.prompt = enrichedPrompt;
+    return JSON.stringify(payload);
+  },
+};
+
+/**
+ * ChatGPT: the new user message is the last user entry of `messages`
+ */
+export const chatGPTRequestRewriter: RequestRewriter = {
+  platform: 'chatgpt',
+
+  matches(url: string, method: string, transport: RequestTransport): boolean {
+    return transport !== 'websocket' && method === 'POST' &&
+      /\/backend-(api|anon)\/(f\/)?conversation(\?|$)/.test(url);
+  },
+
+  rewrite(body: string, originalPrompt: string, enrichedPrompt: string): string | null {
+    const payload = parseJSON(body);
+    if (!Array.isArray(payload?.messages)) return null;
+
+    const message = [...payload.messages].reverse().find((m: any) => m?.author?.role === 'user');
+    const parts = message?.content?.parts;
+    if (!Array.isArray(parts)) return null;
+
+    const index = parts.findIndex((part: unknown) => samePrompt(part, originalPrompt));
+    if (index < 0) return null;
+
+    parts[index] = enrichedPrompt;
+    return JSON.stringify(payload);
+  },
+};
+
+/**
+ * Gemini: batchexecute-style form body with a doubly encoded JSON request
+ */
+export const geminiRequestRewriter: RequestRewriter = {
+  platform: 'gemini',
+
+  matches(url: string, method: string, transport: RequestTransport): boolean {
+    return transport !== 'websocket' && method === 'POST' && url.includes('/StreamGenerate');
+  },
+
+  rewrite(body: string, originalPrompt: string, enrichedPrompt: string): string | null {
+    const params = new URLSearchParams(body);
+    const outer = parseJSON(params.get('f.req') || '');
+    if (!Array.isArray(outer) || typeof outer[1] !== 'string') return null;
+
+    const inner = parseJSON(outer[1]);
+    if (!Array.isArray(inner?.[0]) || !samePrompt(inner[0][0], originalPrompt)) return null;
+
+    inner[0][0] = enrichedPrompt;
+    outer[1] = JSON.stringify(inner);
+    params.set('f.req', JSON.stringify(outer));
+    return params.toString();
+  },
+};
+
+/**
+ * Perplexity: socket.io event frames, or the SSE endpoint that replaced them
+ */
+export const perplexityRequestRewriter: RequestRewriter = {
+  platform: 'perplexity',
+
+  matches(url: string, method: string, transport: RequestTransport): boolean {
+    if (transport === 'websocket') {
+      return url.includes('perplexity.ai/socket.io');
+    }
+    return method === 'POST' && url.includes('/rest/sse/perplexity_ask');
+  },
+
+  rewrite(body: string, originalPrompt: string, enrichedPrompt: string): string | null {
+    // socket.io event: "42" + optional ack id + JSON array
+    const frame = body.match(/^(42\d*)(\[[\s\S]*\])$/);
+    if (frame) {
+      const event = parseJSON(frame[2]);
+      if (!Array.isArray(event) || event[0] !== 'perplexity_ask' || !samePrompt(event[1], originalPrompt)) {
+        return null;
+      }
+
+      event[1] = enrichedPrompt;
+      return `${frame[1]}${JSON.stringify(event)}`;
+    }
+
+    const payload = parseJSON(body);
+    if (!payload || !samePrompt(payload.query_str, originalPrompt)) return null;
+
+    payload.query_str = enrichedPrompt;
+    return JSON.stringify(payload);
+  },
+};
+
+/**
+ * Rewriters of every supported platform
+ */
+export const REQUEST_REWRITERS: Partial<Record<Platform, RequestRewriter>> = {
+  claude: claudeRequestRewriter,
+  chatgpt: chatGPTRequestRewriter,
+  gemini: geminiRequestRewriter,
+  perplexity: perplexityRequestRewriter,
+};
+
+/**
+ * Find the rewriter for a request (null for requests that carry no prompt)
+ */
+export function findRequestRewriter(url: string, method: string, transport: RequestTransport): RequestRewriter | null {
+  return Object.values(REQUEST_REWRITERS).find((rewriter) => rewriter!.matches(url, method, transport)) || null;
+}
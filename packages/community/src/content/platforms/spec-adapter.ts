@@ -0,0 +1,378 @@
+/**
+ * Spec Adapter
+ * Generic engine implementing IPlatformAdapter from a declarative AdapterSpec
+ *
+ * Everything a hand-written adapter codes per site (selectors, role
+ * detection, conversation IDs, text cleanup) comes from the spec, so new
+ * sites (see BUILTIN_ADAPTER_SPECS, or the user's own in settings) need no code.
+ * testAdapterSpec() runs the same extraction against a saved HTML snapshot.
+ */
+
+import type {
+  AdapterSpec,
+  ExtractedCodeBlock,
+  ExtractedMessage,
+  IPlatformAdapter,
+  PlatformConfig,
+  PlatformFeatures,
+  Role,
+} from '@engram/core';
+import { matchPatternToRegExp, specMatchesUrl, validateAdapterSpec } from '../../lib/adapter-specs';
+import { StreamingTracker } from '../shared/streaming-tracker';
+import { readBranchPosition } from '../shared/branch-position';
+
+/**
+ * Features of spec sites unless the spec says otherwise
+ */
+const DEFAULT_FEATURES: PlatformFeatures = {
+  supportsStreaming: true,
+  supportsCodeBlocks: true,
+  supportsAttachments: false,
+  supportsRegeneration: true,
+};
+
+/**
+ * Result of running a spec against an HTML snapshot
+ */
+export interface AdapterSpecTestResult {
+  errors: string[]; // The spec cannot capture this page
+  warnings: string[]; // It can, but something looks off
+  messages: ExtractedMessage[]; // What would be saved
+}
+
+/**
+ * Role of a message element (first matching rule), or null to skip it
+ */
+export function getSpecRole(spec: AdapterSpec, element: HTMLElement): Role | null {
+  for (const rule of spec.roles) {
+    if (element.matches(rule.selector) || element.querySelector(rule.selector)) {
+      return rule.role;
+    }
+  }
+  return null;
+}
+
+/**
+ * Conversation ID from the URL (the path when the spec has no pattern)
+ */
+export function getSpecConversationId(spec: AdapterSpec, url: string): string | null {
+  if (!spec.conversationIdPattern) {
+    try {
+      return `${spec.id}:${new URL(url).pathname}`;
+    } catch {
+      return null;
+    }
+  }
+
+  const match = url.match(new RegExp(spec.conversationIdPattern));
+  return match?.[1] || null;
+}
+
+/**
+ * Extract one message element with a spec
+ */
+export function extractSpecMessage(spec: AdapterSpec, element: HTMLElement, url: string): ExtractedMessage | null {
+  const role = getSpecRole(spec, element);
+  if (!role) return null;
+
+  const conversationId = getSpecConversationId(spec, url);
+  if (!conversationId) return null;
+
+  const contentElement = (spec.selectors.content && element.querySelector<HTMLElement>(spec.selectors.content)) || element;
+  const codeBlocks = extractCodeBlocks(spec, contentElement);
+  const content = extractText(spec, contentElement);
+  if (!content && codeBlocks.length === 0) return null;
+
+  const streaming = role === 'assistant' && !!spec.selectors.streaming && !!element.querySelector(spec.selectors.streaming);
+
+  return {
+    role,
+    content,
+    timestamp: Date.now(),
+    conversationId,
+    metadata: {
+      codeBlocks: codeBlocks.length > 0 ? codeBlocks : undefined,
+      isStreaming: streaming,
+      branch: readBranchPosition(element, spec.selectors.branch),
+    },
+  };
+}
+
+/**
+ * Run a spec against a saved HTML snapshot of the site
+ *
+ * @param html - Page source (e.g. saved with "Save page as" or copied from devtools)
+ * @param url - URL the snapshot was taken at
+ */
+export function testAdapterSpec(spec: AdapterSpec, html: string, url: string): AdapterSpecTestResult {
+  const errors = validateAdapterSpec(spec);
+  const warnings: string[] = [];
+  if (errors.length > 0) {
+    return { errors, warnings, messages: [] };
+  }
+
+  if (!specMatchesUrl(spec, url)) {
+    errors.push(`URL does not match ${spec.matches.join(', ')}`);
+  }
+  if (!getSpecConversationId(spec, url)) {
+    errors.push('conversationIdPattern does not match the URL');
+  }
+
+  const page = new DOMParser().parseFromString(html, 'text/html');
+  const container = page.querySelector(spec.selectors.container);
+  if (!container) {
+    errors.push(`No element matches selectors.container (${spec.selectors.container})`);
+    return { errors, warnings, messages: [] };
+  }
+
+  const elements = Array.from(container.querySelectorAll<HTMLElement>(spec.selectors.message));
+  if (elements.length === 0) {
+    errors.push(`No element matches selectors.message (${spec.selectors.message})`);
+    return { errors, warnings, messages: [] };
+  }
+
+  const messages: ExtractedMessage[] = [];
+  elements.forEach((element, index) => {
+    const message = extractSpecMessage(spec, element, url);
+    if (message) {
+      messages.push({ ...message, metadata: { ...message.metadata, messageIndex: index } });
+    } else if (!getSpecRole(spec, element)) {
+      warnings.push(`Message ${index + 1} matches no role rule`);
+    } else {
+      warnings.push(`Message ${index + 1} has no text`);
+    }
+  });
+
+  for (const role of ['user', 'assistant'] as const) {
+    if (!messages.some((message) => message.role === role)) {
+      warnings.push(`No ${role} messages found`);
+    }
+  }
+  for (const name of ['input', 'sendButton'] as const) {
+    const selector = spec.selectors[name];
+    if (selector && !page.querySelector(selector)) {
+      warnings.push(`No element matches selectors.${name} (${selector}); context injection will not start`);
+    }
+  }
+
+  return { errors, warnings, messages };
+}
+
+/**
+ * Text of a message without code blocks and cleanup targets
+ */
+function extractText(spec: AdapterSpec, element: HTMLElement): string {
+  const clone = element.cloneNode(true) as HTMLElement;
+
+  // Code is kept in metadata
+  if (spec.selectors.codeBlock) {
+    clone.querySelectorAll(spec.selectors.codeBlock).forEach((code) => (code.closest('pre') || code).remove());
+  }
+  for (const selector of spec.cleanup?.remove || []) {
+    clone.querySelectorAll(selector).forEach((node) => node.remove());
+  }
+
+  let text = clone.textContent || '';
+  for (const { pattern, flags = 'g', replacement = '' } of spec.cleanup?.replace || []) {
+    text = text.replace(new RegExp(pattern, flags), replacement);
+  }
+
+  return text
+    .split('\n')
+    .map((line) => line.replace(/[ \t]+/g, ' ').trim())
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+function extractCodeBlocks(spec: AdapterSpec, element: HTMLElement): ExtractedCodeBlock[] {
+  if (!spec.selectors.codeBlock) return [];
+
+  const blocks: ExtractedCodeBlock[] = [];
+  element.querySelectorAll<HTMLElement>(spec.selectors.codeBlock).forEach((codeElement) => {
+    const code = codeElement.textContent?.trim();
+    if (!code) return;
+
+    const languageClass = Array.from(codeElement.classList).find((name) => name.startsWith('language-'));
+    const language = codeElement.getAttribute('data-language') || languageClass?.replace('language-', '') || 'plaintext';
+    blocks.push({ language, code });
+  });
+  return blocks;
+}
+
+/**
+ * Spec Adapter Implementation
+ */
+export class SpecAdapter implements IPlatformAdapter {
+  private observer: MutationObserver | null = null;
+  private tracker: StreamingTracker | null = null; // Decides when streamed messages are final
+  private readonly features: PlatformFeatures;
+  private readonly tag: string;
+
+  constructor(private readonly spec: AdapterSpec) {
+    this.features = { ...DEFAULT_FEATURES, ...spec.features };
+    this.tag = `[${spec.name} Adapter]`;
+  }
+
+  /**
+   * Spec the adapter runs
+   */
+  getSpec(): AdapterSpec {
+    return this.spec;
+  }
+
+  /**
+   * Get platform configuration
+   */
+  getConfig(): PlatformConfig {
+    return {
+      platformId: this.spec.platform,
+      selectors: {
+        containerSelector: this.spec.selectors.container,
+        messageSelector: this.spec.selectors.message,
+        contentSelector: this.spec.selectors.content || this.spec.selectors.message,
+        codeBlockSelector: this.spec.selectors.codeBlock,
+        branchSelector: this.spec.selectors.branch,
+        injectionPointSelector: 'body',
+      },
+      urlPattern: new RegExp(this.spec.matches.map((pattern) => matchPatternToRegExp(pattern)?.source || '(?!)').join('|')),
+      conversationIdExtractor: (url: string) => getSpecConversationId(this.spec, url),
+      features: this.features,
+    };
+  }
+
+  /**
+   * Initialize the adapter
+   */
+  async initialize(): Promise<void> {
+    this.tracker?.reset();
+    console.log(`${this.tag} Ready`);
+  }
+
+  /**
+   * Check if a URL is covered by the spec
+   */
+  isCurrentPlatform(url: string): boolean {
+    return specMatchesUrl(this.spec, url);
+  }
+
+  /**
+   * Extract a single message from DOM element
+   */
+  extractMessage(element: HTMLElement): ExtractedMessage | null {
+    try {
+      return extractSpecMessage(this.spec, element, window.location.href);
+    } catch (error) {
+      console.error(`${this.tag} Error extracting message:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Extract conversation ID from the current URL
+   */
+  extractConversationId(): string | null {
+    return getSpecConversationId(this.spec, window.location.href);
+  }
+
+  /**
+   * Observe messages in the spec's container
+   */
+  async observeMessages(callback: (message: ExtractedMessage) => void): Promise<void> {
+    this.tracker = new StreamingTracker({
+      tag: this.tag,
+      features: this.features,
+      extract: (element) => this.extractMessage(element),
+      getKey: (element) => this.getMessageKey(element),
+      isStreaming: this.spec.selectors.streaming
+        ? (element) => !!element.querySelector(this.spec.selectors.streaming as string)
+        : undefined,
+      onMessage: callback,
+    });
+
+    const container = document.querySelector(this.spec.selectors.container);
+    if (!container) {
+      console.error(`${this.tag} Message container not found:`, this.spec.selectors.container);
+      return;
+    }
+
+    // Messages present on load are complete
+    container.querySelectorAll<HTMLElement>(this.spec.selectors.message).forEach((element) => {
+      this.tracker?.observe(element, true);
+    });
+
+    this.observer = new MutationObserver((mutations) => this.handleMutations(mutations));
+    this.observer.observe(container, { childList: true, subtree: true, characterData: true });
+    console.log(`${this.tag} Observing messages`);
+  }
+
+  /**
+   * Stop observing messages
+   */
+  stopObserving(): void {
+    if (this.observer) {
+      this.observer.disconnect();
+      this.observer = null;
+    }
+    this.tracker?.reset();
+    this.tracker = null;
+  }
+
+  /**
+   * Fixed-position overlay (spec sites have no known sidebar)
+   */
+  getInjectionPoint(): HTMLElement | null {
+    return null;
+  }
+
+  /**
+   * Show the memory UI inside conversations
+   */
+  shouldShowMemoryUI(): boolean {
+    return this.extractConversationId() !== null;
+  }
+
+  /**
+   * Spec sites have no request rewriter; context goes into the input instead
+   */
+  getRequestRewriter(): null {
+    return null;
+  }
+
+  /**
+   * Cleanup
+   */
+  destroy(): void {
+    this.stopObserving();
+  }
+
+  /**
+   * Report every message element touched by a mutation
+   */
+  private handleMutations(mutations: MutationRecord[]): void {
+    const touched = new Set<HTMLElement>();
+
+    for (const mutation of mutations) {
+      const node = mutation.target instanceof HTMLElement ? mutation.target : mutation.target.parentElement;
+      const message = node?.closest<HTMLElement>(this.spec.selectors.message);
+      if (message) touched.add(message);
+
+      mutation.addedNodes.forEach((added) => {
+        if (!(added instanceof HTMLElement)) return;
+        if (added.matches(this.spec.selectors.message)) touched.add(added);
+        added.querySelectorAll<HTMLElement>(this.spec.selectors.message).forEach((inner) => touched.add(inner));
+      });
+    }
+
+    touched.forEach((element) => this.tracker?.observe(element));
+  }
+
+  /**
+   * Key of a message element: its position among the page's messages
+   */
+  private getMessageKey(element: HTMLElement): string {
+    const messages = document.querySelectorAll(this.spec.selectors.message);
+    const index = Array.from(messages).indexOf(element);
+    return `${this.extractConversationId() || 'unknown'}-${index}`;
+  }
+}
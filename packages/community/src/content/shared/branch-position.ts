@@ -0,0 +1,33 @@
+/**
+ * Branch Position
+ * Reads the version switcher platforms show next to an edited prompt or a
+ * regenerated answer (ChatGPT's "< 2/3 >", Claude's "< 2 / 3 >")
+ */
+
+import type { BranchPosition } from '@engram/core';
+
+const POSITION_PATTERN = /^\s*(\d+)\s*\/\s*(\d+)\s*$/;
+
+/**
+ * Version of a message the page is showing
+ *
+ * @param element - Message element
+ * @param selector - Elements holding the "current/total" text
+ * @returns 0-based position, or undefined when the message has a single version
+ */
+export function readBranchPosition(element: HTMLElement, selector?: string): BranchPosition | undefined {
+  if (!selector) return undefined;
+
+  for (const candidate of Array.from(element.querySelectorAll(selector))) {
+    const match = candidate.textContent?.match(POSITION_PATTERN);
+    if (!match) continue;
+
+    const current = Number(match[1]);
+    const count = Number(match[2]);
+    if (current >= 1 && current <= count && count > 1) {
+      return { index: current - 1, count };
+    }
+  }
+
+  return undefined;
+}
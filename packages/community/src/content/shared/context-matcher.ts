@@ -5,7 +5,9 @@
  */
 
 import { Memory } from '@engram/core';
-import { sendGetMemories } from '../../lib/messages';
+import { sendGetMemories, sendSearchMemories } from '../../lib/messages';
+import type { SearchScore } from '../../lib/rank-fusion';
+import type { SearchSnippet } from '../../lib/search-snippets';
 
 /**
  * Keyword with weight
@@ -22,6 +24,8 @@ export interface ScoredMemory {
   memory: Memory;
   score: number;
   matchedKeywords: string[];
+  snippets?: SearchSnippet[];
+  scoreBreakdown?: SearchScore;
 }
 
 /**
@@ -155,6 +159,7 @@ export class ContextMatcher {
       // Get all memories (we'll implement smarter filtering later)
       const response = await sendGetMemories({
         limit: 100, // Get recent 100 memories
+        branches: 'selected',
       });
 
       if (!response.success || !response.memories) {
@@ -207,14 +212,41 @@ export class ContextMatcher {
   }
 
   /**
-   * Search for memories using keywords
+   * Search memories with the background search (hybrid ranking, query language)
+   * Scores are the fused rank scores, normalized to the top result
    */
-  async searchByKeywords(
-    keywords: string[],
+  async search(
+    query: string,
     options: MatchOptions = {}
   ): Promise<ScoredMemory[]> {
-    const contextText = keywords.join(' ');
-    return this.findRelevant(contextText, options);
+    const {
+      maxResults = 10,
+      conversationId,
+      excludeCurrentConversation = true,
+    } = options;
+
+    // Over-fetch so excluding the current conversation still fills the panel
+    const response = await sendSearchMemories(query, maxResults * 2);
+    if (!response.success || !response.memories) {
+      throw new Error(response.error || 'Search failed');
+    }
+
+    const hits = new Map((response.hits || []).map((hit) => [hit.memoryId, hit]));
+    const topScore = response.hits?.[0]?.score?.fused || 1;
+
+    return response.memories
+      .filter((memory) => !(excludeCurrentConversation && conversationId && memory.conversationId === conversationId))
+      .slice(0, maxResults)
+      .map((memory) => {
+        const hit = hits.get(memory.id);
+        return {
+          memory,
+          score: hit?.score ? hit.score.fused / topScore : 1, // Filter-only matches are unranked
+          matchedKeywords: [],
+          snippets: hit?.snippets,
+          scoreBreakdown: hit?.score,
+        };
+      });
   }
 
   /**
@@ -0,0 +1,199 @@
+/**
+ * Health Monitor
+ * Collects capture telemetry of the adapter running on the page and reports
+ * it to the background, which serves it to the sidepanel
+ *
+ * Adapters record selector lookups (see selector-fallback.ts), the streaming
+ * tracker records captures. When capture degrades or fails, one report also
+ * carries an anonymized DOM shape, which the background files through the
+ * GitHub reporter so selectors can be fixed.
+ */
+
+import type { IPlatformAdapter } from '@engram/core';
+import {
+  evaluateAdapterHealth,
+  type AdapterHealthReport,
+  type AdapterHealthStatus,
+} from '../../lib/adapter-health';
+import { sendReportAdapterHealth } from '../../lib/messages';
+
+/**
+ * How often the report is sent while capture runs
+ */
+const REPORT_INTERVAL_MS = 10_000;
+
+/**
+ * Attributes whose values describe structure rather than content
+ */
+const SHAPE_ATTRIBUTES = ['role', 'data-testid', 'data-message-author-role'];
+
+export class HealthMonitor {
+  private report: AdapterHealthReport | null = null;
+  private adapter: IPlatformAdapter | null = null;
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private shapeSentFor = new Set<AdapterHealthStatus>(); // Statuses a DOM shape was already sent for
+
+  /**
+   * Start monitoring the adapter running on the page
+   */
+  start(adapter: IPlatformAdapter): void {
+    this.stop();
+    const now = Date.now();
+    this.adapter = adapter;
+    this.shapeSentFor.clear();
+    this.report = {
+      platform: adapter.getConfig().platformId,
+      startedAt: now,
+      conversationId: adapter.extractConversationId?.() || null,
+      conversationSince: now,
+      captures: {},
+      lastCaptureAt: null,
+      selectors: {},
+      inferredRoles: 0,
+    };
+
+    this.timer = setInterval(() => this.flush(), REPORT_INTERVAL_MS);
+    this.flush();
+  }
+
+  /**
+   * Stop monitoring and reporting
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    this.report = null;
+    this.adapter = null;
+  }
+
+  /**
+   * Record a selector chain lookup
+   *
+   * @param index - Position of the selector that matched in the chain, -1 for none
+   */
+  recordLookup(name: string, index: number): void {
+    if (!this.report) return;
+
+    const stats = (this.report.selectors[name] ||= { hits: 0, fallbackHits: 0, misses: 0 });
+    if (index < 0) stats.misses++;
+    else if (index === 0) stats.hits++;
+    else stats.fallbackHits++;
+  }
+
+  /**
+   * Record a message whose role came from the layout heuristic
+   */
+  recordInferredRole(): void {
+    if (this.report) this.report.inferredRoles++;
+  }
+
+  /**
+   * Record a captured message
+   */
+  recordCapture(conversationId: string): void {
+    if (!this.report) return;
+
+    this.report.captures[conversationId] = (this.report.captures[conversationId] || 0) + 1;
+    this.report.lastCaptureAt = Date.now();
+  }
+
+  /**
+   * Current telemetry (null when not monitoring)
+   */
+  getReport(): AdapterHealthReport | null {
+    this.refreshConversation();
+    return this.report ? { ...this.report } : null;
+  }
+
+  /**
+   * Send the report, with a DOM shape the first time capture degrades or fails
+   */
+  async flush(): Promise<void> {
+    const report = this.getReport();
+    if (!report) return;
+
+    const { status } = evaluateAdapterHealth(report);
+    let domShape: string | undefined;
+    if (status !== 'healthy' && !this.shapeSentFor.has(status)) {
+      this.shapeSentFor.add(status);
+      domShape = describeDomShape(document.querySelector('main') || document.body);
+    }
+
+    try {
+      await sendReportAdapterHealth(report, domShape);
+    } catch (error) {
+      console.warn('[Engram Health] Failed to report adapter health:', error);
+    }
+  }
+
+  /**
+   * Follow navigation to another conversation (SPAs keep the page)
+   */
+  private refreshConversation(): void {
+    if (!this.report || !this.adapter) return;
+
+    const conversationId = this.adapter.extractConversationId?.() || null;
+    if (conversationId !== this.report.conversationId) {
+      this.report.conversationId = conversationId;
+      this.report.conversationSince = Date.now();
+    }
+  }
+}
+
+export const adapterHealth = new HealthMonitor();
+
+/**
+ * Skeleton of a DOM subtree for drift reports: tags, classes and structural
+ * attributes only, never text or attribute values that could hold content
+ *
+ * @example
+ * main
+ *   div.flex.flex-col ×12
+ *     article[data-testid="conversation-turn-#"]
+ */
+export function describeDomShape(root: Element, maxDepth = 6, maxChildren = 6): string {
+  const lines: string[] = [];
+
+  const visit = (element: Element, depth: number) => {
+    const children = Array.from(element.children).filter((child) => !['SCRIPT', 'STYLE', 'SVG', 'PATH'].includes(child.tagName.toUpperCase()));
+
+    // Collapse runs of siblings with the same shape
+    const groups: Array<{ element: Element; count: number }> = [];
+    for (const child of children) {
+      const last = groups[groups.length - 1];
+      if (last && describeElement(last.element) === describeElement(child)) {
+        last.count++;
+      } else {
+        groups.push({ element: child, count: 1 });
+      }
+    }
+
+    for (const group of groups.slice(0, maxChildren)) {
+      lines.push(`${'  '.repeat(depth)}${describeElement(group.element)}${group.count > 1 ? ` ×${group.count}` : ''}`);
+      if (depth < maxDepth) visit(group.element, depth + 1);
+    }
+    if (groups.length > maxChildren) {
+      lines.push(`${'  '.repeat(depth)}… ${groups.length - maxChildren} more`);
+    }
+  };
+
+  lines.push(describeElement(root));
+  visit(root, 1);
+  return lines.join('\n');
+}
+
+function describeElement(element: Element): string {
+  const tag = element.tagName.toLowerCase();
+  // Digits are replaced so generated IDs and hashes do not leak or split groups
+  const classes = Array.from(element.classList)
+    .slice(0, 4)
+    .map((name) => `.${name.replace(/\d+/g, '#')}`)
+    .join('');
+  const attributes = SHAPE_ATTRIBUTES.filter((name) => element.hasAttribute(name))
+    .map((name) => `[${name}="${(element.getAttribute(name) || '').replace(/\d+/g, '#').slice(0, 40)}"]`)
+    .join('');
+
+  return `${tag}${classes}${attributes}`;
+}
@@ -0,0 +1,75 @@
+/**
+ * Injection Log
+ * Remembers which memories were injected into which prompt, so the captured
+ * user turn can be saved as the user's own text plus provenance
+ *
+ * The platform renders the sent message some time after the prompt interceptor
+ * injects, possibly with the block (direct insertion) or without it (network
+ * injection). Both shapes are matched, each entry once.
+ */
+
+import type { ExtractedMessage, UUID } from '@engram/core';
+import { samePrompt } from '../platforms/request-rewriters';
+import { withProvenance } from '../../lib/context-provenance';
+
+/**
+ * Entries older than this can no longer belong to the next captured turn
+ */
+export const INJECTION_LOG_TTL_MS = 5 * 60 * 1000;
+
+/**
+ * One injected prompt
+ */
+export interface InjectionRecord {
+  originalPrompt: string;
+  enrichedPrompt: string;
+  memoryIds: UUID[];
+  timestamp: number;
+}
+
+export class InjectionLog {
+  private records: InjectionRecord[] = [];
+
+  /**
+   * Record an injection (prompts sent without context are not recorded)
+   */
+  record(originalPrompt: string, enrichedPrompt: string, memoryIds: UUID[]): void {
+    if (memoryIds.length === 0 || samePrompt(enrichedPrompt, originalPrompt)) return;
+
+    this.prune();
+    this.records.push({ originalPrompt, enrichedPrompt, memoryIds, timestamp: Date.now() });
+  }
+
+  /**
+   * Attach provenance to a captured user turn that was injected into
+   *
+   * @returns The message with the user's own text, or the message unchanged
+   */
+  apply(message: ExtractedMessage): ExtractedMessage {
+    if (message.role !== 'user') return message;
+
+    this.prune();
+    const index = this.records.findIndex(
+      (record) => samePrompt(message.content, record.enrichedPrompt) || samePrompt(message.content, record.originalPrompt)
+    );
+    if (index === -1) return message;
+
+    const [record] = this.records.splice(index, 1);
+    console.log(`[Engram] Captured turn used ${record.memoryIds.length} injected memories`);
+    return withProvenance(message, record.originalPrompt, { memoryIds: record.memoryIds, source: 'interceptor' });
+  }
+
+  /**
+   * Recorded injections (oldest first)
+   */
+  getRecords(): InjectionRecord[] {
+    return [...this.records];
+  }
+
+  private prune(): void {
+    const cutoff = Date.now() - INJECTION_LOG_TTL_MS;
+    this.records = this.records.filter((record) => record.timestamp >= cutoff);
+  }
+}
+
+export const injectionLog = new InjectionLog();
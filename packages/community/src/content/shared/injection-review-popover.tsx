@@ -0,0 +1,337 @@
+/**
+ * Injection Review Popover
+ * Lets the user review the memories and context block before a prompt is sent
+ */
+
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import { createRoot, Root } from 'react-dom/client';
+import type { UUID } from '@engram/core';
+import { MemoryCard } from './memory-card';
+import { contextMatcher, ScoredMemory } from './context-matcher';
+import { sendRetrieveContext } from '../../lib/messages';
+import type { ContextCandidate } from '../../lib/context-retrieval';
+import type { AssembledContext } from '../../lib/context-builder';
+import { applyContextEdit, type InjectionReviewResult } from '../../lib/injection-review';
+import { citedMemoryIds } from '../../lib/context-provenance';
+
+interface InjectionReviewProps {
+  prompt: string;
+  candidates: ContextCandidate[];
+  context: AssembledContext | null;
+  autoAcceptSeconds: number;
+  onDone: (result: InjectionReviewResult) => void;
+}
+
+export const InjectionReview: React.FC<InjectionReviewProps> = ({
+  prompt,
+  candidates: initialCandidates,
+  context: initialContext,
+  autoAcceptSeconds,
+  onDone,
+}) => {
+  const [candidates, setCandidates] = useState<ContextCandidate[]>(initialCandidates);
+  const [excluded, setExcluded] = useState<Set<UUID>>(new Set());
+  const [pinned, setPinned] = useState<UUID[]>([]);
+  const [context, setContext] = useState<AssembledContext | null>(initialContext);
+  const [editedText, setEditedText] = useState(initialContext?.text || '');
+  const [isAssembling, setIsAssembling] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [searchResults, setSearchResults] = useState<ScoredMemory[]>([]);
+  const [countdown, setCountdown] = useState<number | null>(autoAcceptSeconds > 0 ? autoAcceptSeconds : null);
+  const isFirstRender = useRef(true);
+
+  // Re-assemble the block whenever the selection changes
+  useEffect(() => {
+    if (isFirstRender.current) {
+      isFirstRender.current = false;
+      return;
+    }
+
+    let cancelled = false;
+    setIsAssembling(true);
+    setError(null);
+
+    sendRetrieveContext(prompt, { assemble: true, include: pinned, exclude: [...excluded] })
+      .then((response) => {
+        if (cancelled) return;
+        if (!response.success) {
+          throw new Error(response.error || 'Context assembly failed');
+        }
+
+        // Keep unchecked memories listed so they can be checked again
+        setCandidates((previous) => {
+          const merged = [...previous];
+          for (const candidate of response.candidates || []) {
+            const i = merged.findIndex((c) => c.memory.id === candidate.memory.id);
+            if (i >= 0) merged[i] = candidate;
+            else merged.push(candidate);
+          }
+          return merged;
+        });
+        setContext(response.context || null);
+        setEditedText(response.context?.text || '');
+      })
+      .catch((err) => {
+        console.error('[Engram Review] Failed to assemble context:', err);
+        if (!cancelled) setError((err as Error).message);
+      })
+      .finally(() => {
+        if (!cancelled) setIsAssembling(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [prompt, pinned, excluded]);
+
+  const confirm = useCallback(() => {
+    onDone({
+      action: 'send',
+      prompt: context ? applyContextEdit(prompt, context, editedText) : prompt,
+      memoryIds: citedMemoryIds(context),
+    });
+  }, [onDone, prompt, context, editedText]);
+
+  // Auto-accept countdown (stops on any interaction)
+  useEffect(() => {
+    if (countdown === null) return;
+    if (countdown <= 0) {
+      if (!isAssembling) confirm();
+      return;
+    }
+
+    const timer = setTimeout(() => setCountdown(countdown - 1), 1000);
+    return () => clearTimeout(timer);
+  }, [countdown, isAssembling, confirm]);
+
+  const stopCountdown = () => setCountdown(null);
+
+  const toggle = (id: UUID) => {
+    const next = new Set(excluded);
+    if (next.has(id)) next.delete(id);
+    else next.add(id);
+    setExcluded(next);
+  };
+
+  const search = async () => {
+    if (!searchQuery.trim()) {
+      setSearchResults([]);
+      return;
+    }
+
+    try {
+      const results = await contextMatcher.search(searchQuery, { maxResults: 5 });
+      setSearchResults(results.filter((r) => !candidates.some((c) => c.memory.id === r.memory.id)));
+    } catch (err) {
+      console.error('[Engram Review] Search failed:', err);
+      setError((err as Error).message || 'Search failed');
+    }
+  };
+
+  const pin = (result: ScoredMemory) => {
+    setPinned([...pinned, result.memory.id]);
+    setSearchResults(searchResults.filter((r) => r.memory.id !== result.memory.id));
+  };
+
+  const buttonStyle: React.CSSProperties = {
+    padding: '6px 12px',
+    fontSize: '12px',
+    fontWeight: 600,
+    borderRadius: '6px',
+    border: '1px solid #d1d5db',
+    backgroundColor: '#ffffff',
+    color: '#374151',
+    cursor: 'pointer',
+  };
+
+  return (
+    <div
+      onPointerDown={stopCountdown}
+      onKeyDown={stopCountdown}
+      style={{
+        width: '400px',
+        maxHeight: '70vh',
+        display: 'flex',
+        flexDirection: 'column',
+        backgroundColor: '#f9fafb',
+        border: '1px solid #e5e7eb',
+        borderRadius: '12px',
+        boxShadow: '0 10px 25px rgba(0, 0, 0, 0.25)',
+        fontFamily: "-apple-system, BlinkMacSystemFont, 'Segoe UI', sans-serif",
+        color: '#111827',
+      }}
+    >
+      {/* Header */}
+      <div style={{ display: 'flex', alignItems: 'center', padding: '12px 16px', borderBottom: '1px solid #e5e7eb' }}>
+        <div style={{ fontSize: '14px', fontWeight: 600, marginRight: 'auto' }}>Review context</div>
+        {countdown !== null && (
+          <div style={{ fontSize: '11px', color: '#6b7280', marginRight: '8px' }}>Sending in {countdown}s</div>
+        )}
+        <button
+          onClick={() => onDone({ action: 'cancel' })}
+          title="Back to editing"
+          style={{ border: 'none', background: 'none', fontSize: '16px', cursor: 'pointer', color: '#6b7280' }}
+        >
+          ✕
+        </button>
+      </div>
+
+      <div style={{ padding: '12px 16px', overflowY: 'auto', flex: 1 }}>
+        {/* Matched and pinned memories */}
+        {candidates.map((candidate) => (
+          <div key={candidate.memory.id} style={{ display: 'flex', alignItems: 'flex-start', gap: '8px' }}>
+            <input
+              type="checkbox"
+              checked={!excluded.has(candidate.memory.id)}
+              onChange={() => toggle(candidate.memory.id)}
+              style={{ marginTop: '14px', cursor: 'pointer' }}
+            />
+            <div style={{ flex: 1, minWidth: 0, opacity: excluded.has(candidate.memory.id) ? 0.5 : 1 }}>
+              <MemoryCard memory={candidate.memory} relevanceScore={candidate.pinned ? undefined : candidate.score} />
+            </div>
+          </div>
+        ))}
+
+        {/* Pin extra memories */}
+        <div style={{ display: 'flex', gap: '6px', margin: '8px 0' }}>
+          <input
+            type="text"
+            value={searchQuery}
+            onChange={(e) => setSearchQuery(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') {
+                e.preventDefault();
+                search();
+              }
+            }}
+            placeholder="Search memories to add..."
+            style={{ flex: 1, padding: '6px 10px', fontSize: '12px', border: '1px solid #d1d5db', borderRadius: '6px' }}
+          />
+          <button onClick={search} style={buttonStyle}>Search</button>
+        </div>
+        {searchResults.map((result) => (
+          <div key={result.memory.id} style={{ display: 'flex', alignItems: 'flex-start', gap: '8px' }}>
+            <button onClick={() => pin(result)} title="Add to context" style={{ ...buttonStyle, marginTop: '8px', padding: '2px 8px' }}>
+              +
+            </button>
+            <div style={{ flex: 1, minWidth: 0 }}>
+              <MemoryCard memory={result.memory} matchedKeywords={result.matchedKeywords} />
+            </div>
+          </div>
+        ))}
+
+        {/* Final context block */}
+        <div style={{ fontSize: '12px', color: '#6b7280', margin: '8px 0 6px' }}>
+          Context to send {context ? `(~${context.tokens}/${context.budget} tokens)` : ''}
+          {isAssembling && ' — updating...'}
+        </div>
+        <textarea
+          value={editedText}
+          onChange={(e) => setEditedText(e.target.value)}
+          rows={6}
+          placeholder="No context will be added"
+          style={{
+            width: '100%',
+            boxSizing: 'border-box',
+            padding: '8px',
+            fontSize: '11px',
+            fontFamily: 'monospace',
+            border: '1px solid #d1d5db',
+            borderRadius: '6px',
+            resize: 'vertical',
+          }}
+        />
+        {error && <div style={{ fontSize: '11px', color: '#dc2626', marginTop: '6px' }}>{error}</div>}
+      </div>
+
+      {/* Actions */}
+      <div style={{ display: 'flex', justifyContent: 'flex-end', gap: '8px', padding: '12px 16px', borderTop: '1px solid #e5e7eb' }}>
+        <button onClick={() => onDone({ action: 'send', prompt, memoryIds: [] })} style={buttonStyle}>
+          Send without context
+        </button>
+        <button
+          onClick={confirm}
+          disabled={isAssembling}
+          style={{ ...buttonStyle, backgroundColor: '#111827', borderColor: '#111827', color: '#ffffff' }}
+        >
+          Send
+        </button>
+      </div>
+    </div>
+  );
+};
+
+/**
+ * Injection Review Popover
+ * Mounts the review above the memory indicator and resolves with the user's decision
+ */
+export class InjectionReviewPopover {
+  private root: Root | null = null;
+  private container: HTMLElement | null = null;
+  private resolve: ((result: InjectionReviewResult) => void) | null = null;
+
+  /**
+   * Show the review and wait for the user (or the auto-accept timeout)
+   */
+  open(
+    prompt: string,
+    candidates: ContextCandidate[],
+    context: AssembledContext | null,
+    autoAcceptSeconds: number
+  ): Promise<InjectionReviewResult> {
+    // A new review replaces an open one, which goes back to editing
+    this.close({ action: 'cancel' });
+
+    this.container = document.createElement('div');
+    this.container.id = 'engram-injection-review';
+    this.container.style.cssText = `
+      position: fixed;
+      bottom: 64px;
+      right: 20px;
+      z-index: 10001;
+    `;
+    document.body.appendChild(this.container);
+
+    return new Promise((resolve) => {
+      this.resolve = resolve;
+      this.root = createRoot(this.container!);
+      this.root.render(
+        <InjectionReview
+          prompt={prompt}
+          candidates={candidates}
+          context={context}
+          autoAcceptSeconds={autoAcceptSeconds}
+          onDone={(result) => this.close(result)}
+        />
+      );
+    });
+  }
+
+  /**
+   * Check if a review is open
+   */
+  isOpen(): boolean {
+    return this.root !== null;
+  }
+
+  /**
+   * Remove the popover, resolving an open review
+   */
+  close(result: InjectionReviewResult = { action: 'cancel' }): void {
+    const resolve = this.resolve;
+    this.resolve = null;
+
+    // Unmount outside of React's own callbacks (the review closes itself from effects)
+    const root = this.root;
+    const container = this.container;
+    this.root = null;
+    this.container = null;
+    setTimeout(() => {
+      root?.unmount();
+      container?.parentNode?.removeChild(container);
+    }, 0);
+
+    resolve?.(result);
+  }
+}
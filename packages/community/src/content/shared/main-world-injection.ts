@@ -0,0 +1,180 @@
+/**
+ * Main World Network Injection
+ * Replaces the prompt in outgoing API requests with the enriched prompt
+ *
+ * Runs in the page's main world (see contents/main-world-interceptor.ts). The
+ * isolated prompt interceptor queues an injection via postMessage, then lets
+ * the page send the original prompt; the first matching fetch, XHR or
+ * WebSocket request that carries that prompt is rewritten by the platform's
+ * request rewriter. The page itself never sees the injected context.
+ */
+
+import type { RequestRewriter, RequestTransport } from '@engram/core';
+
+/**
+ * Queued injections expire so a stale one is never applied to a later prompt
+ */
+export const INJECTION_TTL_MS = 10000;
+
+/**
+ * Injection queued by the prompt interceptor
+ */
+export interface QueuedInjection {
+  originalPrompt: string;
+  enrichedPrompt: string;
+  timestamp: number;
+}
+
+/**
+ * Installed interception
+ */
+export interface NetworkInjection {
+  getQueued(): QueuedInjection | null;
+  uninstall(): void;
+}
+
+/**
+ * Install fetch, XHR and WebSocket interception on a window
+ *
+ * @param target - Page window (main world)
+ * @param rewriters - Request rewriters of the supported platforms
+ */
+export function installNetworkInjection(
+  target: Window & typeof globalThis,
+  rewriters: RequestRewriter[]
+): NetworkInjection {
+  let queued: QueuedInjection | null = null;
+
+  // Queue/clear messages from the isolated content script
+  const onMessage = (event: MessageEvent) => {
+    if (event.source !== target || !event.data) return;
+
+    if (event.data.type === 'ENGRAM_QUEUE_INJECTION') {
+      queued = {
+        originalPrompt: event.data.originalPrompt,
+        enrichedPrompt: event.data.enrichedPrompt,
+        timestamp: Date.now(),
+      };
+      console.log('[Engram Main World] Queued injection:', {
+        originalLength: queued.originalPrompt.length,
+        enrichedLength: queued.enrichedPrompt.length,
+      });
+    } else if (event.data.type === 'ENGRAM_CLEAR_INJECTION') {
+      queued = null;
+      console.log('[Engram Main World] Cleared injection');
+    }
+  };
+  target.addEventListener('message', onMessage);
+
+  /**
+   * Rewrite a request body (null when the request is left alone)
+   */
+  const rewriteBody = (url: string, method: string, transport: RequestTransport, body: string): string | null => {
+    if (!queued) return null;
+
+    if (Date.now() - queued.timestamp > INJECTION_TTL_MS) {
+      console.log('[Engram Main World] Injection expired');
+      queued = null;
+      return null;
+    }
+
+    const rewriter = rewriters.find((r) => r.matches(url, method, transport));
+    if (!rewriter) return null;
+
+    const rewritten = rewriter.rewrite(body, queued.originalPrompt, queued.enrichedPrompt);
+    if (rewritten === null) {
+      console.warn(`[Engram Main World] Prompt not found in ${rewriter.platform} ${transport} request:`, url);
+      return null;
+    }
+
+    console.log(`[Engram Main World] Injected context into ${rewriter.platform} ${transport} request`);
+    queued = null;
+    return rewritten;
+  };
+
+  // fetch
+  const originalFetch = target.fetch;
+  target.fetch = async function (input: RequestInfo | URL, init?: RequestInit): Promise<Response> {
+    if (queued) {
+      const isRequest = typeof input === 'object' && 'url' in input;
+      const url = typeof input === 'string' ? input : isRequest ? (input as Request).url : input.toString();
+      const method = (init?.method || (isRequest ? (input as Request).method : 'GET')).toUpperCase();
+      const body = init?.body;
+
+      if (typeof body === 'string') {
+        const rewritten = rewriteBody(url, method, 'fetch', body);
+        if (rewritten !== null) {
+          return originalFetch.call(target, input, { ...init, body: rewritten });
+        }
+      } else if (body instanceof URLSearchParams) {
+        const rewritten = rewriteBody(url, method, 'fetch', body.toString());
+        if (rewritten !== null) {
+          return originalFetch.call(target, input, { ...init, body: new URLSearchParams(rewritten) });
+        }
+      } else if (body === undefined && isRequest && method !== 'GET') {
+        const request = input as Request;
+        const rewritten = rewriteBody(url, method, 'fetch', await request.clone().text());
+        if (rewritten !== null) {
+          return originalFetch.call(target, new Request(request, { body: rewritten }), init);
+        }
+      }
+    }
+
+    return originalFetch.call(target, input, init);
+  };
+
+  // XMLHttpRequest
+  const xhrProto = target.XMLHttpRequest?.prototype;
+  const originalOpen = xhrProto?.open;
+  const originalSend = xhrProto?.send;
+  const xhrRequests = new WeakMap<XMLHttpRequest, { method: string; url: string }>();
+
+  if (xhrProto) {
+    xhrProto.open = function (this: XMLHttpRequest, ...args: any[]) {
+      xhrRequests.set(this, { method: String(args[0]).toUpperCase(), url: String(args[1]) });
+      return (originalOpen as (...a: any[]) => void).apply(this, args);
+    };
+
+    xhrProto.send = function (this: XMLHttpRequest, body?: Document | XMLHttpRequestBodyInit | null) {
+      const request = xhrRequests.get(this);
+      if (queued && request && typeof body === 'string') {
+        const rewritten = rewriteBody(request.url, request.method, 'xhr', body);
+        if (rewritten !== null) {
+          return originalSend!.call(this, rewritten);
+        }
+      }
+      return originalSend!.call(this, body);
+    };
+  }
+
+  // WebSocket
+  const wsProto = target.WebSocket?.prototype;
+  const originalWsSend = wsProto?.send;
+
+  if (wsProto) {
+    wsProto.send = function (this: WebSocket, data: string | ArrayBufferLike | Blob | ArrayBufferView) {
+      if (queued && typeof data === 'string') {
+        const rewritten = rewriteBody(this.url, 'SEND', 'websocket', data);
+        if (rewritten !== null) {
+          return originalWsSend!.call(this, rewritten);
+        }
+      }
+      return originalWsSend!.call(this, data);
+    };
+  }
+
+  return {
+    getQueued: () => queued,
+    uninstall: () => {
+      target.removeEventListener('message', onMessage);
+      target.fetch = originalFetch;
+      if (xhrProto) {
+        xhrProto.open = originalOpen!;
+        xhrProto.send = originalSend!;
+      }
+      if (wsProto) {
+        wsProto.send = originalWsSend!;
+      }
+    },
+  };
+}
@@ -6,11 +6,16 @@
 import React, { useState } from 'react';
 import { Memory } from '@engram/core';
 import { formatDate, truncateText } from '../../lib/formatters';
+import { SearchSnippets } from '../../components/SearchSnippets';
+import type { SearchScore } from '../../lib/rank-fusion';
+import type { SearchSnippet } from '../../lib/search-snippets';
 
 interface MemoryCardProps {
   memory: Memory;
   relevanceScore?: number;
   matchedKeywords?: string[];
+  snippets?: SearchSnippet[];      // Search passages shown instead of the truncated text
+  scoreBreakdown?: SearchScore;    // Lexical vs. semantic contribution
   onExpand?: (memory: Memory) => void;
 }
 
@@ -18,6 +23,8 @@ export const MemoryCard: React.FC<MemoryCardProps> = ({
   memory,
   relevanceScore,
   matchedKeywords = [],
+  snippets,
+  scoreBreakdown,
   onExpand,
 }) => {
   const [isExpanded, setIsExpanded] = useState(false);
@@ -108,6 +115,23 @@ export const MemoryCard: React.FC<MemoryCardProps> = ({
             {Math.round(relevanceScore * 100)}% match
           </div>
         )}
+        {scoreBreakdown && (scoreBreakdown.lexical !== undefined || scoreBreakdown.semantic !== undefined) && (
+          <div
+            title="Keyword (BM25) and semantic similarity scores"
+            style={{
+              fontSize: '10px',
+              color: '#4b5563',
+              backgroundColor: '#f3f4f6',
+              padding: '2px 6px',
+              borderRadius: '4px',
+              marginLeft: '4px',
+            }}
+          >
+            {scoreBreakdown.lexical !== undefined && `BM25 ${scoreBreakdown.lexical.toFixed(1)}`}
+            {scoreBreakdown.lexical !== undefined && scoreBreakdown.semantic !== undefined && ' · '}
+            {scoreBreakdown.semantic !== undefined && `${Math.round(scoreBreakdown.semantic * 100)}% semantic`}
+          </div>
+        )}
       </div>
 
       {/* Content Preview/Full */}
@@ -121,7 +145,9 @@ export const MemoryCard: React.FC<MemoryCardProps> = ({
       >
         {isExpanded
           ? highlightKeywords(memory.content.text || '')
-          : highlightKeywords(truncateText(memory.content.text || ''))}
+          : snippets?.length
+            ? <SearchSnippets snippets={snippets} textLength={memory.content.text?.length || 0} />
+            : highlightKeywords(truncateText(memory.content.text || ''))}
       </div>
 
       {/* Code Blocks (if expanded) */}
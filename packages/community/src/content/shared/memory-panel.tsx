@@ -65,10 +65,8 @@ export const MemoryPanel: React.FC<MemoryPanelProps> = ({
     setError(null);
 
     try {
-      const keywords = query.split(' ').filter(k => k.length > 2);
-      const results = await contextMatcher.searchByKeywords(keywords, {
+      const results = await contextMatcher.search(query, {
         maxResults: 10,
-        minScore: 0.05,
         conversationId,
         excludeCurrentConversation: true,
       });
@@ -76,7 +74,7 @@ export const MemoryPanel: React.FC<MemoryPanelProps> = ({
       setMemories(results);
     } catch (err) {
       console.error('[Memory Panel] Error searching memories:', err);
-      setError('Search failed');
+      setError((err as Error).message || 'Search failed');
     } finally {
       setIsLoading(false);
     }
@@ -301,6 +299,8 @@ export const MemoryPanel: React.FC<MemoryPanelProps> = ({
                   memory={scored.memory}
                   relevanceScore={scored.score}
                   matchedKeywords={scored.matchedKeywords}
+                  snippets={scored.snippets}
+                  scoreBreakdown={scored.scoreBreakdown}
                   onExpand={handleMemoryExpand}
                 />
               ))}
@@ -0,0 +1,109 @@
+/**
+ * Message Saver
+ * Sends finalized messages to the background for storage
+ *
+ * Remembers which memory each message key was saved as, so a revision
+ * emitted by the streaming tracker updates the store instead of creating an
+ * unrelated memory: a continued stream overwrites the memory of its earlier
+ * version, while an edit or regeneration is saved as another version of the
+ * message. Switching back to a version that was already captured only
+ * selects it.
+ */
+
+import type { ExtractedMessage, UUID } from '@engram/core';
+import {
+  MessageType,
+  sendSaveMessage,
+  sendSelectMemoryVersion,
+  type SaveMessageResponse,
+} from '../../lib/messages';
+import { injectionLog } from './injection-log';
+import { messageSignature } from './streaming-tracker';
+
+/**
+ * What was saved for one message key
+ */
+interface SavedMessage {
+  memoryId: UUID; // Version currently shown
+  versions: Map<string, UUID>; // Signature → memory ID of every version seen
+}
+
+export class MessageSaver {
+  private savedMessages = new Map<string, SavedMessage>(); // Conversation + message key → saved versions
+
+  /**
+   * Save a captured message (or the new version of one already saved)
+   */
+  async save(message: ExtractedMessage): Promise<SaveMessageResponse> {
+    const prepared = injectionLog.apply(message);
+    const key = prepared.metadata?.messageKey ? `${prepared.conversationId}:${prepared.metadata.messageKey}` : null;
+    const revision = prepared.metadata?.revision;
+    const signature = messageSignature(prepared);
+    const saved = key && revision ? this.savedMessages.get(key) : undefined;
+
+    if (!saved) {
+      return this.send(key, signature, prepared);
+    }
+
+    const known = saved.versions.get(signature);
+    if (known) {
+      return this.select(saved, known);
+    }
+
+    return revision === 'continuation'
+      ? this.send(key, signature, prepared, { replaces: saved.memoryId })
+      : this.send(key, signature, prepared, { branchOf: saved.memoryId });
+  }
+
+  /**
+   * Forget saved keys
+   */
+  reset(): void {
+    this.savedMessages.clear();
+  }
+
+  private async send(
+    key: string | null,
+    signature: string,
+    message: ExtractedMessage,
+    options?: { replaces?: UUID; branchOf?: UUID }
+  ): Promise<SaveMessageResponse> {
+    const response = await sendSaveMessage(message, options);
+    if (!response.success || !response.memoryId || !key) {
+      return response;
+    }
+
+    const saved = this.savedMessages.get(key);
+    if (saved && options) {
+      // A continued stream replaces its earlier text under the same memory
+      if (options.replaces) {
+        for (const [known, memoryId] of saved.versions) {
+          if (memoryId === options.replaces) saved.versions.delete(known);
+        }
+      }
+      saved.memoryId = response.memoryId;
+      saved.versions.set(signature, response.memoryId);
+    } else {
+      this.savedMessages.set(key, { memoryId: response.memoryId, versions: new Map([[signature, response.memoryId]]) });
+    }
+
+    return response;
+  }
+
+  /**
+   * The platform switched back to a version that was already saved
+   */
+  private async select(saved: SavedMessage, memoryId: UUID): Promise<SaveMessageResponse> {
+    saved.memoryId = memoryId;
+    const response = await sendSelectMemoryVersion(memoryId);
+
+    return {
+      type: MessageType.SAVE_MESSAGE_RESPONSE,
+      success: response.success,
+      memoryId,
+      error: response.error,
+    };
+  }
+}
+
+export const messageSaver = new MessageSaver();
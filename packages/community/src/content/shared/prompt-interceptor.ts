@@ -1,11 +1,22 @@
 /**
  * Prompt Interceptor
  * Monitors user input and automatically injects relevant memories before sending
+ *
+ * Retrieval runs in the background worker (RETRIEVE_CONTEXT): the tab only sends
+ * the draft prompt and holds the few candidates returned, never the memory
+ * library or its embeddings.
+ *
+ * Before sending, the review popover (opened from the indicator, or on send when
+ * enabled in settings) lets the user uncheck or pin memories and edit the block.
  */
 
-import { getEmbeddingService, type SimilarityResult, type MemoryWithEmbedding } from '../../lib/embedding-service';
-import { sendMessage, MessageType } from '../../lib/messages';
-import type { Memory, MemoryWithMemA, UUID } from '@engram/core';
+import { sendRetrieveContext } from '../../lib/messages';
+import type { ContextCandidate } from '../../lib/context-retrieval';
+import type { AssembledContext } from '../../lib/context-builder';
+import { getInjectionReviewConfig } from '../../lib/injection-review';
+import { citedMemoryIds } from '../../lib/context-provenance';
+import { InjectionReviewPopover } from './injection-review-popover';
+import { injectionLog } from './injection-log';
 
 /**
  * Configuration
@@ -13,8 +24,6 @@ import type { Memory, MemoryWithMemA, UUID } from '@engram/core';
 const CONFIG = {
   DEBOUNCE_MS: 500, // Wait time before computing similarity
   MIN_QUERY_LENGTH: 10, // Minimum characters to trigger matching
-  CONTEXT_MARKER: '[Engram Context]', // Marker to identify injected content
-  MAX_CONTEXT_LENGTH: 500, // Max characters per memory in context
 };
 
 /**
@@ -24,17 +33,19 @@ const CONFIG = {
 export class PromptInterceptor {
   private inputElement: HTMLTextAreaElement | HTMLElement | null = null;
   private sendButton: HTMLButtonElement | null = null;
-  private embeddingsService = getEmbeddingService();
-  private memories: MemoryWithEmbedding[] = [];
-  private currentMatches: SimilarityResult[] = [];
+  private currentMatches: ContextCandidate[] = [];
   private debounceTimer: number | null = null;
   private indicator: HTMLElement | null = null;
   private isProcessing = false;
+  private lastEnrichedPrompt: string | null = null; // Last injected prompt, so a resend is not enriched twice
+  private isSending = false; // Set while our own send click is dispatched
+  private reviewPopover = new InjectionReviewPopover();
   private useDirectInsertion = false; // Flag to use direct textarea insertion instead of network interception
 
   /**
    * Initialize the interceptor
-   * @param useDirectInsertion - If true, directly inserts into textarea instead of network interception (for ChatGPT)
+   * @param useDirectInsertion - If true, directly inserts into textarea instead of network interception
+   *   (fallback for platforms without a request rewriter)
    */
   async initialize(textareaSelector: string, sendButtonSelector: string, useDirectInsertion = false): Promise<void> {
     this.useDirectInsertion = useDirectInsertion;
@@ -54,12 +65,6 @@ export class PromptInterceptor {
     // Note: Main world network interceptor is loaded separately by Plasmo
     // (see contents/main-world-interceptor.ts with world: "MAIN")
 
-    // Initialize embedding service
-    await this.embeddingsService.initialize();
-
-    // Load and embed memories
-    await this.loadMemories();
-
     // Attach event listeners
     this.attachListeners();
 
@@ -148,41 +153,6 @@ export class PromptInterceptor {
     }
   }
 
-  /**
-   * Load memories and generate embeddings
-   */
-  private async loadMemories(): Promise<void> {
-    try {
-      console.log('[Engram Interceptor] Loading memories...');
-
-      // Fetch memories from storage
-      const response = await sendMessage<{
-        type: MessageType.GET_MEMORIES;
-        filter?: { limit: number };
-      }>({
-        type: MessageType.GET_MEMORIES,
-        filter: {
-          limit: 200, // Load recent memories for auto-injection (balanced performance)
-        },
-      });
-
-      if (!response.success || !response.memories) {
-        console.log('[Engram Interceptor] No memories found');
-        return;
-      }
-
-      const memories = response.memories as Memory[];
-      console.log(`[Engram Interceptor] Loaded ${memories.length} memories`);
-
-      // Generate embeddings
-      this.memories = await this.embeddingsService.embedMemories(memories);
-
-      console.log('[Engram Interceptor] Embeddings generated');
-    } catch (error) {
-      console.error('[Engram Interceptor] Failed to load memories:', error);
-    }
-  }
-
   /**
    * Attach event listeners
    */
@@ -227,65 +197,6 @@ export class PromptInterceptor {
     }
   }
 
-  /**
-   * Find similar memories with link-aware retrieval (Phase 2)
-   *
-   * Algorithm:
-   * 1. Get top-5 memories by semantic similarity
-   * 2. Expand results with their linked memories
-   * 3. De-duplicate results
-   * 4. Re-sort by hybrid score
-   * 5. Limit to max 10 results
-   *
-   * @param query Search query
-   * @returns Array of similar memories (up to 10)
-   */
-  private async findSimilarWithLinks(query: string): Promise<SimilarityResult[]> {
-    // Step 1: Get top-5 by semantic similarity
-    const topResults = await this.embeddingsService.findSimilar(query, this.memories, {
-      maxResults: 5,
-      threshold: 0.5,
-    });
-
-    if (topResults.length === 0) {
-      return [];
-    }
-
-    // Step 2: Expand with linked memories
-    const expanded = new Set<UUID>();
-    const results: SimilarityResult[] = [...topResults];
-
-    for (const result of topResults) {
-      expanded.add(result.memory.id);
-
-      // Check if memory has links
-      const memoryWithLinks = result.memory as MemoryWithMemA;
-      if (memoryWithLinks.links && memoryWithLinks.links.length > 0) {
-        for (const link of memoryWithLinks.links) {
-          // Only add if not already included and under limit
-          if (!expanded.has(link.memoryId) && expanded.size < 10) {
-            // Find the linked memory in our memory list
-            const linkedMemory = this.memories.find(m => m.id === link.memoryId);
-
-            if (linkedMemory) {
-              // Add with decayed score (linked memories have lower priority)
-              results.push({
-                memory: linkedMemory,
-                score: result.score * link.score * 0.8, // Decay factor: 0.8
-              });
-              expanded.add(link.memoryId);
-            }
-          }
-        }
-      }
-    }
-
-    // Step 3: Sort by score and limit to 10
-    return results
-      .sort((a, b) => b.score - a.score)
-      .slice(0, 10);
-  }
-
   /**
    * Compute similarity and find matches
    */
@@ -299,10 +210,13 @@ export class PromptInterceptor {
       this.isProcessing = true;
 
       console.log('[Engram Interceptor] Computing similarity for query:', query.substring(0, 50) + '...');
-      console.log('[Engram Interceptor] Total memories to search:', this.memories.length);
 
-      // Find similar memories with link-aware retrieval (Phase 2)
-      this.currentMatches = await this.findSimilarWithLinks(query);
+      // Link-aware retrieval (Phase 2) runs against the background HNSW index
+      const response = await sendRetrieveContext(query);
+      if (!response.success) {
+        throw new Error(response.error || 'Context retrieval failed');
+      }
+      this.currentMatches = response.candidates || [];
 
       console.log(`[Engram Interceptor] Found ${this.currentMatches.length} relevant memories (with links)`);
 
@@ -326,6 +240,8 @@ export class PromptInterceptor {
    * Handle send button click
    */
   private async handleSend(event: MouseEvent): Promise<void> {
+    if (this.isSending) return;
+
     console.log('[Engram Interceptor] Send button clicked, matches:', this.currentMatches.length);
 
     if (this.currentMatches.length > 0) {
@@ -356,42 +272,72 @@ export class PromptInterceptor {
 
   /**
    * Inject memories and send
+   * @param forceReview - Show the review even when it is disabled in settings (indicator click)
    */
-  private async injectAndSend(): Promise<void> {
+  private async injectAndSend(forceReview = false): Promise<void> {
     if (!this.inputElement || !this.sendButton) {
       console.error('[Engram Interceptor] Missing input element or send button');
       return;
     }
 
+    if (this.reviewPopover.isOpen()) {
+      console.log('[Engram Interceptor] Review already open, waiting for the user...');
+      return;
+    }
+
     const originalQuery = this.getInputText().trim();
 
     console.log('[Engram Interceptor] Preparing to inject memories...');
     console.log('[Engram Interceptor] Original query:', originalQuery.substring(0, 100) + '...');
 
-    // Check if already injected
-    if (originalQuery.includes(CONFIG.CONTEXT_MARKER)) {
+    // Check if already injected (templates decide the layout, so compare with the last injection)
+    if (this.lastEnrichedPrompt && originalQuery === this.lastEnrichedPrompt.trim()) {
       console.log('[Engram Interceptor] Already injected, just sending...');
       // Already injected, just send
-      this.sendButton.click();
+      this.clickSend();
       return;
     }
 
-    // Build context from matches
-    const context = this.buildContext(this.currentMatches);
-
-    console.log('[Engram Interceptor] Built context length:', context.length);
-
-    // Inject context
-    const enrichedPrompt = `${originalQuery}
+    // Assemble the token-budgeted block in the background from the final prompt
+    const assembled = await this.assembleContext(originalQuery);
+    let enrichedPrompt = assembled?.context?.enrichedPrompt || null;
+    let memoryIds = citedMemoryIds(assembled?.context);
+
+    // Pause for review: uncheck or pin memories, edit the block
+    const review = await getInjectionReviewConfig();
+    if (assembled && assembled.candidates.length > 0 && (review.enabled || forceReview)) {
+      const result = await this.reviewPopover.open(
+        originalQuery,
+        assembled.candidates,
+        assembled.context,
+        forceReview ? 0 : review.autoAcceptSeconds
+      );
+
+      if (result.action === 'cancel') {
+        console.log('[Engram Interceptor] Review cancelled, back to editing');
+        return;
+      }
+      enrichedPrompt = result.prompt === originalQuery ? null : result.prompt;
+      memoryIds = result.memoryIds;
+    }
 
-${CONFIG.CONTEXT_MARKER}:
-${context}`;
+    if (!enrichedPrompt) {
+      console.log('[Engram Interceptor] No context to inject, sending original prompt');
+      this.currentMatches = [];
+      this.updateIndicator();
+      this.clickSend();
+      return;
+    }
 
+    this.lastEnrichedPrompt = enrichedPrompt;
     console.log('[Engram Interceptor] Enriched prompt length:', enrichedPrompt.length);
 
+    // The captured user turn is saved without the block, citing these memories
+    injectionLog.record(originalQuery, enrichedPrompt, memoryIds);
+
     if (this.useDirectInsertion) {
-      // ChatGPT mode: Directly insert into textarea
-      console.log('[Engram Interceptor] Using direct insertion mode (ChatGPT)');
+      // Fallback: Directly insert into textarea (visible in the chat)
+      console.log('[Engram Interceptor] Using direct insertion mode');
 
       // Set the enriched prompt directly in the input
       this.setInputText(enrichedPrompt);
@@ -401,10 +347,10 @@ ${context}`;
 
       // Click send
       console.log('[Engram Interceptor] Clicking send button...');
-      this.sendButton.click();
+      this.clickSend();
     } else {
-      // Claude mode: Queue for network interception
-      console.log('[Engram Interceptor] Using network interception mode (Claude)');
+      // Queue for network interception (the platform's request rewriter replaces the prompt)
+      console.log('[Engram Interceptor] Using network interception mode');
 
       // Queue the enriched prompt in main world network interceptor via postMessage
       window.postMessage({
@@ -420,7 +366,7 @@ ${context}`;
       // Click send - let React send the original query
       // Main world network interceptor will replace it in the API request
       console.log('[Engram Interceptor] Clicking send button...');
-      this.sendButton.click();
+      this.clickSend();
     }
 
     // Clear matches
@@ -429,19 +375,43 @@ ${context}`;
   }
 
   /**
-   * Build context string from matches
+   * Click send without intercepting our own click
+   */
+  private clickSend(): void {
+    this.isSending = true;
+    try {
+      this.sendButton?.click();
+    } finally {
+      this.isSending = false;
+    }
+  }
+
+  /**
+   * Retrieve candidates and lay out the prompt with its context block using the
+   * platform's template (null if retrieval failed)
    */
-  private buildContext(matches: SimilarityResult[]): string {
-    return matches
-      .map((match, index) => {
-        const text = match.memory.content.text || '';
-        const truncated = text.length > CONFIG.MAX_CONTEXT_LENGTH
-          ? text.substring(0, CONFIG.MAX_CONTEXT_LENGTH) + '...'
-          : text;
-
-        return `${index + 1}. [Score: ${(match.score * 100).toFixed(0)}%] ${truncated}`;
-      })
-      .join('\n\n');
+  private async assembleContext(
+    prompt: string
+  ): Promise<{ candidates: ContextCandidate[]; context: AssembledContext | null } | null> {
+    try {
+      const response = await sendRetrieveContext(prompt, { assemble: true });
+      if (!response.success) {
+        throw new Error(response.error || 'Context assembly failed');
+      }
+
+      const context = response.context?.text && response.context.enrichedPrompt ? response.context : null;
+      if (context) {
+        console.log('[Engram Interceptor] Assembled context:', {
+          tokens: `${context.tokens}/${context.budget}`,
+          citations: context.citations,
+          dropped: context.dropped.length,
+        });
+      }
+      return { candidates: response.candidates || [], context };
+    } catch (error) {
+      console.error('[Engram Interceptor] Failed to assemble context:', error);
+      return null;
+    }
   }
 
   /**
@@ -493,6 +463,11 @@ ${context}`;
       <span id="engram-memory-count">0 memories</span>
     `;
 
+    // Review the memories before sending
+    this.indicator.style.cursor = 'pointer';
+    this.indicator.title = 'Review memories before sending';
+    this.indicator.addEventListener('click', () => this.injectAndSend(true));
+
     document.body.appendChild(this.indicator);
   }
 
@@ -527,5 +502,7 @@ ${context}`;
     if (this.indicator && this.indicator.parentNode) {
       this.indicator.parentNode.removeChild(this.indicator);
     }
+
+    this.reviewPopover.close();
   }
 }
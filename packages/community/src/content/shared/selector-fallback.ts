@@ -0,0 +1,92 @@
+/**
+ * Selector Fallback
+ * Selector chains and heuristics adapters try before giving up when a
+ * platform changes its DOM; which selector matched goes to the page's health
+ */
+
+import type { Role } from '@engram/core';
+import { adapterHealth } from './health-monitor';
+
+/**
+ * Selectors tried in order: the current one first, then older or looser ones
+ */
+export type SelectorChain = readonly string[];
+
+/**
+ * Classes and styles that push a chat bubble to the right (user turns)
+ */
+const END_ALIGNED_CLASSES = ['justify-end', 'items-end', 'self-end', 'ml-auto', 'text-right'];
+
+/**
+ * Markers of rendered model output
+ */
+const RENDERED_OUTPUT_SELECTOR = '.markdown, .prose, pre, table, ol, ul';
+
+/**
+ * First element matching the chain (the root itself counts), recorded under
+ * `name` in the page's health
+ */
+export function queryChain<T extends Element = HTMLElement>(
+  root: ParentNode,
+  chain: SelectorChain,
+  name: string
+): T | null {
+  for (let i = 0; i < chain.length; i++) {
+    const element = root instanceof Element && root.matches(chain[i]) ? (root as Element as T) : root.querySelector<T>(chain[i]);
+    if (element) {
+      adapterHealth.recordLookup(name, i);
+      return element;
+    }
+  }
+
+  adapterHealth.recordLookup(name, -1);
+  return null;
+}
+
+/**
+ * First selector of the chain that matches anything under the root
+ *
+ * Nothing matching is not recorded as a miss: a new chat has no messages.
+ */
+export function resolveChain(root: ParentNode, chain: SelectorChain, name: string): string | null {
+  for (let i = 0; i < chain.length; i++) {
+    if (root.querySelector(chain[i])) {
+      adapterHealth.recordLookup(name, i);
+      return chain[i];
+    }
+  }
+  return null;
+}
+
+/**
+ * Guess the role of a message from its layout: user turns are aligned to the
+ * end of the thread, model turns hold rendered output
+ *
+ * @returns null when the layout gives no hint
+ */
+export function inferRoleFromLayout(element: HTMLElement): Role | null {
+  const candidates = [element, ...Array.from(element.querySelectorAll<HTMLElement>('div')).slice(0, 20)];
+
+  for (const candidate of candidates) {
+    if (END_ALIGNED_CLASSES.some((name) => candidate.classList.contains(name)) || isEndAligned(candidate)) {
+      return 'user';
+    }
+  }
+
+  if (element.matches(RENDERED_OUTPUT_SELECTOR) || element.querySelector(RENDERED_OUTPUT_SELECTOR)) {
+    return 'assistant';
+  }
+
+  return null;
+}
+
+function isEndAligned(element: HTMLElement): boolean {
+  const style = window.getComputedStyle(element);
+  return (
+    style.justifyContent === 'flex-end' ||
+    style.alignItems === 'flex-end' ||
+    style.alignSelf === 'flex-end' ||
+    style.marginLeft === 'auto' ||
+    style.textAlign === 'right'
+  );
+}
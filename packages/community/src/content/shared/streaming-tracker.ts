@@ -0,0 +1,195 @@
+/**
+ * Streaming Tracker
+ * Decides when a message element on the page is final, for every adapter
+ *
+ * Adapters report each message element they see (on load and on every
+ * mutation); the tracker watches it until its text stops changing and the
+ * platform's streaming indicator is gone, then emits it exactly once. An
+ * element that changes after it was emitted (an edited prompt, a regenerated
+ * answer, or a stream that paused) is emitted again as a revision of the same
+ * message key, so the saved memory is updated instead of duplicated.
+ */
+
+import type { ExtractedMessage, MessageRevision, PlatformFeatures } from '@engram/core';
+import { adapterHealth } from './health-monitor';
+
+/**
+ * Timing
+ */
+export const STREAMING_CONFIG = {
+  STABLE_MS: 2000, // No text change for this long means the message is complete
+  MAX_WAIT_MS: 120000, // Give up on a streaming indicator that never clears
+};
+
+/**
+ * Version of a message: its text and code blocks
+ * (adapters extract code separately, so text alone can miss a change)
+ */
+export function messageSignature(message: ExtractedMessage): string {
+  const codeBlocks = message.metadata?.codeBlocks || [];
+  if (codeBlocks.length === 0) return message.content;
+
+  return `${message.content}||CODE:${codeBlocks.map((block) => `${block.language}:${block.code}`).join('|')}`;
+}
+
+export interface StreamingTrackerOptions {
+  tag: string; // Log prefix, e.g. '[Claude Adapter]'
+  features: PlatformFeatures;
+  extract(element: HTMLElement): ExtractedMessage | null;
+  getKey(element: HTMLElement): string;
+  // Platform streaming indicator; without one, only text stability counts
+  isStreaming?(element: HTMLElement): boolean;
+  onMessage(message: ExtractedMessage): void;
+}
+
+/**
+ * What is known about one message element
+ */
+interface TrackedMessage {
+  element: HTMLElement;
+  signature: string; // Last version seen
+  since: number; // When the current (unsaved) version started
+  timer: ReturnType<typeof setTimeout> | null;
+  emitted: string | null; // Signature of the emitted version
+  emittedText: string; // Text of the emitted version
+}
+
+export class StreamingTracker {
+  private messages = new Map<string, TrackedMessage>(); // Message key → what is known about it
+
+  constructor(private options: StreamingTrackerOptions) {}
+
+  /**
+   * Report a message element (new, or mutated)
+   *
+   * @param element - Message element
+   * @param settled - Already complete (present when the page loaded)
+   */
+  observe(element: HTMLElement, settled = false): void {
+    const key = this.options.getKey(element);
+    const message = this.options.extract(element);
+    if (!message || !message.content) return;
+
+    const signature = messageSignature(message);
+    let tracked = this.messages.get(key);
+    if (!tracked) {
+      tracked = { element, signature, since: Date.now(), timer: null, emitted: null, emittedText: '' };
+      this.messages.set(key, tracked);
+    } else if (tracked.signature === signature && tracked.element === element) {
+      // Nothing new (mutations elsewhere in the element)
+      if (tracked.emitted !== null || tracked.timer) return;
+    } else {
+      if (tracked.emitted !== null && tracked.timer === null) {
+        tracked.since = Date.now();
+      }
+      tracked.element = element;
+      tracked.signature = signature;
+    }
+
+    if (tracked.emitted === signature) {
+      this.clearTimer(tracked);
+      return;
+    }
+
+    // A first version the platform reports as done needs no waiting
+    const reportedDone = !!this.options.isStreaming && tracked.emitted === null && !this.isStreaming(element, message);
+    if (settled || reportedDone || !this.options.features.supportsStreaming) {
+      this.finalize(key, tracked, message);
+      return;
+    }
+
+    // Wait until the text stops changing
+    this.clearTimer(tracked);
+    tracked.timer = setTimeout(() => this.settle(key), STREAMING_CONFIG.STABLE_MS);
+  }
+
+  /**
+   * Forget every message (navigation, or observation stopped)
+   */
+  reset(): void {
+    this.messages.forEach((tracked) => this.clearTimer(tracked));
+    this.messages.clear();
+  }
+
+  /**
+   * Messages waiting for their text to settle
+   */
+  getPendingCount(): number {
+    return [...this.messages.values()].filter((tracked) => tracked.timer !== null).length;
+  }
+
+  /**
+   * Stability timer fired
+   */
+  private settle(key: string): void {
+    const tracked = this.messages.get(key);
+    if (!tracked) return;
+    tracked.timer = null;
+
+    const message = this.options.extract(tracked.element);
+    if (!message || !message.content) return;
+
+    // Text that changed without a reported mutation is taken as it is now;
+    // should it still grow, the next mutation emits a continuation
+    tracked.signature = messageSignature(message);
+
+    if (this.isStreaming(tracked.element, message) && Date.now() - tracked.since < STREAMING_CONFIG.MAX_WAIT_MS) {
+      tracked.timer = setTimeout(() => this.settle(key), STREAMING_CONFIG.STABLE_MS);
+      return;
+    }
+
+    console.log(`${this.options.tag} Streaming completed for ${key}`);
+    this.finalize(key, tracked, message);
+  }
+
+  /**
+   * Emit the final (or revised) version of a message
+   */
+  private finalize(key: string, tracked: TrackedMessage, message: ExtractedMessage): void {
+    this.clearTimer(tracked);
+    const signature = messageSignature(message);
+    if (tracked.emitted === signature) return;
+
+    // Turns with the same text ("yes", "continue") are separate messages, so
+    // only a re-render under the same key counts as already emitted
+    const revision = tracked.emitted !== null ? this.revisionOf(tracked.emittedText, message) : undefined;
+
+    tracked.emitted = signature;
+    tracked.emittedText = message.content;
+    if (!revision) adapterHealth.recordCapture(message.conversationId);
+
+    this.options.onMessage({
+      ...message,
+      metadata: {
+        ...message.metadata,
+        isStreaming: false,
+        messageKey: key,
+        ...(revision && { revision }),
+      },
+    });
+    console.log(`${this.options.tag} ${revision ? `Revised (${revision})` : 'Saved complete'} message ${key}`);
+  }
+
+  /**
+   * Why an emitted message changed
+   * Text that only grew is a stream that paused; other changes are edits or
+   * regenerations where the platform supports them
+   */
+  private revisionOf(previousText: string, message: ExtractedMessage): MessageRevision {
+    if (!this.options.features.supportsRegeneration || message.content.startsWith(previousText)) {
+      return 'continuation';
+    }
+    return message.role === 'user' ? 'edit' : 'regeneration';
+  }
+
+  private isStreaming(element: HTMLElement, message: ExtractedMessage): boolean {
+    return !!message.metadata?.isStreaming || !!this.options.isStreaming?.(element);
+  }
+
+  private clearTimer(tracked: TrackedMessage): void {
+    if (tracked.timer) {
+      clearTimeout(tracked.timer);
+      tracked.timer = null;
+    }
+  }
+}
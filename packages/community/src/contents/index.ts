@@ -12,7 +12,10 @@ export const config: PlasmoCSConfig = {
     "https://chatgpt.com/*",
     "https://claude.ai/*",
     "https://www.perplexity.ai/*",
-    "https://gemini.google.com/*"
+    "https://gemini.google.com/*",
+    "https://chat.deepseek.com/*",
+    "https://copilot.microsoft.com/*",
+    "https://chat.mistral.ai/*"
   ],
   all_frames: false,
   run_at: "document_end"
@@ -23,8 +26,13 @@ import { chatGPTAdapter } from '../content/platforms/chatgpt-adapter';
 import { claudeAdapter } from '../content/platforms/claude-adapter';
 import { perplexityAdapter } from '../content/platforms/perplexity-adapter';
 import { geminiAdapter } from '../content/platforms/gemini-adapter';
-import { sendInitRequest, sendSaveMessage } from '../lib/messages';
+import { SpecAdapter } from '../content/platforms/spec-adapter';
+import { findAdapterSpec, getAdapterSpecs } from '../lib/adapter-specs';
+import type { AdapterSpec } from '@engram/core';
+import { sendInitRequest } from '../lib/messages';
 import { PromptInterceptor } from '../content/shared/prompt-interceptor';
+import { messageSaver } from '../content/shared/message-saver';
+import { adapterHealth } from '../content/shared/health-monitor';
 
 /**
  * Track current conversation ID to detect navigation
@@ -77,15 +85,17 @@ async function initializeChatGPT() {
     await chatGPTAdapter.initialize();
     console.log('[Engram] Adapter initialized');
 
-    // Initialize intelligent prompt interceptor with direct insertion mode
+    // Initialize intelligent prompt interceptor (context is injected into the request, not the textarea)
     currentInterceptor = new PromptInterceptor();
     await currentInterceptor.initialize(
       '#prompt-textarea', // ChatGPT textarea selector (contenteditable div)
-      'button[data-testid*="send"], button[type="submit"]:not([disabled])', // ChatGPT send button selector
-      true // Use direct insertion mode for ChatGPT
+      'button[data-testid*="send"], button[type="submit"]:not([disabled])' // ChatGPT send button selector
     );
 
-    console.log('[Engram] Intelligent auto-injection ready (direct insertion mode)');
+    console.log('[Engram] Intelligent auto-injection ready');
+
+    // Report capture health (before existing messages are captured)
+    adapterHealth.start(chatGPTAdapter);
 
     // Start observing messages (now async with retries)
     await chatGPTAdapter.observeMessages(async (extractedMessage) => {
@@ -96,7 +106,7 @@ async function initializeChatGPT() {
       });
 
       try {
-        const saveResponse = await sendSaveMessage(extractedMessage);
+        const saveResponse = await messageSaver.save(extractedMessage);
         if (saveResponse.success) {
           console.log('[Engram] Message saved successfully');
         } else {
@@ -113,7 +123,7 @@ async function initializeChatGPT() {
       chatGPTAdapter.destroy();
     };
 
-    console.log('[Engram] Ready - monitoring ChatGPT messages (direct insertion mode)');
+    console.log('[Engram] Ready - monitoring ChatGPT messages');
   } catch (error) {
     console.error('[Engram] ChatGPT initialization error:', error);
   }
@@ -148,6 +158,9 @@ async function initializeClaude() {
 
       console.log('[Engram] Intelligent auto-injection ready');
 
+      // Report capture health (before existing messages are captured)
+      adapterHealth.start(claudeAdapter);
+
       // Start observing messages
       await claudeAdapter.observeMessages(async (extractedMessage) => {
         console.log('[Engram] Message extracted:', {
@@ -157,7 +170,7 @@ async function initializeClaude() {
         });
 
         try {
-          const saveResponse = await sendSaveMessage(extractedMessage);
+          const saveResponse = await messageSaver.save(extractedMessage);
           if (saveResponse.success) {
             console.log('[Engram] Message saved successfully');
           } else {
@@ -194,6 +207,18 @@ async function initializeGemini() {
     await geminiAdapter.initialize();
     console.log('[Engram] Adapter initialized');
 
+    // Initialize intelligent prompt interceptor
+    const interceptor = new PromptInterceptor();
+    await interceptor.initialize(
+      'rich-textarea div[contenteditable="true"]', // Gemini Quill editor
+      'button.send-button, button[aria-label="Send message"]' // Gemini send button
+    );
+
+    console.log('[Engram] Intelligent auto-injection ready');
+
+    // Report capture health (before existing messages are captured)
+    adapterHealth.start(geminiAdapter);
+
     // Start observing messages
     await geminiAdapter.observeMessages(async (extractedMessage) => {
       console.log('[Engram] Message extracted:', {
@@ -203,7 +228,7 @@ async function initializeGemini() {
       });
 
       try {
-        const saveResponse = await sendSaveMessage(extractedMessage);
+        const saveResponse = await messageSaver.save(extractedMessage);
         if (saveResponse.success) {
           console.log('[Engram] Message saved successfully');
         } else {
@@ -240,6 +265,18 @@ async function initializePerplexity() {
     await perplexityAdapter.initialize();
     console.log('[Engram] Adapter initialized');
 
+    // Initialize intelligent prompt interceptor
+    const interceptor = new PromptInterceptor();
+    await interceptor.initialize(
+      'textarea[placeholder*="Ask"], #ask-input', // Perplexity query input
+      'button[aria-label="Submit"]' // Perplexity submit button
+    );
+
+    console.log('[Engram] Intelligent auto-injection ready');
+
+    // Report capture health (before existing messages are captured)
+    adapterHealth.start(perplexityAdapter);
+
     // Start observing messages
     await perplexityAdapter.observeMessages(async (extractedMessage) => {
       console.log('[Engram] Message extracted:', {
@@ -249,7 +286,7 @@ async function initializePerplexity() {
       });
 
       try {
-        const saveResponse = await sendSaveMessage(extractedMessage);
+        const saveResponse = await messageSaver.save(extractedMessage);
         if (saveResponse.success) {
           console.log('[Engram] Message saved successfully');
         } else {
@@ -266,6 +303,63 @@ async function initializePerplexity() {
   }
 }
 
+/**
+ * Initialize a site described by an adapter spec (built-in or the user's own)
+ */
+async function initializeSpec(spec: AdapterSpec) {
+  try {
+    console.log(`[Engram] ${spec.name} detected, initializing spec adapter...`);
+
+    // Initialize background connection
+    const initResponse = await sendInitRequest();
+    if (!initResponse.success) {
+      console.error('[Engram] Background init failed:', initResponse.error);
+      return;
+    }
+
+    console.log('[Engram] Background connected, device ID:', initResponse.deviceId);
+
+    // Initialize adapter
+    const adapter = new SpecAdapter(spec);
+    await adapter.initialize();
+    console.log('[Engram] Adapter initialized');
+
+    // Spec sites have no request rewriter, so context goes into the input
+    if (spec.selectors.input && spec.selectors.sendButton) {
+      const interceptor = new PromptInterceptor();
+      await interceptor.initialize(spec.selectors.input, spec.selectors.sendButton, true);
+      console.log('[Engram] Intelligent auto-injection ready');
+    }
+
+    // Report capture health (before existing messages are captured)
+    adapterHealth.start(adapter);
+
+    // Start observing messages
+    await adapter.observeMessages(async (extractedMessage) => {
+      console.log('[Engram] Message extracted:', {
+        role: extractedMessage.role,
+        contentLength: extractedMessage.content.length,
+        conversationId: extractedMessage.conversationId
+      });
+
+      try {
+        const saveResponse = await messageSaver.save(extractedMessage);
+        if (saveResponse.success) {
+          console.log('[Engram] Message saved successfully');
+        } else {
+          console.error('[Engram] Failed to save message:', saveResponse.error);
+        }
+      } catch (error) {
+        console.error('[Engram] Error saving message:', error);
+      }
+    });
+
+    console.log(`[Engram] Ready - monitoring ${spec.name} messages`);
+  } catch (error) {
+    console.error(`[Engram] ${spec.name} initialization error:`, error);
+  }
+}
+
 /**
  * Initialize generic mode for non-AI sites.
  * On generic sites, we don't auto-inject UI - users can access memories
@@ -307,8 +401,13 @@ async function initialize() {
     } else if (url.includes('perplexity.ai')) {
       await initializePerplexity();
     } else {
-      // Generic site - provide memory access UI
-      await initializeGeneric();
+      const spec = findAdapterSpec(url, await getAdapterSpecs());
+      if (spec) {
+        await initializeSpec(spec);
+      } else {
+        // Generic site - provide memory access UI
+        await initializeGeneric();
+      }
     }
   } catch (error) {
     console.error('[Engram] Content script error:', error);
@@ -0,0 +1,140 @@
+/**
+ * Adapter Health
+ *
+ * Capture telemetry reported by the content script of an AI chat page:
+ * messages captured per conversation, how often each selector (and its
+ * fallbacks) matched, and when the last message was captured. The sidepanel
+ * warns when a conversation yields nothing, which usually means the platform
+ * changed its DOM.
+ */
+
+import type { Platform } from '@engram/core';
+
+/**
+ * Time a conversation may stay without captures before it counts as failing
+ */
+export const CAPTURE_GRACE_MS = 30_000;
+
+/**
+ * How often one selector chain matched
+ */
+export interface SelectorStats {
+  hits: number; // Primary selector matched
+  fallbackHits: number; // Only a fallback selector matched
+  misses: number; // Nothing in the chain matched
+}
+
+/**
+ * Health telemetry of the adapter running on a page
+ */
+export interface AdapterHealthReport {
+  platform: Platform;
+  startedAt: number; // When capture started on the page
+  conversationId: string | null; // Conversation open on the page
+  conversationSince: number; // When it was opened
+  captures: Record<string, number>; // Conversation ID → messages captured
+  lastCaptureAt: number | null;
+  selectors: Record<string, SelectorStats>; // Selector chain name → matches
+  inferredRoles: number; // Extractions whose role came from the layout heuristic
+}
+
+export type AdapterHealthStatus = 'healthy' | 'degraded' | 'failing';
+
+export interface AdapterHealthEvaluation {
+  status: AdapterHealthStatus;
+  reasons: string[];
+}
+
+const PLATFORMS: Platform[] = ['chatgpt', 'claude', 'perplexity', 'gemini', 'deepseek', 'copilot', 'mistral', 'generic'];
+
+function isCount(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value) && value >= 0;
+}
+
+function isTimestamp(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value);
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * Check a report received from a content script
+ * Returns the problems found (empty when the report is well formed)
+ */
+export function validateAdapterHealthReport(report: unknown): string[] {
+  if (!isRecord(report)) {
+    return ['Report must be an object'];
+  }
+
+  const errors: string[] = [];
+  if (!PLATFORMS.includes(report.platform as Platform)) {
+    errors.push(`platform must be one of: ${PLATFORMS.join(', ')}`);
+  }
+  if (!isTimestamp(report.startedAt) || !isTimestamp(report.conversationSince)) {
+    errors.push('startedAt and conversationSince must be timestamps');
+  }
+  if (report.conversationId !== null && typeof report.conversationId !== 'string') {
+    errors.push('conversationId must be a string or null');
+  }
+  if (report.lastCaptureAt !== null && !isTimestamp(report.lastCaptureAt)) {
+    errors.push('lastCaptureAt must be a timestamp or null');
+  }
+  if (!isRecord(report.captures) || !Object.values(report.captures).every(isCount)) {
+    errors.push('captures must map conversation IDs to message counts');
+  }
+  if (
+    !isRecord(report.selectors) ||
+    !Object.values(report.selectors).every(
+      (stats) => isRecord(stats) && isCount(stats.hits) && isCount(stats.fallbackHits) && isCount(stats.misses)
+    )
+  ) {
+    errors.push('selectors must map selector names to hit, fallback and miss counts');
+  }
+  if (!isCount(report.inferredRoles)) {
+    errors.push('inferredRoles must be a count');
+  }
+
+  return errors;
+}
+
+/**
+ * Messages captured on the page
+ */
+export function countCaptures(report: AdapterHealthReport): number {
+  return Object.values(report.captures).reduce((total, count) => total + count, 0);
+}
+
+/**
+ * Decide whether capture works on a page
+ *
+ * Failing: a conversation is open past the grace period and nothing in it was
+ * captured. Degraded: capture works, but only through fallback selectors or
+ * layout heuristics (the primary selectors drifted).
+ */
+export function evaluateAdapterHealth(report: AdapterHealthReport, now = Date.now()): AdapterHealthEvaluation {
+  const reasons: string[] = [];
+
+  for (const [name, stats] of Object.entries(report.selectors)) {
+    if (stats.misses > 0 && stats.hits === 0 && stats.fallbackHits === 0) {
+      reasons.push(`${name} selectors matched nothing`);
+    }
+  }
+
+  const conversationCaptures = report.conversationId ? report.captures[report.conversationId] || 0 : 0;
+  if (report.conversationId && conversationCaptures === 0 && now - report.conversationSince >= CAPTURE_GRACE_MS) {
+    return { status: 'failing', reasons: ['No messages captured in this conversation', ...reasons] };
+  }
+
+  for (const [name, stats] of Object.entries(report.selectors)) {
+    if (stats.fallbackHits > 0) {
+      reasons.push(`${name} matched only by fallback selectors (${stats.fallbackHits}×)`);
+    }
+  }
+  if (report.inferredRoles > 0) {
+    reasons.push(`Role inferred from the layout (${report.inferredRoles}×)`);
+  }
+
+  return { status: reasons.length > 0 ? 'degraded' : 'healthy', reasons };
+}
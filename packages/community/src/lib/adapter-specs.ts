@@ -0,0 +1,322 @@
+/**
+ * Adapter Specs
+ *
+ * Declarative definitions of chat sites (AdapterSpec in @engram/core), run by
+ * the generic engine in content/platforms/spec-adapter.ts. Built-in specs cover
+ * DeepSeek, Copilot and Mistral Le Chat; users add their own from the settings
+ * page, after testing them against a saved HTML snapshot of the site.
+ *
+ * Custom specs for sites outside the manifest need the user to grant the
+ * site's origin; the background then registers the content script there.
+ */
+
+import type { AdapterSpec, Platform } from '@engram/core';
+
+/**
+ * chrome.storage.local key of the user's specs
+ */
+export const ADAPTER_SPECS_KEY = 'adapterSpecs';
+
+/**
+ * ID of the content script registered for custom spec sites
+ */
+const SPEC_SCRIPT_ID = 'engram-adapter-specs';
+
+const PLATFORMS: Platform[] = ['chatgpt', 'claude', 'perplexity', 'gemini', 'deepseek', 'copilot', 'mistral', 'generic'];
+
+const MATCH_PATTERN = /^(\*|https?):\/\/(\*|(?:\*\.)?[^/*]+)(\/.*)$/;
+
+/**
+ * Specs shipped with the extension
+ */
+export const BUILTIN_ADAPTER_SPECS: AdapterSpec[] = [
+  {
+    id: 'deepseek',
+    name: 'DeepSeek',
+    platform: 'deepseek',
+    matches: ['https://chat.deepseek.com/*'],
+    conversationIdPattern: '/chat/s/([\\w-]+)',
+    selectors: {
+      container: '#root',
+      message: '.ds-message',
+      content: '.ds-markdown',
+      codeBlock: 'pre code',
+      input: 'textarea#chat-input',
+      sendButton: 'div[role="button"][aria-disabled="false"]',
+    },
+    roles: [
+      { role: 'assistant', selector: '.ds-markdown' },
+      { role: 'user', selector: '.ds-message' },
+    ],
+    cleanup: { remove: ['button', 'svg', '.ds-think-content'] },
+  },
+  {
+    id: 'copilot',
+    name: 'Copilot',
+    platform: 'copilot',
+    matches: ['https://copilot.microsoft.com/*'],
+    conversationIdPattern: '/chats/([\\w-]+)',
+    selectors: {
+      container: 'main',
+      message: '[data-content="user-message"], [data-content="ai-message"]',
+      codeBlock: 'pre code',
+      input: 'textarea#userInput',
+      sendButton: 'button[aria-label="Submit message"]',
+    },
+    roles: [
+      { role: 'user', selector: '[data-content="user-message"]' },
+      { role: 'assistant', selector: '[data-content="ai-message"]' },
+    ],
+    cleanup: { remove: ['button', 'svg', '.sr-only'] },
+  },
+  {
+    id: 'mistral',
+    name: 'Le Chat',
+    platform: 'mistral',
+    matches: ['https://chat.mistral.ai/*'],
+    conversationIdPattern: '/chat/([\\w-]+)',
+    selectors: {
+      container: 'main',
+      message: '[data-message-author-role]',
+      content: '[data-message-part-type="answer"], .prose',
+      codeBlock: 'pre code',
+      input: 'textarea[name="message.text"], div[contenteditable="true"]',
+      sendButton: 'button[type="submit"]',
+    },
+    roles: [
+      { role: 'user', selector: '[data-message-author-role="user"]' },
+      { role: 'assistant', selector: '[data-message-author-role="assistant"]' },
+    ],
+    cleanup: { remove: ['button', 'svg'] },
+  },
+];
+
+/**
+ * Convert a Chrome match pattern ('https://*.example.com/*') to a RegExp
+ */
+export function matchPatternToRegExp(pattern: string): RegExp | null {
+  const match = pattern.match(MATCH_PATTERN);
+  if (!match) return null;
+
+  const [, scheme, host, path] = match;
+  const escape = (text: string) => text.replace(/[.+?^${}()|[\]\\]/g, '\\$&');
+
+  const schemePart = scheme === '*' ? 'https?' : scheme;
+  const hostPart = host === '*'
+    ? '[^/]+'
+    : host.startsWith('*.')
+      ? `(?:[^/]+\\.)?${escape(host.slice(2))}`
+      : escape(host);
+  const pathPart = escape(path).replace(/\*/g, '.*');
+
+  return new RegExp(`^${schemePart}://${hostPart}${pathPart}$`);
+}
+
+/**
+ * Whether a spec applies to a URL
+ */
+export function specMatchesUrl(spec: AdapterSpec, url: string): boolean {
+  return spec.matches.some((pattern) => matchPatternToRegExp(pattern)?.test(url));
+}
+
+/**
+ * First spec that applies to a URL
+ */
+export function findAdapterSpec(url: string, specs: AdapterSpec[]): AdapterSpec | null {
+  return specs.find((spec) => specMatchesUrl(spec, url)) || null;
+}
+
+/**
+ * Check the structure of a spec (selectors are checked when a DOM is available)
+ *
+ * @returns Problems, empty when the spec is usable
+ */
+export function validateAdapterSpec(spec: AdapterSpec): string[] {
+  const errors: string[] = [];
+  if (!spec || typeof spec !== 'object') {
+    return ['Spec must be an object'];
+  }
+
+  if (typeof spec.id !== 'string' || !/^[a-z0-9-]+$/.test(spec.id)) {
+    errors.push('id must be lowercase letters, digits and dashes');
+  }
+  if (typeof spec.name !== 'string' || !spec.name.trim()) {
+    errors.push('name is required');
+  }
+  if (!PLATFORMS.includes(spec.platform)) {
+    errors.push(`platform must be one of: ${PLATFORMS.join(', ')}`);
+  }
+
+  if (!Array.isArray(spec.matches) || spec.matches.length === 0) {
+    errors.push('matches must list at least one URL match pattern');
+  } else {
+    for (const pattern of spec.matches) {
+      if (typeof pattern !== 'string' || !matchPatternToRegExp(pattern)) {
+        errors.push(`Invalid match pattern: ${pattern}`);
+      }
+    }
+  }
+
+  if (spec.conversationIdPattern !== undefined) {
+    const regExpError = checkRegExp(spec.conversationIdPattern);
+    if (regExpError) errors.push(`conversationIdPattern: ${regExpError}`);
+  }
+
+  if (!spec.selectors || typeof spec.selectors !== 'object') {
+    errors.push('selectors are required');
+  } else {
+    if (!spec.selectors.container) errors.push('selectors.container is required');
+    if (!spec.selectors.message) errors.push('selectors.message is required');
+
+    for (const [name, selector] of Object.entries(spec.selectors)) {
+      const selectorError = selector === undefined ? null : checkSelector(selector);
+      if (selectorError) errors.push(`selectors.${name}: ${selectorError}`);
+    }
+  }
+
+  if (!Array.isArray(spec.roles) || spec.roles.length === 0) {
+    errors.push('roles must have at least one rule');
+  } else {
+    for (const rule of spec.roles) {
+      if (rule?.role !== 'user' && rule?.role !== 'assistant') {
+        errors.push('roles: role must be user or assistant');
+        continue;
+      }
+      const selectorError = checkSelector(rule.selector);
+      if (selectorError) errors.push(`roles (${rule.role}): ${selectorError}`);
+    }
+  }
+
+  for (const selector of spec.cleanup?.remove || []) {
+    const selectorError = checkSelector(selector);
+    if (selectorError) errors.push(`cleanup.remove: ${selectorError}`);
+  }
+  for (const replacement of spec.cleanup?.replace || []) {
+    const regExpError = checkRegExp(replacement?.pattern, replacement?.flags ?? 'g');
+    if (regExpError) errors.push(`cleanup.replace: ${regExpError}`);
+  }
+
+  return errors;
+}
+
+/**
+ * Parse a spec pasted or loaded in settings
+ */
+export function parseAdapterSpec(json: string): AdapterSpec {
+  let spec: AdapterSpec;
+  try {
+    spec = JSON.parse(json);
+  } catch (error) {
+    throw new Error(`Spec is not valid JSON: ${(error as Error).message}`);
+  }
+
+  const errors = validateAdapterSpec(spec);
+  if (errors.length > 0) {
+    throw new Error(errors.join('; '));
+  }
+  return spec;
+}
+
+/**
+ * Load the user's specs (invalid ones are skipped)
+ */
+export async function getCustomAdapterSpecs(): Promise<AdapterSpec[]> {
+  const result = await chrome.storage.local.get(ADAPTER_SPECS_KEY);
+  const specs: AdapterSpec[] = result[ADAPTER_SPECS_KEY] || [];
+  return specs.filter((spec) => validateAdapterSpec(spec).length === 0);
+}
+
+/**
+ * Every spec in effect: the user's first (they override built-ins with the same id)
+ */
+export async function getAdapterSpecs(): Promise<AdapterSpec[]> {
+  let custom: AdapterSpec[] = [];
+  try {
+    custom = await getCustomAdapterSpecs();
+  } catch (error) {
+    console.error('[AdapterSpecs] Failed to load custom specs:', error);
+  }
+
+  const overridden = new Set(custom.map((spec) => spec.id));
+  return [...custom, ...BUILTIN_ADAPTER_SPECS.filter((spec) => !overridden.has(spec.id))];
+}
+
+/**
+ * Save a custom spec (replaces the one with the same id)
+ */
+export async function saveCustomAdapterSpec(spec: AdapterSpec): Promise<void> {
+  const errors = validateAdapterSpec(spec);
+  if (errors.length > 0) {
+    throw new Error(errors.join('; '));
+  }
+
+  const specs = (await getCustomAdapterSpecs()).filter((existing) => existing.id !== spec.id);
+  await chrome.storage.local.set({ [ADAPTER_SPECS_KEY]: [...specs, spec] });
+}
+
+/**
+ * Delete a custom spec
+ */
+export async function deleteCustomAdapterSpec(id: string): Promise<void> {
+  const specs = (await getCustomAdapterSpecs()).filter((spec) => spec.id !== id);
+  await chrome.storage.local.set({ [ADAPTER_SPECS_KEY]: specs });
+}
+
+/**
+ * Register the content script on the sites of custom specs the user granted
+ * (sites in the manifest already have it). Called by the background on start
+ * and whenever the specs change.
+ */
+export async function registerAdapterSpecScripts(): Promise<void> {
+  if (!chrome.scripting?.registerContentScripts) return;
+
+  const manifestScripts = chrome.runtime.getManifest().content_scripts || [];
+  const covered = new Set(manifestScripts.flatMap((script) => script.matches || []));
+  const js = manifestScripts
+    .filter((script) => (script as { world?: string }).world !== 'MAIN')
+    .flatMap((script) => script.js || []);
+
+  const origins: string[] = [];
+  for (const spec of await getCustomAdapterSpecs()) {
+    for (const pattern of spec.matches) {
+      if (covered.has(pattern) || origins.includes(pattern)) continue;
+      if (await chrome.permissions.contains({ origins: [pattern] })) {
+        origins.push(pattern);
+      }
+    }
+  }
+
+  const registered = await chrome.scripting.getRegisteredContentScripts({ ids: [SPEC_SCRIPT_ID] });
+  if (registered.length > 0) {
+    await chrome.scripting.unregisterContentScripts({ ids: [SPEC_SCRIPT_ID] });
+  }
+
+  if (origins.length > 0 && js.length > 0) {
+    await chrome.scripting.registerContentScripts([
+      { id: SPEC_SCRIPT_ID, matches: origins, js: Array.from(new Set(js)), runAt: 'document_end' },
+    ]);
+    console.log(`[AdapterSpecs] Content script registered on ${origins.length} custom site(s)`);
+  }
+}
+
+function checkRegExp(pattern: unknown, flags?: string): string | null {
+  if (typeof pattern !== 'string' || !pattern) return 'pattern is required';
+  try {
+    new RegExp(pattern, flags);
+    return null;
+  } catch (error) {
+    return (error as Error).message;
+  }
+}
+
+function checkSelector(selector: unknown): string | null {
+  if (typeof selector !== 'string' || !selector.trim()) return 'selector is required';
+  if (typeof document === 'undefined') return null;
+
+  try {
+    document.createDocumentFragment().querySelector(selector);
+    return null;
+  } catch {
+    return `Invalid selector: ${selector}`;
+  }
+}
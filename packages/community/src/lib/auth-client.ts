@@ -5,6 +5,7 @@
 
 import { createClient, SupabaseClient, Session } from '@supabase/supabase-js';
 import { SUPABASE_CONFIG, SYNC_CONFIG } from '@engram/core';
+import type { Device, ListDevicesResponse } from '@engram/core';
 
 const API_BASE_URL = SYNC_CONFIG.API_BASE_URL;
 
@@ -490,6 +491,31 @@ export class AuthClient {
     }
   }
 
+  /**
+   * Get the devices registered to the account, with their signing keys
+   */
+  async getDevices(): Promise<Device[]> {
+    const token = await this.getToken();
+
+    if (!token) {
+      throw new Error('Not authenticated. Please login first.');
+    }
+
+    const response = await fetch(`${API_BASE_URL}/device/list`, {
+      headers: {
+        'Authorization': `Bearer ${token}`,
+      },
+    });
+
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.error || 'Failed to list devices');
+    }
+
+    const { devices } = (await response.json()) as ListDevicesResponse;
+    return devices;
+  }
+
   /**
    * Get Supabase client (for advanced usage)
    */
@@ -0,0 +1,554 @@
+/**
+ * Backup Service
+ * Encrypted full-backup export and import of the whole EngramDB
+ *
+ * Archive layout:
+ * - Outer file: JSON envelope with Argon2id salt, nonce and base64 ciphertext
+ * - Inner archive: manifest (version, counts, checksum) + memories, conversations, hnswIndex
+ *
+ * Memory content and embeddings are decrypted with the master key on export and
+ * re-encrypted with the current master key on import, so a backup can be restored
+ * into any account. The archive itself is only ever written encrypted under a key
+ * derived from the backup passphrase.
+ */
+
+import type {
+  Conversation,
+  EncryptedBlob,
+  EncryptionAlgorithm,
+  ExportFormat,
+  KeyDerivationAlgorithm,
+  MemoryWithMemA,
+  MessageContent,
+  Timestamp,
+  UUID,
+} from '@engram/core';
+import {
+  generateUUID,
+  uint8ArrayToBase64,
+  base64ToUint8Array,
+  stringToUint8Array,
+  uint8ArrayToString,
+} from '@engram/core';
+import type { CryptoService } from './crypto-service';
+import type { StorageService } from './storage';
+import type { HNSWIndexEntry } from './hnsw-index-service';
+import { createLogger } from './logger';
+
+const logger = createLogger('Backup');
+
+/**
+ * Identifier written into every backup file
+ */
+export const BACKUP_FORMAT = 'engram-backup';
+
+/**
+ * Current archive schema version
+ */
+export const BACKUP_VERSION = 1;
+
+/**
+ * Number of memories written per bulk save during restore
+ */
+const RESTORE_BATCH_SIZE = 50;
+
+/**
+ * Embedding size of vectors without recorded dimensions (BGE-Small),
+ * for splitting concatenated chunk vectors
+ */
+const DEFAULT_EMBEDDING_DIMENSIONS = 384;
+
+/**
+ * How ID collisions with existing memories are resolved on restore
+ * - skip: keep the local memory
+ * - overwrite: replace the local memory with the archived one
+ * - duplicate: restore the archived memory under a new ID
+ */
+export type BackupConflictStrategy = 'skip' | 'overwrite' | 'duplicate';
+
+/**
+ * Memory as stored inside the archive (plaintext content, raw embedding)
+ */
+export interface BackupMemoryRecord
+  extends Omit<
+    MemoryWithMemA,
+    | 'content'
+    | 'embedding'
+    | 'encryptedEmbedding'
+    | 'embeddingVersion'
+    | 'encrypted'
+    | 'chunkEmbeddings'
+    | 'encryptedChunkEmbeddings'
+    | 'stagedEmbedding'
+  > {
+  content: MessageContent;
+  embedding?: number[];
+  chunkEmbeddings?: number[][]; // One vector per text chunk (long memories only)
+}
+
+/**
+ * Archive payload
+ */
+export interface BackupData {
+  memories: BackupMemoryRecord[];
+  conversations: Conversation[];
+  hnswIndex: HNSWIndexEntry[];
+}
+
+/**
+ * Archive manifest
+ */
+export interface BackupManifest {
+  version: number;
+  format: ExportFormat;
+  createdAt: Timestamp;
+  counts: {
+    memories: number;
+    conversations: number;
+    hnswIndex: number;
+  };
+  checksum: string; // BLAKE2b of the serialized payload
+}
+
+/**
+ * Decrypted archive
+ */
+export interface BackupArchive {
+  manifest: BackupManifest;
+  data: BackupData;
+}
+
+/**
+ * Encrypted backup file as written to disk
+ */
+export interface EncryptedBackupFile {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  createdAt: Timestamp;
+  kdf: {
+    algorithm: KeyDerivationAlgorithm;
+    salt: string; // base64
+  };
+  cipher: {
+    algorithm: EncryptionAlgorithm;
+    nonce: string; // base64
+    ciphertext: string; // base64
+  };
+}
+
+/**
+ * Export result
+ */
+export interface BackupExportResult {
+  file: string; // Serialized EncryptedBackupFile
+  memories: number;
+  conversations: number;
+  skipped: number; // Memories that could not be decrypted
+}
+
+/**
+ * Restore options
+ */
+export interface RestoreOptions {
+  conflictStrategy?: BackupConflictStrategy;
+  onProgress?: (current: number, total: number) => void;
+}
+
+/**
+ * Restore result
+ */
+export interface RestoreResult {
+  restored: number;
+  skipped: number;
+  overwritten: number;
+  duplicated: number;
+  conversations: number;
+  indexRebuilt: boolean;
+}
+
+/**
+ * Backup Service
+ * Serializes EngramDB into a passphrase-encrypted archive and restores it
+ */
+export class BackupService {
+  constructor(
+    private storage: StorageService,
+    private crypto: CryptoService
+  ) {}
+
+  /**
+   * Export the whole database as an encrypted backup file
+   *
+   * @param passphrase - Backup passphrase (independent from the account password)
+   * @param masterKey - Master key used to decrypt memory content and embeddings
+   */
+  async exportBackup(
+    passphrase: string,
+    masterKey: { key: Uint8Array }
+  ): Promise<BackupExportResult> {
+    if (!passphrase) {
+      throw new Error('Backup passphrase is required');
+    }
+
+    const memories = (await this.storage.getMemories({})) as MemoryWithMemA[];
+    const conversations = await this.storage.getConversations({});
+    const hnswIndex = await this.storage.getHNSWIndexEntries();
+
+    const records: BackupMemoryRecord[] = [];
+    let skipped = 0;
+
+    for (const memory of memories) {
+      try {
+        records.push(await this.toBackupRecord(memory, masterKey.key));
+      } catch (error) {
+        logger.error(`Failed to decrypt memory ${memory.id} for backup:`, error);
+        skipped++;
+      }
+    }
+
+    const data: BackupData = { memories: records, conversations, hnswIndex };
+    const archive: BackupArchive = {
+      manifest: {
+        version: BACKUP_VERSION,
+        format: 'json',
+        createdAt: Date.now(),
+        counts: {
+          memories: records.length,
+          conversations: conversations.length,
+          hnswIndex: hnswIndex.length,
+        },
+        checksum: await this.checksum(data),
+      },
+      data,
+    };
+
+    // Encrypt archive under passphrase-derived key
+    const derived = await this.crypto.deriveKey(passphrase);
+    const blob = await this.crypto.encrypt(JSON.stringify(archive), derived.key);
+
+    const file: EncryptedBackupFile = {
+      format: BACKUP_FORMAT,
+      version: BACKUP_VERSION,
+      createdAt: archive.manifest.createdAt,
+      kdf: {
+        algorithm: 'Argon2id',
+        salt: uint8ArrayToBase64(derived.salt),
+      },
+      cipher: {
+        algorithm: blob.algorithm,
+        nonce: uint8ArrayToBase64(blob.nonce),
+        ciphertext: uint8ArrayToBase64(blob.ciphertext),
+      },
+    };
+
+    logger.log(`Exported ${records.length} memories, ${conversations.length} conversations (${skipped} skipped)`);
+
+    return {
+      file: JSON.stringify(file),
+      memories: records.length,
+      conversations: conversations.length,
+      skipped,
+    };
+  }
+
+  /**
+   * Decrypt and verify a backup file without restoring it
+   *
+   * @throws if the passphrase is wrong, the file is corrupted or the checksum does not match
+   */
+  async readBackup(serialized: string, passphrase: string): Promise<BackupArchive> {
+    let file: EncryptedBackupFile;
+    try {
+      file = JSON.parse(serialized);
+    } catch {
+      throw new Error('Invalid backup file: not valid JSON');
+    }
+
+    if (!file || file.format !== BACKUP_FORMAT || !file.kdf || !file.cipher) {
+      throw new Error('Invalid backup file: unrecognized format');
+    }
+
+    if (file.version > BACKUP_VERSION) {
+      throw new Error(`Unsupported backup version: ${file.version}`);
+    }
+
+    const derived = await this.crypto.deriveKey(passphrase, base64ToUint8Array(file.kdf.salt));
+    const ciphertext = base64ToUint8Array(file.cipher.ciphertext);
+    const blob: EncryptedBlob = {
+      version: 1,
+      algorithm: file.cipher.algorithm,
+      nonce: base64ToUint8Array(file.cipher.nonce),
+      ciphertext,
+      authTag: ciphertext.slice(-16),
+    };
+
+    let archive: BackupArchive;
+    try {
+      const plaintext = await this.crypto.decrypt(blob, derived.key);
+      archive = JSON.parse(uint8ArrayToString(plaintext));
+    } catch {
+      throw new Error('Failed to decrypt backup: wrong passphrase or corrupted file');
+    }
+
+    // Integrity checks on the decrypted payload
+    const { manifest, data } = archive;
+    if (!manifest || !manifest.counts || !data || manifest.version !== file.version) {
+      throw new Error('Backup integrity check failed: manifest mismatch');
+    }
+
+    if ((await this.checksum(data)) !== manifest.checksum) {
+      throw new Error('Backup integrity check failed: checksum mismatch');
+    }
+
+    // A checksum only proves the payload is the one that was written, not that it is well-formed
+    if (!isBackupData(data)) {
+      throw new Error('Invalid backup file: archive is invalid or corrupted');
+    }
+
+    if (
+      data.memories.length !== manifest.counts.memories ||
+      data.conversations.length !== manifest.counts.conversations ||
+      data.hnswIndex.length !== manifest.counts.hnswIndex
+    ) {
+      throw new Error('Backup integrity check failed: record counts do not match');
+    }
+
+    return archive;
+  }
+
+  /**
+   * Restore a backup file into the database
+   *
+   * Archived hnswIndex entries are not written back - their vector IDs refer to the
+   * exporting device's graph, so the index is rebuilt from the restored embeddings.
+   *
+   * @param serialized - Serialized EncryptedBackupFile
+   * @param passphrase - Backup passphrase
+   * @param masterKey - Master key used to re-encrypt content and embeddings
+   */
+  async importBackup(
+    serialized: string,
+    passphrase: string,
+    masterKey: { key: Uint8Array },
+    options: RestoreOptions = {}
+  ): Promise<RestoreResult> {
+    const strategy = options.conflictStrategy || 'skip';
+    const archive = await this.readBackup(serialized, passphrase);
+    const records = archive.data.memories;
+
+    const result: RestoreResult = {
+      restored: 0,
+      skipped: 0,
+      overwritten: 0,
+      duplicated: 0,
+      conversations: 0,
+      indexRebuilt: false,
+    };
+
+    // Resolve ID collisions up front so links can be remapped consistently
+    const idMap = new Map<UUID, UUID>();
+    const toRestore: BackupMemoryRecord[] = [];
+
+    for (const record of records) {
+      const existing = await this.storage.getMemory(record.id);
+      if (!existing) {
+        toRestore.push(record);
+        continue;
+      }
+
+      if (strategy === 'skip') {
+        result.skipped++;
+      } else if (strategy === 'overwrite') {
+        result.overwritten++;
+        toRestore.push(record);
+      } else {
+        const newId = generateUUID();
+        idMap.set(record.id, newId);
+        result.duplicated++;
+        toRestore.push({ ...record, id: newId });
+      }
+    }
+
+    // Restore conversations first so titles survive the metadata recomputation
+    for (const conversation of archive.data.conversations) {
+      const existing = await this.storage.getConversation(conversation.id);
+      if (!existing) {
+        await this.storage.saveConversation(conversation);
+        result.conversations++;
+      } else if (!existing.title && conversation.title) {
+        await this.storage.saveConversation({ ...existing, title: conversation.title });
+      }
+    }
+
+    // Re-encrypt and write memories in batches
+    for (let i = 0; i < toRestore.length; i += RESTORE_BATCH_SIZE) {
+      const batch = toRestore.slice(i, i + RESTORE_BATCH_SIZE);
+      const memories: MemoryWithMemA[] = [];
+
+      for (const record of batch) {
+        memories.push(await this.fromBackupRecord(this.remapIds(record, idMap), masterKey.key));
+      }
+
+      await this.storage.bulkSaveMemories(memories);
+      result.restored += memories.length;
+
+      options.onProgress?.(Math.min(i + RESTORE_BATCH_SIZE, toRestore.length), toRestore.length);
+    }
+
+    // Rebuild vector index from restored embeddings
+    if (result.restored > 0) {
+      try {
+        await this.storage.rebuildHNSWIndex();
+        result.indexRebuilt = true;
+      } catch (error) {
+        logger.warn('HNSW rebuild after restore failed (non-critical):', error);
+      }
+    }
+
+    logger.log(
+      `Restored ${result.restored} memories ` +
+      `(${result.skipped} skipped, ${result.overwritten} overwritten, ${result.duplicated} duplicated)`
+    );
+
+    return result;
+  }
+
+  /**
+   * Convert a stored memory into its archive form
+   */
+  private async toBackupRecord(memory: MemoryWithMemA, key: Uint8Array): Promise<BackupMemoryRecord> {
+    const { embedding, encryptedEmbedding, chunkEmbeddings, encryptedChunkEmbeddings, ...rest } = memory;
+    const { encryptedContent, ...fields } = rest as typeof rest & { encryptedContent?: EncryptedBlob };
+    // Encryption markers describe the local copy, not the plaintext archive record
+    delete fields.embeddingVersion;
+    delete fields.encrypted;
+    delete fields.stagedEmbedding; // An unfinished model switch re-embeds the restored copy
+
+    let content: MessageContent = memory.content;
+    if (encryptedContent) {
+      const decrypted = JSON.parse(uint8ArrayToString(await this.crypto.decrypt(encryptedContent, key)));
+      content = {
+        role: decrypted.role,
+        text: decrypted.text,
+        metadata: decrypted.metadata || {},
+      };
+    }
+
+    let vector: Float32Array | undefined;
+    if (encryptedEmbedding) {
+      const bytes = await this.crypto.decrypt(encryptedEmbedding, key);
+      vector = new Float32Array(bytes.buffer, bytes.byteOffset, bytes.byteLength / 4);
+    } else if (embedding) {
+      vector = new Float32Array(embedding);
+    }
+
+    let chunks: Float32Array | undefined;
+    if (encryptedChunkEmbeddings) {
+      const bytes = await this.crypto.decrypt(encryptedChunkEmbeddings, key);
+      chunks = new Float32Array(bytes.buffer, bytes.byteOffset, bytes.byteLength / 4);
+    } else if (chunkEmbeddings) {
+      chunks = new Float32Array(chunkEmbeddings);
+    }
+
+    return {
+      ...fields,
+      content,
+      ...(vector ? { embedding: Array.from(vector) } : {}),
+      ...(chunks ? { chunkEmbeddings: splitVectors(chunks, fields.embeddingDimensions || DEFAULT_EMBEDDING_DIMENSIONS) } : {}),
+    };
+  }
+
+  /**
+   * Convert an archive record back into an encrypted memory
+   */
+  private async fromBackupRecord(record: BackupMemoryRecord, key: Uint8Array): Promise<MemoryWithMemA> {
+    const { embedding, chunkEmbeddings, content, ...fields } = record;
+
+    const encryptedContent = await this.crypto.encrypt(
+      JSON.stringify({
+        role: content.role,
+        text: content.text,
+        metadata: content.metadata,
+      }),
+      key
+    );
+
+    const memory: any = {
+      ...fields,
+      content: {
+        role: content.role,
+        text: null, // SECURITY: null indicates encrypted content
+        metadata: null,
+      },
+      encryptedContent,
+      syncStatus: 'pending',
+    };
+
+    if (embedding && embedding.length > 0) {
+      const embeddingBytes = new Uint8Array(new Float32Array(embedding).buffer);
+      memory.encryptedEmbedding = await this.crypto.encrypt(embeddingBytes, key);
+      memory.embeddingVersion = 2;
+    }
+
+    if (chunkEmbeddings && chunkEmbeddings.length > 1) {
+      const chunkBytes = new Uint8Array(new Float32Array(chunkEmbeddings.flat()).buffer);
+      memory.encryptedChunkEmbeddings = await this.crypto.encrypt(chunkBytes, key);
+    }
+
+    return memory as MemoryWithMemA;
+  }
+
+  /**
+   * Rewrite memory references for records restored under a new ID
+   */
+  private remapIds(record: BackupMemoryRecord, idMap: Map<UUID, UUID>): BackupMemoryRecord {
+    if (idMap.size === 0) {
+      return record;
+    }
+
+    return {
+      ...record,
+      parentId: record.parentId && (idMap.get(record.parentId) || record.parentId),
+      links: record.links?.map((link) => ({
+        ...link,
+        memoryId: idMap.get(link.memoryId) || link.memoryId,
+      })),
+      evolution: record.evolution
+        ? {
+            ...record.evolution,
+            triggeredBy: record.evolution.triggeredBy.map((id) => idMap.get(id) || id),
+          }
+        : undefined,
+    };
+  }
+
+  /**
+   * Compute payload checksum
+   */
+  private async checksum(data: BackupData): Promise<string> {
+    return this.crypto.hash(stringToUint8Array(JSON.stringify(data)));
+  }
+}
+
+/**
+ * Check the shape of a decrypted archive payload before restoring from it
+ */
+function isBackupData(data: unknown): data is BackupData {
+  const { memories, conversations, hnswIndex } = data as Partial<BackupData>;
+  const hasIds = (records: unknown) =>
+    Array.isArray(records) &&
+    records.every((record) => typeof record === 'object' && record !== null && typeof record.id === 'string');
+
+  return hasIds(memories) && hasIds(conversations) && Array.isArray(hnswIndex);
+}
+
+/**
+ * Split concatenated chunk vectors
+ */
+function splitVectors(flat: Float32Array, dimensions: number): number[][] {
+  const vectors: number[][] = [];
+  for (let offset = 0; offset + dimensions <= flat.length; offset += dimensions) {
+    vectors.push(Array.from(flat.subarray(offset, offset + dimensions)));
+  }
+  return vectors;
+}
@@ -1,12 +1,65 @@
 import { createClient, SupabaseClient, RealtimeChannel } from '@supabase/supabase-js';
-import { Memory, MasterKey } from '@engram/core';
+import { Memory, MasterKey, METADATA_KEYS } from '@engram/core';
+import { sha256 } from '@noble/hashes/sha2.js';
+import { bytesToHex } from '@noble/hashes/utils.js';
 import { CryptoService } from './crypto-service';
+import type { StorageService } from './storage';
+import { RetryManager, DEFAULT_RETRY_CONFIG, type RetryConfig } from '../sync/retry-manager';
+
+/**
+ * Persisted upload checkpoint
+ */
+export interface CloudUploadStatus {
+  state: 'running' | 'backoff' | 'complete' | 'failed';
+  uploaded: number;              // Memories uploaded so far (across restarts)
+  total: number;                 // Uploaded plus memories still to upload when the current run started
+  failed: number;                // Memories in the batch that exhausted its retries
+  startedAt: number;
+  updatedAt: number;
+  retryAt?: number;              // Next attempt while backing off
+  error?: string;
+}
+
+/**
+ * Storage operations the upload needs
+ */
+export type CloudSyncStorage = Pick<
+  StorageService,
+  'getUnsyncedMemories' | 'getMemory' | 'updateMemory' | 'getMetadata' | 'setMetadata'
+>;
+
+/**
+ * Memories per upsert request
+ */
+export const UPLOAD_BATCH_SIZE = 100;
+
+/**
+ * Back-off for a failing batch: 1s, 2s, 5s, 10s, 30s, then the run stops
+ */
+const UPLOAD_RETRY_CONFIG: RetryConfig = {
+  ...DEFAULT_RETRY_CONFIG,
+  maxRetries: 5,
+};
+
+/**
+ * Memory as it is stored in the cloud: every uploaded version is synced
+ */
+function toSyncPayload(memory: Memory): Memory {
+  return { ...memory, syncStatus: 'synced' };
+}
+
+/**
+ * Hash of the version of a memory that would be uploaded
+ */
+export function memorySyncHash(memory: Memory): string {
+  return bytesToHex(sha256(new TextEncoder().encode(JSON.stringify(toSyncPayload(memory)))));
+}
 
 /**
  * CloudSyncService - Handles cloud synchronization for premium users
  *
  * Responsibilities:
- * - Upload local memories to Supabase
+ * - Upload new and changed local memories to Supabase in batches
  * - Download remote memories from Supabase
  * - Real-time sync across devices
  * - Conflict resolution using vector clocks
@@ -19,6 +72,11 @@ export class CloudSyncService {
   private subscription: RealtimeChannel | null = null;
   private syncInterval: number | null = null;
   private onRemoteChangeCallback: ((change: any) => void) | null = null;
+  private onUploadProgressCallback: ((status: CloudUploadStatus) => void) | null = null;
+  private uploadRetry = new RetryManager(UPLOAD_RETRY_CONFIG);
+  private uploading: Promise<void> | null = null;
+  private cancelBackoff: (() => void) | null = null;
+  private stopped = false;
 
   constructor(userId: string, crypto: CryptoService, masterKey: MasterKey) {
     this.userId = userId;
@@ -37,24 +95,31 @@ export class CloudSyncService {
 
   /**
    * Start cloud sync service
-   * - Uploads existing local memories
    * - Subscribes to real-time changes
+   * - Uploads local memories not yet in the cloud (in the background; resumes an interrupted upload)
    * - Starts periodic sync (every 5 minutes)
    */
-  async start(getLocalMemories: () => Promise<Memory[]>): Promise<void> {
+  async start(storage: CloudSyncStorage): Promise<void> {
     try {
       console.log('[CloudSync] Starting cloud sync for user:', this.userId);
+      this.stopped = false;
 
-      // 1. Upload existing local memories
-      await this.uploadLocalMemories(getLocalMemories);
-
-      // 2. Subscribe to real-time changes from other devices
+      // 1. Subscribe to real-time changes from other devices
       this.subscribeToChanges();
 
+      // 2. Upload new and changed local memories
+      this.uploadLocalMemories(storage).catch((err) => {
+        console.error('[CloudSync] Initial upload failed:', err);
+      });
+
       // 3. Start periodic sync (every 5 minutes)
       this.syncInterval = setInterval(async () => {
         console.log('[CloudSync] Periodic sync triggered');
-        await this.uploadLocalMemories(getLocalMemories);
+        try {
+          await this.uploadLocalMemories(storage);
+        } catch (err) {
+          console.error('[CloudSync] Periodic upload failed:', err);
+        }
       }, 5 * 60 * 1000) as unknown as number;
 
       console.log('[CloudSync] Cloud sync started successfully');
@@ -78,6 +143,8 @@ export class CloudSyncService {
    */
   async stop(): Promise<void> {
     console.log('[CloudSync] Stopping cloud sync');
+    this.stopped = true; // A running upload stops after its current batch
+    this.cancelBackoff?.();
 
     // Unsubscribe from real-time
     if (this.subscription) {
@@ -95,24 +162,169 @@ export class CloudSyncService {
   }
 
   /**
-   * Upload all local memories to cloud
+   * Upload new and changed local memories to cloud
+   * Concurrent calls share the running upload
    */
-  private async uploadLocalMemories(
-    getLocalMemories: () => Promise<Memory[]>
-  ): Promise<void> {
-    try {
-      const memories = await getLocalMemories();
-      console.log(`[CloudSync] Uploading ${memories.length} memories to cloud`);
+  private uploadLocalMemories(storage: CloudSyncStorage): Promise<void> {
+    if (!this.uploading) {
+      this.uploading = this.runUpload(storage).finally(() => {
+        this.uploading = null;
+      });
+    }
+    return this.uploading;
+  }
+
+  /**
+   * Upload memories in batches, oldest first
+   *
+   * Local writes mark memories pending (see StorageService), so only those are
+   * read. Each uploaded memory is marked synced, so a run interrupted by the
+   * service worker being killed resumes with what is left; the checkpoint in
+   * the metadata table keeps the progress counts.
+   */
+  private async runUpload(storage: CloudSyncStorage): Promise<void> {
+    const pending = await storage.getUnsyncedMemories();
 
-      for (const memory of memories) {
-        await this.uploadMemory(memory);
+    const previous = await storage.getMetadata<CloudUploadStatus>(METADATA_KEYS.CLOUD_UPLOAD);
+    if (pending.length === 0 && previous?.state === 'complete') {
+      return;
+    }
+
+    const now = Date.now();
+    const resumed = previous && previous.state !== 'complete' ? previous : null;
+    const status: CloudUploadStatus = {
+      state: 'running',
+      uploaded: resumed?.uploaded || 0,
+      total: (resumed?.uploaded || 0) + pending.length,
+      failed: 0,
+      startedAt: resumed?.startedAt || now,
+      updatedAt: now,
+    };
+    console.log(`[CloudSync] Uploading ${pending.length} memories to cloud`);
+    await this.saveUploadStatus(storage, status);
+
+    for (let i = 0; i < pending.length; i += UPLOAD_BATCH_SIZE) {
+      if (this.stopped) {
+        console.log('[CloudSync] Upload interrupted, will resume on next start');
+        return;
       }
 
-      console.log('[CloudSync] Upload complete');
-    } catch (err) {
-      console.error('[CloudSync] Error uploading memories:', err);
-      throw err;
+      const batch = pending.slice(i, i + UPLOAD_BATCH_SIZE);
+      try {
+        if (!(await this.uploadBatch(batch, storage, status))) {
+          console.log('[CloudSync] Upload interrupted, will resume on next start');
+          return;
+        }
+      } catch (err) {
+        for (const memory of batch) {
+          await storage.updateMemory(memory.id, { syncStatus: 'failed' });
+        }
+        await this.saveUploadStatus(storage, {
+          ...status,
+          state: 'failed',
+          failed: batch.length,
+          retryAt: undefined,
+          error: (err as Error).message,
+        });
+        throw err;
+      }
+
+      status.uploaded += batch.length;
+      await this.saveUploadStatus(storage, { ...status, state: 'running', retryAt: undefined });
     }
+
+    await this.saveUploadStatus(storage, { ...status, state: 'complete', retryAt: undefined });
+    console.log('[CloudSync] Upload complete');
+  }
+
+  /**
+   * Upload one batch, backing off while the upsert fails
+   * Marks the memories synced unless they changed while uploading
+   * Returns false if the service was stopped during a backoff
+   */
+  private async uploadBatch(
+    batch: Memory[],
+    storage: CloudSyncStorage,
+    status: CloudUploadStatus
+  ): Promise<boolean> {
+    const hashes = batch.map((memory) => memorySyncHash(memory));
+    const rows = [];
+    for (const memory of batch) {
+      rows.push(await this.toRow(memory));
+    }
+
+    for (;;) {
+      try {
+        await this.upsertRows(rows);
+        if (this.uploadRetry.getRetryCount() > 0) {
+          this.uploadRetry.reset();
+        }
+        break;
+      } catch (err) {
+        const errorType = RetryManager.classifyError(err);
+        if (errorType === 'authentication' || !this.uploadRetry.shouldRetry() || this.stopped) {
+          this.uploadRetry.reset();
+          throw err;
+        }
+
+        this.uploadRetry.recordAttempt(errorType, (err as Error).message);
+        const delay = this.uploadRetry.getRetryDelay();
+        await this.saveUploadStatus(storage, {
+          ...status,
+          state: 'backoff',
+          retryAt: Date.now() + delay,
+          error: (err as Error).message,
+        });
+        if (!this.stopped) {
+          await this.waitForBackoff(delay);
+        }
+        if (this.stopped) {
+          this.uploadRetry.reset();
+          return false;
+        }
+      }
+    }
+
+    for (let i = 0; i < batch.length; i++) {
+      const current = await storage.getMemory(batch[i].id);
+      if (current && memorySyncHash(current) === hashes[i]) {
+        await storage.updateMemory(batch[i].id, { syncStatus: 'synced' });
+      }
+    }
+    return true;
+  }
+
+  /**
+   * Wait out an upload backoff; stop() ends the wait early
+   */
+  private waitForBackoff(delay: number): Promise<void> {
+    return new Promise((resolve) => {
+      const timer = setTimeout(() => {
+        this.cancelBackoff = null;
+        resolve();
+      }, delay);
+      this.cancelBackoff = () => {
+        clearTimeout(timer);
+        this.cancelBackoff = null;
+        resolve();
+      };
+    });
+  }
+
+  /**
+   * Persist the upload checkpoint and notify the progress listener
+   */
+  private async saveUploadStatus(storage: CloudSyncStorage, status: CloudUploadStatus): Promise<void> {
+    const saved = { ...status, updatedAt: Date.now() };
+    await storage.setMetadata(METADATA_KEYS.CLOUD_UPLOAD, saved);
+    this.onUploadProgressCallback?.(saved);
+  }
+
+  /**
+   * Set callback for upload progress
+   */
+  onUploadProgress(callback: (status: CloudUploadStatus) => void): void {
+    this.onUploadProgressCallback = callback;
   }
 
   /**
@@ -120,32 +332,44 @@ export class CloudSyncService {
    */
   async uploadMemory(memory: Memory): Promise<void> {
     try {
-      // Encrypt memory content
-      const encrypted = await this.encryptMemory(memory);
-
-      // Upload to Supabase
-      const { error } = await this.supabase.from('encrypted_memories').upsert({
-        id: memory.id,
-        user_id: this.userId,
-        encrypted_content: encrypted.content,
-        nonce: encrypted.nonce,
-        platform: memory.platform,
-        conversation_id: memory.conversationId || null,
-        created_at: new Date(memory.timestamp).toISOString(),
-        vector_clock: memory.vectorClock || {},
-        device_id: memory.deviceId || null,
-      });
-
-      if (error) {
-        console.error('[CloudSync] Error uploading memory:', error);
-        throw new Error(`Failed to upload memory: ${error.message}`);
-      }
+      await this.upsertRows([await this.toRow(memory)]);
     } catch (err) {
       console.error('[CloudSync] Unexpected error uploading memory:', err);
       throw err;
     }
   }
 
+  /**
+   * Encrypt a memory into an encrypted_memories row
+   */
+  private async toRow(memory: Memory): Promise<Record<string, unknown>> {
+    const encrypted = await this.encryptMemory(memory);
+
+    return {
+      id: memory.id,
+      user_id: this.userId,
+      encrypted_content: encrypted.content,
+      nonce: encrypted.nonce,
+      platform: memory.platform,
+      conversation_id: memory.conversationId || null,
+      created_at: new Date(memory.timestamp).toISOString(),
+      vector_clock: memory.vectorClock || {},
+      device_id: memory.deviceId || null,
+    };
+  }
+
+  /**
+   * Upsert rows in one request
+   */
+  private async upsertRows(rows: Record<string, unknown>[]): Promise<void> {
+    const { error } = await this.supabase.from('encrypted_memories').upsert(rows);
+
+    if (error) {
+      console.error('[CloudSync] Error uploading memories:', error);
+      throw new Error(`Failed to upload memories: ${error.message}`);
+    }
+  }
+
   /**
    * Download memories from cloud
    * @param since - Optional timestamp to get memories created/updated after this time
@@ -292,7 +516,7 @@ export class CloudSyncService {
     nonce: string;
   }> {
     // Serialize memory to JSON
-    const serialized = JSON.stringify(memory);
+    const serialized = JSON.stringify(toSyncPayload(memory));
 
     // Convert string to Uint8Array
     const encoder = new TextEncoder();
@@ -335,10 +559,10 @@ export class CloudSyncService {
     const decoder = new TextDecoder();
     const decrypted = decoder.decode(decryptedBytes);
 
-    // Parse JSON to Memory object
-    const memory = JSON.parse(decrypted);
+    // Parse JSON to Memory object; it is in the cloud as is
+    const memory: Memory = JSON.parse(decrypted);
 
-    return memory;
+    return { ...memory, syncStatus: 'synced' };
   }
 
   /**
@@ -367,9 +591,9 @@ export class CloudSyncService {
   /**
    * Trigger manual sync
    */
-  async syncNow(getLocalMemories: () => Promise<Memory[]>): Promise<void> {
+  async syncNow(storage: CloudSyncStorage): Promise<void> {
     console.log('[CloudSync] Manual sync triggered');
-    await this.uploadLocalMemories(getLocalMemories);
+    await this.uploadLocalMemories(storage);
   }
 
   /**
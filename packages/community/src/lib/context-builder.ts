@@ -0,0 +1,326 @@
+/**
+ * Context Builder
+ *
+ * Assembles the `[Engram Context]` block injected into prompts from ranked
+ * context candidates, within a per-platform token budget.
+ *
+ * **Algorithm:**
+ * 1. Order candidates by relevance blended with recency
+ * 2. Drop near-identical memories (word-set Jaccard similarity)
+ * 3. Add whole memories in order while they fit the budget
+ * 4. Compress the overflow into the remaining budget: one summary from the
+ *    configured enrichment LLM, or truncated memories when no provider is
+ *    available (or the call fails, times out or is rate limited)
+ *
+ * Lines and the block are laid out by the platform's injection template, and
+ * the template's own text counts against the budget. Every line cites the
+ * memory IDs it came from, and the result lists the citations so the injected
+ * context can be traced back exactly.
+ */
+
+import type { EnrichmentConfig, Memory, MemoryWithMemA, Platform, UUID } from '@engram/core';
+import type { ContextCandidate } from './context-retrieval';
+import { getLLMClient } from './llm-client';
+import {
+  getDefaultTemplate,
+  renderTemplate,
+  type InjectionItemValues,
+  type InjectionTemplate,
+} from './injection-templates';
+
+export { CONTEXT_MARKER } from './injection-templates';
+
+/**
+ * Token budget of the injected block per platform
+ */
+export const PLATFORM_TOKEN_BUDGETS: Record<Platform, number> = {
+  chatgpt: 2000,
+  claude: 3000,
+  perplexity: 1000,
+  gemini: 2000,
+  deepseek: 2000,
+  copilot: 1500,
+  mistral: 2000,
+  generic: 1000,
+};
+
+/**
+ * Builder configuration
+ */
+export const CONTEXT_BUILDER_CONFIG = {
+  CHARS_PER_TOKEN: 4,          // Estimate used by OpenAI/Anthropic for English text
+  DUPLICATE_SIMILARITY: 0.85,  // Word-set overlap above which memories count as duplicates
+  RECENCY_WEIGHT: 0.2,         // Share of the ranking score that comes from recency
+  RECENCY_HALF_LIFE_DAYS: 30,  // Age at which the recency score halves
+  MIN_SUMMARY_TOKENS: 60,      // Smallest remaining budget worth a summary
+  MIN_TRUNCATED_TOKENS: 30,    // Smallest remaining budget worth a truncated memory
+  SUMMARY_TIMEOUT_MS: 8000,    // Summary request is aborted and injection truncates after this
+};
+
+/**
+ * Reference from the injected block back to a memory
+ */
+export interface ContextCitation {
+  ref: number;                 // Line number in the block ([n])
+  memoryId: UUID;
+  score: number;               // Ranking score (relevance blended with recency)
+  mode: 'full' | 'truncated' | 'summarized';
+}
+
+/**
+ * Assembled context block
+ */
+export interface AssembledContext {
+  text: string;                // Block to inject (empty when nothing fits)
+  enrichedPrompt?: string;     // Prompt laid out with the block (when built for a prompt)
+  tokens: number;              // Estimated tokens of text
+  budget: number;
+  citations: ContextCitation[];
+  dropped: UUID[];             // Candidates left out (duplicates or over budget)
+}
+
+/**
+ * Build options
+ */
+export interface ContextBuildOptions {
+  platform?: Platform;
+  budget?: number;             // Overrides the platform budget
+  template?: InjectionTemplate; // Overrides the platform's default template
+  prompt?: string;             // Draft prompt to lay out with the block
+  now?: number;                // Reference time for recency (tests)
+}
+
+/**
+ * Estimate the tokens of a text (~4 characters per token)
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CONTEXT_BUILDER_CONFIG.CHARS_PER_TOKEN);
+}
+
+/**
+ * Context Builder
+ *
+ * @param config - Enrichment configuration whose provider summarizes overflow (optional)
+ */
+export class ContextBuilder {
+  constructor(private config: EnrichmentConfig | null = null) {}
+
+  /**
+   * Assemble the context block for a prompt
+   *
+   * @param candidates - Retrieved candidates with decrypted content
+   */
+  async build(candidates: ContextCandidate[], options: ContextBuildOptions = {}): Promise<AssembledContext> {
+    const platform = options.platform || 'generic';
+    const budget = options.budget ?? PLATFORM_TOKEN_BUDGETS[platform];
+    const template = options.template ?? getDefaultTemplate(platform);
+    const formatLine = (ref: number, entries: Array<{ memory: Memory; score: number }>, text: string) =>
+      renderTemplate(template.item, itemValues(ref, entries, text));
+    const ranked = this.rank(candidates, options.now ?? Date.now());
+    const { unique, duplicates } = this.dedupe(ranked);
+
+    const lines: string[] = [];
+    const citations: ContextCitation[] = [];
+    const overflow: Array<{ memory: Memory; score: number; text: string }> = [];
+    let remaining = budget - estimateTokens(renderBlock(template, '', platform, 0));
+
+    // Whole memories, best first
+    for (const entry of unique) {
+      const line = formatLine(lines.length + 1, [entry], entry.text);
+      const tokens = estimateTokens(line) + 1; // + newline
+      if (tokens > remaining) {
+        overflow.push(entry);
+        continue;
+      }
+
+      lines.push(line);
+      citations.push({ ref: lines.length, memoryId: entry.memory.id, score: entry.score, mode: 'full' });
+      remaining -= tokens;
+    }
+
+    // Overflow: one LLM summary, or truncated memories
+    let dropped = overflow;
+    if (overflow.length > 0 && remaining >= CONTEXT_BUILDER_CONFIG.MIN_SUMMARY_TOKENS && this.canSummarize()) {
+      const ref = lines.length + 1;
+      const available = remaining - estimateTokens(formatLine(ref, overflow, '')) - 1;
+
+      try {
+        const summary = await this.summarize(overflow.map((entry) => entry.text), available);
+        const line = formatLine(ref, overflow, truncate(summary.trim(), available));
+        lines.push(line);
+        remaining -= estimateTokens(line) + 1;
+        overflow.forEach((entry) =>
+          citations.push({ ref, memoryId: entry.memory.id, score: entry.score, mode: 'summarized' })
+        );
+        dropped = [];
+      } catch (error) {
+        console.error('[ContextBuilder] Summarizing overflow failed, truncating instead:', error);
+      }
+    }
+
+    if (dropped.length > 0) {
+      const truncated = new Set<UUID>();
+      for (const entry of dropped) {
+        if (remaining < CONTEXT_BUILDER_CONFIG.MIN_TRUNCATED_TOKENS) break;
+
+        const ref = lines.length + 1;
+        const available = remaining - estimateTokens(formatLine(ref, [entry], '')) - 1;
+        const line = formatLine(ref, [entry], truncate(entry.text, available));
+        lines.push(line);
+        citations.push({ ref, memoryId: entry.memory.id, score: entry.score, mode: 'truncated' });
+        remaining -= estimateTokens(line) + 1;
+        truncated.add(entry.memory.id);
+      }
+      dropped = dropped.filter((entry) => !truncated.has(entry.memory.id));
+    }
+
+    const text = lines.length > 0 ? renderBlock(template, lines.join('\n'), platform, lines.length) : '';
+
+    return {
+      text,
+      enrichedPrompt: text && options.prompt !== undefined
+        ? renderTemplate(template.prompt, { prompt: options.prompt, context: text })
+        : undefined,
+      tokens: estimateTokens(text),
+      budget,
+      citations,
+      dropped: [...duplicates, ...dropped.map((entry) => entry.memory.id)],
+    };
+  }
+
+  /**
+   * Order candidates by relevance blended with recency
+   */
+  private rank(candidates: ContextCandidate[], now: number): Array<{ memory: Memory; score: number; text: string }> {
+    const { RECENCY_WEIGHT, RECENCY_HALF_LIFE_DAYS } = CONTEXT_BUILDER_CONFIG;
+
+    return candidates
+      .map((candidate) => {
+        const ageDays = Math.max(0, now - candidate.memory.timestamp) / (24 * 60 * 60 * 1000);
+        const recency = Math.pow(0.5, ageDays / RECENCY_HALF_LIFE_DAYS);
+        return {
+          memory: candidate.memory,
+          score: candidate.score * (1 - RECENCY_WEIGHT) + recency * RECENCY_WEIGHT,
+          text: (candidate.memory.content.text || '').replace(/\s+/g, ' ').trim(),
+        };
+      })
+      .filter((entry) => entry.text.length > 0)
+      .sort((a, b) => b.score - a.score);
+  }
+
+  /**
+   * Drop memories nearly identical to a better-ranked one
+   */
+  private dedupe<T extends { memory: Memory; text: string }>(ranked: T[]): { unique: T[]; duplicates: UUID[] } {
+    const unique: T[] = [];
+    const kept: Set<string>[] = [];
+    const duplicates: UUID[] = [];
+
+    for (const entry of ranked) {
+      const words = wordSet(entry.text);
+      if (kept.some((other) => jaccard(words, other) >= CONTEXT_BUILDER_CONFIG.DUPLICATE_SIMILARITY)) {
+        duplicates.push(entry.memory.id);
+        continue;
+      }
+      unique.push(entry);
+      kept.push(words);
+    }
+
+    return { unique, duplicates };
+  }
+
+  /**
+   * Check if the enrichment provider can summarize
+   * The premium API only exposes enrichment endpoints
+   */
+  private canSummarize(): boolean {
+    if (!this.config?.enabled) return false;
+
+    switch (this.config.provider) {
+      case 'openai':
+      case 'anthropic':
+        return !!this.config.apiKey;
+      case 'local':
+        return !!this.config.localEndpoint;
+      default:
+        return false;
+    }
+  }
+
+  /**
+   * Summarize memories into at most maxTokens
+   */
+  private async summarize(texts: string[], maxTokens: number): Promise<string> {
+    const maxWords = Math.max(20, Math.floor(maxTokens * 0.75));
+    const prompt = `Summarize the following notes from earlier conversations in at most ${maxWords} words.
+Keep concrete facts, names, decisions and code identifiers. Do not add anything that is not in the notes.
+
+${texts.map((text, i) => `Note ${i + 1}: ${text}`).join('\n\n')}`;
+
+    const { text } = await getLLMClient().complete(this.config!, {
+      system: 'You condense notes into short, factual summaries.',
+      prompt,
+      maxTokens,
+      timeoutMs: CONTEXT_BUILDER_CONFIG.SUMMARY_TIMEOUT_MS,
+    });
+    return text;
+  }
+}
+
+/**
+ * Template values of a line citing the memories it came from
+ */
+function itemValues(ref: number, entries: Array<{ memory: Memory; score: number }>, text: string): InjectionItemValues {
+  const memories = entries.map((entry) => entry.memory as MemoryWithMemA);
+  const latest = Math.max(...memories.map((memory) => memory.timestamp));
+
+  return {
+    ref,
+    id: memories.map((memory) => memory.id).join(', '),
+    text,
+    date: Number.isFinite(latest) ? new Date(latest).toISOString().slice(0, 10) : '',
+    platform: distinct(memories.map((memory) => memory.platform)).join(', '),
+    keywords: distinct(memories.flatMap((memory) => memory.keywords || [])).join(', '),
+    summary: memories.map((memory) => memory.context).filter(Boolean).join(' '),
+    links: memories.flatMap((memory) => (memory.links || []).map((link) => link.reason)).filter(Boolean).join('; '),
+    score: Math.max(...entries.map((entry) => entry.score)).toFixed(2),
+  };
+}
+
+/**
+ * Lay out the block around its lines
+ */
+function renderBlock(template: InjectionTemplate, items: string, platform: Platform, count: number): string {
+  return renderTemplate(template.context, { items, platform, count });
+}
+
+function distinct<T>(values: T[]): T[] {
+  return [...new Set(values)].filter(Boolean);
+}
+
+/**
+ * Cut text to a token budget at a word boundary
+ */
+function truncate(text: string, maxTokens: number): string {
+  const maxChars = Math.max(0, maxTokens) * CONTEXT_BUILDER_CONFIG.CHARS_PER_TOKEN;
+  if (text.length <= maxChars) {
+    return text;
+  }
+
+  const cut = text.slice(0, Math.max(0, maxChars - 3));
+  const boundary = cut.lastIndexOf(' ');
+  return `${boundary > 0 ? cut.slice(0, boundary) : cut}...`;
+}
+
+function wordSet(text: string): Set<string> {
+  return new Set(text.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(Boolean));
+}
+
+function jaccard(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 && b.size === 0) return 1;
+  let shared = 0;
+  for (const word of a) {
+    if (b.has(word)) shared++;
+  }
+  return shared / (a.size + b.size - shared);
+}
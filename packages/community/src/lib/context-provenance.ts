@@ -0,0 +1,129 @@
+/**
+ * Context Provenance
+ *
+ * Injected context must never be saved as if the user wrote it: the captured
+ * user turn would be embedded and linked with its own context, and memories
+ * would feed on themselves. This module recognizes an injected block in a
+ * captured message from the injection templates, removes it, and recovers the
+ * cited memory IDs so they can be stored as structured provenance instead.
+ */
+
+import type { ContextProvenance, ExtractedMessage, UUID } from '@engram/core';
+import type { AssembledContext } from './context-builder';
+import type { InjectionTemplate } from './injection-templates';
+
+/**
+ * Message with the injected block removed
+ */
+export interface StrippedContext {
+  text: string;                // What the user wrote
+  memoryIds: UUID[];           // Memories cited by the removed block
+}
+
+const PLACEHOLDER = /\{\{(\w+)\}\}/g;
+
+/**
+ * Escape a literal part of a template
+ * Whitespace runs match any whitespace, since editors and DOM capture reflow it
+ */
+function literal(text: string): string {
+  return text
+    .split(/\s+/)
+    .map((part) => part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+    .join('\\s*');
+}
+
+/**
+ * Turn a template into a regex source
+ * Each name in `groups` becomes a capture group on its first occurrence,
+ * every other placeholder matches anything
+ */
+function compile(template: string, groups: Record<string, string>): string {
+  const used = new Set<string>();
+  let source = '';
+  let last = 0;
+
+  for (const match of template.matchAll(PLACEHOLDER)) {
+    const name = match[1];
+    source += literal(template.slice(last, match.index));
+    source += groups[name] && !used.has(name) ? groups[name] : '[\\s\\S]*?';
+    used.add(name);
+    last = match.index! + match[0].length;
+  }
+
+  return source + literal(template.slice(last));
+}
+
+/**
+ * Find an injected block of one template
+ */
+function stripWith(text: string, template: InjectionTemplate): StrippedContext | null {
+  // A layout without literal text around the block would match any message
+  if (!/\S/.test((template.prompt + template.context).replace(PLACEHOLDER, ''))) return null;
+
+  let message: RegExp;
+  let item: RegExp;
+  try {
+    const context = compile(template.context, { items: '(?<items>[\\s\\S]+?)' });
+    message = new RegExp(`^\\s*${compile(template.prompt, { prompt: '(?<prompt>[\\s\\S]*?)', context })}\\s*$`);
+    item = new RegExp(compile(template.item, { id: '(?<id>[^\\n]*?)' }), 'g');
+  } catch {
+    return null;
+  }
+
+  const match = text.match(message);
+  if (!match?.groups || match.groups.items === undefined) return null;
+
+  // The block must actually hold items, so a message that merely resembles
+  // a loose custom layout is left alone
+  const items = [...match.groups.items.matchAll(item)];
+  const hasIds = template.item.includes('{{id}}');
+  if (items.length === 0 || (hasIds && items.every((m) => !m.groups?.id))) return null;
+
+  const memoryIds = hasIds
+    ? [...new Set(items.flatMap((m) => (m.groups?.id || '').split(/\s*,\s*/)).filter(Boolean))]
+    : [];
+
+  return { text: (match.groups.prompt ?? '').trim(), memoryIds };
+}
+
+/**
+ * Remove an injected block from a captured message
+ *
+ * @param text - Captured message text
+ * @param templates - Templates the block may have been rendered with, most likely first
+ * @returns The user's own text and the cited memories, or null when nothing was injected
+ */
+export function stripInjectedContext(text: string, templates: InjectionTemplate[]): StrippedContext | null {
+  for (const template of templates) {
+    const stripped = stripWith(text, template);
+    if (stripped) return stripped;
+  }
+  return null;
+}
+
+/**
+ * Memories cited by an assembled block
+ */
+export function citedMemoryIds(context: AssembledContext | null | undefined): UUID[] {
+  return [...new Set((context?.citations || []).map((citation) => citation.memoryId))];
+}
+
+/**
+ * Replace the captured text of a user turn and record the memories it used
+ * Provenance that is already attached wins over a newly detected one
+ */
+export function withProvenance(
+  message: ExtractedMessage,
+  text: string,
+  provenance: ContextProvenance
+): ExtractedMessage {
+  return {
+    ...message,
+    content: text,
+    metadata: {
+      ...message.metadata,
+      contextProvenance: message.metadata?.contextProvenance ?? provenance,
+    },
+  };
+}
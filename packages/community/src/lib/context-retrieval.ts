@@ -0,0 +1,141 @@
+/**
+ * Context Retrieval
+ * Finds memories relevant to a draft prompt for automatic injection
+ *
+ * Runs in the background worker against the shared HNSW index, so AI tabs no
+ * longer load memories or run the embedding model themselves. Link-aware
+ * (Phase 2): the best semantic matches are expanded with their linked memories.
+ */
+
+import type { Memory, MemoryWithMemA, UUID } from '@engram/core';
+import type { StorageService } from './storage';
+import { isSelectedVersion } from './message-versions';
+import { getEmbeddingService } from './embedding-service';
+
+/**
+ * Ranked memory to inject as context
+ */
+export interface ContextCandidate {
+  memory: Memory;      // Stored record (callers decrypt content before sending it to a tab)
+  score: number;       // Similarity (0-1), decayed for linked memories
+  linkedFrom?: UUID;   // Set when the memory was added through a link of this match
+  pinned?: boolean;    // Added by the user when reviewing the injection
+}
+
+/**
+ * Retrieval configuration
+ */
+export const RETRIEVAL_CONFIG = {
+  MAX_RESULTS: 5,      // Semantic matches before link expansion
+  MAX_CANDIDATES: 10,  // Candidates after link expansion
+  THRESHOLD: 0.5,      // Minimum similarity of semantic matches
+  LINK_DECAY: 0.8,     // Linked memories rank below the match that links them
+  PINNED_SCORE: 1,     // Memories pinned by the user rank first
+};
+
+/**
+ * Retrieval options
+ */
+export interface RetrievalOptions {
+  maxResults?: number;
+  maxCandidates?: number;
+  threshold?: number;
+  include?: UUID[];    // Pinned memories, added even when they do not match
+  exclude?: UUID[];    // Memories the user unchecked
+}
+
+/**
+ * Find context candidates for a prompt
+ *
+ * Algorithm:
+ * 1. Get top-k memories from the HNSW index above the similarity threshold
+ * 2. Expand results with their linked memories (decayed score)
+ * 3. De-duplicate results, drop excluded memories and add pinned ones
+ * 4. Sort by score and limit to maxCandidates (pinned memories are always kept)
+ *
+ * @returns Candidates, best first (empty when there is no index yet)
+ */
+export async function retrieveContext(
+  storage: StorageService,
+  prompt: string,
+  options: RetrievalOptions = {}
+): Promise<ContextCandidate[]> {
+  const maxResults = options.maxResults ?? RETRIEVAL_CONFIG.MAX_RESULTS;
+  const maxCandidates = options.maxCandidates ?? RETRIEVAL_CONFIG.MAX_CANDIDATES;
+  const threshold = options.threshold ?? RETRIEVAL_CONFIG.THRESHOLD;
+
+  const candidates: ContextCandidate[] = [];
+  const seen = new Set<UUID>(options.exclude || []);
+
+  // Pinned memories first, so they survive the candidate limit
+  for (const id of options.include || []) {
+    if (seen.has(id)) continue;
+
+    const memory = await storage.getMemory(id);
+    if (!memory) continue;
+
+    candidates.push({ memory, score: RETRIEVAL_CONFIG.PINNED_SCORE, pinned: true });
+    seen.add(id);
+  }
+
+  const index = storage.getHNSWIndex();
+  if (!index?.isReady() || !prompt.trim()) {
+    return candidates;
+  }
+
+  // Step 1: Semantic matches from the shared index
+  const queryVector = await getEmbeddingService().embed(prompt.trim());
+  const results = await index.search(new Float32Array(queryVector), maxResults);
+
+  for (const result of results) {
+    const score = 1 - result.distance;
+    if (score < threshold || seen.has(result.id)) continue;
+
+    // Versions of a message the conversation is not showing stay out
+    const memory = await storage.getMemory(result.id);
+    if (!memory || !isSelectedVersion(memory)) continue;
+
+    candidates.push({ memory, score });
+    seen.add(memory.id);
+  }
+
+  // Step 2: Expand with linked memories
+  for (const match of candidates.filter((candidate) => !candidate.pinned)) {
+    const links = (match.memory as MemoryWithMemA).links || [];
+
+    for (const link of links) {
+      if (seen.has(link.memoryId) || candidates.length >= maxCandidates) continue;
+
+      const linked = await storage.getMemory(link.memoryId);
+      if (!linked || !isSelectedVersion(linked)) continue;
+
+      candidates.push({
+        memory: linked,
+        score: match.score * link.score * RETRIEVAL_CONFIG.LINK_DECAY,
+        linkedFrom: match.memory.id,
+      });
+      seen.add(link.memoryId);
+    }
+  }
+
+  // Step 3: Sort by score and limit
+  const pinned = candidates.filter((candidate) => candidate.pinned).length;
+  return candidates
+    .sort((a, b) => Number(!!b.pinned) - Number(!!a.pinned) || b.score - a.score)
+    .slice(0, Math.max(maxCandidates, pinned));
+}
+
+/**
+ * Strip vectors and ciphertext from a memory before it leaves the background worker
+ * Tabs only need the decrypted content to build the injected context
+ */
+export function toContextMemory(memory: Memory): Memory {
+  const lean = { ...memory } as MemoryWithMemA & { encryptedEmbedding?: unknown; encryptedContent?: unknown };
+  delete lean.embedding;
+  delete lean.encryptedEmbedding;
+  delete lean.chunkEmbeddings;
+  delete lean.encryptedChunkEmbeddings;
+  delete lean.stagedEmbedding;
+  delete lean.encryptedContent;
+  return lean;
+}
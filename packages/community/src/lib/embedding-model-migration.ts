@@ -0,0 +1,266 @@
+/**
+ * Embedding Model Migration
+ * Re-embeds all memories after the user switches embedding models
+ *
+ * The previous model and its HNSW index keep serving searches while a staged
+ * index for the new model is filled; the staged index is promoted once every
+ * memory is re-embedded. New vectors are stored next to the active ones
+ * (`stagedEmbedding`) and only replace them at promotion, so the active index
+ * can still be rebuilt or repaired meanwhile, and a failed or cancelled switch
+ * leaves it intact. Progress is resumable: staged vectors record their model,
+ * so a restarted migration only re-embeds what is left, and the checkpoint in
+ * the metadata table remembers the target across restarts. Failed runs are
+ * retried on the next start, up to MAX_ATTEMPTS.
+ */
+
+import { METADATA_KEYS, type MemoryWithMemA } from '@engram/core';
+import type { StorageService } from './storage';
+import { EmbeddingService } from './embedding-service';
+import { embeddingModelOf, getEmbeddingModel, type EmbeddingModelSettings } from './embedding-models';
+
+/**
+ * Persisted migration checkpoint
+ */
+export interface EmbeddingModelMigrationStatus {
+  state: 'running' | 'complete' | 'failed';
+  from: string;                  // Model ID of the active index when the switch was requested
+  to: EmbeddingModelSettings;
+  migrated: number;              // Memories re-embedded so far (across restarts)
+  total: number;                 // Memories with vectors when the current run started
+  failed: number;
+  attempts: number;              // Runs started for this switch
+  startedAt: number;
+  updatedAt: number;
+  error?: string;
+}
+
+/**
+ * Re-scans for memories embedded with the old model while the migration ran
+ */
+const MAX_PASSES = 3;
+
+/**
+ * Checkpoint is written every this many memories
+ */
+const CHECKPOINT_INTERVAL = 10;
+
+/**
+ * Runs of a failing switch before it is given up (the old model stays active)
+ */
+const MAX_ATTEMPTS = 3;
+
+export class EmbeddingModelMigration {
+  private static running: Promise<{ migrated: number; skipped: number; failed: number }> | null = null;
+
+  /**
+   * Request a switch to another embedding model
+   * Records the target; migrateEmbeddings() does the re-embedding
+   *
+   * @returns The checkpoint, or null when the model is already active
+   */
+  static async start(
+    storage: StorageService,
+    settings: EmbeddingModelSettings
+  ): Promise<EmbeddingModelMigrationStatus | null> {
+    getEmbeddingModel(settings.modelId); // Throws for unknown models
+
+    const current = await this.getStatus(storage);
+    if (current?.state === 'running' && this.running) {
+      throw new Error('An embedding model migration is already in progress');
+    }
+
+    const active = await storage.getEmbeddingModelSettings();
+    if (active.modelId === settings.modelId && active.endpoint === settings.endpoint) {
+      await storage.setMetadata(METADATA_KEYS.EMBEDDING_MODEL_MIGRATION, null);
+      return null;
+    }
+
+    // Same model at a different endpoint produces the same vectors
+    if (active.modelId === settings.modelId) {
+      await storage.setMetadata(METADATA_KEYS.EMBEDDING_MODEL, settings);
+      await storage.setMetadata(METADATA_KEYS.EMBEDDING_MODEL_MIGRATION, null);
+      return null;
+    }
+
+    const now = Date.now();
+    const status: EmbeddingModelMigrationStatus = {
+      state: 'running',
+      from: active.modelId,
+      to: settings,
+      migrated: 0,
+      total: 0,
+      failed: 0,
+      attempts: 0,
+      startedAt: now,
+      updatedAt: now,
+    };
+    await storage.setMetadata(METADATA_KEYS.EMBEDDING_MODEL_MIGRATION, status);
+
+    console.log(`[ModelMigration] Switching embedding model ${active.modelId} → ${settings.modelId}`);
+    return status;
+  }
+
+  /**
+   * Current checkpoint (null if no switch was requested)
+   */
+  static async getStatus(storage: StorageService): Promise<EmbeddingModelMigrationStatus | null> {
+    return storage.getMetadata<EmbeddingModelMigrationStatus>(METADATA_KEYS.EMBEDDING_MODEL_MIGRATION);
+  }
+
+  /**
+   * Check if a requested switch has not finished (interrupted, or failed and
+   * not yet retried MAX_ATTEMPTS times)
+   */
+  static async needsMigration(storage: StorageService): Promise<boolean> {
+    return isPending(await this.getStatus(storage));
+  }
+
+  /**
+   * Re-embed all memories with the target model and promote its index
+   * Concurrent calls share the running migration
+   */
+  static migrateEmbeddings(
+    storage: StorageService,
+    onProgress?: (current: number, total: number) => void
+  ): Promise<{ migrated: number; skipped: number; failed: number }> {
+    if (!this.running) {
+      this.running = this.run(storage, onProgress).finally(() => {
+        this.running = null;
+      });
+    }
+    return this.running;
+  }
+
+  private static async run(
+    storage: StorageService,
+    onProgress?: (current: number, total: number) => void
+  ): Promise<{ migrated: number; skipped: number; failed: number }> {
+    const stats = { migrated: 0, skipped: 0, failed: 0 };
+    const status = await this.getStatus(storage);
+    if (!status || !isPending(status)) {
+      return stats;
+    }
+
+    status.state = 'running';
+    status.attempts = (status.attempts || 0) + 1;
+    delete status.error;
+    await this.saveStatus(storage, status);
+
+    const target = getEmbeddingModel(status.to.modelId);
+
+    try {
+      const embeddingService = new EmbeddingService(status.to);
+      await embeddingService.initialize();
+
+      // Resume: vectors already re-embedded by an earlier run go straight into the staged index
+      const memories = await loadMemories(storage);
+      await storage.stageHNSWIndex(
+        target,
+        memories.filter((m) => hasEmbedding(m) && hasVectorsOf(m, target.id))
+      );
+
+      const failedIds = new Set<string>();
+      for (let pass = 0; pass < MAX_PASSES; pass++) {
+        const pending = (pass === 0 ? memories : await loadMemories(storage)).filter(
+          (m) => hasEmbedding(m) && !hasVectorsOf(m, target.id) && !failedIds.has(m.id)
+        );
+        if (pending.length === 0) break;
+
+        status.total = status.migrated + pending.length;
+        console.log(`[ModelMigration] Pass ${pass + 1}: re-embedding ${pending.length} memories with ${target.id}`);
+
+        for (let i = 0; i < pending.length; i++) {
+          try {
+            if (await storage.reembedMemory(pending[i].id, embeddingService)) {
+              stats.migrated++;
+              status.migrated++;
+            } else {
+              stats.skipped++;
+            }
+          } catch (err) {
+            console.error(`[ModelMigration] Failed for ${pending[i].id}:`, err);
+            failedIds.add(pending[i].id);
+            stats.failed++;
+          }
+
+          if ((i + 1) % CHECKPOINT_INTERVAL === 0 || i === pending.length - 1) {
+            // Stop if the switch was cancelled or retargeted meanwhile
+            const latest = await this.getStatus(storage);
+            if (latest?.state !== 'running' || latest.to.modelId !== target.id) {
+              console.log('[ModelMigration] Target changed, abandoning migration');
+              storage.discardStagedHNSWIndex();
+              return stats;
+            }
+
+            await this.saveStatus(storage, { ...status, failed: failedIds.size });
+            onProgress?.(status.migrated, status.total);
+          }
+        }
+      }
+
+      if (failedIds.size > 0) {
+        // Keep the old model; the next run (up to MAX_ATTEMPTS) retries the failed memories
+        storage.discardStagedHNSWIndex();
+        await this.saveStatus(storage, {
+          ...status,
+          state: 'failed',
+          failed: failedIds.size,
+          error: `${failedIds.size} memories could not be re-embedded`,
+        });
+        return stats;
+      }
+
+      await storage.promoteStagedHNSWIndex(status.to);
+
+      // Memories saved between the last pass and the switch still carry old vectors
+      const stragglers = (await loadMemories(storage)).filter(
+        (m) => hasEmbedding(m) && embeddingModelOf(m) !== target.id
+      );
+      for (const memory of stragglers) {
+        try {
+          if (await storage.reembedMemory(memory.id, embeddingService)) {
+            stats.migrated++;
+          }
+        } catch (err) {
+          console.error(`[ModelMigration] Failed for ${memory.id}:`, err);
+          stats.failed++;
+        }
+      }
+      if (stragglers.length > 0) {
+        await storage.persistHNSWIndex();
+      }
+
+      await this.saveStatus(storage, { ...status, state: 'complete', failed: stats.failed });
+      console.log(`[ModelMigration] Complete: ${stats.migrated} migrated, ${stats.skipped} skipped, ${stats.failed} failed`);
+    } catch (err) {
+      console.error('[ModelMigration] Failed:', err);
+      storage.discardStagedHNSWIndex();
+      await this.saveStatus(storage, { ...status, state: 'failed', error: (err as Error).message });
+    }
+
+    return stats;
+  }
+
+  private static async saveStatus(storage: StorageService, status: EmbeddingModelMigrationStatus): Promise<void> {
+    await storage.setMetadata(METADATA_KEYS.EMBEDDING_MODEL_MIGRATION, { ...status, updatedAt: Date.now() });
+  }
+}
+
+async function loadMemories(storage: StorageService): Promise<MemoryWithMemA[]> {
+  return await storage.getMemories({}) as MemoryWithMemA[];
+}
+
+function hasEmbedding(memory: MemoryWithMemA): boolean {
+  return !!(memory.encryptedEmbedding || memory.embedding);
+}
+
+/**
+ * Whether a memory's stored or staged vectors come from the model
+ */
+function hasVectorsOf(memory: MemoryWithMemA, modelId: string): boolean {
+  return embeddingModelOf(memory) === modelId || memory.stagedEmbedding?.embeddingModel === modelId;
+}
+
+function isPending(status: EmbeddingModelMigrationStatus | null): boolean {
+  return status?.state === 'running' || (status?.state === 'failed' && (status.attempts || 0) < MAX_ATTEMPTS);
+}
@@ -0,0 +1,249 @@
+/**
+ * Embedding Models
+ * Registry of embedding backends and the dimensions of the vectors they produce
+ *
+ * Backends:
+ * - transformers: models run in the extension via Transformers.js
+ * - openai-compatible: a local `/v1/embeddings` endpoint (Ollama, LM Studio, LocalAI, etc.)
+ *
+ * Every stored vector records the ID of the model that produced it
+ * (`MemoryWithMemA.embeddingModel`), so vectors of different models are never
+ * compared. Switching models re-embeds every memory (see embedding-model-migration.ts).
+ */
+
+import { pipeline, type Pipeline, env } from '@xenova/transformers';
+
+// Configure Transformers.js for Chrome service worker compatibility
+// Disable threading to avoid "Atomics.wait cannot be called in this context" error
+env.allowLocalModels = false;
+env.backends.onnx.wasm.numThreads = 1;
+env.backends.onnx.wasm.simd = true; // Keep SIMD for performance
+
+/**
+ * Where embeddings are computed
+ */
+export type EmbeddingBackendType = 'transformers' | 'openai-compatible';
+
+/**
+ * Registered embedding model
+ */
+export interface EmbeddingModelSpec {
+  id: string;                    // Stable registry ID, recorded on every vector
+  label: string;
+  backend: EmbeddingBackendType;
+  model: string;                 // Transformers.js model name, or model name sent to the endpoint
+  dimensions: number;
+  description: string;
+}
+
+/**
+ * Active model selection (persisted in the metadata table)
+ */
+export interface EmbeddingModelSettings {
+  modelId: string;
+  endpoint?: string;             // Base URL for openai-compatible models
+}
+
+/**
+ * Available embedding models
+ */
+export const EMBEDDING_MODELS: EmbeddingModelSpec[] = [
+  {
+    id: 'bge-small-en-v1.5',
+    label: 'BGE Small',
+    backend: 'transformers',
+    model: 'Xenova/bge-small-en-v1.5',
+    dimensions: 384,
+    description: '~130MB download, excellent for semantic search/retrieval',
+  },
+  {
+    id: 'all-minilm-l6-v2',
+    label: 'MiniLM L6',
+    backend: 'transformers',
+    model: 'Xenova/all-MiniLM-L6-v2',
+    dimensions: 384,
+    description: '~90MB download, fastest on low-end devices',
+  },
+  {
+    id: 'bge-base-en-v1.5',
+    label: 'BGE Base',
+    backend: 'transformers',
+    model: 'Xenova/bge-base-en-v1.5',
+    dimensions: 768,
+    description: '~440MB download, better recall, slower to embed',
+  },
+  {
+    id: 'local-nomic-embed-text',
+    label: 'nomic-embed-text (local endpoint)',
+    backend: 'openai-compatible',
+    model: 'nomic-embed-text',
+    dimensions: 768,
+    description: 'Served by a local OpenAI-compatible endpoint, e.g. Ollama',
+  },
+  {
+    id: 'local-mxbai-embed-large',
+    label: 'mxbai-embed-large (local endpoint)',
+    backend: 'openai-compatible',
+    model: 'mxbai-embed-large',
+    dimensions: 1024,
+    description: 'Served by a local OpenAI-compatible endpoint, e.g. Ollama',
+  },
+];
+
+/**
+ * Model used before the registry existed (vectors without `embeddingModel`)
+ */
+export const DEFAULT_EMBEDDING_MODEL_ID = 'bge-small-en-v1.5';
+
+/**
+ * Endpoint used by openai-compatible models when none is configured
+ */
+export const DEFAULT_EMBEDDING_ENDPOINT = 'http://localhost:11434/v1';
+
+/**
+ * Look up a registered model
+ */
+export function getEmbeddingModel(id: string = DEFAULT_EMBEDDING_MODEL_ID): EmbeddingModelSpec {
+  const spec = EMBEDDING_MODELS.find((model) => model.id === id);
+  if (!spec) {
+    throw new Error(`Unknown embedding model: ${id}`);
+  }
+  return spec;
+}
+
+/**
+ * Model that produced a memory's stored vectors
+ */
+export function embeddingModelOf(memory: { embeddingModel?: string }): string {
+  return memory.embeddingModel || DEFAULT_EMBEDDING_MODEL_ID;
+}
+
+/**
+ * Full embeddings URL for an OpenAI-compatible base endpoint
+ * Accepts `http://host:port`, `http://host:port/v1` or the full `/v1/embeddings` URL
+ */
+export function embeddingsEndpoint(endpoint: string): string {
+  const trimmed = endpoint.trim();
+  if (trimmed.endsWith('/embeddings')) {
+    return trimmed;
+  }
+  if (trimmed.endsWith('/v1')) {
+    return `${trimmed}/embeddings`;
+  }
+  if (trimmed.endsWith('/')) {
+    return `${trimmed}v1/embeddings`;
+  }
+  return `${trimmed}/v1/embeddings`;
+}
+
+/**
+ * Computes embeddings for one model
+ */
+export interface EmbeddingBackend {
+  readonly spec: EmbeddingModelSpec;
+  initialize(): Promise<void>;
+  embed(text: string): Promise<number[]>;
+}
+
+/**
+ * Create the backend for a model
+ *
+ * @param endpoint - Base URL for openai-compatible models (defaults to Ollama)
+ */
+export function createEmbeddingBackend(spec: EmbeddingModelSpec, endpoint?: string): EmbeddingBackend {
+  switch (spec.backend) {
+    case 'transformers':
+      return new TransformersBackend(spec);
+    case 'openai-compatible':
+      return new OpenAICompatibleBackend(spec, endpoint || DEFAULT_EMBEDDING_ENDPOINT);
+  }
+}
+
+/**
+ * Transformers.js feature-extraction pipeline (mean pooled, normalized)
+ */
+class TransformersBackend implements EmbeddingBackend {
+  private pipeline: Pipeline | null = null;
+
+  constructor(readonly spec: EmbeddingModelSpec) {}
+
+  async initialize(): Promise<void> {
+    if (this.pipeline) return;
+
+    console.log('[Engram Embeddings] Initializing model:', this.spec.model);
+    console.log(`[Engram Embeddings] First load will download the model (${this.spec.label})...`);
+
+    // Configure Transformers.js for Chrome extension environment
+    // Use CDN for model loading (not local filesystem)
+    this.pipeline = await pipeline('feature-extraction', this.spec.model, {
+      // Ensure we use the remote CDN for model loading
+      revision: 'main',
+      // Use default cache (browser cache API)
+      cache_dir: undefined,
+    }) as any;
+
+    console.log(`[Engram Embeddings] Model ready! Using ${this.spec.label}.`);
+  }
+
+  async embed(text: string): Promise<number[]> {
+    if (!this.pipeline) {
+      throw new Error('Model not initialized');
+    }
+
+    const output = await this.pipeline(text, {
+      pooling: 'mean',
+      normalize: true,
+    });
+
+    return Array.from(output.data) as number[];
+  }
+}
+
+/**
+ * OpenAI-compatible `/v1/embeddings` endpoint
+ * Vectors are normalized so cosine scores match the Transformers.js models
+ */
+class OpenAICompatibleBackend implements EmbeddingBackend {
+  private readonly url: string;
+
+  constructor(readonly spec: EmbeddingModelSpec, endpoint: string) {
+    this.url = embeddingsEndpoint(endpoint);
+  }
+
+  async initialize(): Promise<void> {
+    // Nothing to load; the first request surfaces connection errors
+  }
+
+  async embed(text: string): Promise<number[]> {
+    const response = await fetch(this.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        model: this.spec.model,
+        input: text,
+      }),
+    });
+
+    if (!response.ok) {
+      const error = await response.text();
+      throw new Error(`Embedding endpoint error: ${response.status} - ${error}`);
+    }
+
+    const data = await response.json();
+    const embedding = data.data?.[0]?.embedding;
+
+    if (!Array.isArray(embedding)) {
+      throw new Error('Embedding endpoint returned no embedding');
+    }
+    if (embedding.length !== this.spec.dimensions) {
+      throw new Error(
+        `Embedding endpoint returned ${embedding.length} dimensions, expected ${this.spec.dimensions} for ${this.spec.model}`
+      );
+    }
+
+    const norm = Math.sqrt(embedding.reduce((sum: number, value: number) => sum + value * value, 0)) || 1;
+    return embedding.map((value: number) => value / norm);
+  }
+}
@@ -1,6 +1,7 @@
 /**
  * Embedding Service
- * Uses Transformers.js to generate semantic embeddings for intelligent memory matching
+ * Generates semantic embeddings for intelligent memory matching with the
+ * active model from the registry (see embedding-models.ts)
  *
  * **Enhanced Embeddings (memA Phase 1):**
  * Embeddings are generated from a combination of:
@@ -10,22 +11,30 @@
  * - LLM-generated context
  *
  * This provides better semantic search quality by incorporating enrichment metadata.
+ *
+ * **Chunked Embeddings:**
+ * Long messages are split into overlapping chunks (see text-chunker.ts), each
+ * embedded with the enrichment metadata. The memory-level embedding is the
+ * normalized mean of its chunk embeddings.
  */
 
-import { pipeline, type Pipeline, env } from '@xenova/transformers';
 import type { Memory, MemoryWithMemA } from '@engram/core';
-
-// Configure Transformers.js for Chrome service worker compatibility
-// Disable threading to avoid "Atomics.wait cannot be called in this context" error
-env.allowLocalModels = false;
-env.backends.onnx.wasm.numThreads = 1;
-env.backends.onnx.wasm.simd = true; // Keep SIMD for performance
+import { chunkText } from './text-chunker';
+import {
+  createEmbeddingBackend,
+  DEFAULT_EMBEDDING_MODEL_ID,
+  getEmbeddingModel,
+  type EmbeddingBackend,
+  type EmbeddingModelSettings,
+  type EmbeddingModelSpec,
+} from './embedding-models';
 
 /**
  * Memory with embedding
  */
 export interface MemoryWithEmbedding extends Memory {
   embedding?: number[];
+  chunkEmbeddings?: number[][]; // One per chunk, only for memories with more than one chunk
 }
 
 /**
@@ -40,7 +49,6 @@ export interface SimilarityResult {
  * Embedding service configuration
  */
 const CONFIG = {
-  MODEL: 'Xenova/bge-small-en-v1.5', // 130MB, excellent for semantic search/retrieval
   SIMILARITY_THRESHOLD: 0.5, // Minimum score to consider relevant (strict for high quality)
   MAX_RESULTS: 5, // Maximum memories to inject
   DEBOUNCE_MS: 500, // Debounce time for computing embeddings
@@ -51,11 +59,41 @@ const CONFIG = {
  * Handles semantic embedding generation and similarity computation
  */
 export class EmbeddingService {
-  private model: Pipeline | null = null;
+  private model: EmbeddingBackend | null = null;
   private isInitializing = false;
   private initPromise: Promise<void> | null = null;
-  private memoryEmbeddings: Map<string, number[]> = new Map();
+  private memoryEmbeddings: Map<string, { embedding: number[]; chunkEmbeddings?: number[][] }> = new Map();
   private hnswIndex: import('./hnsw-index-service').HNSWIndexService | null = null; // Phase 4
+  private settings: EmbeddingModelSettings;
+  private spec: EmbeddingModelSpec;
+
+  constructor(settings: EmbeddingModelSettings = { modelId: DEFAULT_EMBEDDING_MODEL_ID }) {
+    this.settings = settings;
+    this.spec = getEmbeddingModel(settings.modelId);
+  }
+
+  /**
+   * Switch to another registered model
+   * Cached embeddings belong to the previous model and are dropped
+   */
+  setModel(settings: EmbeddingModelSettings): void {
+    if (settings.modelId === this.settings.modelId && settings.endpoint === this.settings.endpoint) {
+      return;
+    }
+
+    this.spec = getEmbeddingModel(settings.modelId);
+    this.settings = settings;
+    this.model = null;
+    this.memoryEmbeddings.clear();
+    console.log('[Engram Embeddings] Switched model to', this.spec.id);
+  }
+
+  /**
+   * Model used for new embeddings
+   */
+  getModel(): EmbeddingModelSpec {
+    return this.spec;
+  }
 
   /**
    * Initialize the embedding model
@@ -79,19 +117,9 @@ export class EmbeddingService {
 
   private async _initializeModel(): Promise<void> {
     try {
-      console.log('[Engram Embeddings] Initializing model:', CONFIG.MODEL);
-      console.log('[Engram Embeddings] First load will download ~130MB model (BGE-Small)...');
-
-      // Configure Transformers.js for Chrome extension environment
-      // Use CDN for model loading (not local filesystem)
-      this.model = await pipeline('feature-extraction', CONFIG.MODEL, {
-        // Ensure we use the remote CDN for model loading
-        revision: 'main',
-        // Use default cache (browser cache API)
-        cache_dir: undefined,
-      }) as any;
-
-      console.log('[Engram Embeddings] Model ready! Using BGE-Small for better semantic search.');
+      const backend = createEmbeddingBackend(this.spec, this.settings.endpoint);
+      await backend.initialize();
+      this.model = backend;
     } catch (error) {
       console.error('[Engram Embeddings] Failed to initialize model:', error);
       throw error;
@@ -112,14 +140,7 @@ export class EmbeddingService {
 
     try {
       // Generate embedding
-      const output = await this.model(text, {
-        pooling: 'mean',
-        normalize: true,
-      });
-
-      // Convert to array
-      const embedding = Array.from(output.data) as number[];
-      return embedding;
+      return await this.model.embed(text);
     } catch (error) {
       console.error('[Engram Embeddings] Failed to generate embedding:', error);
       throw error;
@@ -151,13 +172,15 @@ export class EmbeddingService {
    * const text = this.buildEnhancedText(memory);
    * // Result: "How do I implement OAuth 2.0? Keywords: OAuth authentication security. Tags: technical web. Context: Question about implementing OAuth 2.0 authentication"
    * ```
+   *
+   * @param text - Content to use instead of the full message (one chunk of it)
    */
-  private buildEnhancedText(memory: Memory | MemoryWithMemA): string {
+  private buildEnhancedText(memory: Memory | MemoryWithMemA, text: string | null = memory.content.text): string {
     const parts: string[] = [];
 
     // 1. Original content (most important)
-    if (memory.content.text) {
-      parts.push(memory.content.text);
+    if (text) {
+      parts.push(text);
     }
 
     // 2. Add keywords if available (from enrichment)
@@ -179,6 +202,25 @@ export class EmbeddingService {
     return parts.join('. ');
   }
 
+  /**
+   * Embed a memory chunk by chunk
+   * Every chunk carries the enrichment metadata; single-chunk memories embed
+   * exactly like before chunking
+   */
+  private async embedChunks(memory: Memory): Promise<{ embedding: number[]; chunkEmbeddings?: number[][] }> {
+    const chunks = chunkText(memory.content.text || '');
+    if (chunks.length === 1) {
+      return { embedding: await this.embed(this.buildEnhancedText(memory)) };
+    }
+
+    const chunkEmbeddings: number[][] = [];
+    for (const chunk of chunks) {
+      chunkEmbeddings.push(await this.embed(this.buildEnhancedText(memory, chunk.text)));
+    }
+
+    return { embedding: meanEmbedding(chunkEmbeddings), chunkEmbeddings };
+  }
+
   /**
    * Generate embeddings for multiple memories.
    *
@@ -204,10 +246,11 @@ export class EmbeddingService {
       const memory = memories[i];
 
       // Check if we already have embedding cached
-      if (this.memoryEmbeddings.has(memory.id)) {
+      const cached = this.memoryEmbeddings.get(memory.id);
+      if (cached) {
         memoriesWithEmbeddings.push({
           ...memory,
-          embedding: this.memoryEmbeddings.get(memory.id),
+          ...cached,
         });
 
         // Report progress for cached items too
@@ -218,18 +261,15 @@ export class EmbeddingService {
       }
 
       try {
-        // Build enhanced text combining content + enrichment metadata
-        const enhancedText = this.buildEnhancedText(memory);
-
-        // Generate embedding for enhanced text
-        const embedding = await this.embed(enhancedText);
+        // Embed content + enrichment metadata, chunk by chunk for long messages
+        const embeddings = await this.embedChunks(memory);
 
         // Cache it
-        this.memoryEmbeddings.set(memory.id, embedding);
+        this.memoryEmbeddings.set(memory.id, embeddings);
 
         memoriesWithEmbeddings.push({
           ...memory,
-          embedding,
+          ...embeddings,
         });
 
         // Report progress
@@ -270,18 +310,15 @@ export class EmbeddingService {
     // Remove from cache to force regeneration
     this.memoryEmbeddings.delete(memory.id);
 
-    // Build enhanced text
-    const enhancedText = this.buildEnhancedText(memory);
-
-    // Generate new embedding
-    const embedding = await this.embed(enhancedText);
+    // Generate new embedding (and chunk embeddings for long messages)
+    const embeddings = await this.embedChunks(memory);
 
     // Cache it
-    this.memoryEmbeddings.set(memory.id, embedding);
+    this.memoryEmbeddings.set(memory.id, embeddings);
 
     return {
       ...memory,
-      embedding,
+      ...embeddings,
     };
   }
 
@@ -295,6 +332,10 @@ export class EmbeddingService {
 
   /**
    * Find similar memories to a query
+   *
+   * Memories with chunk embeddings score by their best-matching chunk.
+   * With `chunkQuery`, a long query (e.g. another memory) is chunked too and
+   * each memory scores by its best query chunk × memory chunk pair.
    */
   async findSimilar(
     query: string,
@@ -302,13 +343,17 @@ export class EmbeddingService {
     options: {
       threshold?: number;
       maxResults?: number;
+      chunkQuery?: boolean;
     } = {}
   ): Promise<SimilarityResult[]> {
     const threshold = options.threshold ?? CONFIG.SIMILARITY_THRESHOLD;
     const maxResults = options.maxResults ?? CONFIG.MAX_RESULTS;
 
-    // Generate query embedding
-    const queryEmbedding = await this.embed(query);
+    // Generate query embedding(s)
+    const queryEmbeddings: number[][] = [];
+    for (const chunk of options.chunkQuery ? chunkText(query) : [{ text: query }]) {
+      queryEmbeddings.push(await this.embed(chunk.text));
+    }
 
     // Extract keywords from query (words longer than 3 chars)
     const queryKeywords = query.toLowerCase()
@@ -320,28 +365,33 @@ export class EmbeddingService {
     // Choose search strategy based on memory count
     let candidates: Array<{ memory: Memory; semanticScore: number }>;
 
-    if (this.hnswIndex?.isReady() && memories.length >= 1000) {
+    // Stored memories only carry encrypted embeddings, which only the HNSW index can search
+    const hasPlaintextEmbeddings = memories.some(m => m.embedding);
+
+    if (this.hnswIndex?.isReady() && (memories.length >= 1000 || !hasPlaintextEmbeddings)) {
       // ===== HNSW ACCELERATED PATH =====
       console.log(`[Embedding] Using HNSW search for ${memories.length} memories`);
 
       // Get top-k candidates from HNSW (3x maxResults for reranking)
+      // The index scores each memory by its best chunk
       const k = maxResults * 3;
-      const hnswResults = await this.hnswIndex.search(
-        new Float32Array(queryEmbedding),
-        k
-      );
+      const memoriesById = new Map(memories.map(m => [m.id, m]));
+      const bestScores = new Map<string, number>();
+
+      for (const queryEmbedding of queryEmbeddings) {
+        const hnswResults = await this.hnswIndex.search(new Float32Array(queryEmbedding), k);
+        for (const { id, distance } of hnswResults) {
+          if (!memoriesById.has(id)) continue;
+          // Convert distance to similarity
+          bestScores.set(id, Math.max(bestScores.get(id) ?? -Infinity, 1 - distance));
+        }
+      }
 
       // Convert HNSW results to candidates
-      candidates = hnswResults
-        .map(({ id, distance }) => {
-          const memory = memories.find(m => m.id === id);
-          if (!memory) return null;
-          return {
-            memory,
-            semanticScore: 1 - distance, // Convert distance to similarity
-          };
-        })
-        .filter((c): c is { memory: Memory; semanticScore: number } => c !== null);
+      candidates = Array.from(bestScores.entries()).map(([id, semanticScore]) => ({
+        memory: memoriesById.get(id)!,
+        semanticScore,
+      }));
 
     } else {
       // ===== BRUTE-FORCE PATH =====
@@ -349,10 +399,16 @@ export class EmbeddingService {
 
       candidates = memories
         .filter(m => m.embedding)
-        .map(memory => ({
-          memory,
-          semanticScore: this.cosineSimilarity(queryEmbedding, memory.embedding!),
-        }));
+        .map(memory => {
+          const memoryEmbeddings = memory.chunkEmbeddings || [memory.embedding!];
+          let semanticScore = -Infinity;
+          for (const queryEmbedding of queryEmbeddings) {
+            for (const memoryEmbedding of memoryEmbeddings) {
+              semanticScore = Math.max(semanticScore, this.cosineSimilarity(queryEmbedding, memoryEmbedding));
+            }
+          }
+          return { memory, semanticScore };
+        });
     }
 
     // ===== HYBRID SCORING (SAME FOR BOTH PATHS) =====
@@ -424,6 +480,21 @@ export class EmbeddingService {
   }
 }
 
+/**
+ * Normalized mean of embeddings (memory-level vector for chunked memories)
+ */
+function meanEmbedding(embeddings: number[][]): number[] {
+  const mean = new Array(embeddings[0].length).fill(0);
+  for (const embedding of embeddings) {
+    for (let i = 0; i < mean.length; i++) {
+      mean[i] += embedding[i];
+    }
+  }
+
+  const norm = Math.sqrt(mean.reduce((sum, value) => sum + value * value, 0)) || 1;
+  return mean.map((value) => value / norm);
+}
+
 /**
  * Global singleton instance
  */
@@ -0,0 +1,91 @@
+/**
+ * Encrypted Memory Factory
+ * Builds encrypted Memory records from extracted messages
+ * Shared by live capture (SAVE_MESSAGE) and history import
+ */
+
+import type { ExtractedMessage, Memory, Platform } from '@engram/core';
+import { generateUUID } from '@engram/core';
+import type { CryptoService } from './crypto-service';
+
+/**
+ * Plaintext content kept alongside a new memory for enrichment and embedding
+ * Never persisted - callers must clear it with clearPlaintextContent()
+ */
+export interface PlaintextContent {
+  role: string;
+  text: string;
+  metadata?: any;
+}
+
+/**
+ * Encrypt an extracted message into a memory ready for storage
+ */
+export async function createEncryptedMemory(
+  extractedMessage: ExtractedMessage,
+  options: {
+    platform: Platform;
+    deviceId: string;
+    crypto: CryptoService;
+    masterKey: { key: Uint8Array };
+  }
+): Promise<{ memory: Memory; plaintextContent: PlaintextContent }> {
+  const { platform, deviceId, crypto, masterKey } = options;
+
+  // Encrypt the content using master key
+  const contentJson = JSON.stringify({
+    role: extractedMessage.role,
+    text: extractedMessage.content,
+    metadata: extractedMessage.metadata,
+  });
+
+  const encrypted = await crypto.encrypt(contentJson, masterKey.key);
+
+  // Create memory object with encrypted content
+  // IMPORTANT: We store encrypted content only. The 'content' field is a placeholder
+  // and will be populated by decrypting 'encryptedContent' when retrieving memories.
+  const memory: any = {
+    id: generateUUID(),
+    conversationId: extractedMessage.conversationId,
+    platform,
+    content: {
+      role: extractedMessage.role,
+      text: null as any, // SECURITY: null indicates encrypted content, use encryptedContent field
+      metadata: null as any, // SECURITY: null indicates encrypted metadata
+    },
+    encryptedContent: encrypted, // Store the complete encrypted blob with version and algorithm
+    timestamp: extractedMessage.timestamp || Date.now(),
+    vectorClock: {
+      [deviceId]: 1,
+    },
+    deviceId,
+    syncStatus: 'pending',
+    tags: [],
+  };
+
+  // Plaintext content for enrichment
+  // The plaintext is needed for LLM-based enrichment (keywords/tags extraction)
+  // It's only used temporarily and never persisted in plaintext
+  const plaintextContent: PlaintextContent = {
+    role: extractedMessage.role,
+    text: extractedMessage.content,
+    metadata: extractedMessage.metadata,
+  };
+
+  return { memory, plaintextContent };
+}
+
+/**
+ * SECURITY: Explicitly clear plaintext from memory
+ * Zero out the plaintext to minimize exposure window
+ */
+export function clearPlaintextContent(plaintextContent: PlaintextContent): void {
+  plaintextContent.text = '';
+  plaintextContent.role = 'user';
+  if (plaintextContent.metadata) {
+    Object.keys(plaintextContent.metadata).forEach(key => {
+      delete plaintextContent.metadata[key];
+    });
+  }
+  plaintextContent.metadata = undefined;
+}
@@ -13,6 +13,7 @@ import type {
 } from '@engram/core';
 import { getPremiumClient } from './premium-api-client';
 import { getEnrichmentRetryQueue } from './enrichment-retry-queue';
+import { getLLMClient, RateLimiter } from './llm-client';
 
 // Declare chrome for TypeScript
 declare const chrome: any;
@@ -34,44 +35,6 @@ interface EnrichmentResponse {
   context: string;
 }
 
-/**
- * Rate limiter for API calls
- * Prevents exceeding provider rate limits
- */
-class RateLimiter {
-  private calls: number[] = [];
-
-  constructor(
-    private maxCalls: number,
-    private windowMs: number
-  ) {}
-
-  /**
-   * Wait if necessary to respect rate limits
-   */
-  async acquire(): Promise<void> {
-    const now = Date.now();
-
-    // Remove calls outside the time window
-    this.calls = this.calls.filter(t => now - t < this.windowMs);
-
-    // If at limit, wait until oldest call expires
-    if (this.calls.length >= this.maxCalls) {
-      const oldestCall = this.calls[0];
-      const waitTime = this.windowMs - (now - oldestCall);
-
-      if (waitTime > 0) {
-        console.log(`[RateLimiter] Waiting ${waitTime}ms for rate limit`);
-        await new Promise(resolve => setTimeout(resolve, waitTime));
-        return this.acquire(); // Retry
-      }
-    }
-
-    // Record this call
-    this.calls.push(now);
-  }
-}
-
 /**
  * Enrichment Service
  *
@@ -455,14 +418,38 @@ Return valid JSON only:
   private async callLLM(prompt: string): Promise<EnrichmentResponse> {
     if ((this.config.provider as string) === 'premium') {
       return this.callPremium(prompt);
-    } else if (this.config.provider === 'openai') {
-      return this.callOpenAI(prompt);
-    } else if (this.config.provider === 'anthropic') {
-      return this.callAnthropic(prompt);
-    } else if (this.config.provider === 'local') {
-      return this.callLocal(prompt);
-    } else {
-      throw new Error(`Unknown provider: ${this.config.provider}`);
+    }
+
+    const { text, usage } = await getLLMClient().complete(this.config, {
+      system: 'You extract metadata from text. Respond only with JSON.',
+      prompt,
+      json: true,
+    });
+
+    // Track usage (local models report none)
+    if (usage) {
+      this.totalTokens += usage.totalTokens;
+      this.totalCost += this.config.provider === 'anthropic'
+        ? this.calculateAnthropicCost(usage.inputTokens, usage.outputTokens, this.config.model)
+        : this.calculateOpenAICost(usage.totalTokens, this.config.model);
+    }
+
+    return this.parseResponse(text);
+  }
+
+  /**
+   * Parse the metadata JSON from a completion
+   * Only OpenAI enforces JSON output, so fall back to the first {...} in the text
+   */
+  private parseResponse(content: string): EnrichmentResponse {
+    try {
+      return JSON.parse(content) as EnrichmentResponse;
+    } catch {
+      const jsonMatch = content.match(/\{[\s\S]*\}/);
+      if (!jsonMatch) {
+        throw new Error(`No JSON found in ${this.config.provider} response`);
+      }
+      return JSON.parse(jsonMatch[0]) as EnrichmentResponse;
     }
   }
 
@@ -499,171 +486,6 @@ Return valid JSON only:
     }
   }
 
-  /**
-   * Call OpenAI API
-   */
-  private async callOpenAI(prompt: string): Promise<EnrichmentResponse> {
-    const response = await fetch('https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${this.config.apiKey}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: this.config.model || 'gpt-4o-mini',
-        messages: [
-          {
-            role: 'system',
-            content: 'You extract metadata from text. Respond only with JSON.',
-          },
-          {
-            role: 'user',
-            content: prompt,
-          },
-        ],
-        response_format: { type: 'json_object' },
-        temperature: 0.3,
-      }),
-    });
-
-    if (!response.ok) {
-      const error = await response.text();
-      throw new Error(`OpenAI API error (${response.status}): ${error}`);
-    }
-
-    const data = await response.json();
-
-    // Track usage
-    if (data.usage) {
-      this.totalTokens += data.usage.total_tokens;
-      this.totalCost += this.calculateOpenAICost(data.usage.total_tokens, this.config.model);
-    }
-
-    const content = data.choices[0].message.content;
-    return JSON.parse(content) as EnrichmentResponse;
-  }
-
-  /**
-   * Call Anthropic API
-   */
-  private async callAnthropic(prompt: string): Promise<EnrichmentResponse> {
-    const response = await fetch('https://api.anthropic.com/v1/messages', {
-      method: 'POST',
-      headers: {
-        'x-api-key': this.config.apiKey!,
-        'anthropic-version': '2023-06-01',
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: this.config.model || 'claude-3-haiku-20240307',
-        max_tokens: 1024,
-        messages: [
-          {
-            role: 'user',
-            content: prompt,
-          },
-        ],
-        temperature: 0.3,
-      }),
-    });
-
-    if (!response.ok) {
-      const error = await response.text();
-      throw new Error(`Anthropic API error (${response.status}): ${error}`);
-    }
-
-    const data = await response.json();
-
-    // Track usage
-    if (data.usage) {
-      const totalTokens = data.usage.input_tokens + data.usage.output_tokens;
-      this.totalTokens += totalTokens;
-      this.totalCost += this.calculateAnthropicCost(
-        data.usage.input_tokens,
-        data.usage.output_tokens,
-        this.config.model
-      );
-    }
-
-    const content = data.content[0].text;
-
-    // Anthropic doesn't have structured output, so parse JSON from text
-    const jsonMatch = content.match(/\{[\s\S]*\}/);
-    if (!jsonMatch) {
-      throw new Error('No JSON found in Anthropic response');
-    }
-
-    return JSON.parse(jsonMatch[0]) as EnrichmentResponse;
-  }
-
-  /**
-   * Call local model (OpenAI-compatible endpoint)
-   * Works with Ollama, LM Studio, LocalAI, etc.
-   */
-  private async callLocal(prompt: string): Promise<EnrichmentResponse> {
-    if (!this.config.localEndpoint) {
-      throw new Error('Local endpoint not configured');
-    }
-
-    // Ensure endpoint ends with /chat/completions for OpenAI compatibility
-    let endpoint = this.config.localEndpoint.trim();
-    if (!endpoint.endsWith('/chat/completions')) {
-      // If endpoint is like http://localhost:11434/v1, append /chat/completions
-      if (endpoint.endsWith('/v1')) {
-        endpoint = `${endpoint}/chat/completions`;
-      } else if (endpoint.endsWith('/')) {
-        endpoint = `${endpoint}v1/chat/completions`;
-      } else {
-        endpoint = `${endpoint}/v1/chat/completions`;
-      }
-    }
-
-    const response = await fetch(endpoint, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: this.config.model || 'llama3.2',
-        messages: [
-          {
-            role: 'system',
-            content: 'You extract metadata from text. Respond only with JSON.',
-          },
-          {
-            role: 'user',
-            content: prompt,
-          },
-        ],
-        temperature: 0.3,
-        stream: false,
-      }),
-    });
-
-    if (!response.ok) {
-      const error = await response.text();
-      throw new Error(`Local model API error (${response.status}): ${error}`);
-    }
-
-    const data = await response.json();
-
-    // Local models don't have usage tracking, so we don't update costs
-    // The response format should match OpenAI's structure
-    const content = data.choices[0].message.content;
-
-    // Try to parse JSON from the response
-    try {
-      return JSON.parse(content) as EnrichmentResponse;
-    } catch {
-      // If not valid JSON, try to extract JSON from text
-      const jsonMatch = content.match(/\{[\s\S]*\}/);
-      if (!jsonMatch) {
-        throw new Error('No JSON found in local model response');
-      }
-      return JSON.parse(jsonMatch[0]) as EnrichmentResponse;
-    }
-  }
-
   /**
    * Calculate OpenAI API cost
    * Prices as of December 2025
@@ -0,0 +1,669 @@
+/**
+ * History Import Service
+ * Backfills memories from official ChatGPT and Claude data-export archives
+ *
+ * Flow:
+ * 1. Unpack conversations.json from the export archive and parse it into ExtractedMessage records
+ * 2. Split the conversations into batches, each sent to the background on its own
+ * 3. Drop messages already captured live (matched on role + normalized prose)
+ * 4. Encrypt through the same path as SAVE_MESSAGE and bulk-insert
+ * 5. Enrich, embed and index the new memories in the background, reporting progress
+ *
+ * A batch is saved only after the previous one is indexed, so the background
+ * holds the plaintext of at most two batches however large the export is.
+ */
+
+import type {
+  ExtractedCodeBlock,
+  ExtractedMessage,
+  Memory,
+  Platform,
+  Role,
+} from '@engram/core';
+import { uint8ArrayToString } from '@engram/core';
+import { unzipSync } from 'fflate';
+import type { CryptoService } from './crypto-service';
+import type { StorageService } from './storage';
+import { createEncryptedMemory, clearPlaintextContent, type PlaintextContent } from './encrypted-memory';
+import { createLogger } from './logger';
+
+const logger = createLogger('HistoryImport');
+
+/**
+ * Number of memories written per bulk insert
+ */
+const IMPORT_BATCH_SIZE = 100;
+
+/**
+ * Messages per batch sent to the background (a conversation is never split)
+ */
+export const IMPORT_MESSAGE_BATCH_SIZE = 200;
+
+/**
+ * Time an import may go without batches before a new one replaces it
+ * (the sidepanel that sent it was closed mid-import)
+ */
+export const IMPORT_ABANDON_MS = 60_000;
+
+/**
+ * Conversation list inside a data-export archive
+ */
+const CONVERSATIONS_FILE = 'conversations.json';
+
+/**
+ * Supported data-export formats
+ */
+export type HistoryImportSource = 'chatgpt' | 'claude';
+
+/**
+ * Conversation parsed from a data export
+ */
+export interface ImportedConversation {
+  id: string;
+  platform: Platform;
+  title?: string;
+  createdAt: number;
+  messages: ExtractedMessage[];
+}
+
+/**
+ * Position of a batch within one import
+ */
+export interface HistoryImportBatch {
+  index: number;
+  count: number;
+}
+
+/**
+ * Result of the save phase (returned before background indexing finishes)
+ */
+export interface HistoryImportResult {
+  source: HistoryImportSource;
+  conversations: number;
+  imported: number;
+  duplicates: number;
+}
+
+/**
+ * Background indexing progress
+ */
+export interface HistoryImportStatus {
+  state: 'idle' | 'indexing' | 'complete' | 'failed';
+  source?: HistoryImportSource;
+  current: number;
+  total: number;
+  failed: number;
+  error?: string;
+}
+
+/**
+ * Detect which service produced a conversations.json export
+ */
+export function detectImportSource(data: unknown): HistoryImportSource | null {
+  if (!Array.isArray(data) || data.length === 0) {
+    return null;
+  }
+
+  const first = data[0];
+  if (first && typeof first === 'object') {
+    if ('mapping' in first) return 'chatgpt';
+    if ('chat_messages' in first) return 'claude';
+  }
+
+  return null;
+}
+
+/**
+ * Parse a ChatGPT conversations.json export
+ * Follows the active branch (current_node -> root) so regenerated replies are not duplicated
+ */
+export function parseChatGPTExport(data: any[]): ImportedConversation[] {
+  const conversations: ImportedConversation[] = [];
+
+  for (const raw of data) {
+    const id = raw.conversation_id || raw.id;
+    const mapping = raw.mapping || {};
+    if (!id) continue;
+
+    // Walk from the leaf to the root, then reverse
+    const path: any[] = [];
+    const visited = new Set<string>();
+    let nodeId: string | null = raw.current_node ?? findLeaf(mapping);
+    while (nodeId && mapping[nodeId] && !visited.has(nodeId)) {
+      visited.add(nodeId);
+      path.push(mapping[nodeId]);
+      nodeId = mapping[nodeId].parent ?? null;
+    }
+    path.reverse();
+
+    const messages: ExtractedMessage[] = [];
+    for (const node of path) {
+      const message = node.message;
+      const role = message?.author?.role;
+      if (role !== 'user' && role !== 'assistant') continue;
+      if (message.metadata?.is_visually_hidden_from_conversation) continue;
+      if (message.recipient && message.recipient !== 'all') continue; // Tool calls
+
+      const { text, codeBlocks } = chatGPTContentToText(message.content);
+      if (!text && codeBlocks.length === 0) continue;
+
+      messages.push(toExtractedMessage(
+        id,
+        role,
+        text,
+        secondsToMillis(message.create_time) ?? secondsToMillis(raw.create_time),
+        messages.length,
+        codeBlocks
+      ));
+    }
+
+    if (messages.length > 0) {
+      conversations.push({
+        id,
+        platform: 'chatgpt',
+        title: raw.title || undefined,
+        createdAt: secondsToMillis(raw.create_time) ?? messages[0].timestamp ?? Date.now(),
+        messages,
+      });
+    }
+  }
+
+  return conversations;
+}
+
+/**
+ * Parse a Claude conversations.json export
+ */
+export function parseClaudeExport(data: any[]): ImportedConversation[] {
+  const conversations: ImportedConversation[] = [];
+
+  for (const raw of data) {
+    const id = raw.uuid;
+    if (!id || !Array.isArray(raw.chat_messages)) continue;
+
+    const messages: ExtractedMessage[] = [];
+    for (const message of raw.chat_messages) {
+      const role: Role | null = message.sender === 'human'
+        ? 'user'
+        : message.sender === 'assistant' ? 'assistant' : null;
+      if (!role) continue;
+
+      // Prefer structured content blocks, which exclude tool-use payloads
+      const markdown = Array.isArray(message.content) && message.content.length > 0
+        ? message.content
+          .filter((block: any) => block?.type === 'text' && typeof block.text === 'string')
+          .map((block: any) => block.text)
+          .join('\n\n')
+        : message.text || '';
+      const { text, codeBlocks } = splitCodeBlocks(markdown);
+      if (!text && codeBlocks.length === 0) continue;
+
+      messages.push(toExtractedMessage(
+        id,
+        role,
+        text,
+        isoToMillis(message.created_at) ?? isoToMillis(raw.created_at),
+        messages.length,
+        codeBlocks
+      ));
+    }
+
+    if (messages.length > 0) {
+      conversations.push({
+        id,
+        platform: 'claude',
+        title: raw.name || undefined,
+        createdAt: isoToMillis(raw.created_at) ?? messages[0].timestamp ?? Date.now(),
+        messages,
+      });
+    }
+  }
+
+  return conversations;
+}
+
+/**
+ * Read an uploaded export file: the data-export .zip as downloaded, or
+ * conversations.json already taken out of it
+ * Only conversations.json is inflated; attachments in the archive are skipped
+ */
+export function readHistoryExportFile(bytes: Uint8Array): string {
+  if (!isZipArchive(bytes)) {
+    return new TextDecoder().decode(bytes);
+  }
+
+  let files: Record<string, Uint8Array>;
+  try {
+    files = unzipSync(bytes, {
+      filter: (file) => file.name.split('/').pop() === CONVERSATIONS_FILE,
+    });
+  } catch {
+    throw new Error('Invalid export archive: could not be unzipped');
+  }
+
+  // Prefer the top-level file should the archive nest another copy
+  const [path] = Object.keys(files).sort((a, b) => a.split('/').length - b.split('/').length);
+  if (!path) {
+    throw new Error(`Unrecognized export archive: no ${CONVERSATIONS_FILE} found`);
+  }
+
+  return new TextDecoder().decode(files[path]);
+}
+
+/**
+ * Parse a conversations.json export from either service
+ */
+export function parseHistoryExport(raw: string): { source: HistoryImportSource; conversations: ImportedConversation[] } {
+  let data: unknown;
+  try {
+    data = JSON.parse(raw);
+  } catch {
+    throw new Error('Invalid export file: not valid JSON');
+  }
+
+  const source = detectImportSource(data);
+  if (!source) {
+    throw new Error('Unrecognized export file. Select a ChatGPT or Claude data export (.zip or conversations.json).');
+  }
+
+  const conversations = source === 'chatgpt'
+    ? parseChatGPTExport(data as any[])
+    : parseClaudeExport(data as any[]);
+
+  return { source, conversations };
+}
+
+/**
+ * Split parsed conversations into batches of about `maxMessages` messages
+ * A conversation larger than a batch gets a batch of its own
+ */
+export function batchConversations(
+  conversations: ImportedConversation[],
+  maxMessages: number = IMPORT_MESSAGE_BATCH_SIZE
+): ImportedConversation[][] {
+  const batches: ImportedConversation[][] = [];
+  let current: ImportedConversation[] = [];
+  let size = 0;
+
+  for (const conversation of conversations) {
+    if (current.length > 0 && size + conversation.messages.length > maxMessages) {
+      batches.push(current);
+      current = [];
+      size = 0;
+    }
+    current.push(conversation);
+    size += conversation.messages.length;
+  }
+  if (current.length > 0) {
+    batches.push(current);
+  }
+
+  return batches;
+}
+
+/**
+ * Fingerprint used to match imported messages against live captures
+ * Live capture stores DOM text (markdown rendered away, code sometimes stripped
+ * into metadata), so only the prose is compared, lowercased and without punctuation
+ */
+export function messageFingerprint(role: string, text: string, codeBlocks?: ExtractedCodeBlock[]): string {
+  let prose = text.replace(/```[\s\S]*?```/g, ' ');
+  for (const block of codeBlocks || []) {
+    if (block.code) {
+      prose = prose.split(block.code).join(' ');
+    }
+  }
+
+  const normalized = prose
+    .replace(/\]\([^)]*\)/g, ' ') // Markdown link targets
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim();
+
+  // Code-only messages fall back to their code
+  const body = normalized || (codeBlocks || []).map((block) => block.code.trim()).join('\n');
+  return `${role}:${body}`;
+}
+
+/**
+ * History Import Service
+ */
+export class HistoryImportService {
+  private status: HistoryImportStatus = { state: 'idle', current: 0, total: 0, failed: 0 };
+  private indexing: Promise<void> | null = null;
+  private indexed = 0; // Memories of earlier batches already indexed
+  private active = 0; // Batches being saved or indexed
+  private lastActivityAt = 0; // When a batch last arrived or finished
+
+  constructor(
+    private storage: StorageService,
+    private crypto: CryptoService
+  ) {}
+
+  /**
+   * Import a whole conversations.json export, batch by batch
+   * Resolves once memories are saved; enrichment and embedding of the last
+   * batch continue in the background
+   *
+   * @param raw - Contents of conversations.json
+   * @param masterKey - Master key used to encrypt memory content
+   * @param deviceId - Device the imported memories are attributed to
+   */
+  async importHistory(
+    raw: string,
+    masterKey: { key: Uint8Array },
+    deviceId: string
+  ): Promise<HistoryImportResult> {
+    const { source, conversations } = parseHistoryExport(raw);
+    logger.log(`Parsed ${conversations.length} ${source} conversations`);
+
+    const batches = batchConversations(conversations);
+    const result: HistoryImportResult = { source, conversations: 0, imported: 0, duplicates: 0 };
+
+    for (let index = 0; index < batches.length; index++) {
+      const batch = await this.importConversations(source, batches[index], masterKey, deviceId, {
+        index,
+        count: batches.length,
+      });
+      result.conversations += batch.conversations;
+      result.imported += batch.imported;
+      result.duplicates += batch.duplicates;
+    }
+
+    return result;
+  }
+
+  /**
+   * Import one batch of parsed conversations
+   * Waits for the previous batch to be indexed, then resolves once this one is
+   * saved; its enrichment and embedding continue in the background
+   *
+   * @param batch - Position of the batch; the first one starts a new import
+   */
+  async importConversations(
+    source: HistoryImportSource,
+    conversations: ImportedConversation[],
+    masterKey: { key: Uint8Array },
+    deviceId: string,
+    batch: HistoryImportBatch = { index: 0, count: 1 }
+  ): Promise<HistoryImportResult> {
+    if (batch.index === 0) {
+      if (this.status.state === 'indexing') {
+        if (!this.isAbandoned()) {
+          throw new Error('An import is already in progress');
+        }
+        logger.warn('Previous import stopped sending batches, starting over');
+      }
+      this.status = { state: 'indexing', source, current: 0, total: 0, failed: 0 };
+      this.indexed = 0;
+    }
+
+    this.startActivity();
+    try {
+      if (batch.index > 0) {
+        await this.indexing;
+        if (this.status.state !== 'indexing') {
+          throw new Error(this.status.error ? `Import stopped: ${this.status.error}` : 'No import in progress');
+        }
+      }
+
+      const pending: Array<{ memory: Memory; plaintextContent: PlaintextContent }> = [];
+      let duplicates = 0;
+
+      for (const conversation of conversations) {
+        // Each stored copy accounts for one turn, so repeated turns ("yes",
+        // "continue") beyond those already captured are still imported
+        const captured = await this.countExistingFingerprints(conversation.id, masterKey.key);
+
+        for (const message of conversation.messages) {
+          const fingerprint = messageFingerprint(message.role, message.content, message.metadata?.codeBlocks);
+          const remaining = captured.get(fingerprint) || 0;
+          if (remaining > 0) {
+            captured.set(fingerprint, remaining - 1);
+            duplicates++;
+            continue;
+          }
+
+          pending.push(await createEncryptedMemory(message, {
+            platform: conversation.platform,
+            deviceId,
+            crypto: this.crypto,
+            masterKey,
+          }));
+        }
+
+        // Keep the export's title for conversations never seen live
+        if (!(await this.storage.getConversation(conversation.id)) && conversation.title) {
+          await this.storage.saveConversation({
+            id: conversation.id,
+            platform: conversation.platform,
+            title: conversation.title,
+            createdAt: conversation.createdAt,
+            lastMessageAt: conversation.createdAt,
+            messageCount: 0,
+            tags: [],
+          });
+        }
+      }
+
+      for (let i = 0; i < pending.length; i += IMPORT_BATCH_SIZE) {
+        await this.storage.bulkSaveMemories(pending.slice(i, i + IMPORT_BATCH_SIZE).map((item) => item.memory));
+      }
+
+      logger.log(`Imported batch ${batch.index + 1}/${batch.count}: ${pending.length} memories (${duplicates} already captured)`);
+
+      this.status = { ...this.status, state: 'indexing', total: this.status.total + pending.length };
+      this.startActivity();
+      this.indexing = this.indexInBackground(pending, batch.index === batch.count - 1);
+
+      return {
+        source,
+        conversations: conversations.length,
+        imported: pending.length,
+        duplicates,
+      };
+    } finally {
+      this.endActivity();
+    }
+  }
+
+  /**
+   * Current background indexing progress
+   */
+  getStatus(): HistoryImportStatus {
+    return { ...this.status };
+  }
+
+  /**
+   * Wait for background indexing to finish
+   */
+  async waitForIndexing(): Promise<void> {
+    await this.indexing;
+  }
+
+  /**
+   * Enrich, embed and index one batch of imported memories, clearing plaintext as it goes
+   *
+   * @param last - Last batch of the import (completes the status)
+   */
+  private async indexInBackground(
+    pending: Array<{ memory: Memory; plaintextContent: PlaintextContent }>,
+    last: boolean
+  ): Promise<void> {
+    try {
+      const stats = await this.storage.processImportedMemories(pending, (current) => {
+        this.status = { ...this.status, current: this.indexed + current };
+      });
+
+      this.indexed += pending.length;
+      this.status = {
+        ...this.status,
+        state: last ? 'complete' : this.status.state,
+        current: this.indexed,
+        failed: this.status.failed + stats.failed,
+      };
+      logger.log(`Indexed ${stats.processed} imported memories (${stats.failed} failed)`);
+    } catch (error) {
+      logger.error('Background indexing of imported memories failed:', error);
+      this.status = { ...this.status, state: 'failed', error: (error as Error).message };
+    } finally {
+      pending.forEach(({ plaintextContent }) => clearPlaintextContent(plaintextContent));
+      this.endActivity();
+    }
+  }
+
+  private startActivity(): void {
+    this.active++;
+    this.lastActivityAt = Date.now();
+  }
+
+  private endActivity(): void {
+    this.active--;
+    this.lastActivityAt = Date.now();
+  }
+
+  /**
+   * An import counts as abandoned when nothing of it is being saved or indexed
+   * and no batch arrived for a while
+   */
+  private isAbandoned(): boolean {
+    return this.active === 0 && Date.now() - this.lastActivityAt >= IMPORT_ABANDON_MS;
+  }
+
+  /**
+   * Fingerprints of memories already stored for a conversation, with how many
+   * memories share each
+   */
+  private async countExistingFingerprints(conversationId: string, key: Uint8Array): Promise<Map<string, number>> {
+    const fingerprints = new Map<string, number>();
+    const existing = await this.storage.getMemories({ conversationId });
+
+    for (const memory of existing) {
+      try {
+        const encryptedContent = (memory as any).encryptedContent;
+        const content = encryptedContent
+          ? JSON.parse(uint8ArrayToString(await this.crypto.decrypt(encryptedContent, key)))
+          : memory.content;
+
+        if (content?.text) {
+          const fingerprint = messageFingerprint(content.role, content.text, content.metadata?.codeBlocks);
+          fingerprints.set(fingerprint, (fingerprints.get(fingerprint) || 0) + 1);
+        }
+      } catch (error) {
+        logger.warn(`Could not decrypt memory ${memory.id} for deduplication:`, error);
+      }
+    }
+
+    return fingerprints;
+  }
+}
+
+let historyImportInstance: HistoryImportService | null = null;
+
+/**
+ * Get singleton instance (keeps indexing status across messages)
+ */
+export function getHistoryImportService(storage: StorageService, crypto: CryptoService): HistoryImportService {
+  if (!historyImportInstance) {
+    historyImportInstance = new HistoryImportService(storage, crypto);
+  }
+  return historyImportInstance;
+}
+
+function toExtractedMessage(
+  conversationId: string,
+  role: Role,
+  text: string,
+  timestamp: number | undefined,
+  messageIndex: number,
+  codeBlocks: ExtractedCodeBlock[]
+): ExtractedMessage {
+  return {
+    role,
+    content: text,
+    timestamp,
+    conversationId,
+    metadata: {
+      messageIndex,
+      codeBlocks: codeBlocks.length > 0 ? codeBlocks : undefined,
+    },
+  };
+}
+
+/**
+ * Flatten ChatGPT message content into text and code blocks
+ */
+function chatGPTContentToText(content: any): { text: string; codeBlocks: ExtractedCodeBlock[] } {
+  if (!content) {
+    return { text: '', codeBlocks: [] };
+  }
+
+  switch (content.content_type) {
+    case 'text':
+    case 'multimodal_text': {
+      // Multimodal parts mix strings with image/file pointers - keep the text
+      const markdown = (content.parts || [])
+        .filter((part: unknown) => typeof part === 'string')
+        .join('\n\n');
+      return splitCodeBlocks(markdown);
+    }
+    case 'code': {
+      const language = content.language && content.language !== 'unknown' ? content.language : 'plaintext';
+      const code = (content.text || '').trim();
+      return { text: '', codeBlocks: code ? [{ language, code }] : [] };
+    }
+    default:
+      // Tool output, browsing displays, reasoning traces
+      return { text: '', codeBlocks: [] };
+  }
+}
+
+/**
+ * Pull fenced code blocks out of markdown text
+ * Code is kept only in the blocks, as the live adapters capture it
+ */
+function splitCodeBlocks(markdown: string): { text: string; codeBlocks: ExtractedCodeBlock[] } {
+  const codeBlocks: ExtractedCodeBlock[] = [];
+  const fence = /```([\w#+.-]*)[^\n]*\n([\s\S]*?)```/g;
+
+  const text = markdown
+    .replace(fence, (_match, language: string, code: string) => {
+      codeBlocks.push({ language: language || 'plaintext', code: code.trim() });
+      return '';
+    })
+    .replace(/\n{3,}/g, '\n\n') // Max 2 consecutive newlines
+    .trim();
+
+  return { text, codeBlocks };
+}
+
+/**
+ * Fallback leaf when current_node is missing: follow the last child, the most
+ * recent branch, from the root
+ */
+function findLeaf(mapping: Record<string, any>): string | null {
+  const root = Object.values(mapping).find((node: any) => !node.parent) as any;
+  let node = root;
+  while (node?.children?.length > 0 && mapping[node.children[node.children.length - 1]]) {
+    node = mapping[node.children[node.children.length - 1]];
+  }
+  return node?.id ?? null;
+}
+
+/**
+ * ZIP archives start with a local file header (or, when empty, the end record)
+ */
+function isZipArchive(bytes: Uint8Array): boolean {
+  return bytes.length >= 4 && bytes[0] === 0x50 && bytes[1] === 0x4b
+    && ((bytes[2] === 0x03 && bytes[3] === 0x04) || (bytes[2] === 0x05 && bytes[3] === 0x06));
+}
+
+function secondsToMillis(seconds: unknown): number | undefined {
+  return typeof seconds === 'number' && seconds > 0 ? Math.round(seconds * 1000) : undefined;
+}
+
+function isoToMillis(value: unknown): number | undefined {
+  if (typeof value !== 'string') return undefined;
+  const time = Date.parse(value);
+  return Number.isNaN(time) ? undefined : time;
+}
@@ -6,9 +6,21 @@
  *
  * Features:
  * - Sub-100µs search for 10K vectors (384-dim BGE-Small embeddings)
+ * - One index per embedding model: dimensions come from the model registry and
+ *   only vectors recorded with the index's model are added on build
  * - Incremental updates (add/remove/update)
- * - IndexedDB persistence
+ * - IndexedDB persistence: every add/remove/update is appended to an operation log
+ *   (`hnswLog` table); the whole graph is only snapshotted when the log grows past
+ *   COMPACTION_THRESHOLD entries. load() restores the snapshot and replays the log,
+ *   so operations since the last snapshot survive a service worker restart.
+ *   Snapshot generations alternate between two EdgeVec stores; the metadata naming
+ *   the current one and the log watermark it covers commit in one transaction
+ *   with the log truncation
+ * - Consistency checking against the memories table (orphaned and missing vectors)
  * - Dual-mode: brute-force for <1K, HNSW for 1K+
+ * - Chunked memories: one vector per text chunk, keyed `<memoryId>#<chunk>`
+ *   (chunk 0 is the bare memory ID, so indexes built before chunking load unchanged).
+ *   Search aggregates chunk scores back to one result per memory
  */
 
 // @ts-ignore - edgevec types not fully compatible
@@ -16,6 +28,7 @@ import { EdgeVec, EdgeVecConfig } from 'edgevec';
 import type { UUID, Timestamp, Memory, MemoryWithMemA } from '@engram/core';
 import type { EngramDatabase } from './storage';
 import { getCryptoService } from './crypto-service';
+import { embeddingModelOf, getEmbeddingModel, type EmbeddingModelSpec } from './embedding-models';
 
 /**
  * HNSW index entry for IndexedDB persistence
@@ -27,11 +40,35 @@ export interface HNSWIndexEntry {
   vectorCount: number;
 }
 
+/**
+ * Logged index operation (replayed on top of the last snapshot)
+ * Vectors are stored as plaintext, like the EdgeVec snapshot itself
+ */
+export interface HNSWLogEntry {
+  seq?: number;                  // Auto-incremented, orders replay
+  op: 'add' | 'update' | 'remove';
+  memoryId: UUID;
+  vectors?: Float32Array[];      // One per chunk (add/update)
+  timestamp: Timestamp;
+}
+
+/**
+ * Result of comparing the index with the memories table
+ */
+export interface HNSWConsistencyReport {
+  checked: number;               // Memories with vectors of the index's model
+  orphaned: UUID[];              // Indexed, but deleted or re-embedded with another model
+  missing: UUID[];               // Stored vectors that are not indexed
+  mismatched: UUID[];            // Vector keys out of sync between the ID maps
+  repaired: number;              // Memories fixed (when repairing)
+}
+
 /**
  * HNSW index statistics
  */
 export interface HNSWStats {
-  vectorCount: number;
+  vectorCount: number;  // Chunk vectors
+  memoryCount: number;  // Distinct memories
   memoryUsage: number;  // Estimated bytes
 }
 
@@ -39,8 +76,49 @@ export interface HNSWStats {
  * Search result from HNSW index
  */
 export interface HNSWSearchResult {
-  id: UUID;
-  distance: number;  // Cosine distance (0-1, lower is more similar)
+  id: UUID;          // Memory ID
+  distance: number;  // Cosine distance (0-1, lower is more similar) of the best chunk
+  chunk: number;     // Index of the best-matching chunk
+}
+
+/**
+ * How chunk scores combine into a memory's rank
+ * - max: best chunk wins (precise, favours a focused passage)
+ * - sum: similarities of all matching chunks add up (favours memories covering the topic repeatedly)
+ */
+export type ChunkAggregation = 'max' | 'sum';
+
+/**
+ * Separator between memory ID and chunk index in vector keys
+ */
+const CHUNK_KEY_SEPARATOR = '#';
+
+/**
+ * Vectors fetched per requested result when memories have several chunks
+ */
+const CHUNK_SEARCH_FACTOR = 4;
+
+/**
+ * Logged operations that trigger a full snapshot on the next persist()
+ */
+export const COMPACTION_THRESHOLD = 500;
+
+/**
+ * Vector key for a memory chunk
+ */
+export function chunkVectorKey(memoryId: UUID, chunk: number): string {
+  return chunk === 0 ? memoryId : `${memoryId}${CHUNK_KEY_SEPARATOR}${chunk}`;
+}
+
+/**
+ * Split a vector key into memory ID and chunk index
+ */
+export function parseChunkVectorKey(key: string): { memoryId: UUID; chunk: number } {
+  const separator = key.lastIndexOf(CHUNK_KEY_SEPARATOR);
+  if (separator === -1) {
+    return { memoryId: key, chunk: 0 };
+  }
+  return { memoryId: key.slice(0, separator), chunk: Number(key.slice(separator + 1)) };
 }
 
 /**
@@ -50,18 +128,25 @@ export interface HNSWSearchResult {
  */
 export class HNSWIndexService {
   private index: EdgeVec | null = null;
-  private vectorIdMap: Map<UUID, number> = new Map(); // Memory ID → EdgeVec vector ID
-  private indexToIdMap: Map<number, UUID> = new Map(); // EdgeVec vector ID → Memory ID
+  private vectorIdMap: Map<string, number> = new Map(); // Chunk key → EdgeVec vector ID
+  private indexToIdMap: Map<number, string> = new Map(); // EdgeVec vector ID → Chunk key
+  private chunkCounts: Map<UUID, number> = new Map(); // Memory ID → indexed chunk count
   private isBuilding: boolean = false;
   private readonly dbName = 'engram-hnsw-index'; // IndexedDB name for EdgeVec persistence
   private masterKeyProvider?: () => { key: Uint8Array } | null; // For embedding decryption
   private embeddingCache: Map<string, Float32Array> = new Map(); // Decrypted embedding cache
 
+  // Operation log state
+  private db: EngramDatabase | null = null; // Set by load()/persist(); operations are logged once set
+  private logSeq: number = 0;               // Last log entry reflected in the index
+  private logLength: number = 0;            // Log entries since the last snapshot
+  private snapshotStale: boolean = true;    // Index changed in ways the log does not record (build, no snapshot yet)
+
   // Static WASM initialization state (shared across all instances)
   private static wasmInitialized: boolean = false;
   private static wasmInitPromise: Promise<void> | null = null;
 
-  // HNSW configuration for 384-dim BGE-Small embeddings
+  // HNSW configuration (dimensions follow the embedding model)
   private readonly config = {
     dimensions: 384,      // BGE-Small embedding size
     metric: 'cosine',     // Match current similarity metric
@@ -69,6 +154,20 @@ export class HNSWIndexService {
     efConstruction: 200,  // Build quality (higher = better recall, slower build)
   };
 
+  /**
+   * @param model - Embedding model whose vectors this index holds
+   */
+  constructor(private readonly model: EmbeddingModelSpec = getEmbeddingModel()) {
+    this.config.dimensions = model.dimensions;
+  }
+
+  /**
+   * Embedding model whose vectors this index holds
+   */
+  getModel(): EmbeddingModelSpec {
+    return this.model;
+  }
+
   /**
    * Initialize EdgeVec WASM module
    * This must be called before creating any EdgeVec instances in service worker context
@@ -180,6 +279,47 @@ export class HNSWIndexService {
     return null;
   }
 
+  /**
+   * Decrypt a memory's chunk embeddings
+   * Memories without chunk embeddings are indexed with their single embedding
+   */
+  private async decryptChunkEmbeddings(memory: MemoryWithMemA): Promise<Float32Array[]> {
+    const cacheKey = `${memory.id}${CHUNK_KEY_SEPARATOR}chunks`;
+    let flat = this.embeddingCache.get(cacheKey) || null;
+
+    if (!flat && memory.encryptedChunkEmbeddings) {
+      const masterKey = this.masterKeyProvider?.();
+      if (!masterKey) {
+        console.error('[HNSW] No master key for decryption');
+        return [];
+      }
+
+      try {
+        const crypto = await getCryptoService();
+        const bytes = await crypto.decrypt(memory.encryptedChunkEmbeddings, masterKey.key);
+        flat = new Float32Array(bytes.buffer, bytes.byteOffset, bytes.byteLength / 4);
+      } catch (err) {
+        console.error(`[HNSW] Chunk decryption failed for ${memory.id}:`, err);
+        return [];
+      }
+    } else if (!flat && memory.chunkEmbeddings) {
+      flat = memory.chunkEmbeddings;
+    }
+
+    if (!flat) {
+      const embedding = await this.decryptEmbedding(memory);
+      return embedding ? [embedding] : [];
+    }
+
+    this.embeddingCache.set(cacheKey, flat);
+    const chunks: Float32Array[] = [];
+    const dimensions = this.config.dimensions;
+    for (let offset = 0; offset + dimensions <= flat.length; offset += dimensions) {
+      chunks.push(flat.slice(offset, offset + dimensions));
+    }
+    return chunks;
+  }
+
   /**
    * Clear embedding cache (call on logout)
    */
@@ -211,10 +351,12 @@ export class HNSWIndexService {
       // Initialize WASM module first (required in service worker context)
       await HNSWIndexService.initializeWasm();
 
-      // Reset state
+      // Reset state (the next persist() writes a full snapshot)
       this.index = null;
       this.vectorIdMap.clear();
       this.indexToIdMap.clear();
+      this.chunkCounts.clear();
+      this.snapshotStale = true;
 
       // Don't create index for empty input - index should only be ready when it has vectors
       if (memories.length === 0) {
@@ -223,33 +365,28 @@ export class HNSWIndexService {
       }
 
       // Initialize EdgeVec index with EdgeVecConfig
-      const config = new EdgeVecConfig(this.config.dimensions);
-      config.metric = this.config.metric;
-      config.m = this.config.m;
-      config.ef_construction = this.config.efConstruction;
-
-      this.index = new EdgeVec(config);
+      this.index = this.createIndex();
 
       let addedCount = 0;
       // Add vectors to index
       for (let i = 0; i < memories.length; i++) {
         const memory = memories[i] as MemoryWithMemA;
 
-        // Decrypt embedding if encrypted
-        const embedding = await this.decryptEmbedding(memory);
+        // Vectors of another model live in another index
+        if (embeddingModelOf(memory) !== this.model.id) {
+          continue;
+        }
+
+        // Decrypt embeddings if encrypted (one per chunk for long memories)
+        const embeddings = await this.decryptChunkEmbeddings(memory);
 
-        if (!embedding || embedding.length !== 384) {
+        if (embeddings.length === 0 || embeddings.some((e) => e.length !== this.config.dimensions)) {
           console.warn(`[HNSW] Skipping ${memory.id} - no valid embedding`);
           continue;
         }
 
-        // Insert returns the auto-generated vector ID
-        const vectorId = this.index.insert(embedding);
-        addedCount++;
-
-        // Store ID mappings
-        this.vectorIdMap.set(memory.id, vectorId);
-        this.indexToIdMap.set(vectorId, memory.id);
+        this.insertChunks(memory.id, embeddings);
+        addedCount += embeddings.length;
 
         // Report progress
         if (onProgress && (i % 100 === 0 || i === memories.length - 1)) {
@@ -263,6 +400,7 @@ export class HNSWIndexService {
       this.index = null;
       this.vectorIdMap.clear();
       this.indexToIdMap.clear();
+      this.chunkCounts.clear();
       throw error;
     } finally {
       this.isBuilding = false;
@@ -273,40 +411,44 @@ export class HNSWIndexService {
    * Add single vector to index
    *
    * @param memoryId - Memory UUID
-   * @param embedding - 384-dim embedding vector
+   * @param embedding - Embedding vector of the index's model
    */
   async add(memoryId: UUID, embedding: Float32Array): Promise<void> {
+    await this.addChunks(memoryId, [embedding]);
+  }
+
+  /**
+   * Add (or replace) all chunk vectors of a memory
+   *
+   * @param memoryId - Memory UUID
+   * @param embeddings - One embedding per chunk
+   */
+  async addChunks(memoryId: UUID, embeddings: Float32Array[]): Promise<void> {
     // Initialize WASM module if not already done
     await HNSWIndexService.initializeWasm();
 
     if (!this.index) {
       console.log('[HNSW] Index not initialized, creating new index');
-      const config = new EdgeVecConfig(this.config.dimensions);
-      config.metric = this.config.metric;
-      config.m = this.config.m;
-      config.ef_construction = this.config.efConstruction;
-      this.index = new EdgeVec(config);
+      this.index = this.createIndex();
     }
 
-    if (embedding.length !== 384) {
-      throw new Error(`[HNSW] Invalid embedding dimension: ${embedding.length}, expected 384`);
+    for (const embedding of embeddings) {
+      if (embedding.length !== this.config.dimensions) {
+        throw new Error(`[HNSW] Invalid embedding dimension: ${embedding.length}, expected ${this.config.dimensions}`);
+      }
     }
 
     try {
       // Check if already exists (update case)
-      if (this.vectorIdMap.has(memoryId)) {
-        await this.update(memoryId, embedding);
+      if (this.chunkCounts.has(memoryId)) {
+        await this.update(memoryId, embeddings);
         return;
       }
 
-      // Insert returns auto-generated vector ID
-      const vectorId = this.index.insert(embedding);
-
-      // Store ID mappings
-      this.vectorIdMap.set(memoryId, vectorId);
-      this.indexToIdMap.set(vectorId, memoryId);
+      this.insertChunks(memoryId, embeddings);
+      await this.appendLog({ op: 'add', memoryId, vectors: embeddings });
 
-      console.log(`[HNSW] Added vector: ${memoryId}`);
+      console.log(`[HNSW] Added ${embeddings.length} vector(s): ${memoryId}`);
     } catch (error) {
       console.error(`[HNSW] Error adding vector ${memoryId}:`, error);
       throw error;
@@ -314,7 +456,7 @@ export class HNSWIndexService {
   }
 
   /**
-   * Remove vector from index
+   * Remove all vectors of a memory from the index
    *
    * @param memoryId - Memory UUID to remove
    */
@@ -324,19 +466,15 @@ export class HNSWIndexService {
       return;
     }
 
-    const vectorId = this.vectorIdMap.get(memoryId);
-    if (vectorId === undefined) {
+    if (!this.chunkCounts.has(memoryId)) {
       console.warn(`[HNSW] Vector not found: ${memoryId}`);
       return;
     }
 
     try {
       // Soft delete from index (marks as tombstone)
-      this.index.softDelete(vectorId);
-
-      // Remove ID mappings
-      this.vectorIdMap.delete(memoryId);
-      this.indexToIdMap.delete(vectorId);
+      this.deleteChunks(memoryId);
+      await this.appendLog({ op: 'remove', memoryId });
 
       console.log(`[HNSW] Removed vector: ${memoryId}`);
     } catch (error) {
@@ -346,36 +484,31 @@ export class HNSWIndexService {
   }
 
   /**
-   * Update vector in index (remove + add)
+   * Update vectors in index (remove + add)
    *
    * @param memoryId - Memory UUID
-   * @param embedding - New 384-dim embedding vector
+   * @param embedding - New embedding vector, or one per chunk
    */
-  async update(memoryId: UUID, embedding: Float32Array): Promise<void> {
+  async update(memoryId: UUID, embedding: Float32Array | Float32Array[]): Promise<void> {
     if (!this.index) {
       console.warn('[HNSW] Index not initialized, skipping update');
       return;
     }
 
-    if (embedding.length !== 384) {
-      throw new Error(`[HNSW] Invalid embedding dimension: ${embedding.length}, expected 384`);
+    const embeddings = Array.isArray(embedding) ? embedding : [embedding];
+    for (const vector of embeddings) {
+      if (vector.length !== this.config.dimensions) {
+        throw new Error(`[HNSW] Invalid embedding dimension: ${vector.length}, expected ${this.config.dimensions}`);
+      }
     }
 
     try {
-      // Soft delete old vector if exists
-      const oldVectorId = this.vectorIdMap.get(memoryId);
-      if (oldVectorId !== undefined) {
-        this.index.softDelete(oldVectorId);
-        this.vectorIdMap.delete(memoryId);
-        this.indexToIdMap.delete(oldVectorId);
-      }
+      // Soft delete old vectors if they exist
+      this.deleteChunks(memoryId);
 
-      // Insert new vector (returns auto-generated ID)
-      const newVectorId = this.index.insert(embedding);
-
-      // Update ID mappings
-      this.vectorIdMap.set(memoryId, newVectorId);
-      this.indexToIdMap.set(newVectorId, memoryId);
+      // Insert new vectors (returns auto-generated IDs)
+      this.insertChunks(memoryId, embeddings);
+      await this.appendLog({ op: 'update', memoryId, vectors: embeddings });
 
       console.log(`[HNSW] Updated vector: ${memoryId}`);
     } catch (error) {
@@ -385,23 +518,25 @@ export class HNSWIndexService {
   }
 
   /**
-   * Search for k nearest neighbors
+   * Search for the k nearest memories
    *
-   * @param queryEmbedding - Query vector (384-dim)
-   * @param k - Number of results to return
-   * @returns Array of {id, distance} results, sorted by distance (ascending)
+   * @param queryEmbedding - Query vector from the index's model
+   * @param k - Number of memories to return
+   * @param aggregation - How chunk scores combine per memory
+   * @returns Array of {id, distance, chunk} results, best first
    */
   async search(
     queryEmbedding: Float32Array,
-    k: number = 5
+    k: number = 5,
+    aggregation: ChunkAggregation = 'max'
   ): Promise<HNSWSearchResult[]> {
     if (!this.index) {
       console.warn('[HNSW] Index not initialized, returning empty results');
       return [];
     }
 
-    if (queryEmbedding.length !== 384) {
-      throw new Error(`[HNSW] Invalid query embedding dimension: ${queryEmbedding.length}, expected 384`);
+    if (queryEmbedding.length !== this.config.dimensions) {
+      throw new Error(`[HNSW] Invalid query embedding dimension: ${queryEmbedding.length}, expected ${this.config.dimensions}`);
     }
 
     if (this.vectorIdMap.size === 0) {
@@ -410,23 +545,41 @@ export class HNSWIndexService {
     }
 
     try {
+      // Over-fetch when memories have several chunks so k distinct memories come back
+      const hasChunks = this.vectorIdMap.size > this.chunkCounts.size;
+      const vectorK = hasChunks ? Math.min(this.vectorIdMap.size, k * CHUNK_SEARCH_FACTOR) : k;
+
       // Search HNSW index
-      const results = this.index.search(queryEmbedding, k);
-
-      // Convert vector IDs to memory IDs
-      return results
-        .map((result: any) => {
-          const memoryId = this.indexToIdMap.get(result.id);
-          if (!memoryId) {
-            console.warn(`[HNSW] Memory ID not found for vector ${result.id}`);
-            return null;
-          }
-          return {
-            id: memoryId,
-            distance: result.distance,
-          };
-        })
-        .filter((r: any) => r !== null) as HNSWSearchResult[];
+      const results = this.index.search(queryEmbedding, vectorK);
+
+      // Convert vector IDs to memory IDs, aggregating chunks
+      const byMemory = new Map<UUID, HNSWSearchResult & { score: number }>();
+      for (const result of results as Array<{ id: number; distance: number }>) {
+        const key = this.indexToIdMap.get(result.id);
+        if (!key) {
+          console.warn(`[HNSW] Memory ID not found for vector ${result.id}`);
+          continue;
+        }
+
+        const { memoryId, chunk } = parseChunkVectorKey(key);
+        const similarity = 1 - result.distance;
+        const existing = byMemory.get(memoryId);
+
+        if (!existing) {
+          byMemory.set(memoryId, { id: memoryId, distance: result.distance, chunk, score: similarity });
+          continue;
+        }
+        if (result.distance < existing.distance) {
+          existing.distance = result.distance;
+          existing.chunk = chunk;
+        }
+        existing.score = aggregation === 'sum' ? existing.score + similarity : 1 - existing.distance;
+      }
+
+      return Array.from(byMemory.values())
+        .sort((a, b) => b.score - a.score)
+        .slice(0, k)
+        .map(({ id, distance, chunk }) => ({ id, distance, chunk }));
     } catch (error) {
       console.error('[HNSW] Error during search:', error);
       return [];
@@ -434,37 +587,81 @@ export class HNSWIndexService {
   }
 
   /**
-   * Persist index to IndexedDB using EdgeVec's native save
+   * Make the index durable
+   * Operations are already in the log, so this only writes a full snapshot when
+   * the log has grown past COMPACTION_THRESHOLD or the index was rebuilt
    *
    * @param db - Dexie database instance
    */
   async persist(db: EngramDatabase): Promise<void> {
+    this.db = db;
+
+    if (!this.index) {
+      console.warn('[HNSW] No index to persist');
+      return;
+    }
+
+    if (this.snapshotStale || this.logLength >= COMPACTION_THRESHOLD) {
+      await this.compact(db);
+    }
+  }
+
+  /**
+   * Snapshot the whole index using EdgeVec's native save and truncate the log
+   *
+   * @param db - Dexie database instance
+   */
+  async compact(db: EngramDatabase): Promise<void> {
+    this.db = db;
+
     if (!this.index) {
       console.warn('[HNSW] No index to persist');
       return;
     }
 
     try {
-      console.log('[HNSW] Persisting index to IndexedDB...');
+      console.log(`[HNSW] Compacting ${this.logLength} logged operations into a snapshot...`);
 
-      // Save EdgeVec index to its own IndexedDB storage
-      await this.index.save(this.dbName);
+      // The snapshot supersedes every entry logged so far (including another
+      // index's entries after a model switch)
+      const lastEntry = await db.hnswLog.orderBy('seq').last();
+      const logSeq = Math.max(this.logSeq, lastEntry?.seq || 0);
 
-      // Save ID mappings to our database
+      // Write to the store the current metadata does not point to
+      const current = await db.hnswIndex.get('metadata');
+      const generation = (current?.data?.generation || 0) + 1;
+
+      // Capture ID mappings before saving so they match the serialized graph
       const idMappings = {
         vectorIdMap: Array.from(this.vectorIdMap.entries()),
         indexToIdMap: Array.from(this.indexToIdMap.entries()),
+        embeddingModel: this.model.id,
+        embeddingDimensions: this.config.dimensions,
+        logSeq, // Watermark: entries up to here are in the snapshot
+        generation,
       };
+      const vectorCount = this.vectorIdMap.size;
 
-      const timestamp = Date.now();
-      await db.hnswIndex.put({
-        key: 'metadata',
-        data: idMappings,
-        lastUpdated: timestamp,
-        vectorCount: this.vectorIdMap.size,
+      // Save EdgeVec index to its own IndexedDB storage
+      await this.index.save(this.snapshotName(generation));
+
+      // Switch to the new snapshot and drop the log it covers at once; a crash
+      // before this leaves the previous snapshot and its log in place.
+      // Entries logged while saving are above the watermark and kept
+      await db.transaction('rw', db.hnswIndex, db.hnswLog, async () => {
+        await db.hnswIndex.put({
+          key: 'metadata',
+          data: idMappings,
+          lastUpdated: Date.now(),
+          vectorCount,
+        });
+        await db.hnswLog.where('seq').belowOrEqual(logSeq).delete();
       });
+      this.logSeq = Math.max(this.logSeq, logSeq);
+      this.logLength = 0;
+      this.snapshotStale = false;
 
-      console.log(`[HNSW] Index persisted successfully: ${this.vectorIdMap.size} vectors`);
+      console.log(`[HNSW] Index persisted successfully: ${vectorCount} vectors`);
     } catch (error) {
       console.error('[HNSW] Error persisting index:', error);
       throw error;
@@ -472,51 +669,159 @@ export class HNSWIndexService {
   }
 
   /**
-   * Load index from IndexedDB using EdgeVec's native load
+   * Load index from IndexedDB using EdgeVec's native load, then replay
+   * operations logged since the snapshot
    *
    * @param db - Dexie database instance
    * @returns true if index loaded successfully, false otherwise
    */
   async load(db: EngramDatabase): Promise<boolean> {
+    this.db = db;
+    this.snapshotStale = true;
+
     try {
       console.log('[HNSW] Loading index from IndexedDB...');
 
       // Initialize WASM module first (required before loading)
       await HNSWIndexService.initializeWasm();
 
-      // Try to load EdgeVec index from its own IndexedDB storage
-      try {
-        this.index = await EdgeVec.load(this.dbName);
-      } catch (loadError) {
-        console.log('[HNSW] No saved EdgeVec index found');
-        return false;
-      }
-
-      // Load ID mappings from our database
+      // Load ID mappings from our database; they name the snapshot to load
       const metadataEntry = await db.hnswIndex.get('metadata');
 
       if (!metadataEntry) {
         console.log('[HNSW] No saved metadata found');
-        this.index = null;
         return false;
       }
 
       // Restore ID mappings
       const idMappings = metadataEntry.data;
+
+      // Indexes persisted before the model registry hold BGE-Small vectors
+      if (embeddingModelOf(idMappings) !== this.model.id) {
+        console.log(`[HNSW] Saved index holds ${embeddingModelOf(idMappings)} vectors, expected ${this.model.id}`);
+        return false;
+      }
+
+      // Try to load EdgeVec index from its own IndexedDB storage
+      // (snapshots written before generations have none)
+      try {
+        this.index = await EdgeVec.load(this.snapshotName(idMappings.generation || 0));
+      } catch (loadError) {
+        console.log('[HNSW] No saved EdgeVec index found');
+        return false;
+      }
+
       this.vectorIdMap = new Map(idMappings.vectorIdMap);
       this.indexToIdMap = new Map(idMappings.indexToIdMap);
+      this.chunkCounts.clear();
+      for (const key of this.vectorIdMap.keys()) {
+        const { memoryId } = parseChunkVectorKey(key);
+        this.chunkCounts.set(memoryId, (this.chunkCounts.get(memoryId) || 0) + 1);
+      }
+
+      // Snapshots written before the operation log have no sequence number
+      this.logSeq = idMappings.logSeq || 0;
+      const replayed = await this.replayLog(db);
+      this.snapshotStale = false;
 
-      console.log(`[HNSW] Index loaded successfully: ${this.vectorIdMap.size} vectors`);
+      console.log(`[HNSW] Index loaded successfully: ${this.vectorIdMap.size} vectors (${replayed} logged operations replayed)`);
       return true;
     } catch (error) {
       console.error('[HNSW] Error loading index:', error);
       this.index = null;
       this.vectorIdMap.clear();
       this.indexToIdMap.clear();
+      this.chunkCounts.clear();
       return false;
     }
   }
 
+  /**
+   * Compare the index with the memories table and optionally repair drift
+   * - Orphaned: indexed memories that were deleted or re-embedded with another model
+   * - Missing: memories with vectors of this model that are not indexed
+   * - Mismatched: memories whose vector keys disagree between the ID maps
+   *
+   * Missing and mismatched memories are re-added from their stored (decrypted)
+   * vectors, so repairing them requires the master key.
+   *
+   * @param memories - All stored memories
+   * @param repair - Fix the drift (default) or only report it
+   */
+  async checkConsistency(memories: Memory[], repair: boolean = true): Promise<HNSWConsistencyReport> {
+    const expected = new Map<UUID, MemoryWithMemA>();
+    for (const memory of memories as MemoryWithMemA[]) {
+      if ((memory.embedding || (memory as any).encryptedEmbedding) && embeddingModelOf(memory) === this.model.id) {
+        expected.set(memory.id, memory);
+      }
+    }
+
+    const orphaned = Array.from(this.chunkCounts.keys()).filter((id) => !expected.has(id));
+    const missing = Array.from(expected.keys()).filter((id) => !this.chunkCounts.has(id));
+    const mismatched = new Set<UUID>();
+
+    for (const [memoryId, count] of this.chunkCounts) {
+      for (let chunk = 0; chunk < count; chunk++) {
+        const key = chunkVectorKey(memoryId, chunk);
+        const vectorId = this.vectorIdMap.get(key);
+        if (vectorId === undefined || this.indexToIdMap.get(vectorId) !== key) {
+          mismatched.add(memoryId);
+        }
+      }
+    }
+
+    // Vector IDs whose key points elsewhere can surface in search results
+    const strayVectorIds = Array.from(this.indexToIdMap.entries())
+      .filter(([vectorId, key]) => this.vectorIdMap.get(key) !== vectorId)
+      .map(([vectorId]) => vectorId);
+
+    const report: HNSWConsistencyReport = {
+      checked: expected.size,
+      orphaned,
+      missing,
+      mismatched: Array.from(mismatched).filter((id) => expected.has(id)),
+      repaired: 0,
+    };
+
+    if (orphaned.length + missing.length + mismatched.size + strayVectorIds.length === 0) {
+      return report;
+    }
+
+    console.warn(
+      `[HNSW] Index drift: ${orphaned.length} orphaned, ${missing.length} missing, ` +
+      `${report.mismatched.length} mismatched, ${strayVectorIds.length} stray vectors`
+    );
+
+    if (!repair) {
+      return report;
+    }
+
+    for (const vectorId of strayVectorIds) {
+      this.index?.softDelete(vectorId);
+      this.indexToIdMap.delete(vectorId);
+    }
+
+    for (const memoryId of orphaned) {
+      await this.remove(memoryId);
+      report.repaired++;
+    }
+
+    for (const memoryId of [...missing, ...report.mismatched]) {
+      const memory = expected.get(memoryId)!;
+      const embeddings = await this.decryptChunkEmbeddings(memory);
+      if (embeddings.length === 0 || embeddings.some((e) => e.length !== this.config.dimensions)) {
+        console.warn(`[HNSW] Cannot repair ${memoryId} - no valid embedding`);
+        continue;
+      }
+
+      await this.addChunks(memoryId, embeddings);
+      report.repaired++;
+    }
+
+    console.log(`[HNSW] Repaired ${report.repaired} memories`);
+    return report;
+  }
+
   /**
    * Check if index is ready for search
    */
@@ -529,17 +834,111 @@ export class HNSWIndexService {
    */
   getStats(): HNSWStats {
     const vectorCount = this.vectorIdMap.size;
+    const memoryCount = this.chunkCounts.size;
 
     // Estimate memory usage:
-    // - Each vector: ~4 bytes/dim * 384 dims = 1.5 KB
+    // - Each vector: ~4 bytes/dim (1.5 KB for 384 dims)
     // - Graph edges: ~64 bytes per vector (M=16, ~4 bytes per edge)
     // - ID mappings: ~48 bytes per vector (2 Maps)
-    const estimatedMemoryPerVector = 1536 + 64 + 48; // ~1.6 KB per vector
+    const estimatedMemoryPerVector = this.config.dimensions * 4 + 64 + 48; // ~1.6 KB per 384-dim vector
     const memoryUsage = vectorCount * estimatedMemoryPerVector;
 
     return {
       vectorCount,
+      memoryCount,
       memoryUsage,
     };
   }
+
+  private createIndex(): EdgeVec {
+    const config = new EdgeVecConfig(this.config.dimensions);
+    config.metric = this.config.metric;
+    config.m = this.config.m;
+    config.ef_construction = this.config.efConstruction;
+    return new EdgeVec(config);
+  }
+
+  /**
+   * Insert a memory's chunk vectors and record their keys
+   */
+  private insertChunks(memoryId: UUID, embeddings: Float32Array[]): void {
+    embeddings.forEach((embedding, chunk) => {
+      // Insert returns the auto-generated vector ID
+      const vectorId = this.index!.insert(embedding);
+      const key = chunkVectorKey(memoryId, chunk);
+      this.vectorIdMap.set(key, vectorId);
+      this.indexToIdMap.set(vectorId, key);
+    });
+    this.chunkCounts.set(memoryId, embeddings.length);
+  }
+
+  /**
+   * Soft delete a memory's chunk vectors and forget their keys
+   */
+  private deleteChunks(memoryId: UUID): void {
+    const count = this.chunkCounts.get(memoryId) || 0;
+    for (let chunk = 0; chunk < count; chunk++) {
+      const key = chunkVectorKey(memoryId, chunk);
+      const vectorId = this.vectorIdMap.get(key);
+      if (vectorId === undefined) continue;
+      this.index!.softDelete(vectorId);
+      this.vectorIdMap.delete(key);
+      this.indexToIdMap.delete(vectorId);
+    }
+    this.chunkCounts.delete(memoryId);
+  }
+
+  /**
+   * EdgeVec storage name of a snapshot generation
+   * Generations alternate between two names, so a snapshot being written never
+   * overwrites the one the metadata points to
+   */
+  private snapshotName(generation: number): string {
+    return generation % 2 === 0 ? this.dbName : `${this.dbName}-alt`;
+  }
+
+  /**
+   * Append an operation to the log (after it was applied in memory)
+   * Skipped until a snapshot exists that the log can be replayed on
+   */
+  private async appendLog(entry: Omit<HNSWLogEntry, 'seq' | 'timestamp'>): Promise<void> {
+    if (!this.db || this.snapshotStale) {
+      return;
+    }
+
+    const seq = await this.db.hnswLog.add({ ...entry, timestamp: Date.now() });
+    this.logSeq = Math.max(this.logSeq, seq);
+    this.logLength++;
+  }
+
+  /**
+   * Apply operations logged after the loaded snapshot
+   *
+   * @returns Number of operations replayed
+   */
+  private async replayLog(db: EngramDatabase): Promise<number> {
+    const entries = await db.hnswLog.where('seq').above(this.logSeq).toArray();
+
+    for (const entry of entries) {
+      this.logSeq = Math.max(this.logSeq, entry.seq!);
+
+      if (entry.op === 'remove') {
+        this.deleteChunks(entry.memoryId);
+        continue;
+      }
+
+      // Entries logged by an index of another model
+      const vectors = entry.vectors || [];
+      if (vectors.length === 0 || vectors.some((v) => v.length !== this.config.dimensions)) {
+        console.warn(`[HNSW] Skipping logged ${entry.op} of ${entry.memoryId} - invalid vectors`);
+        continue;
+      }
+
+      this.deleteChunks(entry.memoryId);
+      this.insertChunks(entry.memoryId, vectors);
+    }
+
+    this.logLength = entries.length;
+    return entries.length;
+  }
 }
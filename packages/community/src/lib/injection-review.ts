@@ -0,0 +1,77 @@
+/**
+ * Injection Review
+ *
+ * Settings and helpers for reviewing injected context before a prompt is sent.
+ * The review popover lists the matched memories, lets the user uncheck or pin
+ * memories and edit the context block, and sends once the user confirms or
+ * the auto-accept timeout passes.
+ */
+
+import type { UUID } from '@engram/core';
+import type { AssembledContext } from './context-builder';
+
+/**
+ * chrome.storage.local key of the review settings
+ */
+export const INJECTION_REVIEW_KEY = 'injectionReview';
+
+/**
+ * Review settings
+ */
+export interface InjectionReviewConfig {
+  enabled: boolean;            // Pause sending to review the context
+  autoAcceptSeconds: number;   // Send after this long without interaction (0 waits for the user)
+}
+
+export const DEFAULT_INJECTION_REVIEW_CONFIG: InjectionReviewConfig = {
+  enabled: true,
+  autoAcceptSeconds: 10,
+};
+
+/**
+ * Outcome of a review
+ */
+export type InjectionReviewResult =
+  | { action: 'send'; prompt: string; memoryIds: UUID[] }   // Send this prompt (the original prompt when context was removed) citing these memories
+  | { action: 'cancel' };                // Back to editing, nothing is sent
+
+/**
+ * Load the review settings
+ */
+export async function getInjectionReviewConfig(): Promise<InjectionReviewConfig> {
+  try {
+    const result = await chrome.storage.local.get(INJECTION_REVIEW_KEY);
+    return { ...DEFAULT_INJECTION_REVIEW_CONFIG, ...(result[INJECTION_REVIEW_KEY] || {}) };
+  } catch (error) {
+    console.error('[InjectionReview] Failed to load settings:', error);
+    return { ...DEFAULT_INJECTION_REVIEW_CONFIG };
+  }
+}
+
+/**
+ * Save review settings
+ */
+export async function saveInjectionReviewConfig(updates: Partial<InjectionReviewConfig>): Promise<InjectionReviewConfig> {
+  if (updates.autoAcceptSeconds !== undefined && (!Number.isFinite(updates.autoAcceptSeconds) || updates.autoAcceptSeconds < 0)) {
+    throw new Error('Auto-accept timeout must be 0 or more seconds');
+  }
+
+  const config = { ...(await getInjectionReviewConfig()), ...updates };
+  await chrome.storage.local.set({ [INJECTION_REVIEW_KEY]: config });
+  return config;
+}
+
+/**
+ * Build the prompt to send from an assembled context and the user's edit of its block
+ *
+ * The block appears once in the enriched prompt (it was substituted into the
+ * template's prompt layout), so the edit replaces it in place. An emptied block
+ * sends the original prompt.
+ */
+export function applyContextEdit(prompt: string, context: AssembledContext, editedText: string): string {
+  if (!context.enrichedPrompt || !context.text || !editedText.trim()) {
+    return prompt;
+  }
+
+  return context.enrichedPrompt.replace(context.text, () => editedText.trim());
+}
@@ -0,0 +1,203 @@
+/**
+ * Injection Templates
+ *
+ * User-editable layout of the context injected into prompts, per platform.
+ * Different models respond better to differently structured context (Claude to
+ * XML tags, ChatGPT to Markdown), so each platform has its own default and can
+ * be overridden from the settings page.
+ *
+ * A template has three parts:
+ * - `prompt`:  the message that is sent — `{{prompt}}`, `{{context}}`
+ * - `context`: the injected block — `{{items}}`, `{{platform}}`, `{{count}}`
+ * - `item`:    one memory (or summary) — `{{ref}}`, `{{id}}`, `{{text}}`,
+ *   `{{date}}`, `{{platform}}`, `{{keywords}}`, `{{summary}}`, `{{links}}`, `{{score}}`
+ *
+ * Unknown placeholders are left as they are.
+ */
+
+import type { Platform } from '@engram/core';
+
+/**
+ * Marker that starts the injected block of the plain preset
+ */
+export const CONTEXT_MARKER = '[Engram Context]';
+
+/**
+ * chrome.storage.local key of the user's templates
+ */
+export const INJECTION_TEMPLATES_KEY = 'injectionTemplates';
+
+export type InjectionPreset = 'xml' | 'markdown' | 'plain' | 'custom';
+
+/**
+ * Layout of the injected context
+ */
+export interface InjectionTemplate {
+  preset: InjectionPreset;     // Preset the template started from ('custom' once edited)
+  prompt: string;              // Sent message
+  context: string;             // Injected block
+  item: string;                // One line of the block
+}
+
+/**
+ * Values of an item line
+ */
+export interface InjectionItemValues {
+  ref: number;
+  id: string;                  // Cited memory IDs, comma separated
+  text: string;
+  date: string;                // YYYY-MM-DD of the (most recent) memory
+  platform: string;            // Platforms the memories came from
+  keywords: string;
+  summary: string;             // memA context sentence
+  links: string;               // Reasons of the memory's links
+  score: string;
+}
+
+/**
+ * Built-in presets
+ */
+export const INJECTION_PRESETS: Record<Exclude<InjectionPreset, 'custom'>, InjectionTemplate> = {
+  xml: {
+    preset: 'xml',
+    prompt: '{{context}}\n\n{{prompt}}',
+    context: '<engram_context description="Notes from my earlier conversations. Use them if relevant; cite them by ref.">\n{{items}}\n</engram_context>',
+    item: '<memory ref="{{ref}}" id="{{id}}" date="{{date}}" platform="{{platform}}">{{text}}</memory>',
+  },
+  markdown: {
+    preset: 'markdown',
+    prompt: '{{prompt}}\n\n{{context}}',
+    context: '---\n**Context from my earlier conversations** (use if relevant):\n{{items}}',
+    item: '- [{{ref}}] {{text}} _({{date}}, {{id}})_',
+  },
+  plain: {
+    preset: 'plain',
+    prompt: '{{prompt}}\n\n{{context}}',
+    context: `${CONTEXT_MARKER}:\n{{items}}`,
+    item: '[{{ref}} | {{id}}] {{text}}',
+  },
+};
+
+/**
+ * Preset used for each platform until the user picks another
+ */
+export const PLATFORM_DEFAULT_PRESETS: Record<Platform, Exclude<InjectionPreset, 'custom'>> = {
+  chatgpt: 'markdown',
+  claude: 'xml',
+  perplexity: 'plain',
+  gemini: 'markdown',
+  deepseek: 'markdown',
+  copilot: 'markdown',
+  mistral: 'markdown',
+  generic: 'plain',
+};
+
+/**
+ * Default template of a platform
+ */
+export function getDefaultTemplate(platform: Platform): InjectionTemplate {
+  return { ...INJECTION_PRESETS[PLATFORM_DEFAULT_PRESETS[platform]] };
+}
+
+/**
+ * Replace `{{name}}` placeholders (unknown names are kept)
+ */
+export function renderTemplate<T extends { [K in keyof T]: string | number }>(template: string, values: T): string {
+  return template.replace(/\{\{(\w+)\}\}/g, (match, name: string) =>
+    Object.prototype.hasOwnProperty.call(values, name) ? String(values[name as keyof T]) : match
+  );
+}
+
+/**
+ * Check that a template keeps the prompt, the block and the memory text
+ *
+ * @returns Problems, empty when the template is usable
+ */
+export function validateTemplate(template: InjectionTemplate): string[] {
+  const errors: string[] = [];
+
+  if (!template.prompt.includes('{{prompt}}')) {
+    errors.push('Prompt layout must contain {{prompt}}');
+  }
+  if (!template.prompt.includes('{{context}}')) {
+    errors.push('Prompt layout must contain {{context}}');
+  }
+  if (!template.context.includes('{{items}}')) {
+    errors.push('Context layout must contain {{items}}');
+  }
+  if (!template.item.includes('{{text}}')) {
+    errors.push('Memory layout must contain {{text}}');
+  }
+
+  return errors;
+}
+
+/**
+ * Load the template for a platform (user override or default)
+ * Invalid overrides fall back to the default so a broken edit never drops the prompt
+ */
+export async function getInjectionTemplate(platform: Platform): Promise<InjectionTemplate> {
+  try {
+    const templates = await getInjectionTemplates();
+    const template = templates[platform];
+    if (template && validateTemplate(template).length === 0) {
+      return template;
+    }
+  } catch (error) {
+    console.error('[InjectionTemplates] Failed to load templates:', error);
+  }
+
+  return getDefaultTemplate(platform);
+}
+
+/**
+ * Load all user overrides
+ */
+export async function getInjectionTemplates(): Promise<Partial<Record<Platform, InjectionTemplate>>> {
+  const result = await chrome.storage.local.get(INJECTION_TEMPLATES_KEY);
+  return result[INJECTION_TEMPLATES_KEY] || {};
+}
+
+/**
+ * Every template a block sent from a platform may have been rendered with
+ * (the platform's current one first, then other overrides and the presets)
+ */
+export async function getKnownInjectionTemplates(platform: Platform): Promise<InjectionTemplate[]> {
+  let overrides: InjectionTemplate[] = [];
+  try {
+    overrides = Object.values(await getInjectionTemplates()).filter(
+      (template): template is InjectionTemplate => !!template && validateTemplate(template).length === 0
+    );
+  } catch (error) {
+    console.error('[InjectionTemplates] Failed to load templates:', error);
+  }
+
+  const current = await getInjectionTemplate(platform);
+  return [current, ...overrides, ...Object.values(INJECTION_PRESETS)].filter(
+    (template, index, all) =>
+      all.findIndex((other) =>
+        other.prompt === template.prompt && other.context === template.context && other.item === template.item
+      ) === index
+  );
+}
+
+/**
+ * Save the template for a platform (null restores the default)
+ */
+export async function saveInjectionTemplate(platform: Platform, template: InjectionTemplate | null): Promise<void> {
+  if (template) {
+    const errors = validateTemplate(template);
+    if (errors.length > 0) {
+      throw new Error(errors.join('; '));
+    }
+  }
+
+  const templates = await getInjectionTemplates();
+  if (template) {
+    templates[platform] = template;
+  } else {
+    delete templates[platform];
+  }
+
+  await chrome.storage.local.set({ [INJECTION_TEMPLATES_KEY]: templates });
+}
@@ -0,0 +1,376 @@
+/**
+ * Keyword Index Service
+ *
+ * Blinded inverted index with BM25 scoring for lexical search over encrypted memories.
+ * Complements the HNSW vector index: exact identifiers, error strings and function
+ * names are found even when embeddings miss them.
+ *
+ * Privacy:
+ * - Tokens are never stored in plaintext. Each token is replaced by an HMAC-SHA256
+ *   search tag keyed with a search key derived from the master key
+ * - Queries are blinded the same way, so lookups never need the plaintext vocabulary
+ *
+ * Storage:
+ * - keywordPostings: one row per (blinded tag, memory) with its term frequency,
+ *   so indexing a memory never rewrites the postings of other memories
+ * - keywordDocs: memory → document length and its blinded tags (for removal)
+ */
+
+import type { UUID } from '@engram/core';
+import type { EngramDatabase } from './storage';
+import { getCryptoService } from './crypto-service';
+
+/**
+ * Posting of one blinded token in one memory
+ */
+export interface KeywordPostingEntry {
+  tag: string;      // HMAC search tag (base64)
+  memoryId: UUID;
+  tf: number;       // Term frequency in this memory
+}
+
+/**
+ * Per-memory document statistics
+ */
+export interface KeywordDocEntry {
+  memoryId: UUID;
+  length: number;   // Token count (for BM25 length normalization)
+  tags: string[];   // Distinct blinded tags in this memory
+}
+
+/**
+ * Lexical search result
+ */
+export interface KeywordSearchResult {
+  id: UUID;
+  score: number;  // BM25 score (higher is more relevant)
+}
+
+/**
+ * BM25 parameters (standard Okapi defaults)
+ */
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+/**
+ * Tokens longer than this are dropped (base64 blobs, minified code)
+ */
+const MAX_TOKEN_LENGTH = 64;
+
+/**
+ * Sentinel token whose tag identifies the key the index was built with
+ */
+const KEY_CHECK_TOKEN = 'engram-keyword-index';
+const KEY_CHECK_METADATA_KEY = 'keywordIndexKeyCheck';
+
+/**
+ * Common English words that carry no lexical signal
+ */
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'but', 'by', 'for', 'if', 'in', 'into',
+  'is', 'it', 'of', 'on', 'or', 'so', 'such', 'that', 'the', 'their', 'then', 'there',
+  'these', 'they', 'this', 'to', 'was', 'will', 'with', 'you', 'i', 'me', 'my', 'we',
+]);
+
+/**
+ * Split text into index tokens
+ *
+ * Identifiers are kept whole and also split into their parts, so
+ * `ERR_CONNECTION_REFUSED`, `getUserById` and `os.path.join` match both
+ * exactly and by component (`connection`, `user`, `join`).
+ */
+export function tokenize(text: string): string[] {
+  const tokens: string[] = [];
+  const raw = text.match(/[\p{L}\p{N}_$]+(?:[.\-:][\p{L}\p{N}_$]+)*/gu) || [];
+
+  for (const word of raw) {
+    const lower = word.toLowerCase();
+    const parts = new Set<string>([lower]);
+
+    // Dotted paths, kebab-case, namespaces
+    if (/[.\-:]/.test(word)) {
+      word.split(/[.\-:]+/).forEach((part) => parts.add(part.toLowerCase()));
+    }
+
+    // snake_case and camelCase components
+    for (const segment of word.split(/[.\-:_$]+/)) {
+      const camelParts = segment.match(/[A-Z]+(?![a-z])|[A-Z]?[a-z]+|\p{N}+|[^\p{ASCII}]+/gu) || [];
+      if (camelParts.length > 1 || segment !== word) {
+        camelParts.forEach((part) => parts.add(part.toLowerCase()));
+        parts.add(segment.toLowerCase());
+      }
+    }
+
+    for (const part of parts) {
+      if (part && part.length <= MAX_TOKEN_LENGTH && !STOP_WORDS.has(part)) {
+        tokens.push(part);
+      }
+    }
+  }
+
+  return tokens;
+}
+
+/**
+ * Keyword Index Service
+ */
+export class KeywordIndexService {
+  private masterKeyProvider?: () => { key: Uint8Array } | null;
+  private searchKeyCache: { masterKey: Uint8Array; searchKey: Uint8Array } | null = null;
+  private stats: { docCount: number; totalLength: number } | null = null;
+
+  // Re-indexing removes a memory's postings before writing new ones, so writes are serialized
+  private writeChain: Promise<void> = Promise.resolve();
+
+  constructor(private db: EngramDatabase) {}
+
+  /**
+   * Set master key provider for search key derivation
+   */
+  setMasterKeyProvider(provider: () => { key: Uint8Array } | null): void {
+    this.masterKeyProvider = provider;
+    this.searchKeyCache = null;
+  }
+
+  /**
+   * Whether tokens can be blinded (requires master key)
+   */
+  isReady(): boolean {
+    return !!this.masterKeyProvider?.();
+  }
+
+  /**
+   * Index (or re-index) a memory's text
+   */
+  async indexDocument(memoryId: UUID, text: string): Promise<void> {
+    const searchKey = await this.getSearchKey();
+    if (!searchKey) {
+      console.warn(`[KeywordIndex] No master key, skipping index for ${memoryId}`);
+      return;
+    }
+
+    const tokens = tokenize(text);
+    const termFrequencies = await this.blindTermFrequencies(tokens, searchKey);
+
+    await this.enqueueWrite(async () => {
+      await this.removeDocumentUnsafe(memoryId);
+
+      const tags = Array.from(termFrequencies.keys());
+      const entries: KeywordPostingEntry[] = tags.map((tag) => ({ tag, memoryId, tf: termFrequencies.get(tag)! }));
+
+      await this.db.transaction('rw', this.db.keywordPostings, this.db.keywordDocs, async () => {
+        await this.db.keywordPostings.bulkPut(entries);
+        await this.db.keywordDocs.put({ memoryId, length: tokens.length, tags });
+      });
+
+      if (this.stats) {
+        this.stats.docCount++;
+        this.stats.totalLength += tokens.length;
+      }
+    });
+  }
+
+  /**
+   * Remove a memory from the index
+   */
+  async removeDocument(memoryId: UUID): Promise<void> {
+    await this.enqueueWrite(() => this.removeDocumentUnsafe(memoryId));
+  }
+
+  /**
+   * Rank memories for a query with BM25
+   */
+  async search(query: string, limit: number = 100): Promise<KeywordSearchResult[]> {
+    const searchKey = await this.getSearchKey();
+    if (!searchKey) {
+      return [];
+    }
+
+    const queryTokens = Array.from(new Set(tokenize(query)));
+    if (queryTokens.length === 0) {
+      return [];
+    }
+
+    // Wait for pending writes so results reflect the latest saves
+    await this.writeChain;
+
+    const stats = await this.getStats();
+    if (stats.docCount === 0) {
+      return [];
+    }
+
+    const crypto = await getCryptoService();
+    const tags = await Promise.all(
+      queryTokens.map(async (token) => (await crypto.generateSearchTag(token, searchKey)).tag)
+    );
+    const entries = await this.db.keywordPostings.where('tag').anyOf(tags).toArray();
+    if (entries.length === 0) {
+      return [];
+    }
+
+    const postingsByTag = new Map<string, KeywordPostingEntry[]>();
+    for (const entry of entries) {
+      const postings = postingsByTag.get(entry.tag);
+      if (postings) {
+        postings.push(entry);
+      } else {
+        postingsByTag.set(entry.tag, [entry]);
+      }
+    }
+
+    // Document lengths for every candidate
+    const candidateIds = Array.from(new Set(entries.map((entry) => entry.memoryId)));
+    const docs = await this.db.keywordDocs.bulkGet(candidateIds);
+    const lengths = new Map<UUID, number>();
+    candidateIds.forEach((id, i) => lengths.set(id, docs[i]?.length ?? 0));
+
+    const avgLength = stats.totalLength / stats.docCount || 1;
+    const scores = new Map<UUID, number>();
+
+    for (const postings of postingsByTag.values()) {
+      const docFrequency = postings.length;
+      const idf = Math.log(1 + (stats.docCount - docFrequency + 0.5) / (docFrequency + 0.5));
+
+      for (const { memoryId, tf } of postings) {
+        const length = lengths.get(memoryId) ?? avgLength;
+        const norm = tf + BM25_K1 * (1 - BM25_B + BM25_B * (length / avgLength));
+        scores.set(memoryId, (scores.get(memoryId) || 0) + idf * ((tf * (BM25_K1 + 1)) / norm));
+      }
+    }
+
+    return Array.from(scores.entries())
+      .map(([id, score]) => ({ id, score }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit);
+  }
+
+  /**
+   * IDs of all indexed memories
+   */
+  async getIndexedIds(): Promise<Set<UUID>> {
+    await this.writeChain;
+    const docs = await this.db.keywordDocs.toArray();
+    return new Set(docs.map((doc) => doc.memoryId));
+  }
+
+  /**
+   * Check the index was built with the current master key
+   * Clears it when the key changed (e.g. another account logged in), since
+   * tags blinded under a different key can never match again
+   *
+   * @returns false if the index was cleared and must be rebuilt
+   */
+  async ensureKeyMatches(): Promise<boolean> {
+    const searchKey = await this.getSearchKey();
+    if (!searchKey) {
+      return true;
+    }
+
+    const crypto = await getCryptoService();
+    const { tag } = await crypto.generateSearchTag(KEY_CHECK_TOKEN, searchKey);
+    const stored = await this.db.metadata.get(KEY_CHECK_METADATA_KEY);
+
+    if (stored?.value === tag) {
+      return true;
+    }
+
+    if (stored) {
+      console.warn('[KeywordIndex] Master key changed, clearing keyword index');
+    }
+    await this.clear();
+    await this.db.metadata.put({ key: KEY_CHECK_METADATA_KEY, value: tag });
+    return false;
+  }
+
+  /**
+   * Drop the whole index (e.g. after the master key changes)
+   */
+  async clear(): Promise<void> {
+    await this.enqueueWrite(async () => {
+      await this.db.keywordPostings.clear();
+      await this.db.keywordDocs.clear();
+      this.stats = { docCount: 0, totalLength: 0 };
+    });
+  }
+
+  /**
+   * Remove a memory's postings (caller must hold the write chain)
+   */
+  private async removeDocumentUnsafe(memoryId: UUID): Promise<void> {
+    const doc = await this.db.keywordDocs.get(memoryId);
+    if (!doc) return;
+
+    await this.db.transaction('rw', this.db.keywordPostings, this.db.keywordDocs, async () => {
+      await this.db.keywordPostings.bulkDelete(doc.tags.map((tag): [string, UUID] => [tag, memoryId]));
+      await this.db.keywordDocs.delete(memoryId);
+    });
+
+    if (this.stats) {
+      this.stats.docCount--;
+      this.stats.totalLength -= doc.length;
+    }
+  }
+
+  /**
+   * Blind tokens and count term frequencies per tag
+   */
+  private async blindTermFrequencies(tokens: string[], searchKey: Uint8Array): Promise<Map<string, number>> {
+    const crypto = await getCryptoService();
+    const tagByToken = new Map<string, string>();
+    const frequencies = new Map<string, number>();
+
+    for (const token of tokens) {
+      let tag = tagByToken.get(token);
+      if (!tag) {
+        tag = (await crypto.generateSearchTag(token, searchKey)).tag;
+        tagByToken.set(token, tag);
+      }
+      frequencies.set(tag, (frequencies.get(tag) || 0) + 1);
+    }
+
+    return frequencies;
+  }
+
+  /**
+   * Corpus statistics, loaded once and maintained incrementally
+   */
+  private async getStats(): Promise<{ docCount: number; totalLength: number }> {
+    if (!this.stats) {
+      const docs = await this.db.keywordDocs.toArray();
+      this.stats = {
+        docCount: docs.length,
+        totalLength: docs.reduce((sum, doc) => sum + doc.length, 0),
+      };
+    }
+    return this.stats;
+  }
+
+  /**
+   * Derive (and cache) the search key for the current master key
+   */
+  private async getSearchKey(): Promise<Uint8Array | null> {
+    const masterKey = this.masterKeyProvider?.();
+    if (!masterKey) {
+      return null;
+    }
+
+    if (this.searchKeyCache?.masterKey !== masterKey.key) {
+      const crypto = await getCryptoService();
+      this.searchKeyCache = {
+        masterKey: masterKey.key,
+        searchKey: await crypto.deriveSearchKey(masterKey.key),
+      };
+    }
+
+    return this.searchKeyCache.searchKey;
+  }
+
+  private enqueueWrite(operation: () => Promise<void>): Promise<void> {
+    const next = this.writeChain.then(operation);
+    // Keep the chain alive after a failed write
+    this.writeChain = next.catch((error) => {
+      console.error('[KeywordIndex] Index write failed:', error);
+    });
+    return next;
+  }
+}
@@ -226,6 +226,7 @@ export class LinkDetectionService {
       {
         maxResults: 20,
         threshold: 0.5, // Minimum semantic similarity
+        chunkQuery: true, // Match long memories topic by topic
       }
     );
 
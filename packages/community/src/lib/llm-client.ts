@@ -0,0 +1,308 @@
+/**
+ * LLM Client
+ *
+ * Chat completions from the configured enrichment provider (OpenAI, Anthropic
+ * or an OpenAI-compatible local model), shared by memory enrichment and
+ * context summarization.
+ *
+ * Every request is aborted after a timeout. A 429 response puts the provider
+ * on hold for its Retry-After delay: calls made meanwhile fail at once with a
+ * rate-limit error, so background enrichment backs off through its retry
+ * queue and prompt-time callers fall back without waiting.
+ *
+ * @module llm-client
+ */
+
+import type { EnrichmentConfig } from '@engram/core';
+
+/**
+ * Client configuration
+ */
+export const LLM_CLIENT_CONFIG = {
+  DEFAULT_TIMEOUT_MS: 60000,        // Abort requests after this unless the caller sets its own
+  DEFAULT_RETRY_AFTER_MS: 60000,    // Hold after a 429 without a Retry-After header
+  DEFAULT_MAX_TOKENS: 1024,         // Anthropic requires max_tokens
+  TEMPERATURE: 0.3,
+};
+
+/**
+ * Providers reached over HTTP (the premium API has its own client)
+ */
+export type CompletionProvider = 'openai' | 'anthropic' | 'local';
+
+/**
+ * A single-turn chat completion
+ */
+export interface CompletionRequest {
+  system?: string;             // System instruction
+  prompt: string;              // User message
+  maxTokens?: number;          // Cap on generated tokens
+  json?: boolean;              // Ask for a JSON object where the provider supports it
+  timeoutMs?: number;          // Abort after this (default LLM_CLIENT_CONFIG.DEFAULT_TIMEOUT_MS)
+}
+
+/**
+ * Completion text with token usage (hosted providers only)
+ */
+export interface CompletionResult {
+  text: string;
+  usage?: {
+    inputTokens: number;
+    outputTokens: number;
+    totalTokens: number;
+  };
+}
+
+const PROVIDER_LABELS: Record<CompletionProvider, string> = {
+  openai: 'OpenAI',
+  anthropic: 'Anthropic',
+  local: 'Local model',
+};
+
+/**
+ * Rate limiter for API calls
+ * Prevents exceeding provider rate limits
+ */
+export class RateLimiter {
+  private calls: number[] = [];
+
+  constructor(
+    private maxCalls: number,
+    private windowMs: number
+  ) {}
+
+  /**
+   * Wait if necessary to respect rate limits
+   */
+  async acquire(): Promise<void> {
+    const now = Date.now();
+
+    // Remove calls outside the time window
+    this.calls = this.calls.filter(t => now - t < this.windowMs);
+
+    // If at limit, wait until oldest call expires
+    if (this.calls.length >= this.maxCalls) {
+      const oldestCall = this.calls[0];
+      const waitTime = this.windowMs - (now - oldestCall);
+
+      if (waitTime > 0) {
+        console.log(`[RateLimiter] Waiting ${waitTime}ms for rate limit`);
+        await new Promise(resolve => setTimeout(resolve, waitTime));
+        return this.acquire(); // Retry
+      }
+    }
+
+    // Record this call
+    this.calls.push(now);
+  }
+}
+
+/**
+ * Build the chat completions URL of an OpenAI-compatible local server
+ * Accepts the server root, its /v1 base or the full endpoint
+ * (Ollama, LM Studio, LocalAI, etc.)
+ */
+export function resolveLocalEndpoint(localEndpoint: string): string {
+  const endpoint = localEndpoint.trim();
+  if (endpoint.endsWith('/chat/completions')) {
+    return endpoint;
+  }
+  if (endpoint.endsWith('/v1')) {
+    return `${endpoint}/chat/completions`;
+  }
+  if (endpoint.endsWith('/')) {
+    return `${endpoint}v1/chat/completions`;
+  }
+  return `${endpoint}/v1/chat/completions`;
+}
+
+/**
+ * LLM Client
+ */
+export class LLMClient {
+  // Provider -> time until which it asked us to hold off
+  private heldUntil: Map<CompletionProvider, number> = new Map();
+
+  /**
+   * Run a chat completion against the configured provider
+   *
+   * @throws On HTTP errors, timeouts and while the provider is rate limited
+   */
+  async complete(config: EnrichmentConfig, request: CompletionRequest): Promise<CompletionResult> {
+    const provider = config.provider as string;
+    if (provider !== 'openai' && provider !== 'anthropic' && provider !== 'local') {
+      throw new Error(`Unsupported provider: ${provider}`);
+    }
+
+    const label = PROVIDER_LABELS[provider];
+    const heldUntil = this.heldUntil.get(provider) ?? 0;
+    if (Date.now() < heldUntil) {
+      throw new Error(`${label} rate limit reached, retry in ${Math.ceil((heldUntil - Date.now()) / 1000)}s`);
+    }
+
+    const { url, init } = buildRequest(provider, config, request);
+    const response = await fetchWithTimeout(
+      url,
+      init,
+      request.timeoutMs ?? LLM_CLIENT_CONFIG.DEFAULT_TIMEOUT_MS,
+      label
+    );
+
+    if (!response.ok) {
+      if (response.status === 429) {
+        this.heldUntil.set(provider, Date.now() + retryAfterMs(response));
+      }
+      const error = await response.text();
+      throw new Error(`${label} API error (${response.status}): ${error}`);
+    }
+
+    const data = await response.json();
+    return provider === 'anthropic' ? parseAnthropic(data) : parseOpenAI(data, provider === 'openai');
+  }
+}
+
+let llmClientInstance: LLMClient | null = null;
+
+/**
+ * Get singleton instance (keeps rate-limit holds across callers)
+ */
+export function getLLMClient(): LLMClient {
+  if (!llmClientInstance) {
+    llmClientInstance = new LLMClient();
+  }
+  return llmClientInstance;
+}
+
+/**
+ * Provider-specific URL, headers and body
+ */
+function buildRequest(
+  provider: CompletionProvider,
+  config: EnrichmentConfig,
+  request: CompletionRequest
+): { url: string; init: RequestInit } {
+  const messages = [
+    ...(request.system ? [{ role: 'system', content: request.system }] : []),
+    { role: 'user', content: request.prompt },
+  ];
+
+  switch (provider) {
+    case 'openai':
+      return {
+        url: 'https://api.openai.com/v1/chat/completions',
+        init: {
+          method: 'POST',
+          headers: {
+            'Authorization': `Bearer ${config.apiKey}`,
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({
+            model: config.model || 'gpt-4o-mini',
+            messages,
+            ...(request.json ? { response_format: { type: 'json_object' } } : {}),
+            ...(request.maxTokens ? { max_tokens: request.maxTokens } : {}),
+            temperature: LLM_CLIENT_CONFIG.TEMPERATURE,
+          }),
+        },
+      };
+
+    case 'anthropic':
+      return {
+        url: 'https://api.anthropic.com/v1/messages',
+        init: {
+          method: 'POST',
+          headers: {
+            'x-api-key': config.apiKey!,
+            'anthropic-version': '2023-06-01',
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({
+            model: config.model || 'claude-3-haiku-20240307',
+            max_tokens: request.maxTokens ?? LLM_CLIENT_CONFIG.DEFAULT_MAX_TOKENS,
+            ...(request.system ? { system: request.system } : {}),
+            messages: [{ role: 'user', content: request.prompt }],
+            temperature: LLM_CLIENT_CONFIG.TEMPERATURE,
+          }),
+        },
+      };
+
+    case 'local':
+      if (!config.localEndpoint) {
+        throw new Error('Local endpoint not configured');
+      }
+      return {
+        url: resolveLocalEndpoint(config.localEndpoint),
+        init: {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({
+            model: config.model || 'llama3.2',
+            messages,
+            ...(request.maxTokens ? { max_tokens: request.maxTokens } : {}),
+            temperature: LLM_CLIENT_CONFIG.TEMPERATURE,
+            stream: false,
+          }),
+        },
+      };
+  }
+}
+
+/**
+ * Fetch, aborting the request if it takes longer than timeoutMs
+ */
+async function fetchWithTimeout(url: string, init: RequestInit, timeoutMs: number, label: string): Promise<Response> {
+  const controller = new AbortController();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      controller.abort();
+      reject(new Error(`${label} request timed out after ${timeoutMs}ms`));
+    }, timeoutMs);
+  });
+
+  try {
+    return await Promise.race([fetch(url, { ...init, signal: controller.signal }), timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Hold requested by a 429 response (Retry-After in seconds)
+ */
+function retryAfterMs(response: Response): number {
+  const seconds = Number(response.headers?.get('retry-after'));
+  return Number.isFinite(seconds) && seconds > 0
+    ? seconds * 1000
+    : LLM_CLIENT_CONFIG.DEFAULT_RETRY_AFTER_MS;
+}
+
+/**
+ * OpenAI-style response; local servers report no billable usage
+ */
+function parseOpenAI(data: any, withUsage: boolean): CompletionResult {
+  const usage = withUsage && data.usage
+    ? {
+        inputTokens: data.usage.prompt_tokens ?? 0,
+        outputTokens: data.usage.completion_tokens ?? 0,
+        totalTokens: data.usage.total_tokens ?? (data.usage.prompt_tokens ?? 0) + (data.usage.completion_tokens ?? 0),
+      }
+    : undefined;
+
+  return { text: data.choices[0].message.content, usage };
+}
+
+function parseAnthropic(data: any): CompletionResult {
+  const usage = data.usage
+    ? {
+        inputTokens: data.usage.input_tokens,
+        outputTokens: data.usage.output_tokens,
+        totalTokens: data.usage.input_tokens + data.usage.output_tokens,
+      }
+    : undefined;
+
+  return { text: data.content[0].text, usage };
+}
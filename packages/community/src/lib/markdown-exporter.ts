@@ -0,0 +1,336 @@
+/**
+ * Markdown Exporter
+ * Exports conversations as an Obsidian-compatible Markdown vault
+ *
+ * Vault layout:
+ * - One note per conversation, named after its title
+ * - YAML front-matter with platform, timestamps, tags and memA keywords
+ * - One section per message, ending in a block ID (^memory-id) so links can target it
+ * - Semantic links rendered as [[Note#^memory-id|Note]] wikilinks
+ */
+
+import type {
+  CodeBlock,
+  Conversation,
+  MemoryWithMemA,
+  MessageContent,
+} from '@engram/core';
+import { uint8ArrayToString } from '@engram/core';
+import type { CryptoService } from './crypto-service';
+import type { StorageService } from './storage';
+import { createLogger } from './logger';
+
+const logger = createLogger('MarkdownExport');
+
+/**
+ * Folder all notes are written into
+ */
+export const VAULT_FOLDER = 'Engram';
+
+/**
+ * Longest note name kept from a conversation title
+ */
+const MAX_NOTE_NAME_LENGTH = 80;
+
+/**
+ * Single file in the exported vault
+ */
+export interface MarkdownFile {
+  path: string;
+  content: string;
+}
+
+/**
+ * Result of a vault export
+ */
+export interface MarkdownExportResult {
+  files: MarkdownFile[];
+  conversations: number;
+  memories: number;
+  skipped: number;
+}
+
+/**
+ * Decrypted memory together with the note it is written into
+ */
+interface ExportedMessage {
+  memory: MemoryWithMemA;
+  content: MessageContent;
+}
+
+/**
+ * Markdown Exporter
+ */
+export class MarkdownExporter {
+  constructor(
+    private storage: StorageService,
+    private crypto: CryptoService
+  ) {}
+
+  /**
+   * Export every conversation as a Markdown note
+   *
+   * @param masterKey - Master key used to decrypt memory content
+   */
+  async exportVault(masterKey: { key: Uint8Array }): Promise<MarkdownExportResult> {
+    const memories = (await this.storage.getMemories({})) as MemoryWithMemA[];
+    const conversations = await this.storage.getConversations({});
+
+    // Decrypt and group messages by conversation
+    const byConversation = new Map<string, ExportedMessage[]>();
+    let skipped = 0;
+
+    for (const memory of memories) {
+      try {
+        const content = await this.decryptContent(memory, masterKey.key);
+        const messages = byConversation.get(memory.conversationId) || [];
+        messages.push({ memory, content });
+        byConversation.set(memory.conversationId, messages);
+      } catch (error) {
+        logger.error(`Failed to decrypt memory ${memory.id} for export:`, error);
+        skipped++;
+      }
+    }
+
+    // Memories can outlive their conversation record - export them anyway
+    const conversationMap = new Map(conversations.map((c) => [c.id, c]));
+    for (const [conversationId, messages] of byConversation) {
+      if (!conversationMap.has(conversationId)) {
+        conversationMap.set(conversationId, this.synthesizeConversation(conversationId, messages));
+      }
+    }
+
+    const exported = Array.from(conversationMap.values())
+      .filter((conversation) => byConversation.has(conversation.id))
+      .sort((a, b) => a.createdAt - b.createdAt);
+
+    // Assign unique note names before rendering so links can resolve across notes
+    const noteNames = new Map<string, string>();
+    const usedNames = new Set<string>();
+    for (const conversation of exported) {
+      noteNames.set(conversation.id, this.uniqueNoteName(conversation, usedNames));
+    }
+
+    const noteByMemory = new Map<string, string>();
+    for (const [conversationId, messages] of byConversation) {
+      const noteName = noteNames.get(conversationId)!;
+      messages.forEach(({ memory }) => noteByMemory.set(memory.id, noteName));
+    }
+
+    const files: MarkdownFile[] = exported.map((conversation) => {
+      const messages = byConversation
+        .get(conversation.id)!
+        .sort((a, b) => a.memory.timestamp - b.memory.timestamp);
+      const noteName = noteNames.get(conversation.id)!;
+
+      return {
+        path: `${VAULT_FOLDER}/${noteName}.md`,
+        content: this.renderNote(conversation, noteName, messages, noteByMemory),
+      };
+    });
+
+    const memoryCount = memories.length - skipped;
+    logger.log(`Exported ${files.length} notes from ${memoryCount} memories (${skipped} skipped)`);
+
+    return {
+      files,
+      conversations: files.length,
+      memories: memoryCount,
+      skipped,
+    };
+  }
+
+  /**
+   * Render a conversation note
+   */
+  private renderNote(
+    conversation: Conversation,
+    noteName: string,
+    messages: ExportedMessage[],
+    noteByMemory: Map<string, string>
+  ): string {
+    const tags = new Set<string>(conversation.tags || []);
+    const keywords = new Set<string>();
+    for (const { memory } of messages) {
+      memory.tags?.forEach((tag) => tags.add(tag));
+      memory.keywords?.forEach((keyword) => keywords.add(keyword));
+    }
+
+    const lines: string[] = [
+      '---',
+      `title: ${yamlString(conversation.title || noteName)}`,
+      `platform: ${yamlString(conversation.platform)}`,
+      `createdAt: ${yamlString(new Date(conversation.createdAt).toISOString())}`,
+      `lastMessageAt: ${yamlString(new Date(conversation.lastMessageAt).toISOString())}`,
+      `tags: ${yamlList(Array.from(tags).map(toTag))}`,
+      `keywords: ${yamlList(Array.from(keywords))}`,
+      `engramConversationId: ${yamlString(conversation.id)}`,
+      '---',
+      '',
+      `# ${conversation.title || noteName}`,
+      '',
+    ];
+
+    for (const { memory, content } of messages) {
+      lines.push(`## ${content.role === 'user' ? 'User' : 'Assistant'}`);
+      lines.push(`*${new Date(memory.timestamp).toISOString()}*`);
+      lines.push('');
+      lines.push(renderBody(content));
+
+      const related = this.renderLinks(memory, noteName, noteByMemory);
+      if (related) {
+        lines.push('');
+        lines.push(`Related: ${related}`);
+      }
+
+      lines.push('');
+      lines.push(`^${memory.id}`);
+      lines.push('');
+    }
+
+    return lines.join('\n');
+  }
+
+  /**
+   * Render semantic links as wikilinks to the target message block
+   * Links to memories that were not exported are dropped
+   */
+  private renderLinks(
+    memory: MemoryWithMemA,
+    noteName: string,
+    noteByMemory: Map<string, string>
+  ): string {
+    if (!memory.links || memory.links.length === 0) {
+      return '';
+    }
+
+    const links = [...memory.links]
+      .sort((a, b) => b.score - a.score)
+      .filter((link) => noteByMemory.has(link.memoryId))
+      .map((link) => {
+        const target = noteByMemory.get(link.memoryId)!;
+        return target === noteName
+          ? `[[#^${link.memoryId}|this conversation]]`
+          : `[[${target}#^${link.memoryId}|${target}]]`;
+      });
+
+    return Array.from(new Set(links)).join(', ');
+  }
+
+  /**
+   * Decrypt memory content (memories saved before encryption keep plaintext)
+   */
+  private async decryptContent(memory: MemoryWithMemA, key: Uint8Array): Promise<MessageContent> {
+    const encryptedContent = (memory as any).encryptedContent;
+    if (!encryptedContent) {
+      return memory.content;
+    }
+
+    const decrypted = JSON.parse(uint8ArrayToString(await this.crypto.decrypt(encryptedContent, key)));
+    return {
+      role: decrypted.role,
+      text: decrypted.text,
+      metadata: decrypted.metadata || {},
+    };
+  }
+
+  /**
+   * Build a conversation record for memories without one
+   */
+  private synthesizeConversation(conversationId: string, messages: ExportedMessage[]): Conversation {
+    const timestamps = messages.map(({ memory }) => memory.timestamp);
+    const firstUserMessage = messages
+      .filter(({ content }) => content.role === 'user' && content.text)
+      .sort((a, b) => a.memory.timestamp - b.memory.timestamp)[0];
+
+    return {
+      id: conversationId,
+      platform: messages[0].memory.platform,
+      title: firstUserMessage?.content.text?.slice(0, 60),
+      createdAt: Math.min(...timestamps),
+      lastMessageAt: Math.max(...timestamps),
+      messageCount: messages.length,
+      tags: [],
+    };
+  }
+
+  /**
+   * Derive a filesystem- and wikilink-safe note name that is unique in the vault
+   */
+  private uniqueNoteName(conversation: Conversation, usedNames: Set<string>): string {
+    const date = new Date(conversation.createdAt).toISOString().split('T')[0];
+    const base = sanitizeNoteName(conversation.title || '') || `${conversation.platform} ${date}`;
+
+    let name = base;
+    let suffix = 2;
+    while (usedNames.has(name.toLowerCase())) {
+      name = `${base} (${suffix++})`;
+    }
+
+    usedNames.add(name.toLowerCase());
+    return name;
+  }
+}
+
+/**
+ * Render message text with code blocks fenced in their original language
+ * Adapters either keep code inline in the text or strip it into metadata,
+ * so inline occurrences are fenced in place and the rest are appended
+ */
+function renderBody(content: MessageContent): string {
+  let body = content.text || '';
+  const appended: string[] = [];
+
+  for (const block of content.metadata?.codeBlocks || []) {
+    const fenced = fenceCode(block);
+    const index = block.code ? body.indexOf(block.code) : -1;
+
+    if (index >= 0) {
+      body = `${body.slice(0, index)}\n${fenced}\n${body.slice(index + block.code.length)}`;
+    } else {
+      appended.push(fenced);
+    }
+  }
+
+  return [body.trim(), ...appended].filter(Boolean).join('\n\n');
+}
+
+/**
+ * Fence a code block, using a fence longer than any backtick run inside the code
+ */
+function fenceCode(block: CodeBlock): string {
+  const longestRun = Math.max(2, ...(block.code.match(/`+/g) || []).map((run) => run.length));
+  const fence = '`'.repeat(longestRun + 1);
+  return `${fence}${block.language || ''}\n${block.code.replace(/\n$/, '')}\n${fence}`;
+}
+
+/**
+ * Strip characters Obsidian does not allow in note names or that break wikilinks
+ */
+function sanitizeNoteName(title: string): string {
+  return title
+    .replace(/[\\/:*?"<>|#^[\]]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .replace(/^\.+/, '')
+    .slice(0, MAX_NOTE_NAME_LENGTH)
+    .trim();
+}
+
+/**
+ * Obsidian tags cannot contain spaces
+ */
+function toTag(tag: string): string {
+  return tag.trim().replace(/^#/, '').replace(/\s+/g, '-');
+}
+
+/**
+ * JSON strings are valid YAML double-quoted scalars
+ */
+function yamlString(value: string): string {
+  return JSON.stringify(value);
+}
+
+function yamlList(values: string[]): string {
+  return `[${values.filter(Boolean).map(yamlString).join(', ')}]`;
+}
@@ -0,0 +1,83 @@
+/**
+ * Message Versions
+ * Edited prompts and regenerated answers as versions of one logical message
+ *
+ * The first captured version is the root; later versions point at it with
+ * parentId. branchIndex orders them like the platform's "< 2/3 >" switcher,
+ * and branchSelected is false on every version the conversation is not
+ * currently showing, so lists, search and retrieval follow the selected branch.
+ */
+
+import type { Memory, UUID } from '@engram/core';
+import { incrementClock } from '@engram/core';
+import type { StorageService } from './storage';
+
+/**
+ * Whether a memory is the version currently shown (memories without versions always are)
+ */
+export function isSelectedVersion(memory: Memory): boolean {
+  return memory.branchSelected !== false;
+}
+
+/**
+ * All versions of a memory's message, root first, ordered by branch index
+ */
+export async function getVersions(storage: StorageService, memory: Memory): Promise<Memory[]> {
+  const rootId = memory.parentId || memory.id;
+  const conversation = await storage.getMemories({ conversationId: memory.conversationId });
+
+  return conversation
+    .filter((candidate) => candidate.id === rootId || candidate.parentId === rootId)
+    .sort((a, b) => (a.branchIndex ?? 0) - (b.branchIndex ?? 0));
+}
+
+/**
+ * Branch index for a version added after the given ones
+ */
+export function nextBranchIndex(versions: Memory[]): number {
+  return versions.reduce((max, version) => Math.max(max, version.branchIndex ?? 0), -1) + 1;
+}
+
+/**
+ * Mark one version selected and the others unselected
+ * Only versions whose flag changes are written (with a bumped vector clock for sync)
+ *
+ * @returns The versions with their new flags
+ */
+export async function markSelectedVersion(
+  storage: StorageService,
+  versions: Memory[],
+  memoryId: UUID,
+  deviceId: string
+): Promise<Memory[]> {
+  const updated: Memory[] = [];
+
+  for (const version of versions) {
+    const selected = version.id === memoryId;
+    if (isSelectedVersion(version) === selected) {
+      updated.push(version);
+      continue;
+    }
+
+    const changes = { branchSelected: selected, vectorClock: incrementClock(version.vectorClock || {}, deviceId) };
+    await storage.updateMemory(version.id, changes);
+    updated.push({ ...version, ...changes });
+  }
+
+  return updated;
+}
+
+/**
+ * Switch a message to one of its versions
+ *
+ * @returns All versions of the message
+ */
+export async function selectVersion(storage: StorageService, memoryId: UUID, deviceId: string): Promise<Memory[]> {
+  const memory = await storage.getMemory(memoryId);
+  if (!memory) {
+    throw new Error(`Memory not found: ${memoryId}`);
+  }
+
+  const versions = await getVersions(storage, memory);
+  return markSelectedVersion(storage, versions, memoryId, deviceId);
+}
@@ -12,6 +12,23 @@ declare const chrome: any;
 import { ExtractedMessage } from '@engram/core';
 import { Memory, UUID } from '@engram/core';
 import { MemoryFilter } from '@engram/core';
+import type { BackupConflictStrategy, RestoreResult } from './backup-service';
+import type { MarkdownFile } from './markdown-exporter';
+import type {
+  HistoryImportBatch,
+  HistoryImportResult,
+  HistoryImportSource,
+  HistoryImportStatus,
+  ImportedConversation,
+} from './history-import';
+import type { SearchHit } from './search-snippets';
+import type { EmbeddingModelSettings, EmbeddingModelSpec } from './embedding-models';
+import type { EmbeddingModelMigrationStatus } from './embedding-model-migration';
+import type { ContextCandidate } from './context-retrieval';
+import type { AdapterHealthEvaluation, AdapterHealthReport } from './adapter-health';
+import type { AssembledContext } from './context-builder';
+import type { CloudUploadStatus } from './cloud-sync';
+import type { QuarantinedOperation } from '../sync/device-trust';
 
 /**
  * Message Types
@@ -68,6 +85,50 @@ export enum MessageType {
   REVERT_EVOLUTION = 'REVERT_EVOLUTION',
   REVERT_EVOLUTION_RESPONSE = 'REVERT_EVOLUTION_RESPONSE',
 
+  // Message Versions (edits, regenerations)
+  GET_MEMORY_VERSIONS = 'GET_MEMORY_VERSIONS',
+  GET_MEMORY_VERSIONS_RESPONSE = 'GET_MEMORY_VERSIONS_RESPONSE',
+  SELECT_MEMORY_VERSION = 'SELECT_MEMORY_VERSION',
+  SELECT_MEMORY_VERSION_RESPONSE = 'SELECT_MEMORY_VERSION_RESPONSE',
+
+  // Backup / Restore
+  EXPORT_BACKUP = 'EXPORT_BACKUP',
+  EXPORT_BACKUP_RESPONSE = 'EXPORT_BACKUP_RESPONSE',
+  IMPORT_BACKUP = 'IMPORT_BACKUP',
+  IMPORT_BACKUP_RESPONSE = 'IMPORT_BACKUP_RESPONSE',
+
+  // Markdown Export
+  EXPORT_MARKDOWN_VAULT = 'EXPORT_MARKDOWN_VAULT',
+  EXPORT_MARKDOWN_VAULT_RESPONSE = 'EXPORT_MARKDOWN_VAULT_RESPONSE',
+
+  // History Import
+  IMPORT_HISTORY = 'IMPORT_HISTORY',
+  IMPORT_HISTORY_RESPONSE = 'IMPORT_HISTORY_RESPONSE',
+  GET_IMPORT_STATUS = 'GET_IMPORT_STATUS',
+  GET_IMPORT_STATUS_RESPONSE = 'GET_IMPORT_STATUS_RESPONSE',
+
+  // Embedding Models
+  GET_EMBEDDING_MODELS = 'GET_EMBEDDING_MODELS',
+  GET_EMBEDDING_MODELS_RESPONSE = 'GET_EMBEDDING_MODELS_RESPONSE',
+  SET_EMBEDDING_MODEL = 'SET_EMBEDDING_MODEL',
+  SET_EMBEDDING_MODEL_RESPONSE = 'SET_EMBEDDING_MODEL_RESPONSE',
+
+  // Prompt-time retrieval
+  RETRIEVE_CONTEXT = 'RETRIEVE_CONTEXT',
+  RETRIEVE_CONTEXT_RESPONSE = 'RETRIEVE_CONTEXT_RESPONSE',
+
+  // Adapter health (capture telemetry)
+  REPORT_ADAPTER_HEALTH = 'REPORT_ADAPTER_HEALTH',
+  REPORT_ADAPTER_HEALTH_RESPONSE = 'REPORT_ADAPTER_HEALTH_RESPONSE',
+  GET_ADAPTER_HEALTH = 'GET_ADAPTER_HEALTH',
+  GET_ADAPTER_HEALTH_RESPONSE = 'GET_ADAPTER_HEALTH_RESPONSE',
+
+  // Sync operations that failed signature verification
+  GET_QUARANTINED_OPERATIONS = 'GET_QUARANTINED_OPERATIONS',
+  GET_QUARANTINED_OPERATIONS_RESPONSE = 'GET_QUARANTINED_OPERATIONS_RESPONSE',
+  DISMISS_QUARANTINED_OPERATIONS = 'DISMISS_QUARANTINED_OPERATIONS',
+  DISMISS_QUARANTINED_OPERATIONS_RESPONSE = 'DISMISS_QUARANTINED_OPERATIONS_RESPONSE',
+
   // Errors
   ERROR = 'ERROR',
 }
@@ -100,6 +161,8 @@ export interface InitResponse extends BaseMessage {
 export interface SaveMessageRequest extends BaseMessage {
   type: MessageType.SAVE_MESSAGE;
   message: ExtractedMessage;
+  replaces?: UUID; // Memory saved for an earlier version of this message (continued streams)
+  branchOf?: UUID; // Memory of the version this one branched from (edits, regenerations)
 }
 
 export interface SaveMessageResponse extends BaseMessage {
@@ -129,14 +192,18 @@ export interface GetMemoriesResponse extends BaseMessage {
  */
 export interface SearchMemoriesRequest extends BaseMessage {
   type: MessageType.SEARCH_MEMORIES;
-  query: string;
-  limit?: number;
+  query: string; // Free text or query language (platform:, tag:, after:, "phrase", -term; see search-query.ts)
+  filter?: MemoryFilter; // Applied together with filters from the query; limit/offset ignored
+  limit?: number; // Page size
+  cursor?: string; // nextCursor from the previous page
 }
 
 export interface SearchMemoriesResponse extends BaseMessage {
   type: MessageType.SEARCH_MEMORIES_RESPONSE;
   success: boolean;
   memories?: Memory[];
+  hits?: SearchHit[]; // Snippets and score breakdown, in the same order as memories
+  nextCursor?: string; // Present when more results are available
   error?: string;
 }
 
@@ -152,6 +219,7 @@ export interface SyncStatus {
   lastSyncTime?: number;
   pendingOperations: number;
   deviceId?: UUID;
+  upload?: CloudUploadStatus; // Progress of uploading local memories to the cloud
 }
 
 export interface GetSyncStatusResponse extends BaseMessage {
@@ -318,6 +386,214 @@ export interface RevertEvolutionResponse extends BaseMessage {
   error?: string;
 }
 
+/**
+ * Message Versions
+ */
+export interface GetMemoryVersionsRequest extends BaseMessage {
+  type: MessageType.GET_MEMORY_VERSIONS;
+  memoryId: UUID;
+}
+
+export interface GetMemoryVersionsResponse extends BaseMessage {
+  type: MessageType.GET_MEMORY_VERSIONS_RESPONSE;
+  success: boolean;
+  versions?: Memory[]; // Ordered by branch index, decrypted
+  error?: string;
+}
+
+export interface SelectMemoryVersionRequest extends BaseMessage {
+  type: MessageType.SELECT_MEMORY_VERSION;
+  memoryId: UUID;
+}
+
+export interface SelectMemoryVersionResponse extends BaseMessage {
+  type: MessageType.SELECT_MEMORY_VERSION_RESPONSE;
+  success: boolean;
+  versions?: Memory[];
+  error?: string;
+}
+
+/**
+ * Backup / Restore
+ */
+export interface ExportBackupRequest extends BaseMessage {
+  type: MessageType.EXPORT_BACKUP;
+  passphrase: string;
+}
+
+export interface ExportBackupResponse extends BaseMessage {
+  type: MessageType.EXPORT_BACKUP_RESPONSE;
+  success: boolean;
+  backup?: string; // Serialized encrypted backup file
+  filename?: string;
+  memoryCount?: number;
+  skippedCount?: number;
+  error?: string;
+}
+
+export interface ImportBackupRequest extends BaseMessage {
+  type: MessageType.IMPORT_BACKUP;
+  backup: string;
+  passphrase: string;
+  conflictStrategy?: BackupConflictStrategy;
+}
+
+export interface ImportBackupResponse extends BaseMessage {
+  type: MessageType.IMPORT_BACKUP_RESPONSE;
+  success: boolean;
+  result?: RestoreResult;
+  error?: string;
+}
+
+/**
+ * Markdown Export
+ */
+export interface ExportMarkdownVaultRequest extends BaseMessage {
+  type: MessageType.EXPORT_MARKDOWN_VAULT;
+}
+
+export interface ExportMarkdownVaultResponse extends BaseMessage {
+  type: MessageType.EXPORT_MARKDOWN_VAULT_RESPONSE;
+  success: boolean;
+  files?: MarkdownFile[]; // One note per conversation
+  filename?: string;
+  conversationCount?: number;
+  memoryCount?: number;
+  skippedCount?: number;
+  error?: string;
+}
+
+/**
+ * History Import
+ */
+export interface ImportHistoryRequest extends BaseMessage {
+  type: MessageType.IMPORT_HISTORY;
+  source: HistoryImportSource;
+  conversations: ImportedConversation[]; // One batch of the parsed export
+  batch: HistoryImportBatch;
+}
+
+export interface ImportHistoryResponse extends BaseMessage {
+  type: MessageType.IMPORT_HISTORY_RESPONSE;
+  success: boolean;
+  result?: HistoryImportResult;
+  error?: string;
+}
+
+export interface GetImportStatusRequest extends BaseMessage {
+  type: MessageType.GET_IMPORT_STATUS;
+}
+
+export interface GetImportStatusResponse extends BaseMessage {
+  type: MessageType.GET_IMPORT_STATUS_RESPONSE;
+  success: boolean;
+  status?: HistoryImportStatus;
+  error?: string;
+}
+
+/**
+ * Embedding Models
+ */
+export interface GetEmbeddingModelsRequest extends BaseMessage {
+  type: MessageType.GET_EMBEDDING_MODELS;
+}
+
+export interface GetEmbeddingModelsResponse extends BaseMessage {
+  type: MessageType.GET_EMBEDDING_MODELS_RESPONSE;
+  success: boolean;
+  models?: EmbeddingModelSpec[];
+  active?: EmbeddingModelSettings;                 // Model of the index serving searches
+  migration?: EmbeddingModelMigrationStatus | null; // Re-embedding progress after a switch
+  error?: string;
+}
+
+export interface SetEmbeddingModelRequest extends BaseMessage {
+  type: MessageType.SET_EMBEDDING_MODEL;
+  modelId: string;
+  endpoint?: string; // Base URL for models served by a local endpoint
+}
+
+export interface SetEmbeddingModelResponse extends BaseMessage {
+  type: MessageType.SET_EMBEDDING_MODEL_RESPONSE;
+  success: boolean;
+  migration?: EmbeddingModelMigrationStatus | null; // null when no re-embedding is needed
+  error?: string;
+}
+
+/**
+ * Retrieve context for a draft prompt (ranked by the background HNSW index)
+ */
+export interface RetrieveContextRequest extends BaseMessage {
+  type: MessageType.RETRIEVE_CONTEXT;
+  prompt: string;
+  maxResults?: number; // Semantic matches before link expansion
+  assemble?: boolean; // Also build the token-budgeted context block (at send time)
+  tokenBudget?: number; // Overrides the budget of the sender's platform
+  include?: UUID[]; // Memories pinned while reviewing the injection
+  exclude?: UUID[]; // Memories unchecked while reviewing the injection
+}
+
+export interface RetrieveContextResponse extends BaseMessage {
+  type: MessageType.RETRIEVE_CONTEXT_RESPONSE;
+  success: boolean;
+  candidates?: ContextCandidate[]; // Decrypted, without vectors; best first
+  context?: AssembledContext; // Present when assemble was requested
+  error?: string;
+}
+
+/**
+ * Adapter health
+ */
+export interface ReportAdapterHealthRequest extends BaseMessage {
+  type: MessageType.REPORT_ADAPTER_HEALTH;
+  report: AdapterHealthReport;
+  domShape?: string; // Anonymized DOM skeleton, sent once when capture degrades or fails
+}
+
+export interface ReportAdapterHealthResponse extends BaseMessage {
+  type: MessageType.REPORT_ADAPTER_HEALTH_RESPONSE;
+  success: boolean;
+  error?: string;
+}
+
+export interface GetAdapterHealthRequest extends BaseMessage {
+  type: MessageType.GET_ADAPTER_HEALTH;
+  tabId: number;
+}
+
+export interface GetAdapterHealthResponse extends BaseMessage {
+  type: MessageType.GET_ADAPTER_HEALTH_RESPONSE;
+  success: boolean;
+  report?: AdapterHealthReport; // Absent when no adapter reported from the tab
+  health?: AdapterHealthEvaluation;
+  error?: string;
+}
+
+/**
+ * Quarantined sync operations
+ */
+export interface GetQuarantinedOperationsRequest extends BaseMessage {
+  type: MessageType.GET_QUARANTINED_OPERATIONS;
+}
+
+export interface GetQuarantinedOperationsResponse extends BaseMessage {
+  type: MessageType.GET_QUARANTINED_OPERATIONS_RESPONSE;
+  success: boolean;
+  operations?: QuarantinedOperation[]; // Oldest first
+  error?: string;
+}
+
+export interface DismissQuarantinedOperationsRequest extends BaseMessage {
+  type: MessageType.DISMISS_QUARANTINED_OPERATIONS;
+  operationIds: UUID[];
+}
+
+export interface DismissQuarantinedOperationsResponse extends BaseMessage {
+  type: MessageType.DISMISS_QUARANTINED_OPERATIONS_RESPONSE;
+  success: boolean;
+  error?: string;
+}
+
 /**
  * Error message
  */
@@ -365,6 +641,34 @@ export type Message =
   | ReinitializeEnrichmentResponse
   | RevertEvolutionRequest
   | RevertEvolutionResponse
+  | GetMemoryVersionsRequest
+  | GetMemoryVersionsResponse
+  | SelectMemoryVersionRequest
+  | SelectMemoryVersionResponse
+  | ExportBackupRequest
+  | ExportBackupResponse
+  | ImportBackupRequest
+  | ImportBackupResponse
+  | ExportMarkdownVaultRequest
+  | ExportMarkdownVaultResponse
+  | ImportHistoryRequest
+  | ImportHistoryResponse
+  | GetImportStatusRequest
+  | GetImportStatusResponse
+  | GetEmbeddingModelsRequest
+  | GetEmbeddingModelsResponse
+  | SetEmbeddingModelRequest
+  | SetEmbeddingModelResponse
+  | RetrieveContextRequest
+  | RetrieveContextResponse
+  | ReportAdapterHealthRequest
+  | ReportAdapterHealthResponse
+  | GetAdapterHealthRequest
+  | GetAdapterHealthResponse
+  | GetQuarantinedOperationsRequest
+  | GetQuarantinedOperationsResponse
+  | DismissQuarantinedOperationsRequest
+  | DismissQuarantinedOperationsResponse
   | ErrorMessage;
 
 /**
@@ -420,11 +724,14 @@ export async function sendInitRequest(): Promise<InitResponse> {
  * Helper: Save extracted message
  */
 export async function sendSaveMessage(
-  message: ExtractedMessage
+  message: ExtractedMessage,
+  options?: { replaces?: UUID; branchOf?: UUID }
 ): Promise<SaveMessageResponse> {
   return sendMessage<SaveMessageRequest>({
     type: MessageType.SAVE_MESSAGE,
     message,
+    ...(options?.replaces && { replaces: options.replaces }),
+    ...(options?.branchOf && { branchOf: options.branchOf }),
   });
 }
 
@@ -445,12 +752,98 @@ export async function sendGetMemories(
  */
 export async function sendSearchMemories(
   query: string,
-  limit?: number
+  limit?: number,
+  options?: { filter?: MemoryFilter; cursor?: string }
 ): Promise<SearchMemoriesResponse> {
   return sendMessage<SearchMemoriesRequest>({
     type: MessageType.SEARCH_MEMORIES,
     query,
     limit,
+    filter: options?.filter,
+    cursor: options?.cursor,
+  });
+}
+
+/**
+ * Helper: Retrieve context candidates for a draft prompt
+ */
+export async function sendRetrieveContext(
+  prompt: string,
+  options?: { maxResults?: number; assemble?: boolean; tokenBudget?: number; include?: UUID[]; exclude?: UUID[] }
+): Promise<RetrieveContextResponse> {
+  return sendMessage<RetrieveContextRequest>({
+    type: MessageType.RETRIEVE_CONTEXT,
+    prompt,
+    maxResults: options?.maxResults,
+    assemble: options?.assemble,
+    tokenBudget: options?.tokenBudget,
+    include: options?.include,
+    exclude: options?.exclude,
+  });
+}
+
+/**
+ * Helper: Report the capture health of the page's adapter
+ */
+export async function sendReportAdapterHealth(
+  report: AdapterHealthReport,
+  domShape?: string
+): Promise<ReportAdapterHealthResponse> {
+  return sendMessage<ReportAdapterHealthRequest>({
+    type: MessageType.REPORT_ADAPTER_HEALTH,
+    report,
+    ...(domShape && { domShape }),
+  });
+}
+
+/**
+ * Helper: Get the capture health of a tab
+ */
+export async function sendGetAdapterHealth(tabId: number): Promise<GetAdapterHealthResponse> {
+  return sendMessage<GetAdapterHealthRequest>({
+    type: MessageType.GET_ADAPTER_HEALTH,
+    tabId,
+  });
+}
+
+/**
+ * Helper: Get sync operations held back for failing signature verification
+ */
+export async function sendGetQuarantinedOperations(): Promise<GetQuarantinedOperationsResponse> {
+  return sendMessage<GetQuarantinedOperationsRequest>({
+    type: MessageType.GET_QUARANTINED_OPERATIONS,
+  });
+}
+
+/**
+ * Helper: Discard quarantined sync operations
+ */
+export async function sendDismissQuarantinedOperations(
+  operationIds: UUID[]
+): Promise<DismissQuarantinedOperationsResponse> {
+  return sendMessage<DismissQuarantinedOperationsRequest>({
+    type: MessageType.DISMISS_QUARANTINED_OPERATIONS,
+    operationIds,
+  });
+}
+
+/**
+ * Helper: Get all versions of a memory's message
+ */
+export async function sendGetMemoryVersions(memoryId: UUID): Promise<GetMemoryVersionsResponse> {
+  return sendMessage<GetMemoryVersionsRequest>({
+    type: MessageType.GET_MEMORY_VERSIONS,
+    memoryId,
+  });
+}
+
+/**
+ * Helper: Switch a message to one of its versions
+ */
+export async function sendSelectMemoryVersion(memoryId: UUID): Promise<SelectMemoryVersionResponse> {
+  return sendMessage<SelectMemoryVersionRequest>({
+    type: MessageType.SELECT_MEMORY_VERSION,
+    memoryId,
   });
 }
 
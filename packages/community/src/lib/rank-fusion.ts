@@ -0,0 +1,50 @@
+/**
+ * Rank Fusion
+ * Combines rankings from independent retrievers (BM25, HNSW) into one list
+ */
+
+import type { UUID } from '@engram/core';
+
+/**
+ * Standard RRF smoothing constant (Cormack et al., 2009)
+ * Dampens the advantage of top ranks so agreement across retrievers wins
+ */
+export const RRF_K = 60;
+
+/**
+ * Fused search result
+ */
+export interface FusedResult {
+  id: UUID;
+  score: number;
+}
+
+/**
+ * Why a memory ranked where it did
+ */
+export interface SearchScore {
+  fused: number;       // Reciprocal-rank fusion score
+  lexical?: number;    // BM25 score (absent if no keyword match)
+  semantic?: number;   // Cosine similarity 0-1 (absent if not a nearest neighbour)
+  chunk?: number;      // Best-matching chunk of a semantic hit
+}
+
+/**
+ * Reciprocal-rank fusion: score(d) = Σ 1 / (k + rank_i(d))
+ * Only ranks are used, so BM25 and cosine scores never need to be calibrated
+ *
+ * @param rankings - Ranked ID lists, best first
+ */
+export function reciprocalRankFusion(rankings: UUID[][], k: number = RRF_K): FusedResult[] {
+  const scores = new Map<UUID, number>();
+
+  for (const ranking of rankings) {
+    ranking.forEach((id, index) => {
+      scores.set(id, (scores.get(id) || 0) + 1 / (k + index + 1));
+    });
+  }
+
+  return Array.from(scores.entries())
+    .map(([id, score]) => ({ id, score }))
+    .sort((a, b) => b.score - a.score);
+}
@@ -0,0 +1,283 @@
+/**
+ * Search Query Language
+ * Parses structured memory searches into a MemoryFilter plus text clauses
+ *
+ * Grammar (clauses are space-separated, all must match):
+ *   platform:claude          Platform (chatgpt, claude, perplexity, gemini, deepseek, copilot, mistral, generic)
+ *   tag:rust                 Tag (repeatable, matches any of the given tags)
+ *   role:assistant           Message role (user, assistant, system)
+ *   conversation:<id>        Conversation ID
+ *   after:2026-01-01         On or after a date (YYYY-MM-DD or ISO timestamp)
+ *   before:2026-02-01        Before a date
+ *   on:2026-01-15            Within a single day
+ *   has:code | has:links     Contains code blocks / semantic links
+ *   "exact phrase"           Must appear verbatim (case-insensitive)
+ *   -word, -"some phrase"    Must not appear
+ *   anything else            Free text, ranked by hybrid (BM25 + vector) search
+ *
+ * Values may be quoted: tag:"machine learning". Unknown `key:value` pairs are
+ * treated as free text so identifiers like `std::vector` still search normally.
+ */
+
+import type { Memory, MemoryFilter, MessageMetadata, Platform, Role } from '@engram/core';
+import { base64ToUint8Array, uint8ArrayToBase64 } from '@engram/core';
+
+/**
+ * Features selectable with has:
+ */
+export type SearchFeature = 'code' | 'links';
+
+/**
+ * Compiled search query
+ */
+export interface SearchQuery {
+  filter: MemoryFilter;        // Clauses on plaintext memory fields
+  text: string;                // Free text and phrases, used for ranking
+  phrases: string[];           // Must appear verbatim in the decrypted text
+  excluded: string[];          // Must not appear in the decrypted text
+  has: SearchFeature[];        // Required features
+}
+
+const PLATFORMS: Platform[] = ['chatgpt', 'claude', 'perplexity', 'gemini', 'deepseek', 'copilot', 'mistral', 'generic'];
+const ROLES: Role[] = ['user', 'assistant', 'system'];
+const FEATURES: SearchFeature[] = ['code', 'links'];
+const FIELDS = ['platform', 'tag', 'role', 'conversation', 'after', 'before', 'on', 'has'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Optional `-`, optional `key:`, then a quoted or bare value
+ */
+const CLAUSE_PATTERN = /(-?)(?:([a-z]+):)?(?:"([^"]*)"?|(\S+))/gi;
+
+/**
+ * Parse a search box / SEARCH_MEMORIES query
+ * @throws Error with a user-facing message for invalid field values
+ */
+export function parseSearchQuery(input: string): SearchQuery {
+  const query: SearchQuery = { filter: {}, text: '', phrases: [], excluded: [], has: [] };
+  const terms: string[] = [];
+
+  for (const match of input.matchAll(CLAUSE_PATTERN)) {
+    const [raw, negation, rawField, quoted, bare] = match;
+    const value = (quoted ?? bare ?? '').trim();
+    const field = rawField?.toLowerCase();
+
+    if (field && FIELDS.includes(field)) {
+      if (negation) {
+        throw new Error(`Negated filters are not supported: ${raw}`);
+      }
+      if (!value) {
+        throw new Error(`Missing value for ${field}:`);
+      }
+      applyField(query, field, value);
+      continue;
+    }
+
+    // Unknown field: keep the whole `key:value` as text
+    const text = field ? `${rawField}:${value}` : value;
+    if (!text || text === '-') continue;
+
+    if (negation) {
+      query.excluded.push(text.toLowerCase());
+    } else if (quoted !== undefined && !field) {
+      query.phrases.push(text.toLowerCase());
+      terms.push(text);
+    } else {
+      terms.push(text);
+    }
+  }
+
+  query.text = terms.join(' ');
+  return query;
+}
+
+/**
+ * Whether a query needs more than plain text search
+ */
+export function hasStructuredClauses(query: SearchQuery): boolean {
+  return (
+    Object.keys(query.filter).length > 0 ||
+    query.phrases.length > 0 ||
+    query.excluded.length > 0 ||
+    query.has.length > 0
+  );
+}
+
+/**
+ * Combine a request filter with the filter compiled from the query text
+ * Query clauses override scalar fields; tags accumulate, date ranges intersect.
+ * limit/offset are dropped - search pages with cursors instead.
+ */
+export function mergeFilters(base: MemoryFilter | undefined, filter: MemoryFilter): MemoryFilter {
+  const merged: MemoryFilter = { ...base, ...filter };
+  delete merged.limit;
+  delete merged.offset;
+
+  const tags = [...(base?.tags || []), ...(filter.tags || [])];
+  if (tags.length > 0) {
+    merged.tags = Array.from(new Set(tags));
+  }
+  if (base?.startDate !== undefined && filter.startDate !== undefined) {
+    merged.startDate = Math.max(base.startDate, filter.startDate);
+  }
+  if (base?.endDate !== undefined && filter.endDate !== undefined) {
+    merged.endDate = Math.min(base.endDate, filter.endDate);
+  }
+
+  return merged;
+}
+
+/**
+ * Where a result sits in a search ranking
+ * Rankings order by score, highest first, then by ID, so a page resumes after
+ * the previous page's last result even when results are added before it
+ */
+export interface SearchPosition {
+  score: number;
+  id: string;
+}
+
+/**
+ * Order positions best first; IDs break ties so the order is total
+ */
+export function compareSearchPositions(a: SearchPosition, b: SearchPosition): number {
+  if (a.score !== b.score) return b.score - a.score;
+  return a.id < b.id ? -1 : a.id > b.id ? 1 : 0;
+}
+
+/**
+ * Opaque pagination cursor for SEARCH_MEMORIES: the position of the last
+ * result returned, bound to the query and filter it was issued for
+ */
+export function encodeSearchCursor(after: SearchPosition, query: string, filter: MemoryFilter): string {
+  const json = JSON.stringify({ score: after.score, id: after.id, key: searchKey(query, filter) });
+  return uint8ArrayToBase64(new TextEncoder().encode(json));
+}
+
+/**
+ * Decode a cursor back into the position to resume after
+ * @throws Error if the cursor is malformed or belongs to another search
+ */
+export function decodeSearchCursor(cursor: string, query: string, filter: MemoryFilter): SearchPosition {
+  let decoded: { score?: unknown; id?: unknown; key?: unknown };
+  try {
+    decoded = JSON.parse(new TextDecoder().decode(base64ToUint8Array(cursor)));
+  } catch {
+    throw new Error('Invalid search cursor');
+  }
+
+  if (
+    typeof decoded.score !== 'number' ||
+    !Number.isFinite(decoded.score) ||
+    typeof decoded.id !== 'string' ||
+    decoded.key !== searchKey(query, filter)
+  ) {
+    throw new Error('Invalid search cursor');
+  }
+  return { score: decoded.score, id: decoded.id };
+}
+
+function searchKey(query: string, filter: MemoryFilter): string {
+  return JSON.stringify([query, filter]);
+}
+
+/**
+ * Whether a query has clauses evaluated by matchesContentClauses()
+ */
+export function hasContentClauses(query: SearchQuery): boolean {
+  return query.phrases.length > 0 || query.excluded.length > 0 || query.has.length > 0;
+}
+
+/**
+ * Evaluate clauses that need decrypted content (phrases, exclusions, has:)
+ */
+export function matchesContentClauses(
+  query: SearchQuery,
+  memory: Memory,
+  content: { text: string | null; metadata?: MessageMetadata | null }
+): boolean {
+  const text = (content.text || '').toLowerCase();
+
+  if (!query.phrases.every((phrase) => text.includes(phrase))) return false;
+  if (query.excluded.some((term) => text.includes(term))) return false;
+
+  for (const feature of query.has) {
+    if (feature === 'code' && !content.metadata?.codeBlocks?.length) return false;
+    if (feature === 'links' && !(memory as any).links?.length) return false;
+  }
+
+  return true;
+}
+
+function applyField(query: SearchQuery, field: string, value: string): void {
+  const lower = value.toLowerCase();
+
+  switch (field) {
+    case 'platform':
+      if (!PLATFORMS.includes(lower as Platform)) {
+        throw new Error(`Unknown platform "${value}" (use ${PLATFORMS.join(', ')})`);
+      }
+      query.filter.platform = lower as Platform;
+      break;
+
+    case 'tag':
+      query.filter.tags = [...(query.filter.tags || []), value];
+      break;
+
+    case 'role':
+      if (!ROLES.includes(lower as Role)) {
+        throw new Error(`Unknown role "${value}" (use ${ROLES.join(', ')})`);
+      }
+      query.filter.role = lower as Role;
+      break;
+
+    case 'conversation':
+      query.filter.conversationId = value;
+      break;
+
+    case 'after':
+      query.filter.startDate = Math.max(query.filter.startDate ?? 0, parseDate(field, value).start);
+      break;
+
+    case 'before':
+      query.filter.endDate = Math.min(query.filter.endDate ?? Infinity, parseDate(field, value).start - 1);
+      break;
+
+    case 'on': {
+      const { start, nextDay } = parseDate(field, value);
+      query.filter.startDate = Math.max(query.filter.startDate ?? 0, start);
+      query.filter.endDate = Math.min(query.filter.endDate ?? Infinity, nextDay - 1);
+      break;
+    }
+
+    case 'has':
+      if (!FEATURES.includes(lower as SearchFeature)) {
+        throw new Error(`Unknown feature "has:${value}" (use ${FEATURES.map((f) => `has:${f}`).join(', ')})`);
+      }
+      if (!query.has.includes(lower as SearchFeature)) {
+        query.has.push(lower as SearchFeature);
+      }
+      break;
+  }
+}
+
+/**
+ * Parse a date value (YYYY-MM-DD is local midnight, anything else must be ISO)
+ * Also returns the start of the following day for on:
+ */
+function parseDate(field: string, value: string): { start: number; nextDay: number } {
+  const day = value.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (day) {
+    const [year, month, date] = [Number(day[1]), Number(day[2]) - 1, Number(day[3])];
+    const start = new Date(year, month, date);
+    if (start.getMonth() === month) {
+      return { start: start.getTime(), nextDay: new Date(year, month, date + 1).getTime() };
+    }
+  } else if (/^\d{4}-\d{2}-\d{2}T/.test(value) && !Number.isNaN(Date.parse(value))) {
+    const start = Date.parse(value);
+    return { start, nextDay: start + DAY_MS };
+  }
+
+  throw new Error(`Invalid date for ${field}: "${value}" (use YYYY-MM-DD)`);
+}
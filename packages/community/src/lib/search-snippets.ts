@@ -0,0 +1,198 @@
+/**
+ * Search Snippets
+ * Picks the passages of each search hit to display and the offsets to highlight
+ *
+ * - Keyword hits: the windows containing the most distinct query terms
+ * - Semantic-only hits (no term appears in the text): the chunk the vector
+ *   index matched, so no passage has to be embedded again
+ * - Anything else: the leading passage
+ */
+
+import type { Memory, UUID } from '@engram/core';
+import { UI_CONFIG } from '@engram/core';
+import { tokenize } from './keyword-index-service';
+import type { SearchScore } from './rank-fusion';
+import type { SearchQuery } from './search-query';
+import { chunkText } from './text-chunker';
+
+/**
+ * Character range to highlight (relative to the snippet text)
+ */
+export interface HighlightRange {
+  start: number;
+  end: number;
+}
+
+/**
+ * Passage of a memory shown for a search hit
+ */
+export interface SearchSnippet {
+  text: string;
+  start: number;                 // Offset of the passage in the memory text
+  highlights: HighlightRange[];  // Query term matches within the passage
+}
+
+/**
+ * Per-result search details returned alongside the memories
+ */
+export interface SearchHit {
+  memoryId: UUID;
+  score?: SearchScore;           // Lexical / semantic breakdown (absent for filter-only queries)
+  snippets: SearchSnippet[];
+}
+
+/**
+ * Target snippet length in characters
+ */
+export const SNIPPET_LENGTH = UI_CONFIG.MAX_PREVIEW_LENGTH;
+
+/**
+ * Keyword hits show at most this many separate passages
+ */
+const MAX_SNIPPETS = 2;
+
+/**
+ * Shorter terms (e.g. `id` from getUserById) match too much to be worth highlighting
+ */
+const MIN_TERM_LENGTH = 3;
+
+/**
+ * Terms to highlight for a query: its phrases and index tokens, longest first
+ */
+export function highlightTerms(query: SearchQuery): string[] {
+  const terms = new Set<string>(query.phrases);
+  for (const token of tokenize(query.text)) {
+    if (token.length >= MIN_TERM_LENGTH) {
+      terms.add(token);
+    }
+  }
+  return Array.from(terms).sort((a, b) => b.length - a.length);
+}
+
+/**
+ * Find term occurrences in text (case-insensitive, non-overlapping)
+ * Matches must start a word or a camelCase component
+ */
+export function findTermMatches(text: string, terms: string[]): HighlightRange[] {
+  if (terms.length === 0) return [];
+
+  const pattern = new RegExp(terms.map(escapeRegExp).join('|'), 'giu');
+  const matches: HighlightRange[] = [];
+
+  for (const match of text.matchAll(pattern)) {
+    const start = match.index!;
+    if (isWordStart(text, start)) {
+      matches.push({ start, end: start + match[0].length });
+    }
+  }
+
+  return matches;
+}
+
+/**
+ * Select the keyword-dense windows of a text
+ * Returns the leading passage when no term matches
+ */
+export function buildKeywordSnippets(
+  text: string,
+  terms: string[],
+  length: number = SNIPPET_LENGTH
+): SearchSnippet[] {
+  const matches = findTermMatches(text, terms);
+
+  if (text.length <= length || matches.length === 0) {
+    return [toSnippet(text, snapWindow(text, 0, length), matches)];
+  }
+
+  // One candidate window per match, starting a little before it for context
+  const candidates = matches.map((match) => {
+    const window = snapWindow(text, Math.max(0, match.start - Math.floor(length / 4)), length);
+    const inside = matches.filter((m) => m.start >= window.start && m.end <= window.end);
+    const distinct = new Set(inside.map((m) => text.slice(m.start, m.end).toLowerCase())).size;
+    return { window, distinct, count: inside.length };
+  });
+
+  candidates.sort((a, b) =>
+    b.distinct - a.distinct || b.count - a.count || a.window.start - b.window.start
+  );
+
+  const chosen: Array<{ start: number; end: number }> = [];
+  for (const { window } of candidates) {
+    if (chosen.length === MAX_SNIPPETS) break;
+    if (chosen.every((c) => window.end <= c.start || window.start >= c.end)) {
+      chosen.push(window);
+    }
+  }
+
+  return chosen
+    .sort((a, b) => a.start - b.start)
+    .map((window) => toSnippet(text, window, matches));
+}
+
+/**
+ * Build hits (snippets + score breakdown) for decrypted search results
+ */
+export function buildSearchHits(
+  query: SearchQuery,
+  memories: Memory[],
+  scores: Map<UUID, SearchScore>
+): SearchHit[] {
+  const terms = highlightTerms(query);
+
+  return memories.map((memory) => {
+    const text = memory.content.text || '';
+    const score = scores.get(memory.id);
+    let snippets = buildKeywordSnippets(text, terms);
+
+    // Chunk indexes follow the chunking the memory was embedded with
+    const semanticOnly = snippets[0].highlights.length === 0 && score?.semantic !== undefined;
+    const chunk = semanticOnly && score?.chunk ? chunkText(text)[score.chunk] : undefined;
+    if (chunk) {
+      snippets = [toSnippet(text, snapWindow(text, chunk.start, SNIPPET_LENGTH), [])];
+    }
+
+    return { memoryId: memory.id, score, snippets };
+  });
+}
+
+function toSnippet(text: string, window: { start: number; end: number }, matches: HighlightRange[]): SearchSnippet {
+  return {
+    text: text.slice(window.start, window.end),
+    start: window.start,
+    highlights: matches
+      .filter((m) => m.start >= window.start && m.end <= window.end)
+      .map((m) => ({ start: m.start - window.start, end: m.end - window.start })),
+  };
+}
+
+/**
+ * Window of about `length` characters from `start`, shrunk to whole words
+ */
+function snapWindow(text: string, start: number, length: number): { start: number; end: number } {
+  let from = start;
+  if (from > 0 && /\S/.test(text[from - 1])) {
+    const space = text.slice(from, from + length / 2).search(/\s/);
+    if (space !== -1) from += space;
+  }
+  while (from < text.length && /\s/.test(text[from])) from++;
+
+  let to = Math.min(text.length, from + length);
+  if (to < text.length && /\S/.test(text[to])) {
+    const space = text.slice(from, to).search(/\s\S*$/);
+    if (space > 0) to = from + space;
+  }
+
+  return { start: from, end: to };
+}
+
+function isWordStart(text: string, index: number): boolean {
+  if (index === 0) return true;
+  const previous = text[index - 1];
+  if (!/[\p{L}\p{N}]/u.test(previous)) return true;
+  // camelCase boundary: getUserById → User
+  return /\p{Ll}/u.test(previous) && /\p{Lu}/u.test(text[index]);
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
@@ -20,21 +20,46 @@ import {
   METADATA_KEYS,
   MemoryWithMemA,
   EnrichmentConfig,
+  EmbeddingVectors,
 } from '@engram/core';
 import { EnrichmentService } from './enrichment-service';
 import { LinkDetectionService } from './link-detection-service';
 import { EvolutionService } from './evolution-service';
 import { decryptApiKey, isEncrypted } from './api-key-crypto';
 import { getEmbeddingService } from './embedding-service';
-import type { HNSWIndexEntry, HNSWIndexService, HNSWStats } from './hnsw-index-service';
+import type { EmbeddingService } from './embedding-service';
+import { DEFAULT_EMBEDDING_MODEL_ID, getEmbeddingModel } from './embedding-models';
+import type { EmbeddingModelSettings, EmbeddingModelSpec } from './embedding-models';
+import type {
+  HNSWConsistencyReport,
+  HNSWIndexEntry,
+  HNSWIndexService,
+  HNSWLogEntry,
+  HNSWSearchResult,
+  HNSWStats,
+} from './hnsw-index-service';
 import { createLogger } from './logger';
 import { getCryptoService } from './crypto-service';
+import { KeywordIndexService } from './keyword-index-service';
+import type { KeywordDocEntry, KeywordPostingEntry } from './keyword-index-service';
+import { reciprocalRankFusion } from './rank-fusion';
+import type { SearchScore } from './rank-fusion';
+import { compareSearchPositions, hasContentClauses, matchesContentClauses } from './search-query';
+import type { SearchPosition, SearchQuery } from './search-query';
+import { isSelectedVersion } from './message-versions';
 
 // Declare chrome for TypeScript
 declare const chrome: any;
 
 const logger = createLogger('Storage');
 
+/**
+ * Filtered search ranks up to MAX_QUERY_CANDIDATES past the cursor once, then
+ * loads them in slices growing by this factor until enough pass the filters
+ */
+const QUERY_OVERFETCH_FACTOR = 4;
+const MAX_QUERY_CANDIDATES = 2000;
+
 /**
  * Search index entry
  */
@@ -51,14 +76,112 @@ interface MetadataEntry {
   value: any;
 }
 
+/**
+ * Options for searchMemories / queryMemories
+ */
+interface SearchOptions {
+  scores?: Map<UUID, SearchScore>; // Filled with the score breakdown of each result
+  branches?: MemoryFilter['branches']; // Message versions to include (default: all)
+  after?: SearchPosition; // Resume the ranking after this position (search cursors)
+  positions?: Map<UUID, SearchPosition>; // Filled with the ranking position of each result
+}
+
+/**
+ * Memory IDs ranked for a query, best first
+ * The keyword-scan fallback already holds the (decrypted) memories it ranked
+ */
+interface RankedMemories {
+  ids: UUID[];
+  memories?: Map<UUID, Memory>;
+}
+
+/**
+ * Ranking positions of up to `limit` candidates, best first
+ */
+interface RankedCandidates {
+  ranked: SearchPosition[];
+  memories?: Map<UUID, Memory>;
+}
+
+/**
+ * Options for saveMemory, updateMemory and deleteMemory
+ */
+interface ChangeOptions {
+  remote?: boolean; // Change received from another device, not recorded for sync
+}
+
 /**
  * Options for saveMemory
  */
-interface SaveMemoryOptions {
+interface SaveMemoryOptions extends ChangeOptions {
   skipInitialSave?: boolean;      // Skip immediate save, wait for enrichment
   useAtomicTransaction?: boolean;  // Wrap final save in transaction (default: true when skipInitialSave)
 }
 
+/**
+ * Records memory changes made on this device for sync (SyncManager)
+ */
+export interface LocalChangeRecorder {
+  recordLocalAdd(memory: MemoryWithMemA): Promise<void>;
+  /** @returns The memory with the edit and its merge state, to store */
+  recordLocalEdit(memory: MemoryWithMemA, updates: Partial<MemoryWithMemA>): Promise<MemoryWithMemA>;
+  recordLocalDelete(memoryId: UUID): Promise<void>;
+}
+
+/**
+ * Whether a memory satisfies a filter (ignores limit/offset)
+ */
+function matchesFilter(memory: Memory, filter: MemoryFilter): boolean {
+  if (filter.conversationId && memory.conversationId !== filter.conversationId) return false;
+  if (filter.platform && memory.platform !== filter.platform) return false;
+  if (filter.startDate && memory.timestamp < filter.startDate) return false;
+  if (filter.endDate && memory.timestamp > filter.endDate) return false;
+  if (filter.syncStatus && memory.syncStatus !== filter.syncStatus) return false;
+  if (filter.role && memory.content?.role !== filter.role) return false;
+  if (filter.tags && filter.tags.length > 0 && !filter.tags.some((tag) => memory.tags.includes(tag))) return false;
+  if (filter.branches === 'selected' && !isSelectedVersion(memory)) return false;
+  return true;
+}
+
+/**
+ * Memory fields that hold its vectors
+ */
+const VECTOR_FIELDS: (keyof EmbeddingVectors)[] = [
+  'embedding',
+  'encryptedEmbedding',
+  'embeddingVersion',
+  'encryptedChunkEmbeddings',
+  'chunkEmbeddings',
+  'embeddingModel',
+  'embeddingDimensions',
+];
+
+/**
+ * Fields only this device uses; changing them alone is not an edit to sync
+ */
+const LOCAL_FIELDS = new Set<string>([...VECTOR_FIELDS, 'stagedEmbedding', 'syncStatus']);
+
+function isSyncedEdit(updates: Partial<MemoryWithMemA>): boolean {
+  return Object.keys(updates).some((field) => !LOCAL_FIELDS.has(field));
+}
+
+/**
+ * Memory written on this device, to upload with the next cloud sync
+ */
+function pendingUpload<T extends Memory>(memory: T): T {
+  return memory.syncStatus === 'pending' ? memory : { ...memory, syncStatus: 'pending' };
+}
+
+/**
+ * Copy of a memory carrying other vectors in place of its own
+ */
+function withVectors(memory: MemoryWithMemA, vectors: EmbeddingVectors): MemoryWithMemA {
+  const copy = { ...memory };
+  VECTOR_FIELDS.forEach((field) => delete copy[field]);
+  delete copy.stagedEmbedding;
+  return Object.assign(copy, vectors);
+}
+
 /**
  * Dexie database class
  */
@@ -71,6 +194,9 @@ class EngramDatabase extends Dexie {
   metadata!: Table<MetadataEntry, string>;
   searchIndex!: Table<SearchIndexEntry, string>;
   hnswIndex!: Table<HNSWIndexEntry, string>; // Phase 4: HNSW vector index
+  hnswLog!: Table<HNSWLogEntry, number>; // HNSW operations since the last snapshot
+  keywordPostings!: Table<KeywordPostingEntry, [string, UUID]>; // Blinded BM25 postings
+  keywordDocs!: Table<KeywordDocEntry, UUID>;
 
   constructor() {
     super(DB_NAME);
@@ -100,6 +226,62 @@ class EngramDatabase extends Dexie {
       // Initial index build will happen in initialize()
       logger.log('Migration to v2 complete');
     });
+
+    // Version 3: Add blinded keyword index for hybrid search
+    this.version(3).stores({
+      memories: 'id, conversationId, platform, timestamp, syncStatus, *tags',
+      conversations: 'id, platform, lastMessageAt',
+      devices: 'id, lastSeenAt',
+      syncQueue: 'id, timestamp',
+      metadata: 'key',
+      searchIndex: 'tag',
+      hnswIndex: 'key',
+      keywordIndex: 'tag',     // Blinded token → postings
+      keywordDocs: 'memoryId', // Document lengths and tags for removal
+    }).upgrade(async () => {
+      logger.log('Migrating to v3: Adding keyword index tables...');
+      // Existing memories are indexed lazily on first search (needs master key)
+      logger.log('Migration to v3 complete');
+    });
+
+    // Version 4: Add HNSW operation log for incremental index persistence
+    this.version(4).stores({
+      memories: 'id, conversationId, platform, timestamp, syncStatus, *tags',
+      conversations: 'id, platform, lastMessageAt',
+      devices: 'id, lastSeenAt',
+      syncQueue: 'id, timestamp',
+      metadata: 'key',
+      searchIndex: 'tag',
+      hnswIndex: 'key',
+      keywordIndex: 'tag',
+      keywordDocs: 'memoryId',
+      hnswLog: '++seq', // Replayed on top of the hnswIndex snapshot
+    }).upgrade(async () => {
+      logger.log('Migrating to v4: Adding HNSW operation log...');
+      // Existing snapshots load unchanged (no logged operations to replay)
+      logger.log('Migration to v4 complete');
+    });
+
+    // Version 5: Key keyword postings per (tag, memory) instead of one list per tag
+    this.version(5).stores({
+      memories: 'id, conversationId, platform, timestamp, syncStatus, *tags',
+      conversations: 'id, platform, lastMessageAt',
+      devices: 'id, lastSeenAt',
+      syncQueue: 'id, timestamp',
+      metadata: 'key',
+      searchIndex: 'tag',
+      hnswIndex: 'key',
+      keywordIndex: null,                    // Replaced by keywordPostings
+      keywordPostings: '[tag+memoryId], tag', // Blinded token × memory → term frequency
+      keywordDocs: 'memoryId',
+      hnswLog: '++seq',
+    }).upgrade(async (tx) => {
+      logger.log('Migrating to v5: Rebuilding keyword postings...');
+      // Dexie cannot change a primary key in place, so the postings move to a new
+      // table. Clearing the docs makes the next search re-index every memory.
+      await tx.table('keywordDocs').clear();
+      logger.log('Migration to v5 complete');
+    });
   }
 }
 
@@ -115,11 +297,17 @@ export class StorageService implements IStorage {
   private linkDetectionService: LinkDetectionService | null = null;
   private evolutionService: EvolutionService | null = null;
   private hnswIndexService: HNSWIndexService | null = null; // Phase 4: Vector index
+  private stagedHNSWIndex: HNSWIndexService | null = null; // Index being filled while switching embedding models
+  private embeddingModel: EmbeddingModelSpec = getEmbeddingModel(); // Model of the active index
+  private keywordIndexService: KeywordIndexService; // Lexical half of hybrid search
+  private keywordIndexVerifiedFor: Uint8Array | null = null; // Master key the index was last reconciled with
   public forceEnrichmentInTests = false;
   private masterKeyProvider?: () => { key: Uint8Array } | null; // For embedding encryption
+  private changeRecorder?: LocalChangeRecorder; // Queues local changes for sync
 
   constructor() {
     this.db = new EngramDatabase();
+    this.keywordIndexService = new KeywordIndexService(this.db);
   }
 
   /**
@@ -128,6 +316,7 @@ export class StorageService implements IStorage {
    */
   setMasterKeyProvider(provider: () => { key: Uint8Array } | null): void {
     this.masterKeyProvider = provider;
+    this.keywordIndexService.setMasterKeyProvider(provider);
     console.log('[Storage] Master key provider set');
 
     // Also configure HNSW service if it exists and has the method
@@ -137,6 +326,14 @@ export class StorageService implements IStorage {
     }
   }
 
+  /**
+   * Set the recorder of local changes for sync
+   * Called by BackgroundService once the sync manager is initialized
+   */
+  setLocalChangeRecorder(recorder: LocalChangeRecorder): void {
+    this.changeRecorder = recorder;
+  }
+
   /**
    * Get master key for embedding encryption
    */
@@ -195,7 +392,7 @@ export class StorageService implements IStorage {
             }
           }
 
-          await this.db.memories.put(memory);
+          await this.db.memories.put(pendingUpload(memory));
           logger.log(`[Storage] Persisted enriched memory: ${memory.id}`);
         } catch (error) {
           logger.error(`[Storage] Failed to persist enriched memory:`, error);
@@ -295,7 +492,7 @@ export class StorageService implements IStorage {
             }
           }
 
-          await this.db.memories.put(memory);
+          await this.db.memories.put(pendingUpload(memory));
           console.log(`[Storage] Persisted enriched memory: ${memory.id}`);
         } catch (error) {
           console.error(`[Storage] Failed to persist enriched memory:`, error);
@@ -325,9 +522,14 @@ export class StorageService implements IStorage {
    * Loads existing index from IndexedDB or builds new one from memories
    */
   private async initializeHNSWIndex(): Promise<void> {
+    // Embed and index with the active model
+    const settings = await this.getEmbeddingModelSettings();
+    this.embeddingModel = getEmbeddingModel(settings.modelId);
+    getEmbeddingService().setModel(settings);
+
     // Dynamically import HNSW service to avoid build-time edgevec dependency
     const { HNSWIndexService } = await import('./hnsw-index-service');
-    this.hnswIndexService = new HNSWIndexService();
+    this.hnswIndexService = new HNSWIndexService(this.embeddingModel);
 
     // Try to load existing index from IndexedDB
     const loaded = await this.hnswIndexService.load(this.db);
@@ -385,7 +587,7 @@ export class StorageService implements IStorage {
     plaintextContent?: { role: string; text: string; metadata?: any },
     options?: SaveMemoryOptions
   ): Promise<void> {
-    const memoryWithMemA = memory as MemoryWithMemA;
+    let memoryWithMemA = memory as MemoryWithMemA;
 
     // Conflict resolution: Only save if new version is actually newer
     const existing = await this.db.memories.get(memory.id);
@@ -402,6 +604,14 @@ export class StorageService implements IStorage {
         console.log(`[Storage] Skipping save for ${memory.id} - existing version is newer or identical`);
         return;
       }
+
+      // Saving over a memory edits it
+      if (this.changeRecorder && !options?.remote) {
+        memoryWithMemA = await this.changeRecorder.recordLocalEdit(existingWithMemA, memoryWithMemA);
+      }
+    }
+    if (!options?.remote) {
+      memoryWithMemA = pendingUpload(memoryWithMemA);
     }
 
     // Determine if we should enrich
@@ -427,6 +637,7 @@ export class StorageService implements IStorage {
         await this.db.memories.put(memoryWithMemA);
         await this.updateConversationMetadata(memory);
         // Don't re-throw - the memory was saved successfully (just without enrichment)
+        await this.updateKeywordIndex(memoryWithMemA);
       } finally {
         this.enrichmentService.setAtomicMode(false);
       }
@@ -434,6 +645,7 @@ export class StorageService implements IStorage {
       // Current behavior: immediate save + background enrichment
       await this.db.memories.put(memoryWithMemA);
       await this.updateConversationMetadata(memory);
+      await this.updateKeywordIndex(memoryWithMemA);
 
       if (shouldEnrich) {
         this.enrichInBackground(memoryWithMemA, plaintextContent).catch((err) => {
@@ -441,6 +653,10 @@ export class StorageService implements IStorage {
         });
       }
     }
+
+    if (!existing && this.changeRecorder && !options?.remote) {
+      await this.changeRecorder.recordLocalAdd(memoryWithMemA);
+    }
   }
 
   /**
@@ -495,20 +711,7 @@ export class StorageService implements IStorage {
     let memories = await query.toArray();
 
     // Apply additional filters
-    if (filter.startDate) {
-      memories = memories.filter((m) => m.timestamp >= filter.startDate!);
-    }
-    if (filter.endDate) {
-      memories = memories.filter((m) => m.timestamp <= filter.endDate!);
-    }
-    if (filter.syncStatus) {
-      memories = memories.filter((m) => m.syncStatus === filter.syncStatus);
-    }
-    if (filter.tags && filter.tags.length > 0) {
-      memories = memories.filter((m) =>
-        filter.tags!.some((tag) => m.tags.includes(tag))
-      );
-    }
+    memories = memories.filter((m) => matchesFilter(m, filter));
 
     // Sort by timestamp (newest first)
     memories.sort((a, b) => b.timestamp - a.timestamp);
@@ -519,11 +722,37 @@ export class StorageService implements IStorage {
     return memories.slice(offset, offset + limit);
   }
 
+  /**
+   * Memories not uploaded to the cloud since they last changed, oldest first
+   */
+  async getUnsyncedMemories(): Promise<Memory[]> {
+    const memories = await this.db.memories.where('syncStatus').anyOf('pending', 'failed').toArray();
+    return memories.sort((a, b) => a.timestamp - b.timestamp);
+  }
+
   /**
    * Update a memory
    */
-  async updateMemory(id: UUID, updates: Partial<Memory>): Promise<void> {
-    await this.db.memories.update(id, updates);
+  async updateMemory(id: UUID, updates: Partial<Memory>, options?: ChangeOptions): Promise<void> {
+    const localEdit = !options?.remote && isSyncedEdit(updates as Partial<MemoryWithMemA>);
+    let stored: Partial<Memory> = updates;
+    if (this.changeRecorder && localEdit) {
+      const memory = await this.getMemory(id);
+      if (memory) {
+        const edited = await this.changeRecorder.recordLocalEdit(memory as MemoryWithMemA, updates as Partial<MemoryWithMemA>);
+        // The edited fields as merged into the CRDT state (e.g. tags), with that state
+        stored = {
+          ...Object.fromEntries(Object.keys(updates).map((field) => [field, (edited as any)[field]])),
+          vectorClock: edited.vectorClock,
+          crdt: edited.crdt,
+        } as Partial<MemoryWithMemA>;
+      }
+    }
+
+    if (localEdit) {
+      stored = { ...stored, syncStatus: 'pending' };
+    }
+    await this.db.memories.update(id, stored);
 
     // If tags or timestamp changed, update conversation metadata
     if (updates.tags || updates.timestamp) {
@@ -532,22 +761,39 @@ export class StorageService implements IStorage {
         await this.updateConversationMetadata(memory);
       }
     }
+
+    // If searchable fields changed, re-index keywords
+    const memAUpdates = updates as Partial<MemoryWithMemA>;
+    if (updates.content || (updates as any).encryptedContent || updates.tags || memAUpdates.keywords || memAUpdates.context) {
+      const memory = await this.getMemory(id);
+      if (memory) {
+        await this.updateKeywordIndex(memory);
+      }
+    }
   }
 
   /**
    * Delete a memory
    */
-  async deleteMemory(id: UUID): Promise<void> {
+  async deleteMemory(id: UUID, options?: ChangeOptions): Promise<void> {
     const memory = await this.getMemory(id);
     if (!memory) return;
 
+    if (this.changeRecorder && !options?.remote) {
+      await this.changeRecorder.recordLocalDelete(id);
+    }
+
     await this.db.memories.delete(id);
+    await this.keywordIndexService.removeDocument(id);
 
     // Remove from HNSW index (Phase 4)
     if (this.hnswIndexService?.isReady()) {
       await this.hnswIndexService.remove(id);
       await this.hnswIndexService.persist(this.db);
     }
+    if (this.stagedHNSWIndex?.isReady()) {
+      await this.stagedHNSWIndex.remove(id);
+    }
 
     // Update conversation metadata
     await this.updateConversationMetadata(memory);
@@ -628,25 +874,99 @@ export class StorageService implements IStorage {
   /**
    * Search memories by query
    */
-  async searchMemories(query: string, limit: number = 100): Promise<Memory[]> {
+  async searchMemories(query: string, limit: number = 100, options?: SearchOptions): Promise<Memory[]> {
+    if (options?.branches !== 'selected') {
+      return this.loadRanked(await this.rankMemories(query, limit, options), 0, limit);
+    }
+
+    // Versions the conversation is not showing are dropped after ranking
+    return this.selectRanked(query, limit, options, (memories) => memories.filter(isSelectedVersion));
+  }
+
+  /**
+   * Rank a query once, then load the ranking slice by slice until `select`
+   * keeps `limit` memories or the ranking is exhausted
+   */
+  private async selectRanked(
+    query: string,
+    limit: number,
+    options: SearchOptions | undefined,
+    select: (memories: Memory[]) => Memory[] | Promise<Memory[]>
+  ): Promise<Memory[]> {
+    const ranking = await this.rankMemories(query, MAX_QUERY_CANDIDATES, options);
+    const results: Memory[] = [];
+
+    let start = 0;
+    let size = limit;
+    while (results.length < limit && start < ranking.ids.length) {
+      results.push(...(await select(await this.loadRanked(ranking, start, start + size))));
+      start += size;
+      size *= QUERY_OVERFETCH_FACTOR;
+    }
+
+    return results.slice(0, limit);
+  }
+
+  /**
+   * Load the memories ranked in [start, end)
+   */
+  private async loadRanked(ranking: RankedMemories, start: number, end: number): Promise<Memory[]> {
+    const ids = ranking.ids.slice(start, end);
+    const memories = ranking.memories
+      ? ids.map((id) => ranking.memories!.get(id))
+      : await this.db.memories.bulkGet(ids);
+    return memories.filter((memory): memory is Memory => !!memory);
+  }
+
+  /**
+   * Rank memories for a free-text query
+   * After a cursor position, ranks deeper until `limit` memories follow it or
+   * the ranking is exhausted
+   */
+  private async rankMemories(query: string, limit: number, options?: SearchOptions): Promise<RankedMemories> {
+    const after = options?.after;
+
+    for (let depth = limit; ; depth *= QUERY_OVERFETCH_FACTOR) {
+      const { ranked, memories } = await this.rankCandidates(query, depth, options?.scores);
+      const following = after ? ranked.filter((position) => compareSearchPositions(position, after) > 0) : ranked;
+
+      if (following.length >= limit || ranked.length < depth) {
+        const page = following.slice(0, limit);
+        page.forEach((position) => options?.positions?.set(position.id, position));
+        return { ids: page.map((position) => position.id), memories };
+      }
+    }
+  }
+
+  /**
+   * Rank the best `limit` memories for a free-text query (hybrid, semantic,
+   * then keyword scan)
+   */
+  private async rankCandidates(query: string, limit: number, scores?: Map<UUID, SearchScore>): Promise<RankedCandidates> {
     const normalizedQuery = query.toLowerCase().trim();
 
-    // 1. Try semantic search if HNSW is ready (Phase 4)
-    if (this.hnswIndexService?.isReady()) {
+    // 1. Hybrid search when tokens can be blinded (requires master key)
+    if (this.keywordIndexService.isReady()) {
+      try {
+        const fused = await this.hybridSearch(query.trim(), limit, scores);
+        if (fused.length > 0) {
+          return { ranked: fused.sort(compareSearchPositions) };
+        }
+      } catch (error) {
+        logger.error('Hybrid search failed, falling back to keyword scan:', error);
+      }
+    } else if (this.hnswIndexService?.isReady()) {
+      // Semantic-only search (no master key for the keyword index)
       try {
         const embeddingService = getEmbeddingService();
         const queryVector = await embeddingService.embed(normalizedQuery);
         const results = await this.hnswIndexService.search(new Float32Array(queryVector), limit);
 
         if (results.length > 0) {
-          const memories: Memory[] = [];
           for (const res of results) {
-            const memory = await this.getMemory(res.id);
-            if (memory) {
-              memories.push(memory);
-            }
+            scores?.set(res.id, { fused: 1 - res.distance, semantic: 1 - res.distance, chunk: res.chunk });
           }
-          return memories;
+          return { ranked: results.map((res) => ({ score: 1 - res.distance, id: res.id })).sort(compareSearchPositions) };
         }
       } catch (error) {
         logger.error('Semantic search failed, falling back to keyword search:', error);
@@ -712,15 +1032,210 @@ export class StorageService implements IStorage {
     // Sort by relevance (simple: more occurrences = more relevant)
     const escapedQuery = normalizedQuery.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
     const queryRegExp = new RegExp(escapedQuery, 'g');
-    results.sort((a, b) => {
-      const aText = a.content?.text?.toLowerCase() || "";
-      const bText = b.content?.text?.toLowerCase() || "";
-      const aOccurrences = (aText.match(queryRegExp) || []).length;
-      const bOccurrences = (bText.match(queryRegExp) || []).length;
-      return bOccurrences - aOccurrences;
+    const ranked = results
+      .map((memory) => ({
+        score: ((memory.content?.text?.toLowerCase() || "").match(queryRegExp) || []).length,
+        id: memory.id,
+      }))
+      .sort(compareSearchPositions)
+      .slice(0, limit);
+
+    return { ranked, memories: new Map(results.map((memory) => [memory.id, memory])) };
+  }
+
+  /**
+   * Run a structured query (see search-query.ts for the grammar)
+   * Free text is ranked by searchMemories; filters and phrase/exclusion/has:
+   * clauses then narrow the ranked candidates. Without free text, matching
+   * memories are returned newest first.
+   */
+  async queryMemories(query: SearchQuery, limit: number = 100, options?: SearchOptions): Promise<Memory[]> {
+    if (!query.text) {
+      const memories = await this.getMemories({
+        ...query.filter,
+        branches: query.filter.branches ?? options?.branches,
+        limit: undefined,
+        offset: undefined,
+      });
+
+      // Newest first, resumed after the cursor
+      const position = (memory: Memory): SearchPosition => ({ score: memory.timestamp, id: memory.id });
+      const after = options?.after;
+      const following = memories
+        .filter((memory) => !after || compareSearchPositions(position(memory), after) > 0)
+        .sort((a, b) => compareSearchPositions(position(a), position(b)));
+
+      const results = await this.applyContentClauses(following, query, limit);
+      results.forEach((memory) => options?.positions?.set(memory.id, position(memory)));
+      return results;
+    }
+
+    // Filters apply after ranking
+    const selectedOnly = options?.branches === 'selected';
+    return this.selectRanked(query.text, limit, options, (memories) => {
+      const candidates = memories.filter(
+        (memory) => (!selectedOnly || isSelectedVersion(memory)) && matchesFilter(memory, query.filter)
+      );
+      return this.applyContentClauses(candidates, query, limit);
     });
+  }
 
-    return results.slice(0, limit);
+  /**
+   * Keep memories matching phrase/exclusion/has: clauses (decrypts as needed)
+   */
+  private async applyContentClauses(memories: Memory[], query: SearchQuery, limit: number): Promise<Memory[]> {
+    if (!hasContentClauses(query)) {
+      return memories.slice(0, limit);
+    }
+
+    const results: Memory[] = [];
+    for (const memory of memories) {
+      try {
+        const content = await this.decryptContent(memory);
+        if (content && matchesContentClauses(query, memory, content)) {
+          results.push(memory);
+          if (results.length >= limit) break;
+        }
+      } catch (error) {
+        console.error(`[Storage] Failed to decrypt memory ${memory.id} for query:`, error);
+      }
+    }
+    return results;
+  }
+
+  /**
+   * Hybrid search: BM25 over the blinded keyword index fused with HNSW
+   * nearest neighbours by reciprocal-rank fusion
+   * Exact identifiers and error strings rank via BM25 even when embeddings miss them
+   *
+   * @returns Ranked memory IDs
+   */
+  private async hybridSearch(
+    query: string,
+    limit: number,
+    scores?: Map<UUID, SearchScore>
+  ): Promise<SearchPosition[]> {
+    await this.ensureKeywordIndex();
+
+    // Over-fetch from each retriever so fusion can promote results both agree on
+    const candidates = limit * 2;
+    const lexical = await this.keywordIndexService.search(query, candidates);
+
+    let semantic: HNSWSearchResult[] = [];
+    if (this.hnswIndexService?.isReady()) {
+      try {
+        const embeddingService = getEmbeddingService();
+        const queryVector = await embeddingService.embed(query.toLowerCase());
+        semantic = await this.hnswIndexService.search(new Float32Array(queryVector), candidates);
+      } catch (error) {
+        logger.error('Semantic search failed, using keyword results only:', error);
+      }
+    }
+
+    const fused = reciprocalRankFusion([
+      lexical.map((result) => result.id),
+      semantic.map((result) => result.id),
+    ]).slice(0, limit);
+
+    if (scores) {
+      const lexicalScores = new Map(lexical.map((result) => [result.id, result.score]));
+      const semanticResults = new Map(semantic.map((result) => [result.id, result]));
+      for (const result of fused) {
+        const match = semanticResults.get(result.id);
+        scores.set(result.id, {
+          fused: result.score,
+          lexical: lexicalScores.get(result.id),
+          semantic: match ? 1 - match.distance : undefined,
+          chunk: match?.chunk,
+        });
+      }
+    }
+
+    return fused.map((result) => ({ score: result.score, id: result.id }));
+  }
+
+  /**
+   * Reconcile the keyword index with stored memories once per master key
+   * Indexes memories saved before the index existed (or while locked) and
+   * drops entries for memories removed outside deleteMemory (e.g. sync)
+   */
+  private async ensureKeywordIndex(): Promise<void> {
+    const masterKey = this.getMasterKeyForEncryption();
+    if (!masterKey || this.keywordIndexVerifiedFor === masterKey.key) {
+      return;
+    }
+
+    await this.keywordIndexService.ensureKeyMatches();
+
+    const indexedIds = await this.keywordIndexService.getIndexedIds();
+    const memories = await this.db.memories.toArray();
+    const storedIds = new Set(memories.map((memory) => memory.id));
+
+    const missing = memories.filter((memory) => !indexedIds.has(memory.id));
+    if (missing.length > 0) {
+      logger.log(`Indexing ${missing.length} memories for keyword search...`);
+    }
+    for (const memory of missing) {
+      await this.updateKeywordIndex(memory);
+    }
+
+    for (const id of indexedIds) {
+      if (!storedIds.has(id)) {
+        await this.keywordIndexService.removeDocument(id);
+      }
+    }
+
+    this.keywordIndexVerifiedFor = masterKey.key;
+  }
+
+  /**
+   * Re-index a memory's searchable text (content, code, tags, keywords, context)
+   * Failures are logged and never block saves - ensureKeywordIndex() heals gaps
+   */
+  private async updateKeywordIndex(memory: Memory): Promise<void> {
+    if (!this.keywordIndexService.isReady()) return;
+
+    try {
+      const content = await this.decryptContent(memory);
+      if (!content) return;
+
+      const text = content?.text || '';
+      const memA = memory as MemoryWithMemA;
+      // Code blocks are usually part of the captured text; only add missing ones
+      const code = (content?.metadata?.codeBlocks || [])
+        .map((block) => block.code)
+        .filter((blockCode) => blockCode && !text.includes(blockCode));
+
+      await this.keywordIndexService.indexDocument(memory.id, [
+        text,
+        ...code,
+        ...(memory.tags || []),
+        ...(memA.keywords || []),
+        memA.context || '',
+      ].join('\n'));
+    } catch (error) {
+      console.error(`[Storage] Failed to update keyword index for ${memory.id}:`, error);
+    }
+  }
+
+  /**
+   * Plaintext content of a memory, decrypting it when stored encrypted
+   * Returns null if the content is encrypted and no master key is available
+   */
+  private async decryptContent(memory: Memory): Promise<Memory['content'] | null> {
+    const encryptedContent = (memory as any).encryptedContent;
+    if (!encryptedContent) {
+      return memory.content;
+    }
+
+    const masterKey = this.getMasterKeyForEncryption();
+    if (!masterKey) {
+      return null;
+    }
+
+    const crypto = await getCryptoService();
+    const decryptedBytes = await crypto.decrypt(encryptedContent, masterKey.key);
+    return JSON.parse(new TextDecoder().decode(decryptedBytes));
   }
 
   /**
@@ -730,6 +1245,13 @@ export class StorageService implements IStorage {
     return this.hnswIndexService;
   }
 
+  /**
+   * Get raw HNSW index table entries (used by backup export)
+   */
+  async getHNSWIndexEntries(): Promise<HNSWIndexEntry[]> {
+    return this.db.hnswIndex.toArray();
+  }
+
   /**
    * Get HNSW index statistics
    */
@@ -824,6 +1346,10 @@ export class StorageService implements IStorage {
   async bulkSaveMemories(memories: Memory[]): Promise<void> {
     await this.db.memories.bulkPut(memories);
 
+    for (const memory of memories) {
+      await this.updateKeywordIndex(memory);
+    }
+
     // Update conversation metadata for all affected conversations
     const conversationIds = new Set(memories.map((m) => m.conversationId));
     for (const conversationId of conversationIds) {
@@ -836,6 +1362,80 @@ export class StorageService implements IStorage {
     }
   }
 
+  /**
+   * Enrich, embed and index memories that were bulk-inserted by an importer
+   * Unlike saveMemory this waits for each memory so callers can report progress,
+   * embeds the plaintext directly, and skips link detection to keep LLM cost bounded
+   * for large backfills
+   */
+  async processImportedMemories(
+    items: Array<{ memory: Memory; plaintextContent: { role: string; text: string; metadata?: any } }>,
+    onProgress?: (current: number, total: number) => void
+  ): Promise<{ processed: number; failed: number }> {
+    const isTestEnv = typeof (globalThis as any).process !== 'undefined' &&
+                      (globalThis as any).process.env.NODE_ENV === 'test';
+    const shouldEnrich = this.enrichmentService && (!isTestEnv || this.forceEnrichmentInTests);
+    const embeddingService = getEmbeddingService();
+    const stats = { processed: 0, failed: 0 };
+
+    for (let i = 0; i < items.length; i++) {
+      const memory = items[i].memory as MemoryWithMemA;
+      const plaintext = items[i].plaintextContent;
+
+      try {
+        const content = {
+          role: plaintext.role as 'user' | 'assistant' | 'system',
+          text: plaintext.text,
+          metadata: plaintext.metadata || {},
+        };
+
+        if (shouldEnrich && this.enrichmentService) {
+          // Enrichment clears plaintext from the queued copy, so it gets its own content object
+          const enrichmentCopy: MemoryWithMemA = { ...memory, content: { ...content } };
+          this.enrichmentService.setAtomicMode(true);
+          try {
+            await this.enrichmentService.enrichMemory(enrichmentCopy);
+            await this.enrichmentService.waitForQueue(10000);
+          } catch (err) {
+            console.error(`[Storage] Enrichment failed for imported memory ${memory.id}:`, err);
+          } finally {
+            this.enrichmentService.setAtomicMode(false);
+          }
+
+          memory.keywords = enrichmentCopy.keywords;
+          memory.tags = enrichmentCopy.tags || memory.tags;
+          memory.context = enrichmentCopy.context;
+          memory.memAVersion = enrichmentCopy.memAVersion;
+        }
+
+        // Embed plaintext plus enrichment (keywords + context + tags)
+        const { embedding, chunkEmbeddings } = await embeddingService.regenerateEmbedding({ ...memory, content });
+        if (embedding) {
+          await this.attachEmbedding(memory, embedding, chunkEmbeddings);
+        }
+
+        // SECURITY: Clear plaintext before persisting
+        content.text = '';
+        content.metadata = {};
+
+        await this.db.memories.put(pendingUpload(memory));
+        await this.updateKeywordIndex(memory);
+        stats.processed++;
+      } catch (err) {
+        console.error(`[Storage] Failed to process imported memory ${memory.id}:`, err);
+        stats.failed++;
+      }
+
+      onProgress?.(i + 1, items.length);
+    }
+
+    if (this.hnswIndexService?.isReady()) {
+      await this.hnswIndexService.persist(this.db);
+    }
+
+    return stats;
+  }
+
   /**
    * Get storage statistics
    */
@@ -986,47 +1586,11 @@ export class StorageService implements IStorage {
 
       // Copy the embedding to the memory
       if (memoryWithEmbedding.embedding) {
-        // SECURITY: Encrypt embedding before storage
-        const embeddingFloat32 = new Float32Array(memoryWithEmbedding.embedding);
-        const embeddingBytes = new Uint8Array(embeddingFloat32.buffer);
+        await this.attachEmbedding(memory, memoryWithEmbedding.embedding, memoryWithEmbedding.chunkEmbeddings);
 
-        try {
-          const masterKey = this.getMasterKeyForEncryption();
-
-          if (masterKey) {
-            // Encrypt with master key
-            const crypto = await getCryptoService();
-            const encryptedEmbedding = await crypto.encrypt(embeddingBytes, masterKey.key);
-
-            (memory as any).encryptedEmbedding = encryptedEmbedding;
-            (memory as any).embeddingVersion = 2;
-
-            console.log(`[Storage] Encrypted embedding for ${memory.id}`);
-          } else {
-            // Fallback: store unencrypted (shouldn't happen in production)
-            console.warn(`[Storage] No master key, storing unencrypted embedding for ${memory.id}`);
-            (memory as any).embedding = embeddingFloat32;
-            (memory as any).embeddingVersion = 1;
-          }
-        } catch (err) {
-          console.error(`[Storage] Encryption failed for ${memory.id}:`, err);
-          // Fallback to unencrypted
-          (memory as any).embedding = embeddingFloat32;
-          (memory as any).embeddingVersion = 1;
-        }
-
-        // Add/Update HNSW index (Phase 4)
-        // Use add() which handles both new memories and updates (creates index if needed)
+        // Cheap: the update is already logged, snapshots only happen on compaction
         if (this.hnswIndexService) {
-          await this.hnswIndexService.add(
-            memory.id,
-            embeddingFloat32
-          );
-
-          // Batch persist (every 10 updates to reduce I/O)
-          if (Math.random() < 0.1) {
-            await this.hnswIndexService.persist(this.db);
-          }
+          await this.hnswIndexService.persist(this.db);
         }
       }
 
@@ -1084,15 +1648,8 @@ export class StorageService implements IStorage {
                     const embeddingService = getEmbeddingService();
                     const evolved = await embeddingService.regenerateEmbedding(linkedMemory);
                     if (evolved.embedding) {
-                      (linkedMemory as any).embedding = new Float32Array(evolved.embedding);
-
-                      // Add/Update HNSW index for evolved memory (Phase 4)
-                      if (this.hnswIndexService) {
-                        await this.hnswIndexService.add(
-                          linkedMemory.id,
-                          new Float32Array(evolved.embedding)
-                        );
-                      }
+                      // Encrypts onto the memory and updates the HNSW index (Phase 4)
+                      await this.attachEmbedding(linkedMemory, evolved.embedding, evolved.chunkEmbeddings);
                     }
                     console.log(`[Storage] Regenerated embedding for evolved memory ${linkedMemory.id}`);
                   } catch (err) {
@@ -1115,7 +1672,8 @@ export class StorageService implements IStorage {
         await this.linkDetectionService.createBidirectionalLinks(memory, links, allMemories);
 
         // Save all updated memories (source + targets with reverse links + evolved memories)
-        await this.db.memories.bulkPut(allMemories);
+        const changed = new Set([memory.id, ...links.map((link) => link.memoryId)]);
+        await this.db.memories.bulkPut(allMemories.map((m) => (changed.has(m.id) ? pendingUpload(m) : m)));
 
         // Persist HNSW index after bulk updates (Phase 4)
         if (this.hnswIndexService?.isReady()) {
@@ -1151,34 +1709,35 @@ export class StorageService implements IStorage {
       // Use atomic transaction if requested
       if (options?.useAtomicTransaction) {
         try {
-          await this.db.transaction('rw', [this.db.memories, this.db.conversations, this.db.hnswIndex], async () => {
+          await this.db.transaction('rw', [this.db.memories, this.db.conversations], async () => {
             // 1. Save fully enriched memory
-            await this.db.memories.put(memory);
+            await this.db.memories.put(pendingUpload(memory));
 
             // 2. Update conversation metadata (must be atomic with memory)
             await this.updateConversationMetadata(memory);
-
-            // 3. Persist HNSW index (if ready)
-            if (this.hnswIndexService?.isReady()) {
-              await this.hnswIndexService.persist(this.db);
-            }
           });
           console.log(`[Storage] Atomically saved enriched memory ${memory.id}`);
         } catch (transactionError) {
           // Fallback to non-transactional save if transactions not supported (e.g., in test env with fake-indexeddb)
           console.warn(`[Storage] Transaction failed for ${memory.id}, falling back to non-transactional save:`, transactionError);
-          await this.db.memories.put(memory);
+          await this.db.memories.put(pendingUpload(memory));
           await this.updateConversationMetadata(memory);
-          if (this.hnswIndexService?.isReady()) {
-            await this.hnswIndexService.persist(this.db);
-          }
           console.log(`[Storage] Non-transactionally saved enriched memory ${memory.id}`);
         }
+
+        // 3. Persist HNSW index after commit: vector operations are already in
+        // the log, and compaction runs its own transaction and EdgeVec's own writes
+        if (this.hnswIndexService?.isReady()) {
+          await this.hnswIndexService.persist(this.db);
+        }
       } else {
         // Legacy path: separate operations
-        await this.db.memories.put(memory);
+        await this.db.memories.put(pendingUpload(memory));
         console.log(`[Storage] Enriched memory ${memory.id}`);
       }
+
+      // Re-index with enrichment keywords, tags and context
+      await this.updateKeywordIndex(memory);
     } catch (err: any) {
       // Ignore DatabaseClosedError (happens in tests when DB is closed mid-operation)
       if (err?.name !== 'DatabaseClosedError') {
@@ -1187,6 +1746,244 @@ export class StorageService implements IStorage {
     }
   }
 
+  /**
+   * Encrypt an embedding (and chunk embeddings of long memories) onto a memory
+   * and add it to the HNSW index
+   *
+   * @param model - Model that produced the vectors (recorded on the memory)
+   * @param index - Index to add the vectors to
+   */
+  private async attachEmbedding(
+    memory: MemoryWithMemA,
+    embedding: number[],
+    chunkEmbeddings?: number[][],
+    model: EmbeddingModelSpec = this.embeddingModel,
+    index: HNSWIndexService | null = this.hnswIndexService
+  ): Promise<void> {
+    // SECURITY: Encrypt embedding before storage
+    const embeddingFloat32 = new Float32Array(embedding);
+    const embeddingBytes = new Uint8Array(embeddingFloat32.buffer);
+
+    // Chunk vectors are stored concatenated in one blob
+    const chunksFloat32 = chunkEmbeddings && chunkEmbeddings.length > 1
+      ? new Float32Array(chunkEmbeddings.flat())
+      : null;
+    delete memory.encryptedChunkEmbeddings;
+    delete memory.chunkEmbeddings;
+    delete memory.stagedEmbedding; // Vectors of the old content; a running model switch re-embeds it
+    memory.embeddingModel = model.id;
+    memory.embeddingDimensions = embedding.length;
+
+    try {
+      const masterKey = this.getMasterKeyForEncryption();
+
+      if (masterKey) {
+        // Encrypt with master key
+        const crypto = await getCryptoService();
+        const encryptedEmbedding = await crypto.encrypt(embeddingBytes, masterKey.key);
+
+        (memory as any).encryptedEmbedding = encryptedEmbedding;
+        (memory as any).embeddingVersion = 2;
+        if (chunksFloat32) {
+          memory.encryptedChunkEmbeddings = await crypto.encrypt(new Uint8Array(chunksFloat32.buffer), masterKey.key);
+        }
+
+        console.log(`[Storage] Encrypted embedding for ${memory.id}`);
+      } else {
+        // Fallback: store unencrypted (shouldn't happen in production)
+        console.warn(`[Storage] No master key, storing unencrypted embedding for ${memory.id}`);
+        (memory as any).embedding = embeddingFloat32;
+        (memory as any).embeddingVersion = 1;
+        if (chunksFloat32) memory.chunkEmbeddings = chunksFloat32;
+      }
+    } catch (err) {
+      console.error(`[Storage] Encryption failed for ${memory.id}:`, err);
+      // Fallback to unencrypted
+      (memory as any).embedding = embeddingFloat32;
+      (memory as any).embeddingVersion = 1;
+      if (chunksFloat32) memory.chunkEmbeddings = chunksFloat32;
+    }
+
+    // Add/Update HNSW index (Phase 4)
+    // add()/addChunks() handle both new memories and updates (creates index if needed)
+    if (index) {
+      if (chunksFloat32) {
+        await index.addChunks(memory.id, chunkEmbeddings!.map((chunk) => new Float32Array(chunk)));
+      } else {
+        await index.add(memory.id, embeddingFloat32);
+      }
+    }
+  }
+
+  /**
+   * Get the active embedding model settings
+   * Falls back to BGE-Small for installs predating the model registry
+   * (or a model no longer in the registry)
+   */
+  async getEmbeddingModelSettings(): Promise<EmbeddingModelSettings> {
+    const settings = await this.getMetadata<EmbeddingModelSettings>(METADATA_KEYS.EMBEDDING_MODEL);
+
+    try {
+      if (settings) {
+        getEmbeddingModel(settings.modelId);
+        return settings;
+      }
+    } catch (error) {
+      logger.warn('Ignoring unknown embedding model setting:', error);
+    }
+
+    return { modelId: DEFAULT_EMBEDDING_MODEL_ID };
+  }
+
+  /**
+   * Start a new, empty HNSW index for another embedding model
+   * Memories deleted while it fills are removed from it too; the active
+   * index keeps serving searches until promoteStagedHNSWIndex()
+   *
+   * @param migrated - Memories with stored (or staged) vectors of the model
+   */
+  async stageHNSWIndex(model: EmbeddingModelSpec, migrated: Memory[] = []): Promise<HNSWIndexService> {
+    const { HNSWIndexService } = await import('./hnsw-index-service');
+    const index = new HNSWIndexService(model);
+    if (this.masterKeyProvider) {
+      index.setMasterKeyProvider(this.masterKeyProvider);
+    }
+
+    await index.build(
+      (migrated as MemoryWithMemA[]).map((memory) =>
+        memory.stagedEmbedding?.embeddingModel === model.id ? withVectors(memory, memory.stagedEmbedding) : memory
+      )
+    );
+    this.stagedHNSWIndex = index;
+    return index;
+  }
+
+  /**
+   * Re-embed one memory with the given model's service
+   * Vectors go to the staged index of that model, stored next to the active
+   * vectors until promotion, or to the active index if the model is already
+   * active. Reads the latest stored version so concurrent edits are not
+   * overwritten
+   *
+   * @returns false if the memory was deleted or its content cannot be decrypted
+   */
+  async reembedMemory(id: UUID, embeddingService: EmbeddingService): Promise<boolean> {
+    const model = embeddingService.getModel();
+    const index = this.stagedHNSWIndex?.getModel().id === model.id
+      ? this.stagedHNSWIndex
+      : this.embeddingModel.id === model.id ? this.hnswIndexService : null;
+    if (!index) {
+      throw new Error(`No HNSW index for embedding model ${model.id}`);
+    }
+
+    const stored = await this.db.memories.get(id);
+    const content = stored && await this.decryptContent(stored);
+    if (!stored || !content?.text) {
+      return false;
+    }
+
+    const { embedding, chunkEmbeddings } = await embeddingService.regenerateEmbedding({ ...stored, content });
+
+    const latest = await this.db.memories.get(id) as MemoryWithMemA | undefined;
+    if (!latest) {
+      return false;
+    }
+
+    if (index === this.stagedHNSWIndex) {
+      // The active index rebuilds and repairs from the active vectors, so they stay until promotion
+      const staged = { id: latest.id } as MemoryWithMemA;
+      await this.attachEmbedding(staged, embedding!, chunkEmbeddings, model, index);
+      latest.stagedEmbedding = {};
+      VECTOR_FIELDS.forEach((field) => {
+        if (staged[field] !== undefined) (latest.stagedEmbedding as any)[field] = staged[field];
+      });
+    } else {
+      await this.attachEmbedding(latest, embedding!, chunkEmbeddings, model, index);
+    }
+    await this.db.memories.put(latest);
+    return true;
+  }
+
+  /**
+   * Make the staged index and its model the active ones
+   * Staged vectors replace the stored ones in the same transaction that
+   * switches the model. New memories are embedded with the model from here on
+   */
+  async promoteStagedHNSWIndex(settings: EmbeddingModelSettings): Promise<void> {
+    const index = this.stagedHNSWIndex;
+    if (!index) {
+      throw new Error('No staged HNSW index to promote');
+    }
+
+    const modelId = index.getModel().id;
+    await this.db.transaction('rw', this.db.memories, this.db.metadata, async () => {
+      await this.db.memories
+        .filter((memory) => !!(memory as MemoryWithMemA).stagedEmbedding)
+        .modify((memory: MemoryWithMemA) => {
+          const staged = memory.stagedEmbedding!;
+          delete memory.stagedEmbedding;
+          // Vectors of an abandoned switch are dropped
+          if (staged.embeddingModel === modelId) {
+            VECTOR_FIELDS.forEach((field) => delete memory[field]);
+            Object.assign(memory, staged);
+          }
+        });
+      await this.setMetadata(METADATA_KEYS.EMBEDDING_MODEL, settings);
+    });
+
+    getEmbeddingService().setModel(settings);
+    this.embeddingModel = index.getModel();
+    this.hnswIndexService = index;
+    this.stagedHNSWIndex = null;
+    getEmbeddingService().setHNSWIndex(index);
+
+    if (index.isReady()) {
+      await index.persist(this.db);
+    }
+
+    logger.log(`Switched embedding model to ${settings.modelId}`);
+  }
+
+  /**
+   * Persist the active HNSW index
+   */
+  async persistHNSWIndex(): Promise<void> {
+    if (this.hnswIndexService?.isReady()) {
+      await this.hnswIndexService.persist(this.db);
+    }
+  }
+
+  /**
+   * Compare the active HNSW index with the memories table and repair drift
+   * (vectors of deleted memories, memories whose vectors were never indexed)
+   * Repairing missing vectors needs the master key to decrypt them
+   *
+   * @param repair - Fix the drift (default) or only report it
+   * @returns The report, or null if there is no index
+   */
+  async checkHNSWConsistency(repair: boolean = true): Promise<HNSWConsistencyReport | null> {
+    if (!this.hnswIndexService) {
+      return null;
+    }
+
+    const memories = await this.db.memories.toArray();
+    const report = await this.hnswIndexService.checkConsistency(memories, repair);
+
+    if (report.repaired > 0) {
+      await this.hnswIndexService.persist(this.db);
+      logger.log(`HNSW index repaired: ${report.repaired} memories`);
+    }
+
+    return report;
+  }
+
+  /**
+   * Drop the staged index (migration cancelled)
+   */
+  discardStagedHNSWIndex(): void {
+    this.stagedHNSWIndex = null;
+  }
+
   /**
    * Get enrichment configuration from chrome.storage.local
    */
@@ -1244,6 +2041,9 @@ export class StorageService implements IStorage {
 
     logger.log('Rebuilding HNSW index...');
 
+    // Drop cached plaintext embeddings so rebuilt vectors reflect what is stored now
+    this.hnswIndexService.clearEmbeddingCache();
+
     const memories = await this.db.memories.toArray();
     const memoriesWithEmbeddings = memories.filter(
       m => (m as MemoryWithMemA).embedding || (m as any).encryptedEmbedding
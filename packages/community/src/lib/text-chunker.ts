@@ -0,0 +1,59 @@
+/**
+ * Text Chunker
+ * Splits long memories into overlapping word windows for chunked embeddings
+ *
+ * BGE-Small reads at most 512 tokens, so long answers were truncated and
+ * multi-topic answers were averaged into a single diluted vector. Each chunk
+ * is embedded and indexed separately; search maps chunks back to their memory.
+ */
+
+/**
+ * Chunk of a text with its character offsets
+ */
+export interface TextChunk {
+  text: string;
+  start: number;
+  end: number;
+}
+
+/**
+ * Chunking configuration
+ */
+export const CHUNK_CONFIG = {
+  WORDS_PER_CHUNK: 200,   // ~270 tokens, leaves room for enrichment metadata
+  OVERLAP_WORDS: 40,      // Context shared between neighbouring chunks
+  MAX_CHUNKS: 16,         // Caps embedding cost for very long messages
+};
+
+/**
+ * Split text into overlapping chunks of whole words
+ * Texts that fit in one chunk are returned as a single chunk (possibly empty)
+ */
+export function chunkText(
+  text: string,
+  wordsPerChunk: number = CHUNK_CONFIG.WORDS_PER_CHUNK,
+  overlapWords: number = CHUNK_CONFIG.OVERLAP_WORDS
+): TextChunk[] {
+  const words = Array.from(text.matchAll(/\S+/g), (match) => ({
+    start: match.index!,
+    end: match.index! + match[0].length,
+  }));
+
+  if (words.length <= wordsPerChunk) {
+    return [{ text, start: 0, end: text.length }];
+  }
+
+  const step = Math.max(1, wordsPerChunk - overlapWords);
+  const chunks: TextChunk[] = [];
+
+  for (let first = 0; chunks.length < CHUNK_CONFIG.MAX_CHUNKS; first += step) {
+    const last = Math.min(words.length, first + wordsPerChunk) - 1;
+    const start = words[first].start;
+    const end = words[last].end;
+    chunks.push({ text: text.slice(start, end), start, end });
+
+    if (last === words.length - 1) break;
+  }
+
+  return chunks;
+}
@@ -7,11 +7,17 @@ declare const chrome: any;
 
 import React, { useState, useEffect, useCallback } from 'react';
 import { useToast, useTheme, Button } from '../../components/ui';
-import { withErrorBoundary } from '../../components';
+import { withErrorBoundary, InjectionTemplateSettings, AdapterSpecSettings, QuarantinedSyncOperations } from '../../components';
 import type { MessageType } from '../../lib/messages';
 import type { Memory, EnrichmentConfig } from '@engram/core';
 import { formatDate } from '../../lib/formatters';
 import { encryptApiKey, decryptApiKey, isEncrypted } from '../../lib/api-key-crypto';
+import {
+  DEFAULT_INJECTION_REVIEW_CONFIG,
+  getInjectionReviewConfig,
+  saveInjectionReviewConfig,
+  type InjectionReviewConfig,
+} from '../../lib/injection-review';
 
 interface SettingsPageProps {
   userId: string;
@@ -46,6 +52,10 @@ const SettingsPageComponent: React.FC<SettingsPageProps> = ({
   const [isUpdatingEnrichment, setIsUpdatingEnrichment] = useState(false);
   const [showApiKey, setShowApiKey] = useState(false);
 
+  // Injection review state
+  const [reviewConfig, setReviewConfig] = useState<InjectionReviewConfig>(DEFAULT_INJECTION_REVIEW_CONFIG);
+  const [isUpdatingReview, setIsUpdatingReview] = useState(false);
+
   // Error reporter state
   const [errorReportingEnabled, setErrorReportingEnabled] = useState(false);
   const [isUpdatingErrorReporter, setIsUpdatingErrorReporter] = useState(false);
@@ -112,6 +122,10 @@ const SettingsPageComponent: React.FC<SettingsPageProps> = ({
     }
   }, []);
 
+  const loadReviewConfig = useCallback(async () => {
+    setReviewConfig(await getInjectionReviewConfig());
+  }, []);
+
   const loadErrorReporterConfig = useCallback(async () => {
     try {
       const result = await chrome.storage.local.get('github-reporter-config');
@@ -129,7 +143,8 @@ const SettingsPageComponent: React.FC<SettingsPageProps> = ({
     loadSyncStatus();
     loadEnrichmentConfig();
     loadErrorReporterConfig();
-  }, [loadMemories, loadSyncStatus, loadEnrichmentConfig, loadErrorReporterConfig]);
+    loadReviewConfig();
+  }, [loadMemories, loadSyncStatus, loadEnrichmentConfig, loadErrorReporterConfig, loadReviewConfig]);
 
   const handleLogout = async () => {
     if (!confirm('Are you sure you want to logout?')) {
@@ -286,6 +301,19 @@ const SettingsPageComponent: React.FC<SettingsPageProps> = ({
     updateEnrichmentConfig({ enabled: !enrichmentConfig.enabled });
   };
 
+  const updateReviewConfig = async (updates: Partial<InjectionReviewConfig>) => {
+    setIsUpdatingReview(true);
+    try {
+      setReviewConfig(await saveInjectionReviewConfig(updates));
+      success('Review settings updated');
+    } catch (err) {
+      console.error('Failed to update review settings:', err);
+      showError(err instanceof Error ? err.message : 'Failed to update settings');
+    } finally {
+      setIsUpdatingReview(false);
+    }
+  };
+
   const toggleErrorReporting = async (enabled: boolean) => {
     setIsUpdatingErrorReporter(true);
     try {
@@ -647,6 +675,8 @@ const SettingsPageComponent: React.FC<SettingsPageProps> = ({
         >
           Change Password (Coming soon)
         </Button>
+
+        <QuarantinedSyncOperations />
       </div>
 
       {/* Upgrade to Premium Widget - Fixed, non-dismissible */}
@@ -1199,6 +1229,103 @@ const SettingsPageComponent: React.FC<SettingsPageProps> = ({
         </div>
       </div>
 
+      {/* Context Injection Section */}
+      <div
+        style={{
+          marginBottom: '24px',
+          padding: '16px',
+          backgroundColor: colors.surface,
+          borderRadius: '8px',
+          border: `1px solid ${colors.border}`,
+        }}
+      >
+        <h2
+          style={{
+            fontSize: '16px',
+            fontWeight: 600,
+            color: colors.text.primary,
+            marginBottom: '12px',
+          }}
+        >
+          Context Injection
+        </h2>
+
+        {/* Review Before Send */}
+        <label style={{
+          display: 'flex',
+          alignItems: 'center',
+          cursor: 'pointer',
+          padding: '12px',
+          backgroundColor: colors.background,
+          borderRadius: '6px',
+          border: `1px solid ${colors.border}`,
+          marginBottom: '8px',
+        }}>
+          <input
+            type="checkbox"
+            checked={reviewConfig.enabled}
+            onChange={(e) => updateReviewConfig({ enabled: e.target.checked })}
+            disabled={isUpdatingReview}
+            style={{ marginRight: '12px', cursor: 'pointer' }}
+          />
+          <span style={{ fontSize: '14px', fontWeight: 500, color: colors.text.primary }}>
+            Review memories before sending
+          </span>
+        </label>
+        <div style={{ display: 'flex', alignItems: 'center', gap: '8px', marginBottom: '4px' }}>
+          <span style={{ fontSize: '12px', color: colors.text.secondary }}>Send automatically after</span>
+          <input
+            type="number"
+            min={0}
+            max={120}
+            value={reviewConfig.autoAcceptSeconds}
+            onChange={(e) => updateReviewConfig({ autoAcceptSeconds: Number(e.target.value) })}
+            disabled={isUpdatingReview || !reviewConfig.enabled}
+            style={{
+              width: '64px',
+              padding: '6px 8px',
+              fontSize: '13px',
+              backgroundColor: colors.background,
+              border: `1px solid ${colors.border}`,
+              borderRadius: '6px',
+              color: colors.text.primary,
+              outline: 'none',
+            }}
+          />
+          <span style={{ fontSize: '12px', color: colors.text.secondary }}>seconds</span>
+        </div>
+        <div style={{ fontSize: '11px', color: colors.text.tertiary, marginBottom: '16px' }}>
+          Sending pauses to show the memories that will be added. 0 waits until you confirm. Click the memory
+          indicator to review at any time.
+        </div>
+
+        <InjectionTemplateSettings />
+      </div>
+
+      {/* Chat Sites Section */}
+      <div
+        style={{
+          marginBottom: '24px',
+          padding: '16px',
+          backgroundColor: colors.surface,
+          borderRadius: '8px',
+          border: `1px solid ${colors.border}`,
+        }}
+      >
+        <h2
+          style={{
+            fontSize: '16px',
+            fontWeight: 600,
+            color: colors.text.primary,
+            marginBottom: '12px',
+          }}
+        >
+          Chat Sites
+        </h2>
+
+        <AdapterSpecSettings />
+      </div>
+
       {/* Error Reporting Section */}
       <div
         style={{
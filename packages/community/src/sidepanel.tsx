@@ -3,15 +3,22 @@
  * Native Chrome side panel for memory management
  */
 
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import { strToU8, zipSync } from 'fflate';
 import { ThemeProvider, ToastProvider, useToast, useTheme, Button, Logo } from './components/ui';
-import { PremiumBadge, UpgradeBanner, ErrorBoundary } from './components';
+import { PremiumBadge, UpgradeBanner, ErrorBoundary, SearchSnippets, MemoryVersions, hasVersions, CaptureHealthBanner } from './components';
 import type { MessageType } from './lib/messages';
+import { batchConversations, parseHistoryExport, readHistoryExportFile, type HistoryImportStatus } from './lib/history-import';
+import type { EmbeddingModelSettings, EmbeddingModelSpec } from './lib/embedding-models';
+import type { EmbeddingModelMigrationStatus } from './lib/embedding-model-migration';
 import type { Memory, EnrichmentConfig } from '@engram/core';
 import { getEmbeddingService, type MemoryWithEmbedding } from './lib/embedding-service';
 import { formatDate, summarizeText } from './lib/formatters';
 import { encryptApiKey, decryptApiKey, isEncrypted } from './lib/api-key-crypto';
 import { logBoundaryError } from './lib/error-logger';
+import { hasStructuredClauses, parseSearchQuery, type SearchQuery } from './lib/search-query';
+import type { SearchHit } from './lib/search-snippets';
+import type { MarkdownFile } from './lib/markdown-exporter';
 
 interface AuthenticationViewProps {
   onSuccess: () => void;
@@ -340,6 +347,13 @@ function PlatformLogo({ platform }: { platform?: string }) {
 
 type Tab = 'memories' | 'settings';
 
+// Page size for background (structured) search results
+const SEARCH_PAGE_SIZE = 50;
+
+function indexSearchHits(hits?: SearchHit[]): Record<string, SearchHit> {
+  return Object.fromEntries((hits || []).map((hit) => [hit.memoryId, hit]));
+}
+
 function SidePanelContent() {
   const [isAuthenticated, setIsAuthenticated] = useState(false);
   const [userId, setUserId] = useState('');
@@ -356,6 +370,10 @@ function SidePanelContent() {
   const [lastRefreshTime, setLastRefreshTime] = useState<Date | null>(null);
   const [semanticSearchResults, setSemanticSearchResults] = useState<Memory[]>([]);
   const [isSearching, setIsSearching] = useState(false);
+  const [searchError, setSearchError] = useState<string | null>(null);
+  const [searchCursor, setSearchCursor] = useState<string | null>(null); // Next page of background search results
+  const [searchHits, setSearchHits] = useState<Record<string, SearchHit>>({}); // Snippets and scores by memory ID
+  const [isLoadingMoreResults, setIsLoadingMoreResults] = useState(false);
   const [searchDebounceTimer, setSearchDebounceTimer] = useState<number | null>(null);
   const [showTimelineForMemory, setShowTimelineForMemory] = useState<string | null>(null);
 
@@ -376,6 +394,19 @@ function SidePanelContent() {
   const [isUpdatingEnrichment, setIsUpdatingEnrichment] = useState(false);
   const [showApiKey, setShowApiKey] = useState(false);
 
+  // Import / export state
+  const [isExportingVault, setIsExportingVault] = useState(false);
+  const [isImportingHistory, setIsImportingHistory] = useState(false);
+  const [importStatus, setImportStatus] = useState<HistoryImportStatus | null>(null);
+  const historyFileInputRef = useRef<HTMLInputElement>(null);
+
+  // Embedding model state
+  const [embeddingModels, setEmbeddingModels] = useState<EmbeddingModelSpec[]>([]);
+  const [activeEmbeddingModel, setActiveEmbeddingModel] = useState<EmbeddingModelSettings | null>(null);
+  const [selectedEmbeddingModel, setSelectedEmbeddingModel] = useState<EmbeddingModelSettings | null>(null);
+  const [embeddingMigration, setEmbeddingMigration] = useState<EmbeddingModelMigrationStatus | null>(null);
+  const [isSwitchingEmbeddingModel, setIsSwitchingEmbeddingModel] = useState(false);
+
   const { success, error: showError } = useToast();
   const { colors } = useTheme();
   const embeddingService = getEmbeddingService();
@@ -480,6 +511,7 @@ function SidePanelContent() {
         type: 'GET_MEMORIES' as MessageType,
         filter: {
           limit: 1000, // Load up to 1000 memories - all your conversations available
+          branches: 'selected', // Other versions of a message are reached through its version switcher
         },
       });
 
@@ -498,6 +530,25 @@ function SidePanelContent() {
     }
   }, [showError, precomputeEmbeddings]);
 
+  const loadEmbeddingModels = useCallback(async () => {
+    try {
+      const response = await chrome.runtime.sendMessage({
+        type: 'GET_EMBEDDING_MODELS' as MessageType,
+      });
+
+      if (response.success) {
+        setEmbeddingModels(response.models);
+        setActiveEmbeddingModel(response.active);
+        setEmbeddingMigration(response.migration);
+        setSelectedEmbeddingModel((selected) =>
+          selected ?? (response.migration?.state === 'running' ? response.migration.to : response.active)
+        );
+      }
+    } catch (err) {
+      console.error('[Engram Side Panel] Failed to load embedding models:', err);
+    }
+  }, []);
+
   // Check auth state on mount
   useEffect(() => {
     checkAuthState();
@@ -509,8 +560,9 @@ function SidePanelContent() {
       loadMemories();
       checkPremiumStatus();
       loadEnrichmentConfig();
+      loadEmbeddingModels();
     }
-  }, [isAuthenticated, loadMemories, checkPremiumStatus, loadEnrichmentConfig]);
+  }, [isAuthenticated, loadMemories, checkPremiumStatus, loadEnrichmentConfig, loadEmbeddingModels]);
 
   // Auto-refresh memories every 10 seconds
   useEffect(() => {
@@ -525,6 +577,100 @@ function SidePanelContent() {
     return () => clearInterval(intervalId);
   }, [isAuthenticated, activeTab, loadMemories]);
 
+  // Poll background indexing progress while an import is running
+  useEffect(() => {
+    if (importStatus?.state !== 'indexing') {
+      return;
+    }
+
+    const intervalId = setInterval(async () => {
+      try {
+        const response = await chrome.runtime.sendMessage({
+          type: 'GET_IMPORT_STATUS' as MessageType,
+        });
+
+        if (response.success && response.status) {
+          setImportStatus(response.status);
+          if (response.status.state === 'complete') {
+            success(`Indexed ${response.status.current} imported messages`);
+            loadMemories();
+          } else if (response.status.state === 'failed') {
+            showError(response.status.error || 'Indexing imported history failed');
+          }
+        }
+      } catch (err) {
+        console.error('[Engram Side Panel] Failed to get import status:', err);
+      }
+    }, 2000);
+
+    return () => clearInterval(intervalId);
+  }, [importStatus?.state, loadMemories, success, showError]);
+
+  // Poll re-embedding progress while an embedding model switch is running
+  useEffect(() => {
+    if (embeddingMigration?.state !== 'running') {
+      return;
+    }
+
+    const intervalId = setInterval(async () => {
+      try {
+        const response = await chrome.runtime.sendMessage({
+          type: 'GET_EMBEDDING_MODELS' as MessageType,
+        });
+
+        if (response.success) {
+          setActiveEmbeddingModel(response.active);
+          setEmbeddingMigration(response.migration);
+          if (response.migration?.state === 'complete') {
+            success(`Switched embedding model: re-embedded ${response.migration.migrated} memories`);
+          } else if (response.migration?.state === 'failed') {
+            showError(response.migration.error || 'Re-embedding memories failed');
+          }
+        }
+      } catch (err) {
+        console.error('[Engram Side Panel] Failed to get embedding migration status:', err);
+      }
+    }, 2000);
+
+    return () => clearInterval(intervalId);
+  }, [embeddingMigration?.state, success, showError]);
+
+  const handleSwitchEmbeddingModel = async () => {
+    if (!selectedEmbeddingModel) {
+      return;
+    }
+
+    if (!confirm('Re-embed all memories with this model? Search keeps using the current model until re-embedding finishes.')) {
+      return;
+    }
+
+    setIsSwitchingEmbeddingModel(true);
+
+    try {
+      const response = await chrome.runtime.sendMessage({
+        type: 'SET_EMBEDDING_MODEL' as MessageType,
+        modelId: selectedEmbeddingModel.modelId,
+        endpoint: selectedEmbeddingModel.endpoint,
+      });
+
+      if (!response.success) {
+        throw new Error(response.error || 'Failed to switch embedding model');
+      }
+
+      if (response.migration) {
+        setEmbeddingMigration(response.migration);
+      } else {
+        success('Embedding model updated');
+        loadEmbeddingModels();
+      }
+    } catch (err) {
+      console.error('[Engram Side Panel] Failed to switch embedding model:', err);
+      showError(err instanceof Error ? err.message : 'Failed to switch embedding model');
+    } finally {
+      setIsSwitchingEmbeddingModel(false);
+    }
+  };
+
   const updateEnrichmentConfig = async (updates: Partial<EnrichmentConfig>) => {
     setIsUpdatingEnrichment(true);
     try {
@@ -695,11 +841,103 @@ function SidePanelContent() {
     }
   };
 
+  const handleExportVault = async () => {
+    setIsExportingVault(true);
+
+    try {
+      const response = await chrome.runtime.sendMessage({
+        type: 'EXPORT_MARKDOWN_VAULT' as MessageType,
+      });
+
+      if (!response.success) {
+        throw new Error(response.error || 'Failed to export conversations');
+      }
+
+      if (!response.files || response.files.length === 0) {
+        showError('No conversations to export');
+        return;
+      }
+
+      const files: MarkdownFile[] = response.files;
+      const zip = zipSync(Object.fromEntries(files.map((file) => [file.path, strToU8(file.content)])));
+      const url = URL.createObjectURL(new Blob([zip.buffer as ArrayBuffer], { type: 'application/zip' }));
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = response.filename;
+      link.click();
+      URL.revokeObjectURL(url);
+
+      success(`Exported ${response.conversationCount} conversations`);
+    } catch (err) {
+      console.error('[Engram Side Panel] Failed to export markdown vault:', err);
+      showError(err instanceof Error ? err.message : 'Failed to export conversations');
+    } finally {
+      setIsExportingVault(false);
+    }
+  };
+
+  const handleImportHistory = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) {
+      return;
+    }
+
+    setIsImportingHistory(true);
+
+    try {
+      const { source, conversations } = parseHistoryExport(readHistoryExportFile(new Uint8Array(await file.arrayBuffer())));
+      const batches = batchConversations(conversations);
+      let imported = 0;
+      let duplicates = 0;
+
+      // One message per batch keeps each under the messaging size limit; the
+      // background answers once the previous batch is indexed
+      for (let index = 0; index < batches.length; index++) {
+        const response = await chrome.runtime.sendMessage({
+          type: 'IMPORT_HISTORY' as MessageType,
+          source,
+          conversations: batches[index],
+          batch: { index, count: batches.length },
+        });
+
+        if (!response.success) {
+          throw new Error(response.error || 'Failed to import history');
+        }
+
+        // Start polling indexing progress with the first saved memories
+        if (imported === 0 && response.result.imported > 0) {
+          setImportStatus({ state: 'indexing', current: 0, total: response.result.imported, failed: 0 });
+        }
+        imported += response.result.imported;
+        duplicates += response.result.duplicates;
+      }
+
+      success(`Imported ${imported} messages from ${conversations.length} conversations (${duplicates} already saved)`);
+
+      if (imported > 0) {
+        loadMemories();
+      }
+    } catch (err) {
+      console.error('[Engram Side Panel] Failed to import history:', err);
+      showError(err instanceof Error ? err.message : 'Failed to import history');
+    } finally {
+      setIsImportingHistory(false);
+    }
+  };
+
   const copyUserId = () => {
     navigator.clipboard.writeText(userId);
     success('User ID copied to clipboard');
   };
 
+  // Show the selected version of a message in place of the one it replaced
+  const handleVersionSelected = useCallback((previousId: string, version: Memory) => {
+    setMemories((current) => current.map((memory) => (memory.id === previousId ? version : memory)));
+    setSemanticSearchResults((current) => current.map((memory) => (memory.id === previousId ? version : memory)));
+    setExpandedMemoryId((expanded) => (expanded === previousId ? version.id : expanded));
+  }, []);
+
   // Handle reverting memory evolution to a specific version
   const handleRevertEvolution = async (memoryId: string, versionIndex: number) => {
     if (!confirm('Revert to this version? This will update the memory\'s keywords, tags, and context.')) {
@@ -728,13 +966,60 @@ function SidePanelContent() {
 
   // Perform semantic search
   const performSemanticSearch = async (query: string) => {
+    setSearchCursor(null);
+
     if (!query || query.length < 3) {
       setSemanticSearchResults([]);
       setIsSearching(false);
       return;
     }
 
+    let parsedQuery: SearchQuery;
+    try {
+      parsedQuery = parseSearchQuery(query);
+      setSearchError(null);
+    } catch (error) {
+      setSearchError((error as Error).message);
+      setSemanticSearchResults([]);
+      return;
+    }
+
     setIsSearching(true);
+    setSearchHits({});
+
+    // Background search ranks with BM25 + HNSW and returns highlighted snippets.
+    // Structured queries (platform:, tag:, "phrase", -term, ...) can only run there;
+    // plain text falls back to local embeddings if the background search fails.
+    try {
+      const response = await chrome.runtime.sendMessage({
+        type: 'SEARCH_MEMORIES' as MessageType,
+        query,
+        limit: SEARCH_PAGE_SIZE,
+      });
+
+      if (response.success) {
+        setSemanticSearchResults(response.memories || []);
+        setSearchHits(indexSearchHits(response.hits));
+        setSearchCursor(response.nextCursor || null);
+        setIsSearching(false);
+        return;
+      }
+
+      if (hasStructuredClauses(parsedQuery)) {
+        setSearchError(response.error || 'Search failed');
+        setSemanticSearchResults([]);
+        setIsSearching(false);
+        return;
+      }
+      console.warn('[Engram Sidepanel] Background search failed, searching locally:', response.error);
+    } catch (error) {
+      console.error('[Engram Sidepanel] Background search failed:', error);
+      if (hasStructuredClauses(parsedQuery)) {
+        setSearchError('Search failed');
+        setIsSearching(false);
+        return;
+      }
+    }
 
     try {
       // Use pre-computed embeddings if available
@@ -778,6 +1063,42 @@ function SidePanelContent() {
     }
   };
 
+  // Load the next page of background search results (infinite scroll)
+  const loadMoreSearchResults = async () => {
+    if (!searchCursor || isLoadingMoreResults) return;
+
+    setIsLoadingMoreResults(true);
+    try {
+      const response = await chrome.runtime.sendMessage({
+        type: 'SEARCH_MEMORIES' as MessageType,
+        query: searchQuery,
+        limit: SEARCH_PAGE_SIZE,
+        cursor: searchCursor,
+      });
+
+      if (response.success) {
+        setSemanticSearchResults((previous) => [...previous, ...(response.memories || [])]);
+        setSearchHits((previous) => ({ ...previous, ...indexSearchHits(response.hits) }));
+        setSearchCursor(response.nextCursor || null);
+      } else {
+        setSearchError(response.error || 'Search failed');
+        setSearchCursor(null);
+      }
+    } catch (error) {
+      console.error('[Engram Sidepanel] Failed to load more search results:', error);
+      setSearchCursor(null);
+    } finally {
+      setIsLoadingMoreResults(false);
+    }
+  };
+
+  const handleMemoriesScroll = (event: React.UIEvent<HTMLDivElement>) => {
+    const { scrollTop, scrollHeight, clientHeight } = event.currentTarget;
+    if (scrollHeight - scrollTop - clientHeight < 200) {
+      loadMoreSearchResults();
+    }
+  };
+
   // Handle search input with debouncing
   const handleSearchInput = (value: string) => {
     setSearchQuery(value);
@@ -795,7 +1116,10 @@ function SidePanelContent() {
       setSearchDebounceTimer(timer);
     } else {
       setSemanticSearchResults([]);
+      setSearchHits({});
       setIsSearching(false);
+      setSearchError(null);
+      setSearchCursor(null);
     }
   };
 
@@ -873,6 +1197,9 @@ function SidePanelContent() {
             </div>
           </div>
 
+          {/* Capture Health Warning */}
+          <CaptureHealthBanner />
+
           {/* Upgrade Banner for Free Users */}
           {!isPremium && !hasPendingRequest && <UpgradeBanner onUpgrade={handleUpgrade} />}
 
@@ -937,7 +1264,7 @@ function SidePanelContent() {
                 <div style={{ padding: '12px 16px', borderBottom: `1px solid ${colors.border}` }}>
                   <input
                     type="text"
-                    placeholder="Search memories..."
+                    placeholder='Search memories... (try tag:rust after:2026-01-01 "exact phrase")'
                     value={searchQuery}
                     onChange={(e) => handleSearchInput(e.target.value)}
                     style={{
@@ -964,10 +1291,14 @@ function SidePanelContent() {
                   justifyContent: 'space-between',
                   alignItems: 'center',
                 }}>
-                  <div>
-                    {filteredMemories.length} {filteredMemories.length === 1 ? 'memory' : 'memories'}
-                    {searchQuery && ` matching "${searchQuery}"`}
-                  </div>
+                  {searchError ? (
+                    <div style={{ color: colors.status.error }}>{searchError}</div>
+                  ) : (
+                    <div>
+                      {filteredMemories.length} {filteredMemories.length === 1 ? 'memory' : 'memories'}
+                      {searchQuery && ` matching "${searchQuery}"`}
+                    </div>
+                  )}
                   <div style={{
                     fontSize: '10px',
                     color: colors.text.tertiary,
@@ -990,7 +1321,7 @@ function SidePanelContent() {
                 </div>
 
                 {/* Memories List */}
-                <div style={{ flex: 1, overflowY: 'auto', padding: '12px 16px' }}>
+                <div style={{ flex: 1, overflowY: 'auto', padding: '12px 16px' }} onScroll={handleMemoriesScroll}>
                   {isLoadingMemories ? (
                     <div style={{
                       padding: '32px',
@@ -1013,6 +1344,7 @@ function SidePanelContent() {
                     <div style={{ display: 'flex', flexDirection: 'column', gap: '8px' }}>
                       {filteredMemories.map((memory) => {
                         const isExpanded = expandedMemoryId === memory.id;
+                        const searchHit = searchHits[memory.id];
                         return (
                         <div
                           key={memory.id}
@@ -1073,9 +1405,19 @@ function SidePanelContent() {
                               })()}
                             </div>
                             <div style={{
+                              display: 'flex',
+                              alignItems: 'center',
+                              gap: '6px',
                               fontSize: '10px',
                               color: colors.text.tertiary,
                             }}>
+                              {/* Version switcher (edited prompts, regenerated answers) */}
+                              {hasVersions(memory) && (
+                                <MemoryVersions
+                                  memory={memory}
+                                  onSelect={(version) => handleVersionSelected(memory.id, version)}
+                                />
+                              )}
                               {formatDate(memory.timestamp)}
                             </div>
                           </div>
@@ -1093,8 +1435,26 @@ function SidePanelContent() {
                               maxHeight: '60px',
                             }),
                           }}>
-                            {isExpanded ? (memory.content.text || '') : summarizeText(memory.content.text || '')}
+                            {isExpanded
+                              ? (memory.content.text || '')
+                              : searchHit?.snippets.length
+                                ? <SearchSnippets snippets={searchHit.snippets} textLength={memory.content.text?.length || 0} />
+                                : summarizeText(memory.content.text || '')}
                           </div>
+                          {!isExpanded && searchHit?.score && (searchHit.score.lexical !== undefined || searchHit.score.semantic !== undefined) && (
+                            <div
+                              title="Keyword (BM25) and semantic similarity scores"
+                              style={{
+                                fontSize: '10px',
+                                color: colors.text.tertiary,
+                                marginBottom: '6px',
+                              }}
+                            >
+                              {searchHit.score.lexical !== undefined && `Keyword ${searchHit.score.lexical.toFixed(1)}`}
+                              {searchHit.score.lexical !== undefined && searchHit.score.semantic !== undefined && ' · '}
+                              {searchHit.score.semantic !== undefined && `Semantic ${Math.round(searchHit.score.semantic * 100)}%`}
+                            </div>
+                          )}
 
                           {/* Related Memories Section */}
                           {(() => {
@@ -1360,6 +1720,16 @@ function SidePanelContent() {
                         </div>
                         );
                       })}
+                      {isLoadingMoreResults && (
+                        <div style={{
+                          padding: '12px',
+                          textAlign: 'center',
+                          color: colors.text.secondary,
+                          fontSize: '12px',
+                        }}>
+                          Loading more results...
+                        </div>
+                      )}
                     </div>
                   )}
                 </div>
@@ -1878,6 +2248,170 @@ function SidePanelContent() {
                   </div>
                 </div>
 
+                {/* Embedding Model */}
+                {selectedEmbeddingModel && (() => {
+                  const selectedSpec = embeddingModels.find((m) => m.id === selectedEmbeddingModel.modelId);
+                  const isMigrating = embeddingMigration?.state === 'running';
+                  const isActive = selectedEmbeddingModel.modelId === activeEmbeddingModel?.modelId &&
+                    selectedEmbeddingModel.endpoint === activeEmbeddingModel?.endpoint;
+
+                  return (
+                    <div style={{
+                      marginBottom: '20px',
+                      padding: '16px',
+                      backgroundColor: colors.surface,
+                      borderRadius: '8px',
+                      border: `1px solid ${colors.border}`,
+                    }}>
+                      <h2 style={{
+                        fontSize: '14px',
+                        fontWeight: 600,
+                        color: colors.text.primary,
+                        marginBottom: '4px',
+                      }}>
+                        Embedding Model
+                      </h2>
+                      <div style={{ fontSize: '11px', color: colors.text.secondary, marginBottom: '12px', lineHeight: '1.5' }}>
+                        Model used for semantic search. Switching re-embeds every memory in the background.
+                      </div>
+                      <select
+                        value={selectedEmbeddingModel.modelId}
+                        onChange={(e) => setSelectedEmbeddingModel({ ...selectedEmbeddingModel, modelId: e.target.value })}
+                        disabled={isMigrating || isSwitchingEmbeddingModel}
+                        style={{
+                          width: '100%',
+                          padding: '6px 8px',
+                          fontSize: '12px',
+                          backgroundColor: colors.background,
+                          border: `1px solid ${colors.border}`,
+                          borderRadius: '6px',
+                          color: colors.text.primary,
+                          outline: 'none',
+                          marginBottom: '4px',
+                        }}
+                      >
+                        {embeddingModels.map((model) => (
+                          <option key={model.id} value={model.id}>
+                            {model.label} ({model.dimensions} dims)
+                          </option>
+                        ))}
+                      </select>
+                      {selectedSpec && (
+                        <div style={{ fontSize: '10px', color: colors.text.tertiary, marginBottom: '10px' }}>
+                          {selectedSpec.description}
+                        </div>
+                      )}
+
+                      {selectedSpec?.backend === 'openai-compatible' && (
+                        <div style={{ marginBottom: '10px' }}>
+                          <div style={{ fontSize: '11px', color: colors.text.secondary, marginBottom: '4px' }}>
+                            Embeddings Endpoint URL
+                          </div>
+                          <input
+                            type="text"
+                            value={selectedEmbeddingModel.endpoint || ''}
+                            onChange={(e) => setSelectedEmbeddingModel({ ...selectedEmbeddingModel, endpoint: e.target.value || undefined })}
+                            placeholder={enrichmentConfig.localEndpoint || 'http://localhost:11434/v1'}
+                            disabled={isMigrating || isSwitchingEmbeddingModel}
+                            style={{
+                              width: '100%',
+                              padding: '6px 8px',
+                              fontSize: '11px',
+                              fontFamily: 'monospace',
+                              backgroundColor: colors.background,
+                              border: `1px solid ${colors.border}`,
+                              borderRadius: '6px',
+                              color: colors.text.primary,
+                              outline: 'none',
+                            }}
+                          />
+                          <div style={{ fontSize: '10px', color: colors.text.tertiary, marginTop: '4px' }}>
+                            OpenAI-compatible /v1/embeddings endpoint. For Ollama: http://localhost:11434/v1
+                          </div>
+                        </div>
+                      )}
+
+                      <Button
+                        variant="secondary"
+                        size="sm"
+                        fullWidth
+                        onClick={handleSwitchEmbeddingModel}
+                        isLoading={isSwitchingEmbeddingModel}
+                        disabled={isActive || isMigrating || isSwitchingEmbeddingModel}
+                      >
+                        {isActive ? 'Current Model' : 'Switch Model'}
+                      </Button>
+                      {isMigrating && (
+                        <div style={{ fontSize: '11px', color: colors.text.secondary, marginTop: '8px' }}>
+                          Re-embedding memories: {embeddingMigration.migrated}/{embeddingMigration.total}
+                        </div>
+                      )}
+                      {embeddingMigration?.state === 'failed' && (
+                        <div style={{ fontSize: '11px', color: colors.status.error, marginTop: '8px' }}>
+                          {embeddingMigration.error}. Switch again to retry.
+                        </div>
+                      )}
+                    </div>
+                  );
+                })()}
+
+                {/* Import & Export */}
+                <div style={{
+                  marginBottom: '20px',
+                  padding: '16px',
+                  backgroundColor: colors.surface,
+                  borderRadius: '8px',
+                  border: `1px solid ${colors.border}`,
+                }}>
+                  <h2 style={{
+                    fontSize: '14px',
+                    fontWeight: 600,
+                    color: colors.text.primary,
+                    marginBottom: '4px',
+                  }}>
+                    Import & Export
+                  </h2>
+                  <div style={{ fontSize: '11px', color: colors.text.secondary, marginBottom: '12px', lineHeight: '1.5' }}>
+                    Download your conversations as Markdown notes, ready to drop into an Obsidian vault. Exported notes are not encrypted.
+                  </div>
+                  <Button
+                    variant="secondary"
+                    size="sm"
+                    fullWidth
+                    onClick={handleExportVault}
+                    isLoading={isExportingVault}
+                    disabled={isExportingVault}
+                  >
+                    Export to Markdown
+                  </Button>
+
+                  <div style={{ fontSize: '11px', color: colors.text.secondary, margin: '16px 0 12px', lineHeight: '1.5' }}>
+                    Import past conversations from a ChatGPT or Claude data export. Select the downloaded .zip archive, or the conversations.json file inside it.
+                  </div>
+                  <input
+                    ref={historyFileInputRef}
+                    type="file"
+                    accept=".zip,.json,application/zip,application/json"
+                    onChange={handleImportHistory}
+                    style={{ display: 'none' }}
+                  />
+                  <Button
+                    variant="secondary"
+                    size="sm"
+                    fullWidth
+                    onClick={() => historyFileInputRef.current?.click()}
+                    isLoading={isImportingHistory}
+                    disabled={isImportingHistory || importStatus?.state === 'indexing'}
+                  >
+                    Import ChatGPT / Claude History
+                  </Button>
+                  {importStatus?.state === 'indexing' && (
+                    <div style={{ fontSize: '11px', color: colors.text.secondary, marginTop: '8px' }}>
+                      Indexing imported messages: {importStatus.current}/{importStatus.total}
+                    </div>
+                  )}
+                </div>
+
                 {/* Privacy Info */}
                 <div style={{
                   marginBottom: '20px',
@@ -0,0 +1,172 @@
+/**
+ * Device Trust
+ * Registry of the account's device signing keys, and verification of the
+ * sync operations they sign
+ *
+ * The sync server only relays operations, so an operation is trusted for its
+ * Ed25519 signature by a registered device, not for where it came from:
+ * - Signed by a known device: applied
+ * - From a revoked device: rejected
+ * - Unsigned, forged, or from a device not (yet) registered: quarantined
+ *   until the user dismisses it or the registry learns the device
+ *
+ * Keys are pinned on first sight, so a later device list cannot swap the key
+ * of a known device, and a revocation is never undone.
+ */
+
+import { METADATA_KEYS, stringToUint8Array } from '@engram/core';
+import type { Device, SyncOperation, Timestamp, UUID } from '@engram/core';
+import type { StorageService } from '../lib/storage';
+import { getCryptoService } from '../lib/crypto-service';
+
+export type DeviceTrustStorage = Pick<StorageService, 'getMetadata' | 'setMetadata'>;
+
+/**
+ * What the registry keeps of a registered device
+ */
+export type TrustedDevice = Pick<Device, 'id' | 'name' | 'publicKey' | 'revokedAt'>;
+
+export type QuarantineReason = 'unsigned' | 'invalid-signature' | 'unknown-device';
+
+export type TrustVerdict =
+  | { status: 'trusted' }
+  | { status: 'rejected'; reason: string }
+  | { status: 'quarantined'; reason: QuarantineReason };
+
+export interface QuarantinedOperation {
+  operation: SyncOperation;
+  reason: QuarantineReason;
+  receivedAt: Timestamp;
+}
+
+/**
+ * Oldest quarantined operations are dropped past this
+ */
+export const MAX_QUARANTINED_OPERATIONS = 500;
+
+/**
+ * JSON with object keys sorted at every level
+ * Relays may reorder keys (e.g. when storing JSONB), so signatures cover this form
+ */
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map((item) => canonicalJson(item ?? null)).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, item]) => item !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([key, item]) => `${JSON.stringify(key)}:${canonicalJson(item)}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * Bytes a device signs for an operation: every field but the signature
+ */
+export function operationSigningData(operation: SyncOperation): string {
+  const signed: Partial<SyncOperation> = { ...operation };
+  delete signed.signature;
+  return canonicalJson(signed);
+}
+
+export class DeviceTrustRegistry {
+  constructor(private storage: DeviceTrustStorage) {}
+
+  /**
+   * Registered devices by ID
+   */
+  async getDevices(): Promise<Record<UUID, TrustedDevice>> {
+    return (await this.storage.getMetadata<Record<UUID, TrustedDevice>>(METADATA_KEYS.TRUSTED_DEVICES)) || {};
+  }
+
+  /**
+   * Merge device registrations into the registry
+   * New devices are added; for known ones only a revocation is taken over
+   */
+  async updateDevices(devices: TrustedDevice[]): Promise<void> {
+    const registry = await this.getDevices();
+
+    for (const device of devices) {
+      const known = registry[device.id];
+      if (!known) {
+        registry[device.id] = {
+          id: device.id,
+          name: device.name,
+          publicKey: device.publicKey,
+          ...(device.revokedAt !== undefined && { revokedAt: device.revokedAt }),
+        };
+        continue;
+      }
+
+      if (device.publicKey !== known.publicKey) {
+        console.warn(`[DeviceTrust] Ignoring new signing key for known device: ${device.id}`);
+      }
+      if (device.revokedAt !== undefined && known.revokedAt === undefined) {
+        registry[device.id] = { ...known, revokedAt: device.revokedAt };
+        console.log(`[DeviceTrust] Device revoked: ${device.id}`);
+      }
+    }
+
+    await this.storage.setMetadata(METADATA_KEYS.TRUSTED_DEVICES, registry);
+  }
+
+  /**
+   * Check an operation's signature against the registry
+   */
+  async verify(operation: SyncOperation): Promise<TrustVerdict> {
+    const device = operation.deviceId ? (await this.getDevices())[operation.deviceId] : undefined;
+
+    if (device?.revokedAt !== undefined) {
+      return { status: 'rejected', reason: `Device ${device.id} was revoked` };
+    }
+    if (!operation.signature) {
+      return { status: 'quarantined', reason: 'unsigned' };
+    }
+    if (!device) {
+      return { status: 'quarantined', reason: 'unknown-device' };
+    }
+
+    const cryptoService = await getCryptoService();
+    const valid = await cryptoService.verify(
+      stringToUint8Array(operationSigningData(operation)),
+      operation.signature,
+      device.publicKey
+    );
+
+    return valid ? { status: 'trusted' } : { status: 'quarantined', reason: 'invalid-signature' };
+  }
+
+  /**
+   * Quarantined operations, oldest first
+   */
+  async getQuarantined(): Promise<QuarantinedOperation[]> {
+    return (await this.storage.getMetadata<QuarantinedOperation[]>(METADATA_KEYS.QUARANTINED_OPERATIONS)) || [];
+  }
+
+  /**
+   * Hold an operation that failed verification
+   */
+  async quarantine(operation: SyncOperation, reason: QuarantineReason): Promise<void> {
+    const quarantined = (await this.getQuarantined()).filter((entry) => entry.operation.id !== operation.id);
+    quarantined.push({ operation, reason, receivedAt: Date.now() });
+
+    await this.storage.setMetadata(
+      METADATA_KEYS.QUARANTINED_OPERATIONS,
+      quarantined.slice(-MAX_QUARANTINED_OPERATIONS)
+    );
+  }
+
+  /**
+   * Drop operations from the quarantine
+   */
+  async removeQuarantined(operationIds: UUID[]): Promise<void> {
+    const ids = new Set(operationIds);
+    const quarantined = await this.getQuarantined();
+
+    await this.storage.setMetadata(
+      METADATA_KEYS.QUARANTINED_OPERATIONS,
+      quarantined.filter((entry) => !ids.has(entry.operation.id))
+    );
+  }
+}
@@ -0,0 +1,293 @@
+/**
+ * Memory CRDT
+ * Field-level merge of concurrent edits to one memory
+ *
+ * - Tags: OR-Set. Every add carries a dot (device:counter) and a remove
+ *   tombstones only the dots it observed, so a concurrent re-add survives
+ * - Keywords, context, evolution: last-writer-wins registers stamped with the
+ *   writer's vector clock and device ID
+ * - Links: grow-set with tombstones; a removed link stays removed
+ * - Deletes win: SyncManager keeps a tombstone per deleted memory and drops
+ *   every later operation on it
+ *
+ * Merges are commutative, associative and idempotent, so devices that
+ * received the same operations end in the same state whatever the order.
+ */
+
+import {
+  compareVectorClocks,
+  mergeVectorClocks,
+  type CrdtStamp,
+  type LinkScore,
+  type LwwField,
+  type Memory,
+  type MemoryCrdtState,
+  type MemoryWithMemA,
+  type VectorClock,
+} from '@engram/core';
+
+export const LWW_FIELDS: readonly LwwField[] = ['keywords', 'context', 'evolution'];
+
+function compareStrings(a: string, b: string): number {
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+function clockSum(clock: VectorClock): number {
+  return Object.values(clock).reduce((total, value) => total + value, 0);
+}
+
+function canonicalClock(clock: VectorClock): string {
+  return JSON.stringify(
+    Object.entries(clock)
+      .filter(([, value]) => value > 0)
+      .sort(([a], [b]) => compareStrings(a, b))
+  );
+}
+
+function sortedUnique(values: string[]): string[] {
+  return [...new Set(values)].sort(compareStrings);
+}
+
+/**
+ * Total order of write stamps
+ *
+ * Causally later writes win. Concurrent writes are ordered by clock sum, then
+ * device ID; a causally later clock always has the larger sum, so the order
+ * stays transitive (which LWW needs to converge).
+ */
+export function compareStamps(a: CrdtStamp, b: CrdtStamp): number {
+  const order = compareVectorClocks(a.clock, b.clock);
+  if (order === 'after') return 1;
+  if (order === 'before') return -1;
+
+  return (
+    clockSum(a.clock) - clockSum(b.clock) ||
+    compareStrings(a.deviceId, b.deviceId) ||
+    compareStrings(canonicalClock(a.clock), canonicalClock(b.clock))
+  );
+}
+
+/**
+ * Stamp of the write that produced a memory
+ */
+function memoryStamp(memory: Pick<Memory, 'vectorClock' | 'deviceId'>): CrdtStamp {
+  return { clock: memory.vectorClock || {}, deviceId: memory.deviceId };
+}
+
+/**
+ * Unique ID of one write: its device and that device's counter
+ */
+function dotOf(stamp: CrdtStamp): string {
+  return `${stamp.deviceId}:${stamp.clock[stamp.deviceId] || 0}`;
+}
+
+/**
+ * Merge state of a memory
+ * Memories never edited while syncing get one derived from their own write
+ */
+export function crdtStateOf(memory: MemoryWithMemA): MemoryCrdtState {
+  if (memory.crdt) return memory.crdt;
+
+  const stamp = memoryStamp(memory);
+  const dot = dotOf(stamp);
+  const registers: MemoryCrdtState['registers'] = {};
+  for (const field of LWW_FIELDS) {
+    if (memory[field] !== undefined) registers[field] = stamp;
+  }
+
+  return {
+    tags: Object.fromEntries((memory.tags || []).map((tag) => [tag, [dot]])),
+    removedTags: {},
+    registers,
+    removedLinks: [],
+  };
+}
+
+/**
+ * Tags with an add that was not removed, sorted
+ */
+export function visibleTags(state: MemoryCrdtState): string[] {
+  return Object.keys(state.tags)
+    .filter((tag) => state.tags[tag].some((dot) => !state.removedTags[tag]?.includes(dot)))
+    .sort(compareStrings);
+}
+
+/**
+ * Union of two tag → dots maps, with sorted keys and dots
+ */
+function unionDots(a: Record<string, string[]>, b: Record<string, string[]>): Record<string, string[]> {
+  const union: Record<string, string[]> = {};
+  for (const tag of sortedUnique([...Object.keys(a), ...Object.keys(b)])) {
+    const dots = sortedUnique([...(a[tag] || []), ...(b[tag] || [])]);
+    if (dots.length > 0) union[tag] = dots;
+  }
+  return union;
+}
+
+function canonicalState(state: MemoryCrdtState): MemoryCrdtState {
+  return {
+    tags: unionDots(state.tags, {}),
+    removedTags: unionDots(state.removedTags, {}),
+    registers: { ...state.registers },
+    removedLinks: sortedUnique(state.removedLinks),
+  };
+}
+
+/**
+ * Order of two entries for the same link: newest, then strongest
+ */
+function compareLinks(a: LinkScore, b: LinkScore): number {
+  return a.createdAt - b.createdAt || a.score - b.score || compareStrings(a.reason || '', b.reason || '');
+}
+
+/**
+ * Union of link lists minus tombstones, one entry per target, sorted
+ */
+function mergeLinks(a: LinkScore[], b: LinkScore[], removed: string[]): LinkScore[] {
+  const tombstones = new Set(removed);
+  const byTarget = new Map<string, LinkScore>();
+
+  for (const link of [...a, ...b]) {
+    if (tombstones.has(link.memoryId)) continue;
+
+    const current = byTarget.get(link.memoryId);
+    if (!current || compareLinks(link, current) > 0) {
+      byTarget.set(link.memoryId, link);
+    }
+  }
+
+  return [...byTarget.values()].sort((x, y) => compareStrings(x.memoryId, y.memoryId));
+}
+
+/**
+ * Apply an edit made on this device, recording it in the merge state
+ *
+ * @param updates Edited fields (tags, keywords, context, evolution, links)
+ * @param stamp Clock of this device after the edit, and its ID
+ */
+export function recordLocalEdit(
+  memory: MemoryWithMemA,
+  updates: Partial<MemoryWithMemA>,
+  stamp: CrdtStamp
+): MemoryWithMemA {
+  const previous = crdtStateOf(memory);
+  const state: MemoryCrdtState = {
+    tags: { ...previous.tags },
+    removedTags: { ...previous.removedTags },
+    registers: { ...previous.registers },
+    removedLinks: [...previous.removedLinks],
+  };
+  const edited: MemoryWithMemA = { ...memory, ...updates };
+
+  if (updates.tags) {
+    const current = new Set(visibleTags(previous));
+    const wanted = new Set(updates.tags);
+
+    for (const tag of current) {
+      if (!wanted.has(tag)) state.removedTags[tag] = [...(state.removedTags[tag] || []), ...previous.tags[tag]];
+    }
+    for (const tag of wanted) {
+      if (!current.has(tag)) state.tags[tag] = [...(state.tags[tag] || []), dotOf(stamp)];
+    }
+  }
+
+  for (const field of LWW_FIELDS) {
+    if (field in updates) state.registers[field] = stamp;
+  }
+
+  if (updates.links) {
+    const kept = new Set(updates.links.map((link) => link.memoryId));
+    for (const link of memory.links || []) {
+      if (!kept.has(link.memoryId)) state.removedLinks.push(link.memoryId);
+    }
+  }
+
+  const crdt = canonicalState(state);
+  return {
+    ...edited,
+    tags: visibleTags(crdt),
+    links: edited.links ? mergeLinks(edited.links, [], crdt.removedLinks) : edited.links,
+    vectorClock: mergeVectorClocks(edited.vectorClock || {}, stamp.clock),
+    crdt,
+  };
+}
+
+function isFullMemory(memory: Partial<MemoryWithMemA>): memory is MemoryWithMemA {
+  return memory.id !== undefined && memory.content !== undefined && memory.vectorClock !== undefined;
+}
+
+/**
+ * Merge a memory received from another device into the local one
+ *
+ * @param remote Full memory or the fields of an update. Without merge state
+ *   (older devices), a full memory carries the state of its own write and an
+ *   update counts as an edit of the local memory
+ * @param stamp Stamp of the remote operation
+ */
+export function mergeMemory(
+  local: MemoryWithMemA,
+  remote: Partial<MemoryWithMemA>,
+  stamp: CrdtStamp
+): MemoryWithMemA {
+  if (!remote.crdt) {
+    const withState = isFullMemory(remote)
+      ? { ...remote, crdt: crdtStateOf(remote) }
+      : recordLocalEdit(local, remote, stamp);
+    return mergeMemory(local, withState, stamp);
+  }
+
+  const localState = crdtStateOf(local);
+  const remoteState = remote.crdt;
+
+  // Fields outside the CRDT (one message captured on two devices): the first capture wins
+  const remoteFirst =
+    remote.timestamp !== undefined &&
+    remote.deviceId !== undefined &&
+    (remote.timestamp - local.timestamp || compareStrings(remote.deviceId, local.deviceId)) < 0;
+  const merged: MemoryWithMemA = remoteFirst
+    ? ({ ...local, ...remote } as MemoryWithMemA)
+    : ({ ...remote, ...local } as MemoryWithMemA);
+
+  const registers: MemoryCrdtState['registers'] = { ...localState.registers };
+  for (const field of LWW_FIELDS) {
+    const remoteStamp = remoteState.registers[field];
+    const localStamp = localState.registers[field];
+    if (remoteStamp && field in remote && (!localStamp || compareStamps(remoteStamp, localStamp) > 0)) {
+      registers[field] = remoteStamp;
+      (merged as any)[field] = remote[field];
+    } else {
+      (merged as any)[field] = local[field];
+    }
+  }
+
+  const crdt = canonicalState({
+    tags: unionDots(localState.tags, remoteState.tags),
+    removedTags: unionDots(localState.removedTags, remoteState.removedTags),
+    registers,
+    removedLinks: [...localState.removedLinks, ...remoteState.removedLinks],
+  });
+
+  return {
+    ...merged,
+    tags: visibleTags(crdt),
+    links: local.links || remote.links ? mergeLinks(local.links || [], remote.links || [], crdt.removedLinks) : undefined,
+    vectorClock: mergeVectorClocks(mergeVectorClocks(local.vectorClock || {}, remote.vectorClock || {}), stamp.clock),
+    syncStatus: local.syncStatus,
+    crdt,
+  };
+}
+
+/**
+ * Fields a merge changed, as a storage update
+ */
+export function changedFields(local: MemoryWithMemA, merged: MemoryWithMemA): Partial<MemoryWithMemA> {
+  const changes: Record<string, unknown> = {};
+  for (const key of new Set([...Object.keys(local), ...Object.keys(merged)])) {
+    const before = (local as any)[key];
+    const after = (merged as any)[key];
+    if (before !== after && JSON.stringify(before) !== JSON.stringify(after)) {
+      changes[key] = after;
+    }
+  }
+  return changes as Partial<MemoryWithMemA>;
+}
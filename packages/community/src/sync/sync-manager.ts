@@ -10,18 +10,22 @@
  * - Emit events for UI updates
  */
 
-import { SyncState, ISyncManager, SyncOperation, incrementClock, stringToUint8Array, base64ToUint8Array, uint8ArrayToBase64 } from '@engram/core';
-import { StorageService } from '../lib/storage';
+import { SyncState, ISyncManager, SyncOperation, generateUUID, incrementClock, mergeVectorClocks, stringToUint8Array, base64ToUint8Array, uint8ArrayToBase64, METADATA_KEYS } from '@engram/core';
+import type { AckMessage, CrdtStamp, Device, DevicesMessage, MemoryWithMemA, OperationMessage, SyncResponseMessage, UUID } from '@engram/core';
+import { StorageService, type LocalChangeRecorder } from '../lib/storage';
 import { SyncStateMachine } from './state-machine';
 import { WebSocketClient, DEFAULT_WEBSOCKET_CONFIG } from './ws-client';
 import { OperationQueue } from './operation-queue';
 import { getCryptoService } from '../lib/crypto-service';
+import { changedFields, compareStamps, mergeMemory, recordLocalEdit } from './memory-crdt';
+import { DeviceTrustRegistry, operationSigningData, type QuarantinedOperation, type TrustedDevice } from './device-trust';
 
 export interface SyncManagerConfig {
   serverUrl: string;
   deviceId: string;
   autoConnect: boolean;
   syncOnStartup: boolean;
+  registrationToken?: string; // Needed once, for the server to register this device
 }
 
 export const DEFAULT_SYNC_CONFIG: SyncManagerConfig = {
@@ -31,20 +35,24 @@ export const DEFAULT_SYNC_CONFIG: SyncManagerConfig = {
   syncOnStartup: true,
 };
 
-export class SyncManager implements ISyncManager {
+export class SyncManager implements ISyncManager, LocalChangeRecorder {
   private stateMachine: SyncStateMachine;
   private wsClient: WebSocketClient;
   private operationQueue: OperationQueue;
   private storage: StorageService;
+  private trust: DeviceTrustRegistry;
   private vectorClock: Record<string, number> = {};
   private lastSyncTime: number = 0;
+  private syncCursor: number = 0; // Server cursor of the last pulled operation
   private syncInProgress: boolean = false;
   private devicePrivateKey: Uint8Array | null = null; // Ed25519 private key for signing
+  private devicePublicKey: string | null = null; // Registered with the server on connect
 
   // Event callbacks
   private stateChangeCallbacks: Set<(state: SyncState) => void> = new Set();
   private remoteChangeCallbacks: Set<(op: SyncOperation) => void> = new Set();
   private errorCallbacks: Set<(error: Error) => void> = new Set();
+  private devicesChangedCallbacks: Set<() => void> = new Set();
 
   constructor(
     storage: StorageService,
@@ -55,8 +63,10 @@ export class SyncManager implements ISyncManager {
     this.wsClient = new WebSocketClient({
       ...DEFAULT_WEBSOCKET_CONFIG,
       url: config.serverUrl,
+      registrationToken: config.registrationToken,
     });
     this.operationQueue = new OperationQueue(storage);
+    this.trust = new DeviceTrustRegistry(storage);
 
     this.setupEventHandlers();
   }
@@ -69,6 +79,7 @@ export class SyncManager implements ISyncManager {
 
     // Load last sync time from storage
     this.lastSyncTime = (await this.storage.getMetadata<number>('lastSyncTime')) || 0;
+    this.syncCursor = (await this.storage.getMetadata<number>(METADATA_KEYS.SYNC_CURSOR)) || 0;
 
     // Load vector clock from storage
     const storedClock = await this.storage.getMetadata<Record<string, number>>('vectorClock');
@@ -102,6 +113,7 @@ export class SyncManager implements ISyncManager {
     if (typeof process !== 'undefined' && process.env.NODE_ENV === 'test') {
       console.log('[SyncManager] Skipping device key generation in test environment');
       this.devicePrivateKey = null;
+      this.devicePublicKey = null;
       return;
     }
 
@@ -109,9 +121,12 @@ export class SyncManager implements ISyncManager {
       // Try to load existing key from storage
       const storedKey = await this.storage.getMetadata<string>('devicePrivateKey');
 
+      let publicKey: string | null;
+
       if (storedKey) {
         // Convert from base64 to Uint8Array
         this.devicePrivateKey = base64ToUint8Array(storedKey);
+        publicKey = await this.storage.getMetadata<string>('devicePublicKey');
         console.log('[SyncManager] Loaded existing device signing key');
       } else {
         // Generate new key pair
@@ -125,13 +140,22 @@ export class SyncManager implements ISyncManager {
 
         // Store public key separately for easy access
         await this.storage.setMetadata('devicePublicKey', keyPair.publicKey);
+        publicKey = keyPair.publicKey;
 
         console.log('[SyncManager] Generated new device signing key');
       }
+
+      this.devicePublicKey = publicKey;
+
+      // Trust this device's own operations when the server echoes them
+      if (publicKey) {
+        await this.trust.updateDevices([{ id: this.config.deviceId, name: 'This device', publicKey }]);
+      }
     } catch (error) {
       // Log error but don't fail initialization - signing can be set up later
       console.warn('[SyncManager] Failed to load/generate device signing key:', error);
       this.devicePrivateKey = null;
+      this.devicePublicKey = null;
     }
   }
 
@@ -142,7 +166,10 @@ export class SyncManager implements ISyncManager {
     // WebSocket events
     this.wsClient.on('connected', (data: any) => {
       this.stateMachine.transition('CONNECTED');
-      this.vectorClock = data.vectorClock || this.vectorClock;
+      this.checkAnnouncedDevices(data?.devices);
+      // The server's clock is not adopted: the clock only advances with
+      // operations actually applied, or local edits would claim to have seen
+      // remote ones they never did
 
       // Sync after connection
       this.syncNow();
@@ -190,17 +217,18 @@ export class SyncManager implements ISyncManager {
     this.stateMachine.transition('CONNECT');
 
     try {
-      // For now, use placeholder values
-      // In production, these would come from device registration and crypto service
-      const deviceName = 'Browser Extension'; // Placeholder
-      const publicKey = 'placeholder-public-key'; // Placeholder
+      const deviceName = 'Browser Extension';
+      if (!this.devicePublicKey) {
+        console.warn('[SyncManager] No device signing key, the server will refuse this device');
+      }
 
       await this.wsClient.connect(
         this.config.deviceId,
         deviceName,
-        publicKey,
+        this.devicePublicKey || '',
         this.vectorClock,
-        this.lastSyncTime
+        this.lastSyncTime,
+        (data) => this.generateSignature(data)
       );
     } catch (error) {
       this.stateMachine.transition('ERROR', error as Error);
@@ -236,19 +264,75 @@ export class SyncManager implements ISyncManager {
    * Queue operation for sync
    */
   async queueOperation(op: SyncOperation): Promise<void> {
-    console.log(`[SyncManager] Queueing operation: ${op.type} ${op.memoryId}`);
-
     // Increment vector clock
     this.vectorClock = incrementClock(this.vectorClock, this.config.deviceId);
+    await this.enqueueOperation(op);
+  }
+
+  /**
+   * Queue a memory captured on this device
+   */
+  async recordLocalAdd(memory: MemoryWithMemA): Promise<void> {
+    await this.queueOperation(this.localOperation('add', memory.id, memory));
+  }
+
+  /**
+   * Record an edit made on this device in the memory's merge state and queue it
+   *
+   * @returns The memory with the edit and its merge state, to store
+   */
+  async recordLocalEdit(memory: MemoryWithMemA, updates: Partial<MemoryWithMemA>): Promise<MemoryWithMemA> {
+    // The operation carries the clock the edit is stamped with
+    this.vectorClock = incrementClock(this.vectorClock, this.config.deviceId);
+    const edited = recordLocalEdit(memory, updates, { clock: this.vectorClock, deviceId: this.config.deviceId });
+
+    // Whole memory, so a later edit queued in its place loses nothing
+    await this.enqueueOperation(this.localOperation('update', memory.id, edited));
+    return edited;
+  }
+
+  /**
+   * Queue a delete made on this device, keeping a tombstone as for remote deletes
+   */
+  async recordLocalDelete(memoryId: UUID): Promise<void> {
+    this.vectorClock = incrementClock(this.vectorClock, this.config.deviceId);
+
+    const tombstones =
+      (await this.storage.getMetadata<Record<string, CrdtStamp>>(METADATA_KEYS.MEMORY_TOMBSTONES)) || {};
+    tombstones[memoryId] = { clock: this.vectorClock, deviceId: this.config.deviceId };
+    await this.storage.setMetadata(METADATA_KEYS.MEMORY_TOMBSTONES, tombstones);
+
+    await this.enqueueOperation(this.localOperation('delete', memoryId, null));
+  }
+
+  /**
+   * Unsigned operation on a memory; enqueueOperation stamps and signs it
+   */
+  private localOperation(type: SyncOperation['type'], memoryId: UUID, payload: SyncOperation['payload']): SyncOperation {
+    return { id: generateUUID(), type, memoryId, vectorClock: {}, payload, signature: '', timestamp: Date.now() };
+  }
+
+  /**
+   * Stamp an operation with the current vector clock, sign and queue it
+   */
+  private async enqueueOperation(op: SyncOperation): Promise<void> {
+    console.log(`[SyncManager] Queueing operation: ${op.type} ${op.memoryId}`);
 
     // Add to operation with vector clock
-    const operation = {
+    const operation: SyncOperation = {
       ...op,
       vectorClock: this.vectorClock,
       deviceId: this.config.deviceId,
       timestamp: Date.now(),
     };
 
+    // Sign last, over every other field
+    if (this.devicePrivateKey) {
+      operation.signature = await this.generateSignature(operationSigningData(operation));
+    } else {
+      console.warn('[SyncManager] No device signing key, other devices will quarantine this operation');
+    }
+
     await this.operationQueue.enqueue(operation);
 
     // Save updated vector clock
@@ -302,7 +386,7 @@ export class SyncManager implements ISyncManager {
   private async pullOperations(): Promise<void> {
     console.log('[SyncManager] Pulling operations from server...');
 
-    this.wsClient.requestSync(this.lastSyncTime, this.vectorClock, 100);
+    this.wsClient.requestSync(this.syncCursor, this.vectorClock, 100);
 
     // Wait for sync response (handled in handleWebSocketMessage)
   }
@@ -325,7 +409,7 @@ export class SyncManager implements ISyncManager {
         this.wsClient.sendOperation({
           type: 'OPERATION',
           timestamp: Date.now(),
-          messageId: crypto.randomUUID(),
+          messageId: operation.id, // The server's ACK carries it back
           payload: {
             operation,
           },
@@ -356,6 +440,10 @@ export class SyncManager implements ISyncManager {
         this.handleAck(data.message);
         break;
 
+      case 'DEVICES':
+        this.checkAnnouncedDevices((data.message as DevicesMessage).payload.devices);
+        break;
+
       default:
         console.warn('[SyncManager] Unknown message type:', data.type);
     }
@@ -364,40 +452,47 @@ export class SyncManager implements ISyncManager {
   /**
    * Handle sync response from server
    */
-  private async handleSyncResponse(message: any): Promise<void> {
-    const { operations, hasMore } = message;
+  private async handleSyncResponse(message: SyncResponseMessage): Promise<void> {
+    const { operations, hasMore, nextCursor } = message.payload;
 
     console.log(`[SyncManager] Received ${operations.length} operations from server`);
 
     for (const operation of operations) {
-      // Apply operation to local storage
-      await this.applyRemoteOperation(operation);
-
-      // Merge vector clock
-      this.vectorClock = {
-        ...this.vectorClock,
-        ...operation.vectorClock,
-      };
+      // Apply verified operations to local storage
+      if (await this.receiveOperation(operation)) {
+        this.vectorClock = mergeVectorClocks(this.vectorClock, operation.vectorClock || {});
+      }
     }
 
     // Save updated vector clock
     await this.storage.setMetadata('vectorClock', this.vectorClock);
 
-    // If there are more operations, request them
+    // Move past received operations only, so operations in a lost response or
+    // broadcast are pulled again on the next sync
+    if (nextCursor !== undefined && nextCursor > this.syncCursor) {
+      this.syncCursor = nextCursor;
+      await this.storage.setMetadata(METADATA_KEYS.SYNC_CURSOR, this.syncCursor);
+    }
+
+    // If there are more operations, request the next page
     if (hasMore) {
-      this.wsClient.requestSync(this.lastSyncTime, this.vectorClock, 100);
+      this.wsClient.requestSync(nextCursor ?? this.syncCursor, this.vectorClock, 100);
     }
   }
 
   /**
    * Handle remote operation broadcast
    */
-  private async handleRemoteOperation(message: any): Promise<void> {
-    const { operation } = message;
+  private async handleRemoteOperation(message: OperationMessage): Promise<void> {
+    const { operation } = message.payload;
 
-    console.log('[SyncManager] Received remote operation:', operation.operationType);
+    console.log('[SyncManager] Received remote operation:', operation.type);
 
-    await this.applyRemoteOperation(operation);
+    if (!(await this.receiveOperation(operation))) {
+      return;
+    }
+    this.vectorClock = mergeVectorClocks(this.vectorClock, operation.vectorClock || {});
+    await this.storage.setMetadata('vectorClock', this.vectorClock);
 
     // Notify remote change listeners
     this.notifyRemoteChange(operation);
@@ -409,8 +504,13 @@ export class SyncManager implements ISyncManager {
   /**
    * Handle ACK for sent operation
    */
-  private async handleAck(message: any): Promise<void> {
-    const { operationId } = message;
+  private async handleAck(message: AckMessage): Promise<void> {
+    const { messageId: operationId, success } = message.payload;
+
+    if (!success) {
+      console.warn(`[SyncManager] Server rejected operation: ${operationId}`);
+      return;
+    }
 
     console.log(`[SyncManager] Received ACK for operation: ${operationId}`);
 
@@ -418,58 +518,171 @@ export class SyncManager implements ISyncManager {
     await this.operationQueue.markProcessed(operationId);
   }
 
+  /**
+   * Verify a remote operation against the device trust registry, then apply it
+   * Operations that fail verification are quarantined, or dropped when their
+   * device was revoked
+   *
+   * @returns Whether the operation was applied
+   */
+  private async receiveOperation(operation: SyncOperation): Promise<boolean> {
+    const verdict = await this.trust.verify(operation);
+
+    switch (verdict.status) {
+      case 'trusted':
+        await this.applyRemoteOperation(operation);
+        return true;
+
+      case 'rejected':
+        console.warn(`[SyncManager] Rejected operation ${operation.id}: ${verdict.reason}`);
+        return false;
+
+      case 'quarantined':
+        console.warn(`[SyncManager] Quarantined operation ${operation.id}: ${verdict.reason}`);
+        await this.trust.quarantine(operation, verdict.reason);
+        return false;
+    }
+  }
+
+  /**
+   * Merge device registrations into the trust registry
+   * Quarantined operations are checked again: those the registry now trusts
+   * are applied, those from revoked devices dropped
+   *
+   * @returns Number of quarantined operations applied
+   */
+  async updateTrustedDevices(devices: TrustedDevice[]): Promise<number> {
+    await this.trust.updateDevices(devices);
+
+    let applied = 0;
+    const released: UUID[] = [];
+
+    for (const { operation } of await this.trust.getQuarantined()) {
+      const verdict = await this.trust.verify(operation);
+      if (verdict.status === 'quarantined') continue;
+
+      if (verdict.status === 'trusted') {
+        await this.applyRemoteOperation(operation);
+        this.vectorClock = mergeVectorClocks(this.vectorClock, operation.vectorClock || {});
+        this.notifyRemoteChange(operation);
+        applied++;
+      }
+      released.push(operation.id);
+    }
+
+    if (released.length > 0) {
+      await this.trust.removeQuarantined(released);
+      await this.storage.setMetadata('vectorClock', this.vectorClock);
+      console.log(`[SyncManager] Released ${released.length} quarantined operations, ${applied} applied`);
+    }
+
+    return applied;
+  }
+
+  /**
+   * Compare the devices the server announces with the trust registry
+   * The server is not trusted with keys: a device or revocation the registry
+   * lacks only tells listeners to fetch the account's registrations again
+   */
+  private async checkAnnouncedDevices(devices: Device[] | undefined): Promise<void> {
+    if (!Array.isArray(devices)) return;
+
+    try {
+      const registry = await this.trust.getDevices();
+      const changed = devices.some((device) => {
+        const known = registry[device?.id];
+        return !known || (device.revokedAt !== undefined && known.revokedAt === undefined);
+      });
+
+      if (changed) {
+        console.log('[SyncManager] Server announced unknown device registrations');
+        this.notifyDevicesChanged();
+      }
+    } catch (error) {
+      console.error('[SyncManager] Failed to check announced devices:', error);
+    }
+  }
+
+  /**
+   * Operations held back for failing verification, oldest first
+   */
+  async getQuarantinedOperations(): Promise<QuarantinedOperation[]> {
+    return this.trust.getQuarantined();
+  }
+
+  /**
+   * Discard quarantined operations without applying them
+   */
+  async dismissQuarantinedOperations(operationIds: UUID[]): Promise<void> {
+    await this.trust.removeQuarantined(operationIds);
+  }
+
   /**
    * Apply remote operation to local storage
+   *
+   * Adds and updates of a memory that exists locally are merged field by field
+   * (see memory-crdt); deletes leave a tombstone that drops every later
+   * operation on the memory, so a delete wins over concurrent edits.
    */
   private async applyRemoteOperation(operation: SyncOperation): Promise<void> {
     console.log('[SyncManager] Applying remote operation:', operation.id, operation.type);
 
     try {
-      switch (operation.type) {
-        case 'add': {
-          // Add new memory from remote device
-          if (!operation.payload) {
-            console.warn('[SyncManager] Add operation missing payload');
-            return;
-          }
+      const stamp: CrdtStamp = {
+        clock: operation.vectorClock || {},
+        deviceId: operation.deviceId || '',
+      };
+      const tombstones =
+        (await this.storage.getMetadata<Record<string, CrdtStamp>>(METADATA_KEYS.MEMORY_TOMBSTONES)) || {};
 
-          // Save the memory to local storage
-          await this.storage.saveMemory(operation.payload as any);
-          console.log(`[SyncManager] Added memory from remote: ${operation.memoryId}`);
-          break;
-        }
+      if (operation.type !== 'delete' && tombstones[operation.memoryId]) {
+        console.log(`[SyncManager] Ignoring ${operation.type} of deleted memory: ${operation.memoryId}`);
+        return;
+      }
 
+      switch (operation.type) {
+        case 'add':
         case 'update': {
-          // Update existing memory with remote changes
           if (!operation.payload) {
-            console.warn('[SyncManager] Update operation missing payload');
+            console.warn(`[SyncManager] ${operation.type} operation missing payload`);
             return;
           }
 
-          // Check if memory exists locally
           const existing = await this.storage.getMemory(operation.memoryId);
           if (!existing) {
-            console.warn(`[SyncManager] Cannot update non-existent memory: ${operation.memoryId}`);
-            // Treat as add operation instead
-            await this.storage.saveMemory(operation.payload as any);
+            if (operation.type === 'update') {
+              console.warn(`[SyncManager] Update of unknown memory, adding it: ${operation.memoryId}`);
+            }
+            await this.storage.saveMemory(operation.payload as any, undefined, { remote: true });
+            console.log(`[SyncManager] Added memory from remote: ${operation.memoryId}`);
             return;
           }
 
-          // Apply partial update
-          await this.storage.updateMemory(operation.memoryId, operation.payload);
-          console.log(`[SyncManager] Updated memory from remote: ${operation.memoryId}`);
+          // Merge concurrent edits field by field
+          const merged = mergeMemory(existing as MemoryWithMemA, operation.payload as Partial<MemoryWithMemA>, stamp);
+          const changes = changedFields(existing as MemoryWithMemA, merged);
+          if (Object.keys(changes).length > 0) {
+            await this.storage.updateMemory(operation.memoryId, changes, { remote: true });
+          }
+          console.log(`[SyncManager] Merged memory from remote: ${operation.memoryId}`);
           break;
         }
 
         case 'delete': {
-          // Delete memory
+          // Tombstone first, so edits that arrive later stay dropped
+          const previous = tombstones[operation.memoryId];
+          if (!previous || compareStamps(stamp, previous) > 0) {
+            tombstones[operation.memoryId] = stamp;
+            await this.storage.setMetadata(METADATA_KEYS.MEMORY_TOMBSTONES, tombstones);
+          }
+
           const existing = await this.storage.getMemory(operation.memoryId);
           if (!existing) {
             console.warn(`[SyncManager] Cannot delete non-existent memory: ${operation.memoryId}`);
             return;
           }
 
-          await this.storage.deleteMemory(operation.memoryId);
+          await this.storage.deleteMemory(operation.memoryId, { remote: true });
           console.log(`[SyncManager] Deleted memory from remote: ${operation.memoryId}`);
           break;
         }
@@ -519,6 +732,14 @@ export class SyncManager implements ISyncManager {
     this.errorCallbacks.add(callback);
   }
 
+  /**
+   * Register callback for when the account's device registrations may have
+   * changed; fetch them and pass them to updateTrustedDevices
+   */
+  onDevicesChanged(callback: () => void): void {
+    this.devicesChangedCallbacks.add(callback);
+  }
+
   /**
    * Notify state change
    */
@@ -546,7 +767,20 @@ export class SyncManager implements ISyncManager {
   }
 
   /**
-   * Generate signature for authentication using Ed25519
+   * Notify that device registrations may have changed
+   */
+  private notifyDevicesChanged(): void {
+    for (const callback of this.devicesChangedCallbacks) {
+      try {
+        callback();
+      } catch (error) {
+        console.error('[SyncManager] Error in devices changed callback:', error);
+      }
+    }
+  }
+
+  /**
+   * Generate signature for operations and the connect challenge using Ed25519
    */
   private async generateSignature(data: string): Promise<string> {
     if (!this.devicePrivateKey) {
@@ -591,5 +825,6 @@ export class SyncManager implements ISyncManager {
     this.stateChangeCallbacks.clear();
     this.remoteChangeCallbacks.clear();
     this.errorCallbacks.clear();
+    this.devicesChangedCallbacks.clear();
   }
 }
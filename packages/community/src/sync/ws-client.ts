@@ -3,6 +3,7 @@
  * Browser WebSocket client with auto-reconnect and message handling
  *
  * Features:
+ * - Answers the server's connect challenge with the device signature
  * - Auto-reconnect with exponential backoff
  * - Message queue while disconnected
  * - Heartbeat monitoring
@@ -12,6 +13,7 @@
 import {
   WebSocketMessage,
   ConnectMessage,
+  ChallengeMessage,
   ConnectedMessage,
   SyncRequestMessage,
   SyncResponseMessage,
@@ -19,6 +21,8 @@ import {
   AckMessage,
   ErrorMessage,
   HeartbeatMessage,
+  DevicesMessage,
+  connectChallengeSigningData,
 } from '@engram/core';
 import { RetryManager } from './retry-manager';
 
@@ -33,6 +37,7 @@ export interface WebSocketClientConfig {
   url: string;
   heartbeatInterval: number; // 30 seconds
   reconnectOnClose: boolean;
+  registrationToken?: string; // Sent in CONNECT so a new device can register
 }
 
 export const DEFAULT_WEBSOCKET_CONFIG: WebSocketClientConfig = {
@@ -47,6 +52,7 @@ export class WebSocketClient {
   private deviceId: string | null = null;
   private deviceName: string | null = null;
   private publicKey: string | null = null;
+  private sign: ((data: string) => Promise<string>) | null = null; // Device signature for the challenge
   private vectorClock: Record<string, number> = {};
   private lastSyncTimestamp: number = 0;
   private retryManager: RetryManager;
@@ -66,7 +72,8 @@ export class WebSocketClient {
     deviceName: string,
     publicKey: string,
     vectorClock: Record<string, number>,
-    lastSyncTimestamp: number
+    lastSyncTimestamp: number,
+    sign: (data: string) => Promise<string>
   ): Promise<void> {
     if (this.isConnected) {
       console.log('[WSClient] Already connected');
@@ -77,6 +84,7 @@ export class WebSocketClient {
     this.deviceId = deviceId;
     this.deviceName = deviceName;
     this.publicKey = publicKey;
+    this.sign = sign;
     this.vectorClock = vectorClock;
     this.lastSyncTimestamp = lastSyncTimestamp;
 
@@ -101,6 +109,7 @@ export class WebSocketClient {
             publicKey,
             vectorClock,
             lastSyncTimestamp,
+            ...(this.config.registrationToken && { registrationToken: this.config.registrationToken }),
           },
         };
 
@@ -128,13 +137,14 @@ export class WebSocketClient {
           });
 
           this.retryManager.setTimer(() => {
-            if (this.deviceId && this.deviceName && this.publicKey) {
+            if (this.deviceId && this.deviceName && this.publicKey !== null && this.sign) {
               this.connect(
                 this.deviceId,
                 this.deviceName,
                 this.publicKey,
                 this.vectorClock,
-                this.lastSyncTimestamp
+                this.lastSyncTimestamp,
+                this.sign
               );
             }
           });
@@ -177,6 +187,10 @@ export class WebSocketClient {
 
       // Handle different message types
       switch (message.type) {
+        case 'CHALLENGE':
+          this.handleChallenge(message as ChallengeMessage);
+          break;
+
         case 'CONNECTED':
           this.handleConnected(message as ConnectedMessage);
           break;
@@ -193,6 +207,10 @@ export class WebSocketClient {
           this.emit('message', { type: 'ACK', message: message as AckMessage });
           break;
 
+        case 'DEVICES':
+          this.emit('message', { type: 'DEVICES', message: message as DevicesMessage });
+          break;
+
         case 'ERROR':
           this.handleError(message as ErrorMessage);
           break;
@@ -217,6 +235,27 @@ export class WebSocketClient {
     }
   }
 
+  /**
+   * Handle CHALLENGE message: prove this device holds its signing key
+   */
+  private async handleChallenge(message: ChallengeMessage): Promise<void> {
+    if (!this.deviceId || !this.sign) return;
+
+    try {
+      const signature = await this.sign(connectChallengeSigningData(this.deviceId, message.payload.nonce));
+      this.send({
+        type: 'AUTHENTICATE',
+        timestamp: Date.now(),
+        messageId: crypto.randomUUID(),
+        payload: { signature },
+      });
+    } catch (error) {
+      // The server closes the connection once the challenge goes unanswered
+      console.error('[WSClient] Failed to answer connect challenge:', error);
+      this.emit('error', error);
+    }
+  }
+
   /**
    * Handle CONNECTED message
    */
@@ -233,6 +272,7 @@ export class WebSocketClient {
     this.emit('connected', {
       serverTime: message.payload.serverTime,
       vectorClock: message.payload.serverVectorClock,
+      devices: message.payload.devices,
     });
   }
 
@@ -0,0 +1,73 @@
+/**
+ * Test fixtures for adapter specs
+ * Trimmed HTML snapshots of conversation pages (class names kept, text replaced)
+ */
+
+export interface PageSnapshotFixture {
+  specId: string;
+  url: string;
+  conversationId: string;
+  html: string;
+}
+
+/**
+ * DeepSeek conversation with a code answer
+ */
+export const deepseekConversation: PageSnapshotFixture = {
+  specId: 'deepseek',
+  url: 'https://chat.deepseek.com/a/chat/s/6f1c2d3e-aaaa-bbbb',
+  conversationId: '6f1c2d3e-aaaa-bbbb',
+  html: `
+    <html><body><div id="root">
+      <div class="ds-message _9663006">
+        <div class="fbb737a4">How do I configure tokio workers?</div>
+      </div>
+      <div class="ds-message _63c77b1">
+        <div class="ds-think-content">Thinking about the runtime builder...</div>
+        <div class="ds-markdown">
+          <p>Use the runtime builder:</p>
+          <pre><code class="language-rust">Builder::new_multi_thread().worker_threads(4)</code></pre>
+          <button>Copy</button>
+        </div>
+      </div>
+      <textarea id="chat-input"></textarea>
+      <div role="button" aria-disabled="false"></div>
+    </div></body></html>`,
+};
+
+/**
+ * Copilot conversation
+ */
+export const copilotConversation: PageSnapshotFixture = {
+  specId: 'copilot',
+  url: 'https://copilot.microsoft.com/chats/Xy12-ab',
+  conversationId: 'Xy12-ab',
+  html: `
+    <html><body><main>
+      <div data-content="user-message"><span class="sr-only">You said</span>What is a vector clock?</div>
+      <div data-content="ai-message"><span class="sr-only">Copilot said</span><p>A logical clock per device.</p></div>
+      <textarea id="userInput"></textarea>
+      <button aria-label="Submit message"></button>
+    </main></body></html>`,
+};
+
+/**
+ * Le Chat conversation
+ */
+export const mistralConversation: PageSnapshotFixture = {
+  specId: 'mistral',
+  url: 'https://chat.mistral.ai/chat/0c9d-41e2',
+  conversationId: '0c9d-41e2',
+  html: `
+    <html><body><main>
+      <div data-message-author-role="user"><div>Summarize CRDTs</div></div>
+      <div data-message-author-role="assistant">
+        <div data-message-part-type="answer"><p>Data types that merge without conflicts.</p></div>
+        <button>Retry</button>
+      </div>
+      <textarea name="message.text"></textarea>
+      <button type="submit"></button>
+    </main></body></html>`,
+};
+
+export const PAGE_SNAPSHOTS = [deepseekConversation, copilotConversation, mistralConversation];
@@ -0,0 +1,151 @@
+/**
+ * Test fixtures for platform API requests
+ * Captured payload shapes of the requests that carry the user's prompt
+ * (IDs and tokens replaced)
+ */
+
+import type { Platform, RequestTransport } from '@engram/core';
+
+export const FIXTURE_PROMPT = 'How do I configure tokio workers?';
+
+export interface RequestPayloadFixture {
+  platform: Platform;
+  transport: RequestTransport;
+  method: string;
+  url: string;
+  body: string;
+  /** Read the prompt back out of a (rewritten) body */
+  readPrompt: (body: string) => string;
+}
+
+/**
+ * Claude completion request
+ */
+export const claudeCompletion: RequestPayloadFixture = {
+  platform: 'claude',
+  transport: 'fetch',
+  method: 'POST',
+  url: 'https://claude.ai/api/organizations/org-1/chat_conversations/conv-1/completion',
+  body: JSON.stringify({
+    prompt: FIXTURE_PROMPT,
+    parent_message_uuid: '00000000-0000-4000-8000-000000000000',
+    timezone: 'Europe/Berlin',
+    personalized_styles: [],
+    locale: 'en-US',
+    tools: [],
+    attachments: [],
+    files: [],
+    sync_sources: [],
+    rendering_mode: 'messages',
+  }),
+  readPrompt: (body) => JSON.parse(body).prompt,
+};
+
+/**
+ * ChatGPT conversation request
+ */
+export const chatGPTConversation: RequestPayloadFixture = {
+  platform: 'chatgpt',
+  transport: 'fetch',
+  method: 'POST',
+  url: 'https://chatgpt.com/backend-api/conversation',
+  body: JSON.stringify({
+    action: 'next',
+    messages: [
+      {
+        id: 'aaa2c1b0-0000-4000-8000-000000000001',
+        author: { role: 'user' },
+        create_time: 1735689600.123,
+        content: { content_type: 'text', parts: [FIXTURE_PROMPT] },
+        metadata: { serialization_metadata: { custom_symbol_offsets: [] } },
+      },
+    ],
+    conversation_id: '6790a1b2-0000-4000-8000-000000000002',
+    parent_message_id: 'aaa2c1b0-0000-4000-8000-000000000000',
+    model: 'auto',
+    timezone_offset_min: -60,
+    history_and_training_disabled: false,
+    conversation_mode: { kind: 'primary_assistant' },
+    force_paragen: false,
+    force_rate_limit: false,
+    websocket_request_id: 'ws-1',
+  }),
+  readPrompt: (body) => JSON.parse(body).messages[0].content.parts[0],
+};
+
+/**
+ * Gemini StreamGenerate request (XHR, form encoded)
+ */
+export const geminiStreamGenerate: RequestPayloadFixture = {
+  platform: 'gemini',
+  transport: 'xhr',
+  method: 'POST',
+  url: 'https://gemini.google.com/_/BardChatUi/data/assistant.lamda.BardFrontendService/StreamGenerate?bl=boq_assistant-bard-web-server_20250101.00_p0&_reqid=123456&rt=c',
+  body: new URLSearchParams({
+    'f.req': JSON.stringify([
+      null,
+      JSON.stringify([[FIXTURE_PROMPT, 0, null, null, null, null, 0], ['en'], ['c_1', 'r_1', 'rc_1'], null, null, null, [1], 0]),
+    ]),
+    at: 'AJvLN6M-token:1735689600000',
+  }).toString() + '&',
+  readPrompt: (body) => {
+    const outer = JSON.parse(new URLSearchParams(body).get('f.req')!);
+    return JSON.parse(outer[1])[0][0];
+  },
+};
+
+/**
+ * Perplexity socket.io ask event
+ */
+export const perplexitySocketAsk: RequestPayloadFixture = {
+  platform: 'perplexity',
+  transport: 'websocket',
+  method: 'SEND',
+  url: 'wss://www.perplexity.ai/socket.io/?EIO=4&transport=websocket',
+  body: '421' + JSON.stringify([
+    'perplexity_ask',
+    FIXTURE_PROMPT,
+    {
+      version: '2.13',
+      source: 'default',
+      frontend_uuid: 'f-1',
+      language: 'en-US',
+      timezone: 'Europe/Berlin',
+      search_focus: 'internet',
+      mode: 'concise',
+      is_related_query: false,
+    },
+  ]),
+  readPrompt: (body) => JSON.parse(body.replace(/^42\d*/, ''))[1],
+};
+
+/**
+ * Perplexity SSE ask request
+ */
+export const perplexitySseAsk: RequestPayloadFixture = {
+  platform: 'perplexity',
+  transport: 'fetch',
+  method: 'POST',
+  url: 'https://www.perplexity.ai/rest/sse/perplexity_ask',
+  body: JSON.stringify({
+    params: {
+      version: '2.18',
+      source: 'default',
+      language: 'en-US',
+      timezone: 'Europe/Berlin',
+      search_focus: 'internet',
+      mode: 'concise',
+      frontend_uuid: 'f-2',
+    },
+    query_str: FIXTURE_PROMPT,
+  }),
+  readPrompt: (body) => JSON.parse(body).query_str,
+};
+
+export const REQUEST_PAYLOAD_FIXTURES: RequestPayloadFixture[] = [
+  claudeCompletion,
+  chatGPTConversation,
+  geminiStreamGenerate,
+  perplexitySocketAsk,
+  perplexitySseAsk,
+];
@@ -15,6 +15,7 @@ export class Dexie {
     return {
       stores: (schema) => {
         Object.keys(schema).forEach((tableName) => {
+          if (schema[tableName] === null) return; // Table deleted in this version
           const pk = schema[tableName].split(',')[0].trim().replace(/^[&|*]*/, '') || 'id';
           self._primaryKeys.set(tableName, pk);
           if (!self._data.has(tableName)) self._data.set(tableName, new Map());
@@ -31,6 +32,7 @@ export class Dexie {
   }
 
   async open() { return this; }
+  async transaction(...args) { return args[args.length - 1](); }
   close() { }
   async delete() { return undefined; }
   table(tableName) { return this._mockTables.get(tableName) || this[tableName]; }
@@ -62,25 +64,30 @@ export class Dexie {
     const pkField = this._primaryKeys.get(tableName) || 'id';
     const self = this;
 
+    // Compound primary keys ('[a+b]') are stored under their joined values
+    const compoundFields = pkField.startsWith('[') ? pkField.slice(1, -1).split('+') : null;
+    const storeKey = (key) => (Array.isArray(key) ? JSON.stringify(key) : key);
+    const primaryKey = (item) => (compoundFields ? compoundFields.map((field) => item[field]) : item[pkField]);
+
     const putImpl = async (item) => {
-      const pk = item[pkField];
-      if (pk) tableStore.set(pk, item);
+      const pk = primaryKey(item);
+      if (pk) tableStore.set(storeKey(pk), item);
       return pk;
     };
     const bulkPutImpl = async (items) => {
       items.forEach(item => {
-        const pk = item[pkField];
-        if (pk) tableStore.set(pk, item);
+        const pk = primaryKey(item);
+        if (pk) tableStore.set(storeKey(pk), item);
       });
-      return items[items.length - 1]?.[pkField];
+      return items.length > 0 ? primaryKey(items[items.length - 1]) : undefined;
     };
     const toArrayImpl = async () => Array.from(tableStore.values());
 
     const tableMock = {
       put: jest.fn().mockImplementation(putImpl),
       add: jest.fn().mockImplementation(putImpl),
-      get: jest.fn().mockImplementation(async (key) => tableStore.get(key)),
-      delete: jest.fn().mockImplementation(async (k) => tableStore.delete(k)),
+      get: jest.fn().mockImplementation(async (key) => tableStore.get(storeKey(key))),
+      delete: jest.fn().mockImplementation(async (k) => tableStore.delete(storeKey(k))),
       clear: jest.fn().mockImplementation(async () => tableStore.clear()),
       update: jest.fn().mockImplementation(async (key, changes) => {
         const item = tableStore.get(key);
@@ -89,8 +96,8 @@ export class Dexie {
       }),
       bulkPut: jest.fn().mockImplementation(bulkPutImpl),
       bulkAdd: jest.fn().mockImplementation(bulkPutImpl),
-      bulkGet: jest.fn().mockImplementation(async (keys) => keys.map(k => tableStore.get(k))),
-      bulkDelete: jest.fn().mockImplementation(async (keys) => keys.forEach(k => tableStore.delete(k))),
+      bulkGet: jest.fn().mockImplementation(async (keys) => keys.map(k => tableStore.get(storeKey(k)))),
+      bulkDelete: jest.fn().mockImplementation(async (keys) => keys.forEach(k => tableStore.delete(storeKey(k)))),
       count: jest.fn().mockImplementation(async () => tableStore.size),
       toArray: jest.fn().mockImplementation(toArrayImpl),
       filter: jest.fn().mockImplementation((fn) => {
@@ -0,0 +1,544 @@
+/**
+ * Multi-device sync simulation
+ *
+ * N virtual devices, each a real StorageService (over the in-memory Dexie
+ * mock) and SyncManager, talk to one in-memory relay through a network that
+ * drops, duplicates, delays (and so reorders) and partitions messages.
+ *
+ * Every random choice, from local edits to message delays, comes from one
+ * seeded PRNG and all time is Jest's fake clock, so a failing seed replays
+ * exactly. Tests using it need the node environment (for setImmediate).
+ */
+
+import { jest } from '@jest/globals';
+import {
+  incrementClock,
+  METADATA_KEYS,
+  type CrdtStamp,
+  type MemoryWithMemA,
+  type SyncOperation,
+  type VectorClock,
+  type WebSocketMessage,
+} from '@engram/core';
+import { StorageService } from '../../src/lib/storage';
+import { getCryptoService } from '../../src/lib/crypto-service';
+import { SyncManager } from '../../src/sync/sync-manager';
+import { DEFAULT_QUEUE_CONFIG } from '../../src/sync/operation-queue';
+import { changedFields, recordLocalEdit } from '../../src/sync/memory-crdt';
+import type { TrustedDevice } from '../../src/sync/device-trust';
+import { createMemory } from '../__fixtures__/memories';
+
+/**
+ * Deterministic PRNG (mulberry32), so a failing seed can be replayed
+ */
+export function seededRandom(seed: number): () => number {
+  let state = seed;
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+export interface NetworkFaults {
+  dropRate: number; // Chance a message is lost
+  duplicateRate: number; // Chance a message is delivered twice
+  maxDelayMs: number; // Each copy is delayed at random up to this, so later messages can overtake
+}
+
+export const NO_FAULTS: NetworkFaults = {
+  dropRate: 0,
+  duplicateRate: 0,
+  maxDelayMs: 0,
+};
+
+const SOCKET_STATES = { CONNECTING: 0, OPEN: 1, CLOSING: 2, CLOSED: 3 } as const;
+
+/**
+ * Both ends of one client connection: the WebSocket the device's
+ * WebSocketClient holds, and the relay's view of it
+ */
+class SimulatedSocket {
+  static readonly CONNECTING = SOCKET_STATES.CONNECTING;
+  static readonly OPEN = SOCKET_STATES.OPEN;
+  static readonly CLOSING = SOCKET_STATES.CLOSING;
+  static readonly CLOSED = SOCKET_STATES.CLOSED;
+
+  readyState: number = SOCKET_STATES.CONNECTING;
+  connected = false; // Relay side: CONNECT received
+  onopen: ((event: unknown) => void) | null = null;
+  onmessage: ((event: { data: string }) => void) | null = null;
+  onerror: ((event: unknown) => void) | null = null;
+  onclose: ((event: { code: number; reason: string }) => void) | null = null;
+
+  constructor(
+    private relay: SimulatedRelay,
+    readonly deviceId: string
+  ) {
+    relay.open(this);
+  }
+
+  send(data: string): void {
+    this.relay.fromClient(this, data);
+  }
+
+  close(code = 1000, reason = ''): void {
+    if (this.readyState === SOCKET_STATES.CLOSED) return;
+
+    this.readyState = SOCKET_STATES.CLOSED;
+    this.relay.closed(this);
+    Promise.resolve().then(() => this.onclose?.({ code, reason }));
+  }
+}
+
+function socketClassFor(relay: SimulatedRelay): typeof WebSocket {
+  return class extends SimulatedSocket {
+    constructor(url: string) {
+      super(relay, new URL(url).searchParams.get('device') || '');
+    }
+  } as unknown as typeof WebSocket;
+}
+
+/**
+ * In-memory sync relay with the reference server's protocol (see
+ * @engram/server), behind a faulty network
+ *
+ * Like the SQLite backend, an operation's cursor is its receive time, made
+ * unique and increasing.
+ */
+export class SimulatedRelay {
+  faults: NetworkFaults;
+  private log: { operation: SyncOperation; receivedAt: number }[] = [];
+  private vectorClock: VectorClock = {};
+  private sockets: Set<SimulatedSocket> = new Set();
+  private partitioned: Set<string> = new Set();
+  private inFlight = 0;
+  private messages = 0;
+
+  constructor(
+    private rand: () => number,
+    faults: Partial<NetworkFaults> = {},
+    private pageSize = 5
+  ) {
+    this.faults = { ...NO_FAULTS, ...faults };
+  }
+
+  /**
+   * WebSocket class to install globally; the device ID comes from the URL
+   */
+  socketClass(): typeof WebSocket {
+    return socketClassFor(this);
+  }
+
+  /**
+   * Lose every message to and from these devices until healed
+   */
+  partition(deviceIds: string[]): void {
+    deviceIds.forEach((id) => this.partitioned.add(id));
+  }
+
+  /**
+   * End partitions and faults
+   */
+  heal(): void {
+    this.partitioned.clear();
+    this.faults = { ...NO_FAULTS };
+  }
+
+  /**
+   * No message or connection attempt on the way
+   */
+  isIdle(): boolean {
+    return this.inFlight === 0;
+  }
+
+  /**
+   * Operations stored, in the order received
+   */
+  getOperations(): SyncOperation[] {
+    return this.log.map(({ operation }) => operation);
+  }
+
+  open(socket: SimulatedSocket): void {
+    this.schedule(() => {
+      if (socket.readyState !== SOCKET_STATES.CONNECTING) return;
+      socket.readyState = SOCKET_STATES.OPEN;
+      this.sockets.add(socket);
+      socket.onopen?.({});
+    });
+  }
+
+  closed(socket: SimulatedSocket): void {
+    this.sockets.delete(socket);
+  }
+
+  fromClient(socket: SimulatedSocket, data: string): void {
+    this.transmit(socket, () => this.handle(socket, JSON.parse(data)));
+  }
+
+  private toClient(socket: SimulatedSocket, message: WebSocketMessage): void {
+    const data = JSON.stringify(message);
+    this.transmit(socket, () => socket.onmessage?.({ data }));
+  }
+
+  /**
+   * Deliver over the faulty network, if the connection is still open then
+   */
+  private transmit(socket: SimulatedSocket, deliver: () => void): void {
+    if (this.partitioned.has(socket.deviceId) || this.rand() < this.faults.dropRate) return;
+
+    const copies = this.rand() < this.faults.duplicateRate ? 2 : 1;
+    for (let i = 0; i < copies; i++) {
+      this.schedule(() => {
+        if (socket.readyState === SOCKET_STATES.OPEN) deliver();
+      });
+    }
+  }
+
+  private schedule(callback: () => void): void {
+    this.inFlight++;
+    setTimeout(() => {
+      this.inFlight--;
+      callback();
+    }, 1 + Math.floor(this.rand() * this.faults.maxDelayMs));
+  }
+
+  private handle(socket: SimulatedSocket, message: WebSocketMessage): void {
+    const reply = (type: string, payload: unknown) =>
+      this.toClient(socket, { type, timestamp: Date.now(), messageId: `relay-${++this.messages}`, payload } as WebSocketMessage);
+
+    if (message.type !== 'CONNECT' && message.type !== 'HEARTBEAT' && !socket.connected) {
+      reply('ERROR', { code: 'NOT_CONNECTED', message: 'Send CONNECT first', retryable: false });
+      return;
+    }
+
+    switch (message.type) {
+      case 'CONNECT':
+        socket.connected = true;
+        reply('CONNECTED', {
+          serverTime: Date.now(),
+          serverVectorClock: { ...this.vectorClock },
+          connectedDevices: [...this.sockets]
+            .filter((other) => other.connected && other.deviceId !== socket.deviceId)
+            .map((other) => other.deviceId),
+        });
+        break;
+
+      case 'SYNC_REQUEST': {
+        const since = message.payload.since || 0;
+        const after = this.log.filter(
+          ({ operation, receivedAt }) => receivedAt > since && operation.deviceId !== socket.deviceId
+        );
+        const page = after.slice(0, this.pageSize);
+
+        reply('SYNC_RESPONSE', {
+          operations: page.map(({ operation }) => operation),
+          hasMore: after.length > page.length,
+          nextCursor: page.length > 0 ? page[page.length - 1].receivedAt : undefined,
+        });
+        break;
+      }
+
+      case 'OPERATION': {
+        const { operation } = message.payload;
+        if (!this.log.some((stored) => stored.operation.id === operation.id)) {
+          const last = this.log[this.log.length - 1]?.receivedAt ?? 0;
+          this.log.push({ operation, receivedAt: Math.max(Date.now(), last + 1) });
+          const counter = operation.vectorClock[socket.deviceId] || 0;
+          this.vectorClock[socket.deviceId] = Math.max(this.vectorClock[socket.deviceId] || 0, counter);
+
+          for (const other of this.sockets) {
+            if (other.connected && other.deviceId !== socket.deviceId) {
+              this.toClient(other, { ...message, messageId: `relay-${operation.id}` });
+            }
+          }
+        }
+        reply('ACK', { messageId: message.messageId, success: true });
+        break;
+      }
+
+      case 'HEARTBEAT':
+        break;
+    }
+  }
+}
+
+/**
+ * Memories, deletes and sync state of one device, comparable across devices
+ */
+export interface DeviceSnapshot {
+  memories: Partial<MemoryWithMemA>[];
+  deleted: string[];
+  vectorClock: VectorClock;
+  queueSize: number;
+  quarantined: number;
+}
+
+/**
+ * One browser profile: its own storage, sync manager and signing key
+ */
+export class SimulatedDevice {
+  readonly storage = new StorageService();
+  readonly manager: SyncManager;
+  private writes = 0;
+
+  constructor(readonly id: string) {
+    this.manager = new SyncManager(this.storage, {
+      serverUrl: `ws://relay.test/ws?device=${id}`,
+      deviceId: id,
+      autoConnect: false,
+      syncOnStartup: false,
+    });
+  }
+
+  async start(privateKey: Uint8Array): Promise<void> {
+    await this.storage.initialize();
+    await this.manager.initialize();
+    // Key generation is skipped under test
+    (this.manager as any).devicePrivateKey = privateKey;
+  }
+
+  async isDeleted(memoryId: string): Promise<boolean> {
+    const tombstones = await this.storage.getMetadata<Record<string, CrdtStamp>>(METADATA_KEYS.MEMORY_TOMBSTONES);
+    return !!tombstones?.[memoryId];
+  }
+
+  /**
+   * Capture a message as a new memory
+   */
+  async capture(memoryId: string, tags: string[] = []): Promise<void> {
+    const stamp = await this.nextStamp();
+    const memory: MemoryWithMemA = {
+      ...createMemory({
+        id: memoryId as any,
+        conversationId: `conversation-${memoryId}` as any,
+        content: { role: 'user', text: `Message ${memoryId}` },
+        encrypted: false,
+        deviceId: this.id,
+        tags,
+      }),
+      vectorClock: stamp.clock,
+    };
+
+    await this.storage.saveMemory(memory);
+    await this.queue('add', memoryId, memory);
+  }
+
+  /**
+   * Edit tags, keywords, context, evolution or links of a memory
+   */
+  async edit(memoryId: string, updates: Partial<MemoryWithMemA>): Promise<void> {
+    const memory = (await this.storage.getMemory(memoryId)) as MemoryWithMemA;
+    const edited = recordLocalEdit(memory, updates, await this.nextStamp());
+
+    await this.storage.updateMemory(memoryId, changedFields(memory, edited));
+    await this.queue('update', memoryId, edited);
+  }
+
+  async remove(memoryId: string): Promise<void> {
+    const stamp = await this.nextStamp();
+    const tombstones =
+      (await this.storage.getMetadata<Record<string, CrdtStamp>>(METADATA_KEYS.MEMORY_TOMBSTONES)) || {};
+
+    await this.storage.setMetadata(METADATA_KEYS.MEMORY_TOMBSTONES, { ...tombstones, [memoryId]: stamp });
+    await this.storage.deleteMemory(memoryId);
+    await this.queue('delete', memoryId, null);
+  }
+
+  async snapshot(): Promise<DeviceSnapshot> {
+    const memories = (await this.storage.getMemories({})) as MemoryWithMemA[];
+    const tombstones = await this.storage.getMetadata<Record<string, CrdtStamp>>(METADATA_KEYS.MEMORY_TOMBSTONES);
+    const stats = await this.manager.getStats();
+
+    return {
+      // Sync status is local bookkeeping
+      memories: memories
+        .map(({ syncStatus: _syncStatus, ...memory }) => JSON.parse(JSON.stringify(memory)))
+        .sort((a, b) => a.id.localeCompare(b.id)),
+      deleted: Object.keys(tombstones || {}).sort(),
+      vectorClock: Object.fromEntries(Object.entries(stats.vectorClock).filter(([, value]) => value > 0)),
+      queueSize: stats.queueSize,
+      quarantined: (await this.manager.getQuarantinedOperations()).length,
+    };
+  }
+
+  /**
+   * Stamp of the next local write: queueOperation gives the operation the same clock
+   */
+  private async nextStamp(): Promise<CrdtStamp> {
+    const { vectorClock } = await this.manager.getStats();
+    return { deviceId: this.id, clock: incrementClock(vectorClock, this.id) };
+  }
+
+  private queue(type: SyncOperation['type'], memoryId: string, payload: MemoryWithMemA | null): Promise<void> {
+    return this.manager.queueOperation({
+      id: `${this.id}-${++this.writes}`,
+      type,
+      memoryId,
+      vectorClock: {},
+      payload: payload && JSON.parse(JSON.stringify(payload)),
+      signature: '',
+      timestamp: Date.now(),
+    });
+  }
+}
+
+export interface SimulationOptions {
+  seed: number;
+  devices: number;
+  faults?: Partial<NetworkFaults>;
+  pageSize?: number; // Operations per SYNC_RESPONSE
+}
+
+const MEMORY_IDS = ['mem-1', 'mem-2', 'mem-3', 'mem-4'];
+const TAGS = ['work', 'idea', 'todo', 'read'];
+const MAX_THINK_TIME_MS = 400; // Time between two local changes
+const SETTLE_STEP_MS = 250;
+const SETTLE_TIMEOUT_MS = 120_000;
+const SIMULATION_START = Date.UTC(2026, 0, 1);
+
+/**
+ * Let every promise chain started by a delivered message finish
+ * (storage is promise-only, so one macrotask drains them)
+ */
+function flush(): Promise<void> {
+  return new Promise((resolve) => setImmediate(resolve));
+}
+
+/**
+ * A seeded run of random local changes on every device over one relay
+ *
+ * Runs on Jest's fake timers from `create` until `destroy`.
+ */
+export class SyncSimulation {
+  private originalWebSocket: unknown;
+
+  private constructor(
+    readonly rand: () => number,
+    readonly relay: SimulatedRelay,
+    readonly devices: SimulatedDevice[]
+  ) {}
+
+  static async create(options: SimulationOptions): Promise<SyncSimulation> {
+    const crypto = await getCryptoService();
+    const rand = seededRandom(options.seed);
+    const relay = new SimulatedRelay(rand, options.faults, options.pageSize);
+    const devices = Array.from({ length: options.devices }, (_, i) => new SimulatedDevice(`device-${i}`));
+    const simulation = new SyncSimulation(rand, relay, devices);
+
+    // Every device trusts the account's registrations, as on startup
+    const registrations: TrustedDevice[] = [];
+    for (const device of devices) {
+      const keyPair = await crypto.generateDeviceKeyPair();
+      await device.start(keyPair.privateKey);
+      registrations.push({ id: device.id, name: device.id, publicKey: keyPair.publicKey });
+    }
+    for (const device of devices) {
+      await device.manager.updateTrustedDevices(registrations);
+    }
+
+    jest.useFakeTimers({ now: SIMULATION_START, doNotFake: ['setImmediate', 'nextTick', 'queueMicrotask'] });
+    simulation.originalWebSocket = (global as any).WebSocket;
+    (global as any).WebSocket = relay.socketClass();
+
+    for (const device of devices) {
+      await device.manager.connect();
+    }
+    await simulation.advance(0);
+
+    return simulation;
+  }
+
+  /**
+   * Random local changes on random devices, with network traffic in between
+   */
+  async run(changes: number): Promise<void> {
+    for (let i = 0; i < changes; i++) {
+      await this.randomChange();
+      await this.advance(Math.floor(this.rand() * MAX_THINK_TIME_MS));
+    }
+  }
+
+  /**
+   * Advance the clock until no message is on the way and no queued
+   * operation is waiting to be pushed
+   */
+  async settle(): Promise<void> {
+    let idleFor = 0;
+    for (let elapsed = 0; elapsed < SETTLE_TIMEOUT_MS; elapsed += SETTLE_STEP_MS) {
+      await this.advance(SETTLE_STEP_MS);
+      idleFor = this.relay.isIdle() ? idleFor + SETTLE_STEP_MS : 0;
+      if (idleFor > DEFAULT_QUEUE_CONFIG.debounceMs) return;
+    }
+    throw new Error(`Sync did not settle within ${SETTLE_TIMEOUT_MS}ms`);
+  }
+
+  /**
+   * End partitions and faults, reconnect every device (as after a network
+   * change) and settle
+   */
+  async heal(): Promise<void> {
+    this.relay.heal();
+    for (const device of this.devices) {
+      await device.manager.disconnect();
+      await device.manager.connect();
+    }
+    await this.settle();
+  }
+
+  async snapshots(): Promise<DeviceSnapshot[]> {
+    return Promise.all(this.devices.map((device) => device.snapshot()));
+  }
+
+  async destroy(): Promise<void> {
+    for (const device of this.devices) {
+      await device.manager.destroy();
+    }
+    await flush();
+    jest.useRealTimers();
+    (global as any).WebSocket = this.originalWebSocket;
+  }
+
+  private async advance(ms: number): Promise<void> {
+    await jest.advanceTimersByTimeAsync(ms);
+    await flush();
+  }
+
+  /**
+   * One random change on one random device: capture, edit or delete
+   */
+  private async randomChange(): Promise<void> {
+    const pick = <T,>(values: readonly T[]): T => values[Math.floor(this.rand() * values.length)];
+    const device = pick(this.devices);
+    const memoryId = pick(MEMORY_IDS);
+    if (await device.isDeleted(memoryId)) return;
+
+    const memory = (await device.storage.getMemory(memoryId)) as MemoryWithMemA | null;
+    if (!memory) {
+      // Devices capture the same message independently (memory IDs come from content)
+      await device.capture(memoryId, this.rand() < 0.5 ? [pick(TAGS)] : []);
+      return;
+    }
+
+    const roll = this.rand();
+    if (roll < 0.05) {
+      await device.remove(memoryId);
+    } else if (roll < 0.35) {
+      await device.edit(memoryId, { tags: [...new Set([...memory.tags, pick(TAGS)])] });
+    } else if (roll < 0.5) {
+      await device.edit(memoryId, { tags: memory.tags.filter(() => this.rand() < 0.5) });
+    } else if (roll < 0.65) {
+      await device.edit(memoryId, { keywords: [pick(TAGS), pick(TAGS)] });
+    } else if (roll < 0.8) {
+      await device.edit(memoryId, { context: `context ${device.id}-${Date.now()}` });
+    } else if (roll < 0.92) {
+      const target = pick(MEMORY_IDS.filter((id) => id !== memoryId));
+      await device.edit(memoryId, {
+        links: [...(memory.links || []), { memoryId: target, score: this.rand(), createdAt: Date.now() }],
+      });
+    } else {
+      await device.edit(memoryId, { links: (memory.links || []).filter(() => this.rand() < 0.5) });
+    }
+  }
+}
@@ -44,6 +44,7 @@ jest.mock('../../src/lib/embedding-service', () => {
                 }));
             }),
             setHNSWIndex: jest.fn(),
+            setModel: jest.fn(),
             findSimilar: jest.fn().mockImplementation(() => Promise.resolve([])),
         })),
         EmbeddingService: jest.fn()
@@ -647,6 +647,22 @@ describe('Synchronization & Premium Flows', () => {
             expect(dequeued[2].id).toBe('op-2');
         });
 
+        test('should not queue local saves while WebSocket sync is off', async () => {
+            const saveResult = await handleMessage({
+                type: MessageType.SAVE_MESSAGE,
+                message: {
+                    role: 'user',
+                    content: 'Saved while nothing drains the sync queue',
+                    conversationId: 'conv-no-sync',
+                    timestamp: Date.now()
+                }
+            } as any, mockSender, backgroundService);
+
+            expect(saveResult.success).toBe(true);
+            const queued = await backgroundService.getStorage().dequeueSyncOperations(10);
+            expect(queued).toEqual([]);
+        });
+
         test('should clear sync queue', async () => {
             const storage = backgroundService.getStorage();
 
@@ -0,0 +1,252 @@
+/**
+ * Sync Server Integration Tests
+ * SyncManager and WebSocketClient against the reference sync server, offline
+ *
+ * @jest-environment node
+ */
+
+import { describe, it, expect, beforeAll, beforeEach, afterEach, jest } from '@jest/globals';
+import WebSocket from 'ws';
+import type { SyncOperation } from '@engram/core';
+import type { TrustedDevice } from '../../src/sync/device-trust';
+import { SyncServer, SqliteStorageBackend } from '@engram/server';
+import { SyncManager } from '../../src/sync/sync-manager';
+import { StorageService } from '../../src/lib/storage';
+import { getCryptoService, type CryptoService } from '../../src/lib/crypto-service';
+import { createMemory } from '../__fixtures__/memories';
+
+let crypto: CryptoService;
+
+const REGISTRATION_TOKEN = 'registration-token';
+
+/**
+ * Wait until a condition holds, polling
+ */
+async function waitFor(condition: () => Promise<boolean>, timeoutMs = 5000): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (!(await condition())) {
+    if (Date.now() > deadline) throw new Error('Timed out waiting for condition');
+    await new Promise((resolve) => setTimeout(resolve, 20));
+  }
+}
+
+/**
+ * A browser profile: its own storage, sync manager and signing key
+ * Like the background service, it refreshes trust from the account's device
+ * registrations when the server announces devices it does not know
+ */
+async function createDevice(deviceId: string, port: number, account: TrustedDevice[]) {
+  const storage = new StorageService();
+  await storage.initialize();
+
+  const manager = new SyncManager(storage, {
+    serverUrl: `ws://localhost:${port}/ws`,
+    deviceId,
+    autoConnect: false,
+    syncOnStartup: false,
+    registrationToken: REGISTRATION_TOKEN,
+  });
+  await manager.initialize();
+  manager.onDevicesChanged(() => manager.updateTrustedDevices([...account]));
+
+  // Key generation is skipped under test; give the device its key directly
+  const keyPair = await crypto.generateDeviceKeyPair();
+  (manager as any).devicePrivateKey = keyPair.privateKey;
+  (manager as any).devicePublicKey = keyPair.publicKey;
+
+  return {
+    storage,
+    manager,
+    registration: { id: deviceId, name: deviceId, publicKey: keyPair.publicKey },
+    add: (memoryId: string) => {
+      const memory = createMemory({ id: memoryId as any, deviceId, syncStatus: 'synced' });
+      const operation: SyncOperation = {
+        id: `op-${memoryId}`,
+        type: 'add',
+        memoryId,
+        vectorClock: {},
+        payload: memory,
+        signature: '',
+        timestamp: Date.now(),
+      };
+      return manager.queueOperation(operation);
+    },
+  };
+}
+
+describe('Sync with the reference server', () => {
+  const originalWebSocket = (global as any).WebSocket;
+  let backend: SqliteStorageBackend;
+  let server: SyncServer;
+  let devices: Awaited<ReturnType<typeof createDevice>>[];
+  let account: TrustedDevice[]; // Registrations the account API would list
+
+  /**
+   * A device of the account, registered with it unless `registered` is false
+   */
+  const open = async (deviceId: string, registered = true) => {
+    const device = await createDevice(deviceId, server.getPort(), account);
+    devices.push(device);
+    if (registered) account.push(device.registration);
+    return device;
+  };
+
+  beforeAll(async () => {
+    crypto = await getCryptoService();
+  });
+
+  beforeEach(async () => {
+    (global as any).WebSocket = WebSocket;
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    backend = new SqliteStorageBackend(':memory:');
+    server = new SyncServer(backend, { port: 0, pageSize: 2, registrationToken: REGISTRATION_TOKEN });
+    await server.start();
+    devices = [];
+    account = [];
+  });
+
+  afterEach(async () => {
+    for (const device of devices) {
+      await device.manager.destroy();
+    }
+    // Let the closing handshakes finish before the server drops the sockets
+    await waitFor(async () => server.getConnectedDevices().length === 0);
+    await server.stop();
+    backend.close();
+    (global as any).WebSocket = originalWebSocket;
+    jest.restoreAllMocks();
+  });
+
+  it('should push operations queued offline and pull them on another device', async () => {
+    const laptop = await open('laptop');
+    const phone = await open('phone');
+
+    await laptop.add('mem-1');
+    await laptop.manager.connect();
+    await waitFor(async () => (await laptop.manager.getStats()).queueSize === 0);
+
+    await phone.manager.connect();
+    await waitFor(async () => !!(await phone.storage.getMemory('mem-1')));
+
+    expect((await backend.getOperations({})).operations.map((op) => op.id)).toEqual(['op-mem-1']);
+    expect((await phone.manager.getStats()).vectorClock.laptop).toBe(1);
+    expect((await backend.getDevice('laptop'))?.publicKey).toBe(laptop.registration.publicKey);
+  });
+
+  it('should deliver live operations between connected devices', async () => {
+    const laptop = await open('laptop');
+    const phone = await open('phone');
+    await laptop.manager.connect();
+    await phone.manager.connect();
+    await waitFor(async () => server.getConnectedDevices().length === 2);
+
+    await phone.add('mem-2');
+
+    await waitFor(async () => !!(await laptop.storage.getMemory('mem-2')));
+    // Held back until the account's registrations arrive, then released
+    await waitFor(async () => (await laptop.manager.getQuarantinedOperations()).length === 0);
+  });
+
+  it('should trust devices that register after it connected', async () => {
+    const laptop = await open('laptop');
+    await laptop.manager.connect();
+    await waitFor(async () => server.getConnectedDevices().length === 1);
+
+    const phone = await open('phone');
+    await phone.add('mem-1');
+    await phone.manager.connect();
+
+    await waitFor(async () => !!(await laptop.storage.getMemory('mem-1')));
+    await waitFor(async () => (await laptop.manager.getQuarantinedOperations()).length === 0);
+  });
+
+  it('should sync memories saved, edited and deleted through storage', async () => {
+    const laptop = await open('laptop');
+    const phone = await open('phone');
+    laptop.storage.setLocalChangeRecorder(laptop.manager);
+    await laptop.manager.connect();
+    await phone.manager.connect();
+    await waitFor(async () => server.getConnectedDevices().length === 2);
+
+    await laptop.storage.saveMemory(createMemory({ id: 'mem-1' as any, deviceId: 'laptop', tags: ['notes'] }));
+    await waitFor(async () => !!(await phone.storage.getMemory('mem-1')));
+
+    await laptop.storage.updateMemory('mem-1', { tags: ['notes', 'rust'] });
+    await waitFor(async () => !!(await phone.storage.getMemory('mem-1'))?.tags.includes('rust'));
+
+    await laptop.storage.deleteMemory('mem-1');
+    await waitFor(async () => !(await phone.storage.getMemory('mem-1')));
+    expect(await phone.manager.getQuarantinedOperations()).toEqual([]);
+  });
+
+  it('should pull a backlog larger than one page', async () => {
+    const laptop = await open('laptop');
+    const phone = await open('phone');
+
+    for (let i = 0; i < 5; i++) {
+      await laptop.add(`mem-${i}`);
+    }
+    await laptop.manager.connect();
+    await waitFor(async () => (await laptop.manager.getStats()).queueSize === 0);
+
+    await phone.manager.connect();
+    await waitFor(async () => (await phone.storage.getMemories({})).length === 5);
+  });
+
+  it('should drop operations from revoked devices', async () => {
+    const laptop = await open('laptop');
+    const tablet = await open('tablet');
+    const phone = await open('phone');
+
+    await laptop.add('mem-1');
+    await laptop.manager.connect();
+    await waitFor(async () => (await laptop.manager.getStats()).queueSize === 0);
+    await server.revokeDevice('laptop');
+    account[0] = { ...account[0], revokedAt: Date.now() };
+    await waitFor(async () => server.getConnectedDevices().length === 0);
+
+    // Pulled after laptop's operation, so its arrival means laptop's was handled
+    await tablet.add('mem-2');
+    await tablet.manager.connect();
+    await waitFor(async () => (await tablet.manager.getStats()).queueSize === 0);
+    await phone.manager.connect();
+
+    await waitFor(async () => !!(await phone.storage.getMemory('mem-2')));
+    expect(await phone.storage.getMemory('mem-1')).toBeNull();
+    await waitFor(async () => (await phone.manager.getQuarantinedOperations()).length === 0);
+  });
+
+  it('should not trust devices the account did not register', async () => {
+    const stranger = await open('stranger', false);
+    const phone = await open('phone');
+
+    await stranger.add('mem-1');
+    await stranger.manager.connect();
+    await waitFor(async () => (await stranger.manager.getStats()).queueSize === 0);
+    await phone.manager.connect();
+
+    // The server announces the stranger, but the account does not list it
+    await waitFor(async () => (await phone.manager.getQuarantinedOperations()).length === 1);
+    expect((await phone.manager.getQuarantinedOperations())[0].reason).toBe('unknown-device');
+    expect(await phone.storage.getMemory('mem-1')).toBeNull();
+  });
+
+  it('should quarantine operations not signed with the registered key', async () => {
+    const laptop = await open('laptop');
+    const phone = await open('phone');
+
+    await laptop.manager.connect();
+    await waitFor(async () => server.getConnectedDevices().length === 1);
+    // Signs with a key the server never saw
+    (laptop.manager as any).devicePrivateKey = (await crypto.generateDeviceKeyPair()).privateKey;
+    await laptop.add('mem-1');
+    await waitFor(async () => (await laptop.manager.getStats()).queueSize === 0);
+    await phone.manager.connect();
+
+    await waitFor(async () => (await phone.manager.getQuarantinedOperations()).length === 1);
+    expect((await phone.manager.getQuarantinedOperations())[0].reason).toBe('invalid-signature');
+    expect(await phone.storage.getMemory('mem-1')).toBeNull();
+    // The server has seen laptop's operation, but the phone has not applied it
+    expect((await phone.manager.getStats()).vectorClock.laptop).toBeUndefined();
+  });
+});
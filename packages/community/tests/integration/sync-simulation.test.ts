@@ -0,0 +1,135 @@
+/**
+ * Sync Simulation Tests
+ * Devices editing the same memories over a faulty network end in the same state
+ *
+ * Each seed is one reproducible run (see tests/__utils__/sync-simulation.ts):
+ * to debug a failure, run its seed alone.
+ *
+ * @jest-environment node
+ */
+
+import { describe, it, expect, beforeAll, beforeEach, afterEach, jest } from '@jest/globals';
+import { getCryptoService } from '../../src/lib/crypto-service';
+import { SyncSimulation, type DeviceSnapshot, type SimulationOptions } from '../__utils__/sync-simulation';
+
+const SEEDS = [1, 2, 3, 4, 5, 6, 7, 8];
+
+/**
+ * Every device holds the same memories, deletes and vector clock, with
+ * nothing left to push or held in quarantine
+ */
+function expectConverged(seed: number, snapshots: DeviceSnapshot[]): void {
+  const [first, ...others] = snapshots;
+
+  for (const snapshot of snapshots) {
+    expect({ seed, queueSize: snapshot.queueSize, quarantined: snapshot.quarantined }).toEqual({
+      seed,
+      queueSize: 0,
+      quarantined: 0,
+    });
+  }
+  for (const other of others) {
+    expect({ seed, ...other }).toEqual({ seed, ...first });
+  }
+}
+
+describe('Sync simulation', () => {
+  let simulation: SyncSimulation | null = null;
+
+  const simulate = async (options: SimulationOptions) => {
+    simulation = await SyncSimulation.create(options);
+    return simulation;
+  };
+
+  beforeAll(async () => {
+    await getCryptoService();
+  });
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(async () => {
+    await simulation?.destroy();
+    simulation = null;
+    jest.restoreAllMocks();
+  });
+
+  it.each(SEEDS)('should converge on a reliable network (seed %i)', async (seed) => {
+    const sim = await simulate({ seed, devices: 3 });
+
+    await sim.run(30);
+    await sim.settle();
+
+    const snapshots = await sim.snapshots();
+    expectConverged(seed, snapshots);
+    expect(snapshots[0].memories.length + snapshots[0].deleted.length).toBeGreaterThan(0);
+  });
+
+  it.each(SEEDS)('should converge when messages are reordered, duplicated and delayed (seed %i)', async (seed) => {
+    const sim = await simulate({ seed, devices: 3, faults: { duplicateRate: 0.2, maxDelayMs: 2000 } });
+
+    await sim.run(30);
+    await sim.settle();
+
+    expectConverged(seed, await sim.snapshots());
+  });
+
+  it.each(SEEDS)('should converge once devices reconnect after dropped messages (seed %i)', async (seed) => {
+    const sim = await simulate({
+      seed,
+      devices: 3,
+      faults: { dropRate: 0.15, duplicateRate: 0.1, maxDelayMs: 500 },
+    });
+
+    await sim.run(30);
+    await sim.heal();
+
+    expectConverged(seed, await sim.snapshots());
+  });
+
+  it.each(SEEDS)('should converge after a partition heals (seed %i)', async (seed) => {
+    const sim = await simulate({ seed, devices: 4, faults: { maxDelayMs: 300 } });
+
+    await sim.run(10);
+    sim.relay.partition(['device-0', 'device-1']);
+    await sim.run(20);
+    await sim.heal();
+
+    expectConverged(seed, await sim.snapshots());
+  });
+
+  it('should pull a backlog larger than one page after a long partition', async () => {
+    const sim = await simulate({ seed: 42, devices: 2, pageSize: 2 });
+
+    sim.relay.partition(['device-1']);
+    for (const memoryId of ['mem-1', 'mem-2', 'mem-3', 'mem-4']) {
+      await sim.devices[0].capture(memoryId, ['work']);
+    }
+    await sim.settle();
+    await sim.heal();
+
+    const snapshots = await sim.snapshots();
+    expectConverged(42, snapshots);
+    expect(snapshots[1].memories.map((memory) => memory.id)).toEqual(['mem-1', 'mem-2', 'mem-3', 'mem-4']);
+  });
+
+  it('should replay a seed exactly', async () => {
+    const run = async () => {
+      const sim = await simulate({ seed: 7, devices: 3, faults: { dropRate: 0.1, duplicateRate: 0.1, maxDelayMs: 500 } });
+      await sim.run(20);
+      await sim.heal();
+      const result = {
+        operations: sim.relay.getOperations().map((operation) => operation.id),
+        snapshots: await sim.snapshots(),
+      };
+      await sim.destroy();
+      simulation = null;
+      return result;
+    };
+
+    expect(await run()).toEqual(await run());
+  });
+});
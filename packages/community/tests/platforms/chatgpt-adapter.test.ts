@@ -208,6 +208,39 @@ describe('ChatGPTAdapter', () => {
     });
   });
 
+  describe('Selector drift', () => {
+    it('should infer the role from the layout when the role attribute is gone', () => {
+      const messageEl = document.createElement('article');
+      messageEl.innerHTML = `
+        <div class="flex justify-end">
+          <div class="whitespace-pre-wrap">Where did the attribute go?</div>
+        </div>
+      `;
+
+      const extracted = adapter.extractMessage(messageEl);
+
+      expect(extracted?.role).toBe('user');
+      expect(extracted?.content).toBe('Where did the attribute go?');
+    });
+
+    it('should fall back to rendered markdown for assistant turns', () => {
+      const messageEl = document.createElement('article');
+      messageEl.innerHTML = '<div class="prose"><p>Still here</p></div>';
+
+      const extracted = adapter.extractMessage(messageEl);
+
+      expect(extracted?.role).toBe('assistant');
+      expect(extracted?.content).toBe('Still here');
+    });
+
+    it('should skip turns whose role cannot be inferred', () => {
+      const messageEl = document.createElement('article');
+      messageEl.innerHTML = '<span>Unknown</span>';
+
+      expect(adapter.extractMessage(messageEl)).toBeNull();
+    });
+  });
+
   describe('Initialization', () => {
     it('should initialize without errors', async () => {
       await expect(adapter.initialize()).resolves.not.toThrow();
@@ -269,7 +269,7 @@ describe('ClaudeAdapter', () => {
       expect(call.content).toBe('New message');
     }, 10000);
 
-    it('should not process duplicate messages', () => {
+    it('should emit separate turns with the same text once each', () => {
       const container = document.querySelector('main')!;
       container.innerHTML = `
         <div data-test-render-count="1">
@@ -282,7 +282,7 @@ describe('ClaudeAdapter', () => {
 
       claudeAdapter.observeMessages(messageCallback);
 
-      expect(messageCallback).toHaveBeenCalledTimes(1);
+      expect(messageCallback).toHaveBeenCalledTimes(2);
     });
 
     it('should stop observing when requested', () => {
@@ -387,4 +387,26 @@ describe('ClaudeAdapter', () => {
       expect(message?.content).toContain('Inner text');
     });
   });
+
+  describe('Selector drift', () => {
+    it('should fall back to the user message test ID', () => {
+      const messageElement = document.createElement('div');
+      messageElement.innerHTML = '<div data-testid="user-message">Hello again</div>';
+
+      const message = claudeAdapter.extractMessage(messageElement);
+
+      expect(message?.role).toBe('user');
+      expect(message?.content).toBe('Hello again');
+    });
+
+    it('should infer the role from the layout when no role class matches', () => {
+      const messageElement = document.createElement('div');
+      messageElement.innerHTML = '<div class="grid"><div class="markdown"><p>Answer</p></div></div>';
+
+      const message = claudeAdapter.extractMessage(messageElement);
+
+      expect(message?.role).toBe('assistant');
+      expect(message?.content).toBe('Answer');
+    });
+  });
 });
@@ -324,7 +324,7 @@ describe('PerplexityAdapter', () => {
       expect(call.content).toBe('New message');
     }, 10000);
 
-    it('should not process duplicate messages', async () => {
+    it('should emit separate turns with the same text once each', async () => {
       const container = document.querySelector('main')!;
       container.innerHTML = `
         <div class="message">
@@ -340,7 +340,7 @@ describe('PerplexityAdapter', () => {
       // Small wait to ensure processExistingMessagesWithRetry completes
       await new Promise(resolve => setTimeout(resolve, 100));
 
-      expect(messageCallback).toHaveBeenCalledTimes(1);
+      expect(messageCallback).toHaveBeenCalledTimes(2);
     });
 
     it('should stop observing when requested', async () => {
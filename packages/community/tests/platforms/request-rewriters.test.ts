@@ -0,0 +1,84 @@
+/**
+ * Request Rewriter Tests
+ * Fixture-based tests for each platform's prompt payload shape
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  REQUEST_REWRITERS,
+  findRequestRewriter,
+  samePrompt,
+} from '../../src/content/platforms/request-rewriters';
+import { chatGPTAdapter } from '../../src/content/platforms/chatgpt-adapter';
+import { claudeAdapter } from '../../src/content/platforms/claude-adapter';
+import { geminiAdapter } from '../../src/content/platforms/gemini-adapter';
+import { perplexityAdapter } from '../../src/content/platforms/perplexity-adapter';
+import {
+  FIXTURE_PROMPT,
+  REQUEST_PAYLOAD_FIXTURES,
+  chatGPTConversation,
+  claudeCompletion,
+} from '../__fixtures__/request-payloads';
+
+const ENRICHED = `${FIXTURE_PROMPT}\n\n<engram_context>\n<memory ref="1">Use a "bounded" channel & 4 workers</memory>\n</engram_context>`;
+
+describe('Request rewriters', () => {
+  describe.each(REQUEST_PAYLOAD_FIXTURES.map((f) => [`${f.platform} ${f.transport}`, f] as const))('%s', (_, fixture) => {
+    it('should match the request that carries the prompt', () => {
+      expect(findRequestRewriter(fixture.url, fixture.method, fixture.transport)?.platform).toBe(fixture.platform);
+    });
+
+    it('should replace only the prompt', () => {
+      const rewriter = REQUEST_REWRITERS[fixture.platform]!;
+
+      const rewritten = rewriter.rewrite(fixture.body, FIXTURE_PROMPT, ENRICHED);
+
+      expect(rewritten).not.toBeNull();
+      expect(fixture.readPrompt(rewritten!)).toBe(ENRICHED);
+      // Everything else survives the round trip
+      expect(rewriter.rewrite(rewritten!, ENRICHED, FIXTURE_PROMPT)).toBe(
+        rewriter.rewrite(fixture.body, FIXTURE_PROMPT, FIXTURE_PROMPT)
+      );
+    });
+
+    it('should leave bodies with another prompt alone', () => {
+      expect(REQUEST_REWRITERS[fixture.platform]!.rewrite(fixture.body, 'Something else entirely', ENRICHED)).toBeNull();
+    });
+  });
+
+  it('should not match requests without a prompt', () => {
+    expect(findRequestRewriter('https://chatgpt.com/backend-api/conversation/init', 'POST', 'fetch')).toBeNull();
+    expect(findRequestRewriter('https://chatgpt.com/backend-api/conversation', 'GET', 'fetch')).toBeNull();
+    expect(findRequestRewriter('https://claude.ai/api/organizations/org-1/chat_conversations/conv-1', 'PUT', 'fetch')).toBeNull();
+    expect(findRequestRewriter('https://gemini.google.com/_/BardChatUi/data/batchexecute', 'POST', 'xhr')).toBeNull();
+    expect(findRequestRewriter('wss://example.com/socket.io/', 'SEND', 'websocket')).toBeNull();
+  });
+
+  it('should match prompts regardless of editor whitespace', () => {
+    expect(samePrompt('How do I\n configure  tokio workers? ', FIXTURE_PROMPT)).toBe(true);
+    expect(samePrompt(undefined, FIXTURE_PROMPT)).toBe(false);
+  });
+
+  it('should rewrite the last user message of a ChatGPT request', () => {
+    const body = JSON.parse(chatGPTConversation.body);
+    body.messages.unshift({ id: 'system', author: { role: 'system' }, content: { content_type: 'text', parts: [FIXTURE_PROMPT] } });
+
+    const rewritten = JSON.parse(REQUEST_REWRITERS.chatgpt!.rewrite(JSON.stringify(body), FIXTURE_PROMPT, ENRICHED)!);
+
+    expect(rewritten.messages[0].content.parts[0]).toBe(FIXTURE_PROMPT);
+    expect(rewritten.messages[1].content.parts[0]).toBe(ENRICHED);
+  });
+
+  it('should ignore bodies that are not JSON', () => {
+    expect(REQUEST_REWRITERS.claude!.rewrite('not json', FIXTURE_PROMPT, ENRICHED)).toBeNull();
+    expect(REQUEST_REWRITERS.perplexity!.rewrite('40', FIXTURE_PROMPT, ENRICHED)).toBeNull();
+    expect(claudeCompletion.readPrompt(claudeCompletion.body)).toBe(FIXTURE_PROMPT);
+  });
+
+  it('should be registered through the platform adapters', () => {
+    expect(chatGPTAdapter.getRequestRewriter()).toBe(REQUEST_REWRITERS.chatgpt);
+    expect(claudeAdapter.getRequestRewriter()).toBe(REQUEST_REWRITERS.claude);
+    expect(geminiAdapter.getRequestRewriter()).toBe(REQUEST_REWRITERS.gemini);
+    expect(perplexityAdapter.getRequestRewriter()).toBe(REQUEST_REWRITERS.perplexity);
+  });
+});
@@ -0,0 +1,113 @@
+/**
+ * Spec Adapter Tests
+ * Runs the built-in adapter specs against saved page snapshots
+ */
+
+import { describe, it, expect, beforeEach } from '@jest/globals';
+import type { AdapterSpec, ExtractedMessage } from '@engram/core';
+import {
+  SpecAdapter,
+  extractSpecMessage,
+  getSpecConversationId,
+  testAdapterSpec,
+} from '../../src/content/platforms/spec-adapter';
+import { BUILTIN_ADAPTER_SPECS } from '../../src/lib/adapter-specs';
+import { PAGE_SNAPSHOTS, deepseekConversation } from '../__fixtures__/page-snapshots';
+
+function builtinSpec(id: string): AdapterSpec {
+  const spec = BUILTIN_ADAPTER_SPECS.find((candidate) => candidate.id === id);
+  if (!spec) throw new Error(`No built-in spec ${id}`);
+  return spec;
+}
+
+describe('SpecAdapter', () => {
+  describe.each(PAGE_SNAPSHOTS)('$specId snapshot', (snapshot) => {
+    it('should capture the user and assistant messages', () => {
+      const result = testAdapterSpec(builtinSpec(snapshot.specId), snapshot.html, snapshot.url);
+
+      expect(result.errors).toEqual([]);
+      expect(result.warnings).toEqual([]);
+      expect(result.messages.map((message) => message.role)).toEqual(['user', 'assistant']);
+      expect(result.messages.every((message) => message.conversationId === snapshot.conversationId)).toBe(true);
+    });
+  });
+
+  it('should keep code in metadata and drop cleanup targets from the text', () => {
+    const { messages } = testAdapterSpec(builtinSpec('deepseek'), deepseekConversation.html, deepseekConversation.url);
+    const answer = messages[1];
+
+    expect(answer.content).toBe('Use the runtime builder:');
+    expect(answer.metadata?.codeBlocks).toEqual([
+      { language: 'rust', code: 'Builder::new_multi_thread().worker_threads(4)' },
+    ]);
+  });
+
+  it('should apply text replacements', () => {
+    const spec: AdapterSpec = {
+      ...builtinSpec('copilot'),
+      cleanup: { replace: [{ pattern: '^(You|Copilot) said' }] },
+    };
+    const { messages } = testAdapterSpec(spec, PAGE_SNAPSHOTS[1].html, PAGE_SNAPSHOTS[1].url);
+
+    expect(messages[0].content).toBe('What is a vector clock?');
+  });
+
+  it('should report a container that is missing from the snapshot', () => {
+    const result = testAdapterSpec(builtinSpec('deepseek'), '<html><body></body></html>', deepseekConversation.url);
+
+    expect(result.errors).toEqual(['No element matches selectors.container (#root)']);
+    expect(result.messages).toEqual([]);
+  });
+
+  it('should report a URL the spec does not cover', () => {
+    const result = testAdapterSpec(builtinSpec('deepseek'), deepseekConversation.html, 'https://example.com/chat/s/1');
+
+    expect(result.errors).toContain('URL does not match https://chat.deepseek.com/*');
+  });
+
+  it('should warn about messages no role rule matches', () => {
+    const spec: AdapterSpec = { ...builtinSpec('mistral'), roles: [{ role: 'user', selector: '[data-message-author-role="user"]' }] };
+    const result = testAdapterSpec(spec, PAGE_SNAPSHOTS[2].html, PAGE_SNAPSHOTS[2].url);
+
+    expect(result.warnings).toEqual(['Message 2 matches no role rule', 'No assistant messages found']);
+  });
+
+  it('should fall back to the path when the spec has no conversation ID pattern', () => {
+    const spec: AdapterSpec = { ...builtinSpec('copilot'), conversationIdPattern: undefined };
+
+    expect(getSpecConversationId(spec, 'https://copilot.microsoft.com/chats/abc')).toBe('copilot:/chats/abc');
+    expect(getSpecConversationId(builtinSpec('copilot'), 'https://copilot.microsoft.com/')).toBeNull();
+  });
+
+  it('should flag a streaming answer', () => {
+    const spec: AdapterSpec = { ...builtinSpec('mistral'), selectors: { ...builtinSpec('mistral').selectors, streaming: '.cursor' } };
+    document.body.innerHTML = '<div data-message-author-role="assistant"><p>Partial</p><span class="cursor"></span></div>';
+    const element = document.body.firstElementChild as HTMLElement;
+
+    expect(extractSpecMessage(spec, element, PAGE_SNAPSHOTS[2].url)?.metadata?.isStreaming).toBe(true);
+  });
+
+  describe('Observation', () => {
+    beforeEach(() => {
+      Object.defineProperty(window, 'location', {
+        value: { href: deepseekConversation.url, pathname: '/a/chat/s/6f1c2d3e-aaaa-bbbb' },
+        writable: true,
+      });
+      document.body.innerHTML = deepseekConversation.html;
+    });
+
+    it('should report the messages already on the page', async () => {
+      const adapter = new SpecAdapter(builtinSpec('deepseek'));
+      const messages: ExtractedMessage[] = [];
+
+      await adapter.initialize();
+      await adapter.observeMessages((message) => messages.push(message));
+      adapter.destroy();
+
+      expect(adapter.getConfig().platformId).toBe('deepseek');
+      expect(adapter.isCurrentPlatform(deepseekConversation.url)).toBe(true);
+      expect(adapter.getRequestRewriter()).toBeNull();
+      expect(messages.map((message) => message.role)).toEqual(['user', 'assistant']);
+    });
+  });
+});
@@ -89,6 +89,10 @@ import { jest } from '@jest/globals';
       addListener: jest.fn(),
       removeListener: jest.fn(),
     },
+    onRemoved: {
+      addListener: jest.fn(),
+      removeListener: jest.fn(),
+    },
     query: jest.fn(() => Promise.resolve([])),
     get: jest.fn(() => Promise.resolve({})),
     create: jest.fn(() => Promise.resolve({})),
@@ -4,7 +4,7 @@
  */
 
 import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
-import { handleMessage } from '../../../src/background/message-handler';
+import { handleMessage, clearAdapterHealth } from '../../../src/background/message-handler';
 import { MessageType, createErrorResponse, validateMessage } from '../../../src/lib/messages';
 import { BackgroundService } from '../../../src/background/index';
 import { createMemory, createEnrichedMemory } from '../../__fixtures__/memories';
@@ -60,7 +60,9 @@ describe('Message Handler', () => {
       saveMemory: jest.fn<any>().mockResolvedValue(undefined),
       getMemories: jest.fn<any>().mockResolvedValue([]),
       searchMemories: jest.fn<any>().mockResolvedValue([]),
+      queryMemories: jest.fn<any>().mockResolvedValue([]),
       getMemory: jest.fn<any>().mockResolvedValue(null),
+      updateMemory: jest.fn<any>().mockResolvedValue(undefined),
       getMetadata: jest.fn<any>().mockResolvedValue(null),
       setMetadata: jest.fn<any>().mockResolvedValue(undefined),
       reinitializeEnrichment: jest.fn<any>().mockResolvedValue(undefined),
@@ -137,6 +139,7 @@ describe('Message Handler', () => {
       persistMasterKey: jest.fn<any>().mockResolvedValue(undefined),
       clearPersistedMasterKey: jest.fn<any>().mockResolvedValue(undefined),
       initializeCloudSyncIfNeeded: jest.fn<any>().mockResolvedValue(undefined),
+      refreshTrustedDevices: jest.fn<any>().mockResolvedValue(undefined),
       initializePremiumClientIfNeeded: jest.fn<any>().mockResolvedValue(undefined),
       getCloudSync: jest.fn<any>().mockReturnValue(null),
     } as unknown as BackgroundService;
@@ -330,6 +333,145 @@ describe('Message Handler', () => {
       expect(response.success).toBe(false);
       expect(response.error).toBe('Encryption failed');
     });
+
+    it('should store injected context as provenance instead of text', async () => {
+      mockSender.tab!.url = 'https://claude.ai/chat/123';
+
+      const message = {
+        type: MessageType.SAVE_MESSAGE,
+        message: {
+          role: 'user' as const,
+          content: [
+            '<engram_context description="Notes from my earlier conversations. Use them if relevant; cite them by ref.">',
+            '<memory ref="1" id="mem-1, mem-2" date="2025-01-01" platform="chatgpt">Use four workers</memory>',
+            '</engram_context>',
+            '',
+            'How do I configure tokio?',
+          ].join('\n'),
+          conversationId: 'conv-123',
+          timestamp: Date.now(),
+        },
+      };
+
+      const response = await handleMessage(message as any, mockSender, mockService);
+
+      expect(response.success).toBe(true);
+      const saved = JSON.parse(mockCrypto.encrypt.mock.calls[0][0]);
+      expect(saved.text).toBe('How do I configure tokio?');
+      expect(saved.metadata.contextProvenance).toEqual({ memoryIds: ['mem-1', 'mem-2'], source: 'detected' });
+    });
+
+    it('should save a revision over the memory of the earlier version', async () => {
+      const previous = {
+        ...createEnrichedMemory({ id: 'mem-previous', conversationId: 'conv-123', timestamp: 1000 }),
+        vectorClock: { 'device-123': 2 },
+      };
+      mockStorage.getMemory.mockResolvedValueOnce(previous);
+
+      const response = await handleMessage({
+        type: MessageType.SAVE_MESSAGE,
+        message: {
+          role: 'assistant' as const,
+          content: 'Regenerated answer',
+          conversationId: 'conv-123',
+          metadata: { messageKey: 'a', revision: 'regeneration' },
+        },
+        replaces: 'mem-previous',
+      } as any, mockSender, mockService);
+
+      expect(response.memoryId).toBe('mem-previous');
+      const saved = mockStorage.saveMemory.mock.calls[0][0];
+      expect(saved.id).toBe('mem-previous');
+      expect(saved.timestamp).toBe(1000);
+      expect(saved.vectorClock['device-123']).toBe(3);
+    });
+
+    it('should save a new memory when the replaced one is gone', async () => {
+      const response = await handleMessage({
+        type: MessageType.SAVE_MESSAGE,
+        message: { role: 'assistant' as const, content: 'Answer', conversationId: 'conv-123' },
+        replaces: 'mem-missing',
+      } as any, mockSender, mockService);
+
+      expect(response.success).toBe(true);
+      expect(response.memoryId).not.toBe('mem-missing');
+    });
+
+    it('should save an edit or regeneration as a new version of the message', async () => {
+      const root = {
+        ...createEnrichedMemory({ id: 'mem-root', conversationId: 'conv-123', timestamp: 1000 }),
+        vectorClock: { 'device-123': 1 },
+      };
+      mockStorage.getMemory.mockResolvedValueOnce(root);
+      mockStorage.getMemories.mockResolvedValueOnce([root]);
+
+      const response = await handleMessage({
+        type: MessageType.SAVE_MESSAGE,
+        message: {
+          role: 'assistant' as const,
+          content: 'Regenerated answer',
+          conversationId: 'conv-123',
+          metadata: { messageKey: 'a', revision: 'regeneration' },
+        },
+        branchOf: 'mem-root',
+      } as any, mockSender, mockService);
+
+      expect(response.success).toBe(true);
+      const saved = mockStorage.saveMemory.mock.calls[0][0];
+      expect(saved.id).not.toBe('mem-root');
+      expect(saved).toMatchObject({ parentId: 'mem-root', branchIndex: 1, branchSelected: true, timestamp: 1000 });
+      expect(mockStorage.updateMemory).toHaveBeenCalledWith('mem-root', {
+        branchSelected: false,
+        vectorClock: { 'device-123': 2 },
+      });
+    });
+
+    it('should update a version the page shows again in place', async () => {
+      const root = { ...createEnrichedMemory({ id: 'mem-root', conversationId: 'conv-123' }), branchSelected: false };
+      const version = {
+        ...createEnrichedMemory({ id: 'mem-v1', conversationId: 'conv-123' }),
+        parentId: 'mem-root',
+        branchIndex: 1,
+        vectorClock: { 'device-123': 4 },
+      };
+      mockStorage.getMemory.mockResolvedValueOnce(root);
+      mockStorage.getMemories.mockResolvedValueOnce([version, root]);
+
+      await handleMessage({
+        type: MessageType.SAVE_MESSAGE,
+        message: {
+          role: 'assistant' as const,
+          content: 'Second answer, re-rendered',
+          conversationId: 'conv-123',
+          metadata: { revision: 'regeneration', branch: { index: 1, count: 2 } },
+        },
+        branchOf: 'mem-root',
+      } as any, mockSender, mockService);
+
+      const saved = mockStorage.saveMemory.mock.calls[0][0];
+      expect(saved).toMatchObject({ id: 'mem-v1', parentId: 'mem-root', branchIndex: 1 });
+      expect(saved.vectorClock['device-123']).toBe(5);
+      expect(mockStorage.updateMemory).not.toHaveBeenCalled();
+    });
+
+    it('should keep provenance recorded by the content script', async () => {
+      const message = {
+        type: MessageType.SAVE_MESSAGE,
+        message: {
+          role: 'user' as const,
+          content: 'How do I configure tokio?',
+          conversationId: 'conv-123',
+          timestamp: Date.now(),
+          metadata: { contextProvenance: { memoryIds: ['mem-3'], source: 'interceptor' } },
+        },
+      };
+
+      await handleMessage(message as any, mockSender, mockService);
+
+      const saved = JSON.parse(mockCrypto.encrypt.mock.calls[0][0]);
+      expect(saved.text).toBe('How do I configure tokio?');
+      expect(saved.metadata.contextProvenance).toEqual({ memoryIds: ['mem-3'], source: 'interceptor' });
+    });
   });
 
   describe('GET_MEMORIES', () => {
@@ -447,6 +589,15 @@ describe('Message Handler', () => {
   });
 
   describe('SEARCH_MEMORIES', () => {
+    // Ranks memories in the given order and resumes after the cursor, as storage does
+    const rankInOrder = <T extends { id: string }>(memories: T[]) => async (_query: any, limit: number, options: any) => {
+      const ranked = memories.map((memory, index) => ({ score: memories.length - index, id: memory.id }));
+      const start = options?.after ? ranked.findIndex((position) => position.id === options.after.id) + 1 : 0;
+      const page = ranked.slice(start, start + limit);
+      page.forEach((position) => options?.positions?.set(position.id, position));
+      return page.map((position) => memories.find((memory) => memory.id === position.id)!);
+    };
+
     beforeEach(() => {
       // Update decrypt mock to preserve the original text during search tests
       mockCrypto.decrypt.mockImplementation(async (encryptedContent: any) => {
@@ -556,7 +707,7 @@ describe('Message Handler', () => {
           originalText: 'Match content',
         } as any,
       }));
-      mockStorage.searchMemories.mockResolvedValue(memories);
+      mockStorage.searchMemories.mockImplementation(rankInOrder(memories));
 
       const message = {
         type: MessageType.SEARCH_MEMORIES,
@@ -638,6 +789,124 @@ describe('Message Handler', () => {
       expect(response.success).toBe(true);
       expect(response.memories).toHaveLength(1);
     });
+
+    it('should run structured queries through queryMemories', async () => {
+      const message = {
+        type: MessageType.SEARCH_MEMORIES,
+        query: 'platform:claude tag:rust lifetimes',
+        limit: 10,
+      };
+
+      const response = await handleMessage(message as any, mockSender, mockService);
+
+      expect(response.success).toBe(true);
+      expect(mockStorage.searchMemories).not.toHaveBeenCalled();
+      expect(mockStorage.queryMemories).toHaveBeenCalledWith(
+        expect.objectContaining({
+          filter: { platform: 'claude', tags: ['rust'] },
+          text: 'lifetimes',
+        }),
+        11, // One extra to detect a next page
+        expect.objectContaining({ scores: expect.any(Map) })
+      );
+    });
+
+    it('should return highlighted snippets and score breakdown', async () => {
+      const memory = {
+        ...createMemory(),
+        encryptedContent: { originalText: 'The build failed with ERR_MODULE_NOT_FOUND again' } as any,
+      };
+      mockStorage.searchMemories.mockImplementation(async (_query: any, _limit: any, options: any) => {
+        options.scores.set(memory.id, { fused: 0.03, lexical: 2.5 });
+        return [memory];
+      });
+
+      const response = await handleMessage({
+        type: MessageType.SEARCH_MEMORIES,
+        query: 'ERR_MODULE_NOT_FOUND',
+      } as any, mockSender, mockService);
+
+      expect(response.success).toBe(true);
+      expect(response.hits).toEqual([{
+        memoryId: memory.id,
+        score: { fused: 0.03, lexical: 2.5 },
+        snippets: [{
+          text: 'The build failed with ERR_MODULE_NOT_FOUND again',
+          start: 0,
+          highlights: [{ start: 22, end: 42 }],
+        }],
+      }]);
+    });
+
+    it('should apply the request filter and page with cursors', async () => {
+      const memories = Array.from({ length: 5 }, () => ({
+        ...createMemory({ conversationId: 'conv-1' }),
+        encryptedContent: { originalText: 'Scoped result' } as any,
+      }));
+      mockStorage.queryMemories.mockImplementation(rankInOrder(memories));
+
+      const firstPage = await handleMessage({
+        type: MessageType.SEARCH_MEMORIES,
+        query: '',
+        filter: { conversationId: 'conv-1' },
+        limit: 2,
+      } as any, mockSender, mockService);
+
+      expect(firstPage.success).toBe(true);
+      expect(firstPage.memories.map((m: any) => m.id)).toEqual([memories[0].id, memories[1].id]);
+      expect(firstPage.nextCursor).toBeDefined();
+      expect(mockStorage.queryMemories).toHaveBeenCalledWith(
+        expect.objectContaining({ filter: { conversationId: 'conv-1' } }),
+        3,
+        expect.anything()
+      );
+
+      const lastPage = await handleMessage({
+        type: MessageType.SEARCH_MEMORIES,
+        query: '',
+        filter: { conversationId: 'conv-1' },
+        limit: 3,
+        cursor: firstPage.nextCursor,
+      } as any, mockSender, mockService);
+
+      expect(lastPage.memories.map((m: any) => m.id)).toEqual(memories.slice(2).map((m) => m.id));
+      expect(lastPage.nextCursor).toBeUndefined();
+      expect(mockStorage.queryMemories).toHaveBeenLastCalledWith(
+        expect.anything(),
+        4,
+        expect.objectContaining({ after: { score: 4, id: memories[1].id } })
+      );
+    });
+
+    it('should reject a cursor from a different search', async () => {
+      mockStorage.searchMemories.mockImplementation(rankInOrder(Array.from({ length: 3 }, () => createMemory())));
+      const firstPage = await handleMessage({
+        type: MessageType.SEARCH_MEMORIES,
+        query: 'rust',
+        limit: 1,
+      } as any, mockSender, mockService);
+
+      const response = await handleMessage({
+        type: MessageType.SEARCH_MEMORIES,
+        query: 'golang',
+        cursor: firstPage.nextCursor,
+      } as any, mockSender, mockService);
+
+      expect(response.success).toBe(false);
+      expect(response.error).toBe('Invalid search cursor');
+    });
+
+    it('should report query syntax errors', async () => {
+      const message = {
+        type: MessageType.SEARCH_MEMORIES,
+        query: 'platform:myspace',
+      };
+
+      const response = await handleMessage(message as any, mockSender, mockService);
+
+      expect(response.success).toBe(false);
+      expect(response.error).toContain('Unknown platform "myspace"');
+    });
   });
 
   describe('GET_SYNC_STATUS', () => {
@@ -707,6 +976,7 @@ describe('Message Handler', () => {
         'mock-public-key-base64',
         expect.any(Object)
       );
+      expect(mockService.refreshTrustedDevices).toHaveBeenCalled();
     });
 
     it('should require email and password', async () => {
@@ -1240,6 +1510,275 @@ describe('Message Handler', () => {
     });
   });
 
+  describe('Message versions', () => {
+    const root = { ...createEnrichedMemory({ id: 'mem-root', conversationId: 'conv-1' }), branchSelected: false };
+    const second = {
+      ...createEnrichedMemory({ id: 'mem-v2', conversationId: 'conv-1' }),
+      parentId: 'mem-root',
+      branchIndex: 2,
+    };
+    const first = {
+      ...createEnrichedMemory({ id: 'mem-v1', conversationId: 'conv-1' }),
+      parentId: 'mem-root',
+      branchIndex: 1,
+      branchSelected: false,
+    };
+    const unrelated = createEnrichedMemory({ id: 'mem-other', conversationId: 'conv-1' });
+
+    it('should list the versions of a message in branch order', async () => {
+      mockStorage.getMemory.mockResolvedValueOnce(second);
+      mockStorage.getMemories.mockResolvedValueOnce([unrelated, second, root, first]);
+
+      const response = await handleMessage({ type: MessageType.GET_MEMORY_VERSIONS, memoryId: 'mem-v2' } as any, mockSender, mockService);
+
+      expect(response.success).toBe(true);
+      expect(response.versions.map((m: any) => m.id)).toEqual(['mem-root', 'mem-v1', 'mem-v2']);
+      expect(mockStorage.getMemories).toHaveBeenCalledWith({ conversationId: 'conv-1' });
+    });
+
+    it('should select a version and deselect the others', async () => {
+      mockStorage.getMemory.mockResolvedValueOnce(first);
+      mockStorage.getMemories.mockResolvedValueOnce([unrelated, second, root, first]);
+
+      const response = await handleMessage({ type: MessageType.SELECT_MEMORY_VERSION, memoryId: 'mem-v1' } as any, mockSender, mockService);
+
+      expect(response.success).toBe(true);
+      expect(mockStorage.updateMemory.mock.calls.map((call: any) => [call[0], call[1].branchSelected])).toEqual([
+        ['mem-v1', true],
+        ['mem-v2', false],
+      ]);
+    });
+
+    it('should fail for an unknown memory', async () => {
+      const response = await handleMessage({ type: MessageType.SELECT_MEMORY_VERSION, memoryId: 'missing' } as any, mockSender, mockService);
+
+      expect(response.success).toBe(false);
+      expect(response.error).toContain('Memory not found');
+    });
+  });
+
+  describe('Adapter health', () => {
+    const report = {
+      platform: 'claude',
+      startedAt: Date.now(),
+      conversationId: 'conv-1',
+      conversationSince: Date.now() - 60_000,
+      captures: {},
+      lastCaptureAt: null,
+      selectors: {},
+      inferredRoles: 0,
+    };
+
+    afterEach(() => {
+      clearAdapterHealth(7);
+    });
+
+    it('should keep the latest report per tab', async () => {
+      const tabSender = { tab: { id: 7, url: 'https://claude.ai/chat/conv-1' } };
+
+      const reported = await handleMessage({ type: MessageType.REPORT_ADAPTER_HEALTH, report } as any, tabSender, mockService);
+      const response = await handleMessage({ type: MessageType.GET_ADAPTER_HEALTH, tabId: 7 } as any, mockSender, mockService);
+
+      expect(reported.success).toBe(true);
+      expect(response.success).toBe(true);
+      expect(response.report).toEqual(report);
+      expect(response.health.status).toBe('failing');
+    });
+
+    it('should reject reports that do not come from a tab', async () => {
+      const response = await handleMessage({ type: MessageType.REPORT_ADAPTER_HEALTH, report } as any, {}, mockService);
+
+      expect(response.success).toBe(false);
+      expect(response.error).toBe('Health reports must come from a tab');
+    });
+
+    it('should reject malformed reports without storing them', async () => {
+      const tabSender = { tab: { id: 7, url: 'https://claude.ai/chat/conv-1' } };
+
+      const reported = await handleMessage(
+        { type: MessageType.REPORT_ADAPTER_HEALTH, report: { platform: 'claude', captures: null } } as any,
+        tabSender,
+        mockService
+      );
+      const response = await handleMessage({ type: MessageType.GET_ADAPTER_HEALTH, tabId: 7 } as any, mockSender, mockService);
+
+      expect(reported.success).toBe(false);
+      expect(reported.error).toContain('Invalid health report: ');
+      expect(reported.error).toContain('captures must map conversation IDs to message counts');
+      expect(response.report).toBeUndefined();
+    });
+
+    it('should return no report for a tab without capture', async () => {
+      const response = await handleMessage({ type: MessageType.GET_ADAPTER_HEALTH, tabId: 7 } as any, mockSender, mockService);
+
+      expect(response.success).toBe(true);
+      expect(response.report).toBeUndefined();
+    });
+  });
+
+  describe('Quarantined sync operations', () => {
+    let syncManager: any;
+
+    beforeEach(() => {
+      syncManager = {
+        getQuarantinedOperations: jest.fn<any>().mockResolvedValue([
+          { operation: { id: 'op-1', memoryId: 'mem-1' }, reason: 'unsigned', receivedAt: 1 },
+        ]),
+        dismissQuarantinedOperations: jest.fn<any>().mockResolvedValue(undefined),
+      };
+      (mockService as any).getSyncManager = jest.fn().mockReturnValue(syncManager);
+    });
+
+    it('should list quarantined operations', async () => {
+      const response = await handleMessage({ type: MessageType.GET_QUARANTINED_OPERATIONS } as any, mockSender, mockService);
+
+      expect(response.success).toBe(true);
+      expect(response.operations).toHaveLength(1);
+      expect(response.operations[0].reason).toBe('unsigned');
+    });
+
+    it('should dismiss quarantined operations by ID', async () => {
+      const response = await handleMessage(
+        { type: MessageType.DISMISS_QUARANTINED_OPERATIONS, operationIds: ['op-1'] } as any,
+        mockSender,
+        mockService
+      );
+      const invalid = await handleMessage({ type: MessageType.DISMISS_QUARANTINED_OPERATIONS } as any, mockSender, mockService);
+
+      expect(response.success).toBe(true);
+      expect(syncManager.dismissQuarantinedOperations).toHaveBeenCalledWith(['op-1']);
+      expect(invalid.success).toBe(false);
+    });
+  });
+
+  describe('RETRIEVE_CONTEXT', () => {
+    it('should return decrypted candidates without vectors', async () => {
+      const memory = { ...createEnrichedMemory({ id: 'mem-1' as any }), encryptedContent: { ciphertext: 'x' } };
+      mockStorage.getHNSWIndex = jest.fn().mockReturnValue({
+        isReady: () => true,
+        search: jest.fn<any>().mockResolvedValue([{ id: 'mem-1', distance: 0.2, chunk: 0 }]),
+      });
+      mockStorage.getMemory.mockResolvedValue(memory);
+
+      const message = { type: MessageType.RETRIEVE_CONTEXT, prompt: 'How do I configure tokio?' };
+
+      const response = await handleMessage(message as any, mockSender, mockService);
+
+      expect(response.type).toBe(MessageType.RETRIEVE_CONTEXT_RESPONSE);
+      expect(response.success).toBe(true);
+      expect(response.candidates).toHaveLength(1);
+      expect(response.candidates[0].score).toBeCloseTo(0.8);
+      expect(response.candidates[0].memory.content.text).toBe('Decrypted content');
+      expect(response.candidates[0].memory.embedding).toBeUndefined();
+      expect(response.candidates[0].memory.encryptedContent).toBeUndefined();
+    });
+
+    it('should assemble the context block within the sender platform budget', async () => {
+      const memory = { ...createEnrichedMemory({ id: 'mem-1' as any }), encryptedContent: { ciphertext: 'x' } };
+      mockStorage.getHNSWIndex = jest.fn().mockReturnValue({
+        isReady: () => true,
+        search: jest.fn<any>().mockResolvedValue([{ id: 'mem-1', distance: 0.2, chunk: 0 }]),
+      });
+      mockStorage.getMemory.mockResolvedValue(memory);
+
+      const message = { type: MessageType.RETRIEVE_CONTEXT, prompt: 'How do I configure tokio?', assemble: true };
+
+      const response = await handleMessage(message as any, { tab: { url: 'https://claude.ai/chat/1' } }, mockService);
+
+      expect(response.success).toBe(true);
+      expect(response.context.budget).toBe(3000);
+      expect(response.context.text).toContain('<memory ref="1" id="mem-1"');
+      expect(response.context.enrichedPrompt).toBe(`${response.context.text}\n\nHow do I configure tokio?`);
+      expect(response.context.citations).toEqual([expect.objectContaining({ ref: 1, memoryId: 'mem-1', mode: 'full' })]);
+    });
+
+    it('should use the Gemini budget and template for prompts sent from Gemini', async () => {
+      const memory = createEnrichedMemory({ id: 'mem-1' as any });
+      mockStorage.getHNSWIndex = jest.fn().mockReturnValue({
+        isReady: () => true,
+        search: jest.fn<any>().mockResolvedValue([{ id: 'mem-1', distance: 0.2, chunk: 0 }]),
+      });
+      mockStorage.getMemory.mockResolvedValue(memory);
+      chrome.storage = {
+        local: {
+          get: jest.fn<any>().mockResolvedValue({
+            injectionTemplates: {
+              gemini: { preset: 'custom', prompt: '{{context}}\n---\n{{prompt}}', context: 'Notes:\n{{items}}', item: '* {{text}}' },
+            },
+          }),
+        },
+      };
+
+      const message = { type: MessageType.RETRIEVE_CONTEXT, prompt: 'How do I configure tokio?', assemble: true };
+
+      const response = await handleMessage(message as any, { tab: { url: 'https://gemini.google.com/app/1' } }, mockService);
+      delete chrome.storage;
+
+      expect(response.context.budget).toBe(2000);
+      expect(response.context.enrichedPrompt).toBe('Notes:\n* Decrypted content\n---\nHow do I configure tokio?');
+    });
+
+    it('should lay out the context with the saved template of the sender platform', async () => {
+      const memory = createEnrichedMemory({ id: 'mem-1' as any });
+      mockStorage.getHNSWIndex = jest.fn().mockReturnValue({
+        isReady: () => true,
+        search: jest.fn<any>().mockResolvedValue([{ id: 'mem-1', distance: 0.2, chunk: 0 }]),
+      });
+      mockStorage.getMemory.mockResolvedValue(memory);
+      chrome.storage = {
+        local: {
+          get: jest.fn<any>().mockResolvedValue({
+            injectionTemplates: {
+              chatgpt: { preset: 'custom', prompt: '{{context}}\n---\n{{prompt}}', context: 'Notes:\n{{items}}', item: '* {{text}}' },
+            },
+          }),
+        },
+      };
+
+      const message = { type: MessageType.RETRIEVE_CONTEXT, prompt: 'How do I configure tokio?', assemble: true };
+
+      const response = await handleMessage(message as any, { tab: { url: 'https://chatgpt.com/c/1' } }, mockService);
+      delete chrome.storage;
+
+      expect(response.context.enrichedPrompt).toBe('Notes:\n* Decrypted content\n---\nHow do I configure tokio?');
+    });
+
+    it('should apply the memories pinned and unchecked in the review', async () => {
+      const pinned = createEnrichedMemory({ id: 'pinned' as any });
+      mockStorage.getHNSWIndex = jest.fn().mockReturnValue({
+        isReady: () => true,
+        search: jest.fn<any>().mockResolvedValue([{ id: 'unchecked', distance: 0.1, chunk: 0 }]),
+      });
+      mockStorage.getMemory.mockImplementation(async (id: string) => createEnrichedMemory({ id: id as any }));
+
+      const message = {
+        type: MessageType.RETRIEVE_CONTEXT,
+        prompt: 'How do I configure tokio?',
+        include: [pinned.id],
+        exclude: ['unchecked'],
+      };
+
+      const response = await handleMessage(message as any, mockSender, mockService);
+
+      expect(response.candidates.map((c: any) => [c.memory.id, c.pinned])).toEqual([['pinned', true]]);
+    });
+
+    it('should require a prompt and the master key', async () => {
+      const missingPrompt = await handleMessage({ type: MessageType.RETRIEVE_CONTEXT } as any, mockSender, mockService);
+      expect(missingPrompt.success).toBe(false);
+      expect(missingPrompt.error).toContain('Prompt is required');
+
+      mockService.hasMasterKey.mockReturnValue(false);
+      const locked = await handleMessage(
+        { type: MessageType.RETRIEVE_CONTEXT, prompt: 'anything' } as any,
+        mockSender,
+        mockService
+      );
+      expect(locked.success).toBe(false);
+      expect(locked.error).toContain('Master key not available');
+    });
+  });
+
   describe('Error Handling', () => {
     it('should handle unexpected errors in message handler', async () => {
       mockService.getDeviceId.mockImplementationOnce(() => {
@@ -0,0 +1,35 @@
+/**
+ * Branch Position Unit Tests
+ * Tests for reading the version switcher of edited/regenerated messages
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { readBranchPosition } from '../../../src/content/shared/branch-position';
+
+function messageElement(html: string): HTMLElement {
+  const element = document.createElement('article');
+  element.innerHTML = html;
+  return element;
+}
+
+describe('readBranchPosition()', () => {
+  it('should read ChatGPT and Claude switchers as 0-based positions', () => {
+    const chatgpt = messageElement('<button>‹</button><div class="tabular-nums">2/3</div><button>›</button>');
+    const claude = messageElement('<button aria-label="Previous version">‹</button><span> 1 / 2 </span>');
+
+    expect(readBranchPosition(chatgpt, '.tabular-nums')).toEqual({ index: 1, count: 3 });
+    expect(readBranchPosition(claude, 'button[aria-label^="Previous"] ~ span')).toEqual({ index: 0, count: 2 });
+  });
+
+  it('should skip text that is not a position', () => {
+    const element = messageElement('<span class="tabular-nums">12:30</span><span class="tabular-nums">3/3</span>');
+
+    expect(readBranchPosition(element, '.tabular-nums')).toEqual({ index: 2, count: 3 });
+  });
+
+  it('should return undefined for messages with a single version', () => {
+    expect(readBranchPosition(messageElement('<div class="tabular-nums">1/1</div>'), '.tabular-nums')).toBeUndefined();
+    expect(readBranchPosition(messageElement('<div class="tabular-nums">4/3</div>'), '.tabular-nums')).toBeUndefined();
+    expect(readBranchPosition(messageElement('<div>2/3</div>'))).toBeUndefined();
+  });
+});
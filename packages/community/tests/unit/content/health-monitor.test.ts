@@ -0,0 +1,161 @@
+/**
+ * Health Monitor Unit Tests
+ * Tests for capture telemetry, selector fallbacks and anonymized DOM shapes
+ */
+
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import type { IPlatformAdapter } from '@engram/core';
+import { HealthMonitor, adapterHealth, describeDomShape } from '../../../src/content/shared/health-monitor';
+import { inferRoleFromLayout, queryChain, resolveChain } from '../../../src/content/shared/selector-fallback';
+import { MessageType } from '../../../src/lib/messages';
+import { CAPTURE_GRACE_MS } from '../../../src/lib/adapter-health';
+
+declare const chrome: any;
+
+function fakeAdapter(conversationId: string | null = 'conv-1'): IPlatformAdapter {
+  return {
+    getConfig: () => ({ platformId: 'claude' }),
+    extractConversationId: () => conversationId,
+  } as unknown as IPlatformAdapter;
+}
+
+/**
+ * Health reports sent to the background
+ */
+function sentReports(): any[] {
+  return chrome.runtime.sendMessage.mock.calls
+    .map(([message]: [any]) => message)
+    .filter((message: any) => message.type === MessageType.REPORT_ADAPTER_HEALTH);
+}
+
+describe('HealthMonitor', () => {
+  let monitor: HealthMonitor;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    chrome.runtime.sendMessage.mockClear();
+    document.body.innerHTML = '<main><div class="thread"><p>Secret text</p></div></main>';
+    monitor = new HealthMonitor();
+  });
+
+  afterEach(() => {
+    monitor.stop();
+    adapterHealth.stop();
+    jest.useRealTimers();
+  });
+
+  it('should count captures per conversation and selector lookups', () => {
+    monitor.start(fakeAdapter());
+    monitor.recordCapture('conv-1');
+    monitor.recordCapture('conv-1');
+    monitor.recordLookup('role', 0);
+    monitor.recordLookup('role', 1);
+    monitor.recordLookup('role', -1);
+    monitor.recordInferredRole();
+
+    const report = monitor.getReport();
+    expect(report?.platform).toBe('claude');
+    expect(report?.captures).toEqual({ 'conv-1': 2 });
+    expect(report?.selectors.role).toEqual({ hits: 1, fallbackHits: 1, misses: 1 });
+    expect(report?.inferredRoles).toBe(1);
+  });
+
+  it('should ignore records while not monitoring', () => {
+    monitor.recordCapture('conv-1');
+    monitor.recordLookup('role', 0);
+
+    expect(monitor.getReport()).toBeNull();
+  });
+
+  it('should report on start and then periodically', () => {
+    monitor.start(fakeAdapter());
+    expect(sentReports()).toHaveLength(1);
+
+    jest.advanceTimersByTime(10_000);
+    expect(sentReports()).toHaveLength(2);
+
+    monitor.stop();
+    jest.advanceTimersByTime(30_000);
+    expect(sentReports()).toHaveLength(2);
+  });
+
+  it('should send the DOM shape once when capture fails', () => {
+    monitor.start(fakeAdapter());
+    jest.advanceTimersByTime(CAPTURE_GRACE_MS);
+    jest.advanceTimersByTime(10_000);
+
+    const withShape = sentReports().filter((message) => message.domShape);
+    expect(withShape).toHaveLength(1);
+    expect(withShape[0].domShape).toBe('main\n  div.thread\n    p');
+    expect(withShape[0].domShape).not.toContain('Secret');
+  });
+
+  it('should restart the grace period on navigation to another conversation', () => {
+    let conversationId = 'conv-1';
+    const adapter = { ...fakeAdapter(), extractConversationId: () => conversationId } as IPlatformAdapter;
+    monitor.start(adapter);
+    monitor.recordCapture('conv-1');
+
+    jest.advanceTimersByTime(CAPTURE_GRACE_MS);
+    conversationId = 'conv-2';
+    const report = monitor.getReport();
+
+    expect(report?.conversationId).toBe('conv-2');
+    expect(report?.conversationSince).toBe(Date.now());
+  });
+});
+
+describe('Selector fallback', () => {
+  beforeEach(() => {
+    chrome.runtime.sendMessage.mockClear();
+    adapterHealth.start(fakeAdapter());
+  });
+
+  afterEach(() => {
+    adapterHealth.stop();
+  });
+
+  it('should try the chain in order and record which selector matched', () => {
+    document.body.innerHTML = '<div class="legacy">a</div>';
+
+    expect(queryChain(document, ['.current', '.legacy'], 'content')?.textContent).toBe('a');
+    expect(queryChain(document, ['.current'], 'content')).toBeNull();
+    expect(adapterHealth.getReport()?.selectors.content).toEqual({ hits: 0, fallbackHits: 1, misses: 1 });
+  });
+
+  it('should resolve a chain without counting an empty page as a miss', () => {
+    document.body.innerHTML = '';
+    expect(resolveChain(document, ['article', '.turn'], 'message')).toBeNull();
+
+    document.body.innerHTML = '<div class="turn"></div>';
+    expect(resolveChain(document, ['article', '.turn'], 'message')).toBe('.turn');
+    expect(adapterHealth.getReport()?.selectors.message).toEqual({ hits: 0, fallbackHits: 1, misses: 0 });
+  });
+
+  it('should infer user turns from end alignment and assistant turns from rendered output', () => {
+    document.body.innerHTML = `
+      <div id="user"><div class="flex justify-end"><div>Question</div></div></div>
+      <div id="styled"><div style="margin-left: auto">Question</div></div>
+      <div id="assistant"><div class="markdown"><p>Answer</p></div></div>
+      <div id="unknown"><span>?</span></div>`;
+    const role = (id: string) => inferRoleFromLayout(document.getElementById(id) as HTMLElement);
+
+    expect(role('user')).toBe('user');
+    expect(role('styled')).toBe('user');
+    expect(role('assistant')).toBe('assistant');
+    expect(role('unknown')).toBeNull();
+  });
+
+  it('should describe the DOM without text, and with digits masked', () => {
+    document.body.innerHTML = `
+      <main>
+        <article data-testid="conversation-turn-3" class="turn-12">Hello</article>
+        <article data-testid="conversation-turn-4" class="turn-13">Hi</article>
+        <script>var token = 1;</script>
+      </main>`;
+
+    expect(describeDomShape(document.querySelector('main') as Element)).toBe(
+      'main\n  article.turn-#[data-testid="conversation-turn-#"] ×2'
+    );
+  });
+});
@@ -0,0 +1,64 @@
+/**
+ * Injection Log Unit Tests
+ * Tests for attaching provenance to captured user turns
+ */
+
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import { INJECTION_LOG_TTL_MS, InjectionLog } from '../../../src/content/shared/injection-log';
+
+const ORIGINAL = 'How do I configure tokio workers?';
+const ENRICHED = `${ORIGINAL}\n\n[Engram Context]:\n[1 | mem-1] Use four workers`;
+
+function captured(content: string, role: 'user' | 'assistant' = 'user') {
+  return { role, content, conversationId: 'conv-1' };
+}
+
+describe('InjectionLog', () => {
+  let log: InjectionLog;
+
+  beforeEach(() => {
+    log = new InjectionLog();
+    log.record(ORIGINAL, ENRICHED, ['mem-1']);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should save a directly inserted turn as the original prompt', () => {
+    expect(log.apply(captured(ENRICHED))).toEqual({
+      ...captured(ORIGINAL),
+      metadata: { contextProvenance: { memoryIds: ['mem-1'], source: 'interceptor' } },
+    });
+  });
+
+  it('should attach provenance to a network injected turn once', () => {
+    expect(log.apply(captured(` ${ORIGINAL}\n`)).metadata?.contextProvenance?.memoryIds).toEqual(['mem-1']);
+    expect(log.apply(captured(ORIGINAL)).metadata).toBeUndefined();
+    expect(log.getRecords()).toEqual([]);
+  });
+
+  it('should leave other messages alone', () => {
+    const reply = captured(ORIGINAL, 'assistant');
+
+    expect(log.apply(reply)).toBe(reply);
+    expect(log.apply(captured('Something else'))).toEqual(captured('Something else'));
+    expect(log.getRecords()).toHaveLength(1);
+  });
+
+  it('should not record prompts sent without context', () => {
+    log.record('Plain prompt', 'Plain prompt', ['mem-2']);
+    log.record('Other prompt', 'Other prompt\n\ncontext', []);
+
+    expect(log.getRecords()).toHaveLength(1);
+  });
+
+  it('should forget old injections', () => {
+    jest.useFakeTimers();
+    log = new InjectionLog();
+    log.record(ORIGINAL, ENRICHED, ['mem-1']);
+    jest.advanceTimersByTime(INJECTION_LOG_TTL_MS + 1);
+
+    expect(log.apply(captured(ENRICHED)).content).toBe(ENRICHED);
+  });
+});
@@ -0,0 +1,131 @@
+/**
+ * Main World Network Injection Unit Tests
+ * Tests for rewriting queued injections into fetch, XHR and WebSocket requests
+ */
+
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import type { RequestRewriter } from '@engram/core';
+import { INJECTION_TTL_MS, installNetworkInjection, type NetworkInjection } from '../../../src/content/shared/main-world-injection';
+import { REQUEST_REWRITERS } from '../../../src/content/platforms/request-rewriters';
+import {
+  FIXTURE_PROMPT,
+  claudeCompletion,
+  geminiStreamGenerate,
+  perplexitySocketAsk,
+} from '../../__fixtures__/request-payloads';
+
+const ENRICHED = `${FIXTURE_PROMPT}\n\n[Engram Context]:\n[1 | mem-1] Use four workers`;
+
+/**
+ * Page window with recording fetch, XHR and WebSocket
+ */
+function createPage() {
+  const sent: Array<{ transport: string; body: unknown }> = [];
+  const page = new EventTarget() as any;
+
+  page.fetch = jest.fn(async (_input: unknown, init?: RequestInit) => {
+    sent.push({ transport: 'fetch', body: init?.body });
+    return {} as Response;
+  });
+  page.XMLHttpRequest = class {
+    open(): void {}
+    send(body: unknown): void {
+      sent.push({ transport: 'xhr', body });
+    }
+  };
+  page.WebSocket = class {
+    constructor(public url: string) {}
+    send(data: unknown): void {
+      sent.push({ transport: 'websocket', body: data });
+    }
+  };
+
+  const queue = (originalPrompt = FIXTURE_PROMPT, enrichedPrompt = ENRICHED) =>
+    page.dispatchEvent(new MessageEvent('message', {
+      source: page,
+      data: { type: 'ENGRAM_QUEUE_INJECTION', originalPrompt, enrichedPrompt },
+    }));
+
+  return { page, sent, queue };
+}
+
+describe('installNetworkInjection()', () => {
+  let page: any;
+  let sent: Array<{ transport: string; body: unknown }>;
+  let queue: (originalPrompt?: string, enrichedPrompt?: string) => void;
+  let injection: NetworkInjection;
+
+  beforeEach(() => {
+    ({ page, sent, queue } = createPage());
+    injection = installNetworkInjection(page, Object.values(REQUEST_REWRITERS) as RequestRewriter[]);
+  });
+
+  afterEach(() => {
+    injection.uninstall();
+    jest.useRealTimers();
+  });
+
+  it('should rewrite the queued prompt in a fetch request once', async () => {
+    queue();
+
+    await page.fetch(claudeCompletion.url, { method: 'POST', body: claudeCompletion.body });
+    await page.fetch(claudeCompletion.url, { method: 'POST', body: claudeCompletion.body });
+
+    expect(claudeCompletion.readPrompt(sent[0].body as string)).toBe(ENRICHED);
+    expect(claudeCompletion.readPrompt(sent[1].body as string)).toBe(FIXTURE_PROMPT);
+    expect(injection.getQueued()).toBeNull();
+  });
+
+  it('should rewrite XHR bodies', () => {
+    queue();
+
+    const xhr = new page.XMLHttpRequest();
+    xhr.open('POST', geminiStreamGenerate.url);
+    xhr.send(geminiStreamGenerate.body);
+
+    expect(geminiStreamGenerate.readPrompt(sent[0].body as string)).toBe(ENRICHED);
+  });
+
+  it('should rewrite WebSocket frames', () => {
+    queue();
+
+    const socket = new page.WebSocket(perplexitySocketAsk.url);
+    socket.send('2');
+    socket.send(perplexitySocketAsk.body);
+
+    expect(sent[0].body).toBe('2');
+    expect(perplexitySocketAsk.readPrompt(sent[1].body as string)).toBe(ENRICHED);
+  });
+
+  it('should keep the injection queued for requests without the prompt', async () => {
+    queue('A different prompt');
+
+    await page.fetch(claudeCompletion.url, { method: 'POST', body: claudeCompletion.body });
+    await page.fetch('https://claude.ai/api/organizations/org-1/projects', { method: 'GET' });
+
+    expect(sent[0].body).toBe(claudeCompletion.body);
+    expect(injection.getQueued()).not.toBeNull();
+  });
+
+  it('should drop expired injections', async () => {
+    jest.useFakeTimers();
+    queue();
+    jest.advanceTimersByTime(INJECTION_TTL_MS + 1);
+
+    await page.fetch(claudeCompletion.url, { method: 'POST', body: claudeCompletion.body });
+
+    expect(sent[0].body).toBe(claudeCompletion.body);
+    expect(injection.getQueued()).toBeNull();
+  });
+
+  it('should ignore messages from other windows and honor clears', () => {
+    page.dispatchEvent(new MessageEvent('message', {
+      data: { type: 'ENGRAM_QUEUE_INJECTION', originalPrompt: FIXTURE_PROMPT, enrichedPrompt: ENRICHED },
+    }));
+    expect(injection.getQueued()).toBeNull();
+
+    queue();
+    page.dispatchEvent(new MessageEvent('message', { source: page, data: { type: 'ENGRAM_CLEAR_INJECTION' } }));
+    expect(injection.getQueued()).toBeNull();
+  });
+});
@@ -0,0 +1,92 @@
+/**
+ * Message Saver Unit Tests
+ * Tests for saving revisions as updates or as versions of the earlier memory
+ */
+
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import type { ExtractedMessage } from '@engram/core';
+
+jest.mock('../../../src/lib/messages', () => ({
+  MessageType: { SAVE_MESSAGE_RESPONSE: 'SAVE_MESSAGE_RESPONSE' },
+  sendSaveMessage: jest.fn(),
+  sendSelectMemoryVersion: jest.fn(),
+}));
+
+import { sendSaveMessage, sendSelectMemoryVersion } from '../../../src/lib/messages';
+import { MessageSaver } from '../../../src/content/shared/message-saver';
+
+const mockSendSaveMessage = sendSaveMessage as jest.MockedFunction<typeof sendSaveMessage>;
+const mockSendSelectMemoryVersion = sendSelectMemoryVersion as jest.MockedFunction<typeof sendSelectMemoryVersion>;
+
+function captured(content: string, metadata: ExtractedMessage['metadata'] = {}): ExtractedMessage {
+  return { role: 'assistant', content, conversationId: 'conv-1', metadata: { messageKey: 'a', ...metadata } };
+}
+
+describe('MessageSaver', () => {
+  let saver: MessageSaver;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    saver = new MessageSaver();
+    let count = 0;
+    mockSendSaveMessage.mockImplementation(async () => ({
+      type: 'SAVE_MESSAGE_RESPONSE' as any,
+      success: true,
+      memoryId: `mem-${++count}`,
+    }));
+    mockSendSelectMemoryVersion.mockResolvedValue({ type: 'SELECT_MEMORY_VERSION_RESPONSE' as any, success: true });
+  });
+
+  it('should save a continued stream over the memory of the earlier version', async () => {
+    await saver.save(captured('First answer'));
+    await saver.save(captured('First answer, continued', { revision: 'continuation' }));
+
+    expect(mockSendSaveMessage).toHaveBeenNthCalledWith(1, expect.objectContaining({ content: 'First answer' }), undefined);
+    expect(mockSendSaveMessage).toHaveBeenNthCalledWith(
+      2,
+      expect.objectContaining({ content: 'First answer, continued' }),
+      { replaces: 'mem-1' }
+    );
+  });
+
+  it('should save a regeneration as a version of the earlier memory', async () => {
+    await saver.save(captured('First answer'));
+    await saver.save(captured('Regenerated answer', { revision: 'regeneration' }));
+    await saver.save(captured('Regenerated again', { revision: 'regeneration' }));
+
+    expect(mockSendSaveMessage).toHaveBeenNthCalledWith(2, expect.objectContaining({ content: 'Regenerated answer' }), {
+      branchOf: 'mem-1',
+    });
+    expect(mockSendSaveMessage).toHaveBeenNthCalledWith(3, expect.anything(), { branchOf: 'mem-2' });
+  });
+
+  it('should select a version that was already saved instead of saving it again', async () => {
+    await saver.save(captured('First answer'));
+    await saver.save(captured('Regenerated answer', { revision: 'regeneration' }));
+
+    const response = await saver.save(captured('First answer', { revision: 'regeneration' }));
+
+    expect(mockSendSaveMessage).toHaveBeenCalledTimes(2);
+    expect(mockSendSelectMemoryVersion).toHaveBeenCalledWith('mem-1');
+    expect(response).toMatchObject({ success: true, memoryId: 'mem-1' });
+
+    // Later versions branch from the selected one
+    await saver.save(captured('Third answer', { revision: 'regeneration' }));
+    expect(mockSendSaveMessage).toHaveBeenLastCalledWith(expect.anything(), { branchOf: 'mem-1' });
+  });
+
+  it('should save messages with the same key in other conversations separately', async () => {
+    await saver.save(captured('First answer'));
+    await saver.save({ ...captured('Other chat', { revision: 'regeneration' }), conversationId: 'conv-2' });
+
+    expect(mockSendSaveMessage).toHaveBeenLastCalledWith(expect.anything(), undefined);
+  });
+
+  it('should forget keys on reset', async () => {
+    await saver.save(captured('First answer'));
+    saver.reset();
+    await saver.save(captured('Regenerated answer', { revision: 'regeneration' }));
+
+    expect(mockSendSaveMessage).toHaveBeenLastCalledWith(expect.anything(), undefined);
+  });
+});
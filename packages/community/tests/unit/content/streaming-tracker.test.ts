@@ -0,0 +1,209 @@
+/**
+ * Streaming Tracker Unit Tests
+ * Tests for emitting each captured message once, and revisions as updates
+ */
+
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import type { ExtractedMessage, PlatformFeatures } from '@engram/core';
+import { STREAMING_CONFIG, StreamingTracker, messageSignature } from '../../../src/content/shared/streaming-tracker';
+
+const FEATURES: PlatformFeatures = {
+  supportsStreaming: true,
+  supportsCodeBlocks: true,
+  supportsAttachments: false,
+  supportsRegeneration: true,
+};
+
+/**
+ * Message element with its role and key in data attributes
+ */
+function messageElement(text: string, role = 'assistant', key = '1'): HTMLElement {
+  const element = document.createElement('div');
+  element.dataset.role = role;
+  element.dataset.key = key;
+  element.textContent = text;
+  return element;
+}
+
+function extract(element: HTMLElement): ExtractedMessage | null {
+  return {
+    role: element.dataset.role as 'user' | 'assistant',
+    content: element.textContent || '',
+    conversationId: 'conv-1',
+  };
+}
+
+describe('StreamingTracker', () => {
+  let emitted: ExtractedMessage[];
+  let tracker: StreamingTracker;
+
+  const createTracker = (options: Partial<ConstructorParameters<typeof StreamingTracker>[0]> = {}) =>
+    new StreamingTracker({
+      tag: '[Test]',
+      features: FEATURES,
+      extract,
+      getKey: (element) => element.dataset.key!,
+      onMessage: (message) => emitted.push(message),
+      ...options,
+    });
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    emitted = [];
+    tracker = createTracker();
+  });
+
+  afterEach(() => {
+    tracker.reset();
+    jest.useRealTimers();
+  });
+
+  it('should emit a streamed message once, when its text settles', () => {
+    const element = messageElement('Use');
+    tracker.observe(element);
+
+    for (const text of ['Use tokio', 'Use tokio::spawn', 'Use tokio::spawn for tasks']) {
+      jest.advanceTimersByTime(STREAMING_CONFIG.STABLE_MS - 1);
+      element.textContent = text;
+      tracker.observe(element);
+    }
+    expect(emitted).toEqual([]);
+
+    jest.advanceTimersByTime(STREAMING_CONFIG.STABLE_MS);
+    tracker.observe(element);
+
+    expect(emitted).toHaveLength(1);
+    expect(emitted[0].content).toBe('Use tokio::spawn for tasks');
+    expect(emitted[0].metadata).toEqual({ isStreaming: false, messageKey: '1' });
+    expect(tracker.getPendingCount()).toBe(0);
+  });
+
+  it('should emit existing messages immediately', () => {
+    tracker.observe(messageElement('Loaded with the page'), true);
+    tracker.observe(messageElement('Loaded with the page'), true);
+
+    expect(emitted.map((m) => m.content)).toEqual(['Loaded with the page']);
+  });
+
+  it('should trust the platform streaming indicator', () => {
+    let streaming = true;
+    tracker = createTracker({ isStreaming: (element) => element.dataset.role === 'assistant' && streaming });
+
+    tracker.observe(messageElement('Done right away', 'user', 'u'));
+    expect(emitted).toHaveLength(1);
+
+    const answer = messageElement('Partial');
+    tracker.observe(answer);
+    jest.advanceTimersByTime(STREAMING_CONFIG.STABLE_MS * 3);
+    expect(emitted).toHaveLength(1);
+
+    answer.textContent = 'Partial answer, now complete';
+    streaming = false;
+    jest.advanceTimersByTime(STREAMING_CONFIG.STABLE_MS);
+
+    expect(emitted.map((m) => m.content)).toEqual(['Done right away', 'Partial answer, now complete']);
+  });
+
+  it('should stop waiting for an indicator that never clears', () => {
+    tracker = createTracker({ isStreaming: () => true });
+
+    tracker.observe(messageElement('Stuck'));
+    jest.advanceTimersByTime(STREAMING_CONFIG.MAX_WAIT_MS + STREAMING_CONFIG.STABLE_MS);
+
+    expect(emitted.map((m) => m.content)).toEqual(['Stuck']);
+  });
+
+  it('should not emit a message re-rendered under the same key', () => {
+    tracker.observe(messageElement('Same answer', 'assistant', '1'), true);
+    tracker.observe(messageElement('Same answer', 'assistant', '1'), true);
+
+    expect(emitted).toHaveLength(1);
+  });
+
+  it('should emit separate turns with the same text', () => {
+    tracker.observe(messageElement('yes', 'user', '1'), true);
+    tracker.observe(messageElement('Done', 'assistant', '2'), true);
+    tracker.observe(messageElement('yes', 'user', '3'), true);
+
+    expect(emitted.map((m) => [m.content, m.metadata?.messageKey])).toEqual([
+      ['yes', '1'],
+      ['Done', '2'],
+      ['yes', '3'],
+    ]);
+  });
+
+  it('should emit a regenerated answer as a revision of the same key', () => {
+    const element = messageElement('First answer');
+    tracker.observe(element, true);
+
+    element.textContent = 'A different answer';
+    tracker.observe(element);
+    jest.advanceTimersByTime(STREAMING_CONFIG.STABLE_MS);
+
+    expect(emitted).toHaveLength(2);
+    expect(emitted[1].content).toBe('A different answer');
+    expect(emitted[1].metadata).toMatchObject({ messageKey: '1', revision: 'regeneration' });
+  });
+
+  it('should classify edits and continued streams', () => {
+    const prompt = messageElement('How do I spawn?', 'user', 'u');
+    const answer = messageElement('Use tokio', 'assistant', 'a');
+    tracker.observe(prompt, true);
+    tracker.observe(answer, true);
+
+    prompt.textContent = 'How do I spawn tasks?';
+    answer.textContent = 'Use tokio::spawn';
+    tracker.observe(prompt);
+    tracker.observe(answer);
+    jest.advanceTimersByTime(STREAMING_CONFIG.STABLE_MS);
+
+    expect(emitted.slice(2).map((m) => [m.metadata?.messageKey, m.metadata?.revision])).toEqual([
+      ['u', 'edit'],
+      ['a', 'continuation'],
+    ]);
+  });
+
+  it('should revise a message through the element that re-rendered it', () => {
+    tracker.observe(messageElement('Same answer', 'assistant', '1'), true);
+    const rerendered = messageElement('Same answer', 'assistant', '1');
+    tracker.observe(rerendered, true);
+
+    rerendered.textContent = 'Regenerated answer';
+    tracker.observe(rerendered);
+    jest.advanceTimersByTime(STREAMING_CONFIG.STABLE_MS);
+
+    expect(emitted).toHaveLength(2);
+    expect(emitted[1].metadata).toMatchObject({ messageKey: '1', revision: 'regeneration' });
+  });
+
+  it('should treat every change as a continuation without regeneration support', () => {
+    tracker = createTracker({ features: { ...FEATURES, supportsRegeneration: false } });
+    const element = messageElement('Answer');
+    tracker.observe(element, true);
+
+    element.textContent = 'Rewritten';
+    tracker.observe(element);
+    jest.advanceTimersByTime(STREAMING_CONFIG.STABLE_MS);
+
+    expect(emitted[1].metadata?.revision).toBe('continuation');
+  });
+
+  it('should drop pending messages on reset', () => {
+    tracker.observe(messageElement('Pending'));
+    tracker.reset();
+    jest.advanceTimersByTime(STREAMING_CONFIG.STABLE_MS);
+
+    expect(emitted).toEqual([]);
+  });
+});
+
+describe('messageSignature()', () => {
+  it('should include code blocks', () => {
+    const message: ExtractedMessage = { role: 'assistant', content: 'Example:', conversationId: 'conv-1' };
+
+    expect(messageSignature(message)).toBe('Example:');
+    expect(messageSignature({ ...message, metadata: { codeBlocks: [{ language: 'rust', code: 'fn main() {}' }] } })).toBe(
+      'Example:||CODE:rust:fn main() {}'
+    );
+  });
+});
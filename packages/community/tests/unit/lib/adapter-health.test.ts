@@ -0,0 +1,97 @@
+/**
+ * Adapter Health Unit Tests
+ * Tests for deciding whether capture works on a page
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  CAPTURE_GRACE_MS,
+  countCaptures,
+  evaluateAdapterHealth,
+  validateAdapterHealthReport,
+  type AdapterHealthReport,
+} from '../../../src/lib/adapter-health';
+
+const NOW = 1_700_000_000_000;
+
+function report(overrides: Partial<AdapterHealthReport> = {}): AdapterHealthReport {
+  return {
+    platform: 'claude',
+    startedAt: NOW - 60_000,
+    conversationId: 'conv-1',
+    conversationSince: NOW - 60_000,
+    captures: { 'conv-1': 4 },
+    lastCaptureAt: NOW - 5_000,
+    selectors: { message: { hits: 3, fallbackHits: 0, misses: 0 } },
+    inferredRoles: 0,
+    ...overrides,
+  };
+}
+
+describe('Adapter health', () => {
+  it('should be healthy when the primary selectors capture messages', () => {
+    expect(evaluateAdapterHealth(report(), NOW)).toEqual({ status: 'healthy', reasons: [] });
+  });
+
+  it('should fail when an open conversation yields nothing past the grace period', () => {
+    const health = evaluateAdapterHealth(
+      report({
+        captures: { 'conv-0': 2 },
+        selectors: { role: { hits: 0, fallbackHits: 0, misses: 5 } },
+      }),
+      NOW
+    );
+
+    expect(health.status).toBe('failing');
+    expect(health.reasons).toEqual(['No messages captured in this conversation', 'role selectors matched nothing']);
+  });
+
+  it('should not fail within the grace period or outside a conversation', () => {
+    const fresh = report({ captures: {}, conversationSince: NOW - CAPTURE_GRACE_MS + 1_000 });
+    const newChat = report({ captures: {}, conversationId: null });
+
+    expect(evaluateAdapterHealth(fresh, NOW).status).toBe('healthy');
+    expect(evaluateAdapterHealth(newChat, NOW).status).toBe('healthy');
+  });
+
+  it('should be degraded when capture relies on fallbacks or the layout heuristic', () => {
+    const health = evaluateAdapterHealth(
+      report({ selectors: { content: { hits: 1, fallbackHits: 2, misses: 0 } }, inferredRoles: 3 }),
+      NOW
+    );
+
+    expect(health).toEqual({
+      status: 'degraded',
+      reasons: ['content matched only by fallback selectors (2×)', 'Role inferred from the layout (3×)'],
+    });
+  });
+
+  it('should count captures across conversations', () => {
+    expect(countCaptures(report({ captures: { a: 2, b: 3 } }))).toBe(5);
+  });
+
+  it('should accept a well-formed report', () => {
+    expect(validateAdapterHealthReport(report())).toEqual([]);
+    expect(validateAdapterHealthReport(report({ conversationId: null, lastCaptureAt: null }))).toEqual([]);
+  });
+
+  it('should reject malformed reports', () => {
+    expect(validateAdapterHealthReport(null)).toEqual(['Report must be an object']);
+    expect(
+      validateAdapterHealthReport({
+        ...report(),
+        platform: 'myspace',
+        captures: { 'conv-1': 'four' },
+        selectors: { message: { hits: 3 } },
+      })
+    ).toEqual([
+      expect.stringContaining('platform must be one of'),
+      'captures must map conversation IDs to message counts',
+      'selectors must map selector names to hit, fallback and miss counts',
+    ]);
+    expect(validateAdapterHealthReport({ ...report(), inferredRoles: -1, startedAt: 'now' })).toEqual([
+      'startedAt and conversationSince must be timestamps',
+      'inferredRoles must be a count',
+    ]);
+  });
+});
@@ -0,0 +1,109 @@
+/**
+ * Adapter Specs Unit Tests
+ * Tests for match patterns, validation and storage of custom specs
+ */
+
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import type { AdapterSpec } from '@engram/core';
+import {
+  ADAPTER_SPECS_KEY,
+  BUILTIN_ADAPTER_SPECS,
+  deleteCustomAdapterSpec,
+  findAdapterSpec,
+  getAdapterSpecs,
+  matchPatternToRegExp,
+  parseAdapterSpec,
+  saveCustomAdapterSpec,
+  validateAdapterSpec,
+} from '../../../src/lib/adapter-specs';
+
+declare const chrome: any;
+
+const customSpec: AdapterSpec = {
+  id: 'my-chat',
+  name: 'My Chat',
+  platform: 'generic',
+  matches: ['https://*.example.com/*'],
+  selectors: { container: 'main', message: '.message' },
+  roles: [{ role: 'user', selector: '.user' }],
+};
+
+describe('Adapter specs', () => {
+  let stored: Record<string, any>;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    stored = {};
+    chrome.storage.local.get.mockImplementation(async (key: string) => ({ [key]: stored[key] }));
+    chrome.storage.local.set.mockImplementation(async (items: Record<string, any>) => {
+      Object.assign(stored, items);
+    });
+  });
+
+  it('should convert match patterns', () => {
+    const pattern = matchPatternToRegExp('https://*.example.com/*');
+
+    expect(pattern?.test('https://chat.example.com/c/1')).toBe(true);
+    expect(pattern?.test('https://example.com/')).toBe(true);
+    expect(pattern?.test('https://example.com.evil.io/')).toBe(false);
+    expect(pattern?.test('http://chat.example.com/')).toBe(false);
+    expect(matchPatternToRegExp('chat.example.com')).toBeNull();
+  });
+
+  it('should find the spec for a URL', () => {
+    expect(findAdapterSpec('https://chat.mistral.ai/chat/1', BUILTIN_ADAPTER_SPECS)?.id).toBe('mistral');
+    expect(findAdapterSpec('https://example.org/', BUILTIN_ADAPTER_SPECS)).toBeNull();
+  });
+
+  it('should accept the built-in specs', () => {
+    for (const spec of BUILTIN_ADAPTER_SPECS) {
+      expect(validateAdapterSpec(spec)).toEqual([]);
+    }
+  });
+
+  it('should report every problem of an invalid spec', () => {
+    const errors = validateAdapterSpec({
+      ...customSpec,
+      id: 'My Chat',
+      matches: ['example.com'],
+      conversationIdPattern: '(',
+      selectors: { container: 'main', message: '[[' },
+      roles: [],
+    });
+
+    expect(errors).toHaveLength(5);
+    expect(errors).toContain('Invalid match pattern: example.com');
+    expect(errors).toContain('selectors.message: Invalid selector: [[');
+  });
+
+  it('should reject JSON that is not a valid spec', () => {
+    expect(() => parseAdapterSpec('{')).toThrow('Spec is not valid JSON');
+    expect(() => parseAdapterSpec('{"id":"x"}')).toThrow('name is required');
+    expect(parseAdapterSpec(JSON.stringify(customSpec))).toEqual(customSpec);
+  });
+
+  it('should save, override and delete custom specs', async () => {
+    await saveCustomAdapterSpec(customSpec);
+    await saveCustomAdapterSpec({ ...customSpec, name: 'Renamed' });
+    await saveCustomAdapterSpec({ ...BUILTIN_ADAPTER_SPECS[0], name: 'My DeepSeek' });
+
+    const specs = await getAdapterSpecs();
+    expect(stored[ADAPTER_SPECS_KEY]).toHaveLength(2);
+    expect(specs.filter((spec) => spec.id === 'deepseek').map((spec) => spec.name)).toEqual(['My DeepSeek']);
+    expect(specs.find((spec) => spec.id === 'my-chat')?.name).toBe('Renamed');
+
+    await deleteCustomAdapterSpec('my-chat');
+    expect(stored[ADAPTER_SPECS_KEY].map((spec: AdapterSpec) => spec.id)).toEqual(['deepseek']);
+  });
+
+  it('should refuse to save an invalid spec', async () => {
+    await expect(saveCustomAdapterSpec({ ...customSpec, roles: [] })).rejects.toThrow('roles must have at least one rule');
+    expect(chrome.storage.local.set).not.toHaveBeenCalled();
+  });
+
+  it('should skip invalid stored specs', async () => {
+    stored[ADAPTER_SPECS_KEY] = [{ ...customSpec, selectors: {} }];
+
+    expect(await getAdapterSpecs()).toEqual(BUILTIN_ADAPTER_SPECS);
+  });
+});
@@ -0,0 +1,318 @@
+/**
+ * Backup Service Unit Tests
+ * Tests for encrypted full-backup export and restore
+ */
+
+import { describe, it, expect, beforeAll, beforeEach, jest } from '@jest/globals';
+import { BackupService, BACKUP_FORMAT } from '../../../src/lib/backup-service';
+import { CryptoService } from '../../../src/lib/crypto-service';
+import type { Conversation, MemoryWithMemA } from '@engram/core';
+
+/**
+ * Minimal in-memory stand-in for StorageService
+ */
+function createMockStorage() {
+  const memories = new Map<string, any>();
+  const conversations = new Map<string, Conversation>();
+
+  return {
+    memories,
+    conversations,
+    getMemories: jest.fn(async () => Array.from(memories.values())),
+    getMemory: jest.fn(async (id: string) => memories.get(id) || null),
+    getConversations: jest.fn(async () => Array.from(conversations.values())),
+    getConversation: jest.fn(async (id: string) => conversations.get(id) || null),
+    saveConversation: jest.fn(async (conversation: Conversation) => {
+      conversations.set(conversation.id, conversation);
+    }),
+    getHNSWIndexEntries: jest.fn(async () => [
+      { key: 'metadata', data: { vectorIdMap: [['mem-1', 0]], indexToIdMap: [[0, 'mem-1']] }, lastUpdated: 1, vectorCount: 1 },
+    ]),
+    bulkSaveMemories: jest.fn(async (items: any[]) => {
+      items.forEach((item) => memories.set(item.id, item));
+    }),
+    rebuildHNSWIndex: jest.fn<any>().mockResolvedValue(undefined),
+  };
+}
+
+describe('BackupService', () => {
+  let crypto: CryptoService;
+  let masterKey: { key: Uint8Array };
+
+  async function storeMemory(storage: ReturnType<typeof createMockStorage>, id: string, text: string, extra: Partial<MemoryWithMemA> = {}) {
+    const encryptedContent = await crypto.encrypt(
+      JSON.stringify({ role: 'assistant', text, metadata: { codeBlocks: [] } }),
+      masterKey.key
+    );
+    const embedding = new Float32Array(384).fill(0.5);
+    const encryptedEmbedding = await crypto.encrypt(new Uint8Array(embedding.buffer), masterKey.key);
+
+    storage.memories.set(id, {
+      id,
+      conversationId: 'conv-1',
+      platform: 'claude',
+      content: { role: 'assistant', text: null, metadata: null },
+      encryptedContent,
+      encryptedEmbedding,
+      embeddingVersion: 2,
+      timestamp: 1700000000000,
+      vectorClock: { 'device-1': 1 },
+      deviceId: 'device-1',
+      syncStatus: 'synced',
+      tags: ['rust'],
+      keywords: ['ownership'],
+      ...extra,
+    });
+  }
+
+  beforeAll(async () => {
+    crypto = new CryptoService();
+    await crypto.initialize();
+    masterKey = { key: crypto.generateEncryptionKey() };
+  });
+
+  describe('exportBackup()', () => {
+    it('should write an encrypted file that does not contain plaintext', async () => {
+      const storage = createMockStorage();
+      await storeMemory(storage, 'mem-1', 'The borrow checker enforces ownership');
+      const service = new BackupService(storage as any, crypto);
+
+      const result = await service.exportBackup('backup-pass', masterKey);
+      const file = JSON.parse(result.file);
+
+      expect(file.format).toBe(BACKUP_FORMAT);
+      expect(file.kdf.algorithm).toBe('Argon2id');
+      expect(result.memories).toBe(1);
+      expect(result.file).not.toContain('borrow checker');
+    });
+
+    it('should reject an empty passphrase', async () => {
+      const service = new BackupService(createMockStorage() as any, crypto);
+      await expect(service.exportBackup('', masterKey)).rejects.toThrow('passphrase is required');
+    });
+
+    it('should skip memories that cannot be decrypted', async () => {
+      const storage = createMockStorage();
+      await storeMemory(storage, 'mem-1', 'Readable');
+      const otherKey = { key: crypto.generateEncryptionKey() };
+      const service = new BackupService(storage as any, crypto);
+
+      const result = await service.exportBackup('backup-pass', otherKey);
+
+      expect(result.memories).toBe(0);
+      expect(result.skipped).toBe(1);
+    });
+  });
+
+  describe('readBackup()', () => {
+    it('should decrypt content, embeddings and memA fields', async () => {
+      const storage = createMockStorage();
+      await storeMemory(storage, 'mem-1', 'Lifetimes', {
+        links: [{ memoryId: 'mem-2', score: 0.9, createdAt: 1 }],
+      });
+      const service = new BackupService(storage as any, crypto);
+      const { file } = await service.exportBackup('backup-pass', masterKey);
+
+      const archive = await service.readBackup(file, 'backup-pass');
+      const record = archive.data.memories[0];
+
+      expect(record.content.text).toBe('Lifetimes');
+      expect(record.embedding).toHaveLength(384);
+      expect(record.keywords).toEqual(['ownership']);
+      expect(record.links?.[0].memoryId).toBe('mem-2');
+      expect(archive.data.hnswIndex).toHaveLength(1);
+    });
+
+    it('should fail with a wrong passphrase', async () => {
+      const storage = createMockStorage();
+      await storeMemory(storage, 'mem-1', 'Secret');
+      const service = new BackupService(storage as any, crypto);
+      const { file } = await service.exportBackup('backup-pass', masterKey);
+
+      await expect(service.readBackup(file, 'wrong-pass')).rejects.toThrow('wrong passphrase or corrupted file');
+    });
+
+    it('should detect tampered ciphertext', async () => {
+      const storage = createMockStorage();
+      await storeMemory(storage, 'mem-1', 'Secret');
+      const service = new BackupService(storage as any, crypto);
+      const { file } = await service.exportBackup('backup-pass', masterKey);
+
+      const parsed = JSON.parse(file);
+      const bytes = atob(parsed.cipher.ciphertext).split('');
+      bytes[10] = String.fromCharCode(bytes[10].charCodeAt(0) ^ 0xff);
+      parsed.cipher.ciphertext = btoa(bytes.join(''));
+
+      await expect(service.readBackup(JSON.stringify(parsed), 'backup-pass')).rejects.toThrow('Failed to decrypt backup');
+    });
+
+    it('should reject a well-encrypted archive without a memories array', async () => {
+      const service = new BackupService(createMockStorage() as any, crypto);
+      const { file } = await service.exportBackup('backup-pass', masterKey);
+
+      // Re-encrypt a payload of the wrong shape under the same passphrase, with a matching checksum
+      const data = { conversations: [], hnswIndex: [] };
+      const archive = {
+        manifest: {
+          version: 1,
+          format: 'json',
+          createdAt: 1,
+          counts: { memories: 0, conversations: 0, hnswIndex: 0 },
+          checksum: await crypto.hash(new TextEncoder().encode(JSON.stringify(data))),
+        },
+        data,
+      };
+      const parsed = JSON.parse(file);
+      const derived = await crypto.deriveKey('backup-pass', Uint8Array.from(atob(parsed.kdf.salt), (c) => c.charCodeAt(0)));
+      const blob = await crypto.encrypt(JSON.stringify(archive), derived.key);
+      parsed.cipher.nonce = btoa(String.fromCharCode(...blob.nonce));
+      parsed.cipher.ciphertext = btoa(String.fromCharCode(...blob.ciphertext));
+
+      await expect(service.readBackup(JSON.stringify(parsed), 'backup-pass')).rejects.toThrow('archive is invalid or corrupted');
+    });
+
+    it('should reject files in an unknown format', async () => {
+      const service = new BackupService(createMockStorage() as any, crypto);
+      await expect(service.readBackup('{"format":"other"}', 'pass')).rejects.toThrow('unrecognized format');
+      await expect(service.readBackup('not json', 'pass')).rejects.toThrow('not valid JSON');
+    });
+  });
+
+  describe('importBackup()', () => {
+    let source: ReturnType<typeof createMockStorage>;
+    let file: string;
+
+    beforeEach(async () => {
+      source = createMockStorage();
+      await storeMemory(source, 'mem-1', 'First answer');
+      await storeMemory(source, 'mem-2', 'Second answer', {
+        links: [{ memoryId: 'mem-1', score: 0.85, createdAt: 1 }],
+      });
+      source.conversations.set('conv-1', {
+        id: 'conv-1',
+        platform: 'claude',
+        title: 'Rust questions',
+        createdAt: 1,
+        lastMessageAt: 2,
+        messageCount: 2,
+        tags: [],
+      });
+      ({ file } = await new BackupService(source as any, crypto).exportBackup('backup-pass', masterKey));
+    });
+
+    it('should restore into an empty database re-encrypted with the current key', async () => {
+      const target = createMockStorage();
+      const newKey = { key: crypto.generateEncryptionKey() };
+      const service = new BackupService(target as any, crypto);
+
+      const result = await service.importBackup(file, 'backup-pass', newKey);
+
+      expect(result.restored).toBe(2);
+      expect(result.conversations).toBe(1);
+      expect(result.indexRebuilt).toBe(true);
+      expect(target.rebuildHNSWIndex).toHaveBeenCalled();
+
+      const restored = target.memories.get('mem-1');
+      expect(restored.content.text).toBeNull();
+      expect(restored.embeddingVersion).toBe(2);
+      const decrypted = JSON.parse(new TextDecoder().decode(await crypto.decrypt(restored.encryptedContent, newKey.key)));
+      expect(decrypted.text).toBe('First answer');
+      expect(target.conversations.get('conv-1')?.title).toBe('Rust questions');
+    });
+
+    it('should re-encrypt chunk embeddings of long memories', async () => {
+      const chunks = new Float32Array(384 * 2);
+      chunks.fill(0.25, 0, 384);
+      chunks.fill(0.75, 384);
+      const storage = createMockStorage();
+      await storeMemory(storage, 'mem-long', 'Long answer', {
+        encryptedChunkEmbeddings: await crypto.encrypt(new Uint8Array(chunks.buffer), masterKey.key),
+      });
+      const { file: chunkedFile } = await new BackupService(storage as any, crypto).exportBackup('backup-pass', masterKey);
+
+      const target = createMockStorage();
+      const newKey = { key: crypto.generateEncryptionKey() };
+      await new BackupService(target as any, crypto).importBackup(chunkedFile, 'backup-pass', newKey);
+
+      const restored = target.memories.get('mem-long');
+      const bytes = await crypto.decrypt(restored.encryptedChunkEmbeddings, newKey.key);
+      const vectors = new Float32Array(bytes.buffer, bytes.byteOffset, bytes.byteLength / 4);
+      expect(vectors).toHaveLength(768);
+      expect(vectors[0]).toBe(0.25);
+      expect(vectors[384]).toBe(0.75);
+    });
+
+    it('should keep local memories on collision with the skip strategy', async () => {
+      const service = new BackupService(source as any, crypto);
+
+      const result = await service.importBackup(file, 'backup-pass', masterKey);
+
+      expect(result.skipped).toBe(2);
+      expect(result.restored).toBe(0);
+      expect(source.rebuildHNSWIndex).not.toHaveBeenCalled();
+    });
+
+    it('should replace local memories with the overwrite strategy', async () => {
+      const service = new BackupService(source as any, crypto);
+
+      const result = await service.importBackup(file, 'backup-pass', masterKey, { conflictStrategy: 'overwrite' });
+
+      expect(result.overwritten).toBe(2);
+      expect(result.restored).toBe(2);
+      expect(source.memories.size).toBe(2);
+    });
+
+    it('should restore colliding memories under new IDs and remap links', async () => {
+      const service = new BackupService(source as any, crypto);
+
+      const result = await service.importBackup(file, 'backup-pass', masterKey, { conflictStrategy: 'duplicate' });
+
+      expect(result.duplicated).toBe(2);
+      expect(source.memories.size).toBe(4);
+
+      const copies = Array.from(source.memories.values()).filter((m) => m.id !== 'mem-1' && m.id !== 'mem-2');
+      const linkedCopy = copies.find((m) => m.links && m.links.length > 0);
+      const copyIds = copies.map((m) => m.id);
+      expect(copyIds).toContain(linkedCopy.links[0].memoryId);
+    });
+
+    it('should keep the versions of a message together', async () => {
+      await storeMemory(source, 'mem-1-v1', 'Regenerated first answer', { parentId: 'mem-1', branchIndex: 1 });
+      ({ file } = await new BackupService(source as any, crypto).exportBackup('backup-pass', masterKey));
+
+      const target = createMockStorage();
+      await new BackupService(target as any, crypto).importBackup(file, 'backup-pass', masterKey);
+      expect(target.memories.get('mem-1-v1')).toMatchObject({ parentId: 'mem-1', branchIndex: 1 });
+
+      const result = await new BackupService(source as any, crypto).importBackup(file, 'backup-pass', masterKey, {
+        conflictStrategy: 'duplicate',
+      });
+
+      expect(result.duplicated).toBe(3);
+      const copies = Array.from(source.memories.values()).filter((m) => !['mem-1', 'mem-2', 'mem-1-v1'].includes(m.id));
+      const versionCopy = copies.find((m) => m.branchIndex === 1);
+      const parentCopy = copies.find((m) => m.parentId === undefined && !(m.links && m.links.length > 0));
+      expect(versionCopy.parentId).toBe(parentCopy.id);
+    });
+
+        it('should report progress while restoring', async () => {
+      const service = new BackupService(createMockStorage() as any, crypto);
+      const onProgress = jest.fn();
+
+      await service.importBackup(file, 'backup-pass', masterKey, { onProgress });
+
+      expect(onProgress).toHaveBeenLastCalledWith(2, 2);
+    });
+
+    it('should not fail when the index rebuild fails', async () => {
+      const target = createMockStorage();
+      target.rebuildHNSWIndex.mockRejectedValue(new Error('HNSW index service not initialized'));
+      const service = new BackupService(target as any, crypto);
+
+      const result = await service.importBackup(file, 'backup-pass', masterKey);
+
+      expect(result.restored).toBe(2);
+      expect(result.indexRebuilt).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,205 @@
+/**
+ * Cloud Sync Unit Tests
+ * Tests for the incremental, checkpointed upload of local memories
+ */
+
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import { METADATA_KEYS, type Memory, type MasterKey } from '@engram/core';
+import {
+  CloudSyncService,
+  UPLOAD_BATCH_SIZE,
+  memorySyncHash,
+  type CloudSyncStorage,
+  type CloudUploadStatus,
+} from '../../../src/lib/cloud-sync';
+import { createMemory, createMemoryBatch } from '../../__fixtures__/memories';
+
+const mockUpsert = jest.fn<any>();
+
+jest.mock('@supabase/supabase-js', () => ({
+  createClient: jest.fn(() => ({
+    from: jest.fn(() => ({ upsert: mockUpsert })),
+    channel: jest.fn(() => {
+      const channelObj = {
+        on: jest.fn(function (this: any) {
+          return this;
+        }),
+        subscribe: jest.fn(function (this: any) {
+          return this;
+        }),
+        unsubscribe: jest.fn(() => Promise.resolve()),
+      };
+      return channelObj;
+    }),
+  })),
+}));
+
+process.env.PLASMO_PUBLIC_SUPABASE_URL = 'https://test.supabase.co';
+process.env.PLASMO_PUBLIC_SUPABASE_ANON_KEY = 'test-anon-key';
+
+const mockCrypto = {
+  encrypt: jest.fn(async () => ({ ciphertext: new Uint8Array([1, 2, 3]), nonce: new Uint8Array([4, 5, 6]) })),
+} as any;
+const masterKey = { key: new Uint8Array(32), derivedAt: Date.now() } as MasterKey;
+
+/**
+ * In-memory stand-in for the storage service
+ */
+function createStorage(memories: Memory[]): CloudSyncStorage & { memories: Map<string, Memory>; metadata: Map<string, any> } {
+  const byId = new Map(memories.map((memory) => [memory.id, { ...memory }]));
+  const metadata = new Map<string, any>();
+
+  return {
+    memories: byId,
+    metadata,
+    getUnsyncedMemories: async () =>
+      [...byId.values()].filter((memory) => memory.syncStatus !== 'synced').sort((a, b) => a.timestamp - b.timestamp),
+    getMemory: async (id) => byId.get(id) ?? null,
+    updateMemory: async (id, updates) => {
+      byId.set(id, { ...byId.get(id)!, ...updates });
+    },
+    getMetadata: async <T,>(key: string) => (metadata.get(key) as T) ?? null,
+    setMetadata: async <T,>(key: string, value: T) => {
+      metadata.set(key, value);
+    },
+  };
+}
+
+/**
+ * Memory IDs sent in each upsert request
+ */
+function uploadedBatches(): string[][] {
+  return mockUpsert.mock.calls.map(([rows]: any) => rows.map((row: any) => row.id));
+}
+
+describe('CloudSyncService uploads', () => {
+  let service: CloudSyncService;
+
+  beforeEach(() => {
+    mockUpsert.mockReset();
+    mockUpsert.mockResolvedValue({ error: null });
+    service = new CloudSyncService('user-1', mockCrypto, masterKey);
+  });
+
+  afterEach(async () => {
+    await service.stop();
+    jest.useRealTimers();
+  });
+
+  it('should upload in batches and mark memories synced', async () => {
+    const storage = createStorage(createMemoryBatch(UPLOAD_BATCH_SIZE + 20));
+
+    await service.syncNow(storage);
+
+    expect(uploadedBatches().map((batch) => batch.length)).toEqual([UPLOAD_BATCH_SIZE, 20]);
+    for (const memory of storage.memories.values()) {
+      expect(memory.syncStatus).toBe('synced');
+    }
+    expect(storage.metadata.get(METADATA_KEYS.CLOUD_UPLOAD)).toMatchObject({
+      state: 'complete',
+      uploaded: UPLOAD_BATCH_SIZE + 20,
+      total: UPLOAD_BATCH_SIZE + 20,
+    });
+  });
+
+  it('should only upload new and changed memories on later runs', async () => {
+    const storage = createStorage(createMemoryBatch(3));
+    await service.syncNow(storage);
+    mockUpsert.mockClear();
+
+    await service.syncNow(storage);
+    expect(mockUpsert).not.toHaveBeenCalled();
+
+    // Local writes mark memories pending
+    const changed = storage.memories.get('mem-1')!;
+    storage.memories.set('mem-1', { ...changed, tags: ['edited'], syncStatus: 'pending' });
+    storage.memories.set('mem-new', createMemory({ id: 'mem-new' as any }));
+
+    await service.syncNow(storage);
+    expect(uploadedBatches().map((batch) => batch.sort())).toEqual([['mem-1', 'mem-new']]);
+  });
+
+  it('should keep a memory edited during its upload pending', async () => {
+    const storage = createStorage(createMemoryBatch(2));
+    mockUpsert.mockImplementationOnce(async () => {
+      storage.memories.set('mem-0', { ...storage.memories.get('mem-0')!, tags: ['edited'] });
+      return { error: null };
+    });
+
+    await service.syncNow(storage);
+
+    expect(storage.memories.get('mem-0')?.syncStatus).toBe('pending');
+    expect(storage.memories.get('mem-1')?.syncStatus).toBe('synced');
+  });
+
+  it('should resume an interrupted upload with what is left', async () => {
+    const storage = createStorage(createMemoryBatch(UPLOAD_BATCH_SIZE * 2 + 10));
+    mockUpsert
+      .mockResolvedValueOnce({ error: null })
+      .mockResolvedValueOnce({ error: { message: 'JWT unauthorized' } });
+
+    await expect(service.syncNow(storage)).rejects.toThrow('Failed to upload memories: JWT unauthorized');
+    expect(storage.metadata.get(METADATA_KEYS.CLOUD_UPLOAD)).toMatchObject({
+      state: 'failed',
+      uploaded: UPLOAD_BATCH_SIZE,
+      failed: UPLOAD_BATCH_SIZE,
+    });
+    expect(storage.memories.get(`mem-${UPLOAD_BATCH_SIZE}`)?.syncStatus).toBe('failed');
+
+    // Service worker restarted
+    mockUpsert.mockClear();
+    const restarted = new CloudSyncService('user-1', mockCrypto, masterKey);
+    await restarted.syncNow(storage);
+
+    expect(uploadedBatches().map((batch) => batch.length)).toEqual([UPLOAD_BATCH_SIZE, 10]);
+    expect(uploadedBatches()[0][0]).toBe(`mem-${UPLOAD_BATCH_SIZE}`);
+    expect(storage.metadata.get(METADATA_KEYS.CLOUD_UPLOAD)).toMatchObject({
+      state: 'complete',
+      uploaded: UPLOAD_BATCH_SIZE * 2 + 10,
+      total: UPLOAD_BATCH_SIZE * 2 + 10,
+    });
+  });
+
+  it('should back off and report progress while a batch fails', async () => {
+    jest.useFakeTimers();
+    const storage = createStorage(createMemoryBatch(2));
+    const progress: CloudUploadStatus[] = [];
+    service.onUploadProgress((status) => progress.push(status));
+    mockUpsert.mockResolvedValueOnce({ error: { message: 'network error' } });
+
+    const upload = service.syncNow(storage);
+    await jest.advanceTimersByTimeAsync(5_000);
+    await upload;
+
+    expect(mockUpsert).toHaveBeenCalledTimes(2);
+    expect(progress.map((status) => status.state)).toEqual(['running', 'backoff', 'running', 'complete']);
+    expect(progress[1].retryAt).toBeGreaterThan(progress[1].updatedAt);
+    expect(progress[3].uploaded).toBe(2);
+  });
+
+  it('should end a backoff when stopped and leave the batch pending', async () => {
+    jest.useFakeTimers();
+    const storage = createStorage(createMemoryBatch(2));
+    service.onUploadProgress((status) => {
+      if (status.state === 'backoff') {
+        service.stop();
+      }
+    });
+    mockUpsert.mockResolvedValueOnce({ error: { message: 'network error' } });
+
+    await service.syncNow(storage);
+
+    expect(mockUpsert).toHaveBeenCalledTimes(1);
+    expect(storage.memories.get('mem-0')?.syncStatus).toBe('pending');
+    expect(storage.metadata.get(METADATA_KEYS.CLOUD_UPLOAD)).toMatchObject({ state: 'backoff', uploaded: 0 });
+  });
+});
+
+describe('memorySyncHash()', () => {
+  it('should hash the uploaded version regardless of local sync bookkeeping', () => {
+    const memory = createMemory({ syncStatus: 'pending' });
+
+    expect(memorySyncHash({ ...memory, syncStatus: 'failed' })).toBe(memorySyncHash(memory));
+    expect(memorySyncHash({ ...memory, tags: ['new'] })).not.toBe(memorySyncHash(memory));
+  });
+});
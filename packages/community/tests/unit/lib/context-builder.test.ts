@@ -0,0 +1,232 @@
+/**
+ * Context Builder Unit Tests
+ * Tests for token-budgeted assembly of the injected context block
+ */
+
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import type { UUID } from '@engram/core';
+import {
+  CONTEXT_BUILDER_CONFIG,
+  CONTEXT_MARKER,
+  ContextBuilder,
+  PLATFORM_TOKEN_BUDGETS,
+  estimateTokens,
+} from '../../../src/lib/context-builder';
+import { INJECTION_PRESETS } from '../../../src/lib/injection-templates';
+import { createMemory } from '../../__fixtures__/memories';
+
+global.fetch = jest.fn() as jest.MockedFunction<typeof fetch>;
+
+const NOW = Date.UTC(2026, 0, 1);
+const DAY = 24 * 60 * 60 * 1000;
+
+function candidate(id: string, text: string, score: number, ageDays = 0) {
+  return {
+    memory: createMemory({ id: id as UUID, content: { role: 'user', text }, encrypted: false, timestamp: NOW - ageDays * DAY }),
+    score,
+  };
+}
+
+const words = (count: number, prefix = 'w') => Array.from({ length: count }, (_, i) => `${prefix}${i}`).join(' ');
+
+describe('ContextBuilder', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should estimate about four characters per token', () => {
+    expect(estimateTokens('')).toBe(0);
+    expect(estimateTokens('abcd')).toBe(1);
+    expect(estimateTokens('abcde')).toBe(2);
+  });
+
+  it('should cite the memory of every line', async () => {
+    const builder = new ContextBuilder();
+
+    const context = await builder.build(
+      [candidate('mem-1', 'Use tokio::spawn for tasks', 0.9), candidate('mem-2', 'Prefer  async\nchannels', 0.8)],
+      { platform: 'chatgpt', template: INJECTION_PRESETS.plain, now: NOW }
+    );
+
+    expect(context.text).toBe(
+      `${CONTEXT_MARKER}:\n[1 | mem-1] Use tokio::spawn for tasks\n[2 | mem-2] Prefer async channels`
+    );
+    expect(context.citations.map((c) => [c.ref, c.memoryId, c.mode])).toEqual([
+      [1, 'mem-1', 'full'],
+      [2, 'mem-2', 'full'],
+    ]);
+    expect(context.budget).toBe(PLATFORM_TOKEN_BUDGETS.chatgpt);
+    expect(context.dropped).toEqual([]);
+  });
+
+  it('should blend relevance with recency', async () => {
+    const context = await new ContextBuilder().build(
+      [candidate('old', 'An old but relevant note', 0.8, 365), candidate('recent', 'A recent note', 0.75, 0)],
+      { now: NOW }
+    );
+
+    expect(context.citations.map((c) => c.memoryId)).toEqual(['recent', 'old']);
+  });
+
+  it('should drop near-identical memories, keeping the better ranked one', async () => {
+    const context = await new ContextBuilder().build(
+      [
+        candidate('first', 'How do I pin a future in Rust with Box::pin?', 0.9),
+        candidate('copy', 'how do I pin a future in rust with Box::pin', 0.85),
+        candidate('other', 'Lifetimes describe how long references live', 0.7),
+      ],
+      { now: NOW }
+    );
+
+    expect(context.citations.map((c) => c.memoryId)).toEqual(['first', 'other']);
+    expect(context.dropped).toEqual(['copy']);
+  });
+
+  it('should stay within the budget and truncate overflow without a provider', async () => {
+    const context = await new ContextBuilder().build(
+      [candidate('short', words(20), 0.9), candidate('long', words(400), 0.8), candidate('rest', words(400, 'x'), 0.7)],
+      { budget: 200, now: NOW }
+    );
+
+    expect(context.tokens).toBeLessThanOrEqual(200);
+    expect(context.citations.map((c) => [c.memoryId, c.mode])).toEqual([
+      ['short', 'full'],
+      ['long', 'truncated'],
+    ]);
+    expect(context.text).toMatch(/\[2 \| long\] w0 .*\.\.\.$/);
+    expect(context.dropped).toEqual(['rest']);
+  });
+
+  it('should summarize overflow with the enrichment provider', async () => {
+    (global.fetch as jest.MockedFunction<typeof fetch>).mockResolvedValue({
+      ok: true,
+      json: async () => ({ choices: [{ message: { content: 'Both notes cover tokio runtimes.' } }] }),
+    } as Response);
+    const builder = new ContextBuilder({
+      enabled: true,
+      provider: 'local',
+      model: 'llama3.2',
+      localEndpoint: 'http://localhost:11434/v1',
+      batchSize: 5,
+    });
+
+    const context = await builder.build(
+      [candidate('short', words(20), 0.9), candidate('long', words(400), 0.8), candidate('rest', words(400, 'x'), 0.7)],
+      { budget: 200, now: NOW }
+    );
+
+    expect(global.fetch).toHaveBeenCalledWith('http://localhost:11434/v1/chat/completions', expect.anything());
+    expect(context.text.split('\n')[2]).toBe('[2 | long, rest] Both notes cover tokio runtimes.');
+    expect(context.citations.filter((c) => c.mode === 'summarized').map((c) => [c.ref, c.memoryId])).toEqual([
+      [2, 'long'],
+      [2, 'rest'],
+    ]);
+    expect(context.dropped).toEqual([]);
+  });
+
+  it('should fall back to truncation when summarizing fails', async () => {
+    (global.fetch as jest.MockedFunction<typeof fetch>).mockRejectedValue(new Error('connect ECONNREFUSED'));
+    const builder = new ContextBuilder({ enabled: true, provider: 'openai', model: 'gpt-4o-mini', apiKey: 'sk-test', batchSize: 5 });
+
+    const context = await builder.build([candidate('long', words(400), 0.8)], { budget: 100, now: NOW });
+
+    expect(context.citations).toEqual([expect.objectContaining({ memoryId: 'long', mode: 'truncated' })]);
+    expect(context.tokens).toBeLessThanOrEqual(100);
+  });
+
+  it('should abort a slow summary and truncate instead', async () => {
+    jest.useFakeTimers();
+    let signal: AbortSignal | undefined;
+    (global.fetch as jest.MockedFunction<typeof fetch>).mockImplementation((_url, init) => {
+      signal = init?.signal ?? undefined;
+      return new Promise(() => {});
+    });
+    const builder = new ContextBuilder({ enabled: true, provider: 'openai', model: 'gpt-4o-mini', apiKey: 'sk-test', batchSize: 5 });
+
+    try {
+      const building = builder.build([candidate('long', words(400), 0.8)], { budget: 100, now: NOW });
+      await jest.advanceTimersByTimeAsync(CONTEXT_BUILDER_CONFIG.SUMMARY_TIMEOUT_MS);
+      const context = await building;
+
+      expect(signal?.aborted).toBe(true);
+      expect(context.citations).toEqual([expect.objectContaining({ memoryId: 'long', mode: 'truncated' })]);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  it('should not call a rate-limited provider while it asks to hold off', async () => {
+    const fetchMock = global.fetch as jest.MockedFunction<typeof fetch>;
+    fetchMock.mockResolvedValue({
+      ok: false,
+      status: 429,
+      headers: new Headers({ 'retry-after': '60' }),
+      text: async () => 'rate limited',
+    } as Response);
+    const builder = new ContextBuilder({ enabled: true, provider: 'anthropic', model: 'claude-3-haiku-20240307', apiKey: 'sk-test', batchSize: 5 });
+
+    await builder.build([candidate('long', words(400), 0.8)], { budget: 100, now: NOW });
+    fetchMock.mockClear();
+    const context = await builder.build([candidate('long', words(400), 0.8)], { budget: 100, now: NOW });
+
+    expect(fetchMock).not.toHaveBeenCalled();
+    expect(context.citations).toEqual([expect.objectContaining({ memoryId: 'long', mode: 'truncated' })]);
+  });
+
+  it('should lay out the block and prompt with the platform template', async () => {
+    const memory = {
+      ...candidate('mem-1', 'Use tokio::spawn for tasks', 0.9).memory,
+      platform: 'chatgpt' as const,
+      keywords: ['tokio', 'spawn'],
+      links: [{ memoryId: 'mem-2' as UUID, score: 0.8, createdAt: NOW, reason: 'Same runtime' }],
+    };
+    const template = {
+      preset: 'custom' as const,
+      prompt: '{{prompt}}\n{{context}}',
+      context: '<notes count="{{count}}" for="{{platform}}">\n{{items}}\n</notes>',
+      item: '<note ref="{{ref}}" date="{{date}}" from="{{platform}}" keywords="{{keywords}}" links="{{links}}" {{unknown}}>{{text}}</note>',
+    };
+
+    const context = await new ContextBuilder().build([{ memory, score: 0.9 }], {
+      platform: 'claude',
+      template,
+      prompt: 'How do I spawn tasks?',
+      now: NOW,
+    });
+
+    expect(context.text).toBe(
+      '<notes count="1" for="claude">\n' +
+      '<note ref="1" date="2026-01-01" from="chatgpt" keywords="tokio, spawn" links="Same runtime" {{unknown}}>Use tokio::spawn for tasks</note>\n' +
+      '</notes>'
+    );
+    expect(context.enrichedPrompt).toBe(`How do I spawn tasks?\n${context.text}`);
+  });
+
+  it('should use the XML preset for Claude by default', async () => {
+    const context = await new ContextBuilder().build([candidate('mem-1', 'A note', 0.9)], {
+      platform: 'claude',
+      prompt: 'Question',
+      now: NOW,
+    });
+
+    expect(context.text).toContain('<memory ref="1" id="mem-1" date="2026-01-01"');
+    expect(context.enrichedPrompt!.endsWith('\n\nQuestion')).toBe(true);
+  });
+
+  it('should count the template against the budget', async () => {
+    const template = { ...INJECTION_PRESETS.plain, context: `${'Long preamble. '.repeat(40)}\n{{items}}` };
+
+    const plain = await new ContextBuilder().build([candidate('long', words(400), 0.8)], { budget: 300, now: NOW });
+    const verbose = await new ContextBuilder().build([candidate('long', words(400), 0.8)], { budget: 300, template, now: NOW });
+
+    expect(verbose.tokens).toBeLessThanOrEqual(300);
+    expect(verbose.tokens).toBeGreaterThan(plain.tokens - 10);
+    expect(verbose.citations[0].mode).toBe('truncated');
+  });
+
+  it('should return an empty block without candidates', async () => {
+    const context = await new ContextBuilder().build([], { now: NOW });
+
+    expect(context).toEqual(expect.objectContaining({ text: '', tokens: 0, citations: [] }));
+  });
+});
@@ -0,0 +1,105 @@
+/**
+ * Context Provenance Unit Tests
+ * Tests for recognizing injected blocks in captured messages
+ */
+
+import { describe, it, expect, jest } from '@jest/globals';
+import type { UUID } from '@engram/core';
+import { ContextBuilder } from '../../../src/lib/context-builder';
+import { INJECTION_PRESETS, type InjectionTemplate } from '../../../src/lib/injection-templates';
+import { citedMemoryIds, stripInjectedContext, withProvenance } from '../../../src/lib/context-provenance';
+import { createMemory } from '../../__fixtures__/memories';
+
+global.fetch = jest.fn() as jest.MockedFunction<typeof fetch>;
+
+const PROMPT = 'How do I configure tokio workers?\nKeep it short.';
+const PRESETS = Object.values(INJECTION_PRESETS);
+
+function candidate(id: string, text: string, score: number) {
+  return {
+    memory: createMemory({ id: id as UUID, content: { role: 'user', text }, encrypted: false, timestamp: Date.UTC(2026, 0, 1) }),
+    score,
+  };
+}
+
+async function inject(template: InjectionTemplate) {
+  return new ContextBuilder().build(
+    [candidate('mem-1', 'Use tokio::spawn for tasks', 0.9), candidate('mem-2', 'Prefer bounded channels [see docs]', 0.8)],
+    { platform: 'claude', template, prompt: PROMPT }
+  );
+}
+
+describe('stripInjectedContext()', () => {
+  it.each(Object.entries(INJECTION_PRESETS))('should recover the prompt and memories of the %s preset', async (_, template) => {
+    const context = await inject(template);
+
+    expect(stripInjectedContext(context.enrichedPrompt!, PRESETS)).toEqual({
+      text: PROMPT,
+      memoryIds: ['mem-1', 'mem-2'],
+    });
+  });
+
+  it('should tolerate whitespace reflowed by the chat UI', async () => {
+    const context = await inject(INJECTION_PRESETS.markdown);
+    const captured = context.enrichedPrompt!.replace(/\n\n/g, '\n').replace(/ /g, '  ');
+
+    expect(stripInjectedContext(captured, PRESETS)?.memoryIds).toEqual(['mem-1', 'mem-2']);
+  });
+
+  it('should recognize custom templates', async () => {
+    const template: InjectionTemplate = {
+      preset: 'custom',
+      prompt: 'Background:\n{{context}}\n\nQuestion: {{prompt}}',
+      context: '{{items}}',
+      item: '* {{text}} (#{{id}})',
+    };
+    const context = await inject(template);
+
+    expect(stripInjectedContext(context.enrichedPrompt!, [...PRESETS, template])).toEqual({
+      text: PROMPT,
+      memoryIds: ['mem-1', 'mem-2'],
+    });
+  });
+
+  it('should leave messages without an injected block alone', () => {
+    expect(stripInjectedContext(PROMPT, PRESETS)).toBeNull();
+    expect(stripInjectedContext('Explain this:\n\n---\nSome notes', PRESETS)).toBeNull();
+    expect(stripInjectedContext('[Engram Context]: what is this marker?', PRESETS)).toBeNull();
+  });
+
+  it('should skip layouts without text to recognize the block by', () => {
+    const bare: InjectionTemplate = { preset: 'custom', prompt: '{{prompt}}\n\n{{context}}', context: '{{items}}', item: '- {{text}}' };
+
+    expect(stripInjectedContext('Compare these:\n\n- one\n- two', [bare])).toBeNull();
+  });
+});
+
+describe('citedMemoryIds()', () => {
+  it('should list each cited memory once', async () => {
+    const context = await inject(INJECTION_PRESETS.plain);
+
+    expect(citedMemoryIds(context)).toEqual(['mem-1', 'mem-2']);
+    expect(citedMemoryIds(null)).toEqual([]);
+  });
+});
+
+describe('withProvenance()', () => {
+  const message = { role: 'user' as const, content: 'enriched', conversationId: 'conv-1', metadata: { sources: ['a'] } };
+
+  it('should replace the text and keep other metadata', () => {
+    expect(withProvenance(message, PROMPT, { memoryIds: ['mem-1'], source: 'detected' })).toEqual({
+      ...message,
+      content: PROMPT,
+      metadata: { sources: ['a'], contextProvenance: { memoryIds: ['mem-1'], source: 'detected' } },
+    });
+  });
+
+  it('should keep provenance that is already attached', () => {
+    const recorded = withProvenance(message, PROMPT, { memoryIds: ['mem-1'], source: 'interceptor' });
+
+    expect(withProvenance(recorded, PROMPT, { memoryIds: [], source: 'detected' }).metadata?.contextProvenance).toEqual({
+      memoryIds: ['mem-1'],
+      source: 'interceptor',
+    });
+  });
+});
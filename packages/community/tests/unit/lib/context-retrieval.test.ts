@@ -0,0 +1,141 @@
+/**
+ * Context Retrieval Unit Tests
+ * Tests for prompt-time retrieval against the background HNSW index
+ */
+
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import type { UUID } from '@engram/core';
+import { retrieveContext, toContextMemory } from '../../../src/lib/context-retrieval';
+import { createEnrichedMemory, createMemoryWithLinks } from '../../__fixtures__/memories';
+
+function createStorage(memories: any[], results: Array<{ id: string; distance: number }>) {
+  const index = {
+    isReady: jest.fn().mockReturnValue(true),
+    search: jest.fn<any>().mockResolvedValue(results.map((r) => ({ ...r, chunk: 0 }))),
+  };
+  return {
+    index,
+    getHNSWIndex: jest.fn().mockReturnValue(index),
+    getMemory: jest.fn(async (id: string) => memories.find((m) => m.id === id) || null),
+  };
+}
+
+describe('retrieveContext()', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should rank index matches above the similarity threshold', async () => {
+    const close = createEnrichedMemory({ id: 'close' as UUID });
+    const closer = createEnrichedMemory({ id: 'closer' as UUID });
+    const far = createEnrichedMemory({ id: 'far' as UUID });
+    const storage = createStorage([close, closer, far], [
+      { id: 'closer', distance: 0.1 },
+      { id: 'close', distance: 0.3 },
+      { id: 'far', distance: 0.7 },
+    ]);
+
+    const candidates = await retrieveContext(storage as any, 'How do I configure tokio?');
+
+    expect(storage.index.search).toHaveBeenCalledWith(expect.any(Float32Array), 5);
+    expect(candidates.map((c) => [c.memory.id, c.score])).toEqual([
+      ['closer', expect.closeTo(0.9)],
+      ['close', expect.closeTo(0.7)],
+    ]);
+  });
+
+  it('should expand matches with their linked memories at a decayed score', async () => {
+    const linked = createEnrichedMemory({ id: 'linked' as UUID });
+    const match = createMemoryWithLinks({ id: 'match' as UUID }, ['linked' as UUID, 'deleted' as UUID]);
+    match.links![0].score = 0.5;
+    const storage = createStorage([match, linked], [{ id: 'match', distance: 0 }]);
+
+    const candidates = await retrieveContext(storage as any, 'lifetimes in rust');
+
+    expect(candidates).toEqual([
+      { memory: match, score: 1 },
+      { memory: linked, score: expect.closeTo(0.4), linkedFrom: 'match' },
+    ]);
+  });
+
+  it('should skip message versions the conversation is not showing', async () => {
+    const shown = { ...createEnrichedMemory({ id: 'shown' as UUID }), parentId: 'hidden', branchIndex: 1 };
+    const hidden = { ...createEnrichedMemory({ id: 'hidden' as UUID }), branchSelected: false };
+    const storage = createStorage([shown, hidden], [
+      { id: 'hidden', distance: 0.1 },
+      { id: 'shown', distance: 0.2 },
+    ]);
+
+    const candidates = await retrieveContext(storage as any, 'regenerated answer');
+
+    expect(candidates.map((c) => c.memory.id)).toEqual(['shown']);
+  });
+
+  it('should cap candidates after link expansion', async () => {
+    const ids = Array.from({ length: 12 }, (_, i) => `linked-${i}` as UUID);
+    const match = createMemoryWithLinks({ id: 'match' as UUID }, ids);
+    const memories = [match, ...ids.map((id) => createEnrichedMemory({ id }))];
+    const storage = createStorage(memories, [{ id: 'match', distance: 0.2 }]);
+
+    const candidates = await retrieveContext(storage as any, 'a long enough prompt', { maxCandidates: 4 });
+
+    expect(candidates).toHaveLength(4);
+    expect(candidates[0].memory.id).toBe('match');
+  });
+
+  it('should drop excluded memories and rank pinned ones first', async () => {
+    const match = createEnrichedMemory({ id: 'match' as UUID });
+    const unchecked = createEnrichedMemory({ id: 'unchecked' as UUID });
+    const pinned = createEnrichedMemory({ id: 'pinned' as UUID });
+    const storage = createStorage([match, unchecked, pinned], [
+      { id: 'unchecked', distance: 0.05 },
+      { id: 'match', distance: 0.2 },
+    ]);
+
+    const candidates = await retrieveContext(storage as any, 'a long enough prompt', {
+      include: ['pinned' as UUID],
+      exclude: ['unchecked' as UUID],
+    });
+
+    expect(candidates.map((c) => [c.memory.id, c.pinned])).toEqual([
+      ['pinned', true],
+      ['match', undefined],
+    ]);
+  });
+
+  it('should keep pinned memories beyond the candidate limit', async () => {
+    const ids = ['a', 'b', 'c'] as UUID[];
+    const storage = createStorage(ids.map((id) => createEnrichedMemory({ id })), [{ id: 'a', distance: 0.1 }]);
+
+    const candidates = await retrieveContext(storage as any, 'a long enough prompt', { include: ['b', 'c'] as UUID[], maxCandidates: 2 });
+
+    expect(candidates.map((c) => c.memory.id)).toEqual(['b', 'c']);
+  });
+
+  it('should return nothing before the index is built', async () => {
+    const storage = createStorage([], []);
+    storage.getHNSWIndex.mockReturnValue(null);
+
+    expect(await retrieveContext(storage as any, 'anything at all')).toEqual([]);
+  });
+});
+
+describe('toContextMemory()', () => {
+  it('should drop vectors and ciphertext', () => {
+    const memory: any = {
+      ...createEnrichedMemory(),
+      encryptedEmbedding: { ciphertext: 'x' },
+      encryptedContent: { ciphertext: 'y' },
+      chunkEmbeddings: new Float32Array(768),
+    };
+
+    const lean: any = toContextMemory(memory);
+
+    expect(lean.embedding).toBeUndefined();
+    expect(lean.encryptedEmbedding).toBeUndefined();
+    expect(lean.encryptedContent).toBeUndefined();
+    expect(lean.chunkEmbeddings).toBeUndefined();
+    expect(lean.content).toEqual(memory.content);
+    expect(lean.keywords).toEqual(memory.keywords);
+  });
+});
@@ -0,0 +1,178 @@
+/**
+ * Embedding Model Migration Unit Tests
+ * Tests for resumable re-embedding after switching embedding models
+ */
+
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import { EmbeddingModelMigration } from '../../../src/lib/embedding-model-migration';
+
+const TARGET = 'all-minilm-l6-v2';
+
+/**
+ * In-memory stand-in for the StorageService methods the migration uses
+ */
+function createStorage(memories: any[]) {
+  const metadata = new Map<string, any>();
+
+  const storage = {
+    metadata,
+    getMetadata: jest.fn(async (key: string) => metadata.get(key) ?? null),
+    setMetadata: jest.fn(async (key: string, value: any) => {
+      metadata.set(key, value);
+    }),
+    getEmbeddingModelSettings: jest.fn(async () => metadata.get('embeddingModel') || { modelId: 'bge-small-en-v1.5' }),
+    getMemories: jest.fn(async () => memories.map((m) => ({ ...m }))),
+    stageHNSWIndex: jest.fn<any>().mockResolvedValue({}),
+    reembedMemory: jest.fn(async (id: string, service: any) => {
+      const memory = memories.find((m) => m.id === id);
+      if (!memory) return false;
+      memory.embeddingModel = service.getModel().id;
+      return true;
+    }),
+    promoteStagedHNSWIndex: jest.fn(async (settings: any) => {
+      for (const memory of memories.filter((m) => m.stagedEmbedding)) {
+        Object.assign(memory, memory.stagedEmbedding);
+        delete memory.stagedEmbedding;
+      }
+      metadata.set('embeddingModel', settings);
+    }),
+    discardStagedHNSWIndex: jest.fn(),
+    persistHNSWIndex: jest.fn<any>().mockResolvedValue(undefined),
+  };
+
+  return storage;
+}
+
+function createMemory(id: string, embeddingModel?: string): any {
+  return { id, encryptedEmbedding: { ciphertext: 'x' }, ...(embeddingModel ? { embeddingModel } : {}) };
+}
+
+describe('EmbeddingModelMigration', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('start()', () => {
+    it('should record the target model as a running checkpoint', async () => {
+      const storage = createStorage([]);
+
+      const status = await EmbeddingModelMigration.start(storage as any, { modelId: TARGET });
+
+      expect(status).toEqual(expect.objectContaining({ state: 'running', from: 'bge-small-en-v1.5', to: { modelId: TARGET } }));
+      expect(await EmbeddingModelMigration.needsMigration(storage as any)).toBe(true);
+    });
+
+    it('should not migrate to the active model', async () => {
+      const storage = createStorage([]);
+
+      expect(await EmbeddingModelMigration.start(storage as any, { modelId: 'bge-small-en-v1.5' })).toBeNull();
+      expect(await EmbeddingModelMigration.needsMigration(storage as any)).toBe(false);
+    });
+
+    it('should reject unknown models', async () => {
+      await expect(EmbeddingModelMigration.start(createStorage([]) as any, { modelId: 'word2vec' })).rejects.toThrow(
+        'Unknown embedding model'
+      );
+    });
+  });
+
+  describe('migrateEmbeddings()', () => {
+    it('should re-embed every memory with vectors, then promote the staged index', async () => {
+      const memories = [createMemory('m1'), createMemory('m2'), { id: 'm3' }];
+      const storage = createStorage(memories);
+      await EmbeddingModelMigration.start(storage as any, { modelId: TARGET });
+
+      const stats = await EmbeddingModelMigration.migrateEmbeddings(storage as any);
+
+      expect(stats).toEqual({ migrated: 2, skipped: 0, failed: 0 });
+      expect(storage.reembedMemory.mock.calls.map(([id]) => id)).toEqual(['m1', 'm2']);
+      expect(storage.promoteStagedHNSWIndex).toHaveBeenCalledWith({ modelId: TARGET });
+      expect(storage.metadata.get('embeddingModelMigration')).toEqual(
+        expect.objectContaining({ state: 'complete', migrated: 2 })
+      );
+    });
+
+    it('should resume by indexing already re-embedded memories instead of embedding them again', async () => {
+      const memories = [createMemory('m1', TARGET), createMemory('m2')];
+      const storage = createStorage(memories);
+      await EmbeddingModelMigration.start(storage as any, { modelId: TARGET });
+
+      await EmbeddingModelMigration.migrateEmbeddings(storage as any);
+
+      const [model, migrated] = storage.stageHNSWIndex.mock.calls[0] as any[];
+      expect(model.id).toBe(TARGET);
+      expect(migrated.map((m: any) => m.id)).toEqual(['m1']);
+      expect(storage.reembedMemory.mock.calls.map(([id]) => id)).toEqual(['m2']);
+    });
+
+    it('should resume from vectors staged next to the active ones', async () => {
+      const staged = { ...createMemory('m1'), stagedEmbedding: { embeddingModel: TARGET } };
+      const storage = createStorage([staged, createMemory('m2')]);
+      await EmbeddingModelMigration.start(storage as any, { modelId: TARGET });
+
+      await EmbeddingModelMigration.migrateEmbeddings(storage as any);
+
+      const [, migrated] = storage.stageHNSWIndex.mock.calls[0] as any[];
+      expect(migrated.map((m: any) => m.id)).toEqual(['m1']);
+      expect(storage.reembedMemory.mock.calls.map(([id]) => id)).toEqual(['m2']);
+    });
+
+    it('should pick up memories embedded with the old model while it ran', async () => {
+      const memories = [createMemory('m1')];
+      const storage = createStorage(memories);
+      storage.reembedMemory.mockImplementationOnce(async (id: string, service: any) => {
+        memories[0].embeddingModel = service.getModel().id;
+        memories.push(createMemory('m2')); // Saved with the old model meanwhile
+        return true;
+      });
+      await EmbeddingModelMigration.start(storage as any, { modelId: TARGET });
+
+      await EmbeddingModelMigration.migrateEmbeddings(storage as any);
+
+      expect(storage.reembedMemory.mock.calls.map(([id]) => id)).toEqual(['m1', 'm2']);
+      expect(storage.promoteStagedHNSWIndex).toHaveBeenCalledTimes(1);
+    });
+
+    it('should keep the old model when memories fail to re-embed', async () => {
+      const storage = createStorage([createMemory('m1'), createMemory('m2')]);
+      storage.reembedMemory.mockRejectedValueOnce(new Error('Embedding endpoint error: 500'));
+      await EmbeddingModelMigration.start(storage as any, { modelId: TARGET });
+
+      const stats = await EmbeddingModelMigration.migrateEmbeddings(storage as any);
+
+      expect(stats.failed).toBe(1);
+      expect(storage.promoteStagedHNSWIndex).not.toHaveBeenCalled();
+      expect(storage.discardStagedHNSWIndex).toHaveBeenCalled();
+      expect(storage.metadata.get('embeddingModelMigration')).toEqual(
+        expect.objectContaining({ state: 'failed', error: '1 memories could not be re-embedded' })
+      );
+    });
+
+    it('should retry a failed switch, then give up and keep the old model', async () => {
+      const storage = createStorage([createMemory('m1')]);
+      storage.reembedMemory.mockRejectedValue(new Error('Embedding endpoint error: 500'));
+      await EmbeddingModelMigration.start(storage as any, { modelId: TARGET });
+
+      for (let attempt = 1; attempt <= 3; attempt++) {
+        expect(await EmbeddingModelMigration.needsMigration(storage as any)).toBe(true);
+        await EmbeddingModelMigration.migrateEmbeddings(storage as any);
+        expect(storage.metadata.get('embeddingModelMigration')).toEqual(
+          expect.objectContaining({ state: 'failed', attempts: attempt })
+        );
+      }
+
+      expect(await EmbeddingModelMigration.needsMigration(storage as any)).toBe(false);
+      expect(storage.reembedMemory).toHaveBeenCalledTimes(3);
+      expect(storage.promoteStagedHNSWIndex).not.toHaveBeenCalled();
+    });
+
+    it('should do nothing without a requested switch', async () => {
+      const storage = createStorage([createMemory('m1')]);
+
+      const stats = await EmbeddingModelMigration.migrateEmbeddings(storage as any);
+
+      expect(stats).toEqual({ migrated: 0, skipped: 0, failed: 0 });
+      expect(storage.stageHNSWIndex).not.toHaveBeenCalled();
+    });
+  });
+});
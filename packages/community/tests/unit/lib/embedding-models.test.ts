@@ -0,0 +1,106 @@
+/**
+ * Embedding Models Unit Tests
+ * Tests for the model registry, embedding backends and model switching
+ */
+
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import {
+  createEmbeddingBackend,
+  embeddingModelOf,
+  embeddingsEndpoint,
+  getEmbeddingModel,
+} from '../../../src/lib/embedding-models';
+import { EmbeddingService } from '../../../src/lib/embedding-service';
+
+global.fetch = jest.fn() as jest.MockedFunction<typeof fetch>;
+
+function mockEmbeddingResponse(embedding: number[]) {
+  (global.fetch as jest.MockedFunction<typeof fetch>).mockResolvedValue({
+    ok: true,
+    json: async () => ({ data: [{ embedding }] }),
+  } as Response);
+}
+
+describe('Embedding Models', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('registry', () => {
+    it('should default to BGE-Small for vectors without a recorded model', () => {
+      expect(getEmbeddingModel()).toEqual(expect.objectContaining({ id: 'bge-small-en-v1.5', dimensions: 384 }));
+      expect(embeddingModelOf({})).toBe('bge-small-en-v1.5');
+      expect(embeddingModelOf({ embeddingModel: 'bge-base-en-v1.5' })).toBe('bge-base-en-v1.5');
+    });
+
+    it('should reject unknown models', () => {
+      expect(() => getEmbeddingModel('word2vec')).toThrow('Unknown embedding model: word2vec');
+    });
+  });
+
+  describe('embeddingsEndpoint()', () => {
+    it('should append the embeddings path to base URLs', () => {
+      expect(embeddingsEndpoint('http://localhost:11434/v1')).toBe('http://localhost:11434/v1/embeddings');
+      expect(embeddingsEndpoint('http://localhost:1234')).toBe('http://localhost:1234/v1/embeddings');
+      expect(embeddingsEndpoint('http://localhost:1234/ ')).toBe('http://localhost:1234/v1/embeddings');
+      expect(embeddingsEndpoint('http://host/v1/embeddings')).toBe('http://host/v1/embeddings');
+    });
+  });
+
+  describe('openai-compatible backend', () => {
+    const spec = getEmbeddingModel('local-nomic-embed-text');
+
+    it('should post to the embeddings endpoint and normalize the vector', async () => {
+      mockEmbeddingResponse([3, 4, ...new Array(766).fill(0)]);
+      const backend = createEmbeddingBackend(spec, 'http://localhost:11434/v1');
+
+      const embedding = await backend.embed('tokio runtime');
+
+      expect(global.fetch).toHaveBeenCalledWith('http://localhost:11434/v1/embeddings', expect.objectContaining({
+        method: 'POST',
+        body: JSON.stringify({ model: 'nomic-embed-text', input: 'tokio runtime' }),
+      }));
+      expect(embedding).toHaveLength(768);
+      expect(embedding[0]).toBeCloseTo(0.6);
+      expect(embedding[1]).toBeCloseTo(0.8);
+    });
+
+    it('should reject vectors of the wrong dimension', async () => {
+      mockEmbeddingResponse(new Array(384).fill(0.1));
+      const backend = createEmbeddingBackend(spec);
+
+      await expect(backend.embed('text')).rejects.toThrow('returned 384 dimensions, expected 768');
+    });
+
+    it('should surface endpoint errors', async () => {
+      (global.fetch as jest.MockedFunction<typeof fetch>).mockResolvedValue({
+        ok: false,
+        status: 404,
+        text: async () => 'model "nomic-embed-text" not found',
+      } as Response);
+      const backend = createEmbeddingBackend(spec);
+
+      await expect(backend.embed('text')).rejects.toThrow('Embedding endpoint error: 404');
+    });
+  });
+
+  describe('EmbeddingService.setModel()', () => {
+    it('should embed with the selected backend and drop cached embeddings', async () => {
+      const service = new EmbeddingService();
+      const memory: any = { id: 'm1', content: { role: 'user', text: 'Hello' }, tags: [] };
+
+      const [before] = await service.embedMemories([memory]);
+      expect(before.embedding).toHaveLength(384);
+      expect(global.fetch).not.toHaveBeenCalled();
+
+      service.setModel({ modelId: 'local-nomic-embed-text', endpoint: 'http://localhost:11434' });
+      mockEmbeddingResponse(new Array(768).fill(0.1));
+
+      const [after] = await service.embedMemories([memory]);
+
+      expect(service.getModel().id).toBe('local-nomic-embed-text');
+      expect(after.embedding).toHaveLength(768);
+      expect(service.getCacheStats().cachedMemories).toBe(1);
+    });
+  });
+});
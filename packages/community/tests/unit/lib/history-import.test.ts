@@ -0,0 +1,467 @@
+/**
+ * History Import Unit Tests
+ * Tests for ChatGPT / Claude data-export parsing and backfill
+ *
+ * @jest-environment node
+ */
+
+import { describe, it, expect, beforeAll, jest } from '@jest/globals';
+import { strToU8, zipSync } from 'fflate';
+import {
+  HistoryImportService,
+  IMPORT_ABANDON_MS,
+  batchConversations,
+  detectImportSource,
+  messageFingerprint,
+  parseChatGPTExport,
+  parseClaudeExport,
+  parseHistoryExport,
+  readHistoryExportFile,
+} from '../../../src/lib/history-import';
+import { CryptoService } from '../../../src/lib/crypto-service';
+import { MarkdownExporter } from '../../../src/lib/markdown-exporter';
+
+const chatGPTExport = [
+  {
+    title: 'Sorting in Python',
+    create_time: 1700000000.5,
+    conversation_id: 'gpt-conv-1',
+    current_node: 'a2',
+    mapping: {
+      root: { id: 'root', message: null, parent: null, children: ['sys'] },
+      sys: {
+        id: 'sys',
+        parent: 'root',
+        children: ['u1'],
+        message: { author: { role: 'system' }, content: { content_type: 'text', parts: [''] } },
+      },
+      u1: {
+        id: 'u1',
+        parent: 'sys',
+        children: ['a1', 'a2'],
+        message: {
+          author: { role: 'user' },
+          create_time: 1700000001,
+          content: { content_type: 'text', parts: ['How do I sort a list?'] },
+        },
+      },
+      a1: {
+        id: 'a1',
+        parent: 'u1',
+        children: [],
+        message: {
+          author: { role: 'assistant' },
+          create_time: 1700000002,
+          content: { content_type: 'text', parts: ['Discarded regeneration'] },
+        },
+      },
+      a2: {
+        id: 'a2',
+        parent: 'u1',
+        children: [],
+        message: {
+          author: { role: 'assistant' },
+          create_time: 1700000003,
+          recipient: 'all',
+          content: {
+            content_type: 'text',
+            parts: ['Use **sorted()**:\n\n```python\nsorted([3, 1, 2])\n```'],
+          },
+        },
+      },
+    },
+  },
+];
+
+const claudeExport = [
+  {
+    uuid: 'claude-conv-1',
+    name: 'Rust lifetimes',
+    created_at: '2024-03-01T10:00:00.000Z',
+    chat_messages: [
+      {
+        uuid: 'm1',
+        sender: 'human',
+        text: 'Explain lifetimes',
+        content: [{ type: 'text', text: 'Explain lifetimes' }],
+        created_at: '2024-03-01T10:00:01.000Z',
+      },
+      {
+        uuid: 'm2',
+        sender: 'assistant',
+        text: '',
+        content: [
+          { type: 'text', text: 'Lifetimes bound references.' },
+          { type: 'tool_use', name: 'search', input: {} },
+        ],
+        created_at: '2024-03-01T10:00:05.000Z',
+      },
+    ],
+  },
+];
+
+describe('History Import', () => {
+  describe('detectImportSource()', () => {
+    it('should recognize both export formats', () => {
+      expect(detectImportSource(chatGPTExport)).toBe('chatgpt');
+      expect(detectImportSource(claudeExport)).toBe('claude');
+      expect(detectImportSource([])).toBeNull();
+      expect(detectImportSource({ conversations: [] })).toBeNull();
+    });
+  });
+
+  describe('parseChatGPTExport()', () => {
+    it('should follow the active branch and skip system messages', () => {
+      const [conversation] = parseChatGPTExport(chatGPTExport);
+
+      expect(conversation.id).toBe('gpt-conv-1');
+      expect(conversation.title).toBe('Sorting in Python');
+      expect(conversation.messages.map((m) => m.role)).toEqual(['user', 'assistant']);
+      expect(conversation.messages[1].content).not.toContain('Discarded');
+      expect(conversation.messages[0].timestamp).toBe(1700000001000);
+      expect(conversation.messages[0].conversationId).toBe('gpt-conv-1');
+    });
+
+    it('should follow the most recent branch when current_node is missing', () => {
+      const [conversation] = parseChatGPTExport([{ ...chatGPTExport[0], current_node: undefined }]);
+
+      expect(conversation.messages.map((m) => m.role)).toEqual(['user', 'assistant']);
+      expect(conversation.messages[1].content).toContain('sorted()');
+    });
+
+    it('should extract code blocks with their language', () => {
+      const [conversation] = parseChatGPTExport(chatGPTExport);
+
+      expect(conversation.messages[1].metadata?.codeBlocks).toEqual([
+        { language: 'python', code: 'sorted([3, 1, 2])' },
+      ]);
+      // Code lives in the blocks only, as in live captures
+      expect(conversation.messages[1].content).toBe('Use **sorted()**:');
+    });
+
+    it('should skip tool calls and hidden messages', () => {
+      const data = JSON.parse(JSON.stringify(chatGPTExport));
+      data[0].mapping.a2.message.recipient = 'browser';
+
+      const [conversation] = parseChatGPTExport(data);
+
+      expect(conversation.messages).toHaveLength(1);
+    });
+  });
+
+  describe('parseClaudeExport()', () => {
+    it('should map senders and keep only text content blocks', () => {
+      const [conversation] = parseClaudeExport(claudeExport);
+
+      expect(conversation.platform).toBe('claude');
+      expect(conversation.messages).toEqual([
+        expect.objectContaining({ role: 'user', content: 'Explain lifetimes' }),
+        expect.objectContaining({ role: 'assistant', content: 'Lifetimes bound references.' }),
+      ]);
+      expect(conversation.messages[1].timestamp).toBe(Date.parse('2024-03-01T10:00:05.000Z'));
+    });
+  });
+
+  describe('readHistoryExportFile()', () => {
+    const json = JSON.stringify(claudeExport);
+
+    it('should take conversations.json out of a compressed export archive', () => {
+      const archive = zipSync({
+        'chat.html': strToU8('<html></html>'),
+        'conversations.json': strToU8(json),
+        'dalle-generations/image.webp': new Uint8Array([1, 2, 3]),
+      }, { level: 6 });
+
+      expect(readHistoryExportFile(archive)).toBe(json);
+    });
+
+    it('should prefer the top-level conversations.json', () => {
+      const archive = zipSync({
+        'projects/old/conversations.json': strToU8('[]'),
+        'conversations.json': strToU8(json),
+      });
+
+      expect(readHistoryExportFile(archive)).toBe(json);
+    });
+
+    it('should read conversations.json selected directly', () => {
+      expect(readHistoryExportFile(strToU8(json))).toBe(json);
+    });
+
+    it('should reject archives without conversations.json', () => {
+      const archive = zipSync({ 'users.json': strToU8('{}') });
+
+      expect(() => readHistoryExportFile(archive)).toThrow('no conversations.json found');
+    });
+
+    it('should reject corrupt archives', () => {
+      const archive = zipSync({ 'conversations.json': strToU8(json) });
+
+      expect(() => readHistoryExportFile(archive.subarray(0, 40))).toThrow('could not be unzipped');
+    });
+  });
+
+  describe('parseHistoryExport()', () => {
+    it('should reject unrecognized files', () => {
+      expect(() => parseHistoryExport('not json')).toThrow('not valid JSON');
+      expect(() => parseHistoryExport('[{"foo": 1}]')).toThrow('Unrecognized export file');
+    });
+  });
+
+  describe('batchConversations()', () => {
+    const conversation = (id: string, size: number) => ({
+      id,
+      platform: 'claude' as const,
+      createdAt: 0,
+      messages: Array.from({ length: size }, (_, i) => ({ role: 'user' as const, content: `m${i}`, conversationId: id })),
+    });
+
+    it('should fill batches up to the message limit without splitting conversations', () => {
+      const batches = batchConversations([conversation('a', 2), conversation('b', 2), conversation('c', 5), conversation('d', 1)], 4);
+
+      expect(batches.map((batch) => batch.map((c) => c.id))).toEqual([['a', 'b'], ['c'], ['d']]);
+    });
+  });
+
+  describe('messageFingerprint()', () => {
+    it('should match markdown exports against live-captured DOM text', () => {
+      const exported = messageFingerprint(
+        'assistant',
+        'Use **sorted()** - see [docs](https://docs.python.org):\n\n```python\nsorted(x)\n```',
+        [{ language: 'python', code: 'sorted(x)' }]
+      );
+      const captured = messageFingerprint(
+        'assistant',
+        'Use sorted() - see docs:',
+        [{ language: 'python', code: 'sorted(x)' }]
+      );
+
+      expect(exported).toBe(captured);
+    });
+
+    it('should distinguish roles', () => {
+      expect(messageFingerprint('user', 'Hello')).not.toBe(messageFingerprint('assistant', 'Hello'));
+    });
+  });
+
+  describe('HistoryImportService', () => {
+    let crypto: CryptoService;
+    let masterKey: { key: Uint8Array };
+
+    beforeAll(async () => {
+      crypto = new CryptoService();
+      await crypto.initialize();
+      masterKey = { key: crypto.generateEncryptionKey() };
+    });
+
+    function createMockStorage(existing: any[] = []) {
+      return {
+        getMemories: jest.fn<any>().mockImplementation(async (filter: any) =>
+          existing.filter((m) => m.conversationId === filter.conversationId)
+        ),
+        getConversation: jest.fn<any>().mockResolvedValue(null),
+        saveConversation: jest.fn<any>().mockResolvedValue(undefined),
+        bulkSaveMemories: jest.fn<any>().mockResolvedValue(undefined),
+        processImportedMemories: jest.fn<any>().mockImplementation(async (items: any[], onProgress: any) => {
+          items.forEach((_, i) => onProgress?.(i + 1, items.length));
+          return { processed: items.length, failed: 0 };
+        }),
+      };
+    }
+
+    it('should encrypt and bulk-insert parsed messages', async () => {
+      const storage = createMockStorage();
+      const service = new HistoryImportService(storage as any, crypto);
+
+      const result = await service.importHistory(JSON.stringify(claudeExport), masterKey, 'device-1');
+
+      expect(result).toEqual({ source: 'claude', conversations: 1, imported: 2, duplicates: 0 });
+
+      const saved = storage.bulkSaveMemories.mock.calls[0][0] as any[];
+      expect(saved).toHaveLength(2);
+      expect(saved[0].content.text).toBeNull();
+      expect(saved[0].platform).toBe('claude');
+      expect(saved[0].deviceId).toBe('device-1');
+      expect(saved[0].syncStatus).toBe('pending');
+
+      const decrypted = JSON.parse(new TextDecoder().decode(await crypto.decrypt(saved[0].encryptedContent, masterKey.key)));
+      expect(decrypted.text).toBe('Explain lifetimes');
+
+      expect(storage.saveConversation).toHaveBeenCalledWith(expect.objectContaining({
+        id: 'claude-conv-1',
+        title: 'Rust lifetimes',
+      }));
+    });
+
+    it('should skip messages already captured live', async () => {
+      const encryptedContent = await crypto.encrypt(
+        JSON.stringify({ role: 'user', text: 'Explain lifetimes', metadata: {} }),
+        masterKey.key
+      );
+      const storage = createMockStorage([
+        { id: 'live-1', conversationId: 'claude-conv-1', content: { role: 'user', text: null }, encryptedContent },
+      ]);
+      const service = new HistoryImportService(storage as any, crypto);
+
+      const result = await service.importHistory(JSON.stringify(claudeExport), masterKey, 'device-1');
+
+      expect(result.imported).toBe(1);
+      expect(result.duplicates).toBe(1);
+    });
+
+    it('should keep repeated turns beyond those already captured live', async () => {
+      const turn = (uuid: string, sender: string, text: string) => ({
+        uuid,
+        sender,
+        text,
+        content: [{ type: 'text', text }],
+        created_at: '2024-03-01T10:00:01.000Z',
+      });
+      const repeatedExport = [{
+        ...claudeExport[0],
+        chat_messages: [
+          turn('m1', 'human', 'Explain lifetimes'),
+          turn('m2', 'assistant', 'Lifetimes bound references.'),
+          turn('m3', 'human', 'continue'),
+          turn('m4', 'assistant', 'They are checked at compile time.'),
+          turn('m5', 'human', 'continue'),
+          turn('m6', 'assistant', 'Elision covers the common cases.'),
+        ],
+      }];
+      const encryptedContent = await crypto.encrypt(
+        JSON.stringify({ role: 'user', text: 'continue', metadata: {} }),
+        masterKey.key
+      );
+      const storage = createMockStorage([
+        { id: 'live-1', conversationId: 'claude-conv-1', content: { role: 'user', text: null }, encryptedContent },
+      ]);
+      const service = new HistoryImportService(storage as any, crypto);
+
+      const fresh = await new HistoryImportService(createMockStorage() as any, crypto)
+        .importHistory(JSON.stringify(repeatedExport), masterKey, 'device-1');
+      const result = await service.importHistory(JSON.stringify(repeatedExport), masterKey, 'device-1');
+
+      expect(fresh).toMatchObject({ imported: 6, duplicates: 0 });
+      expect(result).toMatchObject({ imported: 5, duplicates: 1 });
+      const saved = storage.bulkSaveMemories.mock.calls[0][0] as any[];
+      const texts = await Promise.all(saved.map(async (memory) =>
+        JSON.parse(new TextDecoder().decode(await crypto.decrypt(memory.encryptedContent, masterKey.key))).text
+      ));
+      expect(texts.filter((text) => text === 'continue')).toHaveLength(1);
+    });
+
+    it('should report indexing progress and clear plaintext when done', async () => {
+      const storage = createMockStorage();
+      const service = new HistoryImportService(storage as any, crypto);
+
+      await service.importHistory(JSON.stringify(chatGPTExport), masterKey, 'device-1');
+      await service.waitForIndexing();
+
+      expect(service.getStatus()).toEqual(expect.objectContaining({
+        state: 'complete',
+        source: 'chatgpt',
+        current: 2,
+        total: 2,
+      }));
+
+      const items = storage.processImportedMemories.mock.calls[0][0] as any[];
+      expect(items.every((item) => item.plaintextContent.text === '')).toBe(true);
+    });
+
+    it('should export imported code blocks fenced once', async () => {
+      const storage = createMockStorage();
+      const service = new HistoryImportService(storage as any, crypto);
+      await service.importHistory(JSON.stringify(chatGPTExport), masterKey, 'device-1');
+      await service.waitForIndexing();
+
+      const saved = storage.bulkSaveMemories.mock.calls[0][0] as any[];
+      const exporter = new MarkdownExporter(
+        {
+          getMemories: jest.fn<any>().mockResolvedValue(saved),
+          getConversations: jest.fn<any>().mockResolvedValue([]),
+        } as any,
+        crypto
+      );
+      const { files } = await exporter.exportVault({ key: masterKey.key });
+
+      expect(files[0].content).toContain('Use **sorted()**:\n\n```python\nsorted([3, 1, 2])\n```');
+      expect(files[0].content.match(/```/g)).toHaveLength(2);
+    });
+
+    it('should index each batch before saving the next', async () => {
+      const storage = createMockStorage();
+      const service = new HistoryImportService(storage as any, crypto);
+      const [first, second] = batchConversations(
+        [...parseChatGPTExport(chatGPTExport), ...parseClaudeExport(claudeExport)],
+        2
+      );
+      storage.bulkSaveMemories.mockImplementation(async () => {
+        // Plaintext of earlier batches is gone by the time the next one is saved
+        const indexed = storage.processImportedMemories.mock.calls.flatMap(([items]) => items as any[]);
+        expect(indexed.every((item) => item.plaintextContent.text === '')).toBe(true);
+      });
+
+      await service.importConversations('chatgpt', first, masterKey, 'device-1', { index: 0, count: 2 });
+      expect(service.getStatus().state).toBe('indexing');
+      await service.importConversations('claude', second, masterKey, 'device-1', { index: 1, count: 2 });
+      await service.waitForIndexing();
+
+      expect(storage.processImportedMemories).toHaveBeenCalledTimes(2);
+      expect(service.getStatus()).toEqual(expect.objectContaining({ state: 'complete', current: 4, total: 4 }));
+    });
+
+    it('should reject batches of an import that stopped', async () => {
+      const storage = createMockStorage();
+      storage.processImportedMemories.mockRejectedValue(new Error('Embedding model failed to load'));
+      const service = new HistoryImportService(storage as any, crypto);
+      const conversations = parseClaudeExport(claudeExport);
+
+      await service.importConversations('claude', conversations, masterKey, 'device-1', { index: 0, count: 2 });
+
+      await expect(
+        service.importConversations('claude', conversations, masterKey, 'device-1', { index: 1, count: 2 })
+      ).rejects.toThrow('Import stopped: Embedding model failed to load');
+    });
+
+    it('should replace an import whose sender stopped sending batches', async () => {
+      const storage = createMockStorage();
+      const service = new HistoryImportService(storage as any, crypto);
+      const conversations = parseClaudeExport(claudeExport);
+      const now = jest.spyOn(Date, 'now');
+      try {
+        now.mockReturnValue(1_700_000_000_000);
+        await service.importConversations('claude', conversations, masterKey, 'device-1', { index: 0, count: 3 });
+        await service.waitForIndexing();
+
+        await expect(
+          service.importConversations('chatgpt', parseChatGPTExport(chatGPTExport), masterKey, 'device-1')
+        ).rejects.toThrow('An import is already in progress');
+
+        now.mockReturnValue(1_700_000_000_000 + IMPORT_ABANDON_MS);
+        await service.importConversations('chatgpt', parseChatGPTExport(chatGPTExport), masterKey, 'device-1');
+        await service.waitForIndexing();
+      } finally {
+        now.mockRestore();
+      }
+
+      expect(service.getStatus()).toEqual(expect.objectContaining({
+        state: 'complete',
+        source: 'chatgpt',
+        current: 2,
+        total: 2,
+      }));
+    });
+
+    it('should record indexing failures in the status', async () => {
+      const storage = createMockStorage();
+      storage.processImportedMemories.mockRejectedValue(new Error('Embedding model failed to load'));
+      const service = new HistoryImportService(storage as any, crypto);
+
+      await service.importHistory(JSON.stringify(claudeExport), masterKey, 'device-1');
+      await service.waitForIndexing();
+
+      expect(service.getStatus().state).toBe('failed');
+      expect(service.getStatus().error).toBe('Embedding model failed to load');
+    });
+  });
+});
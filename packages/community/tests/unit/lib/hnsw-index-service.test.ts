@@ -6,7 +6,8 @@
 import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
 import type { MemoryWithMemA, UUID } from '@engram/core';
 import { generateUUID, now, createVectorClock } from '@engram/core';
-import { HNSWIndexService } from '../../../src/lib/hnsw-index-service';
+import { COMPACTION_THRESHOLD, HNSWIndexService } from '../../../src/lib/hnsw-index-service';
+import { getEmbeddingModel } from '../../../src/lib/embedding-models';
 
 // Mock EdgeVec before importing
 var nextVectorId = 0; // Auto-incrementing vector ID (var is hoisted)
@@ -35,12 +36,32 @@ jest.mock('edgevec', () => {
   };
 });
 
+// In-memory operation log (Dexie `++seq` table)
+var logEntries: any[] = [];
+var nextSeq = 1;
+
 // Mock Dexie database
 const mockDb = {
   hnswIndex: {
     get: jest.fn(),
     put: jest.fn(),
   },
+  hnswLog: {
+    add: jest.fn(async (entry: any) => {
+      logEntries.push({ ...entry, seq: nextSeq });
+      return nextSeq++;
+    }),
+    orderBy: jest.fn(() => ({ last: async () => logEntries[logEntries.length - 1] })),
+    where: jest.fn(() => ({
+      above: (seq: number) => ({ toArray: async () => logEntries.filter((e) => e.seq > seq) }),
+      belowOrEqual: (seq: number) => ({
+        delete: async () => {
+          logEntries = logEntries.filter((e) => e.seq > seq);
+        },
+      }),
+    })),
+  },
+  transaction: jest.fn(async (...args: any[]) => args[args.length - 1]()),
 } as any;
 
 describe('HNSWIndexService', () => {
@@ -74,8 +95,10 @@ describe('HNSWIndexService', () => {
     service = new HNSWIndexService();
     jest.clearAllMocks();
 
-    // Reset vector ID counter
+    // Reset vector ID counter and operation log
     nextVectorId = 0;
+    logEntries = [];
+    nextSeq = 1;
 
     // Default mock behaviors
     mockIndex.insert.mockImplementation(() => nextVectorId++);
@@ -358,6 +381,136 @@ describe('HNSWIndexService', () => {
     });
   });
 
+  // ===== CHUNK TESTS =====
+
+  describe('Chunked memories', () => {
+    const vector = (value: number) => new Float32Array(Array(384).fill(value));
+
+    it('should index one vector per chunk under chunk keys', async () => {
+      await service.addChunks('mem1' as UUID, [vector(0.1), vector(0.2), vector(0.3)]);
+
+      expect(mockIndex.insert).toHaveBeenCalledTimes(3);
+      expect(service.getStats()).toEqual(expect.objectContaining({ vectorCount: 3, memoryCount: 1 }));
+      expect(Array.from((service as any).vectorIdMap.keys())).toEqual(['mem1', 'mem1#1', 'mem1#2']);
+    });
+
+    it('should return each memory once with its best chunk', async () => {
+      await service.addChunks('mem1' as UUID, [vector(0.1), vector(0.2)]); // vectors 0, 1
+      await service.add('mem2' as UUID, vector(0.3)); // vector 2
+      mockIndex.search.mockReturnValue([
+        { id: 1, distance: 0.1 },
+        { id: 2, distance: 0.2 },
+        { id: 0, distance: 0.3 },
+      ]);
+
+      const results = await service.search(vector(0.5), 2);
+
+      expect(mockIndex.search).toHaveBeenCalledWith(expect.any(Float32Array), 3); // Over-fetched, capped at vector count
+      expect(results).toEqual([
+        { id: 'mem1', distance: 0.1, chunk: 1 },
+        { id: 'mem2', distance: 0.2, chunk: 0 },
+      ]);
+    });
+
+    it('should favour memories matching in several chunks with sum aggregation', async () => {
+      await service.addChunks('mem1' as UUID, [vector(0.1), vector(0.2)]); // vectors 0, 1
+      await service.add('mem2' as UUID, vector(0.3)); // vector 2
+      mockIndex.search.mockReturnValue([
+        { id: 2, distance: 0.1 },
+        { id: 0, distance: 0.2 },
+        { id: 1, distance: 0.3 },
+      ]);
+
+      const max = await service.search(vector(0.5), 2, 'max');
+      const sum = await service.search(vector(0.5), 2, 'sum');
+
+      expect(max.map((r) => r.id)).toEqual(['mem2', 'mem1']);
+      expect(sum.map((r) => r.id)).toEqual(['mem1', 'mem2']);
+    });
+
+    it('should remove and replace all chunks of a memory', async () => {
+      await service.addChunks('mem1' as UUID, [vector(0.1), vector(0.2), vector(0.3)]);
+
+      await service.addChunks('mem1' as UUID, [vector(0.4)]);
+      expect(mockIndex.softDelete).toHaveBeenCalledTimes(3);
+      expect(service.getStats().vectorCount).toBe(1);
+
+      await service.remove('mem1' as UUID);
+      expect(mockIndex.softDelete).toHaveBeenCalledTimes(4);
+      expect(service.getStats()).toEqual(expect.objectContaining({ vectorCount: 0, memoryCount: 0 }));
+    });
+
+    it('should build from stored chunk embeddings', async () => {
+      const chunks = new Float32Array(384 * 2).fill(0.2);
+      const memory = createTestMemory({ chunkEmbeddings: chunks });
+
+      await service.build([memory, createTestMemory()]);
+
+      expect(service.getStats()).toEqual(expect.objectContaining({ vectorCount: 3, memoryCount: 2 }));
+    });
+
+    it('should restore chunk counts when loading', async () => {
+      mockDb.hnswIndex.get.mockResolvedValue({
+        key: 'metadata',
+        data: {
+          vectorIdMap: [['mem1', 0], ['mem1#1', 1], ['mem2', 2]],
+          indexToIdMap: [[0, 'mem1'], [1, 'mem1#1'], [2, 'mem2']],
+        },
+        lastUpdated: Date.now(),
+        vectorCount: 3,
+      });
+
+      const loaded = new HNSWIndexService();
+      await loaded.load(mockDb);
+      await loaded.remove('mem1' as UUID);
+
+      expect(mockIndex.softDelete).toHaveBeenCalledTimes(2);
+      expect(loaded.getStats()).toEqual(expect.objectContaining({ vectorCount: 1, memoryCount: 1 }));
+    });
+  });
+
+  // ===== EMBEDDING MODEL TESTS =====
+
+  describe('Embedding models', () => {
+    const bgeBase = getEmbeddingModel('bge-base-en-v1.5');
+
+    it('should use the dimensions of its model', async () => {
+      const index = new HNSWIndexService(bgeBase);
+
+      await index.add('mem1' as UUID, new Float32Array(768).fill(0.1));
+
+      await expect(index.add('mem2' as UUID, new Float32Array(384).fill(0.1))).rejects.toThrow('expected 768');
+      await expect(index.search(new Float32Array(384))).rejects.toThrow('expected 768');
+    });
+
+    it('should only build from vectors recorded with its model', async () => {
+      const index = new HNSWIndexService(bgeBase);
+      const migrated = createTestMemory({
+        embedding: new Float32Array(768).fill(0.1),
+        embeddingModel: bgeBase.id,
+        embeddingDimensions: 768,
+      });
+
+      await index.build([migrated, createTestMemory()]);
+
+      expect(index.getStats().memoryCount).toBe(1);
+    });
+
+    it('should record its model and reject indexes persisted for another model', async () => {
+      await service.build([createTestMemory()]);
+      await service.persist(mockDb);
+
+      const persisted = mockDb.hnswIndex.put.mock.calls[0][0];
+      expect(persisted.data).toEqual(expect.objectContaining({ embeddingModel: 'bge-small-en-v1.5', embeddingDimensions: 384 }));
+
+      mockLoadStatic.mockResolvedValue(mockIndex);
+      mockDb.hnswIndex.get.mockResolvedValue(persisted);
+
+      expect(await new HNSWIndexService().load(mockDb)).toBe(true);
+      expect(await new HNSWIndexService(bgeBase).load(mockDb)).toBe(false);
+    });
+  });
+
   // ===== PERSISTENCE TESTS =====
 
   describe('Persistence', () => {
@@ -371,7 +524,7 @@ describe('HNSWIndexService', () => {
       await service.persist(mockDb);
 
       expect(mockIndex.save).toHaveBeenCalledTimes(1);
-      expect(mockIndex.save).toHaveBeenCalledWith('engram-hnsw-index');
+      expect(mockIndex.save).toHaveBeenCalledWith('engram-hnsw-index-alt');
       expect(mockDb.hnswIndex.put).toHaveBeenCalledTimes(1);
 
       const putCall = mockDb.hnswIndex.put.mock.calls[0][0];
@@ -442,6 +595,187 @@ describe('HNSWIndexService', () => {
     });
   });
 
+  // ===== OPERATION LOG TESTS =====
+
+  describe('Operation log', () => {
+    const vector = (value: number) => new Float32Array(384).fill(value);
+
+    beforeEach(async () => {
+      await service.build([createTestMemory({ id: 'mem1' as UUID })]);
+      await service.persist(mockDb);
+      jest.clearAllMocks();
+    });
+
+    it('should log operations instead of snapshotting the whole index', async () => {
+      await service.add('mem2' as UUID, vector(0.1));
+      await service.update('mem2' as UUID, [vector(0.2), vector(0.3)]);
+      await service.remove('mem1' as UUID);
+      await service.persist(mockDb);
+
+      expect(logEntries.map((e) => [e.op, e.memoryId, e.vectors?.length])).toEqual([
+        ['add', 'mem2', 1],
+        ['update', 'mem2', 2],
+        ['remove', 'mem1', undefined],
+      ]);
+      expect(mockIndex.save).not.toHaveBeenCalled();
+      expect(mockDb.hnswIndex.put).not.toHaveBeenCalled();
+    });
+
+    it('should replay logged operations on top of the snapshot when loading', async () => {
+      await service.add('mem2' as UUID, vector(0.1));
+      await service.update('mem2' as UUID, [vector(0.2), vector(0.3)]);
+      await service.remove('mem1' as UUID);
+
+      mockDb.hnswIndex.get.mockResolvedValue({
+        key: 'metadata',
+        data: { vectorIdMap: [['mem1', 0]], indexToIdMap: [[0, 'mem1']], logSeq: 0 },
+        lastUpdated: Date.now(),
+        vectorCount: 1,
+      });
+
+      const restarted = new HNSWIndexService();
+      expect(await restarted.load(mockDb)).toBe(true);
+
+      expect(restarted.getStats()).toEqual(expect.objectContaining({ vectorCount: 2, memoryCount: 1 }));
+      mockIndex.search.mockReturnValue([{ id: nextVectorId - 1, distance: 0.1 }]);
+      expect(await restarted.search(vector(0.3), 1)).toEqual([{ id: 'mem2', distance: 0.1, chunk: 1 }]);
+    });
+
+    it('should skip entries already contained in the snapshot', async () => {
+      await service.add('mem2' as UUID, vector(0.1));
+
+      mockDb.hnswIndex.get.mockResolvedValue({
+        key: 'metadata',
+        data: { vectorIdMap: [['mem1', 0], ['mem2', 1]], indexToIdMap: [[0, 'mem1'], [1, 'mem2']], logSeq: 1 },
+        lastUpdated: Date.now(),
+        vectorCount: 2,
+      });
+      jest.clearAllMocks();
+
+      await new HNSWIndexService().load(mockDb);
+
+      expect(mockIndex.insert).not.toHaveBeenCalled();
+    });
+
+    it('should compact the log into a snapshot past the threshold', async () => {
+      for (let i = 0; i < COMPACTION_THRESHOLD; i++) {
+        await service.add(`mem-${i}` as UUID, vector(0.1));
+      }
+      await service.persist(mockDb);
+
+      expect(mockIndex.save).toHaveBeenCalledTimes(1);
+      const snapshot = mockDb.hnswIndex.put.mock.calls[0][0];
+      expect(snapshot.data.logSeq).toBe(COMPACTION_THRESHOLD);
+      expect(snapshot.vectorCount).toBe(COMPACTION_THRESHOLD + 1);
+      expect(logEntries).toHaveLength(0);
+    });
+
+    it('should write each snapshot generation to the store the metadata does not point to', async () => {
+      mockDb.hnswIndex.get.mockResolvedValue({ key: 'metadata', data: { generation: 1 } });
+      await service.build([createTestMemory()]);
+      await service.persist(mockDb);
+
+      expect(mockIndex.save).toHaveBeenLastCalledWith('engram-hnsw-index');
+      expect(mockDb.hnswIndex.put.mock.calls[0][0].data.generation).toBe(2);
+
+      mockDb.hnswIndex.get.mockResolvedValue(mockDb.hnswIndex.put.mock.calls[0][0]);
+      mockLoadStatic.mockResolvedValue(mockIndex);
+      expect(await new HNSWIndexService().load(mockDb)).toBe(true);
+      expect(mockLoadStatic).toHaveBeenCalledWith('engram-hnsw-index');
+    });
+
+    it('should keep the previous snapshot and its log when compaction is interrupted', async () => {
+      mockDb.hnswIndex.get.mockResolvedValue({
+        key: 'metadata',
+        data: { vectorIdMap: [['mem1', 0]], indexToIdMap: [[0, 'mem1']], logSeq: 0, generation: 1 },
+        lastUpdated: Date.now(),
+        vectorCount: 1,
+      });
+      for (let i = 0; i < COMPACTION_THRESHOLD; i++) {
+        await service.add(`mem-${i}` as UUID, vector(0.1));
+      }
+      mockDb.transaction.mockRejectedValueOnce(new Error('Service worker stopped'));
+
+      await expect(service.persist(mockDb)).rejects.toThrow('Service worker stopped');
+
+      expect(mockIndex.save).toHaveBeenCalledWith('engram-hnsw-index');
+      expect(logEntries).toHaveLength(COMPACTION_THRESHOLD);
+
+      mockLoadStatic.mockClear();
+      mockIndex.insert.mockClear();
+      const restarted = new HNSWIndexService();
+      expect(await restarted.load(mockDb)).toBe(true);
+
+      expect(mockLoadStatic).toHaveBeenCalledWith('engram-hnsw-index-alt');
+      expect(mockIndex.insert).toHaveBeenCalledTimes(COMPACTION_THRESHOLD);
+      expect(restarted.getStats().memoryCount).toBe(COMPACTION_THRESHOLD + 1);
+    });
+
+    it('should not log operations of an index that was never persisted or loaded', async () => {
+      const staged = new HNSWIndexService();
+
+      await staged.add('mem2' as UUID, vector(0.1));
+
+      expect(mockDb.hnswLog.add).not.toHaveBeenCalled();
+    });
+  });
+
+  // ===== CONSISTENCY TESTS =====
+
+  describe('Consistency check', () => {
+    it('should report and repair orphaned and missing memories', async () => {
+      const kept = createTestMemory();
+      const deleted = createTestMemory();
+      const unindexed = createTestMemory();
+      await service.build([kept, deleted]);
+
+      const report = await service.checkConsistency([kept, unindexed]);
+
+      expect(report).toEqual({
+        checked: 2,
+        orphaned: [deleted.id],
+        missing: [unindexed.id],
+        mismatched: [],
+        repaired: 2,
+      });
+      expect(service.getStats().memoryCount).toBe(2);
+      expect((await service.checkConsistency([kept, unindexed])).repaired).toBe(0);
+    });
+
+    it('should treat memories re-embedded with another model as orphaned', async () => {
+      const memory = createTestMemory();
+      await service.build([memory]);
+
+      const reembedded: MemoryWithMemA = { ...memory, embeddingModel: 'bge-base-en-v1.5' };
+      const report = await service.checkConsistency([reembedded], false);
+
+      expect(report.orphaned).toEqual([memory.id]);
+      expect(report.repaired).toBe(0);
+      expect(service.getStats().memoryCount).toBe(1);
+    });
+
+    it('should re-add memories whose ID maps disagree', async () => {
+      mockDb.hnswIndex.get.mockResolvedValue({
+        key: 'metadata',
+        data: { vectorIdMap: [['mem1', 0], ['mem2', 1]], indexToIdMap: [[0, 'mem1'], [1, 'mem1']] },
+        lastUpdated: Date.now(),
+        vectorCount: 2,
+      });
+      await service.load(mockDb);
+      nextVectorId = 2;
+
+      const report = await service.checkConsistency([
+        createTestMemory({ id: 'mem1' as UUID }),
+        createTestMemory({ id: 'mem2' as UUID }),
+      ]);
+
+      expect(report.mismatched).toEqual(['mem2']);
+      expect(mockIndex.softDelete).toHaveBeenCalledWith(1);
+      mockIndex.search.mockReturnValue([{ id: 2, distance: 0.1 }]);
+      expect(await service.search(new Float32Array(384).fill(0.5), 1)).toEqual([{ id: 'mem2', distance: 0.1, chunk: 0 }]);
+    });
+  });
+
   // ===== STATISTICS TESTS =====
 
   describe('Statistics', () => {
@@ -0,0 +1,65 @@
+/**
+ * Injection Review Unit Tests
+ * Tests for review settings and applying edits of the context block
+ */
+
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import {
+  DEFAULT_INJECTION_REVIEW_CONFIG,
+  INJECTION_REVIEW_KEY,
+  applyContextEdit,
+  getInjectionReviewConfig,
+  saveInjectionReviewConfig,
+} from '../../../src/lib/injection-review';
+import type { AssembledContext } from '../../../src/lib/context-builder';
+
+declare const chrome: any;
+
+function assembled(text: string, enrichedPrompt: string): AssembledContext {
+  return { text, enrichedPrompt, tokens: 10, budget: 100, citations: [], dropped: [] };
+}
+
+describe('Injection review', () => {
+  let stored: Record<string, any>;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    stored = {};
+    chrome.storage.local.get.mockImplementation(async (key: string) => ({ [key]: stored[key] }));
+    chrome.storage.local.set.mockImplementation(async (items: Record<string, any>) => {
+      Object.assign(stored, items);
+    });
+  });
+
+  describe('settings', () => {
+    it('should default to reviewing with an auto-accept timeout', async () => {
+      expect(await getInjectionReviewConfig()).toEqual(DEFAULT_INJECTION_REVIEW_CONFIG);
+    });
+
+    it('should merge saved updates', async () => {
+      await saveInjectionReviewConfig({ autoAcceptSeconds: 0 });
+
+      expect(stored[INJECTION_REVIEW_KEY]).toEqual({ enabled: true, autoAcceptSeconds: 0 });
+      expect(await getInjectionReviewConfig()).toEqual({ enabled: true, autoAcceptSeconds: 0 });
+    });
+
+    it('should reject a negative timeout', async () => {
+      await expect(saveInjectionReviewConfig({ autoAcceptSeconds: -1 })).rejects.toThrow('0 or more seconds');
+      expect(chrome.storage.local.set).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('applyContextEdit()', () => {
+    const context = assembled('<ctx>\nA note\n</ctx>', '<ctx>\nA note\n</ctx>\n\nWhat now?');
+
+    it('should replace the block in place', () => {
+      expect(applyContextEdit('What now?', context, '<ctx>\nAn edited $& note\n</ctx>')).toBe(
+        '<ctx>\nAn edited $& note\n</ctx>\n\nWhat now?'
+      );
+    });
+
+    it('should send the original prompt when the block is emptied', () => {
+      expect(applyContextEdit('What now?', context, '  ')).toBe('What now?');
+    });
+  });
+});
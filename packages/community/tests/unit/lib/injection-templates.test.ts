@@ -0,0 +1,77 @@
+/**
+ * Injection Templates Unit Tests
+ * Tests for placeholder rendering, validation and per-platform storage
+ */
+
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import {
+  INJECTION_PRESETS,
+  INJECTION_TEMPLATES_KEY,
+  getDefaultTemplate,
+  getInjectionTemplate,
+  renderTemplate,
+  saveInjectionTemplate,
+  validateTemplate,
+} from '../../../src/lib/injection-templates';
+
+declare const chrome: any;
+
+describe('Injection templates', () => {
+  let stored: Record<string, any>;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    stored = {};
+    chrome.storage.local.get.mockImplementation(async (key: string) => ({ [key]: stored[key] }));
+    chrome.storage.local.set.mockImplementation(async (items: Record<string, any>) => {
+      Object.assign(stored, items);
+    });
+  });
+
+  it('should replace known placeholders and keep unknown ones', () => {
+    expect(renderTemplate('[{{ref}}] {{text}} {{other}}', { ref: 2, text: 'note' })).toBe('[2] note {{other}}');
+  });
+
+  it('should default to XML for Claude and Markdown for ChatGPT', () => {
+    expect(getDefaultTemplate('claude')).toEqual(INJECTION_PRESETS.xml);
+    expect(getDefaultTemplate('chatgpt')).toEqual(INJECTION_PRESETS.markdown);
+    expect(getDefaultTemplate('generic')).toEqual(INJECTION_PRESETS.plain);
+  });
+
+  it('should accept every preset', () => {
+    Object.values(INJECTION_PRESETS).forEach((template) => {
+      expect(validateTemplate(template)).toEqual([]);
+    });
+  });
+
+  it('should reject templates that would drop the prompt or the memories', () => {
+    const errors = validateTemplate({ preset: 'custom', prompt: '{{context}}', context: 'Notes', item: '{{id}}' });
+
+    expect(errors).toEqual([
+      'Prompt layout must contain {{prompt}}',
+      'Context layout must contain {{items}}',
+      'Memory layout must contain {{text}}',
+    ]);
+  });
+
+  it('should save, load and reset a platform override', async () => {
+    const template = { ...INJECTION_PRESETS.plain, preset: 'custom' as const, item: '* {{text}}' };
+
+    await saveInjectionTemplate('gemini', template);
+    expect(stored[INJECTION_TEMPLATES_KEY]).toEqual({ gemini: template });
+    expect(await getInjectionTemplate('gemini')).toEqual(template);
+    expect(await getInjectionTemplate('claude')).toEqual(INJECTION_PRESETS.xml);
+
+    await saveInjectionTemplate('gemini', null);
+    expect(await getInjectionTemplate('gemini')).toEqual(INJECTION_PRESETS.markdown);
+  });
+
+  it('should refuse to save an invalid template and ignore invalid stored ones', async () => {
+    const broken = { ...INJECTION_PRESETS.plain, prompt: '{{context}}' };
+
+    await expect(saveInjectionTemplate('claude', broken)).rejects.toThrow('Prompt layout must contain {{prompt}}');
+
+    stored[INJECTION_TEMPLATES_KEY] = { claude: broken };
+    expect(await getInjectionTemplate('claude')).toEqual(INJECTION_PRESETS.xml);
+  });
+});
@@ -0,0 +1,187 @@
+/**
+ * Keyword Index Service Unit Tests
+ * Tests for tokenization, blinded BM25 search and rank fusion
+ */
+
+import { describe, it, expect, beforeAll, beforeEach } from '@jest/globals';
+import { KeywordIndexService, tokenize } from '../../../src/lib/keyword-index-service';
+import { reciprocalRankFusion } from '../../../src/lib/rank-fusion';
+import { CryptoService } from '../../../src/lib/crypto-service';
+
+/**
+ * In-memory stand-in for a Dexie table keyed by one field, or by several (compound key)
+ */
+function createTable(primaryKey: string | string[]) {
+  const rows = new Map<string, any>();
+  const clone = (value: any) => (value === undefined ? undefined : JSON.parse(JSON.stringify(value)));
+  const keyOf = (row: any) => JSON.stringify(Array.isArray(primaryKey) ? primaryKey.map((field) => row[field]) : row[primaryKey]);
+
+  return {
+    rows,
+    puts: [] as any[],
+    get: async (key: any) => clone(rows.get(JSON.stringify(key))),
+    bulkGet: async (keys: any[]) => keys.map((key) => clone(rows.get(JSON.stringify(key)))),
+    put: async (row: any) => { rows.set(keyOf(row), clone(row)); },
+    bulkPut: async function (list: any[]) {
+      this.puts.push(...list.map(clone));
+      list.forEach((row) => rows.set(keyOf(row), clone(row)));
+    },
+    delete: async (key: any) => { rows.delete(JSON.stringify(key)); },
+    bulkDelete: async (keys: any[]) => { keys.forEach((key) => rows.delete(JSON.stringify(key))); },
+    where: (field: string) => ({
+      anyOf: (values: any[]) => ({
+        toArray: async () => Array.from(rows.values()).filter((row) => values.includes(row[field])).map(clone),
+      }),
+    }),
+    toArray: async () => Array.from(rows.values()).map(clone),
+    clear: async () => { rows.clear(); },
+  };
+}
+
+describe('tokenize()', () => {
+  it('should keep identifiers whole and split their parts', () => {
+    const tokens = tokenize('ERR_CONNECTION_REFUSED from getUserById in os.path.join');
+
+    expect(tokens).toEqual(expect.arrayContaining([
+      'err_connection_refused', 'connection', 'refused',
+      'getuserbyid', 'get', 'user', 'id',
+      'os.path.join', 'path', 'join',
+    ]));
+  });
+
+  it('should drop stop words', () => {
+    expect(tokenize('the cat and the hat')).toEqual(['cat', 'hat']);
+  });
+});
+
+describe('KeywordIndexService', () => {
+  let crypto: CryptoService;
+  let masterKey: { key: Uint8Array };
+  let db: {
+    keywordPostings: ReturnType<typeof createTable>;
+    keywordDocs: ReturnType<typeof createTable>;
+    metadata: ReturnType<typeof createTable>;
+    transaction: (...args: any[]) => Promise<void>;
+  };
+  let service: KeywordIndexService;
+
+  beforeAll(async () => {
+    crypto = new CryptoService();
+    await crypto.initialize();
+    masterKey = { key: crypto.generateEncryptionKey() };
+  });
+
+  beforeEach(() => {
+    db = {
+      keywordPostings: createTable(['tag', 'memoryId']),
+      keywordDocs: createTable('memoryId'),
+      metadata: createTable('key'),
+      transaction: async (...args: any[]) => args[args.length - 1](),
+    };
+    service = new KeywordIndexService(db as any);
+    service.setMasterKeyProvider(() => masterKey);
+  });
+
+  it('should find exact identifiers', async () => {
+    await service.indexDocument('m1', 'The request failed with ERR_CONNECTION_REFUSED on localhost');
+    await service.indexDocument('m2', 'Networking basics: how TCP connections are established');
+    await service.indexDocument('m3', 'Refactor parseConfigFile to return a Result');
+
+    const results = await service.search('ERR_CONNECTION_REFUSED');
+    expect(results[0].id).toBe('m1');
+
+    const functionResults = await service.search('parseConfigFile');
+    expect(functionResults.map((r) => r.id)).toEqual(['m3']);
+  });
+
+  it('should rank documents with rarer and more frequent terms higher', async () => {
+    await service.indexDocument('m1', 'rust lifetimes lifetimes borrow checker');
+    await service.indexDocument('m2', 'rust traits and generics');
+    await service.indexDocument('m3', 'rust macros');
+
+    const results = await service.search('rust lifetimes');
+
+    expect(results[0].id).toBe('m1');
+    expect(results).toHaveLength(3);
+    expect(results[0].score).toBeGreaterThan(results[1].score);
+  });
+
+  it('should never store plaintext tokens', async () => {
+    await service.indexDocument('m1', 'supersecretpassword');
+
+    const stored = JSON.stringify([
+      await db.keywordPostings.toArray(),
+      await db.keywordDocs.toArray(),
+    ]);
+    expect(stored).not.toContain('supersecretpassword');
+    expect(db.keywordPostings.rows.size).toBe(1);
+  });
+
+  it('should replace postings when a document is re-indexed', async () => {
+    await service.indexDocument('m1', 'alpha');
+    await service.indexDocument('m1', 'beta');
+
+    expect(await service.search('alpha')).toEqual([]);
+    expect((await service.search('beta')).map((r) => r.id)).toEqual(['m1']);
+    expect(db.keywordPostings.rows.size).toBe(1);
+  });
+
+  it('should remove only the postings of removed documents', async () => {
+    await service.indexDocument('m1', 'alpha shared');
+    await service.indexDocument('m2', 'beta shared');
+
+    await service.removeDocument('m1');
+
+    expect((await service.search('shared')).map((r) => r.id)).toEqual(['m2']);
+    expect(await service.getIndexedIds()).toEqual(new Set(['m2']));
+    expect(db.keywordPostings.rows.size).toBe(2);
+  });
+
+  it('should write only the indexed memory\'s postings, even for common tokens', async () => {
+    await service.indexDocument('m1', 'shared alpha');
+    await service.indexDocument('m2', 'shared beta');
+    db.keywordPostings.puts.length = 0;
+
+    await service.indexDocument('m3', 'shared gamma');
+
+    expect(db.keywordPostings.puts.map((entry) => entry.memoryId)).toEqual(['m3', 'm3']);
+    expect((await service.search('shared')).map((r) => r.id).sort()).toEqual(['m1', 'm2', 'm3']);
+  });
+
+  it('should skip indexing without a master key', async () => {
+    service.setMasterKeyProvider(() => null);
+
+    await service.indexDocument('m1', 'alpha');
+
+    expect(service.isReady()).toBe(false);
+    expect(db.keywordDocs.rows.size).toBe(0);
+    expect(await service.search('alpha')).toEqual([]);
+  });
+
+  it('should clear the index when the master key changes', async () => {
+    expect(await service.ensureKeyMatches()).toBe(false);
+    await service.indexDocument('m1', 'alpha');
+    expect(await service.ensureKeyMatches()).toBe(true);
+
+    service.setMasterKeyProvider(() => ({ key: crypto.generateEncryptionKey() }));
+
+    expect(await service.ensureKeyMatches()).toBe(false);
+    expect(db.keywordDocs.rows.size).toBe(0);
+  });
+});
+
+describe('reciprocalRankFusion()', () => {
+  it('should favour results ranked by both retrievers', () => {
+    const fused = reciprocalRankFusion([
+      ['a', 'b', 'c'],
+      ['d', 'b', 'a'],
+    ]);
+
+    expect(fused.map((r) => r.id)).toEqual(['a', 'b', 'd', 'c']);
+    expect(fused[0].score).toBeCloseTo(1 / 61 + 1 / 63);
+  });
+
+  it('should keep results found by only one retriever', () => {
+    expect(reciprocalRankFusion([['a'], []]).map((r) => r.id)).toEqual(['a']);
+  });
+});
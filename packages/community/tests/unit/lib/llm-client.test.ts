@@ -0,0 +1,159 @@
+/**
+ * LLM Client Unit Tests
+ * Tests for provider requests, timeouts and rate-limit holds
+ */
+
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import type { EnrichmentConfig } from '@engram/core';
+import { LLMClient, resolveLocalEndpoint } from '../../../src/lib/llm-client';
+
+const fetchMock = jest.fn() as jest.MockedFunction<typeof fetch>;
+global.fetch = fetchMock;
+
+function config(overrides: Partial<EnrichmentConfig> = {}): EnrichmentConfig {
+  return { enabled: true, provider: 'openai', model: 'gpt-4o-mini', apiKey: 'sk-test', batchSize: 5, ...overrides };
+}
+
+function reply(body: unknown, status = 200, headers: Record<string, string> = {}): Response {
+  return {
+    ok: status >= 200 && status < 300,
+    status,
+    headers: new Headers(headers),
+    json: async () => body,
+    text: async () => JSON.stringify(body),
+  } as Response;
+}
+
+function requestBody(call = 0): any {
+  return JSON.parse(fetchMock.mock.calls[call][1]?.body as string);
+}
+
+describe('resolveLocalEndpoint()', () => {
+  it('should complete the chat completions path', () => {
+    expect(resolveLocalEndpoint('http://localhost:11434')).toBe('http://localhost:11434/v1/chat/completions');
+    expect(resolveLocalEndpoint('http://localhost:11434/')).toBe('http://localhost:11434/v1/chat/completions');
+    expect(resolveLocalEndpoint(' http://localhost:1234/v1 ')).toBe('http://localhost:1234/v1/chat/completions');
+    expect(resolveLocalEndpoint('http://host/v1/chat/completions')).toBe('http://host/v1/chat/completions');
+  });
+});
+
+describe('LLMClient', () => {
+  let client: LLMClient;
+
+  beforeEach(() => {
+    fetchMock.mockReset();
+    client = new LLMClient();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should send OpenAI requests with the system prompt, JSON mode and usage', async () => {
+    fetchMock.mockResolvedValue(reply({
+      choices: [{ message: { content: '{"a":1}' } }],
+      usage: { prompt_tokens: 10, completion_tokens: 5, total_tokens: 15 },
+    }));
+
+    const result = await client.complete(config(), { system: 'Be brief', prompt: 'Hello', json: true, maxTokens: 50 });
+
+    expect(fetchMock).toHaveBeenCalledWith('https://api.openai.com/v1/chat/completions', expect.objectContaining({
+      headers: expect.objectContaining({ Authorization: 'Bearer sk-test' }),
+      signal: expect.any(AbortSignal),
+    }));
+    expect(requestBody()).toEqual(expect.objectContaining({
+      model: 'gpt-4o-mini',
+      messages: [{ role: 'system', content: 'Be brief' }, { role: 'user', content: 'Hello' }],
+      response_format: { type: 'json_object' },
+      max_tokens: 50,
+    }));
+    expect(result).toEqual({ text: '{"a":1}', usage: { inputTokens: 10, outputTokens: 5, totalTokens: 15 } });
+  });
+
+  it('should send Anthropic requests with a top-level system prompt', async () => {
+    fetchMock.mockResolvedValue(reply({
+      content: [{ type: 'text', text: 'Hi' }],
+      usage: { input_tokens: 8, output_tokens: 2 },
+    }));
+
+    const result = await client.complete(
+      config({ provider: 'anthropic', model: 'claude-3-haiku-20240307' }),
+      { system: 'Be brief', prompt: 'Hello' }
+    );
+
+    expect(fetchMock.mock.calls[0][0]).toBe('https://api.anthropic.com/v1/messages');
+    expect(requestBody()).toEqual(expect.objectContaining({
+      system: 'Be brief',
+      max_tokens: 1024,
+      messages: [{ role: 'user', content: 'Hello' }],
+    }));
+    expect(result).toEqual({ text: 'Hi', usage: { inputTokens: 8, outputTokens: 2, totalTokens: 10 } });
+  });
+
+  it('should send local requests to the resolved endpoint without usage', async () => {
+    fetchMock.mockResolvedValue(reply({
+      choices: [{ message: { content: 'Hi' } }],
+      usage: { prompt_tokens: 1, completion_tokens: 1, total_tokens: 2 },
+    }));
+
+    const result = await client.complete(
+      config({ provider: 'local', model: '', apiKey: undefined, localEndpoint: 'http://localhost:11434' }),
+      { prompt: 'Hello' }
+    );
+
+    expect(fetchMock.mock.calls[0][0]).toBe('http://localhost:11434/v1/chat/completions');
+    expect(requestBody()).toEqual(expect.objectContaining({ model: 'llama3.2', stream: false }));
+    expect(result).toEqual({ text: 'Hi', usage: undefined });
+  });
+
+  it('should reject providers it cannot call', async () => {
+    await expect(client.complete(config({ provider: 'premium' }), { prompt: 'Hello' })).rejects.toThrow(
+      'Unsupported provider: premium'
+    );
+    await expect(client.complete(config({ provider: 'local' }), { prompt: 'Hello' })).rejects.toThrow(
+      'Local endpoint not configured'
+    );
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('should report HTTP errors with the status', async () => {
+    fetchMock.mockResolvedValue(reply({ error: 'bad key' }, 401));
+
+    await expect(client.complete(config(), { prompt: 'Hello' })).rejects.toThrow('OpenAI API error (401)');
+  });
+
+  it('should abort requests that exceed the timeout', async () => {
+    jest.useFakeTimers();
+    let signal: AbortSignal | undefined;
+    fetchMock.mockImplementation((_url, init) => {
+      signal = init?.signal ?? undefined;
+      return new Promise(() => {});
+    });
+
+    const result = client.complete(config(), { prompt: 'Hello', timeoutMs: 500 });
+    const assertion = expect(result).rejects.toThrow('OpenAI request timed out after 500ms');
+    await jest.advanceTimersByTimeAsync(500);
+
+    await assertion;
+    expect(signal?.aborted).toBe(true);
+  });
+
+  it('should hold a provider for its Retry-After delay after a 429', async () => {
+    jest.useFakeTimers({ now: 1_000_000 });
+    fetchMock.mockResolvedValue(reply({ error: 'slow down' }, 429, { 'retry-after': '20' }));
+
+    await expect(client.complete(config(), { prompt: 'Hello' })).rejects.toThrow('OpenAI API error (429)');
+    await expect(client.complete(config(), { prompt: 'Hello' })).rejects.toThrow('rate limit reached, retry in 20s');
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+
+    // Other providers are unaffected
+    fetchMock.mockResolvedValue(reply({ content: [{ type: 'text', text: 'Hi' }] }));
+    await expect(client.complete(config({ provider: 'anthropic' }), { prompt: 'Hello' })).resolves.toEqual(
+      expect.objectContaining({ text: 'Hi' })
+    );
+
+    jest.setSystemTime(1_000_000 + 20_000);
+    fetchMock.mockResolvedValue(reply({ choices: [{ message: { content: 'Back' } }] }));
+    await expect(client.complete(config(), { prompt: 'Hello' })).resolves.toEqual(expect.objectContaining({ text: 'Back' }));
+  });
+});
@@ -0,0 +1,158 @@
+/**
+ * Markdown Exporter Unit Tests
+ * Tests for Obsidian vault export of conversations
+ */
+
+import { describe, it, expect, beforeAll, jest } from '@jest/globals';
+import { MarkdownExporter, VAULT_FOLDER } from '../../../src/lib/markdown-exporter';
+import { CryptoService } from '../../../src/lib/crypto-service';
+import type { Conversation, MemoryWithMemA, MessageMetadata } from '@engram/core';
+
+describe('MarkdownExporter', () => {
+  let crypto: CryptoService;
+  let key: Uint8Array;
+
+  async function createStoredMemory(
+    id: string,
+    conversationId: string,
+    role: 'user' | 'assistant',
+    text: string,
+    extra: Partial<MemoryWithMemA> = {},
+    metadata: MessageMetadata = {}
+  ): Promise<MemoryWithMemA> {
+    const encryptedContent = await crypto.encrypt(JSON.stringify({ role, text, metadata }), key);
+    return {
+      id,
+      conversationId,
+      platform: 'claude',
+      content: { role, text: null as any, metadata: null as any },
+      timestamp: 1700000000000,
+      vectorClock: {},
+      deviceId: 'device-1',
+      syncStatus: 'synced',
+      tags: [],
+      encryptedContent,
+      ...extra,
+    } as MemoryWithMemA;
+  }
+
+  function createExporter(memories: MemoryWithMemA[], conversations: Conversation[]) {
+    const storage = {
+      getMemories: jest.fn<any>().mockResolvedValue(memories),
+      getConversations: jest.fn<any>().mockResolvedValue(conversations),
+    };
+    return new MarkdownExporter(storage as any, crypto);
+  }
+
+  const conversation = (id: string, title?: string, createdAt = 1700000000000): Conversation => ({
+    id,
+    platform: 'claude',
+    title,
+    createdAt,
+    lastMessageAt: createdAt,
+    messageCount: 2,
+    tags: ['work'],
+  });
+
+  beforeAll(async () => {
+    crypto = new CryptoService();
+    await crypto.initialize();
+    key = crypto.generateEncryptionKey();
+  });
+
+  it('should write one note per conversation with YAML front-matter', async () => {
+    const memories = [
+      await createStoredMemory('m1', 'c1', 'user', 'How do lifetimes work?', { tags: ['rust lang'], keywords: ['lifetimes'] }),
+      await createStoredMemory('m2', 'c1', 'assistant', 'They bound references.', { timestamp: 1700000001000, keywords: ['borrowing'] }),
+    ];
+    const exporter = createExporter(memories, [conversation('c1', 'Rust: lifetimes?')]);
+
+    const result = await exporter.exportVault({ key });
+
+    expect(result.files).toHaveLength(1);
+    expect(result.memories).toBe(2);
+
+    const [file] = result.files;
+    expect(file.path).toBe(`${VAULT_FOLDER}/Rust lifetimes.md`);
+    expect(file.content).toMatch(/^---\ntitle: "Rust: lifetimes\?"\nplatform: "claude"\n/);
+    expect(file.content).toContain('createdAt: "2023-11-14T22:13:20.000Z"');
+    expect(file.content).toContain('tags: ["work", "rust-lang"]');
+    expect(file.content).toContain('keywords: ["lifetimes", "borrowing"]');
+    expect(file.content.indexOf('How do lifetimes work?')).toBeLessThan(file.content.indexOf('They bound references.'));
+    expect(file.content).toContain('^m1');
+  });
+
+  it('should fence code blocks with their language', async () => {
+    const memories = [
+      await createStoredMemory('m1', 'c1', 'assistant', 'Use this:\nfn main() {}\nDone.', {}, {
+        codeBlocks: [
+          { language: 'rust', code: 'fn main() {}' },
+          { language: 'bash', code: 'cargo run' },
+        ],
+      }),
+    ];
+    const exporter = createExporter(memories, [conversation('c1', 'Code')]);
+
+    const { files } = await exporter.exportVault({ key });
+
+    expect(files[0].content).toContain('Use this:\n\n```rust\nfn main() {}\n```\n\nDone.');
+    expect(files[0].content).toContain('```bash\ncargo run\n```');
+  });
+
+  it('should turn semantic links into wikilinks between notes', async () => {
+    const memories = [
+      await createStoredMemory('m1', 'c1', 'assistant', 'First', {
+        links: [
+          { memoryId: 'm2', score: 0.9, createdAt: 1 },
+          { memoryId: 'deleted', score: 0.95, createdAt: 1 },
+        ],
+      }),
+      await createStoredMemory('m2', 'c2', 'assistant', 'Second'),
+    ];
+    const exporter = createExporter(memories, [
+      conversation('c1', 'Alpha'),
+      conversation('c2', 'Beta', 1700000005000),
+    ]);
+
+    const { files } = await exporter.exportVault({ key });
+    const alpha = files.find((f) => f.path.endsWith('Alpha.md'))!;
+
+    expect(alpha.content).toContain('Related: [[Beta#^m2|Beta]]');
+    expect(alpha.content).not.toContain('deleted');
+  });
+
+  it('should give conversations with the same title unique note names', async () => {
+    const memories = [
+      await createStoredMemory('m1', 'c1', 'user', 'One'),
+      await createStoredMemory('m2', 'c2', 'user', 'Two'),
+    ];
+    const exporter = createExporter(memories, [
+      conversation('c1', 'Notes'),
+      conversation('c2', 'Notes', 1700000005000),
+    ]);
+
+    const { files } = await exporter.exportVault({ key });
+
+    expect(files.map((f) => f.path)).toEqual([`${VAULT_FOLDER}/Notes.md`, `${VAULT_FOLDER}/Notes (2).md`]);
+  });
+
+  it('should export memories without a conversation record', async () => {
+    const memories = [await createStoredMemory('m1', 'orphan', 'user', 'Untracked question')];
+    const exporter = createExporter(memories, []);
+
+    const { files } = await exporter.exportVault({ key });
+
+    expect(files).toHaveLength(1);
+    expect(files[0].path).toBe(`${VAULT_FOLDER}/Untracked question.md`);
+  });
+
+  it('should skip memories that cannot be decrypted', async () => {
+    const memories = [await createStoredMemory('m1', 'c1', 'user', 'Secret')];
+    const exporter = createExporter(memories, [conversation('c1', 'Secret')]);
+
+    const result = await exporter.exportVault({ key: crypto.generateEncryptionKey() });
+
+    expect(result.files).toHaveLength(0);
+    expect(result.skipped).toBe(1);
+  });
+});
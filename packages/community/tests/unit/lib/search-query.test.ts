@@ -0,0 +1,135 @@
+/**
+ * Search Query Unit Tests
+ * Tests for the structured memory search grammar
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  compareSearchPositions,
+  decodeSearchCursor,
+  encodeSearchCursor,
+  hasStructuredClauses,
+  matchesContentClauses,
+  mergeFilters,
+  parseSearchQuery,
+} from '../../../src/lib/search-query';
+import { createMemory } from '../../__fixtures__/memories';
+
+describe('parseSearchQuery()', () => {
+  it('should compile fields into a MemoryFilter', () => {
+    const query = parseSearchQuery('platform:Claude tag:rust tag:"machine learning" role:assistant conversation:conv-1');
+
+    expect(query.filter).toEqual({
+      platform: 'claude',
+      tags: ['rust', 'machine learning'],
+      role: 'assistant',
+      conversationId: 'conv-1',
+    });
+    expect(query.text).toBe('');
+  });
+
+  it('should turn dates into an inclusive local-time range', () => {
+    const query = parseSearchQuery('after:2026-01-01 before:2026-02-01');
+
+    expect(query.filter.startDate).toBe(new Date(2026, 0, 1).getTime());
+    expect(query.filter.endDate).toBe(new Date(2026, 1, 1).getTime() - 1);
+  });
+
+  it('should cover a whole day with on:', () => {
+    const query = parseSearchQuery('on:2026-03-15');
+
+    expect(query.filter.startDate).toBe(new Date(2026, 2, 15).getTime());
+    expect(query.filter.endDate).toBe(new Date(2026, 2, 16).getTime() - 1);
+  });
+
+  it('should separate phrases, exclusions and free text', () => {
+    const query = parseSearchQuery('borrow checker "exact Phrase" -excluded -"not this" has:code');
+
+    expect(query.text).toBe('borrow checker exact Phrase');
+    expect(query.phrases).toEqual(['exact phrase']);
+    expect(query.excluded).toEqual(['excluded', 'not this']);
+    expect(query.has).toEqual(['code']);
+  });
+
+  it('should keep unknown fields as free text', () => {
+    const query = parseSearchQuery('std::vector http://localhost:3000');
+
+    expect(query.text).toBe('std::vector http://localhost:3000');
+    expect(hasStructuredClauses(query)).toBe(false);
+  });
+
+  it('should reject invalid values', () => {
+    expect(() => parseSearchQuery('platform:myspace')).toThrow('Unknown platform "myspace"');
+    expect(() => parseSearchQuery('role:robot')).toThrow('Unknown role');
+    expect(() => parseSearchQuery('after:yesterday')).toThrow('Invalid date for after');
+    expect(() => parseSearchQuery('after:2026-02-30')).toThrow('Invalid date for after');
+    expect(() => parseSearchQuery('has:images')).toThrow('Unknown feature "has:images"');
+    expect(() => parseSearchQuery('-platform:claude')).toThrow('Negated filters are not supported');
+  });
+});
+
+describe('matchesContentClauses()', () => {
+  const memory = createMemory();
+
+  it('should require phrases and reject exclusions case-insensitively', () => {
+    const query = parseSearchQuery('"Borrow Checker" -unsafe');
+
+    expect(matchesContentClauses(query, memory, { text: 'The borrow checker complains' })).toBe(true);
+    expect(matchesContentClauses(query, memory, { text: 'borrow the checker' })).toBe(false);
+    expect(matchesContentClauses(query, memory, { text: 'Borrow checker and UNSAFE code' })).toBe(false);
+  });
+
+  it('should check has: features', () => {
+    const query = parseSearchQuery('has:code has:links');
+    const linked = { ...memory, links: [{ memoryId: 'm2', score: 0.9, createdAt: 1 }] };
+    const withCode = { text: 'x', metadata: { codeBlocks: [{ language: 'rust', code: 'fn main() {}' }] } };
+
+    expect(matchesContentClauses(query, linked, withCode)).toBe(true);
+    expect(matchesContentClauses(query, memory, withCode)).toBe(false);
+    expect(matchesContentClauses(query, linked, { text: 'x', metadata: {} })).toBe(false);
+  });
+});
+
+describe('mergeFilters()', () => {
+  it('should accumulate tags, intersect dates and drop pagination', () => {
+    const merged = mergeFilters(
+      { conversationId: 'c1', tags: ['rust'], startDate: 100, endDate: 500, limit: 10, offset: 20 },
+      { tags: ['async'], startDate: 200, endDate: 900, platform: 'claude' }
+    );
+
+    expect(merged).toEqual({
+      conversationId: 'c1',
+      platform: 'claude',
+      tags: ['rust', 'async'],
+      startDate: 200,
+      endDate: 500,
+    });
+  });
+});
+
+describe('compareSearchPositions()', () => {
+  it('should order by score, highest first, then by ID', () => {
+    const positions = [
+      { score: 1, id: 'b' },
+      { score: 2, id: 'c' },
+      { score: 1, id: 'a' },
+    ];
+
+    expect(positions.sort(compareSearchPositions).map((position) => position.id)).toEqual(['c', 'a', 'b']);
+  });
+});
+
+describe('search cursors', () => {
+  it('should round-trip the position for the same search', () => {
+    const cursor = encodeSearchCursor({ score: 0.25, id: 'mem-40' }, 'tag:rust', { tags: ['rust'] });
+
+    expect(decodeSearchCursor(cursor, 'tag:rust', { tags: ['rust'] })).toEqual({ score: 0.25, id: 'mem-40' });
+  });
+
+  it('should reject cursors from another search or garbage', () => {
+    const cursor = encodeSearchCursor({ score: 0.25, id: 'mem-40' }, 'tag:rust', { tags: ['rust'] });
+
+    expect(() => decodeSearchCursor(cursor, 'tag:go', { tags: ['go'] })).toThrow('Invalid search cursor');
+    expect(() => decodeSearchCursor('not-a-cursor', 'tag:rust', {})).toThrow('Invalid search cursor');
+  });
+});
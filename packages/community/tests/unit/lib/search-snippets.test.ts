@@ -0,0 +1,135 @@
+/**
+ * Search Snippets Unit Tests
+ * Tests for passage selection and highlight offsets
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  buildKeywordSnippets,
+  buildSearchHits,
+  findTermMatches,
+  highlightTerms,
+} from '../../../src/lib/search-snippets';
+import { parseSearchQuery } from '../../../src/lib/search-query';
+import { chunkText } from '../../../src/lib/text-chunker';
+
+const filler = (words: number) => Array.from({ length: words }, (_, i) => `word${i}`).join(' ');
+
+function createMemory(id: string, text: string): any {
+  return { id, content: { role: 'user', text } };
+}
+
+describe('Search Snippets', () => {
+  describe('highlightTerms()', () => {
+    it('should include phrases and identifier parts, longest first', () => {
+      const terms = highlightTerms(parseSearchQuery('"borrow checker" getUserById'));
+
+      expect(terms[0]).toBe('borrow checker');
+      expect(terms).toEqual(expect.arrayContaining(['getuserbyid', 'user']));
+      expect(terms).not.toContain('id');
+    });
+  });
+
+  describe('findTermMatches()', () => {
+    it('should match case-insensitively at word and camelCase boundaries', () => {
+      const text = 'Rust users trust getUserById';
+
+      const matches = findTermMatches(text, ['user', 'rust']);
+
+      expect(matches.map((m) => text.slice(m.start, m.end))).toEqual(['Rust', 'user', 'User']);
+    });
+
+    it('should prefer the longest term at a position', () => {
+      const text = 'os.path.join(a, b)';
+
+      const matches = findTermMatches(text, ['os.path.join', 'path']);
+
+      expect(matches).toEqual([{ start: 0, end: 12 }]);
+    });
+  });
+
+  describe('buildKeywordSnippets()', () => {
+    it('should return short texts whole with highlight offsets', () => {
+      const [snippet] = buildKeywordSnippets('Tokio runtime panicked', ['tokio']);
+
+      expect(snippet).toEqual({
+        text: 'Tokio runtime panicked',
+        start: 0,
+        highlights: [{ start: 0, end: 5 }],
+      });
+    });
+
+    it('should center the window on matches deep in long texts', () => {
+      const text = `${filler(60)} the lifetime error appears here ${filler(60)}`;
+
+      const [snippet] = buildKeywordSnippets(text, ['lifetime'], 80);
+
+      expect(snippet.start).toBeGreaterThan(0);
+      expect(snippet.text).toContain('lifetime error');
+      expect(snippet.text.length).toBeLessThanOrEqual(80);
+      expect(text.slice(snippet.start, snippet.start + snippet.text.length)).toBe(snippet.text);
+
+      const [highlight] = snippet.highlights;
+      expect(snippet.text.slice(highlight.start, highlight.end)).toBe('lifetime');
+    });
+
+    it('should prefer windows with more distinct terms and return separate passages', () => {
+      const text = `alpha ${filler(40)} alpha beta together ${filler(40)} gamma`;
+
+      const snippets = buildKeywordSnippets(text, ['alpha', 'beta', 'gamma'], 60);
+
+      expect(snippets).toHaveLength(2);
+      expect(snippets.some((s) => s.text.includes('alpha beta'))).toBe(true);
+      expect(snippets[0].start).toBeLessThan(snippets[1].start);
+      expect(snippets[0].start + snippets[0].text.length).toBeLessThanOrEqual(snippets[1].start);
+    });
+
+    it('should fall back to the leading passage without matches', () => {
+      const text = filler(100);
+
+      const [snippet] = buildKeywordSnippets(text, ['missing'], 50);
+
+      expect(snippet.start).toBe(0);
+      expect(snippet.highlights).toEqual([]);
+      expect(text.startsWith(snippet.text)).toBe(true);
+    });
+  });
+
+  describe('buildSearchHits()', () => {
+    it('should show the chunk the vector index matched for semantic-only hits', () => {
+      const text = filler(400);
+      const chunk = chunkText(text)[1];
+
+      const [hit] = buildSearchHits(
+        parseSearchQuery('executor'),
+        [createMemory('m1', text)],
+        new Map([['m1', { fused: 0.01, semantic: 0.8, chunk: 1 }]])
+      );
+
+      expect(hit.score).toEqual({ fused: 0.01, semantic: 0.8, chunk: 1 });
+      expect(hit.snippets).toHaveLength(1);
+      expect(hit.snippets[0].start).toBe(chunk.start);
+      expect(chunk.text.startsWith(hit.snippets[0].text)).toBe(true);
+    });
+
+    it('should prefer keyword matches over the matched chunk', () => {
+      const [hit] = buildSearchHits(
+        parseSearchQuery('tokio'),
+        [createMemory('m1', `tokio ${filler(400)}`)],
+        new Map([['m1', { fused: 0.02, lexical: 1.5, semantic: 0.7, chunk: 1 }]])
+      );
+
+      expect(hit.snippets[0].highlights).toEqual([{ start: 0, end: 5 }]);
+    });
+
+    it('should use the leading passage without a matched chunk', () => {
+      const [hit] = buildSearchHits(
+        parseSearchQuery('executor'),
+        [createMemory('m1', filler(400))],
+        new Map([['m1', { fused: 0.01, semantic: 0.8 }]])
+      );
+
+      expect(hit.snippets[0].start).toBe(0);
+    });
+  });
+});
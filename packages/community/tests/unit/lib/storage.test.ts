@@ -5,7 +5,11 @@
 
 import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
 import { StorageService } from '../../../src/lib/storage';
+import { getEmbeddingService } from '../../../src/lib/embedding-service';
 import { createMemory, createEnrichedMemory } from '../../__fixtures__/memories';
+import { CryptoService } from '../../../src/lib/crypto-service';
+import { parseSearchQuery } from '../../../src/lib/search-query';
+import { getEmbeddingModel } from '../../../src/lib/embedding-models';
 import { Memory, UUID, Conversation, SyncOperation } from '@engram/core';
 
 // Mock dependencies (Dexie is mocked via moduleNameMapper in jest.config.js)
@@ -94,6 +98,7 @@ describe('StorageService', () => {
       }
       return null;
     });
+    (getEmbeddingService as jest.Mock<any>).mockReturnValue({ setModel: jest.fn(), setHNSWIndex: jest.fn() });
 
     await storage.initialize();
   });
@@ -221,6 +226,29 @@ describe('StorageService', () => {
 
         expect(result).toHaveLength(5);
       });
+
+      it('should leave out unselected message versions when asked', async () => {
+        const shown = { ...createMemory(), branchIndex: 1, branchSelected: true };
+        const hidden = { ...createMemory(), branchIndex: 0, branchSelected: false };
+        mockMemoriesTable.toArray.mockResolvedValueOnce([shown, hidden]).mockResolvedValueOnce([shown, hidden]);
+
+        expect(await storage.getMemories({ branches: 'selected' })).toEqual([shown]);
+        expect(await storage.getMemories({})).toHaveLength(2);
+      });
+    });
+
+    describe('getUnsyncedMemories()', () => {
+      it('should query pending and failed memories, oldest first', async () => {
+        const newer = createMemory({ id: 'newer' as any, timestamp: 2000, syncStatus: 'failed' });
+        const older = createMemory({ id: 'older' as any, timestamp: 1000, syncStatus: 'pending' });
+        mockMemoriesTable.toArray.mockResolvedValueOnce([newer, older]);
+
+        const memories = await storage.getUnsyncedMemories();
+
+        expect(mockMemoriesTable.where).toHaveBeenCalledWith('syncStatus');
+        expect(mockMemoriesTable.anyOf).toHaveBeenCalledWith('pending', 'failed');
+        expect(memories.map((m) => m.id)).toEqual(['older', 'newer']);
+      });
     });
 
     describe('updateMemory()', () => {
@@ -233,7 +261,21 @@ describe('StorageService', () => {
         const updates = { tags: ['updated', 'test'] };
         await storage.updateMemory(memory.id, updates);
 
-        expect(mockMemoriesTable.update).toHaveBeenCalledWith(memory.id, updates);
+        expect(mockMemoriesTable.update).toHaveBeenCalledWith(memory.id, { ...updates, syncStatus: 'pending' });
+      });
+
+      it('should mark edited memories for upload, but not local bookkeeping', async () => {
+        const memory = createMemory({ syncStatus: 'synced' });
+
+        await storage.updateMemory(memory.id, { tags: ['edited'] }, { remote: true });
+        await storage.updateMemory(memory.id, { syncStatus: 'synced' });
+        expect(mockMemoriesTable.update.mock.calls.map(([, stored]: any) => stored.syncStatus)).toEqual([
+          undefined,
+          'synced',
+        ]);
+
+        await storage.updateMemory(memory.id, { tags: ['edited'] });
+        expect(mockMemoriesTable.update).toHaveBeenLastCalledWith(memory.id, { tags: ['edited'], syncStatus: 'pending' });
       });
 
       it('should throw error when memory not found', async () => {
@@ -266,6 +308,66 @@ describe('StorageService', () => {
       });
     });
 
+    describe('local change recording', () => {
+      let recorder: any;
+
+      beforeEach(() => {
+        recorder = {
+          recordLocalAdd: jest.fn<any>().mockResolvedValue(undefined),
+          recordLocalEdit: jest.fn(async (memory: any, updates: any) => ({
+            ...memory,
+            ...updates,
+            vectorClock: { 'device-1': 2 },
+            crdt: { tags: {}, removedTags: {}, registers: {}, removedLinks: [] },
+          })),
+          recordLocalDelete: jest.fn<any>().mockResolvedValue(undefined),
+        };
+        storage.setLocalChangeRecorder(recorder);
+      });
+
+      it('should record new memories, edits and deletes', async () => {
+        const memory = createMemory({ id: 'mem-1' as UUID });
+
+        await storage.saveMemory(memory);
+        mockMemoriesTable.get.mockResolvedValue(memory);
+        await storage.updateMemory(memory.id, { tags: ['rust'] });
+        await storage.deleteMemory(memory.id);
+
+        expect(recorder.recordLocalAdd).toHaveBeenCalledWith(memory);
+        expect(recorder.recordLocalEdit).toHaveBeenCalledWith(memory, { tags: ['rust'] });
+        expect(mockMemoriesTable.update).toHaveBeenCalledWith(memory.id, {
+          tags: ['rust'],
+          vectorClock: { 'device-1': 2 },
+          crdt: expect.any(Object),
+          syncStatus: 'pending',
+        });
+        expect(recorder.recordLocalDelete).toHaveBeenCalledWith(memory.id);
+      });
+
+      it('should not record changes received from other devices', async () => {
+        const memory = createMemory({ id: 'mem-1' as UUID });
+
+        await storage.saveMemory(memory, undefined, { remote: true });
+        mockMemoriesTable.get.mockResolvedValue(memory);
+        await storage.updateMemory(memory.id, { tags: ['rust'] }, { remote: true });
+        await storage.deleteMemory(memory.id, { remote: true });
+
+        expect(recorder.recordLocalAdd).not.toHaveBeenCalled();
+        expect(recorder.recordLocalEdit).not.toHaveBeenCalled();
+        expect(recorder.recordLocalDelete).not.toHaveBeenCalled();
+      });
+
+      it('should not record changes to fields only this device uses', async () => {
+        const memory = createMemory({ id: 'mem-1' as UUID });
+        mockMemoriesTable.get.mockResolvedValue(memory);
+
+        await storage.updateMemory(memory.id, { syncStatus: 'synced' });
+
+        expect(recorder.recordLocalEdit).not.toHaveBeenCalled();
+        expect(mockMemoriesTable.update).toHaveBeenCalledWith(memory.id, { syncStatus: 'synced' });
+      });
+    });
+
     describe('bulkSaveMemories()', () => {
       it('should save multiple memories in bulk', async () => {
         const memories = [createMemory(), createMemory(), createMemory()];
@@ -283,6 +385,73 @@ describe('StorageService', () => {
         await expect(storage.bulkSaveMemories(memories)).rejects.toThrow('Bulk save failed');
       });
     });
+
+    describe('processImportedMemories()', () => {
+      it('should embed plaintext and persist memories without plaintext', async () => {
+        const embeddedTexts: string[] = [];
+        const regenerateEmbedding = jest.fn<any>().mockImplementation(async (memory: any) => {
+          embeddedTexts.push(memory.content.text);
+          return { ...memory, embedding: [0.1, 0.2, 0.3] };
+        });
+        (getEmbeddingService as jest.Mock<any>).mockReturnValue({ regenerateEmbedding });
+
+        const memory = createMemory({ content: { role: 'user', text: null as any, metadata: null as any } });
+        const plaintextContent = { role: 'user', text: 'How do I use Rust lifetimes?', metadata: {} };
+        const onProgress = jest.fn();
+
+        const stats = await storage.processImportedMemories([{ memory, plaintextContent }], onProgress);
+
+        expect(stats).toEqual({ processed: 1, failed: 0 });
+        expect(embeddedTexts).toEqual(['How do I use Rust lifetimes?']);
+        const saved = mockMemoriesTable.put.mock.calls[0][0];
+        expect(saved.content.text).toBeNull();
+        expect(saved.embedding).toBeInstanceOf(Float32Array);
+        expect(onProgress).toHaveBeenCalledWith(1, 1);
+      });
+
+      it('should encrypt and index chunk embeddings of long memories', async () => {
+        const crypto = new CryptoService();
+        await crypto.initialize();
+        const masterKey = { key: crypto.generateEncryptionKey() };
+        storage.setMasterKeyProvider(() => masterKey);
+
+        const chunkEmbeddings = [new Array(384).fill(0.1), new Array(384).fill(0.2)];
+        const regenerateEmbedding = jest.fn<any>().mockImplementation(async (memory: any) => ({
+          ...memory,
+          embedding: new Array(384).fill(0.15),
+          chunkEmbeddings,
+        }));
+        (getEmbeddingService as jest.Mock<any>).mockReturnValue({ regenerateEmbedding });
+        const addChunks = jest.fn<any>().mockResolvedValue(undefined);
+        storage['hnswIndexService'] = { addChunks, isReady: () => false } as any;
+
+        const memory = createMemory();
+        await storage.processImportedMemories([{ memory, plaintextContent: { role: 'assistant', text: 'Long answer' } }]);
+
+        const saved = mockMemoriesTable.put.mock.calls[0][0];
+        const bytes = await crypto.decrypt(saved.encryptedChunkEmbeddings, masterKey.key);
+        expect(bytes.byteLength).toBe(2 * 384 * 4);
+        expect(saved.chunkEmbeddings).toBeUndefined();
+        expect(addChunks).toHaveBeenCalledWith(memory.id, [expect.any(Float32Array), expect.any(Float32Array)]);
+      });
+
+      it('should count failures and continue with remaining memories', async () => {
+        const regenerateEmbedding = jest.fn<any>()
+          .mockRejectedValueOnce(new Error('Model not loaded'))
+          .mockResolvedValueOnce({ embedding: [0.1] });
+        (getEmbeddingService as jest.Mock<any>).mockReturnValue({ regenerateEmbedding });
+
+        const items = [createMemory(), createMemory()].map((memory) => ({
+          memory,
+          plaintextContent: { role: 'assistant', text: 'Answer' },
+        }));
+
+        const stats = await storage.processImportedMemories(items);
+
+        expect(stats).toEqual({ processed: 1, failed: 1 });
+        expect(mockMemoriesTable.put).toHaveBeenCalledTimes(1);
+      });
+    });
   });
 
   describe('Conversation Operations', () => {
@@ -433,6 +602,69 @@ describe('StorageService', () => {
         expect(results[0].id).toBe(memory1.id);
       });
 
+      it('should only return the selected version of a message when asked', async () => {
+        const shown = { ...createMemory({ tags: ['rust'] }), parentId: 'mem-root' };
+        const hidden = { ...createMemory({ id: 'mem-root' as any, tags: ['rust'] }), branchSelected: false };
+        mockMemoriesTable.toArray.mockResolvedValueOnce([shown, hidden]);
+
+        const results = await storage.searchMemories('rust', 10, { branches: 'selected' });
+
+        expect(results.map((m) => m.id)).toEqual([shown.id]);
+      });
+
+      it('should fill the page with selected versions when hidden versions outrank them', async () => {
+        // Older versions repeat the query more often, so they fill the top of the ranking
+        const hidden = Array.from({ length: 4 }, (_, i) => ({
+          ...createMemory({ encrypted: false, content: { role: 'user', text: 'rust rust rust' } }),
+          parentId: `mem-root-${i}`,
+          branchSelected: false,
+        }));
+        const shown = Array.from({ length: 3 }, () =>
+          createMemory({ encrypted: false, content: { role: 'user', text: 'rust' } })
+        );
+        mockMemoriesTable.toArray.mockResolvedValue([...shown, ...hidden]);
+
+        // A page of two plus one to detect the next page, as SEARCH_MEMORIES asks
+        const firstPage = await storage.searchMemories('rust', 3, { branches: 'selected' });
+        const secondPage = await storage.searchMemories('rust', 5, { branches: 'selected' });
+
+        // Equal scores rank by ID
+        const shownIds = shown.map((m) => m.id).sort();
+        expect(firstPage.map((m) => m.id)).toEqual(shownIds);
+        expect(secondPage.map((m) => m.id)).toEqual(shownIds);
+      });
+
+      it('should resume after the cursor when memories are added between pages', async () => {
+        const rust = (count: number) =>
+          createMemory({ encrypted: false, content: { role: 'user', text: Array(count).fill('rust').join(' ') } });
+        const memories = [rust(5), rust(4), rust(3), rust(2), rust(1)];
+        mockMemoriesTable.toArray.mockResolvedValue(memories);
+
+        // A page of two plus one to detect the next page, as SEARCH_MEMORIES asks
+        const positions = new Map();
+        const firstPage = (await storage.searchMemories('rust', 3, { positions })).slice(0, 2);
+        const [top, tied] = [rust(6), rust(3)];
+        mockMemoriesTable.toArray.mockResolvedValue([top, ...memories, tied]);
+        const secondPage = await storage.searchMemories('rust', 3, { after: positions.get(firstPage[1].id) });
+
+        expect(firstPage.map((m) => m.id)).toEqual([memories[0].id, memories[1].id]);
+        // A result added above the cursor does not shift the next page
+        expect(secondPage.map((m) => m.id)).toEqual([...[memories[2].id, tied.id].sort(), memories[3].id]);
+      });
+
+      it('should rank deeper to resume far into the ranking', async () => {
+        const memories = Array.from({ length: 10 }, (_, i) =>
+          createMemory({ encrypted: false, content: { role: 'user', text: Array(10 - i).fill('rust').join(' ') } })
+        );
+        mockMemoriesTable.toArray.mockResolvedValue(memories);
+        const positions = new Map();
+        await storage.searchMemories('rust', 10, { positions });
+
+        const page = await storage.searchMemories('rust', 2, { after: positions.get(memories[6].id) });
+
+        expect(page.map((m) => m.id)).toEqual([memories[7].id, memories[8].id]);
+      });
+
       it('should return empty array when no matches', async () => {
         mockMemoriesTable.toArray.mockResolvedValueOnce([]);
 
@@ -446,6 +678,178 @@ describe('StorageService', () => {
 
         await expect(storage.searchMemories('test')).rejects.toThrow('Search failed');
       });
+
+      describe('hybrid search', () => {
+        let crypto: CryptoService;
+
+        beforeEach(async () => {
+          crypto = new CryptoService();
+          await crypto.initialize();
+          const masterKey = { key: crypto.generateEncryptionKey() };
+          storage.setMasterKeyProvider(() => masterKey);
+        });
+
+        async function createEncryptedMemory(text: string): Promise<Memory> {
+          const memory = createMemory();
+          const masterKey = storage['getMasterKeyForEncryption']()!;
+          (memory as any).encryptedContent = await crypto.encrypt(
+            JSON.stringify({ role: 'user', text, metadata: {} }),
+            masterKey.key
+          );
+          return memory;
+        }
+
+        it('should find exact identifiers indexed on save', async () => {
+          const memory = await createEncryptedMemory('Call getUserById before rendering');
+          await storage.saveMemory(memory);
+
+          mockMemoriesTable.toArray.mockResolvedValue([memory]);
+          mockMemoriesTable.bulkGet.mockImplementation(async (ids: UUID[]) =>
+            ids.map((id) => (id === memory.id ? memory : undefined))
+          );
+
+          const results = await storage.searchMemories('getUserById');
+
+          expect(results.map((m) => m.id)).toEqual([memory.id]);
+        });
+
+        it('should index existing memories on first search', async () => {
+          const memory = await createEncryptedMemory('Build failed: ERR_MODULE_NOT_FOUND');
+          mockMemoriesTable.toArray.mockResolvedValue([memory]);
+          mockMemoriesTable.bulkGet.mockResolvedValue([memory]);
+
+          const results = await storage.searchMemories('ERR_MODULE_NOT_FOUND');
+
+          expect(results.map((m) => m.id)).toEqual([memory.id]);
+        });
+
+        it('should fuse keyword and vector rankings', async () => {
+          const lexicalHit = await createEncryptedMemory('Build failed: ERR_MODULE_NOT_FOUND');
+          const semanticHit = await createEncryptedMemory('Node could not resolve an import');
+          const byId = new Map([lexicalHit, semanticHit].map((m) => [m.id, m]));
+          mockMemoriesTable.toArray.mockResolvedValue([lexicalHit, semanticHit]);
+          mockMemoriesTable.bulkGet.mockImplementation(async (ids: UUID[]) => ids.map((id) => byId.get(id)));
+
+          (getEmbeddingService as jest.Mock<any>).mockReturnValue({
+            embed: jest.fn<any>().mockResolvedValue(new Array(384).fill(0.1)),
+          });
+          storage['hnswIndexService'] = {
+            isReady: () => true,
+            search: jest.fn<any>().mockResolvedValue([
+              { id: semanticHit.id, score: 0.9 },
+              { id: lexicalHit.id, score: 0.8 },
+            ]),
+          } as any;
+
+          const results = await storage.searchMemories('ERR_MODULE_NOT_FOUND');
+
+          expect(results.map((m) => m.id)).toEqual([lexicalHit.id, semanticHit.id]);
+        });
+
+        it('should report the lexical and semantic score of each result', async () => {
+          const lexicalHit = await createEncryptedMemory('Build failed: ERR_MODULE_NOT_FOUND');
+          const semanticHit = await createEncryptedMemory('Resolver gave up on the import');
+          const byId = new Map([lexicalHit, semanticHit].map((m) => [m.id, m]));
+          mockMemoriesTable.toArray.mockResolvedValue([lexicalHit, semanticHit]);
+          mockMemoriesTable.bulkGet.mockImplementation(async (ids: UUID[]) => ids.map((id) => byId.get(id)));
+
+          (getEmbeddingService as jest.Mock<any>).mockReturnValue({
+            embed: jest.fn<any>().mockResolvedValue(new Array(384).fill(0.1)),
+          });
+          storage['hnswIndexService'] = {
+            isReady: () => true,
+            search: jest.fn<any>().mockResolvedValue([
+              { id: semanticHit.id, distance: 0.25 },
+              { id: lexicalHit.id, distance: 0.5 },
+            ]),
+          } as any;
+
+          const scores = new Map();
+          await storage.searchMemories('ERR_MODULE_NOT_FOUND', 10, { scores });
+
+          expect(scores.get(lexicalHit.id)).toEqual({
+            fused: expect.any(Number),
+            lexical: expect.any(Number),
+            semantic: 0.5,
+          });
+          expect(scores.get(lexicalHit.id).lexical).toBeGreaterThan(0);
+          expect(scores.get(semanticHit.id)).toEqual(expect.objectContaining({ lexical: undefined, semantic: 0.75 }));
+          expect(scores.get(lexicalHit.id).fused).toBeGreaterThan(scores.get(semanticHit.id).fused);
+        });
+
+        it('should drop deleted memories from the keyword index', async () => {
+          const memory = await createEncryptedMemory('Call getUserById before rendering');
+          await storage.saveMemory(memory);
+          mockMemoriesTable.get.mockResolvedValue(memory);
+
+          await storage.deleteMemory(memory.id);
+
+          expect(await storage['keywordIndexService'].search('getUserById')).toEqual([]);
+        });
+      });
+    });
+
+    describe('queryMemories()', () => {
+      it('should apply filters and phrase clauses without free text', async () => {
+        const match = createMemory({
+          encrypted: false,
+          content: { role: 'assistant', text: 'The borrow checker rejects this' },
+        });
+        const wrongRole = createMemory({
+          encrypted: false,
+          content: { role: 'user', text: 'Why does the borrow checker complain?' },
+        });
+        const noPhrase = createMemory({
+          encrypted: false,
+          content: { role: 'assistant', text: 'Lifetimes bound references' },
+        });
+        mockMemoriesTable.toArray.mockResolvedValueOnce([match, wrongRole, noPhrase]);
+
+        const results = await storage.queryMemories(parseSearchQuery('role:assistant "borrow checker"'));
+
+        expect(results.map((m) => m.id)).toEqual([match.id]);
+      });
+
+      it('should filter ranked text results', async () => {
+        const claude = createMemory({ platform: 'claude', encrypted: false, content: { role: 'user', text: 'rust traits' } });
+        const chatgpt = createMemory({ platform: 'chatgpt', encrypted: false, content: { role: 'user', text: 'rust macros' } });
+        mockMemoriesTable.toArray.mockResolvedValueOnce([claude, chatgpt]);
+
+        const results = await storage.queryMemories(parseSearchQuery('platform:claude rust -macros'));
+
+        expect(results.map((m) => m.id)).toEqual([claude.id]);
+      });
+
+      it('should rank once and load growing slices until enough results pass the filter', async () => {
+        const ranked = Array.from({ length: 20 }, (_, i) =>
+          createMemory({ platform: i < 18 ? 'chatgpt' : 'claude' })
+        );
+        const byId = new Map(ranked.map((memory) => [memory.id, memory]));
+        const rankSpy = jest.spyOn(storage as any, 'rankMemories')
+          .mockImplementation(async () => ({ ids: ranked.map((memory) => memory.id) }));
+        mockMemoriesTable.bulkGet.mockImplementation(async (ids: UUID[]) => ids.map((id) => byId.get(id)));
+
+        const results = await storage.queryMemories(parseSearchQuery('platform:claude rust'), 2);
+
+        expect(results.map((m) => m.id)).toEqual([ranked[18].id, ranked[19].id]);
+        expect(rankSpy).toHaveBeenCalledTimes(1);
+        expect(mockMemoriesTable.bulkGet.mock.calls.map(([ids]: any) => ids.length)).toEqual([2, 8, 10]);
+      });
+
+      it('should not stop widening when hidden versions crowd the ranked window', async () => {
+        const hidden = Array.from({ length: 10 }, () => ({
+          ...createMemory({ platform: 'claude', encrypted: false, content: { role: 'user', text: 'rust rust' } }),
+          branchSelected: false,
+        }));
+        const shown = Array.from({ length: 3 }, () =>
+          createMemory({ platform: 'claude', encrypted: false, content: { role: 'user', text: 'rust' } })
+        );
+        mockMemoriesTable.toArray.mockResolvedValue([...hidden, ...shown]);
+
+        const results = await storage.queryMemories(parseSearchQuery('platform:claude rust'), 3, { branches: 'selected' });
+
+        expect(results.map((m) => m.id)).toEqual(shown.map((m) => m.id).sort());
+      });
     });
 
     describe('updateSearchIndex()', () => {
@@ -517,6 +921,134 @@ describe('StorageService', () => {
     });
   });
 
+  describe('Embedding Model Switch', () => {
+    const bgeBase = getEmbeddingModel('bge-base-en-v1.5');
+
+    beforeEach(() => {
+      mockDb.transaction = jest.fn(async (...args: any[]) => args[args.length - 1]());
+    });
+
+    it('should re-embed memories into the staged index and promote it', async () => {
+      const memory = createMemory({ id: 'mem-1' as UUID, content: { role: 'user', text: 'Tokio runtime' }, encrypted: false });
+      const activeEmbedding = new Float32Array(384).fill(0.2);
+      Object.assign(memory, { embedding: activeEmbedding, embeddingVersion: 1 });
+      mockMemoriesTable.get.mockResolvedValue(memory);
+      const staged: any = await storage.stageHNSWIndex(bgeBase);
+      staged.getModel.mockReturnValue(bgeBase);
+      const regenerateEmbedding = jest.fn<any>().mockImplementation(async (m: any) => ({
+        ...m,
+        embedding: new Array(768).fill(0.1),
+      }));
+
+      const reembedded = await storage.reembedMemory(memory.id, { getModel: () => bgeBase, regenerateEmbedding } as any);
+
+      expect(reembedded).toBe(true);
+      expect(regenerateEmbedding).toHaveBeenCalledWith(expect.objectContaining({
+        content: expect.objectContaining({ text: 'Tokio runtime' }),
+      }));
+      // The active vectors stay until promotion
+      const saved = mockMemoriesTable.put.mock.calls[0][0];
+      expect(saved.embedding).toBe(activeEmbedding);
+      expect(saved.embeddingModel).toBeUndefined();
+      expect(saved.stagedEmbedding).toEqual(expect.objectContaining({
+        embeddingModel: 'bge-base-en-v1.5',
+        embeddingDimensions: 768,
+      }));
+      expect(staged.add).toHaveBeenCalledWith(memory.id, expect.any(Float32Array));
+
+      mockMemoriesTable.modify.mockImplementation(async (update: any) => update(saved));
+      staged.isReady.mockReturnValue(true);
+      await storage.promoteStagedHNSWIndex({ modelId: 'bge-base-en-v1.5' });
+
+      expect(saved.stagedEmbedding).toBeUndefined();
+      expect(saved).toEqual(expect.objectContaining({ embeddingModel: 'bge-base-en-v1.5', embeddingDimensions: 768 }));
+      expect(saved.embedding).toHaveLength(768);
+      expect(storage.getHNSWIndex()).toBe(staged);
+      expect(staged.persist).toHaveBeenCalled();
+      expect(mockMetadataTable.put).toHaveBeenCalledWith({ key: 'embeddingModel', value: { modelId: 'bge-base-en-v1.5' } });
+    });
+
+    it('should build the staged index from staged vectors', async () => {
+      const memory = createMemory({ id: 'mem-1' as UUID });
+      const stagedEmbedding = { embedding: new Float32Array(768), embeddingVersion: 1 as const, embeddingModel: 'bge-base-en-v1.5' };
+      Object.assign(memory, { embedding: new Float32Array(384), embeddingVersion: 1, stagedEmbedding });
+
+      const staged: any = await storage.stageHNSWIndex(bgeBase, [memory]);
+
+      const [built] = staged.build.mock.calls[0];
+      expect(built[0]).toEqual(expect.objectContaining({ embedding: stagedEmbedding.embedding, embeddingModel: 'bge-base-en-v1.5' }));
+      expect(built[0].stagedEmbedding).toBeUndefined();
+    });
+
+    it('should refuse to re-embed without an index for the model', async () => {
+      const embeddingService = { getModel: () => bgeBase, regenerateEmbedding: jest.fn() };
+
+      await expect(storage.reembedMemory('mem-1' as UUID, embeddingService as any)).rejects.toThrow(
+        'No HNSW index for embedding model bge-base-en-v1.5'
+      );
+      expect(embeddingService.regenerateEmbedding).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('HNSW Consistency', () => {
+    it('should check the index against all memories and persist repairs', async () => {
+      const memories = [createMemory({ id: 'mem-1' as UUID })];
+      mockMemoriesTable.toArray.mockResolvedValueOnce(memories);
+      const index: any = storage.getHNSWIndex();
+      index.checkConsistency.mockResolvedValue({ checked: 1, orphaned: ['mem-2'], missing: [], mismatched: [], repaired: 1 });
+
+      const report = await storage.checkHNSWConsistency();
+
+      expect(index.checkConsistency).toHaveBeenCalledWith(memories, true);
+      expect(report?.repaired).toBe(1);
+      expect(index.persist).toHaveBeenCalled();
+    });
+  });
+
+  describe('Atomic enrichment save', () => {
+    it('should compact a stale HNSW snapshot after the transaction commits', async () => {
+      // Dexie rejects nested transactions over tables outside the parent scope
+      let scope: any[] | null = null;
+      mockDb.transaction = jest.fn(async (_mode: string, ...args: any[]) => {
+        const callback = args.pop();
+        const tables = args.flat();
+        if (scope && tables.some((table) => !scope!.includes(table))) {
+          throw new Error('Table not included in parent transaction');
+        }
+        const parent = scope;
+        scope = tables;
+        try {
+          return await callback();
+        } finally {
+          scope = parent;
+        }
+      });
+      mockDb.hnswIndex = { name: 'hnswIndex' };
+      mockDb.hnswLog = { name: 'hnswLog' };
+
+      // A stale snapshot makes persist compact in its own transaction
+      const index: any = storage.getHNSWIndex();
+      index.isReady.mockReturnValue(true);
+      index.persist.mockImplementation(async (db: any) => {
+        await db.transaction('rw', db.hnswIndex, db.hnswLog, async () => {});
+      });
+      storage['enrichmentService'] = { enrichMemory: jest.fn(), waitForQueue: jest.fn() } as any;
+      (getEmbeddingService as jest.Mock<any>).mockReturnValue({ regenerateEmbedding: jest.fn(async (m: any) => m) });
+      const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+      try {
+        const memory = createMemory({ id: 'mem-1' as UUID });
+        await storage['enrichInBackground'](memory as any, undefined, { useAtomicTransaction: true });
+
+        expect(mockMemoriesTable.put).toHaveBeenCalledTimes(1);
+        expect(index.persist).toHaveBeenCalled();
+        expect(warn).not.toHaveBeenCalledWith(expect.stringContaining('falling back'), expect.anything());
+      } finally {
+        warn.mockRestore();
+      }
+    });
+  });
+
   describe('Statistics', () => {
     describe('getStats()', () => {
       it('should return storage statistics', async () => {
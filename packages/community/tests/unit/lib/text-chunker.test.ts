@@ -0,0 +1,36 @@
+/**
+ * Text Chunker Unit Tests
+ * Tests for overlapping word-window chunking
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { CHUNK_CONFIG, chunkText } from '../../../src/lib/text-chunker';
+
+const words = (count: number) => Array.from({ length: count }, (_, i) => `w${i}`).join(' ');
+
+describe('chunkText()', () => {
+  it('should keep short texts in a single chunk', () => {
+    expect(chunkText('How do lifetimes work?')).toEqual([
+      { text: 'How do lifetimes work?', start: 0, end: 22 },
+    ]);
+    expect(chunkText('')).toEqual([{ text: '', start: 0, end: 0 }]);
+  });
+
+  it('should split long texts into overlapping windows of whole words', () => {
+    const text = words(25);
+
+    const chunks = chunkText(text, 10, 2);
+
+    expect(chunks.map((c) => c.text.split(' ').length)).toEqual([10, 10, 9]);
+    expect(chunks[0].text.endsWith('w9')).toBe(true);
+    expect(chunks[1].text.startsWith('w8 w9')).toBe(true);
+    expect(chunks[2].text.endsWith('w24')).toBe(true);
+    chunks.forEach((chunk) => expect(text.slice(chunk.start, chunk.end)).toBe(chunk.text));
+  });
+
+  it('should cap the number of chunks', () => {
+    const chunks = chunkText(words(5000), 10, 0);
+
+    expect(chunks).toHaveLength(CHUNK_CONFIG.MAX_CHUNKS);
+  });
+});
@@ -0,0 +1,218 @@
+/**
+ * Device Trust Unit Tests
+ * Tests for verifying inbound sync operations against registered device keys
+ */
+
+import { describe, it, expect, beforeAll, beforeEach, jest } from '@jest/globals';
+import { stringToUint8Array, type SyncOperation } from '@engram/core';
+import { operationSigningData, type TrustedDevice } from '../../../src/sync/device-trust';
+import { SyncManager } from '../../../src/sync/sync-manager';
+import { getCryptoService, type CryptoService } from '../../../src/lib/crypto-service';
+import { createMemory } from '../../__fixtures__/memories';
+
+let crypto: CryptoService;
+
+/**
+ * A device of the account: its registration and signing key
+ */
+async function createDevice(id: string): Promise<{ device: TrustedDevice; privateKey: Uint8Array }> {
+  const keyPair = await crypto.generateDeviceKeyPair();
+  return { device: { id, name: `Device ${id}`, publicKey: keyPair.publicKey }, privateKey: keyPair.privateKey };
+}
+
+function operation(deviceId: string, memoryId = 'mem-1'): SyncOperation {
+  return {
+    id: `op-${memoryId}-${deviceId}`,
+    type: 'add',
+    memoryId,
+    vectorClock: { [deviceId]: 1 },
+    deviceId,
+    payload: createMemory({ id: memoryId as any, deviceId }),
+    signature: '',
+    timestamp: 1_700_000_000_000,
+  };
+}
+
+async function sign(op: SyncOperation, privateKey: Uint8Array): Promise<SyncOperation> {
+  return { ...op, signature: await crypto.sign(stringToUint8Array(operationSigningData(op)), privateKey) };
+}
+
+/**
+ * A SyncManager over in-memory storage
+ */
+function createManager(deviceId = 'device-a') {
+  const memories = new Map<string, any>();
+  const metadata = new Map<string, any>();
+  const storage = {
+    getMemory: async (id: string) => memories.get(id) || null,
+    saveMemory: async (memory: any) => {
+      memories.set(memory.id, memory);
+    },
+    updateMemory: async (id: string, updates: any) => {
+      memories.set(id, { ...memories.get(id), ...updates });
+    },
+    deleteMemory: async (id: string) => {
+      memories.delete(id);
+    },
+    getMetadata: async (key: string) => metadata.get(key) ?? null,
+    setMetadata: async (key: string, value: unknown) => {
+      metadata.set(key, JSON.parse(JSON.stringify(value)));
+    },
+  };
+  const manager = new SyncManager(storage as any, {
+    serverUrl: 'ws://localhost:0',
+    deviceId,
+    autoConnect: false,
+    syncOnStartup: false,
+  });
+
+  /**
+   * Deliver an operation the way the relay server broadcasts it
+   */
+  const receive = (op: SyncOperation) =>
+    (manager as any).handleRemoteOperation({ payload: { operation: JSON.parse(JSON.stringify(op)) } });
+
+  return { manager, memories, receive };
+}
+
+describe('Device trust', () => {
+  let deviceB: Awaited<ReturnType<typeof createDevice>>;
+  let local: ReturnType<typeof createManager>;
+
+  beforeAll(async () => {
+    crypto = await getCryptoService();
+  });
+
+  beforeEach(async () => {
+    deviceB = await createDevice('device-b');
+    local = createManager();
+    await local.manager.updateTrustedDevices([deviceB.device]);
+  });
+
+  it('should apply operations signed by a registered device', async () => {
+    const changes: SyncOperation[] = [];
+    local.manager.onRemoteChange((op) => changes.push(op));
+
+    await local.receive(await sign(operation('device-b'), deviceB.privateKey));
+
+    expect(local.memories.has('mem-1')).toBe(true);
+    expect(changes).toHaveLength(1);
+    expect(await local.manager.getQuarantinedOperations()).toEqual([]);
+  });
+
+  it('should quarantine unsigned, forged and unregistered operations', async () => {
+    const stranger = await createDevice('device-x');
+    const signed = await sign(operation('device-b', 'mem-1'), deviceB.privateKey);
+
+    await local.receive(operation('device-b', 'mem-0'));
+    // Relay swaps the payload of a signed operation
+    await local.receive({ ...signed, payload: { ...signed.payload, tags: ['injected'] } });
+    // Relay signs with its own key in a registered device's name
+    await local.receive(await sign(operation('device-b', 'mem-2'), stranger.privateKey));
+    await local.receive(await sign(operation('device-x', 'mem-3'), stranger.privateKey));
+
+    expect(local.memories.size).toBe(0);
+    const quarantined = await local.manager.getQuarantinedOperations();
+    expect(quarantined.map((entry) => [entry.operation.memoryId, entry.reason])).toEqual([
+      ['mem-0', 'unsigned'],
+      ['mem-1', 'invalid-signature'],
+      ['mem-2', 'invalid-signature'],
+      ['mem-3', 'unknown-device'],
+    ]);
+  });
+
+  it('should reject operations from revoked devices without quarantining them', async () => {
+    await local.manager.updateTrustedDevices([{ ...deviceB.device, revokedAt: Date.now() }]);
+
+    await local.receive(await sign(operation('device-b'), deviceB.privateKey));
+
+    expect(local.memories.size).toBe(0);
+    expect(await local.manager.getQuarantinedOperations()).toEqual([]);
+  });
+
+  it('should apply quarantined operations once their device is registered', async () => {
+    const deviceC = await createDevice('device-c');
+    await local.receive(await sign(operation('device-c'), deviceC.privateKey));
+    expect(local.memories.size).toBe(0);
+
+    const applied = await local.manager.updateTrustedDevices([deviceB.device, deviceC.device]);
+
+    expect(applied).toBe(1);
+    expect(local.memories.has('mem-1')).toBe(true);
+    expect(await local.manager.getQuarantinedOperations()).toEqual([]);
+  });
+
+  it('should keep the first key of a device and never undo a revocation', async () => {
+    const impostor = await createDevice('device-b');
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    await local.manager.updateTrustedDevices([impostor.device]);
+    warn.mockRestore();
+
+    await local.receive(await sign(operation('device-b'), impostor.privateKey));
+    expect(local.memories.size).toBe(0);
+
+    await local.manager.updateTrustedDevices([{ ...deviceB.device, revokedAt: 1 }]);
+    await local.manager.updateTrustedDevices([deviceB.device]);
+    await local.receive(await sign(operation('device-b', 'mem-2'), deviceB.privateKey));
+    expect(local.memories.size).toBe(0);
+  });
+
+  it('should not trust devices the server announces, only ask for a refresh', async () => {
+    const relay = await createDevice('device-x');
+    const devicesChanged = jest.fn();
+    local.manager.onDevicesChanged(devicesChanged);
+    const announce = (devices: TrustedDevice[]) =>
+      (local.manager as any).handleWebSocketMessage({ type: 'DEVICES', message: { payload: { devices } } });
+
+    announce([deviceB.device]);
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    expect(devicesChanged).not.toHaveBeenCalled();
+
+    announce([deviceB.device, relay.device]);
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    await local.receive(await sign(operation('device-x'), relay.privateKey));
+
+    expect(devicesChanged).toHaveBeenCalledTimes(1);
+    expect(local.memories.size).toBe(0);
+    const quarantined = await local.manager.getQuarantinedOperations();
+    expect(quarantined.map((entry) => entry.reason)).toEqual(['unknown-device']);
+  });
+
+  it('should dismiss quarantined operations', async () => {
+    await local.receive(operation('device-b', 'mem-0'));
+    await local.receive(operation('device-b', 'mem-1'));
+
+    await local.manager.dismissQuarantinedOperations(['op-mem-0-device-b']);
+
+    const quarantined = await local.manager.getQuarantinedOperations();
+    expect(quarantined.map((entry) => entry.operation.id)).toEqual(['op-mem-1-device-b']);
+  });
+
+  it('should sign queued operations so other devices accept them', async () => {
+    const remote = createManager('device-b');
+    (remote.manager as any).devicePrivateKey = deviceB.privateKey;
+    const enqueue = jest.fn<any>().mockResolvedValue('op-1');
+    (remote.manager as any).operationQueue.enqueue = enqueue;
+
+    await remote.manager.queueOperation(operation('device-b'));
+    const [queued] = enqueue.mock.calls[0] as [SyncOperation];
+    await local.receive(queued);
+
+    expect(queued.signature).not.toBe('');
+    expect(local.memories.has('mem-1')).toBe(true);
+  });
+
+  it('should sign the same bytes whatever the key order', () => {
+    const op = operation('device-b');
+    const reordered = JSON.parse(
+      JSON.stringify(Object.fromEntries(Object.entries(op).reverse()), (_key, value) =>
+        value && typeof value === 'object' && !Array.isArray(value)
+          ? Object.fromEntries(Object.entries(value).reverse())
+          : value
+      )
+    );
+
+    expect(operationSigningData(reordered)).toBe(operationSigningData(op));
+    expect(operationSigningData({ ...op, signature: 'ignored' })).toBe(operationSigningData(op));
+  });
+});
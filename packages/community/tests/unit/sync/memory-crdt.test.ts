@@ -0,0 +1,314 @@
+/**
+ * Memory CRDT Unit Tests
+ *
+ * Tests cover:
+ * - OR-Set tags, LWW registers and link tombstones
+ * - Deletes winning over concurrent edits
+ * - Updates from devices without merge state
+ * - Convergence: random edits on N simulated devices, delivered in random
+ *   order (with duplicates), end in the same state on every device
+ */
+
+import { describe, it, expect, jest } from '@jest/globals';
+import {
+  incrementClock,
+  mergeVectorClocks,
+  type CrdtStamp,
+  type MemoryWithMemA,
+  type SyncOperation,
+  type VectorClock,
+} from '@engram/core';
+import { compareStamps, mergeMemory, recordLocalEdit } from '../../../src/sync/memory-crdt';
+import { SyncManager } from '../../../src/sync/sync-manager';
+import { createMemory } from '../../__fixtures__/memories';
+import { seededRandom } from '../../__utils__/sync-simulation';
+
+function baseMemory(id = 'mem-1'): MemoryWithMemA {
+  return { ...createMemory({ id: id as any, deviceId: 'origin', syncStatus: 'synced' }), vectorClock: { origin: 1 } };
+}
+
+function stamp(deviceId: string, clock: VectorClock): CrdtStamp {
+  return { deviceId, clock };
+}
+
+/**
+ * Plain-data copy, as if sent over the wire
+ */
+function clone<T>(value: T): T {
+  return JSON.parse(JSON.stringify(value));
+}
+
+describe('Memory CRDT', () => {
+  it('should keep a tag added concurrently with its removal', () => {
+    const memory = recordLocalEdit(baseMemory(), { tags: ['draft'] }, stamp('a', { origin: 1, a: 1 }));
+
+    // Device a removes the tag it saw while device b adds it again
+    const removed = recordLocalEdit(memory, { tags: [] }, stamp('a', { origin: 1, a: 2 }));
+    const readded = recordLocalEdit(
+      mergeMemory(baseMemory(), memory, stamp('a', { origin: 1, a: 1 })),
+      { tags: ['draft', 'work'] },
+      stamp('b', { origin: 1, a: 1, b: 1 })
+    );
+
+    const onA = mergeMemory(removed, readded, stamp('b', readded.vectorClock));
+    const onB = mergeMemory(readded, removed, stamp('a', removed.vectorClock));
+
+    expect(onA.tags).toEqual(['work']);
+    expect(onB.tags).toEqual(['work']);
+    expect(onA.crdt).toEqual(onB.crdt);
+  });
+
+  it('should resolve concurrent register writes the same way on both devices', () => {
+    const fromA = recordLocalEdit(baseMemory(), { keywords: ['a'], context: 'from a' }, stamp('a', { origin: 1, a: 1 }));
+    const fromB = recordLocalEdit(baseMemory(), { keywords: ['b'] }, stamp('b', { origin: 1, b: 1 }));
+
+    const onA = mergeMemory(fromA, fromB, stamp('b', fromB.vectorClock));
+    const onB = mergeMemory(fromB, fromA, stamp('a', fromA.vectorClock));
+
+    expect(onA.keywords).toEqual(['b']);
+    expect(onB.keywords).toEqual(['b']);
+    expect(onA.context).toBe('from a');
+    expect(onB.context).toBe('from a');
+  });
+
+  it('should let a causally later write win over a larger device ID', () => {
+    const first = stamp('z', { z: 1 });
+    const later = stamp('a', { z: 1, a: 1 });
+
+    expect(compareStamps(later, first)).toBeGreaterThan(0);
+    expect(compareStamps(first, later)).toBeLessThan(0);
+  });
+
+  it('should keep removed links removed', () => {
+    const link = { memoryId: 'mem-2', score: 0.8, createdAt: 1 };
+    const linked = recordLocalEdit(baseMemory(), { links: [link] }, stamp('a', { origin: 1, a: 1 }));
+    const unlinked = recordLocalEdit(linked, { links: [] }, stamp('a', { origin: 1, a: 2 }));
+    const relinkedElsewhere = recordLocalEdit(linked, { links: [{ ...link, score: 0.9 }] }, stamp('b', { origin: 1, a: 1, b: 1 }));
+
+    const merged = mergeMemory(unlinked, relinkedElsewhere, stamp('b', relinkedElsewhere.vectorClock));
+
+    expect(merged.links).toEqual([]);
+    expect(merged.crdt?.removedLinks).toEqual(['mem-2']);
+  });
+
+  it('should leave memories without links without a link list', () => {
+    const tagged = recordLocalEdit(baseMemory(), { tags: ['work'] }, stamp('a', { origin: 1, a: 1 }));
+
+    const merged = mergeMemory(baseMemory(), tagged, stamp('a', tagged.vectorClock));
+
+    expect(merged.links).toBeUndefined();
+  });
+
+  it('should treat an update without merge state as an edit of the local memory', () => {
+    const local = recordLocalEdit(baseMemory(), { tags: ['keep', 'drop'] }, stamp('a', { origin: 1, a: 1 }));
+
+    const merged = mergeMemory(local, { tags: ['keep', 'new'] }, stamp('old-device', { origin: 1, a: 1, 'old-device': 1 }));
+
+    expect(merged.tags).toEqual(['keep', 'new']);
+  });
+});
+
+/**
+ * One simulated device: a SyncManager over in-memory storage
+ */
+class SimulatedDevice {
+  memories = new Map<string, MemoryWithMemA>();
+  metadata = new Map<string, any>();
+  clock: VectorClock = {};
+  manager: SyncManager;
+
+  constructor(public id: string, initial: MemoryWithMemA[]) {
+    for (const memory of initial) this.memories.set(memory.id, clone(memory));
+
+    const storage = {
+      getMemory: async (memoryId: string) => (this.memories.has(memoryId) ? clone(this.memories.get(memoryId)!) : null),
+      saveMemory: async (memory: MemoryWithMemA) => {
+        this.memories.set(memory.id, clone(memory));
+      },
+      updateMemory: async (memoryId: string, updates: Partial<MemoryWithMemA>) => {
+        this.memories.set(memoryId, clone({ ...this.memories.get(memoryId)!, ...updates }));
+      },
+      deleteMemory: async (memoryId: string) => {
+        this.memories.delete(memoryId);
+      },
+      getMetadata: async (key: string) => (this.metadata.has(key) ? clone(this.metadata.get(key)) : null),
+      setMetadata: async (key: string, value: unknown) => {
+        this.metadata.set(key, clone(value));
+      },
+    };
+    this.manager = new SyncManager(storage as any, {
+      serverUrl: 'ws://localhost:0',
+      deviceId: id,
+      autoConnect: false,
+      syncOnStartup: false,
+    });
+  }
+
+  isDeleted(memoryId: string): boolean {
+    return !!this.metadata.get('memoryTombstones')?.[memoryId];
+  }
+
+  nextStamp(): CrdtStamp {
+    this.clock = incrementClock(this.clock, this.id);
+    return stamp(this.id, this.clock);
+  }
+
+  async receive(operation: SyncOperation): Promise<void> {
+    await (this.manager as any).applyRemoteOperation(clone(operation));
+    this.clock = mergeVectorClocks(this.clock, operation.vectorClock);
+  }
+
+  snapshot() {
+    return {
+      memories: [...this.memories.values()].sort((a, b) => a.id.localeCompare(b.id)).map(clone),
+      deleted: Object.keys(this.metadata.get('memoryTombstones') || {}).sort(),
+    };
+  }
+}
+
+const TAGS = ['work', 'idea', 'todo', 'read'];
+const MEMORY_IDS = ['mem-1', 'mem-2', 'mem-3'];
+
+/**
+ * A random local change on a device, applied locally and returned as the operation to broadcast
+ */
+function localChange(device: SimulatedDevice, rand: () => number, step: number): SyncOperation | null {
+  const pick = <T,>(values: readonly T[]): T => values[Math.floor(rand() * values.length)];
+  const memoryId = pick(MEMORY_IDS);
+  if (device.isDeleted(memoryId)) return null;
+
+  const memory = device.memories.get(memoryId);
+  const operation = (type: SyncOperation['type'], payload: MemoryWithMemA | null, opStamp: CrdtStamp): SyncOperation => ({
+    id: `${device.id}-${step}`,
+    type,
+    memoryId,
+    vectorClock: opStamp.clock,
+    deviceId: device.id,
+    payload: payload && clone(payload),
+    signature: '',
+    timestamp: step,
+  });
+
+  if (!memory) {
+    // Capture the same message as another device (memory IDs come from content)
+    const opStamp = device.nextStamp();
+    const created: MemoryWithMemA = {
+      ...baseMemory(memoryId),
+      deviceId: device.id,
+      vectorClock: opStamp.clock,
+      tags: rand() < 0.5 ? [pick(TAGS)] : [],
+    };
+    device.memories.set(memoryId, created);
+    return operation('add', created, opStamp);
+  }
+
+  const roll = rand();
+  if (roll < 0.05) {
+    const opStamp = device.nextStamp();
+    device.metadata.set('memoryTombstones', { ...device.metadata.get('memoryTombstones'), [memoryId]: opStamp });
+    device.memories.delete(memoryId);
+    return operation('delete', null, opStamp);
+  }
+
+  let updates: Partial<MemoryWithMemA>;
+  if (roll < 0.35) {
+    updates = { tags: [...new Set([...memory.tags, pick(TAGS)])] };
+  } else if (roll < 0.5) {
+    updates = { tags: memory.tags.filter(() => rand() < 0.5) };
+  } else if (roll < 0.65) {
+    updates = { keywords: [pick(TAGS), pick(TAGS)] };
+  } else if (roll < 0.75) {
+    updates = { context: `context ${device.id}-${step}` };
+  } else if (roll < 0.8) {
+    updates = { evolution: { updateCount: step, lastUpdated: step, triggeredBy: [], history: [] } };
+  } else if (roll < 0.92) {
+    const target = pick(MEMORY_IDS.filter((id) => id !== memoryId));
+    updates = { links: [...(memory.links || []), { memoryId: target, score: rand(), createdAt: step }] };
+  } else {
+    updates = { links: (memory.links || []).filter(() => rand() < 0.5) };
+  }
+
+  const opStamp = device.nextStamp();
+  const edited = recordLocalEdit(memory, updates, opStamp);
+  device.memories.set(memoryId, edited);
+  return operation('update', edited, opStamp);
+}
+
+/**
+ * Random edits on N devices, random partial deliveries in between, then
+ * everything delivered in a random order with some duplicates
+ */
+async function simulate(seed: number) {
+  const rand = seededRandom(seed);
+  const deviceCount = 2 + (seed % 4);
+  const initial = [baseMemory('mem-1')];
+  const devices = Array.from({ length: deviceCount }, (_, i) => new SimulatedDevice(`device-${i}`, initial));
+  const inboxes = devices.map(() => [] as SyncOperation[]);
+
+  for (let step = 0; step < 40; step++) {
+    const index = Math.floor(rand() * deviceCount);
+    const device = devices[index];
+
+    if (rand() < 0.3 && inboxes[index].length > 0) {
+      const [operation] = inboxes[index].splice(Math.floor(rand() * inboxes[index].length), 1);
+      await device.receive(operation);
+      continue;
+    }
+
+    const operation = localChange(device, rand, step);
+    if (!operation) continue;
+    devices.forEach((_, other) => {
+      if (other !== index) inboxes[other].push(operation);
+    });
+  }
+
+  for (let i = 0; i < deviceCount; i++) {
+    const pending = [...inboxes[i]];
+    const duplicates = pending.filter(() => rand() < 0.2);
+    const delivery = [...pending, ...duplicates]
+      .map((operation) => ({ operation, order: rand() }))
+      .sort((a, b) => a.order - b.order);
+
+    for (const { operation } of delivery) {
+      await devices[i].receive(operation);
+    }
+  }
+
+  return devices.map((device) => device.snapshot());
+}
+
+describe('Memory CRDT convergence', () => {
+  it('should end in the same state on every device whatever the delivery order', async () => {
+    const log = jest.spyOn(console, 'log').mockImplementation(() => {});
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+    try {
+      for (let seed = 1; seed <= 100; seed++) {
+        const [first, ...others] = await simulate(seed);
+        for (const other of others) {
+          expect({ seed, ...other }).toEqual({ seed, ...first });
+        }
+      }
+    } finally {
+      log.mockRestore();
+      warn.mockRestore();
+    }
+  });
+
+  it('should let a delete win over edits that arrive after it', async () => {
+    const device = new SimulatedDevice('device-0', [baseMemory('mem-1')]);
+    const edited = recordLocalEdit(baseMemory('mem-1'), { tags: ['late'] }, stamp('device-1', { origin: 1, 'device-1': 1 }));
+
+    await device.receive({
+      id: 'op-1', type: 'delete', memoryId: 'mem-1', vectorClock: { 'device-2': 1 }, deviceId: 'device-2',
+      payload: null, signature: '', timestamp: 1,
+    });
+    await device.receive({
+      id: 'op-2', type: 'update', memoryId: 'mem-1', vectorClock: edited.vectorClock, deviceId: 'device-1',
+      payload: edited, signature: '', timestamp: 2,
+    });
+
+    expect(device.memories.has('mem-1')).toBe(false);
+    expect(device.snapshot().deleted).toEqual(['mem-1']);
+  });
+});
@@ -46,6 +46,14 @@ export interface RegisterDeviceResponse {
  */
 export type GetDeviceResponse = Device;
 
+/**
+ * List devices response
+ * Every device registered to the account, revoked ones included
+ */
+export interface ListDevicesResponse {
+  devices: Device[];
+}
+
 /**
  * Sync memories request
  */
@@ -18,7 +18,7 @@ export type Timestamp = number;
 /**
  * Platform identifier
  */
-export type Platform = 'chatgpt' | 'claude' | 'perplexity' | 'gemini' | 'generic';
+export type Platform = 'chatgpt' | 'claude' | 'perplexity' | 'gemini' | 'deepseek' | 'copilot' | 'mistral' | 'generic';
 
 /**
  * Message role in conversation
@@ -36,6 +36,29 @@ export type VectorClock = Record<string, number>;
  */
 export type SyncStatus = 'pending' | 'synced' | 'failed';
 
+/**
+ * Causal stamp of a write: the writer's vector clock and device
+ */
+export interface CrdtStamp {
+  clock: VectorClock;
+  deviceId: string;
+}
+
+/**
+ * Memory fields merged as last-writer-wins registers
+ */
+export type LwwField = 'keywords' | 'context' | 'evolution';
+
+/**
+ * Field-level merge state of a memory edited on several devices
+ */
+export interface MemoryCrdtState {
+  tags: Record<string, string[]>; // OR-Set: tag → dots (device:counter) of the writes that added it
+  removedTags: Record<string, string[]>; // Tag → dots of its adds that were observed and removed
+  registers: Partial<Record<LwwField, CrdtStamp>>; // Stamp of the winning write per field
+  removedLinks: UUID[]; // Link tombstones; links themselves only grow
+}
+
 /**
  * Code block metadata
  */
@@ -52,12 +75,22 @@ export interface Attachment {
   name: string;
 }
 
+/**
+ * Memories injected as context into a user turn
+ * Stored instead of the injected text, so memories never feed on themselves
+ */
+export interface ContextProvenance {
+  memoryIds: UUID[]; // Cited memories, in block order
+  source: 'interceptor' | 'detected'; // Recorded when injecting, or recognized in the captured text
+}
+
 /**
  * Message metadata
  */
 export interface MessageMetadata {
   codeBlocks?: CodeBlock[];
   attachments?: Attachment[];
+  contextProvenance?: ContextProvenance;
 }
 
 /**
@@ -100,10 +133,16 @@ export interface Memory {
   // Sync metadata
   deviceId: string; // Which device created this
   syncStatus: SyncStatus;
+  crdt?: MemoryCrdtState; // Merge state of concurrent edits (absent until edited while syncing)
 
   // User organization
   tags: string[]; // User-added tags
 
+  // Versions of one message (edited prompts, regenerated answers)
+  parentId?: UUID; // First captured version; unset on that version itself
+  branchIndex?: number; // Position among the versions (0 = original)
+  branchSelected?: boolean; // false for versions not currently shown on the platform
+
   // Encryption envelope (when stored)
   encrypted?: EncryptionEnvelope;
 }
@@ -131,6 +170,7 @@ export interface Device {
   publicKey: string; // Ed25519 verification key
   createdAt: Timestamp;
   lastSeenAt: Timestamp;
+  revokedAt?: Timestamp; // Set once the user revoked the device
 }
 
 /**
@@ -146,6 +186,7 @@ export interface SyncOperation {
   type: SyncOperationType;
   memoryId: UUID;
   vectorClock: VectorClock;
+  deviceId?: UUID; // Device that wrote the operation
   payload: Memory | Partial<Memory> | null;
   signature: string; // Ed25519 signature
   timestamp: Timestamp;
@@ -286,8 +327,51 @@ export interface MemoryWithMemA extends Memory {
    * v2: Encrypted embeddings
    */
   embeddingVersion?: 1 | 2;
+
+  /**
+   * Encrypted per-chunk embeddings for long memories (v2)
+   * Concatenated vectors (embeddingDimensions each), one per overlapping text
+   * chunk, indexed individually in HNSW. Absent when the memory fits in a single chunk
+   */
+  encryptedChunkEmbeddings?: EncryptedBlob;
+
+  /**
+   * @deprecated Unencrypted fallback for encryptedChunkEmbeddings (v1)
+   */
+  chunkEmbeddings?: Float32Array;
+
+  /**
+   * Registry ID of the embedding model that produced the vectors
+   * Absent for vectors created before the model registry (BGE-Small)
+   */
+  embeddingModel?: string;
+
+  /**
+   * Dimensions of each stored vector (absent means 384)
+   */
+  embeddingDimensions?: number;
+
+  /**
+   * Vectors of the embedding model being switched to
+   * Kept next to the active vectors until the model migration promotes its index
+   */
+  stagedEmbedding?: EmbeddingVectors;
 }
 
+/**
+ * Stored vectors of a memory and the model that produced them
+ */
+export type EmbeddingVectors = Pick<
+  MemoryWithMemA,
+  | 'embedding'
+  | 'encryptedEmbedding'
+  | 'embeddingVersion'
+  | 'encryptedChunkEmbeddings'
+  | 'chunkEmbeddings'
+  | 'embeddingModel'
+  | 'embeddingDimensions'
+>;
+
 /**
  * Enrichment request to LLM
  */
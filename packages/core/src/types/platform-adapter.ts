@@ -3,7 +3,7 @@
  * Based on MVP Implementation Specification Phase 1.2
  */
 
-import { Platform, Role } from './memory';
+import { ContextProvenance, Platform, Role } from './memory';
 
 /**
  * DOM Selectors for platform
@@ -21,6 +21,9 @@ export interface PlatformSelectors {
   // Optional: Code blocks
   codeBlockSelector?: string;
 
+  // Optional: Version switcher text of an edited/regenerated message (e.g. "2/3")
+  branchSelector?: string;
+
   // Where to inject memory UI
   injectionPointSelector: string;
 }
@@ -60,6 +63,22 @@ export interface ExtractedCodeBlock {
   code: string;
 }
 
+/**
+ * Why a message that was already captured changed
+ * - edit: the user edited their prompt
+ * - regeneration: the assistant answer was regenerated
+ * - continuation: the answer kept streaming after it looked finished
+ */
+export type MessageRevision = 'edit' | 'regeneration' | 'continuation';
+
+/**
+ * Version of a message the platform is showing (e.g. ChatGPT's "< 2/3 >")
+ */
+export interface BranchPosition {
+  index: number; // 0-based
+  count: number;
+}
+
 /**
  * Message metadata from extraction
  */
@@ -68,6 +87,10 @@ export interface ExtractedMetadata {
   isStreaming?: boolean;
   messageIndex?: number;
   sources?: string[]; // Perplexity citations/sources
+  contextProvenance?: ContextProvenance; // Memories injected into this turn
+  messageKey?: string; // Stable key of the message element on the page
+  revision?: MessageRevision; // Set when the message replaces an already captured version
+  branch?: BranchPosition; // Version switcher shown next to the message, if any
 }
 
 /**
@@ -81,6 +104,25 @@ export interface ExtractedMessage {
   metadata?: ExtractedMetadata;
 }
 
+/**
+ * Network transport of an outgoing request
+ */
+export type RequestTransport = 'fetch' | 'xhr' | 'websocket';
+
+/**
+ * Rewrites the prompt in a platform's outgoing request body
+ * Injected context goes into the request payload only, never into the page
+ */
+export interface RequestRewriter {
+  platform: Platform;
+
+  // Whether a request carries the user's prompt
+  matches(url: string, method: string, transport: RequestTransport): boolean;
+
+  // Serialized body with the prompt replaced, or null if the prompt is not in it
+  rewrite(body: string, originalPrompt: string, enrichedPrompt: string): string | null;
+}
+
 /**
  * Platform adapter interface
  * Each platform implements this
@@ -107,4 +149,54 @@ export interface IPlatformAdapter {
   // UI Injection
   getInjectionPoint(): HTMLElement | null;
   shouldShowMemoryUI(): boolean;
+
+  // Network injection (platforms without one fall back to editing the input)
+  getRequestRewriter?(): RequestRewriter | null;
+}
+
+/**
+ * Rule deciding the role of a message element
+ * The element has the role when it matches the selector or contains a match
+ */
+export interface AdapterRoleRule {
+  role: Role;
+  selector: string;
+}
+
+/**
+ * Regex replacement applied to extracted text
+ */
+export interface AdapterTextReplacement {
+  pattern: string; // RegExp source
+  flags?: string; // Default 'g'
+  replacement?: string; // Default ''
+}
+
+/**
+ * Declarative adapter definition
+ * Describes a chat site with data only, so a generic engine can capture it
+ * without a hand-written adapter (see spec-adapter.ts)
+ */
+export interface AdapterSpec {
+  id: string; // Unique, e.g. 'deepseek'
+  name: string; // Shown in settings, e.g. 'DeepSeek'
+  platform: Platform; // Platform memories are saved under ('generic' for other sites)
+  matches: string[]; // Chrome match patterns, e.g. 'https://chat.deepseek.com/*'
+  conversationIdPattern?: string; // RegExp source with one capture group, matched against the URL
+  selectors: {
+    container: string; // Element observed for new messages
+    message: string; // One message (user or assistant)
+    content?: string; // Text of a message, inside the message element (default: the element itself)
+    codeBlock?: string;
+    branch?: string; // Version switcher text ("2/3")
+    streaming?: string; // Present inside an answer while it streams
+    input?: string; // Prompt input, for context injection
+    sendButton?: string;
+  };
+  roles: AdapterRoleRule[]; // First matching rule wins; elements matching none are skipped
+  cleanup?: {
+    remove?: string[]; // Elements dropped before reading text (buttons, avatars)
+    replace?: AdapterTextReplacement[];
+  };
+  features?: Partial<PlatformFeatures>;
 }
@@ -3,7 +3,7 @@
  * Based on MVP Implementation Specification Phase 2
  */
 
-import { Memory, Conversation, SyncOperation, UUID, Timestamp, Platform, SyncStatus } from './memory';
+import { Memory, Conversation, Device, SyncOperation, UUID, Timestamp, Platform, Role, SyncStatus } from './memory';
 
 /**
  * Database name and version constants
@@ -24,6 +24,13 @@ export const METADATA_KEYS = {
   LAST_SYNC_TIMESTAMP: 'lastSyncTimestamp',
   SERVER_URL: 'serverUrl',
   ONBOARDING_COMPLETE: 'onboardingComplete',
+  EMBEDDING_MODEL: 'embeddingModel', // Active embedding model settings
+  EMBEDDING_MODEL_MIGRATION: 'embeddingModelMigration', // Re-embedding checkpoint
+  CLOUD_UPLOAD: 'cloudUpload', // Cloud upload checkpoint
+  MEMORY_TOMBSTONES: 'memoryTombstones', // Deleted memory ID → stamp of the delete
+  TRUSTED_DEVICES: 'trustedDevices', // Device ID → signing key, from device registrations
+  QUARANTINED_OPERATIONS: 'quarantinedOperations', // Sync operations that failed verification
+  SYNC_CURSOR: 'syncCursor', // Server cursor of the last pulled operation
 } as const;
 
 /**
@@ -35,7 +42,9 @@ export interface MemoryFilter {
   startDate?: Timestamp;
   endDate?: Timestamp;
   tags?: string[];
+  role?: Role;
   syncStatus?: SyncStatus;
+  branches?: 'selected' | 'all'; // Message versions to include (default: all)
   limit?: number;
   offset?: number;
 }
@@ -114,12 +123,14 @@ export interface IStorageBackend {
     platform: string;
     createdAt: Timestamp;
   }): Promise<void>;
-  getDevice(deviceId: UUID): Promise<any>;
+  getDevice(deviceId: UUID): Promise<Device | null>;
+  getDevices(): Promise<Device[]>; // Revoked ones included
   updateDeviceLastSeen(deviceId: UUID, timestamp: Timestamp): Promise<void>;
+  revokeDevice(deviceId: UUID, timestamp?: Timestamp): Promise<void>;
 
   // Operations
-  storeOperation(op: SyncOperation): Promise<void>;
-  getOperations(filter: OperationFilter): Promise<SyncOperation[]>;
+  storeOperation(op: SyncOperation): Promise<boolean>; // false when already stored
+  getOperations(filter: OperationFilter): Promise<OperationPage>;
 
   // Vector clocks
   getServerVectorClock(): Promise<Record<string, number>>;
@@ -140,6 +151,15 @@ export interface OperationFilter {
   cursor?: Timestamp;
 }
 
+/**
+ * One page of stored operations, in the order the server received them
+ */
+export interface OperationPage {
+  operations: SyncOperation[];
+  hasMore: boolean;
+  nextCursor?: Timestamp; // Pass as `since` for the next page
+}
+
 /**
  * Server statistics
  */
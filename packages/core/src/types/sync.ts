@@ -3,13 +3,15 @@
  * Based on MVP Implementation Specification Phase 3
  */
 
-import { UUID, Timestamp, VectorClock, SyncOperation } from './memory';
+import { UUID, Timestamp, VectorClock, SyncOperation, Device } from './memory';
 
 /**
  * WebSocket message types
  */
 export type MessageType =
   | 'CONNECT'
+  | 'CHALLENGE'
+  | 'AUTHENTICATE'
   | 'CONNECTED'
   | 'SYNC_REQUEST'
   | 'SYNC_RESPONSE'
@@ -17,6 +19,7 @@ export type MessageType =
   | 'ACK'
   | 'ERROR'
   | 'HEARTBEAT'
+  | 'DEVICES'
   | 'DISCONNECT';
 
 /**
@@ -39,6 +42,27 @@ export interface ConnectMessage extends BaseMessage {
     publicKey: string;
     vectorClock: VectorClock;
     lastSyncTimestamp: Timestamp;
+    registrationToken?: string; // Lets a new device register with a server that requires one
+  };
+}
+
+/**
+ * Server asks the connecting device to prove it holds its signing key
+ */
+export interface ChallengeMessage extends BaseMessage {
+  type: 'CHALLENGE';
+  payload: {
+    nonce: string;
+  };
+}
+
+/**
+ * Client answers the challenge
+ */
+export interface AuthenticateMessage extends BaseMessage {
+  type: 'AUTHENTICATE';
+  payload: {
+    signature: string; // Ed25519 signature of connectChallengeSigningData(deviceId, nonce)
   };
 }
 
@@ -51,6 +75,7 @@ export interface ConnectedMessage extends BaseMessage {
     serverTime: Timestamp;
     serverVectorClock: VectorClock;
     connectedDevices: string[]; // Other devices online
+    devices: Device[]; // Devices registered with the server; a hint to refresh trust, not a source of keys
   };
 }
 
@@ -121,18 +146,32 @@ export interface HeartbeatMessage extends BaseMessage {
   };
 }
 
+/**
+ * Device registrations changed (a device registered or was revoked)
+ * Clients refresh trust from the account, never from this list
+ */
+export interface DevicesMessage extends BaseMessage {
+  type: 'DEVICES';
+  payload: {
+    devices: Device[]; // Devices registered with the server, revoked ones included
+  };
+}
+
 /**
  * Union type of all messages
  */
 export type WebSocketMessage =
   | ConnectMessage
+  | ChallengeMessage
+  | AuthenticateMessage
   | ConnectedMessage
   | SyncRequestMessage
   | SyncResponseMessage
   | OperationMessage
   | AckMessage
   | ErrorMessage
-  | HeartbeatMessage;
+  | HeartbeatMessage
+  | DevicesMessage;
 
 /**
  * Sync states
@@ -96,7 +96,13 @@ function compareVectorClocks(a, b) {
  * Convert Uint8Array to base64 string
  */
 function uint8ArrayToBase64(array) {
-    return btoa(String.fromCharCode(...array));
+    // Convert in chunks - spreading a large array into fromCharCode overflows the call stack
+    const chunkSize = 0x8000;
+    let binary = '';
+    for (let i = 0; i < array.length; i += chunkSize) {
+        binary += String.fromCharCode(...array.subarray(i, i + chunkSize));
+    }
+    return btoa(binary);
 }
 /**
  * Convert base64 string to Uint8Array
@@ -98,11 +98,25 @@ export function compareVectorClocks(
   }
 }
 
+/**
+ * Text a device signs to answer the sync server's CHALLENGE
+ * Binds the nonce to the device, so an answer cannot be replayed for another
+ */
+export function connectChallengeSigningData(deviceId: string, nonce: string): string {
+  return `engram-sync-connect:${deviceId}:${nonce}`;
+}
+
 /**
  * Convert Uint8Array to base64 string
  */
 export function uint8ArrayToBase64(array: Uint8Array): string {
-  return btoa(String.fromCharCode(...array));
+  // Convert in chunks - spreading a large array into fromCharCode overflows the call stack
+  const chunkSize = 0x8000;
+  let binary = '';
+  for (let i = 0; i < array.length; i += chunkSize) {
+    binary += String.fromCharCode(...array.subarray(i, i + chunkSize));
+  }
+  return btoa(binary);
 }
 
 /**
@@ -186,11 +200,13 @@ export function isExtensionContext(): boolean {
 
 /**
  * Get platform name from URL
+ * Covers the platforms with a built-in content adapter; others come from adapter specs
  */
-export function getPlatformFromUrl(url: string): 'chatgpt' | 'claude' | 'perplexity' | null {
+export function getPlatformFromUrl(url: string): 'chatgpt' | 'claude' | 'perplexity' | 'gemini' | null {
   if (/chatgpt\.com/.test(url)) return 'chatgpt';
   if (/claude\.ai/.test(url)) return 'claude';
   if (/perplexity\.ai/.test(url)) return 'perplexity';
+  if (/gemini\.google\.com/.test(url)) return 'gemini';
   return null;
 }
 
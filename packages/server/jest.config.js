@@ -0,0 +1,15 @@
+/** @type {import('jest').Config} */
+module.exports = {
+  preset: 'ts-jest',
+  testEnvironment: 'node',
+  roots: ['<rootDir>/tests'],
+  moduleFileExtensions: ['ts', 'js', 'json'],
+  moduleNameMapper: {
+    '^@engram/core$': '<rootDir>/../core/src/index.ts',
+  },
+  transform: {
+    // Core also declares the DOM-based adapter types; the server type-checks only its own files
+    '^.+\\.ts$': ['ts-jest', { diagnostics: { exclude: ['**/core/src/**'] } }],
+  },
+  testTimeout: 10000,
+};
@@ -0,0 +1,40 @@
+#!/usr/bin/env node
+/**
+ * Engram sync server entry point
+ *
+ * Environment:
+ * - PORT (default 3001), HOST
+ * - DATABASE_PATH (default ./engram-sync.db)
+ * - HEARTBEAT_INTERVAL_MS (default 30000)
+ * - REGISTRATION_TOKEN: new devices must present it; unset, only devices
+ *   already registered can connect
+ */
+
+import { SyncServer, DEFAULT_SYNC_SERVER_CONFIG } from './sync-server';
+import { SqliteStorageBackend } from './sqlite-backend';
+
+async function main(): Promise<void> {
+  const backend = new SqliteStorageBackend(process.env.DATABASE_PATH || './engram-sync.db');
+  const server = new SyncServer(backend, {
+    port: Number(process.env.PORT) || DEFAULT_SYNC_SERVER_CONFIG.port,
+    host: process.env.HOST,
+    heartbeatInterval: Number(process.env.HEARTBEAT_INTERVAL_MS) || DEFAULT_SYNC_SERVER_CONFIG.heartbeatInterval,
+    registrationToken: process.env.REGISTRATION_TOKEN || undefined,
+  });
+
+  const shutdown = async () => {
+    console.log('[SyncServer] Shutting down...');
+    await server.stop();
+    backend.close();
+    process.exit(0);
+  };
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
+
+  await server.start();
+}
+
+main().catch((error) => {
+  console.error('[SyncServer] Failed to start:', error);
+  process.exit(1);
+});
@@ -0,0 +1,6 @@
+/**
+ * Central export file for @engram/server
+ */
+
+export { SyncServer, DEFAULT_SYNC_SERVER_CONFIG, type SyncServerConfig } from './sync-server';
+export { SqliteStorageBackend } from './sqlite-backend';
@@ -0,0 +1,217 @@
+/**
+ * SQLite Storage Backend
+ * Server-side storage of devices, operations and the server vector clock
+ *
+ * Operations are stored as the JSON the device sent (signatures stay
+ * verifiable) with a receive time that is unique and increasing, so it doubles
+ * as the pagination cursor.
+ */
+
+import Database from 'better-sqlite3';
+import type {
+  Device,
+  IStorageBackend,
+  OperationFilter,
+  OperationPage,
+  ServerStats,
+  SyncOperation,
+  Timestamp,
+  UUID,
+  VectorClock,
+} from '@engram/core';
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS devices (
+    id TEXT PRIMARY KEY,
+    name TEXT NOT NULL,
+    public_key TEXT NOT NULL,
+    platform TEXT NOT NULL,
+    created_at INTEGER NOT NULL,
+    last_seen_at INTEGER NOT NULL,
+    revoked_at INTEGER
+  );
+
+  CREATE TABLE IF NOT EXISTS operations (
+    id TEXT PRIMARY KEY,
+    device_id TEXT,
+    memory_id TEXT NOT NULL,
+    received_at INTEGER NOT NULL UNIQUE,
+    data TEXT NOT NULL
+  );
+
+  CREATE INDEX IF NOT EXISTS operations_received_at ON operations (received_at);
+
+  CREATE TABLE IF NOT EXISTS vector_clock (
+    device_id TEXT PRIMARY KEY,
+    value INTEGER NOT NULL
+  );
+`;
+
+const DEFAULT_PAGE_SIZE = 100;
+const ACTIVE_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+interface DeviceRow {
+  id: string;
+  name: string;
+  public_key: string;
+  platform: string;
+  created_at: number;
+  last_seen_at: number;
+  revoked_at: number | null;
+}
+
+function toDevice(row: DeviceRow): Device {
+  return {
+    id: row.id,
+    name: row.name,
+    platform: row.platform,
+    publicKey: row.public_key,
+    createdAt: row.created_at,
+    lastSeenAt: row.last_seen_at,
+    ...(row.revoked_at !== null && { revokedAt: row.revoked_at }),
+  };
+}
+
+export class SqliteStorageBackend implements IStorageBackend {
+  private db: Database.Database;
+  private lastReceivedAt: Timestamp;
+
+  /**
+   * @param filename Database file, or ':memory:' for tests
+   */
+  constructor(filename: string) {
+    this.db = new Database(filename);
+    this.db.pragma('journal_mode = WAL');
+    this.db.exec(SCHEMA);
+
+    const row = this.db.prepare('SELECT MAX(received_at) AS last FROM operations').get() as { last: number | null };
+    this.lastReceivedAt = row.last ?? 0;
+  }
+
+  async registerDevice(device: {
+    id: UUID;
+    name: string;
+    publicKey: string;
+    platform: string;
+    createdAt: Timestamp;
+  }): Promise<void> {
+    this.db
+      .prepare(
+        `INSERT INTO devices (id, name, public_key, platform, created_at, last_seen_at)
+         VALUES (@id, @name, @publicKey, @platform, @createdAt, @createdAt)
+         ON CONFLICT (id) DO UPDATE SET name = excluded.name, last_seen_at = excluded.last_seen_at`
+      )
+      .run(device);
+  }
+
+  async getDevice(deviceId: UUID): Promise<Device | null> {
+    const row = this.db.prepare('SELECT * FROM devices WHERE id = ?').get(deviceId) as DeviceRow | undefined;
+    return row ? toDevice(row) : null;
+  }
+
+  async getDevices(): Promise<Device[]> {
+    const rows = this.db.prepare('SELECT * FROM devices ORDER BY created_at, id').all() as DeviceRow[];
+    return rows.map(toDevice);
+  }
+
+  async updateDeviceLastSeen(deviceId: UUID, timestamp: Timestamp): Promise<void> {
+    this.db.prepare('UPDATE devices SET last_seen_at = MAX(last_seen_at, ?) WHERE id = ?').run(timestamp, deviceId);
+  }
+
+  /**
+   * Revoke a device; the server refuses its connections from then on
+   */
+  async revokeDevice(deviceId: UUID, timestamp: Timestamp = Date.now()): Promise<void> {
+    this.db.prepare('UPDATE devices SET revoked_at = COALESCE(revoked_at, ?) WHERE id = ?').run(timestamp, deviceId);
+  }
+
+  async storeOperation(op: SyncOperation): Promise<boolean> {
+    // Unique and increasing, even for operations received in the same millisecond
+    const receivedAt = Math.max(Date.now(), this.lastReceivedAt + 1);
+
+    const result = this.db
+      .prepare(
+        `INSERT OR IGNORE INTO operations (id, device_id, memory_id, received_at, data)
+         VALUES (?, ?, ?, ?, ?)`
+      )
+      .run(op.id, op.deviceId ?? null, op.memoryId, receivedAt, JSON.stringify(op));
+
+    if (result.changes === 0) {
+      return false;
+    }
+
+    this.lastReceivedAt = receivedAt;
+    return true;
+  }
+
+  /**
+   * Operations received after `since` (or `cursor`), oldest first
+   */
+  async getOperations(filter: OperationFilter): Promise<OperationPage> {
+    const limit = filter.limit ?? DEFAULT_PAGE_SIZE;
+    const conditions = ['received_at > @after'];
+    if (filter.deviceId) conditions.push('device_id = @deviceId');
+    if (filter.excludeDeviceId) conditions.push('(device_id IS NULL OR device_id != @excludeDeviceId)');
+
+    // One extra row tells whether another page follows
+    const rows = this.db
+      .prepare(
+        `SELECT data, received_at FROM operations
+         WHERE ${conditions.join(' AND ')}
+         ORDER BY received_at
+         LIMIT @limit`
+      )
+      .all({
+        after: Math.max(filter.since ?? 0, filter.cursor ?? 0),
+        deviceId: filter.deviceId,
+        excludeDeviceId: filter.excludeDeviceId,
+        limit: limit + 1,
+      }) as { data: string; received_at: number }[];
+
+    const page = rows.slice(0, limit);
+    return {
+      operations: page.map((row) => JSON.parse(row.data) as SyncOperation),
+      hasMore: rows.length > limit,
+      nextCursor: page.length > 0 ? page[page.length - 1].received_at : undefined,
+    };
+  }
+
+  async getServerVectorClock(): Promise<VectorClock> {
+    const rows = this.db.prepare('SELECT device_id, value FROM vector_clock').all() as {
+      device_id: string;
+      value: number;
+    }[];
+    return Object.fromEntries(rows.map((row) => [row.device_id, row.value]));
+  }
+
+  /**
+   * Raise a device's entry of the server clock (never lowers it)
+   */
+  async updateVectorClock(deviceId: string, value: number): Promise<void> {
+    this.db
+      .prepare(
+        `INSERT INTO vector_clock (device_id, value) VALUES (?, ?)
+         ON CONFLICT (device_id) DO UPDATE SET value = MAX(value, excluded.value)`
+      )
+      .run(deviceId, value);
+  }
+
+  async getServerStats(): Promise<ServerStats> {
+    const count = (sql: string, ...params: unknown[]) =>
+      (this.db.prepare(sql).get(...params) as { count: number }).count;
+    const { size } = this.db
+      .prepare('SELECT page_count * page_size AS size FROM pragma_page_count(), pragma_page_size()')
+      .get() as { size: number };
+
+    return {
+      totalDevices: count('SELECT COUNT(*) AS count FROM devices'),
+      activeDevices: count('SELECT COUNT(*) AS count FROM devices WHERE last_seen_at > ?', Date.now() - ACTIVE_WINDOW_MS),
+      totalOperations: count('SELECT COUNT(*) AS count FROM operations'),
+      storageUsedBytes: size,
+    };
+  }
+
+  close(): void {
+    this.db.close();
+  }
+}
@@ -0,0 +1,506 @@
+/**
+ * Sync Server
+ * Reference relay for the Engram sync protocol (see @engram/core types/sync)
+ *
+ * Protocol:
+ * - CONNECT → CHALLENGE → AUTHENTICATE → CONNECTED: the device signs a nonce
+ *   with the key it registered; a new device registers the key it signs with,
+ *   and only when it presents the server's registration token; revoked devices
+ *   and bad signatures are refused; CONNECTED lists the registered devices
+ * - SYNC_REQUEST → SYNC_RESPONSE: stored operations from other devices after
+ *   `since`, one page at a time; request again with `nextCursor` while `hasMore`
+ * - OPERATION → ACK: the operation is stored, acknowledged with the
+ *   OPERATION's messageId, and broadcast to the other connected devices
+ * - DEVICES: sent to the connected devices when a device registers or is
+ *   revoked, so they fetch the account's registrations again
+ * - HEARTBEAT: sent every interval; connections silent for two intervals are
+ *   closed
+ *
+ * The server only relays: memories arrive encrypted and signed, and devices
+ * verify signatures themselves.
+ */
+
+import { createHash, createPublicKey, randomBytes, randomUUID, timingSafeEqual, verify } from 'crypto';
+import type { AddressInfo } from 'net';
+import { WebSocketServer, WebSocket, type RawData } from 'ws';
+import { connectChallengeSigningData } from '@engram/core';
+import type {
+  AuthenticateMessage,
+  ConnectMessage,
+  IStorageBackend,
+  OperationMessage,
+  SyncOperation,
+  SyncRequestMessage,
+  UUID,
+  WebSocketMessage,
+} from '@engram/core';
+
+export interface SyncServerConfig {
+  port: number; // 0 picks a free port
+  host?: string;
+  path: string;
+  pageSize: number; // Operations per SYNC_RESPONSE
+  heartbeatInterval: number;
+  registrationToken?: string; // New devices must present it in CONNECT; without one no device can register
+}
+
+export const DEFAULT_SYNC_SERVER_CONFIG: SyncServerConfig = {
+  port: 3001,
+  path: '/ws',
+  pageSize: 100,
+  heartbeatInterval: 30000, // 30 seconds
+};
+
+/**
+ * One client connection
+ */
+interface Connection {
+  socket: WebSocket;
+  deviceId: UUID | null; // Set once AUTHENTICATE succeeds
+  challenge: PendingChallenge | null; // Set by CONNECT
+  lastMessageAt: number;
+}
+
+/**
+ * CONNECT waiting for its AUTHENTICATE
+ */
+interface PendingChallenge {
+  nonce: string;
+  deviceId: UUID;
+  deviceName: string;
+  publicKey: string;
+  registered: boolean;
+}
+
+const OPERATION_TYPES = new Set(['add', 'update', 'delete']);
+
+/**
+ * Error sent back to the client as an ERROR message
+ */
+class ProtocolError extends Error {
+  constructor(
+    public code: string,
+    message: string,
+    public retryable = false
+  ) {
+    super(message);
+  }
+}
+
+/**
+ * Check an Ed25519 signature against a raw base64 public key
+ */
+function verifySignature(data: string, signature: string, publicKey: string): boolean {
+  try {
+    const key = createPublicKey({
+      key: { kty: 'OKP', crv: 'Ed25519', x: Buffer.from(publicKey, 'base64').toString('base64url') },
+      format: 'jwk',
+    });
+    return verify(null, Buffer.from(data), key, Buffer.from(signature, 'base64'));
+  } catch {
+    // Malformed key or signature
+    return false;
+  }
+}
+
+/**
+ * Compare a presented token with the expected one in constant time
+ */
+function tokenMatches(presented: unknown, expected: string): boolean {
+  if (typeof presented !== 'string') return false;
+  const digest = (token: string) => createHash('sha256').update(token).digest();
+  return timingSafeEqual(digest(presented), digest(expected));
+}
+
+function isOperation(value: any): value is SyncOperation {
+  return (
+    !!value &&
+    typeof value.id === 'string' &&
+    typeof value.memoryId === 'string' &&
+    OPERATION_TYPES.has(value.type) &&
+    typeof value.vectorClock === 'object'
+  );
+}
+
+export class SyncServer {
+  private wss: WebSocketServer | null = null;
+  private connections: Set<Connection> = new Set();
+  private heartbeatTimer: NodeJS.Timeout | null = null;
+  private config: SyncServerConfig;
+
+  constructor(
+    private backend: IStorageBackend,
+    config: Partial<SyncServerConfig> = {}
+  ) {
+    this.config = { ...DEFAULT_SYNC_SERVER_CONFIG, ...config };
+  }
+
+  /**
+   * Start listening
+   */
+  async start(): Promise<void> {
+    if (this.wss) {
+      return;
+    }
+
+    const wss = new WebSocketServer({ port: this.config.port, host: this.config.host, path: this.config.path });
+    this.wss = wss;
+    wss.on('connection', (socket) => this.handleConnection(socket));
+
+    await new Promise<void>((resolve, reject) => {
+      wss.once('listening', resolve);
+      wss.once('error', reject);
+    });
+
+    this.heartbeatTimer = setInterval(() => this.heartbeat(), this.config.heartbeatInterval);
+    console.log(`[SyncServer] Listening on ws://${this.config.host || 'localhost'}:${this.getPort()}${this.config.path}`);
+  }
+
+  /**
+   * Port the server listens on
+   */
+  getPort(): number {
+    return (this.wss?.address() as AddressInfo | null)?.port ?? this.config.port;
+  }
+
+  /**
+   * Devices with an open connection
+   */
+  getConnectedDevices(): UUID[] {
+    return [...this.connections].flatMap((connection) => (connection.deviceId ? [connection.deviceId] : []));
+  }
+
+  /**
+   * Revoke a device: its connections are closed, it cannot connect again, and
+   * the other devices stop trusting its signatures
+   */
+  async revokeDevice(deviceId: UUID): Promise<void> {
+    await this.backend.revokeDevice(deviceId);
+
+    for (const connection of this.connections) {
+      if (connection.deviceId !== deviceId) continue;
+      this.sendError(connection, new ProtocolError('DEVICE_REVOKED', 'This device was revoked'));
+      connection.socket.close(4003, 'Device revoked');
+      connection.deviceId = null;
+    }
+
+    console.log(`[SyncServer] Device revoked: ${deviceId}`);
+    await this.broadcastDevices();
+  }
+
+  /**
+   * Close every connection and stop listening
+   */
+  async stop(): Promise<void> {
+    if (this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = null;
+    }
+
+    for (const connection of this.connections) {
+      connection.socket.terminate();
+    }
+    this.connections.clear();
+
+    const wss = this.wss;
+    this.wss = null;
+    if (wss) {
+      await new Promise<void>((resolve) => wss.close(() => resolve()));
+    }
+  }
+
+  private handleConnection(socket: WebSocket): void {
+    const connection: Connection = { socket, deviceId: null, challenge: null, lastMessageAt: Date.now() };
+    this.connections.add(connection);
+
+    socket.on('message', (data) => {
+      connection.lastMessageAt = Date.now();
+      this.handleMessage(connection, data).catch((error) => {
+        console.error('[SyncServer] Failed to handle message:', error);
+        this.sendError(connection, new ProtocolError('INTERNAL_ERROR', 'Internal server error', true));
+      });
+    });
+
+    socket.on('close', () => {
+      // Already gone when the server closed it
+      if (this.connections.delete(connection) && connection.deviceId) {
+        console.log(`[SyncServer] Device disconnected: ${connection.deviceId}`);
+      }
+    });
+
+    socket.on('error', (error) => {
+      console.warn('[SyncServer] Socket error:', error.message);
+    });
+  }
+
+  private async handleMessage(connection: Connection, data: RawData): Promise<void> {
+    let message: WebSocketMessage;
+    try {
+      message = JSON.parse(data.toString());
+    } catch {
+      this.sendError(connection, new ProtocolError('INVALID_MESSAGE', 'Message is not valid JSON'));
+      return;
+    }
+
+    try {
+      const handshake = message.type === 'CONNECT' || message.type === 'AUTHENTICATE';
+      if (!handshake && message.type !== 'HEARTBEAT' && !connection.deviceId) {
+        throw new ProtocolError('NOT_CONNECTED', 'Send CONNECT first');
+      }
+
+      switch (message.type) {
+        case 'CONNECT':
+          await this.handleConnect(connection, message);
+          break;
+
+        case 'AUTHENTICATE':
+          await this.handleAuthenticate(connection, message);
+          break;
+
+        case 'SYNC_REQUEST':
+          await this.handleSyncRequest(connection, message);
+          break;
+
+        case 'OPERATION':
+          await this.handleOperation(connection, message);
+          break;
+
+        case 'HEARTBEAT':
+          // Liveness is recorded on every message
+          break;
+
+        default:
+          throw new ProtocolError('UNKNOWN_MESSAGE', `Unknown message type: ${(message as any).type}`);
+      }
+    } catch (error) {
+      if (!(error instanceof ProtocolError)) throw error;
+      this.sendError(connection, error);
+    }
+  }
+
+  private async handleConnect(connection: Connection, message: ConnectMessage): Promise<void> {
+    const { deviceId, deviceName, publicKey, registrationToken } = message.payload || ({} as ConnectMessage['payload']);
+    if (typeof deviceId !== 'string' || !deviceId) {
+      throw new ProtocolError('INVALID_MESSAGE', 'CONNECT requires a deviceId');
+    }
+
+    const device = await this.backend.getDevice(deviceId);
+    if (device?.revokedAt !== undefined) {
+      this.sendError(connection, new ProtocolError('DEVICE_REVOKED', 'This device was revoked'));
+      connection.socket.close(4003, 'Device revoked');
+      return;
+    }
+    if (!device && (typeof publicKey !== 'string' || !publicKey)) {
+      throw new ProtocolError('INVALID_MESSAGE', 'CONNECT of a new device requires its publicKey');
+    }
+    // The challenge only proves the device holds its key, not that it belongs to the account
+    if (!device && !(this.config.registrationToken && tokenMatches(registrationToken, this.config.registrationToken))) {
+      console.warn(`[SyncServer] Registration refused: ${deviceId}`);
+      this.sendError(connection, new ProtocolError('REGISTRATION_REFUSED', 'New devices need a valid registration token'));
+      connection.socket.close(4001, 'Registration refused');
+      return;
+    }
+
+    // A known device proves it holds the key it registered, whatever key it sends now
+    connection.deviceId = null;
+    connection.challenge = {
+      nonce: randomBytes(32).toString('base64'),
+      deviceId,
+      deviceName: deviceName || 'Unknown device',
+      publicKey: device ? device.publicKey : publicKey,
+      registered: !!device,
+    };
+
+    this.send(connection, {
+      type: 'CHALLENGE',
+      timestamp: Date.now(),
+      messageId: randomUUID(),
+      payload: { nonce: connection.challenge.nonce },
+    });
+  }
+
+  private async handleAuthenticate(connection: Connection, message: AuthenticateMessage): Promise<void> {
+    const challenge = connection.challenge;
+    if (!challenge) {
+      throw new ProtocolError('NOT_CONNECTED', 'Send CONNECT first');
+    }
+    connection.challenge = null; // One answer per nonce
+
+    const signature = message.payload?.signature;
+    const data = connectChallengeSigningData(challenge.deviceId, challenge.nonce);
+    if (typeof signature !== 'string' || !verifySignature(data, signature, challenge.publicKey)) {
+      console.warn(`[SyncServer] Authentication failed: ${challenge.deviceId}`);
+      this.sendError(connection, new ProtocolError('AUTHENTICATION_FAILED', 'Challenge signature does not match the device key'));
+      connection.socket.close(4001, 'Authentication failed');
+      return;
+    }
+
+    const { deviceId } = challenge;
+    const now = Date.now();
+    if (challenge.registered) {
+      await this.backend.updateDeviceLastSeen(deviceId, now);
+    } else {
+      await this.backend.registerDevice({
+        id: deviceId,
+        name: challenge.deviceName,
+        publicKey: challenge.publicKey,
+        platform: 'unknown',
+        createdAt: now,
+      });
+
+      // Another connection may have registered this device with its own key meanwhile
+      const device = await this.backend.getDevice(deviceId);
+      if (device?.publicKey !== challenge.publicKey) {
+        this.sendError(connection, new ProtocolError('AUTHENTICATION_FAILED', 'Device was registered with another key'));
+        connection.socket.close(4001, 'Authentication failed');
+        return;
+      }
+    }
+
+    connection.deviceId = deviceId;
+    console.log(`[SyncServer] Device connected: ${deviceId}`);
+
+    this.send(connection, {
+      type: 'CONNECTED',
+      timestamp: now,
+      messageId: randomUUID(),
+      payload: {
+        serverTime: now,
+        serverVectorClock: await this.backend.getServerVectorClock(),
+        connectedDevices: this.getConnectedDevices().filter((id) => id !== deviceId),
+        devices: await this.backend.getDevices(),
+      },
+    });
+
+    if (!challenge.registered) {
+      await this.broadcastDevices(connection);
+    }
+  }
+
+  private async handleSyncRequest(connection: Connection, message: SyncRequestMessage): Promise<void> {
+    const since = Number(message.payload?.since) || 0;
+
+    const page = await this.backend.getOperations({
+      since,
+      excludeDeviceId: connection.deviceId!,
+      limit: this.config.pageSize,
+    });
+
+    this.send(connection, {
+      type: 'SYNC_RESPONSE',
+      timestamp: Date.now(),
+      messageId: randomUUID(),
+      payload: page,
+    });
+  }
+
+  private async handleOperation(connection: Connection, message: OperationMessage): Promise<void> {
+    const operation = message.payload?.operation;
+    if (!isOperation(operation)) {
+      this.sendAck(connection, message.messageId, false);
+      throw new ProtocolError('INVALID_OPERATION', 'Operation is missing id, type, memoryId or vectorClock');
+    }
+    if (operation.deviceId !== connection.deviceId) {
+      this.sendAck(connection, message.messageId, false);
+      throw new ProtocolError('INVALID_OPERATION', 'Operations must come from the device that wrote them');
+    }
+
+    const stored = await this.backend.storeOperation(operation);
+    if (stored) {
+      const counter = operation.vectorClock[connection.deviceId];
+      if (typeof counter === 'number') {
+        await this.backend.updateVectorClock(connection.deviceId, counter);
+      }
+      this.broadcast(connection, operation);
+    }
+
+    // Acknowledged once stored; a resent duplicate is acknowledged again
+    this.sendAck(connection, message.messageId, true);
+  }
+
+  /**
+   * Forward a new operation to every other connected device
+   */
+  private broadcast(from: Connection, operation: SyncOperation): void {
+    for (const connection of this.connections) {
+      if (connection === from || !connection.deviceId || connection.deviceId === from.deviceId) continue;
+
+      this.send(connection, {
+        type: 'OPERATION',
+        timestamp: Date.now(),
+        messageId: randomUUID(),
+        payload: { operation },
+      });
+    }
+  }
+
+  /**
+   * Send the device registrations to every connected device except `except`
+   */
+  private async broadcastDevices(except?: Connection): Promise<void> {
+    const devices = await this.backend.getDevices();
+
+    for (const connection of this.connections) {
+      if (connection === except || !connection.deviceId) continue;
+
+      this.send(connection, {
+        type: 'DEVICES',
+        timestamp: Date.now(),
+        messageId: randomUUID(),
+        payload: { devices },
+      });
+    }
+  }
+
+  /**
+   * Close silent connections, then ping the rest
+   */
+  private heartbeat(): void {
+    const now = Date.now();
+
+    for (const connection of this.connections) {
+      if (now - connection.lastMessageAt > this.config.heartbeatInterval * 2) {
+        console.log(`[SyncServer] Closing silent connection: ${connection.deviceId || 'not connected'}`);
+        connection.socket.terminate();
+        this.connections.delete(connection);
+        continue;
+      }
+
+      if (connection.deviceId) {
+        this.backend.updateDeviceLastSeen(connection.deviceId, connection.lastMessageAt).catch((error) => {
+          console.warn('[SyncServer] Failed to update last seen:', error);
+        });
+      }
+
+      this.send(connection, {
+        type: 'HEARTBEAT',
+        timestamp: now,
+        messageId: randomUUID(),
+        payload: { timestamp: now },
+      });
+    }
+  }
+
+  private sendAck(connection: Connection, messageId: UUID, success: boolean): void {
+    this.send(connection, {
+      type: 'ACK',
+      timestamp: Date.now(),
+      messageId: randomUUID(),
+      payload: { messageId, success },
+    });
+  }
+
+  private sendError(connection: Connection, error: ProtocolError): void {
+    this.send(connection, {
+      type: 'ERROR',
+      timestamp: Date.now(),
+      messageId: randomUUID(),
+      payload: { code: error.code, message: error.message, retryable: error.retryable },
+    });
+  }
+
+  private send(connection: Connection, message: WebSocketMessage): void {
+    if (connection.socket.readyState !== WebSocket.OPEN) return;
+    connection.socket.send(JSON.stringify(message));
+  }
+}
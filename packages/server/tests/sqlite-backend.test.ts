@@ -0,0 +1,121 @@
+/**
+ * SQLite Storage Backend Tests
+ * Tests for operation storage, pagination, devices and the server vector clock
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import type { SyncOperation } from '@engram/core';
+import { SqliteStorageBackend } from '../src/sqlite-backend';
+
+function operation(id: string, deviceId = 'device-a'): SyncOperation {
+  return {
+    id,
+    type: 'add',
+    memoryId: `mem-${id}`,
+    vectorClock: { [deviceId]: 1 },
+    deviceId,
+    payload: null,
+    signature: 'sig',
+    timestamp: 1,
+  };
+}
+
+describe('SqliteStorageBackend', () => {
+  let backend: SqliteStorageBackend;
+
+  beforeEach(() => {
+    backend = new SqliteStorageBackend(':memory:');
+  });
+
+  afterEach(() => {
+    backend.close();
+  });
+
+  it('should page through operations in the order they were received', async () => {
+    for (let i = 0; i < 5; i++) {
+      await backend.storeOperation(operation(`op-${i}`));
+    }
+
+    const first = await backend.getOperations({ since: 0, limit: 2 });
+    const second = await backend.getOperations({ since: first.nextCursor, limit: 2 });
+    const last = await backend.getOperations({ since: second.nextCursor, limit: 2 });
+
+    expect(first.operations.map((op) => op.id)).toEqual(['op-0', 'op-1']);
+    expect(first.hasMore).toBe(true);
+    expect(second.operations.map((op) => op.id)).toEqual(['op-2', 'op-3']);
+    expect(last.operations.map((op) => op.id)).toEqual(['op-4']);
+    expect(last.hasMore).toBe(false);
+  });
+
+  it('should store each operation once and return it unchanged', async () => {
+    const op = operation('op-1');
+
+    expect(await backend.storeOperation(op)).toBe(true);
+    expect(await backend.storeOperation(op)).toBe(false);
+
+    const page = await backend.getOperations({});
+    expect(page.operations).toEqual([op]);
+  });
+
+  it('should leave out the requesting device', async () => {
+    await backend.storeOperation(operation('op-a', 'device-a'));
+    await backend.storeOperation(operation('op-b', 'device-b'));
+
+    const page = await backend.getOperations({ excludeDeviceId: 'device-a' });
+
+    expect(page.operations.map((op) => op.id)).toEqual(['op-b']);
+  });
+
+  it('should only raise the server vector clock', async () => {
+    await backend.updateVectorClock('device-a', 3);
+    await backend.updateVectorClock('device-a', 2);
+    await backend.updateVectorClock('device-b', 1);
+
+    expect(await backend.getServerVectorClock()).toEqual({ 'device-a': 3, 'device-b': 1 });
+  });
+
+  it('should register, revoke and count devices', async () => {
+    await backend.registerDevice({ id: 'device-a', name: 'Laptop', publicKey: 'key-a', platform: 'linux', createdAt: 1 });
+    await backend.registerDevice({ id: 'device-a', name: 'Renamed', publicKey: 'key-b', platform: 'linux', createdAt: 2 });
+    await backend.revokeDevice('device-a', 5);
+
+    expect(await backend.getDevice('device-a')).toMatchObject({ name: 'Renamed', publicKey: 'key-a', revokedAt: 5 });
+    expect(await backend.getDevice('device-b')).toBeNull();
+    expect(await backend.getServerStats()).toMatchObject({ totalDevices: 1, totalOperations: 0 });
+  });
+
+  it('should list devices in the order they registered, revoked ones included', async () => {
+    await backend.registerDevice({ id: 'device-b', name: 'Phone', publicKey: 'key-b', platform: 'ios', createdAt: 2 });
+    await backend.registerDevice({ id: 'device-a', name: 'Laptop', publicKey: 'key-a', platform: 'linux', createdAt: 1 });
+    await backend.revokeDevice('device-b', 5);
+
+    const devices = await backend.getDevices();
+
+    expect(devices.map((device) => device.id)).toEqual(['device-a', 'device-b']);
+    expect(devices[0].revokedAt).toBeUndefined();
+    expect(devices[1]).toMatchObject({ publicKey: 'key-b', revokedAt: 5 });
+  });
+
+  it('should keep operations and cursors across restarts', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'engram-sync-'));
+    const file = join(dir, 'sync.db');
+    try {
+      const first = new SqliteStorageBackend(file);
+      await first.storeOperation(operation('op-1'));
+      const { nextCursor } = await first.getOperations({});
+      first.close();
+
+      const reopened = new SqliteStorageBackend(file);
+      await reopened.storeOperation(operation('op-2'));
+      const page = await reopened.getOperations({ since: nextCursor });
+      reopened.close();
+
+      expect(page.operations.map((op) => op.id)).toEqual(['op-2']);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
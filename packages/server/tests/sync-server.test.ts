@@ -0,0 +1,345 @@
+/**
+ * Sync Server Tests
+ * Tests for the WebSocket protocol: authenticated connect, sync pages, operations, acks and heartbeat
+ */
+
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import { generateKeyPairSync, randomUUID, sign } from 'crypto';
+import WebSocket from 'ws';
+import { connectChallengeSigningData } from '@engram/core';
+import type { SyncOperation, WebSocketMessage } from '@engram/core';
+import { SyncServer } from '../src/sync-server';
+import { SqliteStorageBackend } from '../src/sqlite-backend';
+
+const REGISTRATION_TOKEN = 'registration-token';
+
+/**
+ * Ed25519 device key, public half in the raw base64 form devices register
+ */
+function deviceKey() {
+  const { publicKey, privateKey } = generateKeyPairSync('ed25519');
+  return {
+    publicKey: Buffer.from(publicKey.export({ format: 'jwk' }).x!, 'base64url').toString('base64'),
+    sign: (data: string) => sign(null, Buffer.from(data), privateKey).toString('base64'),
+  };
+}
+
+/**
+ * A raw protocol client that records what the server sends
+ */
+class TestClient {
+  received: WebSocketMessage[] = [];
+  key = deviceKey();
+  private waiters: Array<() => void> = [];
+
+  constructor(public socket: WebSocket) {
+    socket.on('message', (data) => {
+      this.received.push(JSON.parse(data.toString()));
+      this.waiters.splice(0).forEach((wake) => wake());
+    });
+  }
+
+  static async open(port: number): Promise<TestClient> {
+    const socket = new WebSocket(`ws://localhost:${port}/ws`);
+    await new Promise((resolve, reject) => {
+      socket.once('open', resolve);
+      socket.once('error', reject);
+    });
+    return new TestClient(socket);
+  }
+
+  send(type: string, payload: unknown, messageId: string = randomUUID()): void {
+    this.socket.send(JSON.stringify({ type, timestamp: Date.now(), messageId, payload }));
+  }
+
+  /**
+   * Next received message of a type, waiting for it if needed
+   */
+  async next<T extends WebSocketMessage['type']>(type: T): Promise<Extract<WebSocketMessage, { type: T }>> {
+    for (;;) {
+      const index = this.received.findIndex((message) => message.type === type);
+      if (index >= 0) {
+        return this.received.splice(index, 1)[0] as Extract<WebSocketMessage, { type: T }>;
+      }
+      await new Promise<void>((resolve) => this.waiters.push(resolve));
+    }
+  }
+
+  /**
+   * CONNECT and answer the challenge with this client's key
+   */
+  async authenticate(deviceId: string, deviceName = deviceId): Promise<void> {
+    const { publicKey } = this.key;
+    this.send('CONNECT', { deviceId, deviceName, publicKey, vectorClock: {}, lastSyncTimestamp: 0, registrationToken: REGISTRATION_TOKEN });
+    const { nonce } = (await this.next('CHALLENGE')).payload;
+    this.send('AUTHENTICATE', { signature: this.key.sign(connectChallengeSigningData(deviceId, nonce)) });
+  }
+
+  async connect(deviceId: string): Promise<void> {
+    await this.authenticate(deviceId);
+    await this.next('CONNECTED');
+  }
+
+  close(): void {
+    this.socket.close();
+  }
+}
+
+function operation(id: string, deviceId: string, counter = 1): SyncOperation {
+  return {
+    id,
+    type: 'add',
+    memoryId: `mem-${id}`,
+    vectorClock: { [deviceId]: counter },
+    deviceId,
+    payload: null,
+    signature: 'sig',
+    timestamp: Date.now(),
+  };
+}
+
+describe('SyncServer', () => {
+  let backend: SqliteStorageBackend;
+  let server: SyncServer;
+  let clients: TestClient[];
+
+  const open = async (deviceId?: string) => {
+    const client = await TestClient.open(server.getPort());
+    clients.push(client);
+    if (deviceId) await client.connect(deviceId);
+    return client;
+  };
+
+  beforeEach(async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    backend = new SqliteStorageBackend(':memory:');
+    server = new SyncServer(backend, { port: 0, pageSize: 2, registrationToken: REGISTRATION_TOKEN });
+    await server.start();
+    clients = [];
+  });
+
+  afterEach(async () => {
+    clients.forEach((client) => client.close());
+    await server.stop();
+    backend.close();
+    jest.restoreAllMocks();
+  });
+
+  it('should register devices on connect and list the others online', async () => {
+    await open('device-a');
+    const b = await open();
+
+    await b.authenticate('device-b', 'Laptop');
+    const connected = await b.next('CONNECTED');
+
+    expect(connected.payload.connectedDevices).toEqual(['device-a']);
+    expect(await backend.getDevice('device-b')).toMatchObject({ name: 'Laptop', publicKey: b.key.publicKey });
+  });
+
+  it('should send the device registrations on connect and when a device registers', async () => {
+    const a = await open('device-a');
+    const b = await open();
+
+    await b.authenticate('device-b');
+    const connected = await b.next('CONNECTED');
+    const update = await a.next('DEVICES');
+
+    expect(connected.payload.devices.map((device) => [device.id, device.publicKey])).toEqual([
+      ['device-a', a.key.publicKey],
+      ['device-b', b.key.publicKey],
+    ]);
+    expect(update.payload.devices).toEqual(connected.payload.devices);
+    expect(b.received.some((message) => message.type === 'DEVICES')).toBe(false);
+  });
+
+  it('should not resend the registrations when a known device reconnects', async () => {
+    const a = await open('device-a');
+    const b = await open('device-b');
+    await a.next('DEVICES');
+    b.close();
+
+    const again = await open();
+    again.key = b.key;
+    await again.connect('device-b');
+    a.send('SYNC_REQUEST', { since: 0 });
+    await a.next('SYNC_RESPONSE');
+
+    expect(a.received.some((message) => message.type === 'DEVICES')).toBe(false);
+  });
+
+  it('should refuse to register a device without the registration token', async () => {
+    const refused = async (registrationToken?: string) => {
+      const client = await open();
+      const closed = new Promise<number>((resolve) => client.socket.once('close', resolve));
+      const { publicKey } = client.key;
+      client.send('CONNECT', { deviceId: 'device-x', deviceName: 'Stranger', publicKey, vectorClock: {}, lastSyncTimestamp: 0, registrationToken });
+
+      expect((await client.next('ERROR')).payload.code).toBe('REGISTRATION_REFUSED');
+      expect(client.received.some((message) => message.type === 'CHALLENGE')).toBe(false);
+      expect(await closed).toBe(4001);
+    };
+    const a = await open('device-a');
+
+    await refused(undefined);
+    await refused('guess');
+
+    expect(await backend.getDevice('device-x')).toBeNull();
+    expect(a.received.some((message) => message.type === 'DEVICES')).toBe(false);
+  });
+
+  it('should only let registered devices connect when no token is configured', async () => {
+    const registered = await open('device-a');
+    await server.stop();
+    server = new SyncServer(backend, { port: 0 });
+    await server.start();
+
+    const known = await open();
+    known.key = registered.key;
+    await known.connect('device-a');
+    const stranger = await open();
+    stranger.send('CONNECT', { deviceId: 'device-x', deviceName: 'Stranger', publicKey: stranger.key.publicKey, vectorClock: {}, lastSyncTimestamp: 0, registrationToken: '' });
+
+    expect((await stranger.next('ERROR')).payload.code).toBe('REGISTRATION_REFUSED');
+    expect(known.received.some((message) => message.type === 'ERROR')).toBe(false);
+  });
+
+  it('should refuse a device that cannot sign with its registered key', async () => {
+    const a = await open('device-a');
+    const impostor = await open();
+    const closed = new Promise<number>((resolve) => impostor.socket.once('close', resolve));
+
+    // Claiming the registered public key does not help without its private half
+    impostor.send('CONNECT', { deviceId: 'device-a', deviceName: 'Phone', publicKey: a.key.publicKey, vectorClock: {}, lastSyncTimestamp: 0 });
+    const { nonce } = (await impostor.next('CHALLENGE')).payload;
+    impostor.send('AUTHENTICATE', { signature: impostor.key.sign(connectChallengeSigningData('device-a', nonce)) });
+
+    expect((await impostor.next('ERROR')).payload.code).toBe('AUTHENTICATION_FAILED');
+    expect(await closed).toBe(4001);
+    expect(server.getConnectedDevices()).toEqual(['device-a']);
+  });
+
+  it('should not accept a signature made for another device', async () => {
+    const client = await open();
+    const closed = new Promise<number>((resolve) => client.socket.once('close', resolve));
+
+    client.send('CONNECT', {
+      deviceId: 'device-a',
+      deviceName: 'Phone',
+      publicKey: client.key.publicKey,
+      vectorClock: {},
+      lastSyncTimestamp: 0,
+      registrationToken: REGISTRATION_TOKEN,
+    });
+    const { nonce } = (await client.next('CHALLENGE')).payload;
+    client.send('AUTHENTICATE', { signature: client.key.sign(connectChallengeSigningData('device-b', nonce)) });
+
+    expect((await client.next('ERROR')).payload.code).toBe('AUTHENTICATION_FAILED');
+    expect(await closed).toBe(4001);
+    expect(await backend.getDevice('device-a')).toBeNull();
+  });
+
+  it('should refuse messages before CONNECT', async () => {
+    const client = await open();
+
+    client.send('SYNC_REQUEST', { deviceId: 'device-a', vectorClock: {}, since: 0 });
+
+    expect((await client.next('ERROR')).payload.code).toBe('NOT_CONNECTED');
+  });
+
+  it('should acknowledge, store and broadcast operations', async () => {
+    const a = await open('device-a');
+    const b = await open('device-b');
+
+    a.send('OPERATION', { operation: operation('op-1', 'device-a', 4) }, 'op-1');
+    const ack = await a.next('ACK');
+    const broadcast = await b.next('OPERATION');
+
+    expect(ack.payload).toEqual({ messageId: 'op-1', success: true });
+    expect(broadcast.payload.operation.id).toBe('op-1');
+    expect(await backend.getServerVectorClock()).toEqual({ 'device-a': 4 });
+    expect(a.received.some((message) => message.type === 'OPERATION')).toBe(false);
+  });
+
+  it('should not broadcast a resent operation again', async () => {
+    const a = await open('device-a');
+    const b = await open('device-b');
+
+    a.send('OPERATION', { operation: operation('op-1', 'device-a') }, 'op-1');
+    await a.next('ACK');
+    a.send('OPERATION', { operation: operation('op-1', 'device-a') }, 'op-1');
+    expect((await a.next('ACK')).payload.success).toBe(true);
+
+    await b.next('OPERATION');
+    expect(b.received.filter((message) => message.type === 'OPERATION')).toHaveLength(0);
+  });
+
+  it('should reject operations written by another device', async () => {
+    const a = await open('device-a');
+
+    a.send('OPERATION', { operation: operation('op-1', 'device-b') }, 'op-1');
+
+    expect((await a.next('ACK')).payload).toEqual({ messageId: 'op-1', success: false });
+    expect((await a.next('ERROR')).payload.code).toBe('INVALID_OPERATION');
+    expect((await backend.getOperations({})).operations).toEqual([]);
+  });
+
+  it('should page sync responses from the cursor', async () => {
+    for (let i = 0; i < 3; i++) {
+      await backend.storeOperation(operation(`op-${i}`, 'device-a'));
+    }
+    await backend.storeOperation(operation('op-own', 'device-b'));
+    const b = await open('device-b');
+
+    b.send('SYNC_REQUEST', { deviceId: 'device-b', vectorClock: {}, since: 0 });
+    const first = await b.next('SYNC_RESPONSE');
+    b.send('SYNC_REQUEST', { deviceId: 'device-b', vectorClock: {}, since: first.payload.nextCursor });
+    const second = await b.next('SYNC_RESPONSE');
+
+    expect(first.payload.operations.map((op) => op.id)).toEqual(['op-0', 'op-1']);
+    expect(first.payload.hasMore).toBe(true);
+    expect(second.payload.operations.map((op) => op.id)).toEqual(['op-2']);
+    expect(second.payload.hasMore).toBe(false);
+  });
+
+  it('should refuse revoked devices', async () => {
+    await backend.registerDevice({ id: 'device-a', name: 'Old phone', publicKey: 'key', platform: 'ios', createdAt: 1 });
+    await backend.revokeDevice('device-a');
+    const client = await open();
+    const closed = new Promise<number>((resolve) => client.socket.once('close', resolve));
+
+    client.send('CONNECT', { deviceId: 'device-a', deviceName: 'Old phone', publicKey: 'key', vectorClock: {}, lastSyncTimestamp: 0 });
+
+    expect((await client.next('ERROR')).payload.code).toBe('DEVICE_REVOKED');
+    expect(client.received.some((message) => message.type === 'CHALLENGE')).toBe(false);
+    expect(await closed).toBe(4003);
+  });
+
+  it('should revoke a device, disconnect it and tell the others', async () => {
+    const a = await open('device-a');
+    const b = await open('device-b');
+    await a.next('DEVICES');
+    const closed = new Promise<number>((resolve) => b.socket.once('close', resolve));
+
+    await server.revokeDevice('device-b');
+
+    expect((await b.next('ERROR')).payload.code).toBe('DEVICE_REVOKED');
+    expect(await closed).toBe(4003);
+    expect((await a.next('DEVICES')).payload.devices.find((device) => device.id === 'device-b')).toMatchObject({
+      revokedAt: expect.any(Number),
+    });
+    expect(server.getConnectedDevices()).toEqual(['device-a']);
+  });
+
+  it('should send heartbeats and close silent connections', async () => {
+    await server.stop();
+    server = new SyncServer(backend, { port: 0, heartbeatInterval: 50, registrationToken: REGISTRATION_TOKEN });
+    await server.start();
+    const client = await open('device-a');
+    const closed = new Promise<void>((resolve) => client.socket.once('close', () => resolve()));
+
+    await client.next('HEARTBEAT');
+    await closed;
+
+    expect(server.getConnectedDevices()).toEqual([]);
+  });
+});